@@ -16,6 +16,7 @@ import { buildGenerationConfig as buildGenerationConfigService, GenerationServic
 import { DataTransformService } from './services/dataTransformService';
 import { SessionService } from './services/sessionService';
 import { FileService } from './services/fileService';
+import { BATCH_JOB_TYPE, importBatchLogs } from './services/batchService';
 import * as backendClient from './services/backendClient';
 import { useLogManagement } from './hooks/useLogManagement';
 import { DataSource, Environment, ProviderType as ProviderTypeEnum, ExternalProvider as ExternalProviderEnum, ApiType as ApiTypeEnum, AppView, ViewMode, DeepPhase, ResponderPhase, PromptCategory, PromptRole, FeedDisplayMode, ThemeMode } from './interfaces/enums';
@@ -323,6 +324,9 @@ export default function App() {
             },
             rewriter: {
                 id: DeepPhase.Rewriter, enabled: false, provider: ProviderTypeEnum.Gemini, externalProvider: ExternalProviderEnum.OpenRouter, apiType: ApiTypeEnum.Chat, apiKey: '', model: 'gemini-3-flash-preview', customBaseUrl: '', systemPrompt: PromptService.getPrompt(PromptCategory.Converter, PromptRole.Rewriter), structuredOutput: true
+            },
+            critic: {
+                id: DeepPhase.Critic, enabled: false, provider: ProviderTypeEnum.External, externalProvider: ExternalProviderEnum.OpenRouter, apiType: ApiTypeEnum.Chat, apiKey: '', model: 'anthropic/claude-3.5-sonnet', customBaseUrl: '', systemPrompt: PromptService.getPrompt(PromptCategory.Converter, PromptRole.Critic), structuredOutput: true, maxRounds: 2
             }
         }
     });
@@ -606,8 +610,17 @@ export default function App() {
     // Job Monitor — auto-refresh verifier data when jobs complete
     const [jobCompletionCounter, setJobCompletionCounter] = useState(0);
     const jobMonitor = useJobMonitor({
-        onJobCompleted: (_jobId, _type) => {
+        onJobCompleted: (jobId, type) => {
             setJobCompletionCounter(prev => prev + 1);
+            if (type === BATCH_JOB_TYPE) {
+                // Batch results are saved on the backend; copy them into the local session
+                importBatchLogs(jobId)
+                    .then(({ imported }) => {
+                        if (imported > 0) toast.success(`Imported ${imported} batch results`);
+                        refreshLogs();
+                    })
+                    .catch(err => toast.error(`Failed to import batch results: ${err instanceof Error ? err.message : String(err)}`));
+            }
         }
     });
 
@@ -888,7 +901,7 @@ export default function App() {
         detectColumns
     });
 
-    const { updateDeepPhase, copyDeepConfigToAll } = useDeepConfigActions({
+    const { updateDeepPhase, copyDeepConfigToAll, updateDeepGraph } = useDeepConfigActions({
         deepConfig,
         setDeepConfig,
         setUserAgentConfig
@@ -1115,6 +1128,7 @@ export default function App() {
             // Callbacks
             setError,
             setIsRunning,
+            setIsPaused,
             setProgress,
             setSessionUid,
             setSessionName,
@@ -1130,6 +1144,7 @@ export default function App() {
             setDeepConfig,
             refreshLogs,
             updateDbStats,
+            trackJob: jobMonitor.trackJob,
             scheduleStreamingUpdate,
             bumpStreamingConversations,
             setLogsTrigger,
@@ -1252,7 +1267,8 @@ export default function App() {
             sessionUid,
             confirmService,
             toast,
-            logStorageService: LogStorageService
+            logStorageService: LogStorageService,
+            template: SettingsService.getCreatorExportTemplate()
         });
     };
 
@@ -1354,6 +1370,7 @@ export default function App() {
         deepConfig,
         onUpdatePhase: updateDeepPhase,
         onCopyToAll: copyDeepConfigToAll,
+        onUpdateGraph: updateDeepGraph,
         conversationRewriteMode,
         onConversationRewriteModeChange: setConversationRewriteMode,
         onDisableUserAgent: () => setUserAgentConfig(prev => ({ ...prev, enabled: false })),
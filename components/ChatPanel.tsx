@@ -19,6 +19,7 @@ import { ChatRole, ExternalProvider, ProviderType, ToolApprovalAction } from '..
 import ModelSelector from './ModelSelector';
 import MarkdownRenderer from './MarkdownRenderer';
 import { createChatMessageId } from '../utils/chatMessageId';
+import { estimateUsageCost } from '../services/costService';
 
 
 
@@ -55,7 +56,14 @@ const copyToClipboard = async (text: string, setCopied: (v: boolean) => void) =>
     }
 };
 
-const extractUsageSummary = (usage: unknown, startedAt: number | null): ChatUsageSummary | null => {
+/**
+ * @param priceCost - Cost from the model price table, used when the provider reports none
+ */
+const extractUsageSummary = (
+    usage: unknown,
+    startedAt: number | null,
+    priceCost?: (promptTokens: number, completionTokens: number) => number | undefined
+): ChatUsageSummary | null => {
     if (!usage || typeof usage !== 'object') return null;
     const record = usage as Record<string, unknown>;
 
@@ -65,7 +73,7 @@ const extractUsageSummary = (usage: unknown, startedAt: number | null): ChatUsag
         Number(record.completion_tokens ?? record.completionTokens ?? record.output_tokens ?? record.outputTokens ?? 0);
     const totalTokens =
         Number(record.total_tokens ?? record.totalTokens ?? (promptTokens + completionTokens) ?? 0);
-    const cost = Number(record.cost ?? record.total_cost ?? record.totalCost ?? 0);
+    const cost = Number(record.cost ?? record.total_cost ?? record.totalCost ?? priceCost?.(promptTokens, completionTokens) ?? 0);
 
     const durationMs = startedAt ? Math.max(0, Date.now() - startedAt) : 0;
     const durationSeconds = durationMs > 0 ? durationMs / 1000 : 0;
@@ -648,7 +656,9 @@ export default function ChatPanel({ data, setData, modelConfig, toolExecutor, on
 
                     // Track usage if available
                     if (usage) {
-                        const summary = extractUsageSummary(usage, interactionStartRef.current);
+                        const summary = extractUsageSummary(usage, interactionStartRef.current, (prompt_tokens, completion_tokens) =>
+                            estimateUsageCost(activeModel.provider, activeModel.model, { prompt_tokens, completion_tokens })
+                        );
                         if (summary) {
                             interactionUsageRef.current = summary;
                             setLastUsage(summary);
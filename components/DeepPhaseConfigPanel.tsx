@@ -5,6 +5,7 @@ import { OutputFieldName } from '../interfaces/enums/OutputFieldName';
 import { SettingsService } from '../services/settingsService';
 import { EXTERNAL_PROVIDERS } from '../constants';
 import ModelSelector from './ModelSelector';
+import ModelFallbackEditor from './ModelFallbackEditor';
 import FieldSelectionPanel from './panels/FieldSelectionPanel';
 
 interface DeepPhaseConfigPanelProps {
@@ -125,6 +126,12 @@ export default function DeepPhaseConfigPanel({
               />
             </div>
           )}
+
+          <ModelFallbackEditor
+            fallbacks={phase.fallbacks || []}
+            onChange={fallbacks => onUpdatePhase({ fallbacks })}
+            defaultProvider={phase.externalProvider}
+          />
         </div>
       )}
 
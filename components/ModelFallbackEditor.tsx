@@ -0,0 +1,91 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { ExternalProvider, ModelListProvider, type ModelFallback } from '../types';
+import { SettingsService } from '../services/settingsService';
+import { EXTERNAL_PROVIDERS } from '../constants';
+import ModelSelector from './ModelSelector';
+
+interface ModelFallbackEditorProps {
+    fallbacks: ModelFallback[];
+    onChange: (fallbacks: ModelFallback[]) => void;
+    /** Provider a newly added fallback starts from when the list is empty */
+    defaultProvider?: ExternalProvider;
+}
+
+/** Ordered list of models tried when the primary model keeps failing */
+export default function ModelFallbackEditor({
+    fallbacks,
+    onChange,
+    defaultProvider = ExternalProvider.OpenRouter
+}: ModelFallbackEditorProps) {
+    const updateFallback = (index: number, patch: Partial<ModelFallback>) => {
+        onChange(fallbacks.map((f, i) => (i === index ? { ...f, ...patch } : f)));
+    };
+
+    const addFallback = () => {
+        const provider = fallbacks[fallbacks.length - 1]?.provider || defaultProvider;
+        onChange([...fallbacks, { provider, model: SettingsService.getDefaultModel(provider) }]);
+    };
+
+    return (
+        <div className="space-y-2">
+            <label className="text-[10px] text-slate-400 font-bold uppercase">
+                Fallback Models {fallbacks.length === 0 && <span className="normal-case font-normal text-slate-500">(none: failures are final)</span>}
+            </label>
+            {fallbacks.map((fallback, index) => (
+                <div key={index} className="space-y-1">
+                    <div className="grid grid-cols-12 gap-2 items-start">
+                        <span className="col-span-1 pt-1.5 text-[10px] font-mono text-slate-500">{index + 1}.</span>
+                        <select
+                            value={fallback.provider}
+                            onChange={(e) => {
+                                const provider = e.target.value as ExternalProvider;
+                                updateFallback(index, { provider, model: SettingsService.getDefaultModel(provider) || fallback.model });
+                            }}
+                            className="col-span-3 bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-sky-500"
+                        >
+                            {EXTERNAL_PROVIDERS.map(p => (
+                                <option key={p} value={p}>{p.charAt(0).toUpperCase() + p.slice(1)}</option>
+                            ))}
+                        </select>
+                        <div className="col-span-7">
+                            <ModelSelector
+                                provider={fallback.provider as ModelListProvider}
+                                value={fallback.model}
+                                onChange={(model) => updateFallback(index, { model })}
+                                apiKey={SettingsService.getApiKey(fallback.provider)}
+                                customBaseUrl={fallback.customBaseUrl || SettingsService.getProviderUrl(fallback.provider)}
+                                placeholder="Select or enter model"
+                                className="w-full"
+                            />
+                        </div>
+                        <button
+                            onClick={() => onChange(fallbacks.filter((_, i) => i !== index))}
+                            className="col-span-1 p-1.5 text-slate-500 hover:text-red-400 transition-colors"
+                            title="Remove fallback"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                    </div>
+                    {fallback.provider === ExternalProvider.Other && (
+                        <input
+                            type="text"
+                            value={fallback.customBaseUrl || ''}
+                            onChange={e => updateFallback(index, { customBaseUrl: e.target.value })}
+                            className="w-full bg-slate-950/70 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-white focus:border-sky-500 outline-none"
+                            placeholder={SettingsService.getCustomBaseUrl() || 'https://api.example.com/v1'}
+                        />
+                    )}
+                </div>
+            ))}
+            <button
+                onClick={addFallback}
+                className="flex items-center gap-1 text-[10px] font-bold text-sky-400 hover:text-sky-300 transition-colors"
+            >
+                <Plus className="w-3 h-3" /> Add Fallback
+            </button>
+            {fallbacks.length > 0 && (
+                <p className="text-[9px] text-slate-500">Tried in order after the primary model fails its retries, times out or is refused by a content filter.</p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useState } from 'react';
+import { RefreshCw, Trash2 } from 'lucide-react';
+import * as backendClient from '../services/backendClient';
+import { clearResponseCache, getResponseCacheStats, type ResponseCacheStats as BrowserCacheStats } from '../services/responseCacheService';
+import { confirmService } from '../services/confirmService';
+import { toast } from '../services/toastService';
+import { formatCost } from '../utils/costCalculator';
+
+const hitRate = (hits: number, misses: number): string =>
+    hits + misses > 0 ? `${Math.round((hits / (hits + misses)) * 100)}%` : '—';
+
+/** Hit counters and entry counts of the browser and backend response caches, with clear actions */
+export default function ResponseCacheStats() {
+    const [browserStats, setBrowserStats] = useState<BrowserCacheStats | null>(null);
+    const [backendStats, setBackendStats] = useState<backendClient.BackendResponseCacheStats | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const refresh = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setBrowserStats(await getResponseCacheStats());
+            setBackendStats(backendClient.isBackendEnabled()
+                ? await backendClient.fetchResponseCacheStats().catch(() => null)
+                : null);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleClear = async () => {
+        const confirmed = await confirmService.confirm({
+            title: 'Clear response cache?',
+            message: 'Cached responses are deleted in this browser and on the backend. The next identical calls are paid again.',
+            confirmLabel: 'Clear',
+            cancelLabel: 'Cancel',
+            variant: 'warning'
+        });
+        if (!confirmed) return;
+        try {
+            await clearResponseCache();
+            if (backendClient.isBackendEnabled()) await backendClient.clearResponseCache();
+            toast.success('Response cache cleared');
+        } catch (err: unknown) {
+            toast.error(`Failed to clear response cache: ${err instanceof Error ? err.message : String(err)}`);
+        }
+        refresh();
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="grid grid-cols-[80px_1fr_1fr_1fr_1fr] gap-2 text-[10px] text-slate-300 font-bold uppercase">
+                <span />
+                <span>Entries</span>
+                <span>Hits</span>
+                <span>Hit Rate</span>
+                <span>Saved</span>
+            </div>
+            <div className="grid grid-cols-[80px_1fr_1fr_1fr_1fr] gap-2 text-xs text-slate-100 font-mono">
+                <span className="text-[10px] text-slate-400 font-sans font-bold uppercase">Browser</span>
+                <span>{browserStats?.entries ?? '—'}</span>
+                <span>{browserStats ? `${browserStats.hits}/${browserStats.hits + browserStats.misses}` : '—'}</span>
+                <span>{browserStats ? hitRate(browserStats.hits, browserStats.misses) : '—'}</span>
+                <span>{browserStats ? formatCost(browserStats.savedCost) : '—'}</span>
+            </div>
+            <div className="grid grid-cols-[80px_1fr_1fr_1fr_1fr] gap-2 text-xs text-slate-100 font-mono">
+                <span className="text-[10px] text-slate-400 font-sans font-bold uppercase">Backend</span>
+                {backendStats ? (
+                    <>
+                        <span>{backendStats.entries}</span>
+                        <span>{backendStats.hits}/{backendStats.hits + backendStats.misses}</span>
+                        <span>{hitRate(backendStats.hits, backendStats.misses)}</span>
+                        <span>{backendStats.savedTokens.toLocaleString()} tok</span>
+                    </>
+                ) : (
+                    <span className="col-span-4 text-[10px] text-slate-500 font-sans">Not connected</span>
+                )}
+            </div>
+            <div className="flex items-center gap-3 pt-1">
+                <button
+                    onClick={refresh}
+                    disabled={isLoading}
+                    className="flex items-center gap-1 text-xs text-sky-300 hover:text-sky-200 disabled:opacity-50"
+                >
+                    <RefreshCw className={`w-3.5 h-3.5 ${isLoading ? 'animate-spin' : ''}`} /> Refresh
+                </button>
+                <button
+                    onClick={handleClear}
+                    className="flex items-center gap-1 text-xs text-rose-300 hover:text-rose-200"
+                >
+                    <Trash2 className="w-3.5 h-3.5" /> Clear cache
+                </button>
+            </div>
+            <p className="text-[9px] text-slate-400">
+                Hits count calls since this page (or the backend) was started. Bypassed calls are not counted as hits or misses.
+            </p>
+        </div>
+    );
+}
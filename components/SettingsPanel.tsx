@@ -1,15 +1,18 @@
-import React, { useEffect, useState } from 'react';
-import { Settings, X, Key, Cloud, Trash2, Save, Eye, EyeOff, AlertTriangle, Check, Database, Cpu, FileText, ChevronDown, ChevronRight, Layers, Zap, Bot, Sliders, RefreshCw, Server, Timer, Maximize2, Minimize2, FolderOpen } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Settings, X, Key, Cloud, Trash2, Save, Eye, EyeOff, AlertTriangle, Check, Database, Cpu, FileText, ChevronDown, ChevronRight, Layers, Zap, Bot, Sliders, RefreshCw, Server, Timer, Maximize2, Minimize2, FolderOpen, ShieldCheck, Wrench, ListTree, Upload, Dna, Gauge, Plus, DollarSign, Archive } from 'lucide-react';
 import { SettingsService, AVAILABLE_PROVIDERS, EMPTY_STEP_CONFIG } from '../services/settingsService';
-import { ApiType, DbProvider, ExternalProvider, ProviderType, EngineMode, SettingsPanelTab, ApiSubTab, BackendApplyStatus } from '../interfaces/enums';
+import { ApiType, DbProvider, ExternalProvider, ProviderType, EngineMode, SettingsPanelTab, ApiSubTab, BackendApplyStatus, SelfConsistencyKeep, GroundTruthVerifierType, ToolSimulatorMode, EvolOperator } from '../interfaces/enums';
 import * as backendClient from '../services/backendClient';
 import GenerationParamsInput from './GenerationParamsInput';
 import { PromptService } from '../services/promptService';
 import { TaskClassifierService, TASK_PROMPT_MAPPING } from '../services/taskClassifierService';
 import { PROVIDERS } from '../constants';
 import { formatOllamaModelSize } from '../services/externalApiService';
+import { getTaxonomyLeaves, parseTaxonomy, serializeTaxonomy } from '../services/taxonomyService';
+import { EVOL_OPERATOR_LABELS } from '../services/seedEvolutionService';
 import ModelSelector from './ModelSelector';
-import { ModelListProvider } from '../types';
+import ResponseCacheStats from './ResponseCacheStats';
+import { BudgetConfig, DEFAULT_BUDGET_CONFIG, DEFAULT_GROUND_TRUTH_CONFIG, DEFAULT_MODEL_PRICES, DEFAULT_RATE_LIMIT_CONFIG, DEFAULT_RESPONSE_CACHE_CONFIG, DEFAULT_SEED_EVOLUTION_CONFIG, DEFAULT_SELF_CONSISTENCY_CONFIG, DEFAULT_TAXONOMY_CONFIG, DEFAULT_TOOL_USE_CONFIG, GroundTruthConfig, ModelListProvider, ModelPrice, RateLimitConfig, RateLimitRule, ResponseCacheConfig, SeedEvolutionConfig, SelfConsistencyConfig, TaxonomyConfig, ToolUseConfig } from '../types';
 import { OllamaStatus } from '../interfaces/enums';
 import { useSettingsState } from '../hooks/useSettingsState';
 import { useSettingsOllama } from '../hooks/useSettingsOllama';
@@ -70,6 +73,12 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChanged }: Se
     const [migrationStatus, setMigrationStatus] = useState<'idle' | 'starting' | 'started' | 'error'>('idle');
     const [migrationJobId, setMigrationJobId] = useState<string | null>(null);
     const [migrationError, setMigrationError] = useState('');
+    // Raw JSON being edited in the tool-use textareas; null shows the saved value
+    const [toolJsonDrafts, setToolJsonDrafts] = useState<{ tools: string | null; mockResults: string | null }>({ tools: null, mockResults: null });
+    const [toolJsonError, setToolJsonError] = useState('');
+    const [taxonomyDraft, setTaxonomyDraft] = useState<string | null>(null);
+    const [taxonomyError, setTaxonomyError] = useState('');
+    const taxonomyFileInputRef = useRef<HTMLInputElement>(null);
 
     const handleMigrateFromFirebase = async () => {
         setMigrationStatus('starting');
@@ -103,6 +112,83 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChanged }: Se
     }, [isOpen]);
 
     // All providers including Gemini for unified dropdowns (Gemini first)
+    const selfConsistency = settings.defaultGenerationParams?.selfConsistency ?? DEFAULT_SELF_CONSISTENCY_CONFIG;
+    const updateSelfConsistency = (updates: Partial<SelfConsistencyConfig>) => updateSetting('defaultGenerationParams', {
+        ...(settings.defaultGenerationParams || {}),
+        selfConsistency: { ...selfConsistency, ...updates }
+    });
+
+    const groundTruth = { ...DEFAULT_GROUND_TRUTH_CONFIG, ...settings.groundTruth };
+    const updateGroundTruth = (updates: Partial<GroundTruthConfig>) => updateSetting('groundTruth', { ...groundTruth, ...updates });
+
+    const toolUse = { ...DEFAULT_TOOL_USE_CONFIG, ...settings.toolUse };
+    const updateToolUse = (updates: Partial<ToolUseConfig>) => updateSetting('toolUse', { ...toolUse, ...updates });
+    const commitToolJson = (field: 'tools' | 'mockResults') => {
+        const draft = toolJsonDrafts[field];
+        if (draft === null) return;
+        try {
+            const parsed = JSON.parse(draft);
+            if (field === 'tools' && !Array.isArray(parsed)) throw new Error('Tools must be a JSON array');
+            if (field === 'mockResults' && (typeof parsed !== 'object' || Array.isArray(parsed) || parsed === null)) throw new Error('Mock results must be a JSON object keyed by tool name');
+            updateToolUse({ [field]: parsed });
+            setToolJsonDrafts(prev => ({ ...prev, [field]: null }));
+            setToolJsonError('');
+        } catch (error: any) {
+            setToolJsonError(error?.message || 'Invalid JSON');
+        }
+    };
+
+    const taxonomy = { ...DEFAULT_TAXONOMY_CONFIG, ...settings.taxonomy };
+    const updateTaxonomy = (updates: Partial<TaxonomyConfig>) => updateSetting('taxonomy', { ...taxonomy, ...updates });
+    const taxonomyLeaves = getTaxonomyLeaves(taxonomy);
+    const applyTaxonomyText = (text: string) => {
+        try {
+            const parsed = parseTaxonomy(text);
+            if (getTaxonomyLeaves({ ...taxonomy, ...parsed }).length === 0) throw new Error('Taxonomy has no topics');
+            updateTaxonomy(parsed);
+            setTaxonomyDraft(null);
+            setTaxonomyError('');
+        } catch (error: any) {
+            setTaxonomyError(error?.message || 'Invalid taxonomy');
+        }
+    };
+    const handleTaxonomyFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        applyTaxonomyText(await file.text());
+    };
+
+    const seedEvolution = { ...DEFAULT_SEED_EVOLUTION_CONFIG, ...settings.seedEvolution };
+    const updateSeedEvolution = (updates: Partial<SeedEvolutionConfig>) => updateSetting('seedEvolution', { ...seedEvolution, ...updates });
+    const toggleEvolOperator = (operator: EvolOperator) => updateSeedEvolution({
+        operators: seedEvolution.operators.includes(operator)
+            ? seedEvolution.operators.filter(op => op !== operator)
+            : [...seedEvolution.operators, operator]
+    });
+
+    const rateLimits = { ...DEFAULT_RATE_LIMIT_CONFIG, ...settings.rateLimits };
+    const updateRateLimits = (updates: Partial<RateLimitConfig>) => updateSetting('rateLimits', { ...rateLimits, ...updates });
+    const updateRateLimitRule = (index: number, updates: Partial<RateLimitRule>) => updateRateLimits({
+        rules: rateLimits.rules.map((rule, idx) => (idx === index ? { ...rule, ...updates } : rule))
+    });
+
+    const budget = { ...DEFAULT_BUDGET_CONFIG, ...settings.budget };
+    const updateBudget = (updates: Partial<BudgetConfig>) => updateSetting('budget', { ...budget, ...updates });
+    const responseCache = { ...DEFAULT_RESPONSE_CACHE_CONFIG, ...settings.responseCache };
+    const updateResponseCache = (updates: Partial<ResponseCacheConfig>) => updateSetting('responseCache', { ...responseCache, ...updates });
+    const modelPrices = settings.modelPrices || [];
+    const updateModelPrices = (prices: ModelPrice[]) => updateSetting('modelPrices', prices);
+    const updateModelPrice = (index: number, updates: Partial<ModelPrice>) => updateModelPrices(
+        modelPrices.map((price, idx) => (idx === index ? { ...price, ...updates } : price))
+    );
+    // Copies the built-in prices not yet overridden, so they can be edited in place
+    const copyDefaultPrices = () => updateModelPrices([
+        ...modelPrices,
+        ...DEFAULT_MODEL_PRICES.filter(d => !modelPrices.some(p => p.provider === d.provider && p.model === d.model))
+    ]);
+    const parsePrice = (value: string) => Math.max(0, parseFloat(value) || 0);
+
     const allProviders = [...AVAILABLE_PROVIDERS];
     const allProvidersForKeys = [...AVAILABLE_PROVIDERS.filter(p => p !== ExternalProvider.Other), ExternalProvider.Other];
 
@@ -769,6 +855,324 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChanged }: Se
                         </CollapsibleSection>
                     )}
 
+                    {activeTab === SettingsPanelTab.Providers && (
+                        <CollapsibleSection
+                            title="Rate Limits"
+                            icon={<Gauge className="w-3.5 h-3.5 text-amber-400" />}
+                            summary="Requests and tokens per minute, per provider and model"
+                        >
+                            <div className="bg-slate-950/70 rounded-lg p-4 border border-slate-800/70 space-y-4">
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                                            <Gauge className="w-4 h-4 text-amber-400" />
+                                            Pace Provider Calls
+                                        </h3>
+                                        <p className="text-xs text-slate-400 mt-1">
+                                            Calls wait for budget in a token bucket per provider and model. A 429 pauses the key for every caller (honouring Retry-After) and slows its refill until requests succeed again.
+                                        </p>
+                                    </div>
+                                    <label className="relative inline-flex items-center cursor-pointer flex-shrink-0 ml-4">
+                                        <input
+                                            type="checkbox"
+                                            checked={rateLimits.enabled}
+                                            onChange={(e) => updateRateLimits({ enabled: e.target.checked })}
+                                            className="sr-only peer"
+                                        />
+                                        <div className="w-9 h-5 bg-slate-800/70 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-500/50 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                                    </label>
+                                </div>
+
+                                {rateLimits.enabled && (
+                                    <>
+                                        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={rateLimits.shareWithBackend}
+                                                onChange={(e) => updateRateLimits({ shareWithBackend: e.target.checked })}
+                                                className="accent-amber-500"
+                                            />
+                                            Share budgets with backend jobs (generation runs queue behind jobs on the same key)
+                                        </label>
+
+                                        <div className="space-y-2">
+                                            {rateLimits.rules.length > 0 && (
+                                                <div className="grid grid-cols-[1fr_1fr_80px_100px_24px] gap-2 text-[10px] text-slate-300 font-bold uppercase">
+                                                    <span>Provider</span>
+                                                    <span>Model</span>
+                                                    <span>RPM</span>
+                                                    <span>TPM</span>
+                                                    <span />
+                                                </div>
+                                            )}
+                                            {rateLimits.rules.map((rule, idx) => (
+                                                <div key={idx} className="grid grid-cols-[1fr_1fr_80px_100px_24px] gap-2 items-center">
+                                                    <select
+                                                        value={rule.provider}
+                                                        onChange={(e) => updateRateLimitRule(idx, { provider: e.target.value as ExternalProvider })}
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    >
+                                                        {allProviders.map(p => (
+                                                            <option key={p} value={p}>{PROVIDERS[p]?.name || p}</option>
+                                                        ))}
+                                                    </select>
+                                                    <input
+                                                        type="text"
+                                                        value={rule.model}
+                                                        onChange={(e) => updateRateLimitRule(idx, { model: e.target.value.trim() })}
+                                                        placeholder="All models"
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    />
+                                                    <input
+                                                        type="number"
+                                                        min="0"
+                                                        value={rule.rpm}
+                                                        onChange={(e) => updateRateLimitRule(idx, { rpm: Math.max(0, parseInt(e.target.value) || 0) })}
+                                                        title="Requests per minute (0 = unlimited)"
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    />
+                                                    <input
+                                                        type="number"
+                                                        min="0"
+                                                        step="1000"
+                                                        value={rule.tpm}
+                                                        onChange={(e) => updateRateLimitRule(idx, { tpm: Math.max(0, parseInt(e.target.value) || 0) })}
+                                                        title="Tokens per minute (0 = unlimited)"
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    />
+                                                    <button
+                                                        onClick={() => updateRateLimits({ rules: rateLimits.rules.filter((_, i) => i !== idx) })}
+                                                        className="text-slate-400 hover:text-rose-400"
+                                                        title="Remove rule"
+                                                    >
+                                                        <Trash2 className="w-3.5 h-3.5" />
+                                                    </button>
+                                                </div>
+                                            ))}
+                                            <button
+                                                onClick={() => updateRateLimits({
+                                                    rules: [...rateLimits.rules, { provider: allProviders[0] as ExternalProvider, model: '', rpm: 60, tpm: 0 }]
+                                                })}
+                                                className="flex items-center gap-1 text-xs text-amber-300 hover:text-amber-200"
+                                            >
+                                                <Plus className="w-3.5 h-3.5" /> Add rule
+                                            </button>
+                                        </div>
+                                        <p className="text-[9px] text-slate-400">
+                                            A rule without a model applies to each model of the provider that has no rule of its own. Token costs are estimated from the prompt and corrected from reported usage. Rules are sent to the backend on save.
+                                        </p>
+                                    </>
+                                )}
+                            </div>
+                        </CollapsibleSection>
+                    )}
+
+                    {activeTab === SettingsPanelTab.Providers && (
+                        <CollapsibleSection
+                            title="Costs & Budgets"
+                            icon={<DollarSign className="w-3.5 h-3.5 text-emerald-400" />}
+                            summary="Model prices and spending limits per session and job"
+                        >
+                            <div className="bg-slate-950/70 rounded-lg p-4 border border-slate-800/70 space-y-4">
+                                <div>
+                                    <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                                        <DollarSign className="w-4 h-4 text-emerald-400" />
+                                        Budgets
+                                    </h3>
+                                    <p className="text-xs text-slate-400 mt-1">
+                                        Spend is estimated from reported token usage and the prices below. Generation pauses when the session budget is reached; a backend job stops as failed when its budget is reached and can be resumed after raising it. 0 disables a limit.
+                                    </p>
+                                </div>
+                                <div className="grid grid-cols-3 gap-3">
+                                    <div className="space-y-1">
+                                        <label className="text-[10px] text-slate-300 font-bold uppercase">Session Budget ($)</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.5"
+                                            value={budget.sessionBudgetUsd}
+                                            onChange={(e) => updateBudget({ sessionBudgetUsd: parsePrice(e.target.value) })}
+                                            className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <label className="text-[10px] text-slate-300 font-bold uppercase">Job Budget ($)</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.5"
+                                            value={budget.jobBudgetUsd}
+                                            onChange={(e) => updateBudget({ jobBudgetUsd: parsePrice(e.target.value) })}
+                                            className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                        />
+                                    </div>
+                                    <div className="space-y-1">
+                                        <label className="text-[10px] text-slate-300 font-bold uppercase">Warn At (%)</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            max="100"
+                                            step="5"
+                                            value={Math.round(budget.warnAt * 100)}
+                                            onChange={(e) => updateBudget({ warnAt: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) / 100 })}
+                                            className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                        />
+                                    </div>
+                                </div>
+
+                                <div className="space-y-2 pt-2 border-t border-slate-800/70">
+                                    <div className="flex items-center justify-between">
+                                        <span className="text-[10px] text-slate-300 font-bold uppercase">Model Prices ($ per 1M tokens)</span>
+                                        <button
+                                            onClick={copyDefaultPrices}
+                                            className="text-[10px] text-emerald-300 hover:text-emerald-200"
+                                            title="Add the built-in prices to this table to edit them"
+                                        >
+                                            Copy built-in prices
+                                        </button>
+                                    </div>
+                                    {modelPrices.length > 0 && (
+                                        <div className="grid grid-cols-[1fr_1fr_70px_70px_70px_24px] gap-2 text-[10px] text-slate-300 font-bold uppercase">
+                                            <span>Provider</span>
+                                            <span>Model</span>
+                                            <span>Input</span>
+                                            <span>Output</span>
+                                            <span>Reasoning</span>
+                                            <span />
+                                        </div>
+                                    )}
+                                    {modelPrices.map((price, idx) => (
+                                        <div key={idx} className="grid grid-cols-[1fr_1fr_70px_70px_70px_24px] gap-2 items-center">
+                                            <select
+                                                value={price.provider}
+                                                onChange={(e) => updateModelPrice(idx, { provider: e.target.value as ExternalProvider })}
+                                                className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                            >
+                                                {allProviders.map(p => (
+                                                    <option key={p} value={p}>{PROVIDERS[p]?.name || p}</option>
+                                                ))}
+                                            </select>
+                                            <input
+                                                type="text"
+                                                value={price.model}
+                                                onChange={(e) => updateModelPrice(idx, { model: e.target.value.trim() })}
+                                                placeholder="gpt-5* or *"
+                                                className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                            />
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="0.01"
+                                                value={price.inputPerMTok}
+                                                onChange={(e) => updateModelPrice(idx, { inputPerMTok: parsePrice(e.target.value) })}
+                                                className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                            />
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="0.01"
+                                                value={price.outputPerMTok}
+                                                onChange={(e) => updateModelPrice(idx, { outputPerMTok: parsePrice(e.target.value) })}
+                                                className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                            />
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="0.01"
+                                                value={price.reasoningPerMTok ?? ''}
+                                                onChange={(e) => updateModelPrice(idx, { reasoningPerMTok: e.target.value === '' ? undefined : parsePrice(e.target.value) })}
+                                                placeholder="Output"
+                                                title="Empty bills reasoning tokens at the output price"
+                                                className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                            />
+                                            <button
+                                                onClick={() => updateModelPrices(modelPrices.filter((_, i) => i !== idx))}
+                                                className="text-slate-400 hover:text-rose-400"
+                                                title="Remove price"
+                                            >
+                                                <Trash2 className="w-3.5 h-3.5" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                    <button
+                                        onClick={() => updateModelPrices([
+                                            ...modelPrices,
+                                            { provider: allProviders[0] as ExternalProvider, model: '', inputPerMTok: 0, outputPerMTok: 0 }
+                                        ])}
+                                        className="flex items-center gap-1 text-xs text-emerald-300 hover:text-emerald-200"
+                                    >
+                                        <Plus className="w-3.5 h-3.5" /> Add price
+                                    </button>
+                                    <p className="text-[9px] text-slate-400">
+                                        An exact model id wins over a prefix ending in *, which wins over * alone. Entries here override the {DEFAULT_MODEL_PRICES.length} built-in list prices; models without any price are not counted.
+                                    </p>
+                                </div>
+                            </div>
+                        </CollapsibleSection>
+                    )}
+
+                    {activeTab === SettingsPanelTab.Providers && (
+                        <CollapsibleSection
+                            title="Response Cache"
+                            icon={<Archive className="w-3.5 h-3.5 text-sky-400" />}
+                            summary="Reuse responses of identical model calls instead of paying again"
+                        >
+                            <div className="bg-slate-950/70 rounded-lg p-4 border border-slate-800/70 space-y-4">
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                                            <Archive className="w-4 h-4 text-sky-400" />
+                                            Cache Model Responses
+                                        </h3>
+                                        <p className="text-xs text-slate-400 mt-1">
+                                            A call with the same provider, model, messages and generation params as an earlier one gets the earlier response for free. Applies to generation runs, item retries and backend jobs (including resumed ones). Regenerate, rewrites, preference candidates, seed evolution and synthetic seeds always ask for a new response.
+                                        </p>
+                                        <p className="text-xs text-slate-500 mt-1">
+                                            The backend keeps its cache in memory, so it is emptied when the server restarts.
+                                        </p>
+                                    </div>
+                                    <label className="relative inline-flex items-center cursor-pointer flex-shrink-0 ml-4">
+                                        <input
+                                            type="checkbox"
+                                            checked={responseCache.enabled}
+                                            onChange={(e) => updateResponseCache({ enabled: e.target.checked })}
+                                            className="sr-only peer"
+                                        />
+                                        <div className="w-9 h-5 bg-slate-800/70 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-500/50 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                                    </label>
+                                </div>
+
+                                {responseCache.enabled && (
+                                    <>
+                                        <div className="grid grid-cols-2 gap-3">
+                                            <div className="space-y-1">
+                                                <label className="text-[10px] text-slate-300 font-bold uppercase">Time to Live (hours)</label>
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    value={responseCache.ttlHours}
+                                                    onChange={(e) => updateResponseCache({ ttlHours: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                                    title="0 keeps responses until the cache is cleared"
+                                                    className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                />
+                                            </div>
+                                            <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer self-end pb-1.5">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={responseCache.bypass}
+                                                    onChange={(e) => updateResponseCache({ bypass: e.target.checked })}
+                                                    className="accent-sky-500"
+                                                />
+                                                Bypass for the next runs (fresh responses replace cached ones)
+                                            </label>
+                                        </div>
+                                        <ResponseCacheStats />
+                                    </>
+                                )}
+                            </div>
+                        </CollapsibleSection>
+                    )}
+
                     {activeTab === SettingsPanelTab.Generation && (
                         <>
                             <CollapsibleSection
@@ -784,7 +1188,7 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChanged }: Se
                                             Generation Timeout
                                         </h3>
                                         <p className="text-xs text-slate-400 mb-3">
-                                            Stop streaming if a response does not arrive within this window.
+                                            Stop streaming if a response does not arrive within this window. With fallback models, each model gets this window before the next one is tried.
                                         </p>
                                         <div className="flex items-center gap-3">
                                             <input
@@ -988,6 +1392,70 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChanged }: Se
                                             </label>
                                         </div>
 
+                                        {/* Self-Consistency Voting */}
+                                        <div className="pt-4 mt-4 border-t border-slate-800/70 space-y-3">
+                                            <div className="flex items-center justify-between">
+                                                <div className="flex flex-col gap-0.5">
+                                                    <label htmlFor="selfConsistencyEnabled" className="text-xs text-slate-200">Self-Consistency Voting</label>
+                                                    <span className="text-[9px] text-slate-400">
+                                                        Sample several traces per seed at varied temperatures and keep the majority answer. Regular mode, external providers.
+                                                    </span>
+                                                </div>
+                                                <label className="relative inline-flex items-center cursor-pointer flex-shrink-0 ml-4">
+                                                    <input
+                                                        id="selfConsistencyEnabled"
+                                                        type="checkbox"
+                                                        checked={selfConsistency.enabled}
+                                                        onChange={(e) => updateSelfConsistency({ enabled: e.target.checked })}
+                                                        className="sr-only peer"
+                                                    />
+                                                    <div className="w-9 h-5 bg-slate-800/70 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-500/50 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                                                </label>
+                                            </div>
+                                            {selfConsistency.enabled && (
+                                                <div className="grid grid-cols-3 gap-3">
+                                                    <div className="space-y-1">
+                                                        <label htmlFor="selfConsistencySamples" className="text-[10px] text-slate-300 font-bold uppercase">Samples</label>
+                                                        <input
+                                                            id="selfConsistencySamples"
+                                                            type="number"
+                                                            min="2"
+                                                            max="20"
+                                                            step="1"
+                                                            value={selfConsistency.samples}
+                                                            onChange={(e) => updateSelfConsistency({ samples: Math.min(20, Math.max(2, parseInt(e.target.value) || 2)) })}
+                                                            className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                        />
+                                                    </div>
+                                                    <div className="space-y-1">
+                                                        <label htmlFor="selfConsistencySpread" className="text-[10px] text-slate-300 font-bold uppercase">Temp Spread</label>
+                                                        <input
+                                                            id="selfConsistencySpread"
+                                                            type="number"
+                                                            min="0"
+                                                            max="2"
+                                                            step="0.1"
+                                                            value={selfConsistency.temperatureSpread}
+                                                            onChange={(e) => updateSelfConsistency({ temperatureSpread: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                                            className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                        />
+                                                    </div>
+                                                    <div className="space-y-1">
+                                                        <label htmlFor="selfConsistencyKeep" className="text-[10px] text-slate-300 font-bold uppercase">Keep Traces</label>
+                                                        <select
+                                                            id="selfConsistencyKeep"
+                                                            value={selfConsistency.keep}
+                                                            onChange={(e) => updateSelfConsistency({ keep: e.target.value as SelfConsistencyKeep })}
+                                                            className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                        >
+                                                            <option value={SelfConsistencyKeep.Agreeing}>Agreeing only</option>
+                                                            <option value={SelfConsistencyKeep.All}>All, labelled</option>
+                                                        </select>
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
+
                                         <div className="mt-4 pt-4 border-t border-slate-800/70">
                                             <button
                                                 onClick={() => updateSetting('defaultGenerationParams', {
@@ -1155,6 +1623,417 @@ export default function SettingsPanel({ isOpen, onClose, onSettingsChanged }: Se
                                     </div>
                                 </div>
                             </CollapsibleSection>
+
+                            <CollapsibleSection
+                                title="Ground-Truth Verification"
+                                icon={<ShieldCheck className="w-3.5 h-3.5 text-emerald-400" />}
+                                summary="Check answers against dataset references"
+                            >
+                                <div className="bg-slate-950/70 rounded-lg p-4 border border-slate-800/70 space-y-4">
+                                    <div className="flex items-center justify-between">
+                                        <div>
+                                            <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                                                <ShieldCheck className="w-4 h-4 text-emerald-400" />
+                                                Verify Against Reference Answers
+                                            </h3>
+                                            <p className="text-xs text-slate-400 mt-1">
+                                                When a HuggingFace row has a reference answer (output columns), check the generated answer and mark the item pass/fail.
+                                            </p>
+                                        </div>
+                                        <label className="relative inline-flex items-center cursor-pointer flex-shrink-0 ml-4">
+                                            <input
+                                                type="checkbox"
+                                                checked={groundTruth.enabled}
+                                                onChange={(e) => updateGroundTruth({ enabled: e.target.checked })}
+                                                className="sr-only peer"
+                                            />
+                                            <div className="w-9 h-5 bg-slate-800/70 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-500/50 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                                        </label>
+                                    </div>
+
+                                    {groundTruth.enabled && (
+                                        <>
+                                            <div className="grid grid-cols-2 gap-3">
+                                                <div className="space-y-1">
+                                                    <label htmlFor="groundTruthVerifier" className="text-[10px] text-slate-300 font-bold uppercase">Verifier</label>
+                                                    <select
+                                                        id="groundTruthVerifier"
+                                                        value={groundTruth.verifier}
+                                                        onChange={(e) => updateGroundTruth({ verifier: e.target.value as GroundTruthVerifierType })}
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    >
+                                                        <option value={GroundTruthVerifierType.Auto}>Auto (MCQ / code / math)</option>
+                                                        <option value={GroundTruthVerifierType.Math}>Math (numeric / LaTeX)</option>
+                                                        <option value={GroundTruthVerifierType.Mcq}>Multiple choice</option>
+                                                        <option value={GroundTruthVerifierType.Code}>Code (unit tests)</option>
+                                                    </select>
+                                                </div>
+                                                <div className="space-y-1">
+                                                    <label htmlFor="groundTruthTestsColumn" className="text-[10px] text-slate-300 font-bold uppercase">Unit Tests Column</label>
+                                                    <input
+                                                        id="groundTruthTestsColumn"
+                                                        type="text"
+                                                        value={groundTruth.codeTestsColumn || ''}
+                                                        onChange={(e) => updateGroundTruth({ codeTestsColumn: e.target.value })}
+                                                        placeholder="e.g. test_list"
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    />
+                                                </div>
+                                                <div className="space-y-1">
+                                                    <label htmlFor="groundTruthLanguage" className="text-[10px] text-slate-300 font-bold uppercase">Code Language</label>
+                                                    <select
+                                                        id="groundTruthLanguage"
+                                                        value={groundTruth.codeLanguage}
+                                                        onChange={(e) => updateGroundTruth({ codeLanguage: e.target.value as GroundTruthConfig['codeLanguage'] })}
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    >
+                                                        <option value="python">Python</option>
+                                                        <option value="javascript">JavaScript</option>
+                                                    </select>
+                                                </div>
+                                                <div className="space-y-1">
+                                                    <label htmlFor="groundTruthTimeout" className="text-[10px] text-slate-300 font-bold uppercase">Test Timeout (ms)</label>
+                                                    <input
+                                                        id="groundTruthTimeout"
+                                                        type="number"
+                                                        min="100"
+                                                        max="60000"
+                                                        step="100"
+                                                        value={groundTruth.codeTimeoutMs}
+                                                        onChange={(e) => updateGroundTruth({ codeTimeoutMs: Math.min(60000, Math.max(100, parseInt(e.target.value) || 10000)) })}
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    />
+                                                </div>
+                                            </div>
+                                            <p className="text-[9px] text-slate-400">
+                                                Code tests run in a network-less container on the local backend. Start it with CODE_RUNNER_ENABLED=true and Docker installed.
+                                            </p>
+                                            <label className="flex items-center gap-2 text-xs text-slate-200 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={groundTruth.rejectFailures}
+                                                    onChange={(e) => updateGroundTruth({ rejectFailures: e.target.checked })}
+                                                    className="accent-emerald-500"
+                                                />
+                                                Reject failures (mark failed items as discarded so they are left out of exports)
+                                            </label>
+                                        </>
+                                    )}
+                                </div>
+                            </CollapsibleSection>
+
+                            <CollapsibleSection
+                                title="Tool-Use Traces"
+                                icon={<Wrench className="w-3.5 h-3.5 text-violet-400" />}
+                                summary="Agentic traces with simulated tool results"
+                            >
+                                <div className="bg-slate-950/70 rounded-lg p-4 border border-slate-800/70 space-y-4">
+                                    <div className="flex items-center justify-between">
+                                        <div>
+                                            <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                                                <Wrench className="w-4 h-4 text-violet-400" />
+                                                Generate Tool-Calling Traces
+                                            </h3>
+                                            <p className="text-xs text-slate-400 mt-1">
+                                                Generator + regular engine: the model gets the tools below, its calls are answered by a simulator, and the exchange is stored as tool messages.
+                                            </p>
+                                        </div>
+                                        <label className="relative inline-flex items-center cursor-pointer flex-shrink-0 ml-4">
+                                            <input
+                                                type="checkbox"
+                                                checked={toolUse.enabled}
+                                                onChange={(e) => updateToolUse({ enabled: e.target.checked })}
+                                                className="sr-only peer"
+                                            />
+                                            <div className="w-9 h-5 bg-slate-800/70 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-500/50 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                                        </label>
+                                    </div>
+
+                                    {toolUse.enabled && (
+                                        <>
+                                            <div className="space-y-1">
+                                                <label htmlFor="toolUseTools" className="text-[10px] text-slate-300 font-bold uppercase">Tool Schema (OpenAI format)</label>
+                                                <textarea
+                                                    id="toolUseTools"
+                                                    value={toolJsonDrafts.tools ?? JSON.stringify(toolUse.tools, null, 2)}
+                                                    onChange={(e) => setToolJsonDrafts(prev => ({ ...prev, tools: e.target.value }))}
+                                                    onBlur={() => commitToolJson('tools')}
+                                                    rows={8}
+                                                    spellCheck={false}
+                                                    className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-[11px] font-mono text-slate-100 focus:border-blue-500 outline-none"
+                                                />
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-3">
+                                                <div className="space-y-1">
+                                                    <label htmlFor="toolUseSimulator" className="text-[10px] text-slate-300 font-bold uppercase">Tool Results</label>
+                                                    <select
+                                                        id="toolUseSimulator"
+                                                        value={toolUse.simulator}
+                                                        onChange={(e) => updateToolUse({ simulator: e.target.value as ToolSimulatorMode })}
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    >
+                                                        <option value={ToolSimulatorMode.Model}>Environment model</option>
+                                                        <option value={ToolSimulatorMode.Mock}>Local mocks</option>
+                                                    </select>
+                                                </div>
+                                                <div className="space-y-1">
+                                                    <label htmlFor="toolUseMaxSteps" className="text-[10px] text-slate-300 font-bold uppercase">Max Steps</label>
+                                                    <input
+                                                        id="toolUseMaxSteps"
+                                                        type="number"
+                                                        min="1"
+                                                        max="20"
+                                                        value={toolUse.maxSteps}
+                                                        onChange={(e) => updateToolUse({ maxSteps: Math.min(20, Math.max(1, parseInt(e.target.value) || 1)) })}
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    />
+                                                </div>
+                                                {toolUse.simulator === ToolSimulatorMode.Model && (
+                                                    <>
+                                                        <div className="space-y-1">
+                                                            <label htmlFor="toolUseEnvProvider" className="text-[10px] text-slate-300 font-bold uppercase">Environment Provider</label>
+                                                            <select
+                                                                id="toolUseEnvProvider"
+                                                                value={toolUse.environmentProvider || ''}
+                                                                onChange={(e) => updateToolUse({ environmentProvider: (e.target.value || undefined) as ExternalProvider | undefined })}
+                                                                className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                            >
+                                                                <option value="">Same as generation</option>
+                                                                {allProviders.map(p => (
+                                                                    <option key={p} value={p}>{PROVIDERS[p]?.name || p}</option>
+                                                                ))}
+                                                            </select>
+                                                        </div>
+                                                        <div className="space-y-1">
+                                                            <label htmlFor="toolUseEnvModel" className="text-[10px] text-slate-300 font-bold uppercase">Environment Model</label>
+                                                            <input
+                                                                id="toolUseEnvModel"
+                                                                type="text"
+                                                                value={toolUse.environmentModel || ''}
+                                                                onChange={(e) => updateToolUse({ environmentModel: e.target.value })}
+                                                                placeholder="Empty = generation model"
+                                                                className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                            />
+                                                        </div>
+                                                    </>
+                                                )}
+                                            </div>
+                                            {toolUse.simulator === ToolSimulatorMode.Mock && (
+                                                <div className="space-y-1">
+                                                    <label htmlFor="toolUseMocks" className="text-[10px] text-slate-300 font-bold uppercase">Mock Results by Tool</label>
+                                                    <textarea
+                                                        id="toolUseMocks"
+                                                        value={toolJsonDrafts.mockResults ?? JSON.stringify(toolUse.mockResults, null, 2)}
+                                                        onChange={(e) => setToolJsonDrafts(prev => ({ ...prev, mockResults: e.target.value }))}
+                                                        onBlur={() => commitToolJson('mockResults')}
+                                                        rows={6}
+                                                        spellCheck={false}
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-[11px] font-mono text-slate-100 focus:border-blue-500 outline-none"
+                                                    />
+                                                    <p className="text-[9px] text-slate-400">{'{{arg}}'} placeholders are replaced with the call's arguments.</p>
+                                                </div>
+                                            )}
+                                            {toolJsonError && (
+                                                <p className="text-[10px] text-rose-400 flex items-center gap-1">
+                                                    <AlertTriangle className="w-3 h-3" /> {toolJsonError}
+                                                </p>
+                                            )}
+                                        </>
+                                    )}
+                                </div>
+                            </CollapsibleSection>
+
+                            <CollapsibleSection
+                                title="Seed Taxonomy"
+                                icon={<ListTree className="w-3.5 h-3.5 text-cyan-400" />}
+                                summary="Hierarchical topics with per-leaf quotas"
+                            >
+                                <div className="bg-slate-950/70 rounded-lg p-4 border border-slate-800/70 space-y-4">
+                                    <div className="flex items-center justify-between">
+                                        <div>
+                                            <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                                                <ListTree className="w-4 h-4 text-cyan-400" />
+                                                Taxonomy-Driven Seeds
+                                            </h3>
+                                            <p className="text-xs text-slate-400 mt-1">
+                                                Synthetic data source: seeds are generated per leaf until each quota is met, replacing the single topic and item count. Append runs top up the leaves still short.
+                                            </p>
+                                        </div>
+                                        <label className="relative inline-flex items-center cursor-pointer flex-shrink-0 ml-4">
+                                            <input
+                                                type="checkbox"
+                                                checked={taxonomy.enabled}
+                                                onChange={(e) => updateTaxonomy({ enabled: e.target.checked })}
+                                                className="sr-only peer"
+                                            />
+                                            <div className="w-9 h-5 bg-slate-800/70 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-500/50 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                                        </label>
+                                    </div>
+
+                                    {taxonomy.enabled && (
+                                        <>
+                                            <div className="grid grid-cols-2 gap-3">
+                                                <div className="space-y-1">
+                                                    <label htmlFor="taxonomyName" className="text-[10px] text-slate-300 font-bold uppercase">Name</label>
+                                                    <input
+                                                        id="taxonomyName"
+                                                        type="text"
+                                                        value={taxonomy.name}
+                                                        onChange={(e) => updateTaxonomy({ name: e.target.value })}
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    />
+                                                </div>
+                                                <div className="space-y-1">
+                                                    <label htmlFor="taxonomyDefaultQuota" className="text-[10px] text-slate-300 font-bold uppercase">Default Leaf Quota</label>
+                                                    <input
+                                                        id="taxonomyDefaultQuota"
+                                                        type="number"
+                                                        min="0"
+                                                        value={taxonomy.defaultQuota}
+                                                        onChange={(e) => updateTaxonomy({ defaultQuota: Math.max(0, parseInt(e.target.value) || 0) })}
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    />
+                                                </div>
+                                            </div>
+                                            <div className="space-y-1">
+                                                <div className="flex items-center justify-between">
+                                                    <label htmlFor="taxonomyYaml" className="text-[10px] text-slate-300 font-bold uppercase">Taxonomy (YAML or JSON)</label>
+                                                    <button
+                                                        onClick={() => taxonomyFileInputRef.current?.click()}
+                                                        className="flex items-center gap-1 text-[10px] text-cyan-400 hover:text-cyan-300"
+                                                    >
+                                                        <Upload className="w-3 h-3" /> Import File
+                                                    </button>
+                                                    <input
+                                                        ref={taxonomyFileInputRef}
+                                                        type="file"
+                                                        accept=".yaml,.yml,.json"
+                                                        onChange={handleTaxonomyFile}
+                                                        className="hidden"
+                                                    />
+                                                </div>
+                                                <textarea
+                                                    id="taxonomyYaml"
+                                                    value={taxonomyDraft ?? serializeTaxonomy(taxonomy)}
+                                                    onChange={(e) => setTaxonomyDraft(e.target.value)}
+                                                    onBlur={() => taxonomyDraft !== null && applyTaxonomyText(taxonomyDraft)}
+                                                    rows={12}
+                                                    spellCheck={false}
+                                                    className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-[11px] font-mono text-slate-100 focus:border-blue-500 outline-none"
+                                                />
+                                                <p className="text-[9px] text-slate-400">
+                                                    Nodes take name, description, quota and children. A nested mapping also works, with quotas as leaf values (e.g. {'Math: { Algebra: { easy: 5, hard: 10 } }'}).
+                                                </p>
+                                            </div>
+                                            <p className="text-[10px] text-slate-300">
+                                                {taxonomyLeaves.length} leaves · {taxonomyLeaves.reduce((sum, leaf) => sum + leaf.quota, 0)} items total
+                                            </p>
+                                            {taxonomyError && (
+                                                <p className="text-[10px] text-rose-400 flex items-center gap-1">
+                                                    <AlertTriangle className="w-3 h-3" /> {taxonomyError}
+                                                </p>
+                                            )}
+                                        </>
+                                    )}
+                                </div>
+                            </CollapsibleSection>
+
+                            <CollapsibleSection
+                                title="Seed Evolution"
+                                icon={<Dna className="w-3.5 h-3.5 text-rose-400" />}
+                                summary="Evol-Instruct mutation of seeds before generation"
+                            >
+                                <div className="bg-slate-950/70 rounded-lg p-4 border border-slate-800/70 space-y-4">
+                                    <div className="flex items-center justify-between">
+                                        <div>
+                                            <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                                                <Dna className="w-4 h-4 text-rose-400" />
+                                                Evolve Seeds
+                                            </h3>
+                                            <p className="text-xs text-slate-400 mt-1">
+                                                Every seed (manual, HuggingFace or synthetic) is rewritten by randomly sampled operators before generation. Evolutions that fail the checks are dropped, and items record their parent seed and operators.
+                                            </p>
+                                        </div>
+                                        <label className="relative inline-flex items-center cursor-pointer flex-shrink-0 ml-4">
+                                            <input
+                                                type="checkbox"
+                                                checked={seedEvolution.enabled}
+                                                onChange={(e) => updateSeedEvolution({ enabled: e.target.checked })}
+                                                className="sr-only peer"
+                                            />
+                                            <div className="w-9 h-5 bg-slate-800/70 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-blue-500/50 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-blue-600"></div>
+                                        </label>
+                                    </div>
+
+                                    {seedEvolution.enabled && (
+                                        <>
+                                            <div className="space-y-1">
+                                                <span className="text-[10px] text-slate-300 font-bold uppercase">Operators</span>
+                                                <div className="grid grid-cols-2 gap-2">
+                                                    {Object.values(EvolOperator).map(operator => (
+                                                        <label key={operator} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                                                            <input
+                                                                type="checkbox"
+                                                                checked={seedEvolution.operators.includes(operator)}
+                                                                onChange={() => toggleEvolOperator(operator)}
+                                                                className="accent-rose-500"
+                                                            />
+                                                            {EVOL_OPERATOR_LABELS[operator]}
+                                                        </label>
+                                                    ))}
+                                                </div>
+                                                {seedEvolution.operators.length === 0 && (
+                                                    <p className="text-[10px] text-rose-400 flex items-center gap-1">
+                                                        <AlertTriangle className="w-3 h-3" /> Select at least one operator
+                                                    </p>
+                                                )}
+                                            </div>
+                                            <div className="grid grid-cols-3 gap-3">
+                                                <div className="space-y-1">
+                                                    <label htmlFor="seedEvolutionRounds" className="text-[10px] text-slate-300 font-bold uppercase">Rounds</label>
+                                                    <input
+                                                        id="seedEvolutionRounds"
+                                                        type="number"
+                                                        min="1"
+                                                        max="5"
+                                                        value={seedEvolution.rounds}
+                                                        onChange={(e) => updateSeedEvolution({ rounds: Math.min(5, Math.max(1, parseInt(e.target.value) || 1)) })}
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    />
+                                                </div>
+                                                <div className="space-y-1">
+                                                    <label htmlFor="seedEvolutionProvider" className="text-[10px] text-slate-300 font-bold uppercase">Evolver Provider</label>
+                                                    <select
+                                                        id="seedEvolutionProvider"
+                                                        value={seedEvolution.provider || ''}
+                                                        onChange={(e) => updateSeedEvolution({ provider: (e.target.value || undefined) as ExternalProvider | undefined })}
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    >
+                                                        <option value="">Same as generation</option>
+                                                        {allProviders.map(p => (
+                                                            <option key={p} value={p}>{PROVIDERS[p]?.name || p}</option>
+                                                        ))}
+                                                    </select>
+                                                </div>
+                                                <div className="space-y-1">
+                                                    <label htmlFor="seedEvolutionModel" className="text-[10px] text-slate-300 font-bold uppercase">Evolver Model</label>
+                                                    <input
+                                                        id="seedEvolutionModel"
+                                                        type="text"
+                                                        value={seedEvolution.model || ''}
+                                                        onChange={(e) => updateSeedEvolution({ model: e.target.value })}
+                                                        placeholder="Empty = generation model"
+                                                        className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                                    />
+                                                </div>
+                                            </div>
+                                            <p className="text-[9px] text-slate-400">
+                                                A failed round ends the chain at the last good evolution; a seed whose first round fails is not generated. Evolved seeds drop the dataset row, so ground-truth checks do not apply to them.
+                                            </p>
+                                        </>
+                                    )}
+                                </div>
+                            </CollapsibleSection>
                         </>
                     )}
 
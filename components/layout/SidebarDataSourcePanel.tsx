@@ -39,6 +39,8 @@ interface SidebarDataSourcePanelProps {
     onConverterInputChange: (value: string) => void;
     sourceFileInputRef: React.RefObject<HTMLInputElement | null>;
     onLoadSourceFile: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    sessionUid?: string | null;
+    totalLogCount: number;
 }
 
 export default function SidebarDataSourcePanel(props: SidebarDataSourcePanelProps) {
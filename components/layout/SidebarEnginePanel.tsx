@@ -1,4 +1,4 @@
-import { GenerationParams, HuggingFaceConfig, UserAgentConfig, DeepConfig } from '../../types';
+import { GenerationParams, HuggingFaceConfig, UserAgentConfig, DeepConfig, DeepPipelineGraph } from '../../types';
 import { Layers, Sparkles, Users } from 'lucide-react';
 import { ApiType, CreatorMode, DataSource, DeepPhase, EngineMode, ExternalProvider, OllamaStatus, ProviderType } from '../../interfaces/enums';
 import { OutputField } from '../../interfaces/types/PromptSchema';
@@ -12,6 +12,7 @@ import DeepPhaseTabsPanel from '../panels/DeepPhaseTabsPanel';
 import ConversationRewritePanel from '../panels/ConversationRewritePanel';
 import UserAgentConfigPanel from '../panels/UserAgentConfigPanel';
 import RetryConfigPanel from '../panels/RetryConfigPanel';
+import ModelFallbackPanel from '../panels/ModelFallbackPanel';
 import CollapsibleSection from './CollapsibleSection';
 
 interface SidebarEnginePanelProps {
@@ -58,8 +59,9 @@ interface SidebarEnginePanelProps {
     activeDeepTab: DeepPhase;
     onActiveDeepTabChange: (phase: DeepPhase) => void;
     deepConfig: DeepConfig;
-    onUpdatePhase: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter', updates: Partial<DeepConfig['phases']['meta']>) => void;
-    onCopyToAll: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter') => void;
+    onUpdatePhase: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter' | 'critic', updates: Partial<DeepConfig['phases']['meta']>) => void;
+    onCopyToAll: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter' | 'critic') => void;
+    onUpdateGraph: (graph: DeepPipelineGraph | undefined) => void;
     conversationRewriteMode: boolean;
     onConversationRewriteModeChange: (enabled: boolean) => void;
     onDisableUserAgent: () => void;
@@ -130,6 +132,7 @@ export default function SidebarEnginePanel({
     deepConfig,
     onUpdatePhase,
     onCopyToAll,
+    onUpdateGraph,
     conversationRewriteMode,
     onConversationRewriteModeChange,
     onDisableUserAgent,
@@ -187,6 +190,7 @@ export default function SidebarEnginePanel({
                         modelSelectorPlaceholder={modelSelectorPlaceholder}
                         defaultCustomBaseUrl={defaultCustomBaseUrl}
                     />
+                    <ModelFallbackPanel externalProvider={externalProvider} />
                     <GenerationPromptPanel
                         generationParams={generationParams}
                         onGenerationParamsChange={onGenerationParamsChange}
@@ -225,6 +229,7 @@ export default function SidebarEnginePanel({
                             deepConfig={deepConfig}
                             onUpdatePhase={onUpdatePhase}
                             onCopyToAll={onCopyToAll}
+                            onUpdateGraph={onUpdateGraph}
                         />
                     </CollapsibleSection>
                     <CollapsibleSection
@@ -1,5 +1,5 @@
 import type { Dispatch, RefObject, SetStateAction } from 'react';
-import { DeepConfig, DetectedColumns, GenerationParams, HuggingFaceConfig, ProgressStats, UserAgentConfig } from '../../types';
+import { DeepConfig, DeepPipelineGraph, DetectedColumns, GenerationParams, HuggingFaceConfig, ProgressStats, UserAgentConfig } from '../../types';
 import { ApiType, CreatorMode, DataSource, DeepPhase, EngineMode, Environment, ExternalProvider, OllamaStatus, ProviderType } from '../../interfaces/enums';
 import { SessionTag } from '../../interfaces/services/SessionConfig';
 import { OutputField } from '../../interfaces/types/PromptSchema';
@@ -95,8 +95,9 @@ export interface SidebarPanelProps {
     activeDeepTab: DeepPhase;
     onActiveDeepTabChange: (phase: DeepPhase) => void;
     deepConfig: DeepConfig;
-    onUpdatePhase: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter', updates: Partial<DeepConfig['phases']['meta']>) => void;
-    onCopyToAll: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter') => void;
+    onUpdatePhase: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter' | 'critic', updates: Partial<DeepConfig['phases']['meta']>) => void;
+    onCopyToAll: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter' | 'critic') => void;
+    onUpdateGraph: (graph: DeepPipelineGraph | undefined) => void;
     conversationRewriteMode: boolean;
     onConversationRewriteModeChange: (enabled: boolean) => void;
     onDisableUserAgent: () => void;
@@ -232,6 +233,7 @@ export default function SidebarPanel(props: SidebarPanelProps) {
         deepConfig,
         onUpdatePhase,
         onCopyToAll,
+        onUpdateGraph,
         conversationRewriteMode,
         onConversationRewriteModeChange,
         onDisableUserAgent,
@@ -370,6 +372,7 @@ export default function SidebarPanel(props: SidebarPanelProps) {
                 deepConfig={deepConfig}
                 onUpdatePhase={onUpdatePhase}
                 onCopyToAll={onCopyToAll}
+                onUpdateGraph={onUpdateGraph}
                 conversationRewriteMode={conversationRewriteMode}
                 onConversationRewriteModeChange={onConversationRewriteModeChange}
                 onDisableUserAgent={onDisableUserAgent}
@@ -415,6 +418,8 @@ export default function SidebarPanel(props: SidebarPanelProps) {
                 setShowHFResults={setShowHFResults}
                 onHFSearch={onHFSearch}
                 onSelectHFDataset={onSelectHFDataset}
+                sessionUid={sessionUid}
+                totalLogCount={totalLogCount}
                 onConfigChange={onConfigChange}
                 onSplitChange={onSplitChange}
                 prefetchColumns={prefetchColumns}
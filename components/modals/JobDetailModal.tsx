@@ -17,7 +17,7 @@ interface TraceEntry {
 const RERUNNABLE_TYPES = new Set(['rewrite', 'autoscore', 'migrate-reasoning']);
 
 /** Job types that support resume (can continue from where they stopped) */
-const RESUMABLE_TYPES = new Set(['autoscore', 'migrate-reasoning', 'rewrite']);
+const RESUMABLE_TYPES = new Set(['autoscore', 'migrate-reasoning', 'rewrite', 'dedup']);
 
 interface JobDetailModalProps {
     job: BackendJobRecord | undefined;
@@ -33,6 +33,7 @@ const JOB_TYPE_LABELS: Record<string, string> = {
     rewrite: 'Rewrite',
     'remove-items': 'Remove Items',
     'migrate-reasoning': 'Migrate Reasoning',
+    dedup: 'Deduplicate',
     orphan_check: 'Orphan Check',
     orphan_sync: 'Orphan Sync',
 };
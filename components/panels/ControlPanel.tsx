@@ -1,7 +1,9 @@
+import { useState } from 'react';
 import { AlertCircle, ArrowLeftRight, Database, FileJson, Pause, Play, Plus, RefreshCcw, RefreshCw, ShieldCheck, Square, Terminal } from 'lucide-react';
-import { ProgressStats } from '../../types';
+import { DEFAULT_RESPONSE_CACHE_CONFIG, ProgressStats } from '../../types';
 import { DataSource, Environment, CreatorMode } from '../../interfaces/enums';
 import { confirmService } from '../../services/confirmService';
+import { SettingsService } from '../../services/settingsService';
 import { PrefetchState } from '../../services/hfPrefetchService';
 import { TaskType } from '../../interfaces/enums';
 import MiniDbPanel from '../MiniDbPanel';
@@ -63,6 +65,21 @@ export default function ControlPanel({
     onRetryAllFailed,
     onStartNewSession
 }: ControlPanelProps) {
+    const [batchSubmission, setBatchSubmission] = useState(() => Boolean(SettingsService.getSettings().batchSubmission));
+
+    const handleBatchSubmissionChange = (enabled: boolean) => {
+        setBatchSubmission(enabled);
+        SettingsService.updateSettings({ batchSubmission: enabled });
+    };
+
+    const [responseCache, setResponseCache] = useState(() => ({ ...DEFAULT_RESPONSE_CACHE_CONFIG, ...SettingsService.getSettings().responseCache }));
+
+    const handleCacheBypassChange = (bypass: boolean) => {
+        const next = { ...DEFAULT_RESPONSE_CACHE_CONFIG, ...SettingsService.getSettings().responseCache, bypass };
+        setResponseCache(next);
+        SettingsService.updateSettings({ responseCache: next });
+    };
+
     return (
         <div className="bg-slate-950/70 rounded-xl border border-slate-800/70 p-5 shadow-sm relative overflow-hidden group">
             {/* Mode Switcher */}
@@ -131,8 +148,40 @@ export default function ControlPanel({
                 </div>
             )}
 
-            {/* Streaming Toggle */}
-            <div className="flex justify-end items-center mb-3">
+            {/* Cache Bypass / Batch API / Streaming Toggles */}
+            <div className="flex flex-wrap justify-end items-center gap-x-4 gap-y-2 mb-3">
+                {responseCache.enabled && (
+                    <label className="flex items-center gap-2 cursor-pointer group" title="Skip cached responses for this run; its fresh responses replace the cached ones">
+                        <span className="text-xs font-medium text-slate-300 group-hover:text-slate-200 transition-colors">
+                            Bypass Cache
+                        </span>
+                        <div className="relative">
+                            <input
+                                type="checkbox"
+                                checked={responseCache.bypass}
+                                onChange={(e) => handleCacheBypassChange(e.target.checked)}
+                                className="sr-only peer"
+                            />
+                            <div className="w-9 h-5 bg-slate-800/70 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-sky-500/50 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-amber-600"></div>
+                        </div>
+                    </label>
+                )}
+                {appMode === CreatorMode.Converter && (
+                    <label className="flex items-center gap-2 cursor-pointer group" title="Send converter runs on OpenAI or Anthropic to the provider Batch API through the backend: half price, results within 24h. Not available with ground-truth verification or a session budget">
+                        <span className="text-xs font-medium text-slate-300 group-hover:text-slate-200 transition-colors">
+                            Batch API
+                        </span>
+                        <div className="relative">
+                            <input
+                                type="checkbox"
+                                checked={batchSubmission}
+                                onChange={(e) => handleBatchSubmissionChange(e.target.checked)}
+                                className="sr-only peer"
+                            />
+                            <div className="w-9 h-5 bg-slate-800/70 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-sky-500/50 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-slate-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-sky-600"></div>
+                        </div>
+                    </label>
+                )}
                 <label className="flex items-center gap-2 cursor-pointer group">
                     <span className="text-xs font-medium text-slate-300 group-hover:text-slate-200 transition-colors">
                         Streaming
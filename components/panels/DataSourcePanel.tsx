@@ -5,6 +5,7 @@ import { DataSource, OutputFieldName } from '../../interfaces/enums';
 import { DEFAULT_HF_PREFETCH_CONFIG } from '../../types';
 import ColumnSelector from '../ColumnSelector';
 import DataPreviewTable from '../DataPreviewTable';
+import TaxonomyCoveragePanel from './TaxonomyCoveragePanel';
 
 interface DataSourcePanelProps {
     dataSourceMode: DataSource;
@@ -43,6 +44,8 @@ interface DataSourcePanelProps {
     onConverterInputChange: (value: string) => void;
     sourceFileInputRef: React.RefObject<HTMLInputElement | null>;
     onLoadSourceFile: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    sessionUid?: string | null;
+    totalLogCount: number;
 }
 
 export default function DataSourcePanel({
@@ -81,7 +84,9 @@ export default function DataSourcePanel({
     converterInputText,
     onConverterInputChange,
     sourceFileInputRef,
-    onLoadSourceFile
+    onLoadSourceFile,
+    sessionUid,
+    totalLogCount
 }: DataSourcePanelProps) {
     const [isHfAdvancedOpen, setIsHfAdvancedOpen] = React.useState(false);
     const [isManualAdvancedOpen, setIsManualAdvancedOpen] = React.useState(false);
@@ -102,6 +107,7 @@ export default function DataSourcePanel({
                     </div>
                     <textarea value={geminiTopic || ''} onChange={e => onGeminiTopicChange(e.target.value)} className="w-full h-20 bg-slate-950 border border-slate-700/70 rounded px-3 py-2 text-xs text-slate-100 focus:border-sky-500 outline-none resize-none" placeholder="Enter topic..." />
                     <div className="space-y-1"><label className="text-[10px] text-slate-400 font-bold uppercase">Items to Generate</label><input type="number" value={rowsToFetch} onChange={e => onRowsToFetchChange(Number(e.target.value))} className="w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-slate-100 focus:border-sky-500 outline-none" /></div>
+                    <TaxonomyCoveragePanel sessionUid={sessionUid} totalLogCount={totalLogCount} />
                 </div>
             )}
             {dataSourceMode === DataSource.HuggingFace && (
@@ -1,14 +1,16 @@
-import { BrainCircuit, FileEdit, GitBranch, PenTool, Search } from 'lucide-react';
+import { BrainCircuit, FileEdit, GitBranch, PenTool, Search, SearchCheck } from 'lucide-react';
 import { DeepPhase } from '../../interfaces/enums';
-import { DeepConfig } from '../../types';
+import { DeepConfig, DeepPipelineGraph, DEFAULT_TREE_OF_THOUGHT_CONFIG, TreeOfThoughtConfig } from '../../types';
 import DeepPhaseConfigPanel from '../DeepPhaseConfigPanel';
+import DeepPipelineGraphPanel from './DeepPipelineGraphPanel';
 
 interface DeepPhaseTabsPanelProps {
     activeDeepTab: DeepPhase;
     onActiveDeepTabChange: (phase: DeepPhase) => void;
     deepConfig: DeepConfig;
-    onUpdatePhase: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter', updates: Partial<DeepConfig['phases']['meta']>) => void;
-    onCopyToAll: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter') => void;
+    onUpdatePhase: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter' | 'critic', updates: Partial<DeepConfig['phases']['meta']>) => void;
+    onCopyToAll: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter' | 'critic') => void;
+    onUpdateGraph: (graph: DeepPipelineGraph | undefined) => void;
 }
 
 export default function DeepPhaseTabsPanel({
@@ -16,61 +18,144 @@ export default function DeepPhaseTabsPanel({
     onActiveDeepTabChange,
     deepConfig,
     onUpdatePhase,
-    onCopyToAll
+    onCopyToAll,
+    onUpdateGraph
 }: DeepPhaseTabsPanelProps) {
+    const treeOfThought = deepConfig.phases.derivation.treeOfThought || DEFAULT_TREE_OF_THOUGHT_CONFIG;
+    const updateTreeOfThought = (updates: Partial<TreeOfThoughtConfig>) =>
+        onUpdatePhase('derivation', { treeOfThought: { ...treeOfThought, ...updates } });
+
     return (
         <div className="animate-in fade-in slide-in-from-right-2 duration-300">
-            <div className="flex gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800/70 mb-4 overflow-x-auto no-scrollbar">
-                <button onClick={() => onActiveDeepTabChange(DeepPhase.Meta)} className={`p-2 rounded-md transition-all flex items-center gap-2 ${activeDeepTab === DeepPhase.Meta ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}><BrainCircuit className="w-3.5 h-3.5" /></button>
-                <button onClick={() => onActiveDeepTabChange(DeepPhase.Retrieval)} className={`p-2 rounded-md transition-all flex items-center gap-2 ${activeDeepTab === DeepPhase.Retrieval ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'}`}><Search className="w-3.5 h-3.5" /></button>
-                <button onClick={() => onActiveDeepTabChange(DeepPhase.Derivation)} className={`p-2 rounded-md transition-all flex items-center gap-2 ${activeDeepTab === DeepPhase.Derivation ? 'bg-amber-600 text-white' : 'text-slate-400 hover:text-white'}`}><GitBranch className="w-3.5 h-3.5" /></button>
-                <button onClick={() => onActiveDeepTabChange(DeepPhase.Writer)} className={`p-2 rounded-md transition-all flex items-center gap-2 ${activeDeepTab === DeepPhase.Writer ? 'bg-sky-600 text-white' : 'text-slate-400 hover:text-white'}`}><PenTool className="w-3.5 h-3.5" /></button>
-                <button onClick={() => onActiveDeepTabChange(DeepPhase.Rewriter)} className={`p-2 rounded-md transition-all flex items-center gap-2 ${activeDeepTab === DeepPhase.Rewriter ? 'bg-amber-600 text-white' : 'text-slate-400 hover:text-white'}`}><FileEdit className="w-3.5 h-3.5" /></button>
-            </div>
-            {activeDeepTab === DeepPhase.Writer && (
-                <DeepPhaseConfigPanel
-                    title="Step 4: The Writer (Synthesis)"
-                    icon={<PenTool className="w-4 h-4" />}
-                    phase={deepConfig.phases.writer}
-                    onUpdatePhase={(updates) => onUpdatePhase('writer', updates)}
-                    onCopyToAll={() => onCopyToAll('writer')}
-                />
-            )}
-            {activeDeepTab === DeepPhase.Meta && (
-                <DeepPhaseConfigPanel
-                    title="Step 1: Meta-Analysis"
-                    icon={<BrainCircuit className="w-4 h-4" />}
-                    phase={deepConfig.phases.meta}
-                    onUpdatePhase={(updates) => onUpdatePhase('meta', updates)}
-                    onCopyToAll={() => onCopyToAll('meta')}
-                />
-            )}
-            {activeDeepTab === DeepPhase.Retrieval && (
-                <DeepPhaseConfigPanel
-                    title="Step 2: Retrieval & Constraints"
-                    icon={<Search className="w-4 h-4" />}
-                    phase={deepConfig.phases.retrieval}
-                    onUpdatePhase={(updates) => onUpdatePhase('retrieval', updates)}
-                    onCopyToAll={() => onCopyToAll('retrieval')}
-                />
-            )}
-            {activeDeepTab === DeepPhase.Derivation && (
-                <DeepPhaseConfigPanel
-                    title="Step 3: Logical Derivation"
-                    icon={<GitBranch className="w-4 h-4" />}
-                    phase={deepConfig.phases.derivation}
-                    onUpdatePhase={(updates) => onUpdatePhase('derivation', updates)}
-                    onCopyToAll={() => onCopyToAll('derivation')}
-                />
-            )}
-            {activeDeepTab === DeepPhase.Rewriter && (
-                <DeepPhaseConfigPanel
-                    title="Step 5: Response Rewriter (Optional)"
-                    icon={<FileEdit className="w-4 h-4" />}
-                    phase={deepConfig.phases.rewriter}
-                    onUpdatePhase={(updates) => onUpdatePhase('rewriter', updates)}
-                    onCopyToAll={() => onCopyToAll('rewriter')}
-                />
+            <DeepPipelineGraphPanel deepConfig={deepConfig} onUpdateGraph={onUpdateGraph} />
+            {!deepConfig.graph?.enabled && (
+                <>
+                    <div className="flex gap-1 bg-slate-950 p-1 rounded-lg border border-slate-800/70 mb-4 overflow-x-auto no-scrollbar">
+                        <button onClick={() => onActiveDeepTabChange(DeepPhase.Meta)} className={`p-2 rounded-md transition-all flex items-center gap-2 ${activeDeepTab === DeepPhase.Meta ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}><BrainCircuit className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => onActiveDeepTabChange(DeepPhase.Retrieval)} className={`p-2 rounded-md transition-all flex items-center gap-2 ${activeDeepTab === DeepPhase.Retrieval ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'}`}><Search className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => onActiveDeepTabChange(DeepPhase.Derivation)} className={`p-2 rounded-md transition-all flex items-center gap-2 ${activeDeepTab === DeepPhase.Derivation ? 'bg-amber-600 text-white' : 'text-slate-400 hover:text-white'}`}><GitBranch className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => onActiveDeepTabChange(DeepPhase.Writer)} className={`p-2 rounded-md transition-all flex items-center gap-2 ${activeDeepTab === DeepPhase.Writer ? 'bg-sky-600 text-white' : 'text-slate-400 hover:text-white'}`}><PenTool className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => onActiveDeepTabChange(DeepPhase.Rewriter)} className={`p-2 rounded-md transition-all flex items-center gap-2 ${activeDeepTab === DeepPhase.Rewriter ? 'bg-amber-600 text-white' : 'text-slate-400 hover:text-white'}`}><FileEdit className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => onActiveDeepTabChange(DeepPhase.Critic)} className={`p-2 rounded-md transition-all flex items-center gap-2 ${activeDeepTab === DeepPhase.Critic ? 'bg-rose-600 text-white' : 'text-slate-400 hover:text-white'}`}><SearchCheck className="w-3.5 h-3.5" /></button>
+                    </div>
+                    {activeDeepTab === DeepPhase.Writer && (
+                        <DeepPhaseConfigPanel
+                            title="Step 4: The Writer (Synthesis)"
+                            icon={<PenTool className="w-4 h-4" />}
+                            phase={deepConfig.phases.writer}
+                            onUpdatePhase={(updates) => onUpdatePhase('writer', updates)}
+                            onCopyToAll={() => onCopyToAll('writer')}
+                        />
+                    )}
+                    {activeDeepTab === DeepPhase.Meta && (
+                        <DeepPhaseConfigPanel
+                            title="Step 1: Meta-Analysis"
+                            icon={<BrainCircuit className="w-4 h-4" />}
+                            phase={deepConfig.phases.meta}
+                            onUpdatePhase={(updates) => onUpdatePhase('meta', updates)}
+                            onCopyToAll={() => onCopyToAll('meta')}
+                        />
+                    )}
+                    {activeDeepTab === DeepPhase.Retrieval && (
+                        <DeepPhaseConfigPanel
+                            title="Step 2: Retrieval & Constraints"
+                            icon={<Search className="w-4 h-4" />}
+                            phase={deepConfig.phases.retrieval}
+                            onUpdatePhase={(updates) => onUpdatePhase('retrieval', updates)}
+                            onCopyToAll={() => onCopyToAll('retrieval')}
+                        />
+                    )}
+                    {activeDeepTab === DeepPhase.Derivation && (
+                        <>
+                            <DeepPhaseConfigPanel
+                                title="Step 3: Logical Derivation"
+                                icon={<GitBranch className="w-4 h-4" />}
+                                phase={deepConfig.phases.derivation}
+                                onUpdatePhase={(updates) => onUpdatePhase('derivation', updates)}
+                                onCopyToAll={() => onCopyToAll('derivation')}
+                            />
+                            <div className="mt-3 space-y-2 bg-slate-950/70 border border-slate-800/70 rounded-lg px-3 py-2">
+                                <label className="flex items-center justify-between gap-3 cursor-pointer">
+                                    <div>
+                                        <span className="text-[10px] text-slate-300 font-bold uppercase">Tree of Thought</span>
+                                        <p className="text-[9px] text-slate-400">Proposes several approaches, expands each and lets a judge pick the best branch for the writer.</p>
+                                    </div>
+                                    <input
+                                        type="checkbox"
+                                        checked={treeOfThought.enabled}
+                                        onChange={(e) => updateTreeOfThought({ enabled: e.target.checked })}
+                                        className="accent-amber-500"
+                                    />
+                                </label>
+                                {treeOfThought.enabled && (
+                                    <>
+                                        <div className="flex items-center justify-between gap-3">
+                                            <label htmlFor="treeOfThoughtBranches" className="text-[10px] text-slate-300 font-bold uppercase">Branches</label>
+                                            <input
+                                                id="treeOfThoughtBranches"
+                                                type="number"
+                                                min="2"
+                                                max="6"
+                                                value={treeOfThought.branches}
+                                                onChange={(e) => updateTreeOfThought({ branches: Math.min(6, Math.max(2, parseInt(e.target.value) || 2)) })}
+                                                className="w-16 bg-slate-950 border border-slate-700/70 rounded px-2 py-1 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                            />
+                                        </div>
+                                        <label className="flex items-center justify-between gap-3 cursor-pointer">
+                                            <div>
+                                                <span className="text-[10px] text-slate-300 font-bold uppercase">Include Pruned Branches</span>
+                                                <p className="text-[9px] text-slate-400">The writer renders rejected branches as dead ends with ↺ backtracking.</p>
+                                            </div>
+                                            <input
+                                                type="checkbox"
+                                                checked={treeOfThought.includePruned}
+                                                onChange={(e) => updateTreeOfThought({ includePruned: e.target.checked })}
+                                                className="accent-amber-500"
+                                            />
+                                        </label>
+                                    </>
+                                )}
+                            </div>
+                        </>
+                    )}
+                    {activeDeepTab === DeepPhase.Rewriter && (
+                        <DeepPhaseConfigPanel
+                            title="Step 5: Response Rewriter (Optional)"
+                            icon={<FileEdit className="w-4 h-4" />}
+                            phase={deepConfig.phases.rewriter}
+                            onUpdatePhase={(updates) => onUpdatePhase('rewriter', updates)}
+                            onCopyToAll={() => onCopyToAll('rewriter')}
+                        />
+                    )}
+                    {activeDeepTab === DeepPhase.Critic && deepConfig.phases.critic && (
+                        <>
+                            <DeepPhaseConfigPanel
+                                title="Critique & Revise (Optional)"
+                                icon={<SearchCheck className="w-4 h-4" />}
+                                phase={deepConfig.phases.critic}
+                                onUpdatePhase={(updates) => onUpdatePhase('critic', updates)}
+                                onCopyToAll={() => onCopyToAll('critic')}
+                            />
+                            {deepConfig.phases.critic.enabled && (
+                                <div className="mt-3 flex items-center justify-between gap-3 bg-slate-950/70 border border-slate-800/70 rounded-lg px-3 py-2">
+                                    <div>
+                                        <label htmlFor="criticMaxRounds" className="text-[10px] text-slate-300 font-bold uppercase">Max Revision Rounds</label>
+                                        <p className="text-[9px] text-slate-400">Checks the writer's trace against the seed and meta traps; each "revise" verdict sends it back to the writer.</p>
+                                    </div>
+                                    <input
+                                        id="criticMaxRounds"
+                                        type="number"
+                                        min="1"
+                                        max="5"
+                                        value={deepConfig.phases.critic.maxRounds ?? 2}
+                                        onChange={(e) => onUpdatePhase('critic', { maxRounds: Math.min(5, Math.max(1, parseInt(e.target.value) || 1)) })}
+                                        className="w-16 bg-slate-950 border border-slate-700/70 rounded px-2 py-1 text-xs text-slate-100 focus:border-blue-500 outline-none"
+                                    />
+                                </div>
+                            )}
+                        </>
+                    )}
+                </>
             )}
         </div>
     );
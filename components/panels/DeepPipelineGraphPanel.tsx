@@ -0,0 +1,353 @@
+import { useMemo, useState } from 'react';
+import { Bot, Plus, Repeat, RotateCcw, Trash2, Workflow } from 'lucide-react';
+import { DeepPhase } from '../../interfaces/enums';
+import { DeepConfig, DeepPhaseConfig, DeepPipelineGraph, DeepPipelineLoop, DeepPipelineNode } from '../../types';
+import { PHASE_TO_SCHEMA } from '../../services/deep/phaseExecutor';
+import {
+    GRAPH_EXPECTED_ANSWER_INPUT,
+    GRAPH_SEED_INPUT,
+    buildDefaultDeepGraph,
+    validateDeepGraph
+} from '../../services/deep/pipelineGraph';
+import DeepPhaseConfigPanel from '../DeepPhaseConfigPanel';
+
+interface DeepPipelineGraphPanelProps {
+    deepConfig: DeepConfig;
+    onUpdateGraph: (graph: DeepPipelineGraph | undefined) => void;
+}
+
+const BASE_PROMPTS: { phase: DeepPhase; label: string }[] = [
+    { phase: DeepPhase.Meta, label: 'Meta-Analysis' },
+    { phase: DeepPhase.Retrieval, label: 'Retrieval' },
+    { phase: DeepPhase.Derivation, label: 'Derivation' },
+    { phase: DeepPhase.Writer, label: 'Writer' },
+    { phase: DeepPhase.Rewriter, label: 'Rewriter' },
+    { phase: DeepPhase.Critic, label: 'Critic' }
+];
+
+const SOURCE_LABELS: Record<string, string> = {
+    [GRAPH_SEED_INPUT]: 'seed',
+    [GRAPH_EXPECTED_ANSWER_INPUT]: 'expected answer'
+};
+
+const inputClass = 'w-full bg-slate-950/70 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-white focus:border-sky-500 outline-none';
+
+export default function DeepPipelineGraphPanel({ deepConfig, onUpdateGraph }: DeepPipelineGraphPanelProps) {
+    const graph = deepConfig.graph;
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const errors = useMemo(() => (graph?.enabled ? validateDeepGraph(graph) : []), [graph]);
+
+    const selected = graph?.nodes.find(node => node.id === selectedId) || graph?.nodes[0] || null;
+
+    const update = (changes: Partial<DeepPipelineGraph>) => {
+        if (graph) onUpdateGraph({ ...graph, ...changes });
+    };
+
+    const updateNode = (id: string, changes: Partial<DeepPipelineNode>) => {
+        if (!graph) return;
+        update({ nodes: graph.nodes.map(node => (node.id === id ? { ...node, ...changes } : node)) });
+    };
+
+    const updateAgent = (id: string, changes: Partial<DeepPhaseConfig>) => {
+        const node = graph?.nodes.find(n => n.id === id);
+        if (node) updateNode(id, { agent: { ...node.agent, ...changes } });
+    };
+
+    // Renames carry over to every reference so the graph stays connected
+    const renameNode = (from: string, to: string) => {
+        if (!graph) return;
+        const swap = (id: string) => (id === from ? to : id);
+        onUpdateGraph({
+            ...graph,
+            nodes: graph.nodes.map(node => ({ ...node, id: swap(node.id), inputs: node.inputs.map(swap) })),
+            loops: (graph.loops || []).map(loop => ({
+                ...loop,
+                start: swap(loop.start),
+                end: swap(loop.end),
+                ...(loop.stopWhen ? { stopWhen: { ...loop.stopWhen, node: swap(loop.stopWhen.node) } } : {})
+            })),
+            output: {
+                reasoning: swap(graph.output.reasoning),
+                ...(graph.output.answer ? { answer: swap(graph.output.answer) } : {})
+            }
+        });
+        setSelectedId(to);
+    };
+
+    const addNode = () => {
+        if (!graph) return;
+        let index = graph.nodes.length + 1;
+        while (graph.nodes.some(node => node.id === `agent_${index}`)) index++;
+        const node: DeepPipelineNode = {
+            id: `agent_${index}`,
+            agent: { ...deepConfig.phases.derivation },
+            inputs: [GRAPH_SEED_INPUT]
+        };
+        update({ nodes: [...graph.nodes, node] });
+        setSelectedId(node.id);
+    };
+
+    const removeNode = (id: string) => {
+        if (!graph) return;
+        update({
+            nodes: graph.nodes
+                .filter(node => node.id !== id)
+                .map(node => ({ ...node, inputs: node.inputs.filter(input => input !== id) })),
+            loops: (graph.loops || []).filter(loop => loop.start !== id && loop.end !== id)
+        });
+        setSelectedId(null);
+    };
+
+    const toggleInput = (node: DeepPipelineNode, input: string) => {
+        updateNode(node.id, {
+            inputs: node.inputs.includes(input) ? node.inputs.filter(i => i !== input) : [...node.inputs, input]
+        });
+    };
+
+    const setBasePrompt = (node: DeepPipelineNode, phase: DeepPhase) => {
+        const schema = PHASE_TO_SCHEMA[phase]();
+        updateAgent(node.id, { id: phase, promptSchema: schema, systemPrompt: schema.prompt, selectedFields: undefined });
+    };
+
+    const copyAgentToAll = (source: DeepPhaseConfig) => {
+        if (!graph) return;
+        update({
+            nodes: graph.nodes.map(node => ({
+                ...node,
+                agent: {
+                    ...node.agent,
+                    provider: source.provider,
+                    externalProvider: source.externalProvider,
+                    apiKey: source.apiKey,
+                    model: source.model,
+                    customBaseUrl: source.customBaseUrl
+                }
+            }))
+        });
+    };
+
+    const updateLoop = (index: number, changes: Partial<DeepPipelineLoop>) => {
+        if (!graph) return;
+        update({ loops: (graph.loops || []).map((loop, i) => (i === index ? { ...loop, ...changes } : loop)) });
+    };
+
+    const addLoop = () => {
+        if (!graph || graph.nodes.length === 0) return;
+        const last = graph.nodes[graph.nodes.length - 1].id;
+        update({ loops: [...(graph.loops || []), { start: last, end: last, maxIterations: 2 }] });
+    };
+
+    return (
+        <div className="bg-slate-950 p-3 rounded-lg border border-slate-800/70 mb-4 space-y-3">
+            <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-xs font-bold text-slate-200 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={!!graph?.enabled}
+                        onChange={e => onUpdateGraph(graph
+                            ? { ...graph, enabled: e.target.checked }
+                            : buildDefaultDeepGraph(deepConfig))}
+                        className="accent-sky-500"
+                    />
+                    <Workflow className="w-3.5 h-3.5 text-sky-400" /> Custom Pipeline Graph
+                </label>
+                {graph?.enabled && (
+                    <button
+                        onClick={() => {
+                            onUpdateGraph(buildDefaultDeepGraph(deepConfig));
+                            setSelectedId(null);
+                        }}
+                        title="Rebuild from the fixed phases"
+                        className="flex items-center gap-1 text-[10px] text-slate-400 hover:text-white transition-colors"
+                    >
+                        <RotateCcw className="w-3 h-3" /> Reset
+                    </button>
+                )}
+            </div>
+
+            {graph?.enabled && (
+                <>
+                    <div className="flex flex-wrap gap-1">
+                        {graph.nodes.map(node => (
+                            <button
+                                key={node.id}
+                                onClick={() => setSelectedId(node.id)}
+                                className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold transition-colors ${selected?.id === node.id ? 'bg-sky-600 text-white' : 'bg-slate-900/60 text-slate-300 hover:bg-slate-800/70'} ${node.agent.enabled ? '' : 'opacity-50'}`}
+                            >
+                                <Bot className="w-3 h-3" /> {node.id}
+                            </button>
+                        ))}
+                        <button
+                            onClick={addNode}
+                            className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold text-sky-400 hover:bg-slate-900/60 transition-colors"
+                        >
+                            <Plus className="w-3 h-3" /> Agent
+                        </button>
+                    </div>
+
+                    {selected && (
+                        <div className="space-y-2 border-t border-slate-800/70 pt-3">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={selected.id}
+                                    onChange={e => renameNode(selected.id, e.target.value.replace(/\s+/g, '_'))}
+                                    className={inputClass}
+                                    placeholder="Agent name"
+                                />
+                                <select
+                                    value={selected.agent.id}
+                                    onChange={e => setBasePrompt(selected, e.target.value as DeepPhase)}
+                                    title="Base prompt schema"
+                                    className={inputClass}
+                                >
+                                    {BASE_PROMPTS.map(({ phase, label }) => (
+                                        <option key={phase} value={phase}>{label} prompt</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={() => removeNode(selected.id)}
+                                    title="Remove agent"
+                                    className="p-1.5 text-slate-400 hover:text-red-400 transition-colors"
+                                >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+
+                            <div className="space-y-1">
+                                <label className="text-[10px] text-slate-400 font-bold uppercase">Inputs</label>
+                                <div className="flex flex-wrap gap-1">
+                                    {[GRAPH_SEED_INPUT, GRAPH_EXPECTED_ANSWER_INPUT, ...graph.nodes.map(n => n.id).filter(id => id !== selected.id)].map(input => (
+                                        <button
+                                            key={input}
+                                            onClick={() => toggleInput(selected, input)}
+                                            className={`px-2 py-0.5 rounded-full text-[10px] border transition-colors ${selected.inputs.includes(input) ? 'border-sky-500 bg-sky-950/60 text-sky-200' : 'border-slate-700/70 text-slate-400 hover:text-white'}`}
+                                        >
+                                            {SOURCE_LABELS[input] || input}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="space-y-1">
+                                <label className="text-[10px] text-slate-400 font-bold uppercase">Instruction</label>
+                                <textarea
+                                    value={selected.instruction || ''}
+                                    onChange={e => updateNode(selected.id, { instruction: e.target.value })}
+                                    placeholder="Appended after the upstream reports, e.g. how to combine them and the JSON to return"
+                                    className="w-full h-20 bg-slate-950 border border-slate-700/70 rounded p-2 text-[10px] font-mono text-slate-200 focus:border-sky-500 outline-none resize-y"
+                                    spellCheck={false}
+                                />
+                            </div>
+
+                            <DeepPhaseConfigPanel
+                                title={`Agent: ${selected.id}`}
+                                icon={<Bot className="w-4 h-4" />}
+                                phase={selected.agent}
+                                onUpdatePhase={(updates) => updateAgent(selected.id, updates)}
+                                onCopyToAll={() => copyAgentToAll(selected.agent)}
+                            />
+                        </div>
+                    )}
+
+                    <div className="grid grid-cols-2 gap-2 border-t border-slate-800/70 pt-3">
+                        <div className="space-y-1">
+                            <label className="text-[10px] text-slate-400 font-bold uppercase">Reasoning From</label>
+                            <select
+                                value={graph.output.reasoning}
+                                onChange={e => update({ output: { ...graph.output, reasoning: e.target.value } })}
+                                className={inputClass}
+                            >
+                                {graph.nodes.map(node => <option key={node.id} value={node.id}>{node.id}</option>)}
+                            </select>
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-[10px] text-slate-400 font-bold uppercase">Answer From</label>
+                            <select
+                                value={graph.output.answer || ''}
+                                onChange={e => update({ output: { reasoning: graph.output.reasoning, ...(e.target.value ? { answer: e.target.value } : {}) } })}
+                                className={inputClass}
+                            >
+                                <option value="">Expected answer</option>
+                                {graph.nodes.map(node => <option key={node.id} value={node.id}>{node.id}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="space-y-2 border-t border-slate-800/70 pt-3">
+                        <div className="flex items-center justify-between">
+                            <label className="text-[10px] text-slate-400 font-bold uppercase flex items-center gap-1">
+                                <Repeat className="w-3 h-3" /> Loops
+                            </label>
+                            <button
+                                onClick={addLoop}
+                                className="flex items-center gap-1 text-[10px] text-sky-400 hover:text-sky-300"
+                            >
+                                <Plus className="w-3 h-3" /> Loop
+                            </button>
+                        </div>
+                        {(graph.loops || []).map((loop, index) => (
+                            <div key={index} className="space-y-1 bg-slate-900/40 rounded p-2">
+                                <div className="flex items-center gap-1 text-[10px] text-slate-400">
+                                    <select value={loop.start} onChange={e => updateLoop(index, { start: e.target.value })} className={inputClass}>
+                                        {graph.nodes.map(node => <option key={node.id} value={node.id}>{node.id}</option>)}
+                                    </select>
+                                    →
+                                    <select value={loop.end} onChange={e => updateLoop(index, { end: e.target.value })} className={inputClass}>
+                                        {graph.nodes.map(node => <option key={node.id} value={node.id}>{node.id}</option>)}
+                                    </select>
+                                    ×
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={loop.maxIterations}
+                                        onChange={e => updateLoop(index, { maxIterations: Math.max(1, Number(e.target.value) || 1) })}
+                                        title="Max iterations"
+                                        className={`${inputClass} w-14`}
+                                    />
+                                    <button
+                                        onClick={() => update({ loops: (graph.loops || []).filter((_, i) => i !== index) })}
+                                        className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+                                    >
+                                        <Trash2 className="w-3 h-3" />
+                                    </button>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    <input
+                                        type="text"
+                                        value={loop.stopWhen?.field || ''}
+                                        onChange={e => updateLoop(index, { stopWhen: e.target.value || loop.stopWhen?.pattern ? { node: loop.stopWhen?.node || loop.start, pattern: loop.stopWhen?.pattern || '', field: e.target.value } : undefined })}
+                                        placeholder={`Stop field of ${loop.stopWhen?.node || loop.start}`}
+                                        className={inputClass}
+                                    />
+                                    <input
+                                        type="text"
+                                        value={loop.stopWhen?.pattern || ''}
+                                        onChange={e => updateLoop(index, { stopWhen: e.target.value || loop.stopWhen?.field ? { node: loop.stopWhen?.node || loop.start, field: loop.stopWhen?.field || '', pattern: e.target.value } : undefined })}
+                                        placeholder="matches (regex), e.g. ^approved"
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <p className="text-[10px] text-slate-500">
+                                    Add {loop.end} as an input of {loop.start} to feed each pass into the next.
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+
+                    {(deepConfig.phases.critic?.enabled || deepConfig.phases.derivation.treeOfThought?.enabled) && (
+                        <p className="text-[10px] text-amber-400">
+                            Tree of thought and the critique loop only run in the fixed pipeline. Add a critic agent and a loop to review in the graph.
+                        </p>
+                    )}
+
+                    {errors.length > 0 && (
+                        <ul className="text-[10px] text-rose-400 space-y-0.5">
+                            {errors.map(error => <li key={error}>{error}</li>)}
+                        </ul>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
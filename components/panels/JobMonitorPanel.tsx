@@ -17,6 +17,7 @@ const JOB_TYPE_LABELS: Record<string, string> = {
     rewrite: 'Rewrite',
     'remove-items': 'Remove Items',
     'migrate-reasoning': 'Migrate Reasoning',
+    dedup: 'Deduplicate',
     orphan_check: 'Orphan Check',
     orphan_sync: 'Orphan Sync',
 };
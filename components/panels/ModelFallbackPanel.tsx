@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, GitFork } from 'lucide-react';
+import { ExternalProvider, type ModelFallback } from '../../types';
+import { SettingsService } from '../../services/settingsService';
+import ModelFallbackEditor from '../ModelFallbackEditor';
+
+interface ModelFallbackPanelProps {
+    /** Provider of the sidebar model, used for the first fallback added */
+    externalProvider: ExternalProvider;
+}
+
+export default function ModelFallbackPanel({ externalProvider }: ModelFallbackPanelProps) {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [fallbacks, setFallbacks] = useState<ModelFallback[]>(() =>
+        SettingsService.getSettings().generationFallbacks || []
+    );
+
+    const handleChange = (next: ModelFallback[]) => {
+        setFallbacks(next);
+        SettingsService.updateSettings({ generationFallbacks: next });
+    };
+
+    return (
+        <div className="bg-slate-950/70 rounded-lg border border-slate-800/70 overflow-hidden">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full flex items-center justify-between p-3 hover:bg-slate-900/60 transition-colors"
+            >
+                <div className="flex items-center gap-2">
+                    <GitFork className="w-3.5 h-3.5 text-sky-400" />
+                    <span className="text-xs font-bold text-slate-200">Fallback Models</span>
+                    {!isExpanded && (
+                        <span className="text-[10px] text-slate-400 ml-2">
+                            {fallbacks.length > 0 ? fallbacks.map(f => f.model || f.provider).join(' → ') : 'None'}
+                        </span>
+                    )}
+                </div>
+                {isExpanded ? <ChevronDown className="w-3.5 h-3.5 text-slate-300" /> : <ChevronRight className="w-3.5 h-3.5 text-slate-300" />}
+            </button>
+
+            {isExpanded && (
+                <div className="p-3 pt-2 border-t border-slate-800/70 mt-1">
+                    <ModelFallbackEditor
+                        fallbacks={fallbacks}
+                        onChange={handleChange}
+                        defaultProvider={externalProvider}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,135 @@
+import React from 'react';
+import { Plus, RotateCcw, Trash2, Users } from 'lucide-react';
+import { PersonaExpertise } from '../../interfaces/enums';
+import { DEFAULT_USER_PERSONAS, UserPersona } from '../../types';
+
+interface PersonaLibraryPanelProps {
+    enabled: boolean;
+    personas: UserPersona[];
+    onEnabledChange: (enabled: boolean) => void;
+    onPersonasChange: (personas: UserPersona[]) => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700/70 rounded px-2 py-1 text-xs text-white outline-none focus:border-cyan-500';
+
+export default function PersonaLibraryPanel({
+    enabled,
+    personas,
+    onEnabledChange,
+    onPersonasChange
+}: PersonaLibraryPanelProps) {
+    const updatePersona = (index: number, updates: Partial<UserPersona>) =>
+        onPersonasChange(personas.map((persona, i) => (i === index ? { ...persona, ...updates } : persona)));
+
+    const addPersona = () => onPersonasChange([
+        ...personas,
+        {
+            id: `persona_${Date.now().toString(36)}`,
+            name: 'New Persona',
+            expertise: PersonaExpertise.Intermediate,
+            tone: '',
+            goals: '',
+            language: 'English',
+            weight: 1
+        }
+    ]);
+
+    return (
+        <div className="space-y-2 pt-2 border-t border-cyan-500/20">
+            <label className="flex items-center justify-between gap-3 cursor-pointer">
+                <span className="text-[10px] text-slate-400 font-bold uppercase flex items-center gap-1.5">
+                    <Users className="w-3 h-3 text-cyan-400" />
+                    Sample Personas
+                </span>
+                <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => onEnabledChange(e.target.checked)}
+                    className="accent-cyan-500"
+                />
+            </label>
+            <p className="text-[10px] text-cyan-300/70">Each conversation picks one persona by weight; the simulated user stays in character and the persona is saved on the item.</p>
+            {enabled && (
+                <>
+                    {personas.map((persona, index) => (
+                        <div key={persona.id} className="space-y-1.5 p-2 bg-slate-950/70 border border-slate-800/70 rounded">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={persona.name}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updatePersona(index, { name: e.target.value })}
+                                    className={`${inputClass} font-medium`}
+                                    aria-label="Persona name"
+                                />
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={persona.weight}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updatePersona(index, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                    className="w-14 bg-slate-950 border border-slate-700/70 rounded px-2 py-1 text-xs text-white outline-none focus:border-cyan-500"
+                                    title="Sampling weight (0 = unused)"
+                                />
+                                <button
+                                    onClick={() => onPersonasChange(personas.filter((_, i) => i !== index))}
+                                    className="p-1 text-slate-500 hover:text-rose-400 transition-colors"
+                                    title="Remove persona"
+                                >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                            <div className="grid grid-cols-2 gap-1.5">
+                                <select
+                                    value={persona.expertise}
+                                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updatePersona(index, { expertise: e.target.value as PersonaExpertise })}
+                                    className={inputClass}
+                                    aria-label="Expertise"
+                                >
+                                    <option value={PersonaExpertise.Novice}>Novice</option>
+                                    <option value={PersonaExpertise.Intermediate}>Intermediate</option>
+                                    <option value={PersonaExpertise.Expert}>Expert</option>
+                                </select>
+                                <input
+                                    type="text"
+                                    value={persona.language}
+                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updatePersona(index, { language: e.target.value })}
+                                    placeholder="Language"
+                                    className={inputClass}
+                                />
+                            </div>
+                            <input
+                                type="text"
+                                value={persona.tone}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updatePersona(index, { tone: e.target.value })}
+                                placeholder="Tone"
+                                className={inputClass}
+                            />
+                            <input
+                                type="text"
+                                value={persona.goals}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updatePersona(index, { goals: e.target.value })}
+                                placeholder="Goals"
+                                className={inputClass}
+                            />
+                            <input
+                                type="text"
+                                value={persona.adversarial || ''}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updatePersona(index, { adversarial: e.target.value })}
+                                placeholder="Adversarial behaviour (empty = cooperative)"
+                                className={inputClass}
+                            />
+                        </div>
+                    ))}
+                    <div className="flex items-center gap-3">
+                        <button onClick={addPersona} className="flex items-center gap-1 text-[10px] text-cyan-400 hover:text-cyan-300">
+                            <Plus className="w-3 h-3" /> Add persona
+                        </button>
+                        <button onClick={() => onPersonasChange(DEFAULT_USER_PERSONAS)} className="flex items-center gap-1 text-[10px] text-slate-400 hover:text-slate-300">
+                            <RotateCcw className="w-3 h-3" /> Reset to defaults
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronRight, ListTree } from 'lucide-react';
+import { DEFAULT_TAXONOMY_CONFIG } from '../../types';
+import { LogStorageService } from '../../services/logStorageService';
+import { SettingsService } from '../../services/settingsService';
+import { buildTaxonomyCoverage, type TaxonomyCoverage } from '../../services/taxonomyService';
+
+interface TaxonomyCoveragePanelProps {
+    sessionUid?: string | null;
+    /** Reloads coverage as items are added */
+    totalLogCount: number;
+}
+
+export default function TaxonomyCoveragePanel({ sessionUid, totalLogCount }: TaxonomyCoveragePanelProps) {
+    const taxonomy = { ...DEFAULT_TAXONOMY_CONFIG, ...SettingsService.getSettings().taxonomy };
+    const [coverage, setCoverage] = useState<TaxonomyCoverage | null>(null);
+    const [showLeaves, setShowLeaves] = useState(false);
+
+    useEffect(() => {
+        if (!taxonomy.enabled) return;
+        let cancelled = false;
+        const load = async () => {
+            const items = sessionUid ? await LogStorageService.getAllLogs(sessionUid) : [];
+            if (!cancelled) setCoverage(buildTaxonomyCoverage(taxonomy, items));
+        };
+        load();
+        return () => { cancelled = true; };
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [sessionUid, totalLogCount, taxonomy.enabled, taxonomy.nodes, taxonomy.defaultQuota]);
+
+    if (!taxonomy.enabled || !coverage) return null;
+
+    const percent = coverage.totalQuota > 0 ? Math.round((coverage.totalFilled / coverage.totalQuota) * 100) : 100;
+
+    return (
+        <div className="p-2 bg-cyan-500/10 border border-cyan-500/20 rounded space-y-2">
+            <button onClick={() => setShowLeaves(!showLeaves)} className="w-full flex items-center justify-between text-[10px] text-cyan-200">
+                <span className="flex items-center gap-1.5 font-bold uppercase">
+                    <ListTree className="w-3 h-3" /> {taxonomy.name}
+                </span>
+                <span className="flex items-center gap-1">
+                    {coverage.totalFilled}/{coverage.totalQuota} · {coverage.completeLeaves}/{coverage.rows.length} leaves
+                    {showLeaves ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                </span>
+            </button>
+            <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-cyan-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            {showLeaves && (
+                <div className="max-h-48 overflow-y-auto space-y-0.5">
+                    {coverage.rows.map(row => (
+                        <div key={row.key} className="flex items-center justify-between gap-2 text-[10px]">
+                            <span className="text-slate-300 truncate" title={row.key}>{row.key}</span>
+                            <span className={`font-mono flex-shrink-0 ${row.filled >= row.quota ? 'text-emerald-400' : 'text-amber-400'}`}>
+                                {row.filled}/{row.quota}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <p className="text-[9px] text-slate-400">Quotas replace Items to Generate; append runs fill the leaves still short.</p>
+        </div>
+    );
+}
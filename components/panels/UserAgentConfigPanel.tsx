@@ -4,7 +4,8 @@ import { ApiType, ExternalProvider, ProviderType, ResponderPhase } from '../../i
 import { EXTERNAL_PROVIDERS } from '../../constants';
 import { SettingsService } from '../../services/settingsService';
 import ModelSelector from '../ModelSelector';
-import { UserAgentConfig } from '../../types';
+import { DEFAULT_USER_PERSONAS, UserAgentConfig } from '../../types';
+import PersonaLibraryPanel from './PersonaLibraryPanel';
 
 interface UserAgentConfigPanelProps {
     userAgentConfig: UserAgentConfig;
@@ -134,6 +135,12 @@ export default function UserAgentConfigPanel({
                             )}
                         </div>
                     )}
+                    <PersonaLibraryPanel
+                        enabled={userAgentConfig.usePersonas ?? false}
+                        personas={userAgentConfig.personas ?? DEFAULT_USER_PERSONAS}
+                        onEnabledChange={(usePersonas) => onUserAgentConfigChange(prev => ({ ...prev, usePersonas }))}
+                        onPersonasChange={(personas) => onUserAgentConfigChange(prev => ({ ...prev, personas }))}
+                    />
                 </div>
             )}
         </div>
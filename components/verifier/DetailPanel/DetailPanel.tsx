@@ -30,6 +30,9 @@ interface DetailPanelProps {
     onRewriteMessageBoth?: (item: VerifierItem, messageIndex: number) => void;
     onRewriteQuery?: (item: VerifierItem, messageIndex: number) => void;
     onDeleteMessageFromHere?: (item: VerifierItem, messageIndex: number) => void;
+    onGenerateAlternative?: (item: VerifierItem, messageIndex: number) => void;
+    onSelectBranch?: (item: VerifierItem, messageIndex: number, branchId: string) => void;
+    onRemoveAlternative?: (item: VerifierItem, messageIndex: number, branchId: string) => void;
     onDeleteItem?: (item: VerifierItem) => void;
     onDbUpdate?: (item: VerifierItem) => Promise<void>;
     onDbRollback?: (item: VerifierItem) => Promise<void>;
@@ -62,6 +65,9 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({
     onRewriteMessageBoth,
     onRewriteQuery,
     onDeleteMessageFromHere,
+    onGenerateAlternative,
+    onSelectBranch,
+    onRemoveAlternative,
     onDeleteItem,
     onDbUpdate,
     onDbRollback,
@@ -532,6 +538,9 @@ export const DetailPanel: React.FC<DetailPanelProps> = ({
                             onRewriteMessageBoth={onRewriteMessageBoth}
                             onRewriteQuery={onRewriteQuery}
                             onDeleteMessageFromHere={onDeleteMessageFromHere}
+                            onGenerateAlternative={onGenerateAlternative}
+                            onSelectBranch={onSelectBranch}
+                            onRemoveAlternative={onRemoveAlternative}
                             setMessageRewriteDropdownIndex={setMessageRewriteDropdownIndex}
                         />
                     )}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { User, Bot, Brain, Check, X, Sparkles, Trash2, ChevronLeft, ChevronRight, MessageCircle, Filter } from 'lucide-react';
+import { User, Bot, Brain, Check, X, Sparkles, Trash2, ChevronLeft, ChevronRight, MessageCircle, Filter, GitBranch } from 'lucide-react';
 import { VerifierItem } from '../../../../types';
 import { VerifierRewriteTarget, ChatRole } from '../../../../interfaces/enums';
 import AutoResizeTextarea from '../../../AutoResizeTextarea';
@@ -25,6 +25,9 @@ interface DetailConversationSectionProps {
     onRewriteMessageBoth?: (item: VerifierItem, messageIndex: number) => void;
     onRewriteQuery?: (item: VerifierItem, messageIndex: number) => void;
     onDeleteMessageFromHere?: (item: VerifierItem, messageIndex: number) => void;
+    onGenerateAlternative?: (item: VerifierItem, messageIndex: number) => void;
+    onSelectBranch?: (item: VerifierItem, messageIndex: number, branchId: string) => void;
+    onRemoveAlternative?: (item: VerifierItem, messageIndex: number, branchId: string) => void;
     setMessageRewriteDropdownIndex: (index: number | null) => void;
 }
 
@@ -47,6 +50,9 @@ export const DetailConversationSection: React.FC<DetailConversationSectionProps>
     onRewriteMessageBoth,
     onRewriteQuery,
     onDeleteMessageFromHere,
+    onGenerateAlternative,
+    onSelectBranch,
+    onRemoveAlternative,
     setMessageRewriteDropdownIndex
 }) => {
     const [internalActiveIndex, setInternalActiveIndex] = useState(0);
@@ -86,6 +92,8 @@ export const DetailConversationSection: React.FC<DetailConversationSectionProps>
     const isEditingReasoning = editState?.field?.startsWith('message_reasoning') && editState.messageIndex === activeMessageIndex;
     const rewriteState = getMessageRewriteState(activeMessageIndex);
     const isRewritingThis = !!rewriteState;
+    const isGeneratingAlternative = rewriteState?.field === VerifierRewriteTarget.MessageAlternative;
+    const alternatives = hasActiveMsg ? activeMsg!.alternatives || [] : [];
 
     const parsed = hasActiveMsg ? parseThinkTagsForDisplay(activeMsg!.content || '') : { hasThinkTags: false, reasoning: '', answer: '' };
     const msgReasoning = hasActiveMsg ? sanitizeReasoningContent(activeMsg!.reasoning_content || parsed.reasoning || '') : '';
@@ -160,6 +168,12 @@ export const DetailConversationSection: React.FC<DetailConversationSectionProps>
                             {isMsgUser ? <User className="w-3.5 h-3.5" /> : <Bot className="w-3.5 h-3.5" />}
                             <span>#{idx + 1}</span>
                             <span className="hidden sm:inline">{isMsgUser ? 'User' : 'Assistant'}</span>
+                            {msg.alternatives && msg.alternatives.length > 0 && (
+                                <span className="flex items-center gap-0.5 text-amber-400" title={`${msg.alternatives.length} alternative(s)`}>
+                                    <GitBranch className="w-3 h-3" />
+                                    {msg.alternatives.length}
+                                </span>
+                            )}
                         </button>
                     );
                 })}
@@ -305,6 +319,17 @@ export const DetailConversationSection: React.FC<DetailConversationSectionProps>
                                                 Rewrite
                                             </button>
                                         )}
+                                        {!isUser && activeMessageIndex > 0 && onGenerateAlternative && (
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); onGenerateAlternative(item, activeMessageIndex); }}
+                                                disabled={isRewritingThis}
+                                                className="flex items-center gap-1 px-2 py-1.5 text-xs font-medium text-amber-400 hover:bg-amber-900/30 rounded transition-colors disabled:opacity-50"
+                                                title="Generate an alternative response from the preceding turns"
+                                            >
+                                                <GitBranch className="w-3.5 h-3.5" />
+                                                Alternative
+                                            </button>
+                                        )}
                                         {onDeleteMessageFromHere && (
                                             <button
                                                 onClick={(e) => { e.stopPropagation(); onDeleteMessageFromHere(item, activeMessageIndex); }}
@@ -461,6 +486,70 @@ export const DetailConversationSection: React.FC<DetailConversationSectionProps>
                                 )}
                             </div>
                         </div>
+
+                        {/* Alternative Responses */}
+                        {!isUser && (alternatives.length > 0 || isGeneratingAlternative) && (
+                            <div className="mt-4">
+                                <div className="flex items-center gap-2 mb-2">
+                                    <GitBranch className="w-4 h-4 text-amber-400" />
+                                    <span className="text-xs font-semibold text-amber-400 uppercase tracking-wider">
+                                        Alternatives
+                                    </span>
+                                    <span className="text-[10px] text-slate-500">the message above is canonical and exported as chosen</span>
+                                </div>
+                                <div className="space-y-2">
+                                    {alternatives.map((branch, branchIdx) => {
+                                        const head = branch.messages[0];
+                                        const headParts = parseThinkTagsForDisplay(head?.content || '');
+                                        const continuation = branch.messages.length - 1;
+                                        return (
+                                            <div key={branch.id} className="bg-amber-950/10 border border-amber-900/30 rounded-lg p-3">
+                                                <div className="flex items-center justify-between mb-2">
+                                                    <div className="flex items-center gap-2 text-[10px] text-slate-500 font-mono">
+                                                        <span className="text-amber-400 font-semibold">ALT {branchIdx + 1}</span>
+                                                        {head?.modelUsed && <span>{head.modelUsed}</span>}
+                                                        {continuation > 0 && <span>+{continuation} later message(s)</span>}
+                                                    </div>
+                                                    <div className="flex items-center gap-1">
+                                                        {onSelectBranch && (
+                                                            <button
+                                                                onClick={() => onSelectBranch(item, activeMessageIndex, branch.id)}
+                                                                disabled={isRewritingThis}
+                                                                className="flex items-center gap-1 px-2 py-1 text-xs font-medium text-emerald-400 hover:bg-emerald-900/30 rounded transition-colors disabled:opacity-50"
+                                                                title="Use this branch as the conversation; the current one is kept as an alternative"
+                                                            >
+                                                                <Check className="w-3.5 h-3.5" />
+                                                                Make Canonical
+                                                            </button>
+                                                        )}
+                                                        {onRemoveAlternative && (
+                                                            <button
+                                                                onClick={() => onRemoveAlternative(item, activeMessageIndex, branch.id)}
+                                                                className="p-1 text-red-400 hover:bg-red-900/30 rounded transition-colors"
+                                                                title="Remove alternative"
+                                                            >
+                                                                <Trash2 className="w-3.5 h-3.5" />
+                                                            </button>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                                <div className="text-sm text-slate-300 leading-relaxed prose prose-invert prose-sm max-w-none max-h-48 overflow-y-auto">
+                                                    <MarkdownRenderer content={(headParts.hasThinkTags ? headParts.answer : head?.content) || '(No content)'} />
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                    {isGeneratingAlternative && (
+                                        <div className="bg-amber-950/10 border border-amber-900/30 rounded-lg p-3">
+                                            <p className="text-sm text-amber-300 animate-pulse whitespace-pre-wrap leading-relaxed">
+                                                {rewriteState.content || rewriteState.reasoningContent || 'Generating alternative...'}
+                                                <span className="inline-block w-2 h-4 bg-amber-400 ml-1 animate-pulse" />
+                                            </p>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
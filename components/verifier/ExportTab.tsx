@@ -1,13 +1,49 @@
+import { useState } from 'react';
 import {
-    CheckCircle2, Database, Server, RefreshCcw, FileJson, Upload, ArrowRight, FileType
+    CheckCircle2, Database, Server, RefreshCcw, FileJson, Upload, ArrowRight, FileType, ThumbsUp, Eye, Split, Layers
 } from 'lucide-react';
+import { ExportPreset, SplitStratifyBy } from '../../interfaces/enums';
+import type { DatasetSplitConfig, ExportTemplate } from '../../types';
+import type { ShardedUploadProgress, ShardedUploadState } from '../../services/hfShardedUploadService';
+import { DATASET_SPLIT_NAMES, hasSplitRatios } from '../../utils/datasetSplit';
+import { DATASET_CARD_LICENSES } from '../../utils/datasetCard';
+import { EXPORT_PRESETS } from '../../utils/exportPresets';
+import ExportTemplateEditor from './ExportTemplateEditor';
 
 interface ExportTabProps {
     exportColumns: Record<string, boolean>;
     setExportColumns: React.Dispatch<React.SetStateAction<Record<string, boolean>>>;
+    exportPreset: ExportPreset;
+    setExportPreset: (value: ExportPreset) => void;
+    exportIncludeReasoning: boolean;
+    setExportIncludeReasoning: (value: boolean) => void;
+    exportTemplate: ExportTemplate | null;
+    setExportTemplate: (value: ExportTemplate | null) => void;
+    /** First rows in the selected preset's shape */
+    previewRows: Record<string, unknown>[];
+    splitConfig: DatasetSplitConfig;
+    setSplitConfig: React.Dispatch<React.SetStateAction<DatasetSplitConfig>>;
+    /** Rows per split with the current config, null when splitting is off */
+    splitCounts: Record<string, number> | null;
+    hfCardEnabled: boolean;
+    setHfCardEnabled: (value: boolean) => void;
+    hfCardLicense: string;
+    setHfCardLicense: (value: string) => void;
+    /** Card that will be uploaded: the user's edit, or the generated one */
+    datasetCardText: string;
+    isDatasetCardEdited: boolean;
+    /** null discards edits and follows the generated card again */
+    setDatasetCardDraft: (value: string | null) => void;
     handleDbSave: () => void;
     handleJsonExport: () => void;
     handleHfPush: () => void;
+    /** Streams the active session from storage in shards instead of pushing the loaded rows */
+    handleSessionShardUpload: () => void;
+    canStreamSession: boolean;
+    shardUploadProgress: ShardedUploadProgress | null;
+    /** Progress of an interrupted sharded upload for this session, repo and format */
+    shardResumeState: ShardedUploadState | null;
+    discardShardProgress: () => void;
     isUploading: boolean;
     hfRepo: string;
     setHfRepo: (value: string) => void;
@@ -15,44 +51,182 @@ interface ExportTabProps {
     setHfToken: (value: string) => void;
     hfFormat: 'jsonl' | 'parquet';
     setHfFormat: (value: 'jsonl' | 'parquet') => void;
+    preferencePairCount: number;
+    handlePreferenceExport: (format: 'jsonl' | 'parquet', includeReasoning: boolean) => void;
+    handlePreferenceHfPush: (includeReasoning: boolean) => void;
 }
 
 export default function ExportTab({
     exportColumns,
     setExportColumns,
+    exportPreset,
+    setExportPreset,
+    exportIncludeReasoning,
+    setExportIncludeReasoning,
+    exportTemplate,
+    setExportTemplate,
+    previewRows,
+    splitConfig,
+    setSplitConfig,
+    splitCounts,
+    hfCardEnabled,
+    setHfCardEnabled,
+    hfCardLicense,
+    setHfCardLicense,
+    datasetCardText,
+    isDatasetCardEdited,
+    setDatasetCardDraft,
     handleDbSave,
     handleJsonExport,
     handleHfPush,
+    handleSessionShardUpload,
+    canStreamSession,
+    shardUploadProgress,
+    shardResumeState,
+    discardShardProgress,
     isUploading,
     hfRepo,
     setHfRepo,
     hfToken,
     setHfToken,
     hfFormat,
-    setHfFormat
+    setHfFormat,
+    preferencePairCount,
+    handlePreferenceExport,
+    handlePreferenceHfPush
 }: ExportTabProps) {
+    const [includePreferenceReasoning, setIncludePreferenceReasoning] = useState(false);
+    const [isCardEditorOpen, setIsCardEditorOpen] = useState(false);
+
     return (
         <div className="flex-1 flex flex-col gap-8 animate-in fade-in max-w-4xl mx-auto w-full">
             <div className="bg-slate-950 p-6 rounded-xl border border-slate-800/70">
                 <h3 className="text-sm font-bold text-white mb-4 flex items-center gap-2">
-                    <CheckCircle2 className="w-4 h-4 text-sky-400" /> 1. Select Columns
+                    <CheckCircle2 className="w-4 h-4 text-sky-400" /> 1. Select Format
                 </h3>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                    {Object.keys(exportColumns).map(col => (
-                        <label key={col} className="flex items-center gap-2 cursor-pointer group">
-                            <div className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${exportColumns[col] ? 'bg-sky-600 border-sky-600' : 'bg-slate-950/70 border-slate-700/70 group-hover:border-slate-500'}`}>
-                                {exportColumns[col] && <ArrowRight className="w-3 h-3 text-white" />}
-                            </div>
-                            <input
-                                type="checkbox"
-                                checked={exportColumns[col]}
-                                onChange={e => setExportColumns(prev => ({ ...prev, [col]: e.target.checked }))}
-                                className="hidden"
-                            />
-                            <span className="text-xs text-slate-200 font-mono">{col}</span>
-                        </label>
+                <div className="flex flex-wrap gap-2 mb-2">
+                    {(Object.keys(EXPORT_PRESETS) as ExportPreset[]).map(preset => (
+                        <button
+                            key={preset}
+                            onClick={() => setExportPreset(preset)}
+                            className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors border ${exportPreset === preset
+                                ? 'bg-sky-600 border-sky-600 text-white'
+                                : 'bg-slate-950/70 border-slate-700/70 text-slate-300 hover:border-slate-500'}`}
+                        >
+                            {EXPORT_PRESETS[preset].label}
+                        </button>
                     ))}
                 </div>
+                <p className="text-[11px] text-slate-400 mb-4 font-mono">{EXPORT_PRESETS[exportPreset].description}</p>
+                {(exportPreset === ExportPreset.OpenAIChat || exportPreset === ExportPreset.OpenAITools || exportPreset === ExportPreset.ShareGPT || exportPreset === ExportPreset.Alpaca) && (
+                    <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={exportIncludeReasoning}
+                            onChange={e => setExportIncludeReasoning(e.target.checked)}
+                            className="accent-sky-500"
+                        />
+                        Prefix assistant turns with their reasoning in a &lt;think&gt; block
+                    </label>
+                )}
+                {exportPreset === ExportPreset.Template && (
+                    <ExportTemplateEditor template={exportTemplate} onTemplateChange={setExportTemplate} />
+                )}
+                {exportPreset === ExportPreset.Columns && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {Object.keys(exportColumns).map(col => (
+                            <label key={col} className="flex items-center gap-2 cursor-pointer group">
+                                <div className={`w-4 h-4 rounded border flex items-center justify-center transition-colors ${exportColumns[col] ? 'bg-sky-600 border-sky-600' : 'bg-slate-950/70 border-slate-700/70 group-hover:border-slate-500'}`}>
+                                    {exportColumns[col] && <ArrowRight className="w-3 h-3 text-white" />}
+                                </div>
+                                <input
+                                    type="checkbox"
+                                    checked={exportColumns[col]}
+                                    onChange={e => setExportColumns(prev => ({ ...prev, [col]: e.target.checked }))}
+                                    className="hidden"
+                                />
+                                <span className="text-xs text-slate-200 font-mono">{col}</span>
+                            </label>
+                        ))}
+                    </div>
+                )}
+                <div className="mt-4">
+                    <label className="text-[10px] text-slate-400 font-bold uppercase mb-1 flex items-center gap-1">
+                        <Eye className="w-3 h-3" /> Preview (first {previewRows.length} rows)
+                    </label>
+                    <pre className="max-h-72 overflow-auto bg-slate-950/70 border border-slate-800/70 rounded p-3 text-[11px] text-slate-300 whitespace-pre-wrap break-words">
+                        {previewRows.length > 0
+                            ? previewRows.map(row => JSON.stringify(row, null, 2)).join('\n\n')
+                            : 'No rows to export.'}
+                    </pre>
+                </div>
+            </div>
+
+            <div className="bg-slate-950 p-6 rounded-xl border border-slate-800/70">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-bold text-white flex items-center gap-2">
+                        <Split className="w-4 h-4 text-sky-400" /> Train / Validation / Test Split
+                    </h3>
+                    <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={splitConfig.enabled}
+                            onChange={e => setSplitConfig(prev => ({ ...prev, enabled: e.target.checked }))}
+                            className="accent-sky-500"
+                        />
+                        Split on export
+                    </label>
+                </div>
+                {splitConfig.enabled && (
+                    <div className="mt-4 space-y-3">
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                            {DATASET_SPLIT_NAMES.map(split => (
+                                <div key={split}>
+                                    <label className="text-[10px] text-slate-400 font-bold uppercase block mb-1">{split}</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.05"
+                                        value={splitConfig[split]}
+                                        onChange={e => setSplitConfig(prev => ({ ...prev, [split]: Math.max(0, parseFloat(e.target.value) || 0) }))}
+                                        className="w-full bg-slate-950/70 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-white focus:border-sky-500 outline-none"
+                                    />
+                                </div>
+                            ))}
+                            <div>
+                                <label className="text-[10px] text-slate-400 font-bold uppercase block mb-1">Seed</label>
+                                <input
+                                    type="number"
+                                    value={splitConfig.seed}
+                                    onChange={e => setSplitConfig(prev => ({ ...prev, seed: parseInt(e.target.value, 10) || 0 }))}
+                                    className="w-full bg-slate-950/70 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-white focus:border-sky-500 outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] text-slate-400 font-bold uppercase block mb-1">Stratify By</label>
+                                <select
+                                    value={splitConfig.stratifyBy}
+                                    onChange={e => setSplitConfig(prev => ({ ...prev, stratifyBy: e.target.value as SplitStratifyBy }))}
+                                    className="w-full bg-slate-950/70 border border-slate-700/70 rounded px-2 py-1.5 text-xs text-white focus:border-sky-500 outline-none"
+                                >
+                                    <option value={SplitStratifyBy.None}>None</option>
+                                    <option value={SplitStratifyBy.Score}>Score</option>
+                                    <option value={SplitStratifyBy.TaskType}>Task type</option>
+                                    <option value={SplitStratifyBy.Tag}>Session tag</option>
+                                </select>
+                            </div>
+                        </div>
+                        {!hasSplitRatios(splitConfig) && (
+                            <p className="text-[11px] text-red-400">Set at least one split ratio above zero.</p>
+                        )}
+                        {splitCounts && (
+                            <p className="text-[11px] text-slate-400">
+                                {DATASET_SPLIT_NAMES.map(split => `${split}: ${splitCounts[split] || 0}`).join(' · ')}
+                                {' '}· downloads one file per split; the Hub push uploads <span className="font-mono">data/&lt;split&gt;</span> files and a README.md.
+                            </p>
+                        )}
+                    </div>
+                )}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -83,7 +257,7 @@ export default function ExportTab({
                             className="bg-slate-900/60 hover:bg-slate-800/70 text-white py-2.5 rounded-lg font-bold text-xs transition-all flex items-center justify-center gap-2"
                         >
                             <FileJson className="w-3.5 h-3.5" />
-                            Download JSON
+                            {exportPreset === ExportPreset.Columns ? 'Download JSON' : 'Download JSONL'}
                         </button>
                     </div>
                 </div>
@@ -128,8 +302,62 @@ export default function ExportTab({
                                     </button>
                                 </div>
                             </div>
+
+                            <div className="pt-2 flex items-center justify-between gap-2">
+                                <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={hfCardEnabled}
+                                        onChange={e => setHfCardEnabled(e.target.checked)}
+                                        className="accent-amber-500"
+                                    />
+                                    Dataset card (README.md)
+                                </label>
+                                {hfCardEnabled && (
+                                    <div className="flex items-center gap-2">
+                                        <select
+                                            value={hfCardLicense}
+                                            onChange={e => setHfCardLicense(e.target.value)}
+                                            title="License"
+                                            className="bg-slate-950/70 border border-slate-700/70 rounded px-2 py-1 text-[10px] text-white focus:border-amber-500 outline-none"
+                                        >
+                                            {DATASET_CARD_LICENSES.map(license => (
+                                                <option key={license} value={license}>{license}</option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            onClick={() => setIsCardEditorOpen(!isCardEditorOpen)}
+                                            className="text-[10px] font-bold text-amber-400 hover:text-amber-300 transition-colors"
+                                        >
+                                            {isCardEditorOpen ? 'Hide Card' : 'Edit Card'}
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
                         </div>
                     </div>
+                    {hfCardEnabled && isCardEditorOpen && (
+                        <div className="mt-3 space-y-1">
+                            <textarea
+                                value={datasetCardText}
+                                onChange={e => setDatasetCardDraft(e.target.value)}
+                                spellCheck={false}
+                                rows={16}
+                                className="w-full bg-slate-950/70 border border-slate-700/70 rounded px-3 py-2 text-[11px] font-mono text-slate-200 focus:border-amber-500 outline-none"
+                            />
+                            <div className="flex items-center justify-between text-[10px] text-slate-500">
+                                <span>{isDatasetCardEdited ? 'Edited: stats no longer update automatically.' : 'Generated from the loaded rows and session.'}</span>
+                                {isDatasetCardEdited && (
+                                    <button
+                                        onClick={() => setDatasetCardDraft(null)}
+                                        className="font-bold text-amber-400 hover:text-amber-300 transition-colors"
+                                    >
+                                        Regenerate
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
                     <button
                         onClick={handleHfPush}
                         disabled={isUploading}
@@ -138,6 +366,77 @@ export default function ExportTab({
                         {isUploading ? <RefreshCcw className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
                         Push to Hub
                     </button>
+                    <button
+                        onClick={handleSessionShardUpload}
+                        disabled={isUploading || !canStreamSession}
+                        title={canStreamSession ? 'Read the whole session from storage and upload it as sharded train files' : 'Load a single session to stream it'}
+                        className="mt-2 border border-slate-700/70 hover:bg-slate-900/60 text-slate-300 py-2 rounded-lg font-bold text-[11px] transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                        <Layers className="w-3.5 h-3.5" />
+                        {shardResumeState ? `Resume Session Upload (shard ${shardResumeState.nextShard + 1})` : 'Stream Entire Session (Sharded)'}
+                    </button>
+                    {shardUploadProgress && (
+                        <p className="mt-2 text-[10px] text-slate-400">
+                            {shardUploadProgress.retrying ? 'Retrying' : 'Building'} shard {shardUploadProgress.shard + 1}
+                            {' '}· {shardUploadProgress.rowsUploaded} rows uploaded, {shardUploadProgress.pendingRows} pending
+                        </p>
+                    )}
+                    {!shardUploadProgress && shardResumeState && (
+                        <div className="mt-2 flex items-center justify-between text-[10px] text-slate-500">
+                            <span>{shardResumeState.rowsUploaded} rows in {shardResumeState.nextShard} shards already uploaded.</span>
+                            <button
+                                onClick={discardShardProgress}
+                                className="font-bold text-slate-400 hover:text-red-400 transition-colors"
+                            >
+                                Start Over
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Preference (DPO) pairs */}
+            <div className="bg-slate-950 p-6 rounded-xl border border-slate-800/70">
+                <h3 className="text-sm font-bold text-white mb-2 flex items-center gap-2">
+                    <ThumbsUp className="w-4 h-4 text-violet-400" /> 4. Preference Pairs
+                </h3>
+                <p className="text-xs text-slate-400 mb-4">
+                    {preferencePairCount} items have a chosen and a rejected candidate. Exported as <span className="font-mono">prompt/chosen/rejected</span> rows; the Hub push uses the format selected above.
+                </p>
+                <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer mb-4">
+                    <input
+                        type="checkbox"
+                        checked={includePreferenceReasoning}
+                        onChange={e => setIncludePreferenceReasoning(e.target.checked)}
+                        className="accent-violet-500"
+                    />
+                    Prefix responses with their reasoning in a &lt;think&gt; block
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <button
+                        onClick={() => handlePreferenceExport('jsonl', includePreferenceReasoning)}
+                        disabled={preferencePairCount === 0}
+                        className="bg-slate-900/60 hover:bg-slate-800/70 text-white py-2.5 rounded-lg font-bold text-xs transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                        <FileJson className="w-3.5 h-3.5" />
+                        Download JSONL
+                    </button>
+                    <button
+                        onClick={() => handlePreferenceExport('parquet', includePreferenceReasoning)}
+                        disabled={preferencePairCount === 0}
+                        className="bg-slate-900/60 hover:bg-slate-800/70 text-white py-2.5 rounded-lg font-bold text-xs transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                        <FileType className="w-3.5 h-3.5" />
+                        Download Parquet
+                    </button>
+                    <button
+                        onClick={() => handlePreferenceHfPush(includePreferenceReasoning)}
+                        disabled={isUploading || preferencePairCount === 0}
+                        className="bg-violet-600/10 hover:bg-violet-600/20 border border-violet-600/20 text-violet-400 py-2.5 rounded-lg font-bold text-xs transition-all flex items-center justify-center gap-2 disabled:opacity-50"
+                    >
+                        {isUploading ? <RefreshCcw className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+                        Push Pairs to Hub
+                    </button>
                 </div>
             </div>
         </div>
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import type { ExportTemplate } from '../../types';
+import { SettingsService } from '../../services/settingsService';
+import { toast } from '../../services/toastService';
+import {
+    EXPORT_TEMPLATE_SOURCES,
+    createExportTemplate,
+    parseExportTemplateBody,
+    stringifyExportTemplateBody
+} from '../../utils/exportTemplate';
+
+interface ExportTemplateEditorProps {
+    template: ExportTemplate | null;
+    onTemplateChange: (template: ExportTemplate | null) => void;
+}
+
+export default function ExportTemplateEditor({ template, onTemplateChange }: ExportTemplateEditorProps) {
+    const [templates, setTemplates] = useState<ExportTemplate[]>(() => SettingsService.getExportTemplates());
+    const [creatorTemplateId, setCreatorTemplateId] = useState(() => SettingsService.getSettings().creatorExportTemplateId || '');
+    const [name, setName] = useState(template?.name || '');
+    const [body, setBody] = useState(template ? stringifyExportTemplateBody(template) : '');
+    const [error, setError] = useState<string | null>(null);
+
+    // Start from the first saved template when none is active yet
+    useEffect(() => {
+        if (!template && templates.length > 0) onTemplateChange(templates[0]);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    useEffect(() => {
+        setName(template?.name || '');
+        setBody(template ? stringifyExportTemplateBody(template) : '');
+        setError(null);
+    }, [template?.id]);
+
+    const persist = (next: ExportTemplate[], nextCreatorId = creatorTemplateId) => {
+        setTemplates(next);
+        setCreatorTemplateId(nextCreatorId);
+        SettingsService.updateSettings({ exportTemplates: next, creatorExportTemplateId: nextCreatorId });
+    };
+
+    const handleNew = () => {
+        const created = createExportTemplate(`template-${templates.length + 1}`);
+        persist([...templates, created]);
+        onTemplateChange(created);
+    };
+
+    const handleSave = () => {
+        if (!template) return;
+        if (!name.trim()) {
+            setError('Template name is required.');
+            return;
+        }
+        try {
+            const saved: ExportTemplate = { id: template.id, name: name.trim(), ...parseExportTemplateBody(body) };
+            persist(templates.map(t => (t.id === saved.id ? saved : t)));
+            onTemplateChange(saved);
+            setError(null);
+            toast.success(`Saved template "${saved.name}".`);
+        } catch (e: any) {
+            setError(e.message);
+        }
+    };
+
+    const handleDelete = () => {
+        if (!template) return;
+        const next = templates.filter(t => t.id !== template.id);
+        persist(next, creatorTemplateId === template.id ? '' : creatorTemplateId);
+        onTemplateChange(next[0] || null);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center gap-2">
+                <select
+                    value={template?.id || ''}
+                    onChange={e => onTemplateChange(templates.find(t => t.id === e.target.value) || null)}
+                    className="flex-1 bg-slate-950/70 border border-slate-700/70 rounded px-3 py-1.5 text-xs text-white focus:border-sky-500 outline-none"
+                >
+                    {templates.length === 0 && <option value="">No saved templates</option>}
+                    {templates.map(t => (
+                        <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                </select>
+                <button
+                    onClick={handleNew}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-bold bg-slate-900/60 hover:bg-slate-800/70 text-slate-200 transition-colors"
+                >
+                    <Plus className="w-3 h-3" /> New
+                </button>
+            </div>
+
+            {template && (
+                <>
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                        placeholder="Template name"
+                        className="w-full bg-slate-950/70 border border-slate-700/70 rounded px-3 py-1.5 text-xs text-white focus:border-sky-500 outline-none"
+                    />
+                    <textarea
+                        value={body}
+                        onChange={e => setBody(e.target.value)}
+                        spellCheck={false}
+                        rows={14}
+                        className="w-full bg-slate-950/70 border border-slate-700/70 rounded px-3 py-2 text-[11px] font-mono text-slate-200 focus:border-sky-500 outline-none"
+                    />
+                    <p className="text-[10px] text-slate-500">
+                        Each field writes <span className="font-mono">target</span> (dots nest) from an item path
+                        (<span className="font-mono">usage.total_tokens</span>, <span className="font-mono">messages[0].content</span>),
+                        a computed source ({EXPORT_TEMPLATE_SOURCES.join(', ')}) or a literal <span className="font-mono">value</span>.
+                        {' '}<span className="font-mono">when</span>: always, has_value, reasoning.
+                        {' '}<span className="font-mono">reasoningStyle</span>: think (inline) or field (separate key).
+                    </p>
+                    {error && <p className="text-[11px] text-red-400">{error}</p>}
+                    <div className="flex items-center justify-between gap-2">
+                        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={creatorTemplateId === template.id}
+                                onChange={e => persist(templates, e.target.checked ? template.id : '')}
+                                className="accent-sky-500"
+                            />
+                            Use for the creator&apos;s JSONL export
+                        </label>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={handleDelete}
+                                className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-bold text-slate-400 hover:text-red-400 transition-colors"
+                            >
+                                <Trash2 className="w-3 h-3" /> Delete
+                            </button>
+                            <button
+                                onClick={handleSave}
+                                className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-bold bg-sky-600 hover:bg-sky-500 text-white transition-colors"
+                            >
+                                <Save className="w-3 h-3" /> Save Template
+                            </button>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,139 @@
+import { useMemo } from 'react';
+import { Ban, Check, Columns2, RotateCcw, Trash2, X } from 'lucide-react';
+import type { DedupConfig, VerifierItem } from '../../../types';
+import { DEDUP_FIELDS, computeFieldSimilarities, getDedupFieldText, type DedupField } from '../../../services/dedup/similarityEngine';
+import { diffWords } from '../../../utils/textDiff';
+
+interface VerifierDuplicateGroupModalProps {
+    isOpen: boolean;
+    items: VerifierItem[];
+    dedupConfig: DedupConfig;
+    onClose: () => void;
+    onToggleDiscard: (id: string) => void;
+    onToggleDuplicate: (id: string) => void;
+}
+
+const FIELD_LABELS: Record<DedupField, string> = {
+    query: 'Query',
+    reasoning: 'Reasoning',
+    answer: 'Answer'
+};
+
+const formatPercent = (value: number | null | undefined) =>
+    value === null || value === undefined ? '—' : `${Math.round(value * 100)}%`;
+
+export default function VerifierDuplicateGroupModal({
+    isOpen,
+    items,
+    dedupConfig,
+    onClose,
+    onToggleDiscard,
+    onToggleDuplicate
+}: VerifierDuplicateGroupModalProps) {
+    // Highest scored item is the reference column, matching Auto-Resolve's keep order
+    const [base, ...others] = useMemo(() => [...items].sort((a, b) => {
+        if (b.score !== a.score) return b.score - a.score;
+        return (b.answer?.length || 0) - (a.answer?.length || 0);
+    }), [items]);
+
+    const fieldSimilarities = useMemo(() => {
+        if (!base) return new Map();
+        return new Map(others.map(item => [item.id, computeFieldSimilarities(base, item, dedupConfig)]));
+    }, [base, others, dedupConfig]);
+
+    if (!isOpen || !base) {
+        return null;
+    }
+
+    const renderActions = (item: VerifierItem) => (
+        <div className="flex items-center gap-2">
+            <button
+                onClick={() => onToggleDiscard(item.id)}
+                className={`flex items-center gap-1 px-2 py-1 text-[10px] font-bold rounded transition-colors ${item.isDiscarded
+                    ? 'bg-slate-800/70 text-slate-200 hover:bg-slate-700/70'
+                    : 'bg-red-600/20 text-red-400 hover:bg-red-600/30 border border-red-600/30'}`}
+            >
+                {item.isDiscarded ? <RotateCcw className="w-3 h-3" /> : <Trash2 className="w-3 h-3" />}
+                {item.isDiscarded ? 'Restore' : 'Discard'}
+            </button>
+            <button
+                onClick={() => onToggleDuplicate(item.id)}
+                className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold rounded bg-slate-800/70 text-slate-200 hover:bg-slate-700/70 transition-colors"
+            >
+                {item.isDuplicate ? <Ban className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+                {item.isDuplicate ? 'Not a Duplicate' : 'Mark Duplicate'}
+            </button>
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-slate-950/90 border border-slate-700/70 rounded-xl shadow-2xl w-[95vw] h-[90vh] mx-4 flex flex-col">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800/70">
+                    <div className="flex items-center gap-3 text-amber-400">
+                        <div className="p-2 bg-amber-500/10 rounded-full">
+                            <Columns2 className="w-5 h-5" />
+                        </div>
+                        <div>
+                            <h3 className="text-lg font-bold text-white">Duplicate Group</h3>
+                            <p className="text-xs text-slate-400">
+                                {items.length} items · differences shown against the highest scored item
+                            </p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-1 text-slate-400 hover:text-white transition-colors">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-auto p-4">
+                    <div className="flex gap-4 min-w-max h-full">
+                        {[base, ...others].map((item, column) => {
+                            const similarities = column === 0 ? null : fieldSimilarities.get(item.id);
+                            return (
+                                <div
+                                    key={item.id}
+                                    className={`w-[420px] flex flex-col gap-3 bg-slate-900/60 border rounded-lg p-3 ${item.isDiscarded ? 'border-red-600/30 opacity-60' : 'border-slate-800/70'}`}
+                                >
+                                    <div className="flex items-center justify-between">
+                                        <div className="flex items-center gap-2 text-[10px] font-bold uppercase">
+                                            <span className={column === 0 ? 'text-emerald-400' : 'text-slate-400'}>
+                                                {column === 0 ? 'Reference' : `Item ${column + 1}`}
+                                            </span>
+                                            <span className="text-slate-500">Score {item.score || '—'}</span>
+                                            {column > 0 && (
+                                                <span className="text-amber-400">Match {formatPercent(item.duplicateSimilarity)}</span>
+                                            )}
+                                        </div>
+                                        {renderActions(item)}
+                                    </div>
+                                    {DEDUP_FIELDS.map(field => {
+                                        const text = getDedupFieldText(item, field);
+                                        const segments = column === 0 ? null : diffWords(getDedupFieldText(base, field), text);
+                                        return (
+                                            <div key={field} className="flex flex-col gap-1">
+                                                <div className="flex items-center justify-between text-[10px] font-bold uppercase text-slate-400">
+                                                    <span>{FIELD_LABELS[field]}</span>
+                                                    {similarities && <span>{formatPercent(similarities[field])}</span>}
+                                                </div>
+                                                <div className="max-h-64 overflow-y-auto bg-slate-950/70 border border-slate-800/70 rounded p-2 text-xs text-slate-200 whitespace-pre-wrap break-words">
+                                                    {segments
+                                                        ? segments.map((segment, index) => {
+                                                            if (segment.type === 'equal') return <span key={index}>{segment.text}</span>;
+                                                            if (segment.type === 'added') return <span key={index} className="bg-emerald-500/20 text-emerald-300">{segment.text}</span>;
+                                                            return <span key={index} className="bg-red-500/20 text-red-300 line-through">{segment.text}</span>;
+                                                        })
+                                                        : (text || <span className="text-slate-500 italic">(empty)</span>)}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
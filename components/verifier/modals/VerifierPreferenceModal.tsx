@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { Scale, ThumbsDown, ThumbsUp, X } from 'lucide-react';
+import type { VerifierItem } from '../../../types';
+import { PreferenceSource } from '../../../interfaces/enums';
+import { getCandidateLabel, getPreferencePrompt } from '../../../utils/preferencePairs';
+
+interface VerifierPreferenceModalProps {
+    item: VerifierItem | null;
+    onClose: () => void;
+    onPick: (itemId: string, chosenId: string, rejectedId: string) => void;
+    onClear: (itemId: string) => void;
+}
+
+export default function VerifierPreferenceModal({ item, onClose, onPick, onClear }: VerifierPreferenceModalProps) {
+    const [chosenId, setChosenId] = useState<string | undefined>(item?.chosenCandidateId);
+    const [rejectedId, setRejectedId] = useState<string | undefined>(item?.rejectedCandidateId);
+
+    // Drafts follow the item when a judge result or another pick lands
+    useEffect(() => {
+        setChosenId(item?.chosenCandidateId);
+        setRejectedId(item?.rejectedCandidateId);
+    }, [item?.id, item?.chosenCandidateId, item?.rejectedCandidateId]);
+
+    if (!item || !item.candidates || item.candidates.length === 0) {
+        return null;
+    }
+
+    const canSave = !!chosenId && !!rejectedId && chosenId !== rejectedId;
+    const isDirty = chosenId !== item.chosenCandidateId || rejectedId !== item.rejectedCandidateId;
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-slate-950/90 border border-slate-700/70 rounded-xl shadow-2xl w-[95vw] h-[90vh] mx-4 flex flex-col">
+                <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800/70">
+                    <div className="flex items-center gap-3 text-violet-400">
+                        <div className="p-2 bg-violet-500/10 rounded-full">
+                            <Scale className="w-5 h-5" />
+                        </div>
+                        <div>
+                            <h3 className="text-lg font-bold text-white">Preference Pair</h3>
+                            <p className="text-xs text-slate-400">
+                                {item.candidates.length} candidates
+                                {item.preferenceSource && ` · picked by ${item.preferenceSource === PreferenceSource.Judge ? 'judge' : 'human'}`}
+                            </p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => onClear(item.id)}
+                            disabled={!item.chosenCandidateId && !item.rejectedCandidateId}
+                            className="px-3 py-1.5 text-xs font-bold rounded bg-slate-800/70 text-slate-200 hover:bg-slate-700/70 transition-colors disabled:opacity-50"
+                        >
+                            Clear
+                        </button>
+                        <button
+                            onClick={() => chosenId && rejectedId && onPick(item.id, chosenId, rejectedId)}
+                            disabled={!canSave || !isDirty}
+                            className="px-3 py-1.5 text-xs font-bold rounded bg-violet-600 hover:bg-violet-500 text-white transition-colors disabled:opacity-50"
+                        >
+                            Save Pick
+                        </button>
+                        <button onClick={onClose} className="p-1 text-slate-400 hover:text-white transition-colors">
+                            <X className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="px-6 py-3 border-b border-slate-800/70 space-y-1">
+                    <div className="text-[10px] font-bold uppercase text-slate-400">Prompt</div>
+                    <div className="max-h-24 overflow-y-auto text-xs text-slate-200 whitespace-pre-wrap break-words">
+                        {getPreferencePrompt(item) || <span className="text-slate-500 italic">(empty)</span>}
+                    </div>
+                    {item.preferenceRationale && (
+                        <div className="text-[11px] text-violet-300 italic">Judge: {item.preferenceRationale}</div>
+                    )}
+                </div>
+
+                <div className="flex-1 overflow-auto p-4">
+                    <div className="flex gap-4 min-w-max h-full">
+                        {item.candidates.map((candidate, index) => {
+                            const isChosen = candidate.id === chosenId;
+                            const isRejected = candidate.id === rejectedId;
+                            return (
+                                <div
+                                    key={candidate.id}
+                                    className={`w-[420px] flex flex-col gap-3 bg-slate-900/60 border rounded-lg p-3 ${isChosen
+                                        ? 'border-emerald-500/50'
+                                        : isRejected ? 'border-red-600/40' : 'border-slate-800/70'}`}
+                                >
+                                    <div className="flex items-center justify-between">
+                                        <div className="flex items-center gap-2 text-[10px] font-bold uppercase">
+                                            <span className="text-violet-400">{getCandidateLabel(index)}</span>
+                                            <span className="text-slate-300 normal-case truncate max-w-[180px]" title={candidate.modelUsed}>
+                                                {candidate.isOriginal ? 'Current answer' : candidate.modelUsed}
+                                            </span>
+                                            {candidate.temperature !== undefined && <span className="text-slate-500">T {candidate.temperature}</span>}
+                                            {candidate.promptSet && <span className="text-slate-500 normal-case">{candidate.promptSet}</span>}
+                                        </div>
+                                        <div className="flex items-center gap-2">
+                                            <button
+                                                onClick={() => {
+                                                    setChosenId(candidate.id);
+                                                    if (rejectedId === candidate.id) setRejectedId(undefined);
+                                                }}
+                                                className={`flex items-center gap-1 px-2 py-1 text-[10px] font-bold rounded transition-colors ${isChosen
+                                                    ? 'bg-emerald-600/30 text-emerald-300 border border-emerald-500/40'
+                                                    : 'bg-slate-800/70 text-slate-200 hover:bg-slate-700/70'}`}
+                                            >
+                                                <ThumbsUp className="w-3 h-3" /> Chosen
+                                            </button>
+                                            <button
+                                                onClick={() => {
+                                                    setRejectedId(candidate.id);
+                                                    if (chosenId === candidate.id) setChosenId(undefined);
+                                                }}
+                                                className={`flex items-center gap-1 px-2 py-1 text-[10px] font-bold rounded transition-colors ${isRejected
+                                                    ? 'bg-red-600/20 text-red-400 border border-red-600/30'
+                                                    : 'bg-slate-800/70 text-slate-200 hover:bg-slate-700/70'}`}
+                                            >
+                                                <ThumbsDown className="w-3 h-3" /> Rejected
+                                            </button>
+                                        </div>
+                                    </div>
+                                    {candidate.reasoning && (
+                                        <div className="flex flex-col gap-1">
+                                            <div className="text-[10px] font-bold uppercase text-slate-400">Reasoning</div>
+                                            <div className="max-h-64 overflow-y-auto bg-slate-950/70 border border-slate-800/70 rounded p-2 text-xs text-slate-300 whitespace-pre-wrap break-words">
+                                                {candidate.reasoning}
+                                            </div>
+                                        </div>
+                                    )}
+                                    <div className="flex flex-col gap-1">
+                                        <div className="text-[10px] font-bold uppercase text-slate-400">Answer</div>
+                                        <div className="max-h-96 overflow-y-auto bg-slate-950/70 border border-slate-800/70 rounded p-2 text-xs text-slate-200 whitespace-pre-wrap break-words">
+                                            {candidate.answer}
+                                        </div>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
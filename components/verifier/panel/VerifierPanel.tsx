@@ -2,7 +2,7 @@
 import { useState, useRef, useMemo, useCallback, useEffect } from 'react';
 import { Plus } from 'lucide-react';
 import { VerifierItem, ExternalProvider, ProviderType } from '../../../types';
-import { OutputFieldName, StreamingField, VerifierRewriteTarget, CreatorMode, EngineMode, Environment } from '../../../interfaces/enums';
+import { OutputFieldName, StreamingField, VerifierRewriteTarget, CreatorMode, EngineMode, Environment, ExportPreset } from '../../../interfaces/enums';
 import { VerifierPanelTab } from '../../../interfaces/enums/VerifierPanelTab';
 import { VerifierViewMode } from '../../../interfaces/enums/VerifierViewMode';
 import { VerifierDataSource } from '../../../interfaces/enums/VerifierDataSource';
@@ -11,8 +11,10 @@ import { StorageMode } from '../../../interfaces/enums/StorageMode';
 import * as FirebaseService from '../../../services/firebaseService';
 import * as VerifierRewriterService from '../../../services/verifierRewriterService';
 import { SettingsService } from '../../../services/settingsService';
+import { clearShardedUploadState, getShardedUploadState, type ShardedUploadProgress } from '../../../services/hfShardedUploadService';
 import { ToolExecutor } from '../../../services/toolService';
-import type { AutoscoreConfig } from '../../../types';
+import type { AutoscoreConfig, DatasetSplitConfig, DedupConfig, ExportTemplate, PreferenceConfig, RubricCriterionFilter } from '../../../types';
+import { DEFAULT_DATASET_SPLIT_CONFIG, DEFAULT_DEDUP_CONFIG, DEFAULT_PREFERENCE_CONFIG } from '../../../types';
 import { toast } from '../../../services/toastService';
 import { confirmService } from '../../../services/confirmService';
 import { useVerifierToolExecutor } from '../../../hooks/useVerifierToolExecutor';
@@ -34,6 +36,9 @@ import { useSessionTags } from '../../../hooks/useSessionTags';
 import { SessionTag } from '../../../interfaces/services/SessionConfig';
 import { normalizeImportItem } from '../../../services/verifierImportService';
 import { normalizeItemsReasoning } from '../../../utils/messageNormalizer';
+import { LOW_AGREEMENT_THRESHOLD } from '../../../utils/judgeEnsemble';
+import { hasSplitRatios } from '../../../utils/datasetSplit';
+import { buildPreferencePairs } from '../../../utils/preferencePairs';
 import ImportTab from '../ImportTab';
 import ExportTab from '../ExportTab';
 import type { SessionData } from '../../../interfaces';
@@ -41,11 +46,16 @@ import { DetailPanel } from '../DetailPanel';
 import VerifierTabNavigation from '../navigation/VerifierTabNavigation';
 import VerifierSessionStatusActions from '../status/VerifierSessionStatusActions';
 import VerifierDeleteItemsModal from '../modals/VerifierDeleteItemsModal';
+import VerifierDuplicateGroupModal from '../modals/VerifierDuplicateGroupModal';
+import VerifierPreferenceModal from '../modals/VerifierPreferenceModal';
 import VerifierReviewConfigPanels from '../review/VerifierReviewConfigPanels';
+import VerifierDedupConfigPanel from '../review/VerifierDedupConfigPanel';
+import VerifierPreferenceConfigPanel from '../review/VerifierPreferenceConfigPanel';
 import VerifierReviewToolbar from '../review/VerifierReviewToolbar';
 import VerifierReviewContent from '../review/VerifierReviewContent';
 import { useVerifierMessageRewriteActions } from './hooks/useVerifierMessageRewriteActions';
 import { useVerifierBulkActions } from './hooks/useVerifierBulkActions';
+import { useVerifierPreferenceActions } from './hooks/useVerifierPreferenceActions';
 import { useVerifierSessionStatusActions } from './hooks/useVerifierSessionStatusActions';
 import { useVerifierReviewViewState } from './hooks/useVerifierReviewViewState';
 
@@ -215,6 +225,8 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
     const [showDuplicatesOnly, setShowDuplicatesOnly] = useState(false);
     const [showUnsavedOnly, setShowUnsavedOnly] = useState(false);
     const [filterScore, setFilterScore] = useState<number | null>(null); // null = all
+    const [criterionFilter, setCriterionFilter] = useState<RubricCriterionFilter | null>(null);
+    const [showLowAgreementOnly, setShowLowAgreementOnly] = useState(false);
 
     // Export State - initialize from settings
     const [hfToken, setHfToken] = useState(() => SettingsService.getSettings().huggingFaceToken || '');
@@ -222,6 +234,14 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
     const [hfFormat, setHfFormat] = useState<'jsonl' | 'parquet'>('parquet'); // Default to Parquet
     const [isUploading, setIsUploading] = useState(false);
     const [exportColumns, setExportColumns] = useState<Record<string, boolean>>({});
+    const [exportPreset, setExportPreset] = useState<ExportPreset>(ExportPreset.Columns);
+    const [exportIncludeReasoning, setExportIncludeReasoning] = useState(true);
+    const [exportTemplate, setExportTemplate] = useState<ExportTemplate | null>(null);
+    const [splitConfig, setSplitConfig] = useState<DatasetSplitConfig>(DEFAULT_DATASET_SPLIT_CONFIG);
+    const [hfCardEnabled, setHfCardEnabled] = useState(true);
+    const [hfCardLicense, setHfCardLicense] = useState('other');
+    const [hfCardDraft, setHfCardDraft] = useState<string | null>(null);
+    const [shardUploadProgress, setShardUploadProgress] = useState<ShardedUploadProgress | null>(null);
 
     // Inline Editing State
     const [editingField, setEditingField] = useState<{ itemId: string; field: OutputFieldName.Query | OutputFieldName.Reasoning | OutputFieldName.Answer | VerifierRewriteTarget.MessageAnswer; messageIndex?: number; originalValue: string } | null>(null);
@@ -414,9 +434,25 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
     const [isUpdatingSessionStatus, setIsUpdatingSessionStatus] = useState(false);
     const isFetchingMoreRef = useRef(false);
 
-    const { analyzeDuplicates, handleReScan, toggleDuplicateStatus, autoResolveDuplicates } = useVerifierDeduplication({
+    const [dedupConfig, setDedupConfig] = useState<DedupConfig>(DEFAULT_DEDUP_CONFIG);
+    const [comparedDuplicateGroupId, setComparedDuplicateGroupId] = useState<string | null>(null);
+    const comparedDuplicateItems = useMemo(
+        () => comparedDuplicateGroupId ? data.filter(item => item.duplicateGroupId === comparedDuplicateGroupId) : [],
+        [data, comparedDuplicateGroupId]
+    );
+
+    const [preferenceConfig, setPreferenceConfig] = useState<PreferenceConfig>(DEFAULT_PREFERENCE_CONFIG);
+    const [comparedPreferenceItemId, setComparedPreferenceItemId] = useState<string | null>(null);
+    const comparedPreferenceItem = useMemo(
+        () => comparedPreferenceItemId ? data.find(item => item.id === comparedPreferenceItemId) || null : null,
+        [data, comparedPreferenceItemId]
+    );
+
+    const { analyzeDuplicates, handleReScan, isScanningDuplicates, toggleDuplicateStatus, autoResolveDuplicates } = useVerifierDeduplication({
         data,
-        setData
+        setData,
+        dedupConfig,
+        toast
     });
 
     const { handleDbUpdate, handleDbRollback } = useVerifierDbActions({
@@ -425,9 +461,46 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
         toast
     });
 
-    const { handleJsonExport, handleDbSave, handleHfPush } = useVerifierExportActions({
+    // First tag per session, for stratifying splits by tag
+    const sessionTagNames = useMemo(() => {
+        const tags: Record<string, string> = {};
+        availableSessions.forEach(session => {
+            const name = session.tags?.[0]?.name;
+            if (name) tags[session.sessionUid || session.id] = name;
+        });
+        if (activeSessionIdForData && sessionTags[0]) tags[activeSessionIdForData] = sessionTags[0].name;
+        return tags;
+    }, [activeSessionIdForData, availableSessions, sessionTags]);
+
+    const activeSession = useMemo(
+        () => availableSessions.find(s => s.sessionUid === activeSessionIdForData || s.id === activeSessionIdForData) || null,
+        [activeSessionIdForData, availableSessions]
+    );
+
+    // Session metadata for the dataset card
+    const datasetCard = useMemo(() => {
+        const session = activeSession;
+        return {
+            enabled: hfCardEnabled,
+            license: hfCardLicense,
+            draft: hfCardDraft,
+            sourceDataset: session?.dataset?.hfConfig || session?.config?.hfConfig,
+            promptSet: SettingsService.getSettings().promptSet,
+            generationParams: session?.config?.generationParams || SettingsService.getDefaultGenerationParams()
+        };
+    }, [activeSession, hfCardDraft, hfCardEnabled, hfCardLicense]);
+
+    const { getExportData, getSplitItems, getGeneratedDatasetCard, handleJsonExport, handleDbSave, handleHfPush, handleSessionShardUpload, handlePreferenceExport, handlePreferenceHfPush } = useVerifierExportActions({
         data,
         exportColumns,
+        exportPreset,
+        exportIncludeReasoning,
+        exportTemplate,
+        splitConfig,
+        sessionTags: sessionTagNames,
+        datasetCard,
+        activeSession: isAllSessionsMode ? null : activeSession,
+        setShardUploadProgress,
         setIsUploading,
         hfToken,
         hfRepo,
@@ -775,7 +848,9 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
     useVerifierPaginationReset({
         showDuplicatesOnly,
         filterScore,
+        criterionFilter,
         showUnsavedOnly,
+        showLowAgreementOnly,
         dataLength: data.length,
         setCurrentPage
     });
@@ -868,6 +943,9 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
         handleMessageRewrite,
         handleMessageReasoningRewrite,
         handleMessageBothRewrite,
+        handleGenerateAlternative,
+        handleSelectBranch,
+        handleRemoveAlternative,
         handleFieldRewrite,
         handleBothRewrite
     } = useVerifierMessageRewriteActions({
@@ -895,9 +973,51 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
             if (showUnsavedOnly && !item.hasUnsavedChanges) return false;
             if (showDuplicatesOnly && !item.isDuplicate) return false;
             if (filterScore !== null && item.score !== filterScore) return false;
+            if (criterionFilter && (item.rubricScores?.[criterionFilter.criterion] ?? 0) < criterionFilter.minScore) return false;
+            if (showLowAgreementOnly && !(typeof item.judgeAgreement === 'number' && item.judgeAgreement < LOW_AGREEMENT_THRESHOLD)) return false;
             return true;
         });
-    }, [data, showDuplicatesOnly, filterScore, showUnsavedOnly]);
+    }, [data, showDuplicatesOnly, filterScore, criterionFilter, showUnsavedOnly, showLowAgreementOnly]);
+
+    // Criteria present on loaded items, for the rubric filter
+    const rubricCriteria = useMemo(() => {
+        const ids = new Set<string>();
+        data.forEach(item => Object.keys(item.rubricScores || {}).forEach(id => ids.add(id)));
+        return Array.from(ids).sort();
+    }, [data]);
+
+    const exportPreviewRows = useMemo(
+        () => activeTab === VerifierPanelTab.Export ? getExportData(3) : [],
+        [activeTab, getExportData]
+    );
+
+    const splitCounts = useMemo(() => {
+        if (activeTab !== VerifierPanelTab.Export || !splitConfig.enabled || !hasSplitRatios(splitConfig)) return null;
+        const counts: Record<string, number> = {};
+        Object.entries(getSplitItems()).forEach(([split, items]) => { counts[split] = items?.length || 0; });
+        return counts;
+    }, [activeTab, getSplitItems, splitConfig]);
+
+    const generatedDatasetCard = useMemo(
+        () => activeTab === VerifierPanelTab.Export && hfCardEnabled ? getGeneratedDatasetCard() : '',
+        [activeTab, getGeneratedDatasetCard, hfCardEnabled]
+    );
+
+    // Saved progress of an interrupted sharded upload; re-read whenever an upload finishes
+    const [shardStateVersion, setShardStateVersion] = useState(0);
+    const shardResumeState = useMemo(
+        () => activeSession && hfRepo ? getShardedUploadState(hfRepo, activeSession.sessionUid, hfFormat) : null,
+        [activeSession, hfFormat, hfRepo, isUploading, shardStateVersion]
+    );
+    const discardShardProgress = useCallback(() => {
+        if (!activeSession) return;
+        clearShardedUploadState(hfRepo, activeSession.sessionUid, hfFormat);
+        setShardStateVersion(v => v + 1);
+    }, [activeSession, hfFormat, hfRepo]);
+
+    const preferencePairCount = useMemo(() => buildPreferencePairs(data).length, [data]);
+
+    const hasJudgeAgreement = useMemo(() => data.some(item => typeof item.judgeAgreement === 'number'), [data]);
 
     const {
         selectedItemIds,
@@ -933,6 +1053,23 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
         onJobCreated
     });
 
+    const {
+        isGeneratingCandidates,
+        candidateProgress,
+        handleGenerateCandidates,
+        handlePickPreference,
+        handleClearPreference
+    } = useVerifierPreferenceActions({
+        data,
+        setData,
+        selectedItemIds,
+        dataSource,
+        autoSaveEnabled,
+        preferenceConfig,
+        autoscoreConfig,
+        handleDbUpdate
+    });
+
     const activeVerifierSessionId = resolveActiveSessionId() || data[0]?.sessionUid || currentSessionUid;
 
     useVerifierToolExecutor({
@@ -959,7 +1096,9 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
         setData,
         showDuplicatesOnly,
         showUnsavedOnly,
+        showLowAgreementOnly,
         filterScore,
+        criterionFilter,
         pageSize,
         currentPage,
         setCurrentPage,
@@ -1092,6 +1231,17 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
                         setAutoscoreModelRefreshTick={setAutoscoreModelRefreshTick}
                     />
 
+                    <VerifierDedupConfigPanel
+                        dedupConfig={dedupConfig}
+                        setDedupConfig={setDedupConfig}
+                    />
+
+                    <VerifierPreferenceConfigPanel
+                        preferenceConfig={preferenceConfig}
+                        setPreferenceConfig={setPreferenceConfig}
+                        judgeModel={autoscoreConfig.model}
+                    />
+
                     <VerifierReviewToolbar
                         selectedCount={selectedItemIds.size}
                         filteredCount={filteredData.length}
@@ -1110,6 +1260,9 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
                         isAutoscoring={isAutoscoring}
                         autoscoreProgress={autoscoreProgress}
                         onAutoscoreSelected={handleAutoscoreSelected}
+                        isGeneratingCandidates={isGeneratingCandidates}
+                        candidateProgress={candidateProgress}
+                        onGenerateCandidates={handleGenerateCandidates}
                         isBulkUpdating={isBulkUpdating}
                         onBulkDbUpdate={handleBulkDbUpdate}
                         onDeleteSelected={() => initiateDelete(Array.from(selectedItemIds))}
@@ -1117,9 +1270,16 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
                         setShowDuplicatesOnly={setShowDuplicatesOnly}
                         showUnsavedOnly={showUnsavedOnly}
                         setShowUnsavedOnly={setShowUnsavedOnly}
+                        hasJudgeAgreement={hasJudgeAgreement}
+                        showLowAgreementOnly={showLowAgreementOnly}
+                        setShowLowAgreementOnly={setShowLowAgreementOnly}
                         filterScore={filterScore}
                         setFilterScore={setFilterScore}
+                        rubricCriteria={rubricCriteria}
+                        criterionFilter={criterionFilter}
+                        setCriterionFilter={setCriterionFilter}
                         onRescan={handleReScan}
+                        isScanningDuplicates={isScanningDuplicates}
                         onAutoResolveDuplicates={autoResolveDuplicates}
                         onRefreshCurrentPage={handleRefreshCurrentPage}
                         isRefreshing={isRefreshing}
@@ -1144,6 +1304,8 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
                         selectedItemIds={selectedItemIds}
                         toggleSelection={toggleSelection}
                         toggleDuplicateStatus={toggleDuplicateStatus}
+                        openDuplicateGroup={setComparedDuplicateGroupId}
+                        openPreferences={setComparedPreferenceItemId}
                         handleScoreClick={handleScoreClick}
                         dataSource={dataSource}
                         handleDbUpdate={handleDbUpdate}
@@ -1190,9 +1352,31 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
                 <ExportTab
                     exportColumns={exportColumns}
                     setExportColumns={setExportColumns}
+                    exportPreset={exportPreset}
+                    setExportPreset={setExportPreset}
+                    exportIncludeReasoning={exportIncludeReasoning}
+                    setExportIncludeReasoning={setExportIncludeReasoning}
+                    exportTemplate={exportTemplate}
+                    setExportTemplate={setExportTemplate}
+                    previewRows={exportPreviewRows}
+                    splitConfig={splitConfig}
+                    setSplitConfig={setSplitConfig}
+                    splitCounts={splitCounts}
+                    hfCardEnabled={hfCardEnabled}
+                    setHfCardEnabled={setHfCardEnabled}
+                    hfCardLicense={hfCardLicense}
+                    setHfCardLicense={setHfCardLicense}
+                    datasetCardText={hfCardDraft ?? generatedDatasetCard}
+                    isDatasetCardEdited={hfCardDraft !== null}
+                    setDatasetCardDraft={setHfCardDraft}
                     handleDbSave={handleDbSave}
                     handleJsonExport={handleJsonExport}
                     handleHfPush={handleHfPush}
+                    handleSessionShardUpload={handleSessionShardUpload}
+                    canStreamSession={!isAllSessionsMode && !!activeSession}
+                    shardUploadProgress={shardUploadProgress}
+                    shardResumeState={shardResumeState}
+                    discardShardProgress={discardShardProgress}
                     isUploading={isUploading}
                     hfRepo={hfRepo}
                     setHfRepo={setHfRepo}
@@ -1200,6 +1384,9 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
                     setHfToken={setHfToken}
                     hfFormat={hfFormat}
                     setHfFormat={setHfFormat}
+                    preferencePairCount={preferencePairCount}
+                    handlePreferenceExport={handlePreferenceExport}
+                    handlePreferenceHfPush={handlePreferenceHfPush}
                 />
             )}
 
@@ -1210,6 +1397,22 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
                 onCancel={() => setDeleteModalOpen(false)}
                 onConfirm={confirmDelete}
             />
+
+            <VerifierDuplicateGroupModal
+                isOpen={comparedDuplicateItems.length > 0}
+                items={comparedDuplicateItems}
+                dedupConfig={dedupConfig}
+                onClose={() => setComparedDuplicateGroupId(null)}
+                onToggleDiscard={toggleDiscard}
+                onToggleDuplicate={toggleDuplicateStatus}
+            />
+
+            <VerifierPreferenceModal
+                item={comparedPreferenceItem}
+                onClose={() => setComparedPreferenceItemId(null)}
+                onPick={handlePickPreference}
+                onClear={handleClearPreference}
+            />
             
             {/* Detail Panel */}
             <DetailPanel
@@ -1240,6 +1443,9 @@ export default function VerifierPanel({ currentSessionUid, modelConfig, onSessio
                 onRewriteMessageBoth={(item: VerifierItem, idx: number) => handleMessageBothRewrite(item.id, idx)}
                 onRewriteQuery={(item: VerifierItem, idx: number) => handleMessageQueryRewrite(item.id, idx)}
                 onDeleteMessageFromHere={(item: VerifierItem, idx: number) => handleDeleteMessagesFromHere(item.id, idx)}
+                onGenerateAlternative={(item: VerifierItem, idx: number) => handleGenerateAlternative(item.id, idx)}
+                onSelectBranch={(item: VerifierItem, idx: number, branchId: string) => handleSelectBranch(item.id, idx, branchId)}
+                onRemoveAlternative={(item: VerifierItem, idx: number, branchId: string) => handleRemoveAlternative(item.id, idx, branchId)}
                 onDeleteItem={(item) => initiateDelete([item.id])}
                 onDbUpdate={dataSource === VerifierDataSource.Database ? handleDbUpdate : undefined}
                 onDbRollback={dataSource === VerifierDataSource.Database ? handleSmartRollback : undefined}
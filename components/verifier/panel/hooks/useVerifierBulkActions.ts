@@ -20,6 +20,16 @@ import { confirmService } from '../../../../services/confirmService';
 import { extractJsonFields } from '../../../../utils/jsonFieldExtractor';
 import { sanitizeReasoningContent } from '../../../../utils/thinkTagParser';
 import { normalizeImportItem } from '../../../../services/verifierImportService';
+import { AutoscoreMode } from '../../../../interfaces/enums';
+import { DEFAULT_RUBRIC_CRITERIA } from '../../../../interfaces/config/ScoringRubric';
+import { buildRubricSystemPrompt, parseRubricResponse } from '../../../../utils/rubricScoring';
+import { aggregateJudgeScores, computeJudgeAgreement, getJudgeLabels, mergeJudgeRubricScores } from '../../../../utils/judgeEnsemble';
+import { encryptJudgeApiKeys, getJudgeKeyProviders, getJudgeProvider, toBackendJudges } from '../../../../services/judgeEnsembleService';
+import { getJobCostParams } from '../../../../services/costService';
+
+type AutoscoreOutcome = Pick<VerifierItem, 'score' | 'rubricScores' | 'rubricRationale' | 'judgeScores' | 'judgeAgreement'>;
+
+type AutoscoreJudge = Pick<AutoscoreConfig, 'provider' | 'externalProvider' | 'apiKey' | 'model' | 'customBaseUrl' | 'generationParams'>;
 
 interface UseVerifierBulkActionsOptions {
     data: VerifierItem[];
@@ -79,14 +89,15 @@ export function useVerifierBulkActions({
     const [itemsToDelete, setItemsToDelete] = useState<string[]>([]);
     const [isDeleting, setIsDeleting] = useState(false);
 
-    const autoscoreSingleItem = useCallback(async (item: VerifierItem, signal?: AbortSignal): Promise<number> => {
-        const { provider, externalProvider, apiKey, model, customBaseUrl, maxRetries, retryDelay, generationParams } = autoscoreConfig;
+    const autoscoreSingleItem = useCallback(async (item: VerifierItem, signal?: AbortSignal): Promise<AutoscoreOutcome> => {
+        const { maxRetries, retryDelay } = autoscoreConfig;
+        const rubric = autoscoreConfig.mode === AutoscoreMode.Rubric
+            ? (autoscoreConfig.rubric?.length ? autoscoreConfig.rubric : DEFAULT_RUBRIC_CRITERIA)
+            : null;
 
-        const providerString = provider === ProviderType.External ? externalProvider : 'gemini';
-        const effectiveApiKey = apiKey || SettingsService.getApiKey(providerString);
-        const effectiveBaseUrl = customBaseUrl || PROVIDERS[providerString]?.url || '';
-
-        const systemPrompt = 'You are an expert evaluator. Score the quality of the reasoning and answer on a scale of 1-5, where 1 is poor and 5 is excellent.';
+        const systemPrompt = rubric
+            ? buildRubricSystemPrompt(rubric)
+            : 'You are an expert evaluator. Score the quality of the reasoning and answer on a scale of 1-5, where 1 is poor and 5 is excellent.';
 
         const userPrompt = `## ITEM TO SCORE
 Query: ${item.query || (item as any).QUERY || item.full_seed || ''}
@@ -94,59 +105,108 @@ Reasoning Trace: ${item.reasoning}
 Answer: ${item.answer}
 
 ---
-Based on the criteria above, provide a 1-5 score.`;
+${rubric ? 'Based on the criteria above, respond with the JSON object of per-criterion scores.' : 'Based on the criteria above, provide a 1-5 score.'}`;
 
-        let rawResult = '';
+        const toOutcome = (raw: string): AutoscoreOutcome => {
+            if (rubric) {
+                return parseRubricResponse(raw, rubric) || { score: 0 };
+            }
+            const match = raw.match(/[1-5]/);
+            return { score: match ? parseInt(match[0], 10) : 0 };
+        };
 
-        const useBackend = await isBackendAiAvailable();
-        if (useBackend) {
-            try {
-                const result = await chatViaBackend({
-                    provider: providerString,
-                    model,
+        const callJudge = async ({ provider, externalProvider, apiKey, model, customBaseUrl, generationParams }: AutoscoreJudge): Promise<AutoscoreOutcome> => {
+            const providerString = provider === ProviderType.External ? externalProvider : 'gemini';
+            const effectiveApiKey = apiKey || SettingsService.getApiKey(providerString);
+            const effectiveBaseUrl = customBaseUrl || PROVIDERS[providerString]?.url || '';
+
+            let rawResult = '';
+
+            const useBackend = await isBackendAiAvailable();
+            if (useBackend) {
+                try {
+                    const result = await chatViaBackend({
+                        provider: providerString,
+                        model,
+                        apiKey: effectiveApiKey,
+                        baseUrl: effectiveBaseUrl,
+                        messages: [
+                            { role: 'system', content: systemPrompt },
+                            { role: 'user', content: userPrompt },
+                        ],
+                        generationParams: generationParams || SettingsService.getDefaultGenerationParams(),
+                        signal,
+                    });
+                    rawResult = result.content || '';
+                    return toOutcome(rawResult);
+                } catch (backendError: unknown) {
+                    if (backendError instanceof Error && (backendError.name === 'AbortError' || signal?.aborted)) throw backendError;
+                    console.warn('[autoscore] Backend AI failed, falling back to direct call:', backendError);
+                }
+            }
+
+            if (provider !== ProviderType.External) {
+                const result = await GeminiService.generateReasoningTrace(userPrompt, systemPrompt, {
+                    maxRetries,
+                    retryDelay,
+                    generationParams: generationParams || SettingsService.getDefaultGenerationParams()
+                });
+                rawResult = result.answer || result.reasoning || String(result);
+            } else {
+                const result = await ExternalApiService.callExternalApi({
+                    provider: externalProvider,
                     apiKey: effectiveApiKey,
-                    baseUrl: effectiveBaseUrl,
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userPrompt },
-                    ],
-                    generationParams: generationParams || SettingsService.getDefaultGenerationParams(),
+                    model,
+                    customBaseUrl: effectiveBaseUrl,
+                    userPrompt: systemPrompt + '\n\n' + userPrompt,
                     signal,
+                    maxRetries,
+                    retryDelay,
+                    structuredOutput: false,
+                    generationParams: generationParams || SettingsService.getDefaultGenerationParams()
                 });
-                rawResult = result.content || '';
-                const match = rawResult.match(/[1-5]/);
-                return match ? parseInt(match[0], 10) : 0;
-            } catch (backendError: unknown) {
-                if (backendError instanceof Error && (backendError.name === 'AbortError' || signal?.aborted)) throw backendError;
-                console.warn('[autoscore] Backend AI failed, falling back to direct call:', backendError);
+                rawResult = typeof result === 'string' ? result : JSON.stringify(result);
             }
-        }
 
-        if (provider !== ProviderType.External) {
-            const result = await GeminiService.generateReasoningTrace(userPrompt, systemPrompt, {
-                maxRetries,
-                retryDelay,
-                generationParams: generationParams || SettingsService.getDefaultGenerationParams()
-            });
-            rawResult = result.answer || result.reasoning || String(result);
-        } else {
-            const result = await ExternalApiService.callExternalApi({
-                provider: externalProvider,
-                apiKey: effectiveApiKey,
-                model,
-                customBaseUrl: effectiveBaseUrl,
-                userPrompt: systemPrompt + '\n\n' + userPrompt,
-                signal,
-                maxRetries,
-                retryDelay,
-                structuredOutput: false,
-                generationParams: generationParams || SettingsService.getDefaultGenerationParams()
-            });
-            rawResult = typeof result === 'string' ? result : JSON.stringify(result);
+            return toOutcome(rawResult);
+        };
+
+        const judges = (autoscoreConfig.judges || []).filter(judge => judge.model.trim() !== '');
+        if (judges.length === 0) {
+            return callJudge(autoscoreConfig);
         }
 
-        const match = rawResult.match(/[1-5]/);
-        return match ? parseInt(match[0], 10) : 0;
+        // Ensemble: every judge scores the item, failed or unparsable judges are left out
+        const labels = getJudgeLabels(judges.map(judge => ({ provider: getJudgeProvider(judge), model: judge.model })));
+        const results = await Promise.allSettled(judges.map(judge => callJudge({
+            provider: judge.provider,
+            externalProvider: judge.externalProvider,
+            apiKey: '',
+            model: judge.model,
+            customBaseUrl: SettingsService.getProviderUrl(getJudgeProvider(judge)),
+            generationParams: judge.generationParams
+        })));
+        if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+        const judgeScores: Record<string, number> = {};
+        const rubricScoresList: Record<string, number>[] = [];
+        const rationales: string[] = [];
+        results.forEach((result, index) => {
+            if (result.status !== 'fulfilled' || result.value.score <= 0) return;
+            judgeScores[labels[index]] = result.value.score;
+            if (result.value.rubricScores) rubricScoresList.push(result.value.rubricScores);
+            if (result.value.rubricRationale) rationales.push(`${labels[index]}: ${result.value.rubricRationale}`);
+        });
+
+        const scores = Object.values(judgeScores);
+        if (scores.length === 0) return { score: 0 };
+
+        return {
+            score: aggregateJudgeScores(scores, autoscoreConfig.judgeAggregation),
+            judgeScores,
+            judgeAgreement: computeJudgeAgreement(scores),
+            ...(rubric ? { rubricScores: mergeJudgeRubricScores(rubricScoresList), rubricRationale: rationales.join('\n') } : {})
+        };
     }, [autoscoreConfig]);
 
     const handleAutoscoreItems = useCallback(async (params: AutoscoreToolParams): Promise<AutoscoreToolResult> => {
@@ -299,6 +359,7 @@ Based on the criteria above, provide a 1-5 score.`;
                     retryDelay: rewriterConfig.retryDelay ?? 2000,
                     systemPrompt: effectiveSystemPrompt,
                     fieldPrompts,
+                    ...getJobCostParams(),
                 });
 
                 onJobCreated?.(jobId, 'rewrite');
@@ -454,10 +515,12 @@ Based on the criteria above, provide a 1-5 score.`;
 
         const alreadyScored = itemsToScore.filter(i => i.score != null).length;
         const suffix = alreadyScored > 0 ? ` (${alreadyScored} will be re-scored)` : '';
+        const judgeCount = (autoscoreConfig.judges || []).filter(judge => judge.model.trim() !== '').length;
+        const scorer = judgeCount > 0 ? `${judgeCount} judges` : autoscoreConfig.model;
 
         const confirmAutoscore = await confirmService.confirm({
             title: 'Confirm autoscore?',
-            message: `Autoscore ${itemsToScore.length} items using ${autoscoreConfig.model}?${suffix}`,
+            message: `Autoscore ${itemsToScore.length} items using ${scorer}?${suffix}`,
             confirmLabel: 'Autoscore',
             cancelLabel: 'Cancel',
             variant: 'warning'
@@ -477,14 +540,20 @@ Based on the criteria above, provide a 1-5 score.`;
             const effectiveModel = autoscoreConfig.model || '';
             const effectiveBaseUrl = autoscoreConfig.customBaseUrl || PROVIDERS[providerString]?.url || '';
             const apiKey = autoscoreConfig.apiKey || SettingsService.getApiKey(providerString) || '';
+            const judges = toBackendJudges(autoscoreConfig.judges || []);
 
-            if (!apiKey) {
+            if (!apiKey && judges.length === 0) {
                 toast.error(`No API key found for provider "${providerString}". Configure it in the Auto-Score settings.`);
                 return;
             }
 
             try {
-                const encryptedKey = await encryptKey(apiKey);
+                const { judgeApiKeys, missing } = await encryptJudgeApiKeys(getJudgeKeyProviders(judges));
+                if (missing.length > 0) {
+                    toast.error(`No API key found for judge provider(s): ${missing.join(', ')}. Configure them in Settings.`);
+                    return;
+                }
+                const encryptedKey = apiKey ? await encryptKey(apiKey) : undefined;
                 const itemIds = itemsToScore.map(i => i.id);
 
                 const jobId = await backendClient.startAutoScore({
@@ -501,6 +570,13 @@ Based on the criteria above, provide a 1-5 score.`;
                     force: false,
                     systemPrompt: autoscoreConfig.systemPrompt || 'You are an expert evaluator. Score the quality of both the reasoning and answer on a scale of 1-5, where 1 is poor and 5 is excellent. Respond with ONLY an unified single digit (1-5).',
                     generationParams: autoscoreConfig.generationParams as Record<string, unknown> | undefined,
+                    ...(autoscoreConfig.mode === AutoscoreMode.Rubric
+                        ? { mode: AutoscoreMode.Rubric, rubric: autoscoreConfig.rubric?.length ? autoscoreConfig.rubric : DEFAULT_RUBRIC_CRITERIA }
+                        : {}),
+                    ...(judges.length > 0
+                        ? { judges, judgeApiKeys, aggregation: autoscoreConfig.judgeAggregation }
+                        : {}),
+                    ...getJobCostParams(),
                 });
 
                 onJobCreated?.(jobId, 'autoscore');
@@ -525,11 +601,11 @@ Based on the criteria above, provide a 1-5 score.`;
 
                 const item = itemsToScore[myIndex];
                 try {
-                    const score = await autoscoreSingleItem(item);
-                    if (score > 0) {
-                        setData((prev: VerifierItem[]) => prev.map(i => i.id === item.id ? { ...i, score, hasUnsavedChanges: true } : i));
+                    const outcome = await autoscoreSingleItem(item);
+                    if (outcome.score > 0) {
+                        setData((prev: VerifierItem[]) => prev.map(i => i.id === item.id ? { ...i, ...outcome, hasUnsavedChanges: true } : i));
                         if (autoSaveEnabled && dataSource === VerifierDataSource.Database) {
-                            await handleDbUpdate({ ...item, score, hasUnsavedChanges: true });
+                            await handleDbUpdate({ ...item, ...outcome, hasUnsavedChanges: true });
                         }
                     }
                 } catch (err) {
@@ -668,9 +744,10 @@ Based on the criteria above, provide a 1-5 score.`;
         setAutoscoreProgress({ current: 1, total: 1 });
 
         try {
-            const score = await autoscoreSingleItem(item);
+            const outcome = await autoscoreSingleItem(item);
+            const { score } = outcome;
             if (score > 0) {
-                const updatedItem = { ...item, score, hasUnsavedChanges: true };
+                const updatedItem = { ...item, ...outcome, hasUnsavedChanges: true };
                 setData(prev => prev.map(i => i.id === itemId ? updatedItem : i));
                 if (autoSaveEnabled && dataSource === VerifierDataSource.Database) {
                     await handleDbUpdate(updatedItem);
@@ -1,6 +1,6 @@
 import { useCallback, type Dispatch, type MutableRefObject, type SetStateAction } from 'react';
 
-import type { VerifierItem } from '../../../../types';
+import type { ChatMessage, VerifierItem } from '../../../../types';
 import { ChatRole, OutputFieldName, VerifierRewriteTarget } from '../../../../interfaces/enums';
 import { VerifierDataSource } from '../../../../interfaces/enums/VerifierDataSource';
 import * as VerifierRewriterService from '../../../../services/verifierRewriterService';
@@ -9,6 +9,7 @@ import { toast } from '../../../../services/toastService';
 import { confirmService } from '../../../../services/confirmService';
 import { extractJsonFields } from '../../../../utils/jsonFieldExtractor';
 import { extractMessageParts, parseThinkTagsForDisplay, sanitizeReasoningContent } from '../../../../utils/thinkTagParser';
+import { addAlternative, removeAlternative, selectBranch } from '../../../../utils/conversationBranches';
 
 interface UseVerifierMessageRewriteActionsOptions {
     data: VerifierItem[];
@@ -33,6 +34,9 @@ interface UseVerifierMessageRewriteActionsResult {
     handleMessageRewrite: (itemId: string, messageIndex: number) => Promise<void>;
     handleMessageReasoningRewrite: (itemId: string, messageIndex: number) => Promise<void>;
     handleMessageBothRewrite: (itemId: string, messageIndex: number) => Promise<void>;
+    handleGenerateAlternative: (itemId: string, messageIndex: number) => Promise<void>;
+    handleSelectBranch: (itemId: string, messageIndex: number, branchId: string) => void;
+    handleRemoveAlternative: (itemId: string, messageIndex: number, branchId: string) => void;
     handleFieldRewrite: (
         itemId: string,
         field: VerifierRewriteTarget.Query | VerifierRewriteTarget.Reasoning | VerifierRewriteTarget.Answer
@@ -440,6 +444,101 @@ Expected Output Format:
         clearMessageRewriteState
     ]);
 
+    const handleGenerateAlternative = useCallback(async (itemId: string, messageIndex: number) => {
+        const item = data.find(i => i.id === itemId);
+        if (!item || !item.messages || !item.messages[messageIndex] || messageIndex === 0) {
+            return;
+        }
+
+        if (!ensureModelConfigured()) return;
+
+        setMessageRewriteStart(itemId, messageIndex, VerifierRewriteTarget.MessageAlternative);
+        const rewriteKey = getMessageRewriteKey(itemId, messageIndex);
+        const abortController = new AbortController();
+        messageRewriteAbortControllers.current[rewriteKey] = abortController;
+
+        try {
+            const rawResult = await VerifierRewriterService.generateMessageAlternativeStreaming(
+                {
+                    item,
+                    messageIndex,
+                    config: rewriterConfig,
+                    promptSet: SettingsService.getSettings().promptSet,
+                    signal: abortController.signal
+                },
+                (_chunk, accumulated) => {
+                    const extracted = extractJsonFields(accumulated);
+                    setMessageRewriteBothContent(itemId, messageIndex, extracted.reasoning || '', extracted.answer || '');
+                }
+            );
+
+            const extracted = extractJsonFields(rawResult);
+            const parsedThink = parseThinkTagsForDisplay(rawResult);
+            const reasoning = sanitizeReasoningContent(extracted.reasoning || parsedThink.reasoning || '');
+            const answer = extracted.answer || (parsedThink.hasThinkTags ? parsedThink.answer : rawResult);
+            if (!answer.trim()) {
+                toast.error('The model returned an empty response');
+                return;
+            }
+
+            let updatedItemForDb: VerifierItem | null = null;
+            setData((prev: VerifierItem[]) => prev.map(i => {
+                if (i.id !== itemId || !i.messages?.[messageIndex]) return i;
+                const messages = addAlternative(i.messages, messageIndex, {
+                    role: i.messages[messageIndex].role,
+                    content: answer.trim(),
+                    reasoning_content: reasoning || undefined,
+                    modelUsed: `${rewriterConfig.externalProvider}/${rewriterConfig.model}`,
+                    createdAt: Date.now()
+                });
+                const updated: VerifierItem = { ...i, messages, hasUnsavedChanges: true };
+                updatedItemForDb = updated;
+                return updated;
+            }));
+
+            maybeAutoSave(updatedItemForDb);
+            toast.success('Alternative response added');
+        } catch (error: unknown) {
+            if (error instanceof Error && (error.name === 'AbortError' || abortController.signal.aborted)) return;
+            console.error('Alternative generation failed:', error);
+            toast.error('Generation failed. See console for details.');
+        } finally {
+            clearMessageRewriteState(itemId, messageIndex);
+        }
+    }, [
+        data,
+        ensureModelConfigured,
+        setMessageRewriteStart,
+        getMessageRewriteKey,
+        messageRewriteAbortControllers,
+        rewriterConfig,
+        setMessageRewriteBothContent,
+        setData,
+        maybeAutoSave,
+        clearMessageRewriteState
+    ]);
+
+    const updateBranches = useCallback((itemId: string, update: (messages: ChatMessage[]) => ChatMessage[]) => {
+        let updatedItemForDb: VerifierItem | null = null;
+        setData((prev: VerifierItem[]) => prev.map(i => {
+            if (i.id !== itemId || !i.messages) return i;
+            const messages = update(i.messages);
+            if (messages === i.messages) return i;
+            const updated: VerifierItem = { ...i, messages, isMultiTurn: messages.length > 1, hasUnsavedChanges: true };
+            updatedItemForDb = updated;
+            return updated;
+        }));
+        maybeAutoSave(updatedItemForDb);
+    }, [maybeAutoSave, setData]);
+
+    const handleSelectBranch = useCallback((itemId: string, messageIndex: number, branchId: string) => {
+        updateBranches(itemId, messages => selectBranch(messages, messageIndex, branchId));
+    }, [updateBranches]);
+
+    const handleRemoveAlternative = useCallback((itemId: string, messageIndex: number, branchId: string) => {
+        updateBranches(itemId, messages => removeAlternative(messages, messageIndex, branchId));
+    }, [updateBranches]);
+
     const handleFieldRewrite = useCallback(async (
         itemId: string,
         field: VerifierRewriteTarget.Query | VerifierRewriteTarget.Reasoning | VerifierRewriteTarget.Answer
@@ -614,6 +713,9 @@ Expected Output Format:
         handleMessageRewrite,
         handleMessageReasoningRewrite,
         handleMessageBothRewrite,
+        handleGenerateAlternative,
+        handleSelectBranch,
+        handleRemoveAlternative,
         handleFieldRewrite,
         handleBothRewrite
     };
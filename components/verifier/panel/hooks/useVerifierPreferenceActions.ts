@@ -0,0 +1,176 @@
+import { useCallback, useState, type Dispatch, type SetStateAction } from 'react';
+
+import type { AutoscoreConfig, PreferenceCandidate, PreferenceConfig, VerifierItem } from '../../../../types';
+import { PreferenceSource } from '../../../../interfaces/enums';
+import { VerifierDataSource } from '../../../../interfaces/enums/VerifierDataSource';
+import { generateCandidate, getOriginalCandidate, judgeCandidates } from '../../../../services/preferenceService';
+import { toast } from '../../../../services/toastService';
+import { confirmService } from '../../../../services/confirmService';
+
+type PreferenceOutcome = Pick<VerifierItem, 'candidates' | 'chosenCandidateId' | 'rejectedCandidateId' | 'preferenceSource' | 'preferenceRationale'>;
+
+interface UseVerifierPreferenceActionsOptions {
+    data: VerifierItem[];
+    setData: Dispatch<SetStateAction<VerifierItem[]>>;
+    selectedItemIds: Set<string>;
+    dataSource: VerifierDataSource | null;
+    autoSaveEnabled: boolean;
+    preferenceConfig: PreferenceConfig;
+    autoscoreConfig: AutoscoreConfig;
+    handleDbUpdate: (item: VerifierItem) => Promise<void>;
+}
+
+interface UseVerifierPreferenceActionsResult {
+    isGeneratingCandidates: boolean;
+    candidateProgress: { current: number; total: number } | null;
+    handleGenerateCandidates: () => Promise<void>;
+    handlePickPreference: (itemId: string, chosenId: string, rejectedId: string) => Promise<void>;
+    handleClearPreference: (itemId: string) => Promise<void>;
+}
+
+export function useVerifierPreferenceActions({
+    data,
+    setData,
+    selectedItemIds,
+    dataSource,
+    autoSaveEnabled,
+    preferenceConfig,
+    autoscoreConfig,
+    handleDbUpdate
+}: UseVerifierPreferenceActionsOptions): UseVerifierPreferenceActionsResult {
+    const [isGeneratingCandidates, setIsGeneratingCandidates] = useState(false);
+    const [candidateProgress, setCandidateProgress] = useState<{ current: number; total: number } | null>(null);
+
+    const applyOutcome = useCallback(async (item: VerifierItem, outcome: PreferenceOutcome) => {
+        setData((prev: VerifierItem[]) => prev.map(i => i.id === item.id ? { ...i, ...outcome, hasUnsavedChanges: true } : i));
+        if (autoSaveEnabled && dataSource === VerifierDataSource.Database) {
+            await handleDbUpdate({ ...item, ...outcome, hasUnsavedChanges: true });
+        }
+    }, [autoSaveEnabled, dataSource, handleDbUpdate, setData]);
+
+    const handleGenerateCandidates = useCallback(async () => {
+        const itemsToProcess = data.filter(item => selectedItemIds.has(item.id));
+        if (itemsToProcess.length === 0) {
+            toast.info('No items selected.');
+            return;
+        }
+
+        const variants = preferenceConfig.variants.filter(v => v.model.trim() !== '');
+        const perItem = variants.length + (preferenceConfig.includeExistingAnswer ? 1 : 0);
+        if (variants.length === 0 || perItem < 2) {
+            toast.error('Configure at least two candidates per item in the PREFERENCE PAIRS panel.');
+            return;
+        }
+
+        const confirmed = await confirmService.confirm({
+            title: 'Generate candidates?',
+            message: `Generate ${variants.length} candidate(s) for each of ${itemsToProcess.length} items${preferenceConfig.autoJudge ? ` and let ${autoscoreConfig.model} pick chosen/rejected` : ''}? Existing candidates are replaced.`,
+            confirmLabel: 'Generate',
+            cancelLabel: 'Cancel',
+            variant: 'warning'
+        });
+        if (!confirmed) return;
+
+        setIsGeneratingCandidates(true);
+        setCandidateProgress({ current: 0, total: itemsToProcess.length });
+
+        let currentIndex = 0;
+        let judged = 0;
+        let failed = 0;
+
+        const worker = async () => {
+            while (currentIndex < itemsToProcess.length) {
+                const myIndex = currentIndex++;
+                if (myIndex >= itemsToProcess.length) break;
+
+                const item = itemsToProcess[myIndex];
+                try {
+                    const candidates: PreferenceCandidate[] = [];
+                    const original = preferenceConfig.includeExistingAnswer ? getOriginalCandidate(item) : null;
+                    if (original) candidates.push(original);
+
+                    const results = await Promise.allSettled(variants.map(variant => generateCandidate(item, variant)));
+                    results.forEach(result => {
+                        if (result.status === 'fulfilled') {
+                            candidates.push(result.value);
+                        } else {
+                            console.warn(`[preference] Candidate generation failed for ${item.id}:`, result.reason);
+                        }
+                    });
+
+                    const outcome: PreferenceOutcome = {
+                        candidates,
+                        chosenCandidateId: undefined,
+                        rejectedCandidateId: undefined,
+                        preferenceSource: undefined,
+                        preferenceRationale: undefined
+                    };
+                    if (preferenceConfig.autoJudge && candidates.length >= 2) {
+                        const judgement = await judgeCandidates(item, candidates, autoscoreConfig);
+                        if (judgement) {
+                            outcome.chosenCandidateId = judgement.chosenId;
+                            outcome.rejectedCandidateId = judgement.rejectedId;
+                            outcome.preferenceSource = PreferenceSource.Judge;
+                            outcome.preferenceRationale = judgement.rationale;
+                            judged++;
+                        }
+                    }
+                    if (candidates.length < 2) failed++;
+                    await applyOutcome(item, outcome);
+                } catch (err) {
+                    console.error(`Failed to build preference candidates for ${item.id}:`, err);
+                    failed++;
+                }
+
+                setCandidateProgress(prev => prev ? { ...prev, current: prev.current + 1 } : { current: 1, total: 1 });
+            }
+        };
+
+        const concurrency = Math.max(1, preferenceConfig.concurrency || 1);
+        const workers = Array.from({ length: Math.min(concurrency, itemsToProcess.length) }, () => worker());
+        await Promise.all(workers);
+
+        setIsGeneratingCandidates(false);
+        setCandidateProgress(null);
+        const judgedSuffix = preferenceConfig.autoJudge ? `, ${judged} judged` : '';
+        if (failed > 0) {
+            toast.warning(`Candidates ready for ${itemsToProcess.length - failed} items${judgedSuffix}. ${failed} items have fewer than two candidates.`);
+        } else {
+            toast.success(`Candidates ready for ${itemsToProcess.length} items${judgedSuffix}.`);
+        }
+    }, [applyOutcome, autoscoreConfig, data, preferenceConfig, selectedItemIds]);
+
+    const handlePickPreference = useCallback(async (itemId: string, chosenId: string, rejectedId: string) => {
+        const item = data.find(i => i.id === itemId);
+        if (!item) return;
+        await applyOutcome(item, {
+            candidates: item.candidates,
+            chosenCandidateId: chosenId,
+            rejectedCandidateId: rejectedId,
+            preferenceSource: PreferenceSource.Human,
+            preferenceRationale: undefined
+        });
+    }, [applyOutcome, data]);
+
+    const handleClearPreference = useCallback(async (itemId: string) => {
+        const item = data.find(i => i.id === itemId);
+        if (!item) return;
+        await applyOutcome(item, {
+            candidates: item.candidates,
+            chosenCandidateId: undefined,
+            rejectedCandidateId: undefined,
+            preferenceSource: undefined,
+            preferenceRationale: undefined
+        });
+    }, [applyOutcome, data]);
+
+    return {
+        isGeneratingCandidates,
+        candidateProgress,
+        handleGenerateCandidates,
+        handlePickPreference,
+        handleClearPreference
+    };
+}
+
+export default useVerifierPreferenceActions;
@@ -4,14 +4,17 @@ import * as FirebaseService from '../../../../services/firebaseService';
 import { normalizeImportItem } from '../../../../services/verifierImportService';
 import { VerifierDataSource } from '../../../../interfaces/enums/VerifierDataSource';
 import { VerifierPanelTab } from '../../../../interfaces/enums/VerifierPanelTab';
-import type { VerifierItem } from '../../../../types';
+import type { RubricCriterionFilter, VerifierItem } from '../../../../types';
+import { LOW_AGREEMENT_THRESHOLD } from '../../../../utils/judgeEnsemble';
 
 interface UseVerifierReviewViewStateOptions {
     data: VerifierItem[];
     setData: Dispatch<SetStateAction<VerifierItem[]>>;
     showDuplicatesOnly: boolean;
     showUnsavedOnly: boolean;
+    showLowAgreementOnly: boolean;
     filterScore: number | null;
+    criterionFilter: RubricCriterionFilter | null;
     pageSize: number;
     currentPage: number;
     setCurrentPage: Dispatch<SetStateAction<number>>;
@@ -42,7 +45,9 @@ export function useVerifierReviewViewState({
     setData,
     showDuplicatesOnly,
     showUnsavedOnly,
+    showLowAgreementOnly,
     filterScore,
+    criterionFilter,
     pageSize,
     currentPage,
     setCurrentPage,
@@ -66,9 +71,11 @@ export function useVerifierReviewViewState({
             if (showUnsavedOnly && !item.hasUnsavedChanges) return false;
             if (showDuplicatesOnly && !item.isDuplicate) return false;
             if (filterScore !== null && item.score !== filterScore) return false;
+            if (criterionFilter && (item.rubricScores?.[criterionFilter.criterion] ?? 0) < criterionFilter.minScore) return false;
+            if (showLowAgreementOnly && !(typeof item.judgeAgreement === 'number' && item.judgeAgreement < LOW_AGREEMENT_THRESHOLD)) return false;
             return true;
         });
-    }, [data, showDuplicatesOnly, filterScore, showUnsavedOnly]);
+    }, [data, showDuplicatesOnly, filterScore, criterionFilter, showUnsavedOnly, showLowAgreementOnly]);
 
     const totalPages = Math.ceil(filteredData.length / pageSize);
     const startIndex = (currentPage - 1) * pageSize;
@@ -0,0 +1,187 @@
+import { useState, type Dispatch, type SetStateAction } from 'react';
+import { ChevronDown, ChevronUp, GitBranch } from 'lucide-react';
+import { ExternalProvider, type DedupConfig, type DedupFieldWeights } from '../../../types';
+import { DedupMethod } from '../../../interfaces/enums';
+import { AVAILABLE_PROVIDERS, SettingsService } from '../../../services/settingsService';
+import { PROVIDERS } from '../../../constants';
+
+interface VerifierDedupConfigPanelProps {
+    dedupConfig: DedupConfig;
+    setDedupConfig: Dispatch<SetStateAction<DedupConfig>>;
+}
+
+const METHOD_LABELS: Record<DedupMethod, string> = {
+    [DedupMethod.Exact]: 'Exact query match',
+    [DedupMethod.MinHash]: 'MinHash (shingles)',
+    [DedupMethod.Embedding]: 'Embeddings (cosine)'
+};
+
+const FIELD_LABELS: Record<keyof DedupFieldWeights, string> = {
+    query: 'Query Weight',
+    reasoning: 'Reasoning Weight',
+    answer: 'Answer Weight'
+};
+
+export default function VerifierDedupConfigPanel({ dedupConfig, setDedupConfig }: VerifierDedupConfigPanelProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const embedding = dedupConfig.embedding;
+
+    const updateEmbedding = (patch: Partial<NonNullable<DedupConfig['embedding']>>) => {
+        setDedupConfig((prev) => ({
+            ...prev,
+            embedding: {
+                externalProvider: prev.embedding?.externalProvider || ExternalProvider.OpenAI,
+                apiKey: prev.embedding?.apiKey || '',
+                model: prev.embedding?.model || '',
+                customBaseUrl: prev.embedding?.customBaseUrl || '',
+                ...patch
+            }
+        }));
+    };
+
+    return (
+        <div className="bg-slate-950/70 rounded-xl border border-slate-800/70 overflow-visible mb-4">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between px-4 py-2 text-xs font-bold text-slate-300 hover:text-white transition-colors"
+            >
+                <span className="flex items-center gap-2 text-amber-400">
+                    <GitBranch className="w-4 h-4" />
+                    DEDUP CONFIG
+                </span>
+                {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+            {isOpen && (
+                <div className="px-4 pb-4 grid grid-cols-1 md:grid-cols-4 gap-4 border-t border-slate-800/70 pt-4">
+                    <div>
+                        <label className="text-[10px] text-slate-400 font-bold uppercase block mb-1">Method</label>
+                        <select
+                            value={dedupConfig.method}
+                            onChange={(e) => setDedupConfig((prev) => ({ ...prev, method: e.target.value as DedupMethod }))}
+                            className="w-full bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-amber-500"
+                        >
+                            {Object.values(DedupMethod).map((method) => (
+                                <option key={method} value={method}>{METHOD_LABELS[method]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label className="text-[10px] text-slate-400 font-bold uppercase block mb-1">
+                            Similarity Threshold ({Math.round(dedupConfig.threshold * 100)}%)
+                        </label>
+                        <input
+                            type="range"
+                            min="0.3"
+                            max="1"
+                            step="0.01"
+                            value={dedupConfig.threshold}
+                            disabled={dedupConfig.method === DedupMethod.Exact}
+                            onChange={(e) => setDedupConfig((prev) => ({ ...prev, threshold: parseFloat(e.target.value) }))}
+                            className="w-full accent-amber-500 disabled:opacity-50"
+                        />
+                    </div>
+                    <div>
+                        <label className="text-[10px] text-slate-400 font-bold uppercase block mb-1">Shingle Size (chars)</label>
+                        <input
+                            type="number"
+                            min="2"
+                            max="20"
+                            value={dedupConfig.shingleSize}
+                            disabled={dedupConfig.method !== DedupMethod.MinHash}
+                            onChange={(e) => setDedupConfig((prev) => ({ ...prev, shingleSize: Math.max(2, parseInt(e.target.value, 10) || 2) }))}
+                            className="w-full bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-amber-500 disabled:opacity-50"
+                        />
+                    </div>
+                    <div>
+                        <label className="text-[10px] text-slate-400 font-bold uppercase block mb-1">Hash Permutations</label>
+                        <select
+                            value={dedupConfig.numHashes}
+                            disabled={dedupConfig.method !== DedupMethod.MinHash}
+                            onChange={(e) => setDedupConfig((prev) => ({ ...prev, numHashes: parseInt(e.target.value, 10) }))}
+                            className="w-full bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-amber-500 disabled:opacity-50"
+                        >
+                            {[64, 128, 256].map((n) => (
+                                <option key={n} value={n}>{n}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {(Object.keys(FIELD_LABELS) as Array<keyof DedupFieldWeights>).map((field) => (
+                        <div key={field}>
+                            <label className="text-[10px] text-slate-400 font-bold uppercase block mb-1">{FIELD_LABELS[field]}</label>
+                            <input
+                                type="number"
+                                min="0"
+                                max="1"
+                                step="0.1"
+                                value={dedupConfig.fieldWeights[field]}
+                                disabled={dedupConfig.method === DedupMethod.Exact}
+                                onChange={(e) => {
+                                    const weight = Math.max(0, Math.min(1, parseFloat(e.target.value) || 0));
+                                    setDedupConfig((prev) => ({ ...prev, fieldWeights: { ...prev.fieldWeights, [field]: weight } }));
+                                }}
+                                className="w-full bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-amber-500 disabled:opacity-50"
+                            />
+                        </div>
+                    ))}
+                    {dedupConfig.method === DedupMethod.Embedding && (
+                        <div className="col-span-1 md:col-span-4 grid grid-cols-1 md:grid-cols-4 gap-4 border-t border-slate-800/70 pt-4">
+                            <div>
+                                <label className="text-[10px] text-slate-400 font-bold uppercase block mb-1">Embedding Provider</label>
+                                <select
+                                    value={embedding?.externalProvider || ExternalProvider.OpenAI}
+                                    onChange={(e) => {
+                                        const provider = e.target.value as ExternalProvider;
+                                        updateEmbedding({
+                                            externalProvider: provider,
+                                            customBaseUrl: provider === ExternalProvider.Other ? (SettingsService.getCustomBaseUrl() || '') : ''
+                                        });
+                                    }}
+                                    className="w-full bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-amber-500"
+                                >
+                                    {AVAILABLE_PROVIDERS.map((p) => (
+                                        <option key={p} value={p}>{p.charAt(0).toUpperCase() + p.slice(1)}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="text-[10px] text-slate-400 font-bold uppercase block mb-1">Embedding Model</label>
+                                <input
+                                    type="text"
+                                    value={embedding?.model || ''}
+                                    onChange={(e) => updateEmbedding({ model: e.target.value })}
+                                    placeholder="e.g. text-embedding-3-small"
+                                    className="w-full bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-amber-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] text-slate-400 font-bold uppercase block mb-1">API Key</label>
+                                <input
+                                    type="password"
+                                    value={embedding?.apiKey || ''}
+                                    onChange={(e) => updateEmbedding({ apiKey: e.target.value })}
+                                    placeholder={SettingsService.getApiKey(embedding?.externalProvider || ExternalProvider.OpenAI)
+                                        ? 'Using Global Key (Settings)'
+                                        : 'Enter API Key...'}
+                                    className="w-full bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-amber-500"
+                                />
+                            </div>
+                            <div>
+                                <label className="text-[10px] text-slate-400 font-bold uppercase block mb-1">Custom Base URL</label>
+                                <input
+                                    type="text"
+                                    value={embedding?.customBaseUrl || ''}
+                                    onChange={(e) => updateEmbedding({ customBaseUrl: e.target.value.trim() })}
+                                    placeholder={PROVIDERS[embedding?.externalProvider || ExternalProvider.OpenAI]?.url || 'Optional'}
+                                    className="w-full bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-amber-500"
+                                />
+                            </div>
+                            <p className="col-span-1 md:col-span-4 text-[10px] text-slate-500">
+                                Embedding similarity is computed on Re-Scan over the loaded items. Imports use MinHash until then.
+                            </p>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
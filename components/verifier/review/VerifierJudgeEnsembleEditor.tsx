@@ -0,0 +1,117 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { ExternalProvider, ModelListProvider, ProviderType } from '../../../types';
+import { JudgeAggregation } from '../../../interfaces/enums';
+import { AVAILABLE_PROVIDERS, SettingsService, type StepModelConfig } from '../../../services/settingsService';
+import ModelSelector from '../../ModelSelector';
+import ModelFallbackEditor from '../../ModelFallbackEditor';
+
+interface VerifierJudgeEnsembleEditorProps {
+    judges: StepModelConfig[];
+    aggregation: JudgeAggregation;
+    /** Provider/model the first added judge starts from */
+    defaultProvider: ExternalProvider;
+    defaultModel: string;
+    onChange: (judges: StepModelConfig[]) => void;
+    onAggregationChange: (aggregation: JudgeAggregation) => void;
+}
+
+export default function VerifierJudgeEnsembleEditor({
+    judges,
+    aggregation,
+    defaultProvider,
+    defaultModel,
+    onChange,
+    onAggregationChange
+}: VerifierJudgeEnsembleEditorProps) {
+    const updateJudge = (index: number, patch: Partial<StepModelConfig>) => {
+        onChange(judges.map((j, i) => (i === index ? { ...j, ...patch } : j)));
+    };
+
+    const addJudge = () => {
+        const last = judges[judges.length - 1];
+        const externalProvider = last?.externalProvider || defaultProvider;
+        onChange([...judges, {
+            provider: ProviderType.External,
+            externalProvider,
+            model: judges.length === 0 ? defaultModel : SettingsService.getDefaultModel(externalProvider)
+        }]);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <label className="text-[10px] text-slate-400 font-bold uppercase">
+                    Judge Ensemble {judges.length === 0 && <span className="normal-case font-normal text-slate-500">(off: the model above scores alone)</span>}
+                </label>
+                {judges.length > 0 && (
+                    <div className="flex items-center gap-2">
+                        <label className="text-[10px] text-slate-400 font-bold uppercase">Aggregate</label>
+                        <select
+                            value={aggregation}
+                            onChange={(e) => onAggregationChange(e.target.value as JudgeAggregation)}
+                            className="bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1 outline-none focus:border-emerald-500"
+                        >
+                            <option value={JudgeAggregation.Mean}>Mean</option>
+                            <option value={JudgeAggregation.Median}>Median</option>
+                            <option value={JudgeAggregation.Majority}>Majority vote</option>
+                        </select>
+                    </div>
+                )}
+            </div>
+            {judges.map((judge, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-start">
+                    <select
+                        value={judge.externalProvider}
+                        onChange={(e) => {
+                            const externalProvider = e.target.value as ExternalProvider;
+                            updateJudge(index, {
+                                provider: ProviderType.External,
+                                externalProvider,
+                                model: SettingsService.getDefaultModel(externalProvider) || judge.model
+                            });
+                        }}
+                        className="col-span-3 bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-emerald-500"
+                    >
+                        {AVAILABLE_PROVIDERS.map((p) => (
+                            <option key={p} value={p}>{p.charAt(0).toUpperCase() + p.slice(1)}</option>
+                        ))}
+                    </select>
+                    <div className="col-span-8">
+                        <ModelSelector
+                            provider={judge.externalProvider as ModelListProvider}
+                            value={judge.model}
+                            onChange={(model) => updateJudge(index, { model })}
+                            apiKey={SettingsService.getApiKey(judge.externalProvider)}
+                            customBaseUrl={SettingsService.getProviderUrl(judge.externalProvider)}
+                            placeholder="Select or enter model"
+                            className="w-full"
+                        />
+                    </div>
+                    <button
+                        onClick={() => onChange(judges.filter((_, i) => i !== index))}
+                        className="col-span-1 p-1.5 text-slate-500 hover:text-red-400 transition-colors"
+                        title="Remove judge"
+                    >
+                        <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                    <div className="col-span-11 col-start-2 pl-2 border-l border-slate-800/70">
+                        <ModelFallbackEditor
+                            fallbacks={judge.fallbacks || []}
+                            onChange={(fallbacks) => updateJudge(index, { fallbacks })}
+                            defaultProvider={judge.externalProvider}
+                        />
+                    </div>
+                </div>
+            ))}
+            <button
+                onClick={addJudge}
+                className="flex items-center gap-1 text-[10px] font-bold text-emerald-400 hover:text-emerald-300 transition-colors"
+            >
+                <Plus className="w-3 h-3" /> Add Judge
+            </button>
+            {judges.length === 1 && (
+                <p className="text-[9px] text-slate-500">Add at least one more judge to measure agreement.</p>
+            )}
+        </div>
+    );
+}
@@ -4,22 +4,32 @@ import {
     Bot,
     Brain,
     Check,
+    Columns2,
     ChevronDown,
     ChevronUp,
+    Dna,
     Edit3,
     Loader2,
     Maximize2,
     MessageCircle,
     RotateCcw,
     Save,
+    Scale,
+    ShieldCheck,
+    ShieldX,
     Sparkles,
     Star,
+    ThumbsUp,
     Trash2,
-    User
+    User,
+    Users,
+    Vote
 } from 'lucide-react';
 import { VerifierItem } from '../../../types';
 import { VerifierDataSource } from '../../../interfaces/enums/VerifierDataSource';
+import { GroundTruthStatus } from '../../../interfaces/enums/GroundTruthStatus';
 import { parseThinkTagsForDisplay } from '../../../utils/thinkTagParser';
+import { LOW_AGREEMENT_THRESHOLD } from '../../../utils/judgeEnsemble';
 import ReasoningHighlighter from '../../ReasoningHighlighter';
 import MarkdownRenderer from '../../MarkdownRenderer';
 
@@ -36,6 +46,8 @@ interface VerifierListItemProps {
     onFocus: () => void;
     onOpenDetail: () => void;
     onToggleDuplicate: () => void;
+    onCompareDuplicates: () => void;
+    onComparePreferences: () => void;
     onScore: (score: number) => void;
     onSaveToDb: () => void;
     onRollback: () => void;
@@ -65,6 +77,8 @@ export const VerifierListItem: React.FC<VerifierListItemProps> = ({
     onFocus,
     onOpenDetail,
     onToggleDuplicate,
+    onCompareDuplicates,
+    onComparePreferences,
     onScore,
     onSaveToDb,
     onRollback,
@@ -97,13 +111,26 @@ export const VerifierListItem: React.FC<VerifierListItemProps> = ({
         }
         if (item.isDuplicate) {
             return (
-                <button
-                    onClick={onToggleDuplicate}
-                    className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium bg-amber-500/10 text-amber-400 border border-amber-500/20 hover:bg-amber-500/20 transition-colors"
-                >
-                    <AlertTriangle className="w-3 h-3" />
-                    Duplicate
-                </button>
+                <span className="inline-flex items-center gap-1">
+                    <button
+                        onClick={onToggleDuplicate}
+                        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium bg-amber-500/10 text-amber-400 border border-amber-500/20 hover:bg-amber-500/20 transition-colors"
+                    >
+                        <AlertTriangle className="w-3 h-3" />
+                        Duplicate
+                        {item.duplicateSimilarity !== undefined && ` ${Math.round(item.duplicateSimilarity * 100)}%`}
+                    </button>
+                    {item.duplicateGroupId && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onCompareDuplicates(); }}
+                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-medium bg-slate-800/70 text-slate-300 border border-slate-700/70 hover:text-white transition-colors"
+                            title="Compare duplicate group side by side"
+                        >
+                            <Columns2 className="w-3 h-3" />
+                            Compare
+                        </button>
+                    )}
+                </span>
             );
         }
         return null;
@@ -189,6 +216,95 @@ export const VerifierListItem: React.FC<VerifierListItemProps> = ({
                             {item.messages?.length}
                         </span>
                     )}
+                    {item.persona && (
+                        <span
+                            className="hidden md:inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] bg-slate-800/70 text-slate-300 border border-slate-700/70"
+                            title={[item.persona.expertise, item.persona.language, item.persona.adversarial].filter(Boolean).join(' · ')}
+                        >
+                            <Users className="w-3 h-3" />
+                            {item.persona.name}
+                        </span>
+                    )}
+                    {item.seedLineage && (
+                        <span
+                            className="hidden md:inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] bg-slate-800/70 text-slate-300 border border-slate-700/70"
+                            title={`Evolved from ${item.seedLineage.parentSeedId}: ${item.seedLineage.parentSeed}`}
+                        >
+                            <Dna className="w-3 h-3" />
+                            {item.seedLineage.operators.join(' → ')}
+                        </span>
+                    )}
+                    {item.rubricScores && Object.keys(item.rubricScores).length > 0 && (
+                        <span
+                            className="hidden md:inline-flex items-center gap-1 truncate"
+                            title={item.rubricRationale || undefined}
+                        >
+                            {Object.entries(item.rubricScores).map(([criterion, value]) => (
+                                <span
+                                    key={criterion}
+                                    className={`px-1.5 py-0.5 rounded text-[10px] border ${value >= 4
+                                        ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20'
+                                        : value >= 3
+                                            ? 'bg-slate-800/70 text-slate-300 border-slate-700/70'
+                                            : 'bg-red-500/10 text-red-400 border-red-500/20'}`}
+                                >
+                                    {criterion.replace(/_/g, ' ')} {value}
+                                </span>
+                            ))}
+                        </span>
+                    )}
+                    {typeof item.judgeAgreement === 'number' && (
+                        <span
+                            className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] border ${item.judgeAgreement < LOW_AGREEMENT_THRESHOLD
+                                ? 'bg-rose-500/10 text-rose-400 border-rose-500/20'
+                                : 'bg-slate-800/70 text-slate-300 border-slate-700/70'}`}
+                            title={Object.entries(item.judgeScores || {}).map(([judge, value]) => `${judge}: ${value}`).join('\n')}
+                        >
+                            <Scale className="w-3 h-3" />
+                            {Math.round(item.judgeAgreement * 100)}%
+                        </span>
+                    )}
+                    {item.groundTruth && (
+                        <span
+                            className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] border ${item.groundTruth.status === GroundTruthStatus.Pass
+                                ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20'
+                                : item.groundTruth.status === GroundTruthStatus.Fail
+                                    ? 'bg-rose-500/10 text-rose-400 border-rose-500/20'
+                                    : 'bg-slate-800/70 text-slate-400 border-slate-700/70'}`}
+                            title={[
+                                `${item.groundTruth.verifier} check`,
+                                `expected: ${item.groundTruth.expected}`,
+                                item.groundTruth.actual ? `got: ${item.groundTruth.actual}` : '',
+                                item.groundTruth.detail || ''
+                            ].filter(Boolean).join('\n')}
+                        >
+                            {item.groundTruth.status === GroundTruthStatus.Pass ? <ShieldCheck className="w-3 h-3" /> : <ShieldX className="w-3 h-3" />}
+                            {item.groundTruth.status}
+                        </span>
+                    )}
+                    {item.voteTally && (
+                        <span
+                            className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] border ${(item.voteAgreement ?? 0) < 0.5
+                                ? 'bg-amber-500/10 text-amber-400 border-amber-500/20'
+                                : 'bg-slate-800/70 text-slate-300 border-slate-700/70'}`}
+                            title={Object.entries(item.voteTally).sort((a, b) => b[1] - a[1]).map(([answer, votes]) => `${answer}: ${votes}`).join('\n')}
+                        >
+                            <Vote className="w-3 h-3" />
+                            {Math.max(0, ...Object.values(item.voteTally))}/{Object.values(item.voteTally).reduce((sum, votes) => sum + votes, 0)}
+                        </span>
+                    )}
+                    {item.candidates && item.candidates.length > 0 && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onComparePreferences(); }}
+                            className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] border transition-colors ${item.chosenCandidateId
+                                ? 'bg-violet-500/10 text-violet-300 border-violet-500/20 hover:bg-violet-500/20'
+                                : 'bg-slate-800/70 text-slate-300 border-slate-700/70 hover:text-white'}`}
+                            title={item.chosenCandidateId ? `Preference picked by ${item.preferenceSource || 'unknown'}` : 'Pick chosen/rejected candidates'}
+                        >
+                            <ThumbsUp className="w-3 h-3" />
+                            {item.chosenCandidateId ? 'Pair' : 'Pick'} {item.candidates.length}
+                        </button>
+                    )}
                 </div>
 
                 {/* Score */}
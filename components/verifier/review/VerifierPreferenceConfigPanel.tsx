@@ -0,0 +1,157 @@
+import { useState, type Dispatch, type SetStateAction } from 'react';
+import { ChevronDown, ChevronUp, Plus, Scale, Trash2 } from 'lucide-react';
+import { ExternalProvider, ModelListProvider, ProviderType, type PreferenceConfig, type PreferenceVariant } from '../../../types';
+import { AVAILABLE_PROVIDERS, SettingsService } from '../../../services/settingsService';
+import { PromptService } from '../../../services/promptService';
+import ModelSelector from '../../ModelSelector';
+
+interface VerifierPreferenceConfigPanelProps {
+    preferenceConfig: PreferenceConfig;
+    setPreferenceConfig: Dispatch<SetStateAction<PreferenceConfig>>;
+    /** Autoscore model, shown as the judge */
+    judgeModel: string;
+}
+
+export default function VerifierPreferenceConfigPanel({ preferenceConfig, setPreferenceConfig, judgeModel }: VerifierPreferenceConfigPanelProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const promptSets = PromptService.getAvailableSets();
+    const { variants } = preferenceConfig;
+
+    const setVariants = (next: PreferenceVariant[]) => setPreferenceConfig((prev) => ({ ...prev, variants: next }));
+
+    const updateVariant = (index: number, patch: Partial<PreferenceVariant>) => {
+        setVariants(variants.map((v, i) => (i === index ? { ...v, ...patch } : v)));
+    };
+
+    const addVariant = () => {
+        const externalProvider = variants[variants.length - 1]?.externalProvider
+            || (SettingsService.getSettings().defaultProvider as ExternalProvider)
+            || ExternalProvider.OpenRouter;
+        setVariants([...variants, {
+            provider: ProviderType.External,
+            externalProvider,
+            model: SettingsService.getDefaultModel(externalProvider)
+        }]);
+    };
+
+    return (
+        <div className="bg-slate-950/70 rounded-xl border border-slate-800/70 overflow-visible mb-4">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className="w-full flex items-center justify-between px-4 py-2 text-xs font-bold text-slate-300 hover:text-white transition-colors"
+            >
+                <span className="flex items-center gap-2 text-violet-400">
+                    <Scale className="w-4 h-4" />
+                    PREFERENCE PAIRS
+                </span>
+                {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </button>
+            {isOpen && (
+                <div className="px-4 pb-4 space-y-3 border-t border-slate-800/70 pt-4">
+                    <p className="text-[10px] text-slate-500">
+                        Each variant answers the selected items&apos; queries with the generator prompt of its prompt set.
+                        Pick chosen/rejected per item by hand, or let the autoscore model judge.
+                    </p>
+                    <label className="text-[10px] text-slate-400 font-bold uppercase block">Candidate Variants</label>
+                    {variants.map((variant, index) => (
+                        <div key={index} className="grid grid-cols-12 gap-2 items-start">
+                            <select
+                                value={variant.externalProvider}
+                                onChange={(e) => {
+                                    const externalProvider = e.target.value as ExternalProvider;
+                                    updateVariant(index, {
+                                        provider: ProviderType.External,
+                                        externalProvider,
+                                        model: SettingsService.getDefaultModel(externalProvider) || variant.model
+                                    });
+                                }}
+                                className="col-span-2 bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-violet-500"
+                            >
+                                {AVAILABLE_PROVIDERS.map((p) => (
+                                    <option key={p} value={p}>{p.charAt(0).toUpperCase() + p.slice(1)}</option>
+                                ))}
+                            </select>
+                            <div className="col-span-5">
+                                <ModelSelector
+                                    provider={variant.externalProvider as ModelListProvider}
+                                    value={variant.model}
+                                    onChange={(model) => updateVariant(index, { model })}
+                                    apiKey={SettingsService.getApiKey(variant.externalProvider)}
+                                    customBaseUrl={SettingsService.getProviderUrl(variant.externalProvider)}
+                                    placeholder="Select or enter model"
+                                    className="w-full"
+                                />
+                            </div>
+                            <input
+                                type="number"
+                                min="0"
+                                max="2"
+                                step="0.1"
+                                value={variant.temperature ?? ''}
+                                onChange={(e) => updateVariant(index, { temperature: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) })}
+                                placeholder="Temp"
+                                title="Temperature (default when empty)"
+                                className="col-span-2 bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-violet-500"
+                            />
+                            <select
+                                value={variant.promptSet || ''}
+                                onChange={(e) => updateVariant(index, { promptSet: e.target.value || undefined })}
+                                title="Generator prompt set"
+                                className="col-span-2 bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-violet-500"
+                            >
+                                <option value="">Active set</option>
+                                {promptSets.map(set => (
+                                    <option key={set} value={set}>{set}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => setVariants(variants.filter((_, i) => i !== index))}
+                                className="col-span-1 p-1.5 text-slate-500 hover:text-red-400 transition-colors"
+                                title="Remove variant"
+                            >
+                                <Trash2 className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={addVariant}
+                        className="flex items-center gap-1 text-[10px] font-bold text-violet-400 hover:text-violet-300 transition-colors"
+                    >
+                        <Plus className="w-3 h-3" /> Add Variant
+                    </button>
+                    <div className="flex flex-wrap items-center gap-6 border-t border-slate-800/70 pt-3">
+                        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={preferenceConfig.includeExistingAnswer}
+                                onChange={(e) => setPreferenceConfig((prev) => ({ ...prev, includeExistingAnswer: e.target.checked }))}
+                                className="accent-violet-500"
+                            />
+                            Keep current answer as a candidate
+                        </label>
+                        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={preferenceConfig.autoJudge}
+                                onChange={(e) => setPreferenceConfig((prev) => ({ ...prev, autoJudge: e.target.checked }))}
+                                className="accent-violet-500"
+                            />
+                            Auto-judge with {judgeModel || 'the autoscore model'}
+                        </label>
+                        <label className="flex items-center gap-2 text-xs text-slate-300">
+                            Concurrency
+                            <input
+                                type="number"
+                                min="1"
+                                max="20"
+                                value={preferenceConfig.concurrency}
+                                onChange={(e) => setPreferenceConfig((prev) => ({ ...prev, concurrency: Math.max(1, parseInt(e.target.value, 10) || 1) }))}
+                                className="w-16 bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1 outline-none focus:border-violet-500"
+                            />
+                        </label>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
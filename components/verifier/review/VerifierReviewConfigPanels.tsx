@@ -1,13 +1,15 @@
 import type { Dispatch, SetStateAction } from 'react';
 import { ChevronDown, ChevronUp, Settings2, Star } from 'lucide-react';
-import { ExternalProvider, ModelListProvider, ProviderType, type AutoscoreConfig } from '../../../types';
+import { DEFAULT_RUBRIC_CRITERIA, ExternalProvider, ModelListProvider, ProviderType, type AutoscoreConfig } from '../../../types';
 import * as VerifierRewriterService from '../../../services/verifierRewriterService';
 import { AVAILABLE_PROVIDERS, SettingsService } from '../../../services/settingsService';
 import { PromptService } from '../../../services/promptService';
-import { PromptCategory, PromptRole } from '../../../interfaces/enums';
+import { AutoscoreMode, JudgeAggregation, PromptCategory, PromptRole } from '../../../interfaces/enums';
 import { PROVIDERS } from '../../../constants';
 import ModelSelector from '../../ModelSelector';
 import GenerationParamsInput from '../../GenerationParamsInput';
+import VerifierRubricEditor from './VerifierRubricEditor';
+import VerifierJudgeEnsembleEditor from './VerifierJudgeEnsembleEditor';
 
 interface VerifierReviewConfigPanelsProps {
     isRewriterPanelOpen: boolean;
@@ -354,27 +356,57 @@ export default function VerifierReviewConfigPanels({
                             />
                         </div>
                         <div className="col-span-1 md:col-span-4 border-t border-slate-800/70 pt-4">
-                            <div className="flex items-center justify-between mb-1">
-                                <label className="text-[10px] text-slate-400 font-bold uppercase">System Prompt</label>
-                                <span className="text-[9px] text-slate-500">
-                                    {autoscoreConfig.systemPrompt ? '(custom)' : '(default)'}
-                                </span>
-                            </div>
-                            <textarea
-                                value={autoscoreConfig.systemPrompt || 'You are an expert evaluator. Score the quality of both the reasoning and answer on a scale of 1-5, where 1 is poor and 5 is excellent. Respond with ONLY an unified single digit (1-5).'}
-                                onChange={(e) => setAutoscoreConfig((prev) => ({ ...prev, systemPrompt: e.target.value }))}
-                                rows={3}
-                                className="w-full bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-emerald-500 resize-y"
+                            <VerifierJudgeEnsembleEditor
+                                judges={autoscoreConfig.judges || []}
+                                aggregation={autoscoreConfig.judgeAggregation || JudgeAggregation.Mean}
+                                defaultProvider={autoscoreConfig.externalProvider}
+                                defaultModel={autoscoreConfig.model}
+                                onChange={(judges) => setAutoscoreConfig((prev) => ({ ...prev, judges }))}
+                                onAggregationChange={(judgeAggregation) => setAutoscoreConfig((prev) => ({ ...prev, judgeAggregation }))}
                             />
-                            {autoscoreConfig.systemPrompt && (
-                                <button
-                                    onClick={() => setAutoscoreConfig((prev) => ({ ...prev, systemPrompt: undefined }))}
-                                    className="text-[9px] text-slate-500 hover:text-red-400 mt-1 transition-colors"
-                                >
-                                    Reset to default
-                                </button>
-                            )}
                         </div>
+                        <div className="col-span-1 md:col-span-4 border-t border-slate-800/70 pt-4 flex items-center gap-3">
+                            <label className="text-[10px] text-slate-400 font-bold uppercase">Scoring Mode</label>
+                            <select
+                                value={autoscoreConfig.mode || AutoscoreMode.Single}
+                                onChange={(e) => setAutoscoreConfig((prev) => ({ ...prev, mode: e.target.value as AutoscoreMode }))}
+                                className="bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-emerald-500"
+                            >
+                                <option value={AutoscoreMode.Single}>Single score (1-5)</option>
+                                <option value={AutoscoreMode.Rubric}>Rubric (per-criterion JSON)</option>
+                            </select>
+                        </div>
+                        {autoscoreConfig.mode === AutoscoreMode.Rubric ? (
+                            <div className="col-span-1 md:col-span-4">
+                                <VerifierRubricEditor
+                                    criteria={autoscoreConfig.rubric?.length ? autoscoreConfig.rubric : DEFAULT_RUBRIC_CRITERIA}
+                                    onChange={(rubric) => setAutoscoreConfig((prev) => ({ ...prev, rubric }))}
+                                />
+                            </div>
+                        ) : (
+                            <div className="col-span-1 md:col-span-4 border-t border-slate-800/70 pt-4">
+                                <div className="flex items-center justify-between mb-1">
+                                    <label className="text-[10px] text-slate-400 font-bold uppercase">System Prompt</label>
+                                    <span className="text-[9px] text-slate-500">
+                                        {autoscoreConfig.systemPrompt ? '(custom)' : '(default)'}
+                                    </span>
+                                </div>
+                                <textarea
+                                    value={autoscoreConfig.systemPrompt || 'You are an expert evaluator. Score the quality of both the reasoning and answer on a scale of 1-5, where 1 is poor and 5 is excellent. Respond with ONLY an unified single digit (1-5).'}
+                                    onChange={(e) => setAutoscoreConfig((prev) => ({ ...prev, systemPrompt: e.target.value }))}
+                                    rows={3}
+                                    className="w-full bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-emerald-500 resize-y"
+                                />
+                                {autoscoreConfig.systemPrompt && (
+                                    <button
+                                        onClick={() => setAutoscoreConfig((prev) => ({ ...prev, systemPrompt: undefined }))}
+                                        className="text-[9px] text-slate-500 hover:text-red-400 mt-1 transition-colors"
+                                    >
+                                        Reset to default
+                                    </button>
+                                )}
+                            </div>
+                        )}
                     </div>
                 )}
             </div>
@@ -36,6 +36,8 @@ interface VerifierReviewContentProps {
     selectedItemIds: Set<string>;
     toggleSelection: (id: string) => void;
     toggleDuplicateStatus: (id: string) => void;
+    openDuplicateGroup: (groupId: string) => void;
+    openPreferences: (itemId: string) => void;
     handleScoreClick: (item: VerifierItem, score: number) => void;
     dataSource: VerifierDataSource | null;
     handleDbUpdate: (item: VerifierItem) => Promise<void>;
@@ -181,6 +183,8 @@ export default function VerifierReviewContent({
     selectedItemIds,
     toggleSelection,
     toggleDuplicateStatus,
+    openDuplicateGroup,
+    openPreferences,
     handleScoreClick,
     dataSource,
     handleDbUpdate,
@@ -247,6 +251,8 @@ export default function VerifierReviewContent({
                                 onFocus={() => setFocusedItemIndex(index)}
                                 onOpenDetail={() => openDetailPanel(item)}
                                 onToggleDuplicate={() => toggleDuplicateStatus(item.id)}
+                                onCompareDuplicates={() => item.duplicateGroupId && openDuplicateGroup(item.duplicateGroupId)}
+                                onComparePreferences={() => openPreferences(item.id)}
                                 onScore={(score) => handleScoreClick(item, score)}
                                 onSaveToDb={() => handleDbUpdate(item)}
                                 onRollback={() => handleDbRollback(item)}
@@ -9,16 +9,19 @@ import {
     Loader2,
     RefreshCcw,
     Save,
+    Scale,
     Search,
     Settings2,
     Sparkles,
     Star,
+    ThumbsUp,
     Trash2
 } from 'lucide-react';
 import CollapsibleSection from '../../layout/CollapsibleSection';
 import { VerifierDataSource } from '../../../interfaces/enums/VerifierDataSource';
 import { VerifierRewriteTarget } from '../../../interfaces/enums';
 import { VerifierViewMode } from '../../../interfaces/enums/VerifierViewMode';
+import type { RubricCriterionFilter } from '../../../types';
 
 interface VerifierReviewToolbarProps {
     selectedCount: number;
@@ -41,6 +44,9 @@ interface VerifierReviewToolbarProps {
     isAutoscoring: boolean;
     autoscoreProgress: { current: number; total: number } | null;
     onAutoscoreSelected: () => void;
+    isGeneratingCandidates: boolean;
+    candidateProgress: { current: number; total: number } | null;
+    onGenerateCandidates: () => void;
     isBulkUpdating: boolean;
     onBulkDbUpdate: () => void;
     onDeleteSelected: () => void;
@@ -48,9 +54,16 @@ interface VerifierReviewToolbarProps {
     setShowDuplicatesOnly: (value: boolean) => void;
     showUnsavedOnly: boolean;
     setShowUnsavedOnly: (value: boolean) => void;
+    hasJudgeAgreement: boolean;
+    showLowAgreementOnly: boolean;
+    setShowLowAgreementOnly: (value: boolean) => void;
     filterScore: number | null;
     setFilterScore: (value: number | null) => void;
+    rubricCriteria: string[];
+    criterionFilter: RubricCriterionFilter | null;
+    setCriterionFilter: (value: RubricCriterionFilter | null) => void;
     onRescan: () => void;
+    isScanningDuplicates: boolean;
     onAutoResolveDuplicates: () => void;
     onRefreshCurrentPage: () => void;
     isRefreshing: boolean;
@@ -75,6 +88,9 @@ export default function VerifierReviewToolbar({
     isAutoscoring,
     autoscoreProgress,
     onAutoscoreSelected,
+    isGeneratingCandidates,
+    candidateProgress,
+    onGenerateCandidates,
     isBulkUpdating,
     onBulkDbUpdate,
     onDeleteSelected,
@@ -82,9 +98,16 @@ export default function VerifierReviewToolbar({
     setShowDuplicatesOnly,
     showUnsavedOnly,
     setShowUnsavedOnly,
+    hasJudgeAgreement,
+    showLowAgreementOnly,
+    setShowLowAgreementOnly,
     filterScore,
     setFilterScore,
+    rubricCriteria,
+    criterionFilter,
+    setCriterionFilter,
     onRescan,
+    isScanningDuplicates,
     onAutoResolveDuplicates,
     onRefreshCurrentPage,
     isRefreshing,
@@ -185,6 +208,25 @@ export default function VerifierReviewToolbar({
                             )}
                         </button>
 
+                        <button
+                            onClick={onGenerateCandidates}
+                            disabled={isGeneratingCandidates || selectedCount === 0}
+                            className={`flex items-center gap-2 text-xs font-bold px-3 py-1.5 rounded-lg transition-colors ${isGeneratingCandidates ? 'bg-violet-600 text-white' : 'bg-violet-600/10 text-violet-400 hover:bg-violet-600/20'} disabled:opacity-50`}
+                            title="Generate preference candidates for the selected items"
+                        >
+                            {isGeneratingCandidates ? (
+                                <>
+                                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                                    Candidates {candidateProgress?.current ?? 0}/{candidateProgress?.total ?? 0}
+                                </>
+                            ) : (
+                                <>
+                                    <ThumbsUp className="w-3.5 h-3.5" />
+                                    Candidates
+                                </>
+                            )}
+                        </button>
+
                         {dataSource === VerifierDataSource.Database && (
                             <>
                                 <button
@@ -228,6 +270,16 @@ export default function VerifierReviewToolbar({
                             <AlertCircle className="w-3.5 h-3.5" /> Unsaved
                         </button>
 
+                        {(hasJudgeAgreement || showLowAgreementOnly) && (
+                            <button
+                                onClick={() => setShowLowAgreementOnly(!showLowAgreementOnly)}
+                                className={`flex items-center gap-2 text-xs font-bold px-3 py-1.5 rounded-lg transition-colors ${showLowAgreementOnly ? 'bg-rose-500/20 text-rose-400' : 'text-slate-400 hover:text-white'}`}
+                                title="Show items the judge ensemble disagreed on"
+                            >
+                                <Scale className="w-3.5 h-3.5" /> Low Agreement
+                            </button>
+                        )}
+
                         <div className="flex items-center gap-2">
                             <Filter className="w-3.5 h-3.5 text-slate-400" />
                             <select value={filterScore === null ? 'all' : filterScore} onChange={(e) => setFilterScore(e.target.value === 'all' ? null : Number(e.target.value))} className="bg-slate-950/70 border border-slate-700/70 text-xs text-slate-200 rounded px-2 py-1 outline-none">
@@ -240,11 +292,40 @@ export default function VerifierReviewToolbar({
                                 <option value="5">5 Stars</option>
                             </select>
                         </div>
+
+                        {rubricCriteria.length > 0 && (
+                            <div className="flex items-center gap-2">
+                                <Star className="w-3.5 h-3.5 text-slate-400" />
+                                <select
+                                    value={criterionFilter?.criterion ?? 'all'}
+                                    onChange={(e) => setCriterionFilter(e.target.value === 'all'
+                                        ? null
+                                        : { criterion: e.target.value, minScore: criterionFilter?.minScore ?? 4 })}
+                                    className="bg-slate-950/70 border border-slate-700/70 text-xs text-slate-200 rounded px-2 py-1 outline-none"
+                                >
+                                    <option value="all">All Criteria</option>
+                                    {rubricCriteria.map(criterion => (
+                                        <option key={criterion} value={criterion}>{criterion.replace(/_/g, ' ')}</option>
+                                    ))}
+                                </select>
+                                {criterionFilter && (
+                                    <select
+                                        value={criterionFilter.minScore}
+                                        onChange={(e) => setCriterionFilter({ ...criterionFilter, minScore: Number(e.target.value) })}
+                                        className="bg-slate-950/70 border border-slate-700/70 text-xs text-slate-200 rounded px-2 py-1 outline-none"
+                                    >
+                                        {[1, 2, 3, 4, 5].map(n => (
+                                            <option key={n} value={n}>&ge; {n}</option>
+                                        ))}
+                                    </select>
+                                )}
+                            </div>
+                        )}
                     </div>
 
                     <div className="flex items-center gap-2">
-                        <button onClick={onRescan} className="text-xs bg-slate-900/60 hover:bg-slate-800/70 text-slate-200 px-3 py-1.5 rounded-lg transition-colors flex items-center gap-2" title="Re-scan for duplicates (ignoring discarded)">
-                            <Search className="w-3.5 h-3.5" /> Re-Scan
+                        <button onClick={onRescan} disabled={isScanningDuplicates} className="text-xs bg-slate-900/60 hover:bg-slate-800/70 text-slate-200 px-3 py-1.5 rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50" title="Re-scan for duplicates (ignoring discarded)">
+                            {isScanningDuplicates ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Search className="w-3.5 h-3.5" />} Re-Scan
                         </button>
                         <button onClick={onAutoResolveDuplicates} className="text-xs bg-slate-900/60 hover:bg-slate-800/70 text-slate-200 px-3 py-1.5 rounded-lg transition-colors flex items-center gap-2">
                             <RefreshCcw className="w-3.5 h-3.5" /> Auto-Resolve Dupes
@@ -0,0 +1,81 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { DEFAULT_RUBRIC_CRITERIA, type RubricCriterion } from '../../../types';
+
+interface VerifierRubricEditorProps {
+    criteria: RubricCriterion[];
+    onChange: (criteria: RubricCriterion[]) => void;
+}
+
+const toCriterionId = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+export default function VerifierRubricEditor({ criteria, onChange }: VerifierRubricEditorProps) {
+    const updateCriterion = (index: number, patch: Partial<RubricCriterion>) => {
+        onChange(criteria.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+    };
+
+    const addCriterion = () => {
+        let n = criteria.length + 1;
+        while (criteria.some(c => c.id === `criterion_${n}`)) n++;
+        onChange([...criteria, { id: `criterion_${n}`, name: `Criterion ${n}`, description: '', weight: 1 }]);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <label className="text-[10px] text-slate-400 font-bold uppercase">Rubric Criteria (1-5 each)</label>
+                <button
+                    onClick={() => onChange(DEFAULT_RUBRIC_CRITERIA)}
+                    className="text-[9px] text-slate-500 hover:text-red-400 transition-colors"
+                >
+                    Reset to default
+                </button>
+            </div>
+            {criteria.map((criterion, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-start">
+                    <input
+                        type="text"
+                        value={criterion.name}
+                        onChange={(e) => {
+                            const name = e.target.value;
+                            // Keep the id in sync while it still matches the generated one
+                            const syncId = criterion.id === toCriterionId(criterion.name);
+                            updateCriterion(index, syncId ? { name, id: toCriterionId(name) || criterion.id } : { name });
+                        }}
+                        placeholder="Name"
+                        className="col-span-3 bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-emerald-500"
+                    />
+                    <input
+                        type="text"
+                        value={criterion.description}
+                        onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                        placeholder="What the judge should check"
+                        className="col-span-6 bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-emerald-500"
+                    />
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={criterion.weight}
+                        onChange={(e) => updateCriterion(index, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                        title="Weight in the overall score"
+                        className="col-span-2 bg-slate-950/70 border border-slate-700/70 text-xs text-white rounded px-2 py-1.5 outline-none focus:border-emerald-500"
+                    />
+                    <button
+                        onClick={() => onChange(criteria.filter((_, i) => i !== index))}
+                        disabled={criteria.length <= 1}
+                        className="col-span-1 p-1.5 text-slate-500 hover:text-red-400 transition-colors disabled:opacity-30"
+                        title="Remove criterion"
+                    >
+                        <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                </div>
+            ))}
+            <button
+                onClick={addCriterion}
+                className="flex items-center gap-1 text-[10px] font-bold text-emerald-400 hover:text-emerald-300 transition-colors"
+            >
+                <Plus className="w-3 h-3" /> Add Criterion
+            </button>
+        </div>
+    );
+}
@@ -3,7 +3,7 @@ import { FeedAnalyticsPanelProps } from '../components/layout/FeedAnalyticsPanel
 import { SidebarPanelProps } from '../components/layout/SidebarPanel';
 import { VerifierContentProps } from '../components/layout/VerifierContent';
 import { CreatorMode, DataSource, DeepPhase, EngineMode, Environment, ExternalProvider, LogFilter, ProviderType, ApiType, OllamaStatus, ViewMode, FeedDisplayMode, LogFeedRewriteTarget } from '../interfaces/enums';
-import { DeepConfig, DetectedColumns, GenerationParams, HuggingFaceConfig, ProgressStats, UserAgentConfig } from '../types';
+import { DeepConfig, DeepPipelineGraph, DetectedColumns, GenerationParams, HuggingFaceConfig, ProgressStats, UserAgentConfig } from '../types';
 import { PrefetchState } from '../services/hfPrefetchService';
 import { TaskType } from '../interfaces/enums';
 import { OllamaModel } from '../services/externalApiService';
@@ -94,8 +94,9 @@ interface UseAppViewPropsInput {
     activeDeepTab: DeepPhase;
     onActiveDeepTabChange: (phase: DeepPhase) => void;
     deepConfig: DeepConfig;
-    onUpdatePhase: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter', updates: Partial<DeepConfig['phases']['meta']>) => void;
-    onCopyToAll: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter') => void;
+    onUpdatePhase: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter' | 'critic', updates: Partial<DeepConfig['phases']['meta']>) => void;
+    onCopyToAll: (phase: 'meta' | 'retrieval' | 'derivation' | 'writer' | 'rewriter' | 'critic') => void;
+    onUpdateGraph: (graph: DeepPipelineGraph | undefined) => void;
     conversationRewriteMode: boolean;
     onConversationRewriteModeChange: (enabled: boolean) => void;
     onDisableUserAgent: () => void;
@@ -279,6 +280,7 @@ export function useAppViewProps(input: UseAppViewPropsInput) {
         deepConfig: input.deepConfig,
         onUpdatePhase: input.onUpdatePhase,
         onCopyToAll: input.onCopyToAll,
+        onUpdateGraph: input.onUpdateGraph,
         conversationRewriteMode: input.conversationRewriteMode,
         onConversationRewriteModeChange: input.onConversationRewriteModeChange,
         onDisableUserAgent: input.onDisableUserAgent,
@@ -2,7 +2,7 @@ import { useCallback } from 'react';
 import type { Dispatch, SetStateAction } from 'react';
 
 import { updateDeepPhase as updateDeepPhaseService, copyDeepConfigToAll as copyDeepConfigToAllService, applyPhaseToUserAgent } from '../services/deepConfigService';
-import type { DeepConfig, DeepPhaseConfig, UserAgentConfig } from '../types';
+import type { DeepConfig, DeepPhaseConfig, DeepPipelineGraph, UserAgentConfig } from '../types';
 
 interface UseDeepConfigActionsOptions {
     deepConfig: DeepConfig;
@@ -25,7 +25,11 @@ export function useDeepConfigActions({
         setUserAgentConfig(prev => applyPhaseToUserAgent(prev, source));
     }, [deepConfig.phases, setDeepConfig, setUserAgentConfig]);
 
-    return { updateDeepPhase, copyDeepConfigToAll };
+    const updateDeepGraph = useCallback((graph: DeepPipelineGraph | undefined) => {
+        setDeepConfig(prev => ({ ...prev, graph }));
+    }, [setDeepConfig]);
+
+    return { updateDeepPhase, copyDeepConfigToAll, updateDeepGraph };
 }
 
 export default useDeepConfigActions;
@@ -10,6 +10,8 @@ import {
 import * as backendClient from '../services/backendClient';
 import { encryptKey } from '../utils/keyEncryption';
 import { SettingsService } from '../services/settingsService';
+import { encryptJudgeApiKeys, getJudgeKeyProviders, type BackendJudge } from '../services/judgeEnsembleService';
+import { getJobCostParams } from '../services/costService';
 import { toast } from '../services/toastService';
 
 const POLL_INTERVAL_MS = 5000;
@@ -20,8 +22,10 @@ const JOB_TYPE_LABELS: Record<string, string> = {
     rewrite: 'Rewrite',
     'remove-items': 'Remove Items',
     'migrate-reasoning': 'Migrate Reasoning',
+    dedup: 'Deduplicate',
     orphan_check: 'Orphan Check',
     orphan_sync: 'Orphan Sync',
+    batch: 'Batch API',
 };
 
 const getJobLabel = (type: string): string => JOB_TYPE_LABELS[type] || type;
@@ -239,6 +243,20 @@ export const useJobMonitor = (options?: UseJobMonitorOptions): UseJobMonitorRetu
             const params = fullJob?.params as Record<string, unknown> | undefined;
             const provider = (params?.provider as string) || '';
 
+            // Ensemble autoscore jobs carry judges instead of a single provider
+            const judges = (params?.judges as BackendJudge[] | undefined) || [];
+            if (judges.length > 0) {
+                const { judgeApiKeys, missing } = await encryptJudgeApiKeys(getJudgeKeyProviders(judges));
+                if (missing.length > 0) {
+                    toast.error(`No API key for judge provider(s) ${missing.join(', ')} — cannot rerun job`);
+                    return;
+                }
+                const newJobId = await backendClient.rerunJob(jobId, undefined, judgeApiKeys);
+                trackJob(newJobId, oldJob?.type || 'unknown');
+                toast.success(`${label} job restarted`);
+                return;
+            }
+
             // Get the current API key for that provider
             const apiKey = provider
                 ? SettingsService.getApiKey(provider)
@@ -269,6 +287,50 @@ export const useJobMonitor = (options?: UseJobMonitorOptions): UseJobMonitorRetu
                 // Autoscore needs API key
                 const fullJob = await backendClient.fetchJob(jobId) as Record<string, unknown>;
                 const params = fullJob?.params as Record<string, unknown> | undefined;
+                const judges = (params?.judges as BackendJudge[] | undefined) || [];
+
+                if (judges.length > 0) {
+                    // Ensemble jobs need a key for every judge provider
+                    const { judgeApiKeys, missing } = await encryptJudgeApiKeys(getJudgeKeyProviders(judges));
+                    if (missing.length > 0) {
+                        toast.error(`No API key for judge provider(s) ${missing.join(', ')} — cannot resume job`);
+                        return;
+                    }
+                    newJobId = await backendClient.startAutoScore({
+                        resumeJobId: jobId,
+                        judgeApiKeys,
+                        ...getJobCostParams(),
+                    });
+                } else {
+                    const provider = (params?.provider as string) || '';
+
+                    const apiKey = provider ? SettingsService.getApiKey(provider) : '';
+                    if (!apiKey) {
+                        toast.error(`No API key for provider "${provider}" — cannot resume job`);
+                        return;
+                    }
+
+                    const encrypted = await encryptKey(apiKey);
+                    newJobId = await backendClient.startAutoScore({
+                        resumeJobId: jobId,
+                        apiKey: encrypted,
+                        ...getJobCostParams(),
+                    });
+                }
+            } else if (oldJob?.type === 'migrate-reasoning') {
+                // Migrate reasoning doesn't need API key
+                newJobId = await backendClient.startMigrateReasoning({
+                    resumeJobId: jobId,
+                });
+            } else if (oldJob?.type === 'dedup') {
+                // Dedup doesn't need API key
+                newJobId = await backendClient.startDedup({
+                    resumeJobId: jobId,
+                });
+            } else if (oldJob?.type === 'rewrite') {
+                // Rewrite needs API key
+                const fullJob = await backendClient.fetchJob(jobId) as Record<string, unknown>;
+                const params = fullJob?.params as Record<string, unknown> | undefined;
                 const provider = (params?.provider as string) || '';
 
                 const apiKey = provider ? SettingsService.getApiKey(provider) : '';
@@ -278,17 +340,13 @@ export const useJobMonitor = (options?: UseJobMonitorOptions): UseJobMonitorRetu
                 }
 
                 const encrypted = await encryptKey(apiKey);
-                newJobId = await backendClient.startAutoScore({
+                newJobId = await backendClient.startRewrite({
                     resumeJobId: jobId,
                     apiKey: encrypted,
+                    ...getJobCostParams(),
                 });
-            } else if (oldJob?.type === 'migrate-reasoning') {
-                // Migrate reasoning doesn't need API key
-                newJobId = await backendClient.startMigrateReasoning({
-                    resumeJobId: jobId,
-                });
-            } else if (oldJob?.type === 'rewrite') {
-                // Rewrite needs API key
+            } else if (oldJob?.type === 'batch') {
+                // Batch polls the provider batch it already submitted, which needs the API key again
                 const fullJob = await backendClient.fetchJob(jobId) as Record<string, unknown>;
                 const params = fullJob?.params as Record<string, unknown> | undefined;
                 const provider = (params?.provider as string) || '';
@@ -300,7 +358,7 @@ export const useJobMonitor = (options?: UseJobMonitorOptions): UseJobMonitorRetu
                 }
 
                 const encrypted = await encryptKey(apiKey);
-                newJobId = await backendClient.startRewrite({
+                newJobId = await backendClient.startBatch({
                     resumeJobId: jobId,
                     apiKey: encrypted,
                 });
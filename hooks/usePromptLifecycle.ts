@@ -87,6 +87,15 @@ export function usePromptLifecycle({
                         PromptService.getPromptSchema(PromptCategory.Converter, PromptRole.Rewriter, activeSet),
                         prev.phases.rewriter.selectedFields
                     )
+                },
+                critic: {
+                    ...prev.phases.critic,
+                    systemPrompt: PromptService.getPrompt(PromptCategory.Converter, PromptRole.Critic, activeSet),
+                    promptSchema: PromptService.getPromptSchema(PromptCategory.Converter, PromptRole.Critic, activeSet),
+                    selectedFields: getDefaultSelectedFields(
+                        PromptService.getPromptSchema(PromptCategory.Converter, PromptRole.Critic, activeSet),
+                        prev.phases.critic?.selectedFields
+                    )
                 }
             }
         }));
@@ -148,6 +157,15 @@ export function usePromptLifecycle({
                         PromptService.getPromptSchema(PromptCategory.Converter, PromptRole.Rewriter),
                         prev.phases.rewriter.selectedFields
                     )
+                },
+                critic: {
+                    ...prev.phases.critic,
+                    systemPrompt: PromptService.getPrompt(PromptCategory.Converter, PromptRole.Critic),
+                    promptSchema: PromptService.getPromptSchema(PromptCategory.Converter, PromptRole.Critic),
+                    selectedFields: getDefaultSelectedFields(
+                        PromptService.getPromptSchema(PromptCategory.Converter, PromptRole.Critic),
+                        prev.phases.critic?.selectedFields
+                    )
                 }
             }
         }));
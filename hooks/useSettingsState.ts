@@ -1,6 +1,8 @@
 import { useCallback, useState } from 'react';
 import { SettingsService, AppSettings, StepModelConfig, DeepModeDefaults, DEFAULT_WORKFLOW_DEFAULTS } from '../services/settingsService';
 import { EngineMode, SettingsPanelTab, ApiSubTab } from '../interfaces/enums';
+import { syncRateLimitsToBackend } from '../services/rateLimitService';
+import { DEFAULT_RATE_LIMIT_CONFIG } from '../types';
 
 export interface UseSettingsStateReturn {
     settings: AppSettings;
@@ -59,6 +61,9 @@ export function useSettingsState(onSettingsChanged?: () => void): UseSettingsSta
 
     const handleSave = async () => {
         await SettingsService.saveSettingsAsync(settings);
+        // Backend jobs pace their provider calls with the same rules
+        syncRateLimitsToBackend({ ...DEFAULT_RATE_LIMIT_CONFIG, ...settings.rateLimits })
+            .catch(err => console.warn('[Settings] Failed to sync rate limits to backend:', err));
         setSaved(true);
         onSettingsChanged?.();
         setTimeout(() => setSaved(false), 2000);
@@ -33,6 +33,15 @@ export function useVerifierDbActions({ setItemStates, setData, toast }: UseVerif
                     messages: item.messages,
                     isMultiTurn: true,
                     score: item.score,
+                    rubricScores: item.rubricScores,
+                    rubricRationale: item.rubricRationale,
+                    judgeScores: item.judgeScores,
+                    judgeAgreement: item.judgeAgreement,
+                    candidates: item.candidates,
+                    chosenCandidateId: item.chosenCandidateId,
+                    rejectedCandidateId: item.rejectedCandidateId,
+                    preferenceSource: item.preferenceSource,
+                    preferenceRationale: item.preferenceRationale,
                     isDuplicate: item.isDuplicate,
                     isDiscarded: item.isDiscarded
                 }
@@ -42,6 +51,15 @@ export function useVerifierDbActions({ setItemStates, setData, toast }: UseVerif
                     reasoning_content: item.reasoning_content || item.reasoning,
                     answer: item.answer,
                     score: item.score,
+                    rubricScores: item.rubricScores,
+                    rubricRationale: item.rubricRationale,
+                    judgeScores: item.judgeScores,
+                    judgeAgreement: item.judgeAgreement,
+                    candidates: item.candidates,
+                    chosenCandidateId: item.chosenCandidateId,
+                    rejectedCandidateId: item.rejectedCandidateId,
+                    preferenceSource: item.preferenceSource,
+                    preferenceRationale: item.preferenceRationale,
                     isDuplicate: item.isDuplicate,
                     isDiscarded: item.isDiscarded
                 };
@@ -59,6 +77,7 @@ export function useVerifierDbActions({ setItemStates, setData, toast }: UseVerif
                     ...updatedFromDb,
                     isDuplicate: i.isDuplicate,
                     duplicateGroupId: i.duplicateGroupId,
+                    duplicateSimilarity: i.duplicateSimilarity,
                     isDiscarded: i.isDiscarded,
                     hasUnsavedChanges: false
                 };
@@ -93,6 +112,7 @@ export function useVerifierDbActions({ setItemStates, setData, toast }: UseVerif
                     ...freshItem,
                     isDuplicate: item.isDuplicate,
                     duplicateGroupId: item.duplicateGroupId,
+                    duplicateSimilarity: item.duplicateSimilarity,
                     hasUnsavedChanges: false
                 };
 
@@ -1,58 +1,80 @@
-import { useCallback } from 'react';
+import { useCallback, useState } from 'react';
 
-import type { VerifierItem } from '../types';
+import type { DedupConfig, VerifierItem } from '../types';
+import { DedupMethod } from '../interfaces/enums';
+import { SettingsService } from '../services/settingsService';
+import { findDuplicateGroups, findDuplicateGroupsAsync, SERVER_DEDUP_GROUP_PREFIX, type DuplicateAnalysis } from '../services/dedup/similarityEngine';
 
 interface UseVerifierDeduplicationOptions {
     data: VerifierItem[];
     setData: (items: VerifierItem[] | ((prev: VerifierItem[]) => VerifierItem[])) => void;
+    dedupConfig: DedupConfig;
+    toast: { success: (msg: string) => void; error: (msg: string) => void; info: (msg: string) => void };
 }
 
-export function useVerifierDeduplication({ data, setData }: UseVerifierDeduplicationOptions) {
+// Groups found by the server dedup job span the whole session, so a page-local scan keeps them
+const applyAnalysis = (items: VerifierItem[], analysis: DuplicateAnalysis) => {
+    items.forEach(item => {
+        const serverGroupId = item.duplicateGroupId?.startsWith(SERVER_DEDUP_GROUP_PREFIX) ? item.duplicateGroupId : undefined;
+        const localGroupId = analysis.groupIds.get(item.id);
+        const groupId = item.isDiscarded ? undefined : (localGroupId ?? serverGroupId);
+        item.isDuplicate = groupId !== undefined;
+        item.duplicateGroupId = groupId;
+        item.duplicateSimilarity = groupId === undefined
+            ? undefined
+            : (localGroupId !== undefined ? analysis.similarities.get(item.id) : item.duplicateSimilarity);
+    });
+};
+
+const markChanged = (prev: VerifierItem[], next: VerifierItem[]) => {
+    if (next.length !== prev.length) return;
+    for (let i = 0; i < next.length; i++) {
+        if (next[i].isDuplicate !== prev[i].isDuplicate || next[i].duplicateGroupId !== prev[i].duplicateGroupId) {
+            next[i].hasUnsavedChanges = true;
+        }
+    }
+};
+
+export function useVerifierDeduplication({ data, setData, dedupConfig, toast }: UseVerifierDeduplicationOptions) {
+    const [isScanningDuplicates, setIsScanningDuplicates] = useState(false);
+
+    // Synchronous pass used on import; the embedding method falls back to MinHash here
     const analyzeDuplicates = useCallback((items: VerifierItem[]) => {
-        const map = new Map<string, string[]>();
-
-        items.forEach(i => {
-            i.isDuplicate = false;
-            i.duplicateGroupId = undefined;
-        });
-
-        items.forEach(item => {
-            if (item.isDiscarded) return;
-            const key = (item.query || item.full_seed || '').trim().toLowerCase();
-            if (!map.has(key)) map.set(key, []);
-            map.get(key)?.push(item.id);
-        });
-
-        map.forEach((ids) => {
-            if (ids.length > 1) {
-                const groupId = crypto.randomUUID();
-                ids.forEach(id => {
-                    const item = items.find(i => i.id === id);
-                    if (item) {
-                        item.isDuplicate = true;
-                        item.duplicateGroupId = groupId;
-                    }
-                });
-            }
-        });
-    }, []);
-
-    const handleReScan = useCallback(() => {
-        setData((prev: VerifierItem[]) => {
-            const next = prev.map(i => ({ ...i }));
-            analyzeDuplicates(next);
-
-            if (next.length === prev.length) {
-                for (let i = 0; i < next.length; i++) {
-                    if (next[i].isDuplicate !== prev[i].isDuplicate || next[i].duplicateGroupId !== prev[i].duplicateGroupId) {
-                        next[i].hasUnsavedChanges = true;
-                    }
-                }
-            }
-
-            return next;
-        });
-    }, [analyzeDuplicates, setData]);
+        const candidates = items.filter(item => !item.isDiscarded);
+        applyAnalysis(items, findDuplicateGroups(candidates, dedupConfig));
+    }, [dedupConfig]);
+
+    const handleReScan = useCallback(async () => {
+        if (dedupConfig.method !== DedupMethod.Embedding) {
+            setData((prev: VerifierItem[]) => {
+                const next = prev.map(i => ({ ...i }));
+                analyzeDuplicates(next);
+                markChanged(prev, next);
+                return next;
+            });
+            return;
+        }
+
+        setIsScanningDuplicates(true);
+        try {
+            // Fall back to the global key for the embedding provider when none is set on the panel
+            const embedding = dedupConfig.embedding
+                ? { ...dedupConfig.embedding, apiKey: dedupConfig.embedding.apiKey || SettingsService.getApiKey(dedupConfig.embedding.externalProvider) || '' }
+                : undefined;
+            const analysis = await findDuplicateGroupsAsync(data.filter(item => !item.isDiscarded), { ...dedupConfig, embedding });
+            setData((prev: VerifierItem[]) => {
+                const next = prev.map(i => ({ ...i }));
+                applyAnalysis(next, analysis);
+                markChanged(prev, next);
+                return next;
+            });
+            toast.success(`Found ${analysis.groupCount} duplicate group${analysis.groupCount === 1 ? '' : 's'}`);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : 'Duplicate scan failed');
+        } finally {
+            setIsScanningDuplicates(false);
+        }
+    }, [analyzeDuplicates, data, dedupConfig, setData, toast]);
 
     const toggleDuplicateStatus = useCallback((id: string) => {
         setData((prev: VerifierItem[]) => prev.map(item => {
@@ -96,6 +118,7 @@ export function useVerifierDeduplication({ data, setData }: UseVerifierDeduplica
     return {
         analyzeDuplicates,
         handleReScan,
+        isScanningDuplicates,
         toggleDuplicateStatus,
         autoResolveDuplicates
     };
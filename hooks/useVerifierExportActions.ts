@@ -2,11 +2,40 @@ import { useCallback } from 'react';
 
 import * as FirebaseService from '../services/firebaseService';
 import * as HuggingFaceService from '../services/huggingFaceService';
-import type { VerifierItem } from '../types';
+import { uploadSessionShardsToHuggingFace, type ShardedUploadProgress } from '../services/hfShardedUploadService';
+import type { DatasetSplitConfig, ExportTemplate, GenerationParams, HuggingFaceConfig, VerifierItem } from '../types';
+import { ExportPreset } from '../interfaces/enums';
+import { StorageMode } from '../interfaces/enums/StorageMode';
+import { formatItemForPreset } from '../utils/exportPresets';
+import { applyExportTemplate } from '../utils/exportTemplate';
+import { buildPreferencePairs } from '../utils/preferencePairs';
+import { getStratumKey, hasSplitRatios, splitDataset, type DatasetSplits } from '../utils/datasetSplit';
+import { buildDatasetCard, collectDatasetCardStats, replaceDatasetCardDataFiles } from '../utils/datasetCard';
+
+/** README.md settings for HF pushes */
+export interface DatasetCardSettings {
+    enabled: boolean;
+    license: string;
+    /** User-edited card; the generated one is used when null */
+    draft: string | null;
+    sourceDataset?: HuggingFaceConfig;
+    promptSet?: string;
+    generationParams?: GenerationParams;
+}
 
 interface UseVerifierExportActionsOptions {
     data: VerifierItem[];
     exportColumns: Record<string, boolean>;
+    exportPreset: ExportPreset;
+    exportIncludeReasoning: boolean;
+    exportTemplate: ExportTemplate | null;
+    splitConfig: DatasetSplitConfig;
+    /** Session uid to tag name, for stratifying splits by tag */
+    sessionTags: Record<string, string>;
+    datasetCard: DatasetCardSettings;
+    /** Session streamed by the sharded upload */
+    activeSession: { sessionUid: string; storageMode?: StorageMode } | null;
+    setShardUploadProgress: (progress: ShardedUploadProgress | null) => void;
     setIsUploading: (value: boolean) => void;
     hfToken: string;
     hfRepo: string;
@@ -17,36 +46,106 @@ interface UseVerifierExportActionsOptions {
 export function useVerifierExportActions({
     data,
     exportColumns,
+    exportPreset,
+    exportIncludeReasoning,
+    exportTemplate,
+    splitConfig,
+    sessionTags,
+    datasetCard,
+    activeSession,
+    setShardUploadProgress,
     setIsUploading,
     hfToken,
     hfRepo,
     hfFormat,
     toast
 }: UseVerifierExportActionsOptions) {
-    const getExportData = useCallback(() => {
-        return data.filter((i: VerifierItem) => !i.isDiscarded).map((item: VerifierItem) => {
-            const exportItem: any = {};
-            Object.keys(exportColumns).forEach(key => {
-                if (exportColumns[key]) {
-                    exportItem[key] = (item as any)[key];
-                }
-            });
-            return exportItem;
+    const toExportRow = useCallback((item: VerifierItem): Record<string, unknown> => {
+        if (exportPreset === ExportPreset.Template && exportTemplate) {
+            return applyExportTemplate(item, exportTemplate);
+        }
+        if (exportPreset !== ExportPreset.Columns) {
+            return formatItemForPreset(item, exportPreset, { includeReasoning: exportIncludeReasoning });
+        }
+        const exportItem: any = {};
+        Object.keys(exportColumns).forEach(key => {
+            if (exportColumns[key]) {
+                exportItem[key] = (item as any)[key];
+            }
         });
-    }, [data, exportColumns]);
+        return exportItem;
+    }, [exportColumns, exportIncludeReasoning, exportPreset, exportTemplate]);
+
+    const getExportData = useCallback((limit?: number) => {
+        const items = data.filter((i: VerifierItem) => !i.isDiscarded);
+        if (exportPreset === ExportPreset.Template && !exportTemplate) return [];
+        return (limit === undefined ? items : items.slice(0, limit)).map(toExportRow);
+    }, [data, exportPreset, exportTemplate, toExportRow]);
+
+    const getSplitItems = useCallback((): DatasetSplits<VerifierItem> => {
+        const items = data.filter((i: VerifierItem) => !i.isDiscarded);
+        return splitDataset(items, splitConfig, item => getStratumKey(item, splitConfig.stratifyBy, sessionTags));
+    }, [data, sessionTags, splitConfig]);
+
+    const getGeneratedDatasetCard = useCallback(() => {
+        const items = data.filter((i: VerifierItem) => !i.isDiscarded);
+        const files = splitConfig.enabled && hasSplitRatios(splitConfig)
+            ? Object.entries(getSplitItems()).map(([split, splitItems]) => ({
+                split,
+                path: HuggingFaceService.getSplitFilePath(split, hfFormat),
+                rows: splitItems?.length || 0
+            }))
+            : [{ split: 'train', path: hfFormat === 'parquet' ? 'train.parquet' : 'data.jsonl', rows: items.length }];
+        return buildDatasetCard({
+            repoId: hfRepo || 'dataset',
+            files,
+            license: datasetCard.license,
+            stats: collectDatasetCardStats(items),
+            sourceDataset: datasetCard.sourceDataset,
+            promptSet: datasetCard.promptSet,
+            generationParams: datasetCard.generationParams
+        });
+    }, [data, datasetCard.generationParams, datasetCard.license, datasetCard.promptSet, datasetCard.sourceDataset, getSplitItems, hfFormat, hfRepo, splitConfig]);
 
     const handleJsonExport = useCallback(() => {
-        const exportData = getExportData();
-        const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `synth_verified_${new Date().toISOString().slice(0, 10)}.json`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-    }, [getExportData]);
+        if (exportPreset === ExportPreset.Template && !exportTemplate) {
+            toast.info('Select or save an export template first.');
+            return;
+        }
+        if (splitConfig.enabled && !hasSplitRatios(splitConfig)) {
+            toast.info('Set at least one split ratio above zero.');
+            return;
+        }
+        // Presets target trainers that read JSONL; the column layout keeps the JSON array
+        const isJsonl = exportPreset !== ExportPreset.Columns;
+        const presetName = exportPreset === ExportPreset.Template && exportTemplate
+            ? exportTemplate.name.replace(/[^a-z0-9_-]+/gi, '_')
+            : exportPreset;
+        const baseName = isJsonl ? `synth_${presetName}` : 'synth_verified';
+        const date = new Date().toISOString().slice(0, 10);
+
+        const download = (rows: Record<string, unknown>[], fileName: string) => {
+            const blob = isJsonl
+                ? new Blob([rows.map(row => JSON.stringify(row)).join('\n')], { type: 'application/x-ndjson' })
+                : new Blob([JSON.stringify(rows, null, 2)], { type: 'application/json' });
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = fileName;
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+        };
+
+        if (splitConfig.enabled) {
+            Object.entries(getSplitItems()).forEach(([split, items]) => {
+                download((items || []).map(toExportRow), `${baseName}_${date}_${split}.${isJsonl ? 'jsonl' : 'json'}`);
+            });
+            return;
+        }
+        download(getExportData(), `${baseName}_${date}.${isJsonl ? 'jsonl' : 'json'}`);
+    }, [exportPreset, exportTemplate, getExportData, getSplitItems, splitConfig, toExportRow, toast]);
 
     const handleDbSave = useCallback(async () => {
         setIsUploading(true);
@@ -66,20 +165,141 @@ export function useVerifierExportActions({
             toast.info('Please provide HF Token and Repo ID.');
             return;
         }
+        const useTemplate = exportPreset === ExportPreset.Template;
+        if (useTemplate && !exportTemplate) {
+            toast.info('Select or save an export template first.');
+            return;
+        }
+        if (splitConfig.enabled && !hasSplitRatios(splitConfig)) {
+            toast.info('Set at least one split ratio above zero.');
+            return;
+        }
         setIsUploading(true);
         try {
-            const itemsToSave = getExportData();
-            const filename = hfFormat === 'parquet' ? 'train.parquet' : 'data.jsonl';
-            const url = await HuggingFaceService.uploadToHuggingFace(hfToken, hfRepo, itemsToSave, filename, true, hfFormat);
+            // Templates are applied by the upload itself, so it gets the raw items
+            const template = useTemplate ? exportTemplate || undefined : undefined;
+            const card = datasetCard.enabled ? datasetCard.draft ?? getGeneratedDatasetCard() : undefined;
+            let url: string;
+            if (splitConfig.enabled) {
+                const splits: DatasetSplits<any> = {};
+                Object.entries(getSplitItems()).forEach(([split, items]) => {
+                    splits[split as keyof DatasetSplits<VerifierItem>] = useTemplate ? items : (items || []).map(toExportRow);
+                });
+                url = await HuggingFaceService.uploadSplitsToHuggingFace(hfToken, hfRepo, splits, true, hfFormat, template, card);
+            } else {
+                const itemsToSave = useTemplate ? data.filter((i: VerifierItem) => !i.isDiscarded) : getExportData();
+                const filename = hfFormat === 'parquet' ? 'train.parquet' : 'data.jsonl';
+                url = await HuggingFaceService.uploadToHuggingFace(hfToken, hfRepo, itemsToSave, filename, true, hfFormat, template, card);
+            }
             toast.success('Successfully pushed to: ' + url);
         } catch (e: any) {
             toast.error('HF Push Failed: ' + e.message);
         } finally {
             setIsUploading(false);
         }
-    }, [getExportData, hfFormat, hfRepo, hfToken, setIsUploading, toast]);
+    }, [data, datasetCard.draft, datasetCard.enabled, exportPreset, exportTemplate, getExportData, getGeneratedDatasetCard, getSplitItems, hfFormat, hfRepo, hfToken, setIsUploading, splitConfig, toExportRow, toast]);
+
+    // Reads the session from storage instead of the loaded rows, so it scales past what fits in the tab
+    const handleSessionShardUpload = useCallback(async () => {
+        if (!hfToken || !hfRepo) {
+            toast.info('Please provide HF Token and Repo ID.');
+            return;
+        }
+        if (!activeSession) {
+            toast.info('Load a single session to stream it.');
+            return;
+        }
+        if (exportPreset === ExportPreset.Template && !exportTemplate) {
+            toast.info('Select or save an export template first.');
+            return;
+        }
+        if (splitConfig.enabled && !hasSplitRatios(splitConfig)) {
+            toast.info('Set at least one split ratio above zero.');
+            return;
+        }
+        setIsUploading(true);
+        try {
+            const result = await uploadSessionShardsToHuggingFace({
+                token: hfToken,
+                repoId: hfRepo,
+                sessionUid: activeSession.sessionUid,
+                storageMode: activeSession.storageMode || StorageMode.Cloud,
+                mapRow: log => toExportRow(log as VerifierItem),
+                format: hfFormat,
+                splits: splitConfig.enabled
+                    ? { config: splitConfig, getStratum: log => getStratumKey(log, splitConfig.stratifyBy, sessionTags) }
+                    : undefined,
+                // An edited card keeps its text but is pointed at the shard files
+                buildCard: datasetCard.enabled
+                    ? (files, stats) => datasetCard.draft
+                        ? replaceDatasetCardDataFiles(datasetCard.draft, files)
+                        : buildDatasetCard({
+                            repoId: hfRepo,
+                            files,
+                            license: datasetCard.license,
+                            stats,
+                            sourceDataset: datasetCard.sourceDataset,
+                            promptSet: datasetCard.promptSet,
+                            generationParams: datasetCard.generationParams
+                        })
+                    : undefined,
+                onProgress: setShardUploadProgress
+            });
+            toast.success(`${result.resumed ? 'Resumed and pushed' : 'Pushed'} ${result.rows} rows in ${result.shards} shards to: ${result.url}`);
+        } catch (e: any) {
+            toast.error(`HF Push Failed: ${e.message}. Progress is saved; push again to resume.`);
+        } finally {
+            setShardUploadProgress(null);
+            setIsUploading(false);
+        }
+    }, [activeSession, datasetCard, exportPreset, exportTemplate, hfFormat, hfRepo, hfToken, sessionTags, setIsUploading, setShardUploadProgress, splitConfig, toExportRow, toast]);
+
+    const handlePreferenceExport = useCallback(async (format: 'jsonl' | 'parquet', includeReasoning: boolean) => {
+        const pairs = buildPreferencePairs(data, includeReasoning);
+        if (pairs.length === 0) {
+            toast.info('No items have both a chosen and a rejected candidate.');
+            return;
+        }
+        try {
+            const blob = format === 'parquet'
+                ? new Blob([await HuggingFaceService.generateParquetBuffer(pairs)], { type: 'application/octet-stream' })
+                : new Blob([pairs.map(pair => JSON.stringify(pair)).join('\n')], { type: 'application/x-ndjson' });
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = `synth_preference_${new Date().toISOString().slice(0, 10)}.${format}`;
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+        } catch (e: any) {
+            toast.error('Preference Export Failed: ' + e.message);
+        }
+    }, [data, toast]);
+
+    const handlePreferenceHfPush = useCallback(async (includeReasoning: boolean) => {
+        if (!hfToken || !hfRepo) {
+            toast.info('Please provide HF Token and Repo ID.');
+            return;
+        }
+        const pairs = buildPreferencePairs(data, includeReasoning);
+        if (pairs.length === 0) {
+            toast.info('No items have both a chosen and a rejected candidate.');
+            return;
+        }
+        setIsUploading(true);
+        try {
+            const filename = hfFormat === 'parquet' ? 'preference.parquet' : 'preference.jsonl';
+            const url = await HuggingFaceService.uploadToHuggingFace(hfToken, hfRepo, pairs, filename, true, hfFormat);
+            toast.success(`Pushed ${pairs.length} preference pairs to: ` + url);
+        } catch (e: any) {
+            toast.error('HF Push Failed: ' + e.message);
+        } finally {
+            setIsUploading(false);
+        }
+    }, [data, hfFormat, hfRepo, hfToken, setIsUploading, toast]);
 
-    return { getExportData, handleJsonExport, handleDbSave, handleHfPush };
+    return { getExportData, getSplitItems, getGeneratedDatasetCard, handleJsonExport, handleDbSave, handleHfPush, handleSessionShardUpload, handlePreferenceExport, handlePreferenceHfPush };
 }
 
 export default useVerifierExportActions;
@@ -13,7 +13,7 @@ export function useVerifierExportColumns({ data, setExportColumns }: UseVerifier
         if (data.length === 0) return;
 
         const allKeys = new Set<string>();
-        const excludeKeys = ['id', 'isDuplicate', 'duplicateGroupId', 'isDiscarded', 'verifiedTimestamp'];
+        const excludeKeys = ['id', 'isDuplicate', 'duplicateGroupId', 'duplicateSimilarity', 'isDiscarded', 'verifiedTimestamp'];
         const defaultChecked = [
             ExportColumnName.Query,
             ExportColumnName.Reasoning,
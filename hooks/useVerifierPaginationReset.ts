@@ -1,9 +1,13 @@
 import { useEffect } from 'react';
 
+import type { RubricCriterionFilter } from '../types';
+
 interface UseVerifierPaginationResetOptions {
     showDuplicatesOnly: boolean;
     filterScore: number | null;
+    criterionFilter: RubricCriterionFilter | null;
     showUnsavedOnly: boolean;
+    showLowAgreementOnly: boolean;
     dataLength: number;
     setCurrentPage: (page: number) => void;
 }
@@ -11,13 +15,15 @@ interface UseVerifierPaginationResetOptions {
 export function useVerifierPaginationReset({
     showDuplicatesOnly,
     filterScore,
+    criterionFilter,
     showUnsavedOnly,
+    showLowAgreementOnly,
     dataLength,
     setCurrentPage
 }: UseVerifierPaginationResetOptions) {
     useEffect(() => {
         setCurrentPage(1);
-    }, [showDuplicatesOnly, filterScore, showUnsavedOnly, dataLength, setCurrentPage]);
+    }, [showDuplicatesOnly, filterScore, criterionFilter, showUnsavedOnly, showLowAgreementOnly, dataLength, setCurrentPage]);
 }
 
 export default useVerifierPaginationReset;
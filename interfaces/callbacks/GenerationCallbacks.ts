@@ -6,6 +6,7 @@ import { DeepConfig } from '../../types';
 export interface GenerationCallbacks {
     setError: (error: string | null) => void;
     setIsRunning: (running: boolean) => void;
+    setIsPaused: (paused: boolean) => void;
     setProgress: (progress: { current: number; total: number; activeWorkers: number } | ((prev: { current: number; total: number; activeWorkers: number }) => { current: number; total: number; activeWorkers: number })) => void;
     setSessionUid: (uid: string) => void;
     setSessionName: (name: string | null) => void;
@@ -21,6 +22,8 @@ export interface GenerationCallbacks {
     setDeepConfig: (config: DeepConfig) => void;
     refreshLogs: () => void;
     updateDbStats: () => void;
+    /** Follow a backend job in the job monitor (batch submission) */
+    trackJob?: (jobId: string, type: string) => void;
 
     // Streaming UI callbacks
     scheduleStreamingUpdate: () => void;
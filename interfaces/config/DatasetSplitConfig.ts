@@ -0,0 +1,21 @@
+import { SplitStratifyBy } from '../enums';
+
+export interface DatasetSplitConfig {
+  enabled: boolean;
+  /** Ratios are normalized by their sum, so 8/1/1 works as well as 0.8/0.1/0.1 */
+  train: number;
+  validation: number;
+  test: number;
+  /** Same seed and items always give the same assignment */
+  seed: number;
+  stratifyBy: SplitStratifyBy;
+}
+
+export const DEFAULT_DATASET_SPLIT_CONFIG: DatasetSplitConfig = {
+  enabled: false,
+  train: 0.8,
+  validation: 0.1,
+  test: 0.1,
+  seed: 42,
+  stratifyBy: SplitStratifyBy.None
+};
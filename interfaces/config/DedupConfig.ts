@@ -0,0 +1,40 @@
+import { DedupMethod, ExternalProvider } from '../enums';
+
+/** Relative weight of each field when combining per-field similarities. 0 disables the field. */
+export interface DedupFieldWeights {
+  query: number;
+  reasoning: number;
+  answer: number;
+}
+
+/** OpenAI-compatible `/embeddings` endpoint used by the embedding method. */
+export interface DedupEmbeddingConfig {
+  externalProvider: ExternalProvider;
+  apiKey: string;
+  model: string;
+  customBaseUrl: string;
+}
+
+export interface DedupConfig {
+  method: DedupMethod;
+  /** Weighted similarity (0-1) at or above which two items are grouped */
+  threshold: number;
+  fieldWeights: DedupFieldWeights;
+  /** Character n-gram size used for MinHash shingles */
+  shingleSize: number;
+  /** Number of hash permutations in each MinHash signature */
+  numHashes: number;
+  embedding?: DedupEmbeddingConfig;
+}
+
+export const DEFAULT_DEDUP_CONFIG: DedupConfig = {
+  method: DedupMethod.MinHash,
+  threshold: 0.8,
+  fieldWeights: {
+    query: 1,
+    reasoning: 0.5,
+    answer: 0.5
+  },
+  shingleSize: 5,
+  numHashes: 128
+};
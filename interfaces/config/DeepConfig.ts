@@ -1,4 +1,5 @@
 import { DeepPhaseConfig } from './DeepPhaseConfig';
+import { DeepPipelineGraph } from './DeepPipelineGraph';
 
 export interface DeepConfig {
   phases: {
@@ -7,5 +8,9 @@ export interface DeepConfig {
     derivation: DeepPhaseConfig;
     writer: DeepPhaseConfig;
     rewriter: DeepPhaseConfig;
+    /** Reviews the writer's trace and sends revision requests back to it (optional) */
+    critic: DeepPhaseConfig;
   };
+  /** User-defined agent graph; replaces the fixed phases when enabled */
+  graph?: DeepPipelineGraph;
 }
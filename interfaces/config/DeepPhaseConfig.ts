@@ -2,6 +2,8 @@ import { ProviderType, ExternalProvider, ApiType, DeepPhase } from '../enums';
 import { OutputFieldName } from '../enums/OutputFieldName';
 import { GenerationParams } from './GenerationParams';
 import { PromptSchema } from '../types/PromptSchema';
+import { TreeOfThoughtConfig } from './TreeOfThoughtConfig';
+import type { ModelFallback } from './ModelFallback';
 
 export interface DeepPhaseConfig {
   id: DeepPhase;
@@ -15,9 +17,15 @@ export interface DeepPhaseConfig {
   promptSchema?: PromptSchema;
   structuredOutput: boolean;
   generationParams?: GenerationParams;
+  /** Models tried in order when this phase's model keeps failing */
+  fallbacks?: ModelFallback[];
   systemPrompt?: string;
   /** Selected output fields for this phase (undefined = all fields) */
   selectedFields?: OutputFieldName[];
   /** When true, ignore schema and parse native model output */
   useNativeOutput?: boolean;
+  /** Critic phase only: most critique-and-revise rounds per item */
+  maxRounds?: number;
+  /** Derivation phase only: explore several solution branches and keep the best */
+  treeOfThought?: TreeOfThoughtConfig;
 }
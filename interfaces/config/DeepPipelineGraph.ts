@@ -0,0 +1,39 @@
+import { DeepPhaseConfig } from './DeepPhaseConfig';
+
+/** One agent in a DEEP pipeline graph. */
+export interface DeepPipelineNode {
+  /** Unique name, used by other nodes to reference this node's output */
+  id: string;
+  /** Model, prompt schema and params; `agent.id` picks the default prompt schema */
+  agent: DeepPhaseConfig;
+  /** Upstream node ids, plus `$seed` / `$expectedAnswer` for the row's inputs */
+  inputs: string[];
+  /** Appended to the composed input after the upstream reports */
+  instruction?: string;
+}
+
+/**
+ * Re-runs the nodes between `start` and `end` (inclusive) until `stopWhen` matches or
+ * `maxIterations` is reached. `start` may list `end` as an input: that back edge reads the
+ * previous iteration's output and is empty on the first pass.
+ */
+export interface DeepPipelineLoop {
+  start: string;
+  end: string;
+  maxIterations: number;
+  /** Stop once `field` of `node`'s output matches the regex `pattern` (case-insensitive) */
+  stopWhen?: { node: string; field: string; pattern: string };
+}
+
+export interface DeepPipelineGraph {
+  /** When false, the fixed meta/retrieval/derivation/writer/rewriter pipeline runs */
+  enabled: boolean;
+  nodes: DeepPipelineNode[];
+  loops?: DeepPipelineLoop[];
+  output: {
+    /** Node whose `reasoning` field becomes the row's reasoning */
+    reasoning: string;
+    /** Node whose answer becomes the row's answer; the expected answer is kept when unset */
+    answer?: string;
+  };
+}
@@ -0,0 +1,31 @@
+import { ExportFieldCondition, ExportReasoningStyle } from '../enums';
+
+/** One output key of an export template row. */
+export interface ExportTemplateField {
+  /** Output key; dots create nested objects (e.g. `meta.model`) */
+  target: string;
+  /**
+   * Item field path (`usage.total_tokens`, `messages.0.content`) or a computed value:
+   * `$prompt`, `$reasoning`, `$answer`, `$messages`
+   */
+  source?: string;
+  /** Literal constant written instead of a source value */
+  value?: string | number | boolean | null;
+  /** Defaults to always */
+  when?: ExportFieldCondition;
+}
+
+/** User-defined export mapping, saved in settings. */
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  fields: ExportTemplateField[];
+  /** Master switch for reasoning in `$reasoning`, `$answer` and `$messages` */
+  includeReasoning: boolean;
+  /** Think: inline a <think> block in answers; Field: keep reasoning separate */
+  reasoningStyle: ExportReasoningStyle;
+  /** Role renames for `$messages`, e.g. { "user": "human", "assistant": "gpt" } */
+  roleMap?: Record<string, string>;
+  /** Key names of `$messages` entries; reasoning is only written in Field style */
+  messageKeys?: { role?: string; content?: string; reasoning?: string };
+}
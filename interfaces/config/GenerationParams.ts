@@ -1,4 +1,5 @@
 import { OutputFieldName } from '../enums/OutputFieldName';
+import type { SelfConsistencyConfig } from './SelfConsistencyConfig';
 
 export interface GenerationParams {
   temperature?: number;
@@ -14,4 +15,6 @@ export interface GenerationParams {
   useNativeOutput?: boolean;
   /** When true, split generation into separate sequential plain-text requests per field */
   splitFieldRequests?: boolean;
+  /** Sample several traces per seed and vote on the final answer (regular mode, external providers) */
+  selfConsistency?: SelfConsistencyConfig;
 }
@@ -0,0 +1,24 @@
+import { GroundTruthVerifierType } from '../enums/GroundTruthVerifierType';
+
+export type CodeTestLanguage = 'python' | 'javascript';
+
+/** Checks generated answers against the dataset's reference answer during generation. */
+export interface GroundTruthConfig {
+  enabled: boolean;
+  verifier: GroundTruthVerifierType;
+  /** Mark items that fail verification as discarded so they drop out of exports */
+  rejectFailures: boolean;
+  /** Dataset column holding unit tests for code items */
+  codeTestsColumn?: string;
+  codeLanguage: CodeTestLanguage;
+  codeTimeoutMs: number;
+}
+
+export const DEFAULT_GROUND_TRUTH_CONFIG: GroundTruthConfig = {
+  enabled: false,
+  verifier: GroundTruthVerifierType.Auto,
+  rejectFailures: false,
+  codeTestsColumn: '',
+  codeLanguage: 'python',
+  codeTimeoutMs: 10000
+};
@@ -0,0 +1,13 @@
+import { ApiType, ExternalProvider } from '../enums';
+
+/**
+ * A model tried when the ones before it in a chain keep failing (errors after retries,
+ * timeouts or content-filter refusals). API keys come from settings by provider.
+ */
+export interface ModelFallback {
+  provider: ExternalProvider;
+  model: string;
+  apiType?: ApiType;
+  /** Base URL for the custom endpoint provider; empty uses the one from settings */
+  customBaseUrl?: string;
+}
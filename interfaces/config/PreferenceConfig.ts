@@ -0,0 +1,28 @@
+import { ExternalProvider, ProviderType } from '../enums';
+
+/** One way of producing a candidate response: model, temperature and prompt set. */
+export interface PreferenceVariant {
+  provider: ProviderType;
+  externalProvider: ExternalProvider;
+  model: string;
+  /** Overrides the default generation temperature when set */
+  temperature?: number;
+  /** Generator prompt set; the app's active set when empty */
+  promptSet?: string;
+}
+
+export interface PreferenceConfig {
+  variants: PreferenceVariant[];
+  /** Keep the item's current answer as one of the candidates */
+  includeExistingAnswer: boolean;
+  /** Ask the autoscore model to pick chosen/rejected once candidates exist */
+  autoJudge: boolean;
+  concurrency: number;
+}
+
+export const DEFAULT_PREFERENCE_CONFIG: PreferenceConfig = {
+  variants: [],
+  includeExistingAnswer: true,
+  autoJudge: false,
+  concurrency: 2
+};
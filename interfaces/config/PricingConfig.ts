@@ -0,0 +1,57 @@
+import { ExternalProvider } from '../enums';
+
+/** Price of a model in USD per million tokens. */
+export interface ModelPrice {
+  provider: ExternalProvider;
+  /** Model id; a trailing `*` matches by prefix and `*` alone matches every model of the provider */
+  model: string;
+  inputPerMTok: number;
+  outputPerMTok: number;
+  /** Price of reasoning tokens; empty uses the output price */
+  reasoningPerMTok?: number;
+}
+
+/** Hard spending limits in USD; 0 disables a limit. */
+export interface BudgetConfig {
+  /** Spend of a session across runs; generation pauses when it is reached */
+  sessionBudgetUsd: number;
+  /** Spend of one backend job; the job is aborted when it is reached */
+  jobBudgetUsd: number;
+  /** Warn once spend passes this share of a budget (0-1) */
+  warnAt: number;
+}
+
+export const DEFAULT_BUDGET_CONFIG: BudgetConfig = {
+  sessionBudgetUsd: 0,
+  jobBudgetUsd: 0,
+  warnAt: 0.8
+};
+
+/**
+ * List prices for common models of the built-in providers. Prices change often, so entries in
+ * settings take precedence over these.
+ */
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { provider: ExternalProvider.OpenAI, model: 'gpt-5*', inputPerMTok: 1.25, outputPerMTok: 10 },
+  { provider: ExternalProvider.OpenAI, model: 'gpt-5-mini*', inputPerMTok: 0.25, outputPerMTok: 2 },
+  { provider: ExternalProvider.OpenAI, model: 'gpt-5-nano*', inputPerMTok: 0.05, outputPerMTok: 0.4 },
+  { provider: ExternalProvider.OpenAI, model: 'gpt-4.1*', inputPerMTok: 2, outputPerMTok: 8 },
+  { provider: ExternalProvider.OpenAI, model: 'gpt-4.1-mini*', inputPerMTok: 0.4, outputPerMTok: 1.6 },
+  { provider: ExternalProvider.OpenAI, model: 'gpt-4.1-nano*', inputPerMTok: 0.1, outputPerMTok: 0.4 },
+  { provider: ExternalProvider.OpenAI, model: 'gpt-4o*', inputPerMTok: 2.5, outputPerMTok: 10 },
+  { provider: ExternalProvider.OpenAI, model: 'gpt-4o-mini*', inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  { provider: ExternalProvider.OpenAI, model: 'o3*', inputPerMTok: 2, outputPerMTok: 8 },
+  { provider: ExternalProvider.OpenAI, model: 'o4-mini*', inputPerMTok: 1.1, outputPerMTok: 4.4 },
+  { provider: ExternalProvider.Anthropic, model: 'claude-opus-4*', inputPerMTok: 15, outputPerMTok: 75 },
+  { provider: ExternalProvider.Anthropic, model: 'claude-sonnet-4*', inputPerMTok: 3, outputPerMTok: 15 },
+  { provider: ExternalProvider.Anthropic, model: 'claude-3-7-sonnet*', inputPerMTok: 3, outputPerMTok: 15 },
+  { provider: ExternalProvider.Anthropic, model: 'claude-3-5-haiku*', inputPerMTok: 0.8, outputPerMTok: 4 },
+  { provider: ExternalProvider.Gemini, model: 'gemini-2.5-pro*', inputPerMTok: 1.25, outputPerMTok: 10 },
+  { provider: ExternalProvider.Gemini, model: 'gemini-2.5-flash*', inputPerMTok: 0.3, outputPerMTok: 2.5 },
+  { provider: ExternalProvider.Gemini, model: 'gemini-2.5-flash-lite*', inputPerMTok: 0.1, outputPerMTok: 0.4 },
+  { provider: ExternalProvider.Groq, model: 'llama-3.3-70b*', inputPerMTok: 0.59, outputPerMTok: 0.79 },
+  { provider: ExternalProvider.Groq, model: 'llama-3.1-8b*', inputPerMTok: 0.05, outputPerMTok: 0.08 },
+  { provider: ExternalProvider.Groq, model: 'openai/gpt-oss-120b', inputPerMTok: 0.15, outputPerMTok: 0.75 },
+  { provider: ExternalProvider.Cerebras, model: 'gpt-oss-120b', inputPerMTok: 0.25, outputPerMTok: 0.69 },
+  { provider: ExternalProvider.Ollama, model: '*', inputPerMTok: 0, outputPerMTok: 0 }
+];
@@ -0,0 +1,26 @@
+import { ExternalProvider } from '../enums';
+
+/** Request and token budgets for one provider, or one model of a provider. */
+export interface RateLimitRule {
+  provider: ExternalProvider;
+  /** Empty applies to every model of the provider without a rule of its own */
+  model: string;
+  /** Requests per minute; 0 = unlimited */
+  rpm: number;
+  /** Tokens per minute (prompt + completion); 0 = unlimited */
+  tpm: number;
+}
+
+/** Per-provider rate limiting shared by browser generation and backend jobs. */
+export interface RateLimitConfig {
+  enabled: boolean;
+  rules: RateLimitRule[];
+  /** Take budgets from the backend scheduler so generation runs and jobs draw from the same buckets */
+  shareWithBackend: boolean;
+}
+
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  enabled: false,
+  rules: [],
+  shareWithBackend: true
+};
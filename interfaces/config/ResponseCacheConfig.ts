@@ -0,0 +1,17 @@
+/**
+ * Content-addressed cache of model responses, shared by a browser's runs and mirrored by the backend for jobs.
+ * Off by default: a cached answer replaces a new sample, which is only wanted when re-running the same work.
+ */
+export interface ResponseCacheConfig {
+  enabled: boolean;
+  /** How long a cached response is reused, in hours; 0 keeps it until the cache is cleared */
+  ttlHours: number;
+  /** Skip cache reads for the next runs and jobs; their fresh responses still replace cached ones */
+  bypass: boolean;
+}
+
+export const DEFAULT_RESPONSE_CACHE_CONFIG: ResponseCacheConfig = {
+  enabled: false,
+  ttlHours: 24,
+  bypass: false
+};
@@ -0,0 +1,42 @@
+/** A named criterion the judge scores on a 1-5 scale. */
+export interface RubricCriterion {
+  /** Key used in the judge's JSON response and persisted on the log */
+  id: string;
+  name: string;
+  description: string;
+  /** Relative weight in the overall score. 0 records the criterion without counting it. */
+  weight: number;
+}
+
+/** Verifier filter: items whose score for `criterion` is at least `minScore`. */
+export interface RubricCriterionFilter {
+  criterion: string;
+  minScore: number;
+}
+
+export const DEFAULT_RUBRIC_CRITERIA: RubricCriterion[] = [
+  {
+    id: 'correctness',
+    name: 'Correctness',
+    description: 'The final answer is factually and logically correct for the query.',
+    weight: 2
+  },
+  {
+    id: 'reasoning_faithfulness',
+    name: 'Reasoning Faithfulness',
+    description: 'The reasoning trace actually supports the answer, without skipped steps or contradictions.',
+    weight: 1.5
+  },
+  {
+    id: 'format_compliance',
+    name: 'Format Compliance',
+    description: 'The answer follows any format, length or style constraints stated in the query.',
+    weight: 1
+  },
+  {
+    id: 'clarity',
+    name: 'Clarity',
+    description: 'Reasoning and answer are well organized and easy to follow.',
+    weight: 0.5
+  }
+];
@@ -0,0 +1,37 @@
+import { ExternalProvider } from '../enums';
+import { EvolOperator } from '../enums/EvolOperator';
+
+/** Evol-Instruct stage that rewrites seeds with mutation operators before generation. */
+export interface SeedEvolutionConfig {
+  enabled: boolean;
+  /** Operators to sample from, one per round */
+  operators: EvolOperator[];
+  /** Evolutions applied in sequence to each seed */
+  rounds: number;
+  /** Evolver model; empty uses the generation model */
+  provider?: ExternalProvider;
+  model?: string;
+}
+
+/** Where an evolved seed came from, recorded on the generated item */
+export interface SeedLineage {
+  /** Id of the seed the item was generated from */
+  seedId: string;
+  /** Id of the original seed the evolution started from */
+  parentSeedId: string;
+  parentSeed: string;
+  /** Operators applied, in order */
+  operators: EvolOperator[];
+}
+
+export const DEFAULT_SEED_EVOLUTION_CONFIG: SeedEvolutionConfig = {
+  enabled: false,
+  operators: [
+    EvolOperator.AddConstraints,
+    EvolOperator.Deepen,
+    EvolOperator.Concretize,
+    EvolOperator.IncreaseReasoning,
+    EvolOperator.Breadth
+  ],
+  rounds: 1
+};
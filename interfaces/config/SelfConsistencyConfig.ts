@@ -0,0 +1,18 @@
+import { SelfConsistencyKeep } from '../enums/SelfConsistencyKeep';
+
+/** Sample several reasoning traces per seed and keep the majority answer. */
+export interface SelfConsistencyConfig {
+  enabled: boolean;
+  /** Independent traces sampled per seed */
+  samples: number;
+  /** Width of the temperature range the samples are spread across, centred on the base temperature */
+  temperatureSpread: number;
+  keep: SelfConsistencyKeep;
+}
+
+export const DEFAULT_SELF_CONSISTENCY_CONFIG: SelfConsistencyConfig = {
+  enabled: false,
+  samples: 5,
+  temperatureSpread: 0.4,
+  keep: SelfConsistencyKeep.Agreeing
+};
@@ -0,0 +1,56 @@
+/** A node of a seed taxonomy; leaves are the units quotas are counted against. */
+export interface TaxonomyNode {
+  name: string;
+  description?: string;
+  /** Target item count; only read on leaves */
+  quota?: number;
+  children?: TaxonomyNode[];
+}
+
+/** Hierarchical topic plan for synthetic seeds (e.g. domain → subdomain → skill → difficulty). */
+export interface TaxonomyConfig {
+  enabled: boolean;
+  name: string;
+  /** Level names, top-down, used to describe a leaf to the seed generator */
+  levels: string[];
+  nodes: TaxonomyNode[];
+  /** Quota for leaves that do not set one */
+  defaultQuota: number;
+}
+
+export const DEFAULT_TAXONOMY_CONFIG: TaxonomyConfig = {
+  enabled: false,
+  name: 'Example',
+  levels: ['domain', 'subdomain', 'skill', 'difficulty'],
+  defaultQuota: 5,
+  nodes: [
+    {
+      name: 'Mathematics',
+      children: [
+        {
+          name: 'Probability',
+          children: [
+            {
+              name: 'Conditional probability',
+              children: [{ name: 'easy' }, { name: 'hard', quota: 10 }]
+            }
+          ]
+        }
+      ]
+    },
+    {
+      name: 'Computer Science',
+      children: [
+        {
+          name: 'Algorithms',
+          children: [
+            {
+              name: 'Dynamic programming',
+              children: [{ name: 'easy' }, { name: 'hard', quota: 10 }]
+            }
+          ]
+        }
+      ]
+    }
+  ]
+};
@@ -0,0 +1,53 @@
+import { ExternalProvider } from '../enums';
+import { ToolSimulatorMode } from '../enums/ToolSimulatorMode';
+
+/** A tool declared to the model, in OpenAI function-calling format */
+export interface DeclaredTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
+}
+
+/** Generator mode that produces agentic traces against a declared tool schema. */
+export interface ToolUseConfig {
+  enabled: boolean;
+  tools: DeclaredTool[];
+  simulator: ToolSimulatorMode;
+  /** Canned results by tool name for the mock simulator */
+  mockResults: Record<string, unknown>;
+  /** Environment model for the model simulator; empty uses the generation model */
+  environmentProvider?: ExternalProvider;
+  environmentModel?: string;
+  /** Assistant turns allowed before the trace must end with a final answer */
+  maxSteps: number;
+}
+
+export const DEFAULT_TOOL_USE_CONFIG: ToolUseConfig = {
+  enabled: false,
+  tools: [
+    {
+      type: 'function',
+      function: {
+        name: 'get_weather',
+        description: 'Get the current weather for a city',
+        parameters: {
+          type: 'object',
+          properties: {
+            city: { type: 'string', description: 'City name' },
+            unit: { type: 'string', enum: ['celsius', 'fahrenheit'] }
+          },
+          required: ['city']
+        }
+      }
+    }
+  ],
+  simulator: ToolSimulatorMode.Model,
+  mockResults: {
+    get_weather: { city: '{{city}}', temperature: 21, condition: 'partly cloudy' }
+  },
+  environmentModel: '',
+  maxSteps: 6
+};
@@ -0,0 +1,14 @@
+/** Branching derivation: propose several solution paths, expand each, let a judge pick one. */
+export interface TreeOfThoughtConfig {
+  enabled: boolean;
+  /** Candidate branches proposed per seed */
+  branches: number;
+  /** Hand pruned branches to the writer so they appear in the trace as dead ends with ↺ backtracking */
+  includePruned: boolean;
+}
+
+export const DEFAULT_TREE_OF_THOUGHT_CONFIG: TreeOfThoughtConfig = {
+  enabled: false,
+  branches: 3,
+  includePruned: true
+};
@@ -1,6 +1,7 @@
 import { ProviderType, ExternalProvider, ApiType, ResponderPhase } from '../enums';
 import { GenerationParams } from './GenerationParams';
 import { PromptSchema } from '../types/PromptSchema';
+import type { UserPersona } from './UserPersona';
 
 export interface UserAgentConfig {
   enabled: boolean;
@@ -16,4 +17,7 @@ export interface UserAgentConfig {
   promptSchema?: PromptSchema;
   structuredOutput: boolean;
   generationParams?: GenerationParams;
+  /** Sample a persona from `personas` for each conversation */
+  usePersonas?: boolean;
+  personas?: UserPersona[];
 }
@@ -0,0 +1,66 @@
+import { PersonaExpertise } from '../enums/PersonaExpertise';
+
+/** A simulated user the multi-turn user agent can play. */
+export interface UserPersona {
+  /** Key recorded on generated items */
+  id: string;
+  name: string;
+  expertise: PersonaExpertise;
+  tone: string;
+  goals: string;
+  /** How the user pushes back, misleads or derails; empty for a cooperative user */
+  adversarial?: string;
+  /** Language the user writes follow-ups in */
+  language: string;
+  /** Relative sampling weight. 0 keeps the persona in the library without using it. */
+  weight: number;
+}
+
+export const DEFAULT_USER_PERSONAS: UserPersona[] = [
+  {
+    id: 'curious_student',
+    name: 'Curious Student',
+    expertise: PersonaExpertise.Novice,
+    tone: 'Informal and eager, sometimes unsure how to phrase things',
+    goals: 'Understand the idea well enough to explain it to a classmate; asks for simpler explanations and examples',
+    language: 'English',
+    weight: 2
+  },
+  {
+    id: 'busy_practitioner',
+    name: 'Busy Practitioner',
+    expertise: PersonaExpertise.Intermediate,
+    tone: 'Terse and direct, no pleasantries',
+    goals: 'Apply the answer to a concrete problem at work; asks about edge cases, cost and what to do next',
+    language: 'English',
+    weight: 2
+  },
+  {
+    id: 'domain_expert',
+    name: 'Skeptical Expert',
+    expertise: PersonaExpertise.Expert,
+    tone: 'Precise and technical',
+    goals: 'Probe the rigor of the reasoning; asks for justification, sources and the limits of the claim',
+    language: 'English',
+    weight: 1
+  },
+  {
+    id: 'contrarian',
+    name: 'Contrarian',
+    expertise: PersonaExpertise.Intermediate,
+    tone: 'Confident and a little dismissive',
+    goals: 'Test whether the assistant holds its position when it is right',
+    adversarial: 'Insists on a plausible but wrong alternative answer and cites a misremembered fact to support it',
+    language: 'English',
+    weight: 1
+  },
+  {
+    id: 'non_native_learner',
+    name: 'Spanish-Speaking Learner',
+    expertise: PersonaExpertise.Novice,
+    tone: 'Polite and careful',
+    goals: 'Follow the explanation step by step; asks to restate terms in plain words',
+    language: 'Spanish',
+    weight: 1
+  }
+];
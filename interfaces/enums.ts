@@ -118,3 +118,45 @@ export { SessionVerificationStatus } from './enums/SessionVerificationStatus';
 export { VerifierDataSource } from './enums/VerifierDataSource';
 export { BackendApplyStatus } from './enums/BackendApplyStatus';
 export { DbProvider } from './enums/DbProvider';
+
+// Duplicate detection method enum
+export { DedupMethod } from './enums/DedupMethod';
+
+// Autoscore mode enum
+export { AutoscoreMode } from './enums/AutoscoreMode';
+
+// Multi-judge score aggregation enum
+export { JudgeAggregation } from './enums/JudgeAggregation';
+
+// Preference pair source enum
+export { PreferenceSource } from './enums/PreferenceSource';
+
+// Fine-tuning export preset enum
+export { ExportPreset } from './enums/ExportPreset';
+
+// Export template field condition enum
+export { ExportFieldCondition } from './enums/ExportFieldCondition';
+
+// Export template reasoning style enum
+export { ExportReasoningStyle } from './enums/ExportReasoningStyle';
+
+// Dataset split stratification enum
+export { SplitStratifyBy } from './enums/SplitStratifyBy';
+
+// Self-consistency trace retention enum
+export { SelfConsistencyKeep } from './enums/SelfConsistencyKeep';
+
+// Ground-truth answer verifier enum
+export { GroundTruthVerifierType } from './enums/GroundTruthVerifierType';
+
+// Ground-truth verification status enum
+export { GroundTruthStatus } from './enums/GroundTruthStatus';
+
+// Tool-use trace result simulator enum
+export { ToolSimulatorMode } from './enums/ToolSimulatorMode';
+
+// Simulated user persona expertise enum
+export { PersonaExpertise } from './enums/PersonaExpertise';
+
+// Evol-Instruct seed mutation operator enum
+export { EvolOperator } from './enums/EvolOperator';
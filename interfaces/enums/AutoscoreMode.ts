@@ -0,0 +1,4 @@
+export enum AutoscoreMode {
+  Single = 'single',
+  Rubric = 'rubric'
+}
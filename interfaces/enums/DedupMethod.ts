@@ -0,0 +1,5 @@
+export enum DedupMethod {
+  Exact = 'exact',
+  MinHash = 'minhash',
+  Embedding = 'embedding'
+}
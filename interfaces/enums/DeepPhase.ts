@@ -4,6 +4,7 @@ export enum DeepPhase {
   Derivation = 'derivation',
   Writer = 'writer',
   Rewriter = 'rewriter',
+  Critic = 'critic',
   Responder = 'responder',
   UserAgent = 'userAgent'
 }
@@ -0,0 +1,12 @@
+export enum EvolOperator {
+  /** In-depth: add one more constraint or requirement */
+  AddConstraints = 'add_constraints',
+  /** In-depth: widen the depth and breadth of the questions asked */
+  Deepen = 'deepen',
+  /** In-depth: replace general concepts with more specific ones */
+  Concretize = 'concretize',
+  /** In-depth: require explicit multi-step reasoning */
+  IncreaseReasoning = 'increase_reasoning',
+  /** In-breadth: a new, rarer prompt in the same domain */
+  Breadth = 'breadth'
+}
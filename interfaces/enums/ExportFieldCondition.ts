@@ -0,0 +1,5 @@
+export enum ExportFieldCondition {
+  Always = 'always',
+  HasValue = 'has_value',
+  Reasoning = 'reasoning'
+}
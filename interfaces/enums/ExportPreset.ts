@@ -0,0 +1,10 @@
+export enum ExportPreset {
+  Columns = 'columns',
+  OpenAIChat = 'openai_chat',
+  OpenAITools = 'openai_tools',
+  ShareGPT = 'sharegpt',
+  Alpaca = 'alpaca',
+  ChatMLText = 'chatml_text',
+  Conversational = 'conversational',
+  Template = 'template'
+}
@@ -0,0 +1,4 @@
+export enum ExportReasoningStyle {
+  Think = 'think',
+  Field = 'field'
+}
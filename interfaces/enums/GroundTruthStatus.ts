@@ -0,0 +1,6 @@
+export enum GroundTruthStatus {
+  Pass = 'pass',
+  Fail = 'fail',
+  /** The check could not run (no reference, runner unavailable, ...) */
+  Error = 'error'
+}
@@ -0,0 +1,7 @@
+export enum GroundTruthVerifierType {
+  /** Pick per item: MCQ when options are configured, code when tests exist, math otherwise */
+  Auto = 'auto',
+  Math = 'math',
+  Mcq = 'mcq',
+  Code = 'code'
+}
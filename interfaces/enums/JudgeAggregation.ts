@@ -0,0 +1,5 @@
+export enum JudgeAggregation {
+  Mean = 'mean',
+  Median = 'median',
+  Majority = 'majority'
+}
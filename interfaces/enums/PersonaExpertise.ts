@@ -0,0 +1,5 @@
+export enum PersonaExpertise {
+  Novice = 'novice',
+  Intermediate = 'intermediate',
+  Expert = 'expert'
+}
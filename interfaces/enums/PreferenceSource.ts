@@ -0,0 +1,4 @@
+export enum PreferenceSource {
+  Judge = 'judge',
+  Human = 'human'
+}
@@ -6,10 +6,16 @@ export enum PromptRole {
   Derivation = 'derivation',
   Responder = 'responder',
   UserAgent = 'user_agent',
+  BranchProposer = 'branch_proposer',
+  BranchJudge = 'branch_judge',
+  ToolAgent = 'tool_agent',
+  ToolEnvironment = 'tool_environment',
+  SeedEvolver = 'seed_evolver',
   
   // Converter roles
   Writer = 'writer',
   Rewriter = 'rewriter',
+  Critic = 'critic',
   
   // Verifier roles
   QueryRewrite = 'query_rewrite',
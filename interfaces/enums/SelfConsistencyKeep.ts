@@ -0,0 +1,6 @@
+export enum SelfConsistencyKeep {
+  /** Keep only the traces whose answer matches the majority */
+  Agreeing = 'agreeing',
+  /** Keep every trace, labelled with whether it agrees */
+  All = 'all'
+}
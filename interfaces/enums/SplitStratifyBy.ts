@@ -0,0 +1,6 @@
+export enum SplitStratifyBy {
+  None = 'none',
+  Score = 'score',
+  TaskType = 'task_type',
+  Tag = 'tag'
+}
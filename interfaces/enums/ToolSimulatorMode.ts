@@ -0,0 +1,6 @@
+export enum ToolSimulatorMode {
+  /** An environment model invents plausible tool results */
+  Model = 'model',
+  /** Canned results from the config, with {{arg}} placeholders filled in */
+  Mock = 'mock'
+}
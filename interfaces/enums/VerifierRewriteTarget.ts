@@ -6,5 +6,6 @@ export enum VerifierRewriteTarget {
   MessageReasoning = 'message_reasoning',
   MessageAnswer = 'message',
   MessageBoth = 'message_both',
-  MessageQuery = 'message_query'
+  MessageQuery = 'message_query',
+  MessageAlternative = 'message_alternative'
 }
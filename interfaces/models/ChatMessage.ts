@@ -12,6 +12,17 @@ export interface ChatMessage {
   usage?: ChatUsageSummary;
   /** Epoch ms when this message was created — used for ordering on reload */
   createdAt?: number;
+  /** Model that wrote this turn, when it differs from the item's model */
+  modelUsed?: string;
+  /** Other responses at this turn; `messages` continues with the canonical one */
+  alternatives?: ChatMessageBranch[];
+}
+
+export interface ChatMessageBranch {
+  id: string;
+  /** The alternative turn followed by the conversation that continued from it */
+  messages: ChatMessage[];
+  createdAt: number;
 }
 
 export interface ChatUsageSummary {
@@ -0,0 +1,13 @@
+import { GroundTruthStatus, GroundTruthVerifierType } from '../enums';
+
+/** Outcome of checking an item's answer against its reference. */
+export interface GroundTruthResult {
+  verifier: GroundTruthVerifierType;
+  status: GroundTruthStatus;
+  /** Reference the answer was checked against */
+  expected: string;
+  /** What was extracted from the generated answer (normalized answer, choice letter, ...) */
+  actual?: string;
+  /** Failure or error explanation, e.g. test output */
+  detail?: string;
+}
@@ -0,0 +1,11 @@
+/** A candidate response to an item's prompt, compared when building preference pairs. */
+export interface PreferenceCandidate {
+  id: string;
+  answer: string;
+  reasoning?: string;
+  modelUsed: string;
+  temperature?: number;
+  promptSet?: string;
+  /** True for the item's own answer kept as a candidate */
+  isOriginal?: boolean;
+}
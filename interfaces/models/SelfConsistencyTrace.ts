@@ -0,0 +1,9 @@
+/** One sampled trace from self-consistency generation. */
+export interface SelfConsistencyTrace {
+  reasoning: string;
+  answer: string;
+  /** Answer after normalization, the key it was voted under */
+  normalizedAnswer: string;
+  temperature?: number;
+  agreesWithMajority: boolean;
+}
@@ -1,6 +1,13 @@
-import { LogItemStatus } from '../enums';
+import { LogItemStatus, PreferenceSource } from '../enums';
 import { ChatMessage } from './ChatMessage';
 import type { ReplayConfig } from '../types/ReplayConfig';
+import type { PreferenceCandidate } from './PreferenceCandidate';
+import type { SelfConsistencyTrace } from './SelfConsistencyTrace';
+import type { GroundTruthResult } from './GroundTruthResult';
+import type { DeclaredTool } from '../config/ToolUseConfig';
+import type { SeedLineage } from '../config/SeedEvolutionConfig';
+import type { UserPersona } from '../config/UserPersona';
+import type { UsageData } from '../../types';
 
 export interface SynthLogItem {
   id: string;
@@ -23,7 +30,10 @@ export interface SynthLogItem {
     completion_tokens: number;
     total_tokens: number;
     reasoning_tokens?: number;
+    cost?: number;
   };
+  /** Estimated spend in USD from the model price table; for DEEP items the sum of the phases */
+  cost?: number;
   modelUsed: string;
   isError?: boolean;
   status?: LogItemStatus;
@@ -32,12 +42,23 @@ export interface SynthLogItem {
   messages?: ChatMessage[];
   isMultiTurn?: boolean;
   messagesTruncated?: boolean;
+  /** Tools declared to the model when the trace was generated in tool-use mode */
+  tools?: DeclaredTool[];
+  /** Persona the simulated user played in a multi-turn conversation */
+  persona?: UserPersona;
+  /** Taxonomy leaf (top-down names) the synthetic seed was generated for */
+  taxonomyPath?: string[];
+  /** Parent seed and Evol-Instruct operators when the seed was evolved */
+  seedLineage?: SeedLineage;
+  /** Backend batch job whose provider batch produced the item */
+  batchJobId?: string;
   deepMetadata?: {
     meta: string;
     retrieval: string;
     derivation: string;
     writer: string;
     rewriter?: string;
+    critic?: string;
   };
   deepTrace?: Record<string, {
     model: string;
@@ -45,12 +66,29 @@ export interface SynthLogItem {
     output: any;
     timestamp: string;
     duration: number;
+    usage?: UsageData;
   }>;
   storageError?: string;
   savedToDb?: boolean;
   score?: number;
+  /** Per-criterion 1-5 scores from rubric autoscoring, keyed by criterion id */
+  rubricScores?: Record<string, number>;
+  rubricRationale?: string;
+  /** Per-judge 1-5 scores from ensemble autoscoring, keyed by judge label (provider/model) */
+  judgeScores?: Record<string, number>;
+  /** Inter-judge agreement from 0 (maximal disagreement) to 1 (unanimous) */
+  judgeAgreement?: number;
+  /** Self-consistency votes per normalized final answer */
+  voteTally?: Record<string, number>;
+  /** Share of sampled traces agreeing with the majority answer, 0-1 */
+  voteAgreement?: number;
+  /** Sampled traces kept by self-consistency voting */
+  voteTraces?: SelfConsistencyTrace[];
+  /** Check of the answer against the dataset's reference answer */
+  groundTruth?: GroundTruthResult;
   isDuplicate?: boolean;
   duplicateGroupId?: string;
+  duplicateSimilarity?: number;
   isDiscarded?: boolean;
   verifiedTimestamp?: string;
   replayAnswer?: string;
@@ -60,4 +98,10 @@ export interface SynthLogItem {
   replayError?: string;
   replayDuration?: number;
   replayConfig?: ReplayConfig;
+  /** Candidate responses for preference (DPO) pairs */
+  candidates?: PreferenceCandidate[];
+  chosenCandidateId?: string;
+  rejectedCandidateId?: string;
+  preferenceSource?: PreferenceSource;
+  preferenceRationale?: string;
 }
@@ -4,6 +4,7 @@ export interface VerifierItem extends SynthLogItem {
   score: number;
   isDuplicate?: boolean;
   duplicateGroupId?: string;
+  duplicateSimilarity?: number;
   isDiscarded?: boolean;
   verifiedTimestamp?: string;
   _doc?: any;
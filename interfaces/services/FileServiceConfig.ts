@@ -5,7 +5,7 @@
  */
 
 import { CreatorMode } from '../enums';
-import { DetectedColumns } from '../../types';
+import { DetectedColumns, ExportTemplate } from '../../types';
 import { ConfirmVariant } from '../../services/confirmService';
 
 /**
@@ -129,9 +129,11 @@ export interface ExportJsonlConfig {
     };
     /** Log storage service for iterating logs */
     logStorageService: {
-        iterateLogs: (sessionUid: string, callback: (log: any) => Promise<void>) => Promise<void>;
+        iterateLogs: (sessionUid: string, callback: (log: any) => Promise<void>) => Promise<unknown>;
         getAllLogs: (sessionUid: string) => Promise<any[]>;
     };
+    /** Optional export template each log is mapped through */
+    template?: ExportTemplate;
 }
 
 /**
@@ -1,4 +1,10 @@
+import type { SeedLineage } from '../config/SeedEvolutionConfig';
+
 export interface WorkItem {
     content: string;
     row?: any;
+    /** Taxonomy leaf the seed was generated for */
+    taxonomyPath?: string[];
+    /** Set when the content is an evolved seed */
+    seedLineage?: SeedLineage;
 }
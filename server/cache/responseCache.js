@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+
+// Content-addressed cache of model responses for backend jobs. Entries are keyed by a hash of
+// everything that shapes the answer (provider, endpoint, model, prompts, generation params),
+// so rerunning or resuming a job does not pay again for calls it already made. Entries live in
+// this process's memory and are lost when the server restarts.
+
+const DEFAULT_TTL_MS = Number(process.env.RESPONSE_CACHE_TTL_MS || 24 * 60 * 60 * 1000);
+const MAX_ENTRIES = Number(process.env.RESPONSE_CACHE_MAX_ENTRIES || 5000);
+
+let cache = new Map();
+let stats = { hits: 0, misses: 0, writes: 0, bypassed: 0, savedTokens: 0 };
+
+const isExpired = (entry) => !entry || (entry.expiresAt > 0 && entry.expiresAt <= Date.now());
+
+const tokensOf = (usage) => {
+    if (!usage) return 0;
+    if (typeof usage.total_tokens === 'number') return usage.total_tokens;
+    return (usage.prompt_tokens || usage.input_tokens || 0) + (usage.completion_tokens || usage.output_tokens || 0);
+};
+
+export const toResponseCacheKey = (parts) =>
+    crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+
+/** Cached { content, usage, provider, model } for the key, or null (counted as a miss) */
+export const getCachedResponse = (key) => {
+    const entry = cache.get(key);
+    if (isExpired(entry)) {
+        cache.delete(key);
+        stats.misses++;
+        return null;
+    }
+    // Re-insert so eviction drops the least recently used entry first
+    cache.delete(key);
+    cache.set(key, entry);
+    stats.hits++;
+    stats.savedTokens += tokensOf(entry.value.usage);
+    return entry.value;
+};
+
+/** Store a response; ttlMs of 0 keeps it until evicted or cleared */
+export const setCachedResponse = (key, value, ttlMs = DEFAULT_TTL_MS) => {
+    cache.delete(key);
+    cache.set(key, {
+        value,
+        expiresAt: ttlMs > 0 ? Date.now() + ttlMs : 0
+    });
+    stats.writes++;
+    while (cache.size > MAX_ENTRIES) {
+        cache.delete(cache.keys().next().value);
+    }
+};
+
+/** A call that skipped the cache read because its run bypasses the cache */
+export const recordCacheBypass = () => {
+    stats.bypassed++;
+};
+
+export const getResponseCacheStats = () => {
+    for (const [key, entry] of cache.entries()) {
+        if (isExpired(entry)) cache.delete(key);
+    }
+    return {
+        ...stats,
+        entries: cache.size,
+        maxEntries: MAX_ENTRIES,
+        defaultTtlMs: DEFAULT_TTL_MS
+    };
+};
+
+export const clearResponseCache = () => {
+    cache.clear();
+    stats = { hits: 0, misses: 0, writes: 0, bypassed: 0, savedTokens: 0 };
+};
+
+/** Suffix for a job's config trace line when its run does not read from the cache */
+export const describeCacheParams = (params) => {
+    if (!params?.enabled) return ', cache=off';
+    if (params?.bypass) return ', cache=bypass';
+    return '';
+};
@@ -0,0 +1,32 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearResponseCache, describeCacheParams, getCachedResponse, setCachedResponse, toResponseCacheKey } from './responseCache.js';
+
+const parts = { provider: 'openai', baseUrl: 'https://api.openai.com/v1', model: 'gpt-test', systemPrompt: 's', userPrompt: 'u', temperature: 0.3 };
+
+describe('response cache', () => {
+    beforeEach(() => {
+        clearResponseCache();
+    });
+
+    it('keys calls by what shapes the answer', () => {
+        expect(toResponseCacheKey(parts)).toBe(toResponseCacheKey({ ...parts }));
+        expect(toResponseCacheKey({ ...parts, temperature: 0.7 })).not.toBe(toResponseCacheKey(parts));
+        expect(toResponseCacheKey({ ...parts, userPrompt: 'other' })).not.toBe(toResponseCacheKey(parts));
+    });
+
+    it('drops expired entries and keeps those with no ttl', () => {
+        vi.useFakeTimers();
+        setCachedResponse('short', { content: 'a' }, 1000);
+        setCachedResponse('forever', { content: 'b' }, 0);
+        vi.advanceTimersByTime(2000);
+        expect(getCachedResponse('short')).toBeNull();
+        expect(getCachedResponse('forever')).toEqual({ content: 'b' });
+        vi.useRealTimers();
+    });
+
+    it('describes jobs that do not read from the cache, which is off unless enabled', () => {
+        expect(describeCacheParams(undefined)).toBe(', cache=off');
+        expect(describeCacheParams({ enabled: true, bypass: true })).toBe(', cache=bypass');
+        expect(describeCacheParams({ enabled: true })).toBe('');
+    });
+});
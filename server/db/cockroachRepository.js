@@ -3,6 +3,7 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { DbRepository } from './repository.js';
+import { summarizeRubricScores } from '../utils/rubricScoring.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -401,15 +402,17 @@ export class CockroachRepository extends DbRepository {
     async getScoreDistribution(sessionUid, scoreField = 'score') {
         // Fetch all scores for client-side computation (matches Firestore behavior)
         const result = await this.pool.query(
-            `SELECT ${scoreField} FROM synth_logs WHERE session_uid = $1`,
+            `SELECT ${scoreField}, metadata->'rubricScores' AS rubric_scores FROM synth_logs WHERE session_uid = $1`,
             [sessionUid]
         );
 
         const scores = [];
+        const rubricScoresList = [];
         let unscoredCount = 0;
         let totalCount = result.rows.length;
 
         for (const row of result.rows) {
+            if (row.rubric_scores) rubricScoresList.push(row.rubric_scores);
             const score = row[scoreField];
             if (score != null && !isNaN(score)) {
                 scores.push(parseFloat(score));
@@ -453,7 +456,8 @@ export class CockroachRepository extends DbRepository {
                 average: avg.toFixed(2)
             },
             distribution,
-            thresholdPreview
+            thresholdPreview,
+            criteria: summarizeRubricScores(rubricScoresList)
         };
     }
 
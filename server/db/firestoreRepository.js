@@ -1,5 +1,6 @@
 import admin from 'firebase-admin';
 import { DbRepository } from './repository.js';
+import { summarizeRubricScores } from '../utils/rubricScoring.js';
 
 /**
  * Firestore implementation of DbRepository.
@@ -209,16 +210,18 @@ export class FirestoreRepository extends DbRepository {
     async getScoreDistribution(sessionUid, scoreField = 'score') {
         const snapshot = await this.db.collection('synth_logs')
             .where('sessionUid', '==', sessionUid)
-            .select(scoreField)
+            .select(scoreField, 'rubricScores')
             .get();
 
         const scores = [];
+        const rubricScoresList = [];
         let unscoredCount = 0;
         let totalCount = 0;
 
         snapshot.forEach(doc => {
             totalCount++;
             const data = doc.data();
+            if (data.rubricScores) rubricScoresList.push(data.rubricScores);
             const score = data[scoreField];
             if (typeof score === 'number') {
                 scores.push(score);
@@ -262,7 +265,8 @@ export class FirestoreRepository extends DbRepository {
                 average: avg.toFixed(2)
             },
             distribution,
-            thresholdPreview
+            thresholdPreview,
+            criteria: summarizeRubricScores(rubricScoresList)
         };
     }
 
@@ -19,6 +19,7 @@
  * @property {number} count
  * @property {Object<string, number>} buckets
  * @property {Object<string, number>} thresholdCounts
+ * @property {Object<string, Object>} criteria - Per-criterion stats from rubric autoscoring
  */
 
 /**
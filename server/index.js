@@ -33,12 +33,18 @@ import { registerStartAutoscoreRoute } from './routes/jobs/startAutoscore.js';
 import { registerStartRewriteRoute } from './routes/jobs/startRewrite.js';
 import { registerStartRemoveItemsRoute } from './routes/jobs/startRemoveItems.js';
 import { registerStartMigrateReasoningRoute } from './routes/jobs/startMigrateReasoning.js';
+import { registerStartDedupRoute } from './routes/jobs/startDedup.js';
+import { registerStartBatchRoute } from './routes/jobs/startBatch.js';
 import { registerCancelJobRoute } from './routes/jobs/cancelJob.js';
 import { registerRerunJobRoute } from './routes/jobs/rerunJob.js';
 import { registerGetScoreDistributionRoute } from './routes/sessions/getScoreDistribution.js';
 import { registerGenerateRoutes } from './routes/ai/generate.js';
 import { registerChatRoutes } from './routes/ai/chat.js';
 import { registerRewriteStreamRoutes } from './routes/ai/rewrite.js';
+import { registerRunCodeTestsRoute } from './routes/verify/runCodeTests.js';
+import { registerRateLimitRoutes } from './routes/rateLimits/getRateLimits.js';
+import { registerAcquireRateLimitRoutes } from './routes/rateLimits/acquireRateLimit.js';
+import { registerResponseCacheRoutes } from './routes/responseCache/getResponseCache.js';
 import {
     registerListTagsRoute,
     registerCreateTagRoute,
@@ -120,6 +126,8 @@ const createApp = async () => {
     registerStartRewriteRoute(app, { repo, createJob, updateJob, getJob });
     registerStartRemoveItemsRoute(app, { repo, createJob, updateJob, getJob });
     registerStartMigrateReasoningRoute(app, { repo, createJob, updateJob, getJob });
+    registerStartDedupRoute(app, { repo, createJob, updateJob, getJob });
+    registerStartBatchRoute(app, { repo, createJob, updateJob, getJob });
     registerCancelJobRoute(app, { cancelJob });
     registerRerunJobRoute(app, { getJob });
     registerGetScoreDistributionRoute(app, { repo });
@@ -134,6 +142,10 @@ const createApp = async () => {
     registerGenerateRoutes(app, { decryptKey });
     registerChatRoutes(app, { decryptKey });
     registerRewriteStreamRoutes(app, { decryptKey });
+    registerRunCodeTestsRoute(app);
+    registerRateLimitRoutes(app);
+    registerAcquireRateLimitRoutes(app);
+    registerResponseCacheRoutes(app);
 
     return app;
 };
@@ -4,7 +4,7 @@
 
 /**
  * Extract processed item IDs from a job's trace
- * Only includes items that were successfully processed (type: 'rewritten' or 'migrated')
+ * Only includes items that were successfully processed (type: 'rewritten', 'migrated' or 'deduped')
  * Excludes items that were skipped or had errors (these should be retried on resume)
  * @param {Array} trace - Job trace array
  * @returns {Set<string>} Set of processed item IDs
@@ -16,7 +16,7 @@ export const extractProcessedItemIds = (trace) => {
     for (const entry of trace) {
         // Only include successfully processed items
         // Exclude 'skipped' and 'error' entries - those should be retried on resume
-        if (entry.logId && (entry.type === 'rewritten' || entry.type === 'migrated' || entry.outcome === 'migrated')) {
+        if (entry.logId && (entry.type === 'rewritten' || entry.type === 'migrated' || entry.type === 'deduped' || entry.outcome === 'migrated')) {
             processedIds.add(entry.logId);
         }
     }
@@ -2,14 +2,14 @@
  * Rerun a failed/completed job with its original params + a fresh API key.
  * POST /api/jobs/:id/rerun
  *
- * Body: { apiKey: "<encrypted>" }
+ * Body: { apiKey: "<encrypted>", judgeApiKeys?: { [provider]: "<encrypted>" } }
  * Internally forwards to the correct start endpoint (rewrite, autoscore, etc.)
  */
 
 export const registerRerunJobRoute = (app, { getJob }) => {
     app.post('/api/jobs/:id/rerun', async (req, res) => {
         const { id } = req.params;
-        const { apiKey: encryptedApiKey } = req.body || {};
+        const { apiKey: encryptedApiKey, judgeApiKeys } = req.body || {};
 
         // Look up the original job
         const job = await getJob(id);
@@ -40,6 +40,9 @@ export const registerRerunJobRoute = (app, { getJob }) => {
         if (encryptedApiKey) {
             body.apiKey = encryptedApiKey;
         }
+        if (judgeApiKeys) {
+            body.judgeApiKeys = judgeApiKeys;
+        }
 
         // Forward internally via Express router
         // Create a minimal synthetic request matching what the target route expects
@@ -2,10 +2,16 @@ import { JobStatus } from '../../jobs/jobStore.js';
 import { callChatCompletion } from '../../services/aiClient.js';
 import { decryptKey } from '../../utils/keyEncryption.js';
 import { extractResumeState, canResumeJob } from '../../jobs/jobResume.js';
+import { buildRubricSystemPrompt, normalizeRubric, parseRubricResponse } from '../../utils/rubricScoring.js';
+import {
+    aggregateJudgeScores, computeJudgeAgreement, getJudgeLabels, mergeJudgeRubricScores, normalizeJudges, VALID_AGGREGATIONS,
+} from '../../utils/judgeEnsemble.js';
+import { createCostMeter } from '../../utils/costCalculator.js';
+import { describeCacheParams } from '../../cache/responseCache.js';
 
 const DEFAULT_SCORING_SYSTEM_PROMPT = `You are an expert evaluator. Score the quality of both the reasoning and answer on a scale of 1-5, where 1 is poor and 5 is excellent. Respond with ONLY an unified single digit (1-5).`;
 
-const buildScoringUserPrompt = (log) => {
+const buildScoringUserPrompt = (log, rubric) => {
     const query = log.query || log.QUERY || log.full_seed || '';
     const reasoning = log.reasoning || '';
     const answer = log.answer || '';
@@ -15,7 +21,7 @@ Reasoning Trace: ${reasoning}
 Answer: ${answer}
 
 ---
-Based on the criteria above, provide a 1-5 score.`;
+${rubric ? 'Based on the criteria above, respond with the JSON object of per-criterion scores.' : 'Based on the criteria above, provide a 1-5 score.'}`;
 };
 
 const parseScore = (text) => {
@@ -28,17 +34,19 @@ const parseScore = (text) => {
 };
 
 /**
- * Process a single log item: call AI, parse score, update via repo.
+ * Ask one judge model for a score, falling through the judge's fallback models when it fails.
+ * @returns {Promise<{parsed: Object|null, raw: string, modelUsed: string}>} parsed is { score, rubricScores?, rubricRationale? } or null
  */
-const scoreOneItem = async ({ log, repo, baseUrl, apiKey, model, provider, maxRetries, retryDelay, systemPrompt, generationParams }) => {
-    const userPrompt = buildScoringUserPrompt(log);
+const callJudge = async ({ log, judge, maxRetries, retryDelay, systemPrompt, rubric, costMeter, cache }) => {
+    const { generationParams } = judge;
+    let modelUsed = judge.model;
     const result = await callChatCompletion({
-        baseUrl,
-        apiKey,
-        model,
-        provider,
-        systemPrompt: systemPrompt || DEFAULT_SCORING_SYSTEM_PROMPT,
-        userPrompt,
+        baseUrl: judge.baseUrl,
+        apiKey: judge.apiKey,
+        model: judge.model,
+        provider: judge.provider,
+        systemPrompt: rubric ? buildRubricSystemPrompt(rubric) : (systemPrompt || DEFAULT_SCORING_SYSTEM_PROMPT),
+        userPrompt: buildScoringUserPrompt(log, rubric),
         maxTokens: generationParams?.maxOutputTokens || generationParams?.maxTokens || 16000,
         temperature: generationParams?.temperature ?? 0.3,
         topP: generationParams?.topP,
@@ -47,22 +55,88 @@ const scoreOneItem = async ({ log, repo, baseUrl, apiKey, model, provider, maxRe
         presencePenalty: generationParams?.presencePenalty,
         maxRetries,
         retryDelay,
+        fallbacks: judge.fallbacks,
+        onUsage: (usage, used) => costMeter?.add(used.provider, used.model, usage),
+        onModelUsed: (used) => { modelUsed = used.model; },
+        cache,
     });
 
+    if (rubric) {
+        return { parsed: parseRubricResponse(result, rubric), raw: String(result), modelUsed };
+    }
     const score = parseScore(result);
-    if (score > 0) {
-        await repo.updateLog(log.id, {
-            score,
-            updatedAt: Date.now(),
-        });
+    return { parsed: score > 0 ? { score } : null, raw: String(result), modelUsed };
+};
+
+/**
+ * Process a single log item: call AI, parse score, update via repo.
+ * With a rubric, the judge returns per-criterion JSON and the overall score is their weighted mean.
+ * With several judges, each one scores the item and the scores are aggregated; the per-judge
+ * scores and their agreement are stored alongside the overall score.
+ */
+const scoreOneItem = async ({ log, repo, judges, aggregation, maxRetries, retryDelay, systemPrompt, rubric, costMeter, cache }) => {
+    if (judges.length === 1) {
+        const { parsed, raw, modelUsed } = await callJudge({ log, judge: judges[0], maxRetries, retryDelay, systemPrompt, rubric, costMeter, cache });
+        if (!parsed) {
+            return {
+                outcome: 'skipped',
+                trace: { type: 'skipped', logId: log.id, reason: rubric ? 'Could not parse rubric JSON from response' : 'Could not parse score from response', rawResponse: raw.slice(0, 100), timestamp: Date.now() },
+            };
+        }
+        await repo.updateLog(log.id, { ...parsed, updatedAt: Date.now() });
         return {
             outcome: 'scored',
-            trace: { type: 'scored', logId: log.id, score, rawResponse: String(result).slice(0, 100), timestamp: Date.now() },
+            trace: { type: 'scored', logId: log.id, score: parsed.score, ...(parsed.rubricScores && { rubricScores: parsed.rubricScores }), ...(modelUsed !== judges[0].model && { modelUsed }), rawResponse: raw.slice(0, 100), timestamp: Date.now() },
+        };
+    }
+
+    const labels = getJudgeLabels(judges);
+    const results = await Promise.allSettled(
+        judges.map(judge => callJudge({ log, judge, maxRetries, retryDelay, systemPrompt, rubric, costMeter, cache }))
+    );
+
+    const judgeScores = {};
+    const rubricScoresList = [];
+    const rationales = [];
+    const failedJudges = [];
+    results.forEach((r, i) => {
+        if (r.status === 'fulfilled' && r.value.parsed) {
+            judgeScores[labels[i]] = r.value.parsed.score;
+            if (r.value.parsed.rubricScores) rubricScoresList.push(r.value.parsed.rubricScores);
+            if (r.value.parsed.rubricRationale) rationales.push(`${labels[i]}: ${r.value.parsed.rubricRationale}`);
+        } else {
+            failedJudges.push(labels[i]);
+        }
+    });
+
+    const scores = Object.values(judgeScores);
+    if (scores.length === 0) {
+        // Every judge threw: surface it as an error rather than a skip
+        const firstError = results.find(r => r.status === 'rejected');
+        if (firstError && results.every(r => r.status === 'rejected')) throw firstError.reason;
+        return {
+            outcome: 'skipped',
+            trace: { type: 'skipped', logId: log.id, reason: 'No judge returned a parsable score', timestamp: Date.now() },
         };
     }
+
+    const score = aggregateJudgeScores(scores, aggregation);
+    const judgeAgreement = computeJudgeAgreement(scores);
+    const updates = { score, judgeScores, judgeAgreement, updatedAt: Date.now() };
+    if (rubric) {
+        updates.rubricScores = mergeJudgeRubricScores(rubricScoresList);
+        updates.rubricRationale = rationales.join('\n');
+    }
+    await repo.updateLog(log.id, updates);
+
     return {
-        outcome: 'skipped',
-        trace: { type: 'skipped', logId: log.id, reason: 'Could not parse score from response', rawResponse: String(result).slice(0, 100), timestamp: Date.now() },
+        outcome: 'scored',
+        trace: {
+            type: 'scored', logId: log.id, score, judgeScores, judgeAgreement,
+            ...(updates.rubricScores && { rubricScores: updates.rubricScores }),
+            ...(failedJudges.length > 0 && { failedJudges }),
+            timestamp: Date.now()
+        },
     };
 };
 
@@ -74,6 +148,9 @@ export const registerStartAutoscoreRoute = (app, { repo, createJob, updateJob, g
             concurrency: reqConcurrency, maxRetries: reqMaxRetries, retryDelay: reqRetryDelay,
             force, itemIds, resumeJobId,
             systemPrompt, generationParams,
+            mode, rubric,
+            judges, judgeApiKeys, aggregation,
+            pricing, budgetUsd, cache,
         } = req.body || {};
 
         // If resuming, load the previous job
@@ -94,14 +171,36 @@ export const registerStartAutoscoreRoute = (app, { repo, createJob, updateJob, g
             res.status(400).json({ error: 'sessionId is required' });
             return;
         }
-        if (!existingJob && (!model || !baseUrl || !encryptedApiKey)) {
+        const judgeList = normalizeJudges(existingJob ? existingJob.params?.judges : judges);
+        if (!existingJob && !judgeList && (!model || !baseUrl || !encryptedApiKey)) {
             res.status(400).json({ error: 'model, baseUrl, and apiKey are required' });
             return;
         }
+        if (!existingJob && aggregation !== undefined && !VALID_AGGREGATIONS.includes(aggregation)) {
+            res.status(400).json({ error: `Invalid aggregation. Must be one of: ${VALID_AGGREGATIONS.join(', ')}` });
+            return;
+        }
+        if (!existingJob && mode === 'rubric' && !normalizeRubric(rubric)) {
+            res.status(400).json({ error: 'rubric mode requires a non-empty rubric array of { id, name, description, weight }' });
+            return;
+        }
 
+        // Judges carry no key of their own; keys arrive per provider in judgeApiKeys (again on resume)
         let apiKey;
+        let resolvedJudges;
         try {
-            apiKey = decryptKey(encryptedApiKey || existingJob?.params?.apiKey);
+            if (judgeList) {
+                resolvedJudges = judgeList.map(judge => {
+                    const keyFor = (provider) => judgeApiKeys?.[provider] ? decryptKey(judgeApiKeys[provider]) : '';
+                    return {
+                        ...judge,
+                        apiKey: keyFor(judge.provider),
+                        fallbacks: judge.fallbacks?.map(fallback => ({ ...fallback, apiKey: keyFor(fallback.provider) })),
+                    };
+                });
+            } else {
+                apiKey = decryptKey(encryptedApiKey || existingJob?.params?.apiKey);
+            }
         } catch (err) {
             res.status(400).json({ error: 'Failed to decrypt API key. Check VITE_API_KEY_SALT configuration.' });
             return;
@@ -124,6 +223,9 @@ export const registerStartAutoscoreRoute = (app, { repo, createJob, updateJob, g
             concurrency: reqConcurrency, maxRetries: reqMaxRetries, retryDelay: reqRetryDelay,
             force: !!force, itemIds,
             systemPrompt, generationParams,
+            mode, rubric,
+            judges: judgeList || undefined, aggregation,
+            pricing, budgetUsd, cache,
         };
 
         // Store sessionId at top level for easy access by tools/UI
@@ -149,6 +251,9 @@ export const registerStartAutoscoreRoute = (app, { repo, createJob, updateJob, g
                     concurrency: reqConcurrency, maxRetries: reqMaxRetries, retryDelay: reqRetryDelay,
                     force: !!force, itemIds,
                     systemPrompt, generationParams,
+                    mode, rubric,
+                    judges: judgeList || undefined, aggregation,
+                    pricing, budgetUsd, cache,
                 };
 
                 // Resolve settings
@@ -156,6 +261,14 @@ export const registerStartAutoscoreRoute = (app, { repo, createJob, updateJob, g
                 const maxRetries = (typeof params.maxRetries === 'number' && params.maxRetries >= 0) ? params.maxRetries : 2;
                 const retryDelay = (typeof params.retryDelay === 'number' && params.retryDelay >= 0) ? params.retryDelay : 2000;
                 const sleepTime = typeof params.sleepMs === 'number' ? params.sleepMs : 500;
+                const rubricCriteria = params.mode === 'rubric' ? normalizeRubric(params.rubric) : null;
+                const jobJudges = resolvedJudges || [{ provider: params.provider, model: params.model, baseUrl: params.baseUrl, apiKey, generationParams: params.generationParams }];
+                const aggregation = params.aggregation || 'mean';
+                // A resume request carries the current prices and budget; spend carries over
+                const jobBudgetUsd = budgetUsd !== undefined ? budgetUsd : params.budgetUsd;
+                const costMeter = createCostMeter({ prices: pricing || params.pricing, budgetUsd: jobBudgetUsd, spentUsd: resumeState.progress.cost || 0 });
+                // Cache settings (including the bypass switch) follow the request that started or resumed the run
+                const jobCache = cache !== undefined ? cache : params.cache;
 
                 // Fetch all logs for this session
                 const fetchLimit = (typeof params.offset === 'number' && params.offset > 0)
@@ -196,12 +309,15 @@ export const registerStartAutoscoreRoute = (app, { repo, createJob, updateJob, g
                 let errors = resumeState.progress.errors || 0;
                 let processed = resumeState.progress.current || 0;
                 let cancelled = false;
+                let budgetExceeded = false;
 
                 // Log initial job context (only if not resuming)
                 if (!existingJob) {
                     trace.push({
                         type: 'info',
-                        message: `Job started: session=${params.sessionId}, model=${params.model}, provider=${params.provider || 'unknown'}`,
+                        message: resolvedJudges
+                            ? `Job started: session=${params.sessionId}, judges=${getJudgeLabels(resolvedJudges).join(', ')}, aggregation=${aggregation}${rubricCriteria ? `, rubric=${rubricCriteria.map(c => c.id).join(',')}` : ''}`
+                            : `Job started: session=${params.sessionId}, model=${params.model}, provider=${params.provider || 'unknown'}${rubricCriteria ? `, rubric=${rubricCriteria.map(c => c.id).join(',')}` : ''}`,
                         timestamp: Date.now()
                     });
                 }
@@ -212,7 +328,7 @@ export const registerStartAutoscoreRoute = (app, { repo, createJob, updateJob, g
                 });
                 trace.push({
                     type: 'info',
-                    message: `Config: concurrency=${concurrency}, maxRetries=${maxRetries}, retryDelay=${retryDelay}ms, sleepMs=${sleepTime}ms`,
+                    message: `Config: concurrency=${concurrency}, maxRetries=${maxRetries}, retryDelay=${retryDelay}ms, sleepMs=${sleepTime}ms${jobBudgetUsd > 0 ? `, budget=$${jobBudgetUsd}` : ''}${describeCacheParams(jobCache)}`,
                     timestamp: Date.now()
                 });
 
@@ -226,12 +342,18 @@ export const registerStartAutoscoreRoute = (app, { repo, createJob, updateJob, g
                         cancelled = true;
                         break;
                     }
+                    if (costMeter.isExceeded()) {
+                        console.log(`[autoscore] Job ${job.id} over budget, stopping at ${processed}/${total}`);
+                        trace.push({ type: 'warn', message: `Budget of $${jobBudgetUsd} exceeded ($${costMeter.total.toFixed(4)} spent) at item ${processed}/${total}`, timestamp: Date.now() });
+                        budgetExceeded = true;
+                        break;
+                    }
 
                     const batch = unscoredLogs.slice(batchStart, batchStart + concurrency);
 
                     // Run batch concurrently
                     const results = await Promise.allSettled(
-                        batch.map(log => scoreOneItem({ log, repo, baseUrl, apiKey, model, provider: params.provider, maxRetries, retryDelay, systemPrompt: params.systemPrompt, generationParams: params.generationParams }))
+                        batch.map(log => scoreOneItem({ log, repo, judges: jobJudges, aggregation, maxRetries, retryDelay, systemPrompt: params.systemPrompt, rubric: rubricCriteria, costMeter, cache: jobCache }))
                     );
 
                     // Collect results
@@ -257,8 +379,8 @@ export const registerStartAutoscoreRoute = (app, { repo, createJob, updateJob, g
                     }
 
                     updateJob(job.id, {
-                        progress: { scored, skipped, errors, total, current: processed },
-                        result: { totalScored: scored, totalSkipped: skipped, totalErrors: errors, total, trace },
+                        progress: { scored, skipped, errors, total, current: processed, cost: costMeter.total },
+                        result: { totalScored: scored, totalSkipped: skipped, totalErrors: errors, total, totalCost: costMeter.total, trace },
                     });
 
                     // Rate limiting between batches
@@ -267,14 +389,25 @@ export const registerStartAutoscoreRoute = (app, { repo, createJob, updateJob, g
                     }
                 }
 
+                if (costMeter.unpriced.length > 0) {
+                    trace.push({ type: 'warn', message: `No price for ${costMeter.unpriced.join(', ')}; its calls are not counted in the job cost`, timestamp: Date.now() });
+                }
+
                 if (cancelled) {
                     updateJob(job.id, {
-                        result: { totalScored: scored, totalSkipped: skipped, totalErrors: errors, total, cancelled: true, trace },
+                        result: { totalScored: scored, totalSkipped: skipped, totalErrors: errors, total, totalCost: costMeter.total, cancelled: true, trace },
+                    });
+                } else if (budgetExceeded) {
+                    // Failed so the job can be resumed after raising the budget
+                    updateJob(job.id, {
+                        status: JobStatus.Failed,
+                        error: `Budget of $${jobBudgetUsd} exceeded`,
+                        result: { totalScored: scored, totalSkipped: skipped, totalErrors: errors, total, totalCost: costMeter.total, budgetExceeded: true, trace },
                     });
                 } else {
                     updateJob(job.id, {
                         status: JobStatus.Completed,
-                        result: { totalScored: scored, totalSkipped: skipped, totalErrors: errors, total, trace },
+                        result: { totalScored: scored, totalSkipped: skipped, totalErrors: errors, total, totalCost: costMeter.total, trace },
                     });
                 }
             } catch (error) {
@@ -0,0 +1,379 @@
+import { JobStatus } from '../../jobs/jobStore.js';
+import { canResumeJob, extractResumeState } from '../../jobs/jobResume.js';
+import { BATCH_PRICE_FACTOR, cancelBatch, fetchBatchResults, getBatchStatus, isBatchProvider, submitBatch } from '../../services/batchClient.js';
+import { extractJsonFields, parseThinkTags } from '../../services/responseParser.js';
+import { createCostMeter, normalizeUsage } from '../../utils/costCalculator.js';
+import { decryptKey } from '../../utils/keyEncryption.js';
+import { sanitizeReasoningContent } from '../../utils/reasoningSanitizer.js';
+
+const DEFAULT_POLL_INTERVAL_MS = 30000;
+/** Most items per upload; each upload becomes one provider batch */
+export const MAX_BATCH_CHUNK_ITEMS = 1000;
+const UPLOAD_CONCURRENCY = 50;
+/** Status of an uploaded item until its batch result is saved */
+const PENDING_STATUS = 'IN_PROGRESS';
+// Each poll updates the job, so it must stay well under the stalled-job threshold
+const MAX_POLL_INTERVAL_MS = 2 * 60 * 1000;
+const MIN_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Parse a batched response into reasoning and answer.
+ * Native output carries reasoning in <think> tags; otherwise the model was asked for JSON.
+ */
+const parseBatchContent = (content, outputFormat) => {
+    if (outputFormat === 'native') {
+        const { reasoning, answer } = parseThinkTags(content);
+        return { reasoning, answer };
+    }
+    const { data } = extractJsonFields(content, []);
+    if (!data) return null;
+    const toText = (val) => (val === null || val === undefined) ? '' : typeof val === 'string' ? val : JSON.stringify(val);
+    return { reasoning: toText(data.reasoning), answer: toText(data.answer), ...(data.query && { query: toText(data.query) }) };
+};
+
+/**
+ * Updates that turn a pending log into the result of its batch request. The pending log holds
+ * the item's seed fields; reasoning or answer uploaded with them are kept when the response
+ * leaves them empty.
+ */
+const buildBatchLogUpdate = ({ log, result, provider, model, outputFormat, cost }) => {
+    const base = {
+        modelUsed: `${provider}/${model}`,
+        provider,
+        timestamp: new Date().toISOString(),
+        batchPrompt: null,
+    };
+
+    const parsed = result?.content !== undefined ? parseBatchContent(result.content, outputFormat) : null;
+    if (!parsed) {
+        return {
+            ...base,
+            reasoning: '',
+            reasoning_content: '',
+            answer: '',
+            isError: true,
+            status: 'ERROR',
+            error: result?.error || (result ? 'Could not parse response' : 'No result returned for this request'),
+        };
+    }
+
+    const reasoning = sanitizeReasoningContent(parsed.reasoning || log.reasoning || '');
+    const answer = parsed.answer || log.answer || '';
+    const usage = result.usage ? normalizeUsage(result.usage) : null;
+    return {
+        ...base,
+        ...(parsed.query && !log.query && { query: parsed.query }),
+        reasoning,
+        reasoning_content: reasoning,
+        answer,
+        tokenCount: usage
+            ? usage.prompt_tokens + usage.completion_tokens
+            : Math.round((answer.length + reasoning.length) / 4),
+        ...(usage && {
+            usage: {
+                prompt_tokens: usage.prompt_tokens,
+                completion_tokens: usage.completion_tokens,
+                total_tokens: usage.prompt_tokens + usage.completion_tokens,
+                ...(usage.reasoning_tokens > 0 && { reasoning_tokens: usage.reasoning_tokens }),
+                ...(cost !== undefined && { cost }),
+            },
+        }),
+        ...(cost !== undefined && { cost }),
+        status: 'DONE',
+    };
+};
+
+/**
+ * Converter batch jobs: work items are uploaded in chunks and stored as pending logs of the
+ * session, then each chunk is submitted as one provider batch (OpenAI /v1/batches or Anthropic
+ * Message Batches). The job polls the batches until they end and fills the pending logs in.
+ *
+ * POST /api/jobs/batch/items - Upload one chunk; the first upload creates the job.
+ *   Upload chunks one after another, since each takes the next chunk number.
+ * POST /api/jobs/batch - Start an uploaded job (jobId) or resume one (resumeJobId).
+ *
+ * Batch ids are kept in the job's progress, so resuming a failed or stalled job polls the
+ * same batches instead of submitting again, and skips logs that already hold their result.
+ */
+export const registerStartBatchRoute = (app, { repo, createJob, updateJob, getJob }) => {
+    app.post('/api/jobs/batch/items', async (req, res) => {
+        const { jobId, sessionId, sessionName, items } = req.body || {};
+        if (!Array.isArray(items) || items.length === 0 || items.some(item => typeof item?.userPrompt !== 'string')) {
+            res.status(400).json({ error: 'items array is required (each with userPrompt)' });
+            return;
+        }
+        if (items.length > MAX_BATCH_CHUNK_ITEMS) {
+            res.status(400).json({ error: `Upload at most ${MAX_BATCH_CHUNK_ITEMS} items at a time` });
+            return;
+        }
+
+        let job;
+        if (jobId) {
+            job = await getJob(jobId);
+            if (!job || job.type !== 'batch' || job.status !== JobStatus.Pending) {
+                res.status(400).json({ error: 'Job not found or already started' });
+                return;
+            }
+        } else {
+            if (!sessionId) {
+                res.status(400).json({ error: 'sessionId is required' });
+                return;
+            }
+            job = await createJob('batch');
+            await updateJob(job.id, { params: { sessionId, sessionName }, sessionId, progress: { uploaded: 0, chunks: 0 } });
+        }
+
+        const chunk = job.progress?.chunks || 0;
+        const { sessionId: targetSessionId, sessionName: targetSessionName } = job.params;
+        try {
+            for (let start = 0; start < items.length; start += UPLOAD_CONCURRENCY) {
+                // The repository assigns the log id, which is also the request's custom id in the batch
+                await Promise.all(items.slice(start, start + UPLOAD_CONCURRENCY).map(({ userPrompt, log: { id: _id, ...log } = {} }) => repo.createLog({
+                    ...log,
+                    sessionUid: targetSessionId,
+                    ...(targetSessionName && { sessionName: targetSessionName }),
+                    batchJobId: job.id,
+                    batchChunk: chunk,
+                    batchPrompt: userPrompt,
+                    status: PENDING_STATUS,
+                    createdAt: Date.now(),
+                })));
+            }
+        } catch (err) {
+            res.status(500).json({ error: `Failed to store items: ${String(err?.message || err)}` });
+            return;
+        }
+
+        const uploaded = (job.progress?.uploaded || 0) + items.length;
+        await updateJob(job.id, { progress: { uploaded, chunks: chunk + 1, total: uploaded, current: 0 } });
+        res.json({ jobId: job.id, chunk, uploaded });
+    });
+
+    app.post('/api/jobs/batch', async (req, res) => {
+        const {
+            jobId, provider, model, baseUrl,
+            apiKey: encryptedApiKey, systemPrompt, generationParams, outputFormat,
+            pollIntervalMs, resumeJobId, pricing,
+        } = req.body || {};
+
+        let existingJob = null;
+        if (resumeJobId) {
+            existingJob = await getJob(resumeJobId);
+            if (!canResumeJob(existingJob)) {
+                res.status(400).json({ error: 'Job cannot be resumed (not found, not failed, or already completed)' });
+                return;
+            }
+        } else {
+            existingJob = jobId ? await getJob(jobId) : null;
+            if (!existingJob || existingJob.type !== 'batch' || existingJob.status !== JobStatus.Pending || !existingJob.progress?.uploaded) {
+                res.status(400).json({ error: 'jobId of a job with uploaded items is required' });
+                return;
+            }
+            if (!isBatchProvider(provider)) {
+                res.status(400).json({ error: 'provider must be openai or anthropic' });
+                return;
+            }
+            if (!model || !baseUrl || !encryptedApiKey) {
+                res.status(400).json({ error: 'model, baseUrl, and apiKey are required' });
+                return;
+            }
+        }
+
+        const resumeState = extractResumeState(resumeJobId ? existingJob : null);
+
+        const existingParams = existingJob.params || {};
+        const resolvedSessionId = existingParams.sessionId;
+        const resolvedSessionName = existingParams.sessionName;
+        const resolvedProvider = provider || existingParams.provider;
+        const resolvedModel = model || existingParams.model;
+        const resolvedBaseUrl = baseUrl || existingParams.baseUrl;
+        const resolvedSystemPrompt = systemPrompt ?? existingParams.systemPrompt ?? '';
+        const resolvedGenerationParams = generationParams || existingParams.generationParams;
+        const resolvedOutputFormat = outputFormat || existingParams.outputFormat || 'json';
+        const resolvedPollIntervalMs = pollIntervalMs !== undefined ? pollIntervalMs : existingParams.pollIntervalMs;
+        const resolvedPricing = pricing || existingParams.pricing;
+
+        let apiKey;
+        try {
+            apiKey = decryptKey(encryptedApiKey);
+        } catch (err) {
+            res.status(400).json({ error: 'Failed to decrypt API key. Check VITE_API_KEY_SALT configuration.' });
+            return;
+        }
+
+        const job = existingJob;
+        res.json({ jobId: job.id });
+
+        await updateJob(job.id, {
+            params: {
+                sessionId: resolvedSessionId,
+                sessionName: resolvedSessionName,
+                provider: resolvedProvider,
+                model: resolvedModel,
+                baseUrl: resolvedBaseUrl,
+                systemPrompt: resolvedSystemPrompt,
+                generationParams: resolvedGenerationParams,
+                outputFormat: resolvedOutputFormat,
+                pollIntervalMs: resolvedPollIntervalMs,
+                pricing: resolvedPricing,
+            },
+        });
+
+        (async () => {
+            if (existingJob.status === JobStatus.Failed) {
+                await updateJob(job.id, { status: JobStatus.Running, error: null });
+            } else {
+                await updateJob(job.id, { status: JobStatus.Running });
+            }
+
+            const trace = resumeState.trace || [];
+            const client = { provider: resolvedProvider, baseUrl: resolvedBaseUrl, apiKey };
+            // One entry per chunk: { chunk, batchId, status, succeeded, failed, done }
+            const batches = resumeState.progress.batches || [];
+            let total = existingJob.progress?.uploaded || 0;
+            let costMeter = null;
+            let saveErrors = 0;
+
+            try {
+                const pollInterval = typeof resolvedPollIntervalMs === 'number' && resolvedPollIntervalMs > 0
+                    ? Math.min(Math.max(resolvedPollIntervalMs, MIN_POLL_INTERVAL_MS), MAX_POLL_INTERVAL_MS)
+                    : DEFAULT_POLL_INTERVAL_MS;
+
+                const logs = (await repo.fetchLogsForProcessing(resolvedSessionId)).filter(log => log.batchJobId === job.id);
+                total = logs.length;
+                const logsByChunk = new Map();
+                logs.forEach(log => {
+                    const chunk = log.batchChunk || 0;
+                    if (!logsByChunk.has(chunk)) logsByChunk.set(chunk, []);
+                    logsByChunk.get(chunk).push(log);
+                });
+                // Batches costed before a resume are kept in the saved cost
+                costMeter = createCostMeter({ prices: resolvedPricing, spentUsd: resumeState.progress.cost || 0, priceFactor: BATCH_PRICE_FACTOR });
+
+                const countSaved = (status) => logs.filter(log => log.status === status).length;
+                const saveProgress = (extra = {}) => updateJob(job.id, {
+                    progress: {
+                        batches,
+                        total,
+                        current: logs.length - countSaved(PENDING_STATUS),
+                        succeeded: batches.reduce((sum, batch) => sum + (batch.succeeded || 0), 0),
+                        failed: batches.reduce((sum, batch) => sum + (batch.failed || 0), 0),
+                        cost: costMeter.total,
+                        ...extra,
+                    },
+                    result: { total, trace },
+                });
+
+                if (resumeJobId) {
+                    trace.push({ type: 'info', message: `Resuming job: ${batches.length} batches submitted`, timestamp: Date.now() });
+                    // A batch whose logs failed to save is read again
+                    batches.forEach(batch => {
+                        if ((logsByChunk.get(batch.chunk) || []).some(log => log.status === PENDING_STATUS)) batch.done = false;
+                    });
+                } else {
+                    trace.push({
+                        type: 'info',
+                        message: `Job started: session=${resolvedSessionId}, model=${resolvedModel}, provider=${resolvedProvider}, ${total} requests in ${logsByChunk.size} batches, output=${resolvedOutputFormat}`,
+                        timestamp: Date.now()
+                    });
+                }
+
+                for (const [chunk, chunkLogs] of [...logsByChunk.entries()].sort((a, b) => a[0] - b[0])) {
+                    if (batches.some(batch => batch.chunk === chunk)) continue;
+                    const submitted = await submitBatch({
+                        ...client,
+                        model: resolvedModel,
+                        systemPrompt: resolvedSystemPrompt,
+                        items: chunkLogs.map(log => ({ id: log.id, userPrompt: log.batchPrompt || '' })),
+                        generationParams: resolvedGenerationParams,
+                        jsonOutput: resolvedOutputFormat === 'json',
+                    });
+                    batches.push({ chunk, batchId: submitted.batchId, status: 'submitted', succeeded: 0, failed: 0, done: false });
+                    console.log(`[batch] Job ${job.id} submitted ${resolvedProvider} batch ${submitted.batchId} with ${chunkLogs.length} requests`);
+                    trace.push({ type: 'info', message: `Submitted ${resolvedProvider} batch ${submitted.batchId} (${chunkLogs.length} requests)`, timestamp: Date.now() });
+                    // Persist each batch id right away so a resume never submits twice
+                    await saveProgress();
+                }
+
+                let cancelled = false;
+                for (;;) {
+                    // Check for cancellation before each poll
+                    const currentJob = await getJob(job.id);
+                    if (currentJob && currentJob.status === JobStatus.Failed) {
+                        for (const batch of batches.filter(b => !b.done)) {
+                            console.log(`[batch] Job ${job.id} cancelled, cancelling batch ${batch.batchId}`);
+                            try {
+                                await cancelBatch({ ...client, batchId: batch.batchId });
+                            } catch (err) {
+                                console.error(`[batch] Failed to cancel batch ${batch.batchId}:`, err?.message || err);
+                            }
+                        }
+                        trace.push({ type: 'warn', message: 'Cancelled by user; open batches cancelled at the provider', timestamp: Date.now() });
+                        cancelled = true;
+                        break;
+                    }
+
+                    for (const batch of batches.filter(b => !b.done)) {
+                        const status = await getBatchStatus({ ...client, batchId: batch.batchId });
+                        Object.assign(batch, { status: status.status, succeeded: status.counts.succeeded, failed: status.counts.failed });
+                        if (!status.ended) continue;
+
+                        trace.push({
+                            type: 'info',
+                            message: `Batch ${batch.batchId} ended (${status.status}): ${status.counts.succeeded} succeeded, ${status.counts.failed} failed${status.error ? ` — ${status.error}` : ''}`,
+                            timestamp: Date.now()
+                        });
+                        const results = await fetchBatchResults({ ...client, batchId: batch.batchId, status });
+                        const resultsById = new Map(results.map(r => [r.id, r]));
+                        for (const log of logsByChunk.get(batch.chunk) || []) {
+                            if (log.status !== PENDING_STATUS) continue;
+                            const result = resultsById.get(log.id);
+                            const cost = result?.usage ? costMeter.add(resolvedProvider, resolvedModel, result.usage) : undefined;
+                            const update = buildBatchLogUpdate({ log, result, provider: resolvedProvider, model: resolvedModel, outputFormat: resolvedOutputFormat, cost });
+                            try {
+                                await repo.updateLog(log.id, update);
+                            } catch (err) {
+                                console.error(`[batch] Failed to save log ${log.id}:`, err?.message || err);
+                                saveErrors++;
+                                trace.push({ type: 'error', logId: log.id, error: `Save failed: ${String(err?.message || err).slice(0, 200)}`, timestamp: Date.now() });
+                                continue;
+                            }
+                            log.status = update.status;
+                            if (update.isError) {
+                                trace.push({ type: 'error', logId: log.id, error: String(update.error).slice(0, 200), timestamp: Date.now() });
+                            }
+                        }
+                        batch.done = true;
+                    }
+
+                    await saveProgress();
+                    if (batches.every(batch => batch.done)) break;
+                    await new Promise(r => setTimeout(r, pollInterval));
+                }
+
+                if (cancelled) {
+                    await updateJob(job.id, { result: { total, cancelled: true, trace } });
+                    return;
+                }
+
+                if (costMeter.unpriced.length > 0) {
+                    trace.push({ type: 'warn', message: `No price for ${costMeter.unpriced.join(', ')}; its calls are not counted in the job cost`, timestamp: Date.now() });
+                }
+
+                const ingested = countSaved('DONE');
+                const errors = countSaved('ERROR') + saveErrors;
+                await saveProgress({ current: total, ingested, errors });
+                await updateJob(job.id, {
+                    status: JobStatus.Completed,
+                    result: { totalIngested: ingested, totalErrors: errors, total, totalCost: costMeter.total, trace },
+                });
+            } catch (error) {
+                console.error('[batch] Job failed:', error);
+                trace.push({ type: 'error', message: String(error), timestamp: Date.now() });
+                // Saved logs are no longer pending, so a resume skips them; keep their cost and the batch ids with them
+                const progress = costMeter ? { ...(await getJob(job.id))?.progress, batches, cost: costMeter.total } : undefined;
+                await updateJob(job.id, { status: JobStatus.Failed, error: String(error), ...(progress ? { progress } : {}), result: { total, trace } });
+            }
+        })();
+    });
+};
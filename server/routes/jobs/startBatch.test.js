@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const provider = vi.hoisted(() => ({ submitted: [], polled: [], results: {} }));
+
+vi.mock('../../services/batchClient.js', () => ({
+    BATCH_PRICE_FACTOR: 0.5,
+    isBatchProvider: (name) => name === 'openai' || name === 'anthropic',
+    submitBatch: vi.fn(async ({ items }) => {
+        provider.submitted.push(items);
+        return { batchId: `batch-${provider.submitted.length - 1}` };
+    }),
+    getBatchStatus: vi.fn(async ({ batchId }) => {
+        provider.polled.push(batchId);
+        return { status: 'ended', ended: true, counts: { succeeded: provider.results[batchId].length, failed: 0 } };
+    }),
+    fetchBatchResults: vi.fn(async ({ batchId }) => provider.results[batchId]),
+    cancelBatch: vi.fn(),
+}));
+vi.mock('../../utils/keyEncryption.js', () => ({ decryptKey: (key) => key }));
+
+const { registerStartBatchRoute } = await import('./startBatch.js');
+
+const createHarness = () => {
+    const routes = {};
+    const jobs = new Map();
+    const logs = new Map();
+    const repo = {
+        createLog: vi.fn(async (log) => {
+            const id = `log-${logs.size}`;
+            logs.set(id, { ...log, id });
+        }),
+        updateLog: vi.fn(async (id, patch) => { Object.assign(logs.get(id), patch); }),
+        fetchLogsForProcessing: vi.fn(async (sessionUid) => [...logs.values()].filter(log => log.sessionUid === sessionUid).map(log => ({ ...log }))),
+    };
+    const createJob = async (type) => {
+        const job = { id: `job-${jobs.size}`, type, status: 'pending' };
+        jobs.set(job.id, job);
+        return job;
+    };
+    const updateJob = async (id, patch) => { Object.assign(jobs.get(id), patch); };
+    const getJob = async (id) => jobs.get(id) || null;
+    registerStartBatchRoute({ post: (path, handler) => { routes[path] = handler; } }, { repo, createJob, updateJob, getJob });
+
+    const post = async (path, body) => {
+        const res = { statusCode: 200, status(code) { this.statusCode = code; return this; }, json(payload) { this.body = payload; } };
+        await routes[path]({ body }, res);
+        return res;
+    };
+    return { post, jobs, logs, repo };
+};
+
+const item = (n) => ({ userPrompt: `prompt ${n}`, log: { id: `client-${n}`, query: `q${n}` } });
+const start = { provider: 'anthropic', model: 'claude', baseUrl: 'https://api.anthropic.com/v1', apiKey: 'key', outputFormat: 'json' };
+const answer = (id, text) => ({ id, content: JSON.stringify({ reasoning: 'r', answer: text }) });
+
+describe('batch job route', () => {
+    beforeEach(() => {
+        provider.submitted = [];
+        provider.polled = [];
+        provider.results = {};
+    });
+
+    it('stores uploaded chunks as pending logs and submits one batch per chunk', async () => {
+        const { post, jobs, logs } = createHarness();
+        const first = await post('/api/jobs/batch/items', { sessionId: 's1', items: [item(0), item(1)] });
+        expect(first.body).toEqual({ jobId: 'job-0', chunk: 0, uploaded: 2 });
+        const second = await post('/api/jobs/batch/items', { jobId: 'job-0', items: [item(2)] });
+        expect(second.body).toEqual({ jobId: 'job-0', chunk: 1, uploaded: 3 });
+        expect(jobs.get('job-0').params).toEqual({ sessionId: 's1', sessionName: undefined });
+        expect(logs.get('log-2')).toMatchObject({ sessionUid: 's1', batchJobId: 'job-0', batchChunk: 1, batchPrompt: 'prompt 2', status: 'IN_PROGRESS', query: 'q2' });
+
+        provider.results = {
+            'batch-0': [answer('log-0', 'a0'), { id: 'log-1', error: 'overloaded' }],
+            'batch-1': [answer('log-2', 'a2')],
+        };
+        expect((await post('/api/jobs/batch', { ...start, jobId: 'job-0' })).body).toEqual({ jobId: 'job-0' });
+        await vi.waitFor(() => expect(jobs.get('job-0').status).toBe('completed'));
+
+        expect(provider.submitted).toEqual([
+            [{ id: 'log-0', userPrompt: 'prompt 0' }, { id: 'log-1', userPrompt: 'prompt 1' }],
+            [{ id: 'log-2', userPrompt: 'prompt 2' }],
+        ]);
+        expect(logs.get('log-0')).toMatchObject({ answer: 'a0', status: 'DONE', batchPrompt: null, modelUsed: 'anthropic/claude' });
+        expect(logs.get('log-1')).toMatchObject({ status: 'ERROR', error: 'overloaded' });
+        expect(jobs.get('job-0').result).toMatchObject({ totalIngested: 2, totalErrors: 1, total: 3 });
+    });
+
+    it('rejects chunks for a job that already started', async () => {
+        const { post, jobs } = createHarness();
+        await post('/api/jobs/batch/items', { sessionId: 's1', items: [item(0)] });
+        jobs.get('job-0').status = 'running';
+        const res = await post('/api/jobs/batch/items', { jobId: 'job-0', items: [item(1)] });
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('resumes by polling the saved batches and only fills in logs still pending', async () => {
+        const { post, jobs, logs, repo } = createHarness();
+        await post('/api/jobs/batch/items', { sessionId: 's1', items: [item(0)] });
+        await post('/api/jobs/batch/items', { jobId: 'job-0', items: [item(1)] });
+        Object.assign(logs.get('log-0'), { status: 'DONE', answer: 'saved', batchPrompt: null });
+        Object.assign(jobs.get('job-0'), {
+            status: 'failed',
+            params: { ...jobs.get('job-0').params, provider: 'anthropic', model: 'claude', baseUrl: start.baseUrl },
+            progress: {
+                batches: [
+                    { chunk: 0, batchId: 'batch-a', status: 'ended', done: true },
+                    { chunk: 1, batchId: 'batch-b', status: 'in_progress', done: false },
+                ],
+            },
+        });
+        provider.results = { 'batch-b': [answer('log-1', 'a1')] };
+
+        await post('/api/jobs/batch', { resumeJobId: 'job-0', apiKey: 'key' });
+        await vi.waitFor(() => expect(jobs.get('job-0').status).toBe('completed'));
+
+        expect(provider.submitted).toEqual([]);
+        expect(provider.polled).toEqual(['batch-b']);
+        expect(repo.updateLog).toHaveBeenCalledTimes(1);
+        expect(logs.get('log-0').answer).toBe('saved');
+        expect(logs.get('log-1')).toMatchObject({ answer: 'a1', status: 'DONE' });
+    });
+});
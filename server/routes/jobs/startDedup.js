@@ -0,0 +1,306 @@
+import { JobStatus } from '../../jobs/jobStore.js';
+import { extractResumeState, canResumeJob } from '../../jobs/jobResume.js';
+import { findDuplicateClusters, pickKeeperIndex, resolveDedupOptions, SERVER_GROUP_PREFIX } from '../../utils/dedup.js';
+
+const DELETE_BATCH_SIZE = 100;
+const VALID_ACTIONS = ['mark', 'delete'];
+const VALID_METHODS = ['exact', 'minhash'];
+
+/**
+ * Start a background job that clusters near-duplicate logs across whole sessions
+ * POST /api/jobs/dedup
+ *
+ * action 'mark' flags every group member with isDuplicate/duplicateGroupId/duplicateSimilarity
+ * and clears the marks earlier runs left on logs that are no longer in a group,
+ * action 'delete' removes all but the best item of each group.
+ */
+export const registerStartDedupRoute = (app, { repo, createJob, updateJob, getJob }) => {
+    app.post('/api/jobs/dedup', async (req, res) => {
+        const {
+            sessionId, sessionIds,
+            method, threshold, fieldWeights, shingleSize, numHashes,
+            action = 'mark', dryRun = false,
+            sleepMs, concurrency: reqConcurrency,
+            resumeJobId,
+        } = req.body || {};
+
+        // If resuming, load the previous job
+        let existingJob = null;
+        if (resumeJobId) {
+            existingJob = await getJob(resumeJobId);
+            if (!existingJob) {
+                res.status(404).json({ error: 'Job to resume not found' });
+                return;
+            }
+            if (!canResumeJob(existingJob)) {
+                res.status(400).json({ error: 'Job cannot be resumed (already completed)' });
+                return;
+            }
+        }
+
+        const targetSessionIds = Array.isArray(sessionIds) && sessionIds.length > 0
+            ? sessionIds
+            : (sessionId ? [sessionId] : []);
+
+        if (targetSessionIds.length === 0 && !existingJob) {
+            res.status(400).json({ error: 'sessionId or sessionIds is required' });
+            return;
+        }
+        if (!VALID_ACTIONS.includes(action)) {
+            res.status(400).json({ error: `Invalid action. Must be one of: ${VALID_ACTIONS.join(', ')}` });
+            return;
+        }
+        if (method !== undefined && !VALID_METHODS.includes(method)) {
+            res.status(400).json({ error: `Invalid method. Must be one of: ${VALID_METHODS.join(', ')}` });
+            return;
+        }
+
+        // Create new job or update existing for resume
+        const job = existingJob || await createJob('dedup');
+
+        // Mark as running if resuming a failed/stalled job
+        if (existingJob && existingJob.status === JobStatus.Failed) {
+            updateJob(job.id, { status: JobStatus.Running, error: null });
+        }
+
+        res.json({ jobId: job.id });
+
+        // Store original params so we can rerun this job later
+        const jobParams = existingJob?.params || {
+            sessionIds: targetSessionIds,
+            method, threshold, fieldWeights, shingleSize, numHashes,
+            action, dryRun: !!dryRun,
+            sleepMs, concurrency: reqConcurrency,
+        };
+
+        // Store sessionId at top level for easy access by tools/UI
+        await updateJob(job.id, {
+            params: jobParams,
+            sessionId: jobParams.sessionIds[0]
+        });
+
+        // Run dedup in background
+        (async () => {
+            updateJob(job.id, { status: JobStatus.Running });
+
+            // Load resume state if resuming
+            const resumeState = extractResumeState(existingJob);
+            const trace = resumeState.trace;
+            const processedIds = resumeState.processedIds;
+
+            try {
+                const params = jobParams;
+                const options = resolveDedupOptions(params);
+                const concurrency = (typeof params.concurrency === 'number' && params.concurrency > 0) ? params.concurrency : 10;
+                const sleepTime = typeof params.sleepMs === 'number' ? params.sleepMs : 0;
+
+                if (!existingJob) {
+                    trace.push({
+                        type: 'info',
+                        message: `Job started: sessions=${params.sessionIds.join(', ')}, action=${params.action}${params.dryRun ? ' (dry run)' : ''}`,
+                        timestamp: Date.now()
+                    });
+                }
+                trace.push({
+                    type: 'info',
+                    message: `Config: method=${options.method}, threshold=${options.threshold}, shingleSize=${options.shingleSize}, numHashes=${options.numHashes}, weights=${JSON.stringify(options.fieldWeights)}`,
+                    timestamp: Date.now()
+                });
+
+                // Fetch every log of every session; clustering needs the whole corpus at once
+                const logs = [];
+                const sessionByLogId = new Map();
+                for (const sid of params.sessionIds) {
+                    const sessionLogs = await repo.fetchLogsForProcessing(sid);
+                    sessionLogs.forEach(log => {
+                        sessionByLogId.set(log.id, sid);
+                        logs.push(log);
+                    });
+                }
+                trace.push({ type: 'info', message: `Fetched ${logs.length} items`, timestamp: Date.now() });
+                updateJob(job.id, { progress: { ...resumeState.progress, phase: 'clustering', fetched: logs.length } });
+
+                const clusters = findDuplicateClusters(logs, options);
+
+                // Expand clusters into per-log work items
+                const work = [];
+                const groupsPreview = [];
+                for (const cluster of clusters) {
+                    const keeperIndex = pickKeeperIndex(logs, cluster.memberIndices);
+                    const groupId = `${SERVER_GROUP_PREFIX}${logs[keeperIndex].id}`;
+                    const duplicateIndices = cluster.memberIndices.filter(index => index !== keeperIndex);
+
+                    if (groupsPreview.length < 20) {
+                        groupsPreview.push({
+                            groupId,
+                            keepId: logs[keeperIndex].id,
+                            duplicateIds: duplicateIndices.map(index => logs[index].id),
+                            queryPreview: (logs[keeperIndex].query || '').slice(0, 50),
+                        });
+                    }
+
+                    const targets = params.action === 'delete' ? duplicateIndices : cluster.memberIndices;
+                    targets.forEach(index => {
+                        work.push({
+                            log: logs[index],
+                            groupId,
+                            similarity: cluster.similarities.get(index) || 0,
+                        });
+                    });
+                }
+
+                // Marks from earlier runs on logs that left every group; a null groupId clears them
+                let staleCount = 0;
+                if (params.action === 'mark') {
+                    const grouped = new Set(work.map(entry => entry.log.id));
+                    logs.forEach(log => {
+                        if (grouped.has(log.id) || !log.duplicateGroupId?.startsWith(SERVER_GROUP_PREFIX)) return;
+                        work.push({ log, groupId: null, similarity: null });
+                        staleCount++;
+                    });
+                }
+
+                const duplicateCount = clusters.reduce((sum, cluster) => sum + cluster.memberIndices.length - 1, 0);
+                trace.push({
+                    type: 'info',
+                    message: `Found ${clusters.length} duplicate groups (${duplicateCount} redundant items)${staleCount > 0 ? `, clearing ${staleCount} stale marks` : ''}`,
+                    timestamp: Date.now()
+                });
+
+                if (params.dryRun) {
+                    updateJob(job.id, {
+                        status: JobStatus.Completed,
+                        progress: { total: work.length, current: 0 },
+                        result: {
+                            dryRun: true,
+                            groupCount: clusters.length,
+                            duplicateCount,
+                            groups: groupsPreview,
+                            message: params.action === 'delete'
+                                ? `Would remove ${duplicateCount} items from ${clusters.length} groups.`
+                                : `Would mark ${work.length - staleCount} items in ${clusters.length} groups and clear ${staleCount} stale marks.`,
+                            trace
+                        }
+                    });
+                    return;
+                }
+
+                // Filter out already processed items when resuming
+                let pending = work;
+                if (processedIds.size > 0) {
+                    pending = work.filter(entry => !processedIds.has(entry.log.id));
+                    trace.push({
+                        type: 'info',
+                        message: `Resuming job: skipping ${processedIds.size} already processed items`,
+                        timestamp: Date.now()
+                    });
+                }
+
+                // Both count this run's work set; deleted items drop out of the rescan, so the saved counter would overshoot
+                const total = work.length;
+                let marked = resumeState.progress.marked || 0;
+                let cleared = resumeState.progress.cleared || 0;
+                let deleted = resumeState.progress.deleted || 0;
+                let errors = resumeState.progress.errors || 0;
+                let processed = work.length - pending.length;
+                let cancelled = false;
+                const deletedBySession = new Map();
+
+                const batchSize = params.action === 'delete' ? DELETE_BATCH_SIZE : concurrency;
+                for (let batchStart = 0; batchStart < pending.length; batchStart += batchSize) {
+                    // Check for cancellation before each batch
+                    const currentJob = await getJob(job.id);
+                    if (currentJob && currentJob.status === JobStatus.Failed) {
+                        console.log(`[dedup] Job ${job.id} cancelled, stopping at ${processed}/${total}`);
+                        trace.push({ type: 'warn', message: `Cancelled by user at item ${processed}/${total}`, timestamp: Date.now() });
+                        cancelled = true;
+                        break;
+                    }
+
+                    const batch = pending.slice(batchStart, batchStart + batchSize);
+
+                    if (params.action === 'delete') {
+                        try {
+                            await repo.deleteLogs(batch.map(entry => entry.log.id));
+                            batch.forEach(entry => {
+                                const sid = sessionByLogId.get(entry.log.id);
+                                deletedBySession.set(sid, (deletedBySession.get(sid) || 0) + 1);
+                                trace.push({ type: 'deduped', logId: entry.log.id, action: 'deleted', groupId: entry.groupId, similarity: entry.similarity, timestamp: Date.now() });
+                            });
+                            deleted += batch.length;
+                        } catch (err) {
+                            console.error(`[dedup] Batch delete failed:`, err?.message || err);
+                            errors += batch.length;
+                            batch.forEach(entry => {
+                                trace.push({ type: 'error', logId: entry.log.id, error: String(err?.message || err).slice(0, 200), timestamp: Date.now() });
+                            });
+                        }
+                        processed += batch.length;
+                    } else {
+                        const results = await Promise.allSettled(batch.map(entry => repo.updateLog(entry.log.id, {
+                            isDuplicate: entry.groupId !== null,
+                            duplicateGroupId: entry.groupId,
+                            duplicateSimilarity: entry.similarity,
+                            updatedAt: Date.now(),
+                        })));
+
+                        for (let j = 0; j < results.length; j++) {
+                            const r = results[j];
+                            const entry = batch[j];
+                            if (r.status === 'fulfilled') {
+                                if (entry.groupId === null) cleared++;
+                                else marked++;
+                                trace.push({ type: 'deduped', logId: entry.log.id, action: entry.groupId === null ? 'cleared' : 'marked', groupId: entry.groupId, similarity: entry.similarity, timestamp: Date.now() });
+                            } else {
+                                const err = r.reason;
+                                console.error(`[dedup] Error marking log ${entry.log.id}:`, err?.message || err);
+                                errors++;
+                                trace.push({ type: 'error', logId: entry.log.id, error: String(err?.message || err).slice(0, 200), timestamp: Date.now() });
+                            }
+                            processed++;
+                        }
+                    }
+
+                    updateJob(job.id, {
+                        progress: { marked, cleared, deleted, errors, total, current: processed, groups: clusters.length },
+                        result: { totalMarked: marked, totalCleared: cleared, totalDeleted: deleted, totalErrors: errors, groupCount: clusters.length, total, trace },
+                    });
+
+                    // Rate limiting between batches
+                    if (sleepTime > 0 && batchStart + batchSize < pending.length) {
+                        await new Promise(r => setTimeout(r, sleepTime));
+                    }
+                }
+
+                // Update each session's logCount for removed items
+                for (const [sid, count] of deletedBySession) {
+                    try {
+                        await repo.incrementSessionField(sid, 'logCount', -count);
+                    } catch (err) {
+                        console.warn(`[dedup] Failed to update logCount for session ${sid}:`, err);
+                    }
+                }
+
+                const result = {
+                    totalMarked: marked,
+                    totalCleared: cleared,
+                    totalDeleted: deleted,
+                    totalErrors: errors,
+                    groupCount: clusters.length,
+                    groups: groupsPreview,
+                    total,
+                    trace
+                };
+                if (cancelled) {
+                    updateJob(job.id, { result: { ...result, cancelled: true } });
+                } else {
+                    updateJob(job.id, { status: JobStatus.Completed, result });
+                }
+            } catch (error) {
+                console.error('[dedup] Job failed:', error);
+                trace.push({ type: 'error', message: String(error), timestamp: Date.now() });
+                updateJob(job.id, { status: JobStatus.Failed, error: String(error), result: { trace } });
+            }
+        })();
+    });
+};
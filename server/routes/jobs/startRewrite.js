@@ -3,6 +3,8 @@ import { callChatCompletion } from '../../services/aiClient.js';
 import { decryptKey } from '../../utils/keyEncryption.js';
 import { sanitizeReasoningContent } from '../../utils/reasoningSanitizer.js';
 import { canResumeJob, extractResumeState } from '../../jobs/jobResume.js';
+import { createCostMeter } from '../../utils/costCalculator.js';
+import { describeCacheParams } from '../../cache/responseCache.js';
 
 /**
  * Strip markdown code block encapsulation from AI responses
@@ -163,7 +165,7 @@ const buildRewriteUserPrompt = (log, field) => {
 /**
  * Rewrite a single message in a conversation
  */
-const rewriteMessage = async ({ messages, messageIndex, field, baseUrl, apiKey, model, provider, maxRetries, retryDelay, customSystemPrompt, fieldPrompts }) => {
+const rewriteMessage = async ({ messages, messageIndex, field, baseUrl, apiKey, model, provider, maxRetries, retryDelay, customSystemPrompt, fieldPrompts, onUsage, cache }) => {
     const message = messages[messageIndex];
     const { reasoning, answer } = parseMessageContent(message);
 
@@ -202,6 +204,8 @@ const rewriteMessage = async ({ messages, messageIndex, field, baseUrl, apiKey,
         temperature: 0.7,
         maxRetries,
         retryDelay,
+        onUsage,
+        cache,
     });
 
     return cleanRewriteOutput(stripCodeBlocks(result), field);
@@ -210,7 +214,7 @@ const rewriteMessage = async ({ messages, messageIndex, field, baseUrl, apiKey,
 /**
  * Process a single log item with conversational data (messages array)
  */
-const rewriteConversationalItem = async ({ log, fields, repo, baseUrl, apiKey, model, provider, maxRetries, retryDelay, customSystemPrompt, fieldPrompts }) => {
+const rewriteConversationalItem = async ({ log, fields, repo, baseUrl, apiKey, model, provider, maxRetries, retryDelay, customSystemPrompt, fieldPrompts, onUsage, cache }) => {
     const messages = [...log.messages]; // Clone to modify
     const fieldResults = [];
     let anyUpdates = false;
@@ -245,6 +249,8 @@ const rewriteConversationalItem = async ({ log, fields, repo, baseUrl, apiKey, m
                     retryDelay,
                     customSystemPrompt,
                     fieldPrompts,
+                    onUsage,
+                    cache,
                 });
 
                 if (newContent && newContent.length > 0) {
@@ -310,7 +316,7 @@ const rewriteConversationalItem = async ({ log, fields, repo, baseUrl, apiKey, m
 /**
  * Process a single log item with flat data (query/reasoning/answer fields)
  */
-const rewriteFlatItem = async ({ log, fields, repo, baseUrl, apiKey, model, provider, maxRetries, retryDelay, customSystemPrompt, fieldPrompts }) => {
+const rewriteFlatItem = async ({ log, fields, repo, baseUrl, apiKey, model, provider, maxRetries, retryDelay, customSystemPrompt, fieldPrompts, onUsage, cache }) => {
     const updates = {};
     const fieldResults = [];
 
@@ -332,6 +338,8 @@ const rewriteFlatItem = async ({ log, fields, repo, baseUrl, apiKey, model, prov
                 temperature: 0.7,
                 maxRetries,
                 retryDelay,
+                onUsage,
+                cache,
             });
 
             const cleaned = cleanRewriteOutput(stripCodeBlocks(result), field);
@@ -402,7 +410,7 @@ export const registerStartRewriteRoute = (app, { repo, createJob, updateJob, get
             apiKey: encryptedApiKey, fields, limit, offset, sleepMs,
             concurrency: reqConcurrency, maxRetries: reqMaxRetries, retryDelay: reqRetryDelay,
             systemPrompt, fieldPrompts, itemIds,
-            resumeJobId,
+            resumeJobId, pricing, budgetUsd, cache,
         } = req.body || {};
 
         // Check if this is a resume operation
@@ -452,6 +460,10 @@ export const registerStartRewriteRoute = (app, { repo, createJob, updateJob, get
         const resolvedSystemPrompt = systemPrompt || existingParams.systemPrompt;
         const resolvedFieldPrompts = fieldPrompts || existingParams.fieldPrompts;
         const resolvedItemIds = itemIds || existingParams.itemIds;
+        const resolvedPricing = pricing || existingParams.pricing;
+        const resolvedBudgetUsd = budgetUsd !== undefined ? budgetUsd : existingParams.budgetUsd;
+        // Cache settings (including the bypass switch) follow the request that started or resumed the run
+        const resolvedCache = cache !== undefined ? cache : existingParams.cache;
 
         // Decrypt API key
         let apiKey;
@@ -488,6 +500,9 @@ export const registerStartRewriteRoute = (app, { repo, createJob, updateJob, get
             systemPrompt: resolvedSystemPrompt,
             fieldPrompts: resolvedFieldPrompts,
             itemIds: resolvedItemIds,
+            pricing: resolvedPricing,
+            budgetUsd: resolvedBudgetUsd,
+            cache: resolvedCache,
         };
 
         // Store sessionId at top level for easy access by tools/UI
@@ -554,6 +569,10 @@ export const registerStartRewriteRoute = (app, { repo, createJob, updateJob, get
                 let errors = resumeState.progress.errors || 0;
                 let processed = 0;
                 let cancelled = false;
+                let budgetExceeded = false;
+                // Spend carries over on resume, so the budget covers the whole job
+                const costMeter = createCostMeter({ prices: resolvedPricing, budgetUsd: resolvedBudgetUsd, spentUsd: resumeState.progress.cost || 0 });
+                const onUsage = (usage, used) => costMeter.add(used.provider, used.model, usage);
 
                 // Log initial job context (only if not resuming)
                 if (!resumeJobId) {
@@ -570,7 +589,7 @@ export const registerStartRewriteRoute = (app, { repo, createJob, updateJob, get
                     });
                     trace.push({
                         type: 'info',
-                        message: `Config: concurrency=${concurrency}, maxRetries=${maxRetries}, retryDelay=${retryDelay}ms, sleepMs=${sleepTime}ms`,
+                        message: `Config: concurrency=${concurrency}, maxRetries=${maxRetries}, retryDelay=${retryDelay}ms, sleepMs=${sleepTime}ms${resolvedBudgetUsd > 0 ? `, budget=$${resolvedBudgetUsd}` : ''}${describeCacheParams(resolvedCache)}`,
                         timestamp: Date.now()
                     });
                 }
@@ -585,12 +604,18 @@ export const registerStartRewriteRoute = (app, { repo, createJob, updateJob, get
                         cancelled = true;
                         break;
                     }
+                    if (costMeter.isExceeded()) {
+                        console.log(`[rewrite] Job ${job.id} over budget, stopping at ${processed}/${total}`);
+                        trace.push({ type: 'warn', message: `Budget of $${resolvedBudgetUsd} exceeded ($${costMeter.total.toFixed(4)} spent) at item ${processed}/${total}`, timestamp: Date.now() });
+                        budgetExceeded = true;
+                        break;
+                    }
 
                     const batch = logs.slice(batchStart, batchStart + concurrency);
 
                     // Run batch concurrently
                     const results = await Promise.allSettled(
-                        batch.map(log => rewriteOneItem({ log, fields: validFields, repo, baseUrl, apiKey, model: resolvedModel, provider: resolvedProvider, maxRetries, retryDelay, customSystemPrompt: resolvedSystemPrompt, fieldPrompts: resolvedFieldPrompts }))
+                        batch.map(log => rewriteOneItem({ log, fields: validFields, repo, baseUrl, apiKey, model: resolvedModel, provider: resolvedProvider, maxRetries, retryDelay, customSystemPrompt: resolvedSystemPrompt, fieldPrompts: resolvedFieldPrompts, onUsage, cache: resolvedCache }))
                     );
 
                     // Collect results
@@ -616,8 +641,8 @@ export const registerStartRewriteRoute = (app, { repo, createJob, updateJob, get
                     }
 
                     await updateJob(job.id, {
-                        progress: { rewritten, skipped, errors, total, current: processed, fields: validFields },
-                        result: { totalRewritten: rewritten, totalSkipped: skipped, totalErrors: errors, total, fields: validFields, trace },
+                        progress: { rewritten, skipped, errors, total, current: processed, fields: validFields, cost: costMeter.total },
+                        result: { totalRewritten: rewritten, totalSkipped: skipped, totalErrors: errors, total, fields: validFields, totalCost: costMeter.total, trace },
                     });
 
                     // Rate limiting between batches
@@ -626,14 +651,25 @@ export const registerStartRewriteRoute = (app, { repo, createJob, updateJob, get
                     }
                 }
 
+                if (costMeter.unpriced.length > 0) {
+                    trace.push({ type: 'warn', message: `No price for ${costMeter.unpriced.join(', ')}; its calls are not counted in the job cost`, timestamp: Date.now() });
+                }
+
                 if (cancelled) {
                     await updateJob(job.id, {
-                        result: { totalRewritten: rewritten, totalSkipped: skipped, totalErrors: errors, total, fields: validFields, cancelled: true, trace },
+                        result: { totalRewritten: rewritten, totalSkipped: skipped, totalErrors: errors, total, fields: validFields, totalCost: costMeter.total, cancelled: true, trace },
+                    });
+                } else if (budgetExceeded) {
+                    // Failed so the job can be resumed after raising the budget
+                    await updateJob(job.id, {
+                        status: JobStatus.Failed,
+                        error: `Budget of $${resolvedBudgetUsd} exceeded`,
+                        result: { totalRewritten: rewritten, totalSkipped: skipped, totalErrors: errors, total, fields: validFields, totalCost: costMeter.total, budgetExceeded: true, trace },
                     });
                 } else {
                     await updateJob(job.id, {
                         status: JobStatus.Completed,
-                        result: { totalRewritten: rewritten, totalSkipped: skipped, totalErrors: errors, total, fields: validFields, trace },
+                        result: { totalRewritten: rewritten, totalSkipped: skipped, totalErrors: errors, total, fields: validFields, totalCost: costMeter.total, trace },
                     });
                 }
             } catch (error) {
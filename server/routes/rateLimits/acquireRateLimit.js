@@ -0,0 +1,57 @@
+import { rateLimiter } from '../../services/rateLimitScheduler.js';
+
+/**
+ * Budget requests from browser generation runs. The response is held until the request fits
+ * the key's buckets, so browser calls queue behind backend jobs on the same key.
+ */
+export const registerAcquireRateLimitRoutes = (app) => {
+    app.post('/api/rate-limits/acquire', async (req, res) => {
+        const { provider, model, tokens } = req.body || {};
+        if (!provider || typeof model !== 'string') {
+            res.status(400).json({ error: 'provider and model are required' });
+            return;
+        }
+
+        // Drop the waiter if the browser gives up (abort, tab closed)
+        const abortController = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) abortController.abort();
+        });
+
+        try {
+            const waitedMs = await rateLimiter.acquire(provider, model, Number(tokens) || 0, abortController.signal);
+            res.json({ waitedMs });
+        } catch (error) {
+            if (error?.name === 'AbortError') return;
+            res.status(500).json({ error: String(error?.message || error) });
+        }
+    });
+
+    // Outcome of a browser call: settles the token estimate or pauses the key after a 429
+    app.post('/api/rate-limits/report', (req, res) => {
+        const { provider, model, outcome, reservedTokens, actualTokens, retryAfterMs, fallbackDelayMs } = req.body || {};
+        if (!provider || typeof model !== 'string' || !['success', 'limited'].includes(outcome)) {
+            res.status(400).json({ error: 'provider, model and outcome ("success" | "limited") are required' });
+            return;
+        }
+
+        if (outcome === 'limited') {
+            const pauseMs = rateLimiter.recordRateLimited(
+                provider,
+                model,
+                typeof retryAfterMs === 'number' ? retryAfterMs : null,
+                Number(fallbackDelayMs) || 2000
+            );
+            res.json({ pauseMs });
+            return;
+        }
+
+        rateLimiter.recordSuccess(
+            provider,
+            model,
+            Number(reservedTokens) || 0,
+            typeof actualTokens === 'number' ? actualTokens : undefined
+        );
+        res.json({ ok: true });
+    });
+};
@@ -0,0 +1,18 @@
+import { getRateLimitRules, rateLimiter, setRateLimitRules } from '../../services/rateLimitScheduler.js';
+
+export const registerRateLimitRoutes = (app) => {
+    // Current rules and per-key bucket state
+    app.get('/api/rate-limits', (_req, res) => {
+        res.json({ rules: getRateLimitRules(), state: rateLimiter.getState() });
+    });
+
+    // Replace the rules (pushed by the frontend when settings are saved)
+    app.put('/api/rate-limits', (req, res) => {
+        const { rules } = req.body || {};
+        if (!Array.isArray(rules)) {
+            res.status(400).json({ error: 'rules must be an array' });
+            return;
+        }
+        res.json({ rules: setRateLimitRules(rules) });
+    });
+};
@@ -0,0 +1,14 @@
+import { clearResponseCache, getResponseCacheStats } from '../../cache/responseCache.js';
+
+export const registerResponseCacheRoutes = (app) => {
+    // Hit/miss counters and size of the backend response cache
+    app.get('/api/response-cache', (_req, res) => {
+        res.json(getResponseCacheStats());
+    });
+
+    // Drop every cached response and reset the counters
+    app.delete('/api/response-cache', (_req, res) => {
+        clearResponseCache();
+        res.json(getResponseCacheStats());
+    });
+};
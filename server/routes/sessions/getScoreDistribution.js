@@ -51,7 +51,8 @@ export const registerGetScoreDistributionRoute = (app, { repo }) => {
                 scoreField: dist.scoreField,
                 statistics: dist.statistics,
                 distribution: dist.distribution,
-                thresholdPreview: dist.thresholdPreview
+                thresholdPreview: dist.thresholdPreview,
+                ...(dist.criteria && Object.keys(dist.criteria).length > 0 ? { criteria: dist.criteria } : {})
             });
         } catch (error) {
             console.error('[getScoreDistribution] Error:', error);
@@ -0,0 +1,62 @@
+import { isCodeRunnerEnabled, runCodeTests, SUPPORTED_LANGUAGES } from '../../services/codeRunner.js';
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+const getAllowedOrigins = () => (process.env.CODE_RUNNER_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(Boolean);
+
+/**
+ * Browsers always send Origin on cross-site POSTs; requests without one come from local tools
+ * @param {string | undefined} origin
+ */
+export const isAllowedOrigin = (origin) => {
+    if (!origin) return true;
+    if (getAllowedOrigins().includes(origin)) return true;
+    try {
+        return LOOPBACK_HOSTS.includes(new URL(origin).hostname);
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Run generated code against unit tests
+ * POST /api/verify/code
+ *
+ * Off unless CODE_RUNNER_ENABLED=true, and then only for requests from this machine
+ * whose Origin is a localhost page or listed in CODE_RUNNER_ALLOWED_ORIGINS.
+ */
+export const registerRunCodeTestsRoute = (app) => {
+    app.post('/api/verify/code', async (req, res) => {
+        if (!isCodeRunnerEnabled()) {
+            res.status(403).json({ error: 'Code execution is disabled; set CODE_RUNNER_ENABLED=true on the backend to enable it.' });
+            return;
+        }
+        if (!LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress)) {
+            res.status(403).json({ error: 'Code execution only accepts requests from localhost.' });
+            return;
+        }
+        if (!isAllowedOrigin(req.get('origin'))) {
+            res.status(403).json({ error: 'Origin not allowed to run code.' });
+            return;
+        }
+        try {
+            const { language = 'python', code, tests, timeoutMs } = req.body || {};
+            if (!SUPPORTED_LANGUAGES.includes(language)) {
+                res.status(400).json({ error: `language must be one of: ${SUPPORTED_LANGUAGES.join(', ')}` });
+                return;
+            }
+            if (typeof code !== 'string' || typeof tests !== 'string' || !tests.trim()) {
+                res.status(400).json({ error: 'code and tests are required' });
+                return;
+            }
+            const result = await runCodeTests({ language, code, tests, timeoutMs });
+            res.json(result);
+        } catch (error) {
+            res.status(500).json({ error: String(error.message || error) });
+        }
+    });
+};
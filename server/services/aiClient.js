@@ -2,9 +2,14 @@
  * Chat completions caller for backend jobs using official SDKs.
  * Uses @anthropic-ai/sdk for Anthropic-compatible providers,
  * and openai SDK for OpenAI-compatible providers.
+ * Calls are paced by the shared per-provider rate limiter and fall through an optional
+ * chain of fallback models when a model keeps failing. Identical calls are answered from the
+ * response cache when the caller turns it on and does not bypass it.
  */
 import Anthropic from '@anthropic-ai/sdk';
 import OpenAI from 'openai';
+import { getUsageTokens, withRateLimit } from './rateLimitScheduler.js';
+import { getCachedResponse, recordCacheBypass, setCachedResponse, toResponseCacheKey } from '../cache/responseCache.js';
 
 const DEFAULT_MAX_RETRIES = 2;
 const DEFAULT_RETRY_DELAY_MS = 2000;
@@ -14,6 +19,14 @@ const ANTHROPIC_COMPATIBLE = new Set(['anthropic', 'minimax']);
 
 const isAnthropicCompatible = (provider) => ANTHROPIC_COMPATIBLE.has(provider);
 
+/** The provider refused to answer (Anthropic refusal, OpenAI content_filter); the fallbacks may answer instead */
+export class ContentFilterError extends Error {
+    constructor(provider, model) {
+        super(`${provider}/${model} refused the request (content filter)`);
+        this.name = 'ContentFilterError';
+    }
+}
+
 /**
  * Normalise the base URL for the OpenAI SDK.
  * The SDK appends /chat/completions, so strip it if present.
@@ -38,6 +51,12 @@ const normaliseOpenAIBaseUrl = (baseUrl) => {
  * @param {number} [options.temperature] – Temperature (default: 0.3)
  * @param {number} [options.maxRetries] – Retry count (default: 2)
  * @param {number} [options.retryDelay] – Delay between retries in ms (default: 2000)
+ * @param {Function} [options.onUsage] – Receives the usage object of each answered (or refused) call and its { provider, model }
+ * @param {Array} [options.fallbacks] – { provider, model, baseUrl, apiKey } tried in order once a model fails after its retries
+ *   or refuses; refusals are not retried, and the last model's refusal throws ContentFilterError
+ * @param {Function} [options.onModelUsed] – Receives { provider, model } of the model that answered
+ * @param {object} [options.cache] – { enabled, bypass, ttlMs }; not cached unless enabled. A bypassed call skips the
+ *   cache read but still stores its response. Cache hits are free, so onUsage is not called for them.
  * @returns {Promise<string>} The assistant's response content
  */
 export async function callChatCompletion({
@@ -55,74 +74,109 @@ export async function callChatCompletion({
     topK,
     frequencyPenalty,
     presencePenalty,
+    onUsage,
+    fallbacks = [],
+    onModelUsed,
+    cache = {},
 }) {
-    let lastError = null;
+    const callOnce = async ({ baseUrl, apiKey, model, provider }) => {
+        if (isAnthropicCompatible(provider)) {
+            const client = new Anthropic({
+                apiKey,
+                baseURL: baseUrl.replace(/\/+$/, ''),
+                maxRetries: 0,
+            });
 
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-        try {
-            if (isAnthropicCompatible(provider)) {
-                const client = new Anthropic({
-                    apiKey,
-                    baseURL: baseUrl.replace(/\/+$/, ''),
-                });
+            const response = await client.messages.create({
+                model,
+                max_tokens: maxTokens,
+                temperature,
+                ...(topP != null && { top_p: topP }),
+                ...(topK != null && { top_k: topK }),
+                system: systemPrompt,
+                messages: [{ role: 'user', content: userPrompt }],
+            });
 
-                const response = await client.messages.create({
-                    model,
-                    max_tokens: maxTokens,
-                    temperature,
-                    ...(topP != null && { top_p: topP }),
-                    ...(topK != null && { top_k: topK }),
-                    system: systemPrompt,
-                    messages: [{ role: 'user', content: userPrompt }],
-                });
+            const content = response.content?.[0]?.type === 'text'
+                ? response.content[0].text
+                : null;
+            const refused = response.stop_reason === 'refusal';
 
-                const content = response.content?.[0]?.type === 'text'
-                    ? response.content[0].text
-                    : null;
+            if (!refused && (content === undefined || content === null)) {
+                throw new Error('No content in Anthropic API response');
+            }
+            return { content, usage: response.usage, refused };
+        }
 
-                if (content === undefined || content === null) {
-                    throw new Error('No content in Anthropic API response');
-                }
-                return content;
-            } else {
-                const client = new OpenAI({
-                    apiKey: apiKey || 'ollama-local',
-                    baseURL: normaliseOpenAIBaseUrl(baseUrl),
-                });
+        const client = new OpenAI({
+            apiKey: apiKey || 'ollama-local',
+            baseURL: normaliseOpenAIBaseUrl(baseUrl),
+            maxRetries: 0,
+        });
 
-                const response = await client.chat.completions.create({
-                    model,
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userPrompt },
-                    ],
-                    max_tokens: maxTokens,
-                    temperature,
-                    ...(topP != null && { top_p: topP }),
-                    ...(frequencyPenalty != null && { frequency_penalty: frequencyPenalty }),
-                    ...(presencePenalty != null && { presence_penalty: presencePenalty }),
-                });
+        const response = await client.chat.completions.create({
+            model,
+            messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: userPrompt },
+            ],
+            max_tokens: maxTokens,
+            temperature,
+            ...(topP != null && { top_p: topP }),
+            ...(frequencyPenalty != null && { frequency_penalty: frequencyPenalty }),
+            ...(presencePenalty != null && { presence_penalty: presencePenalty }),
+        });
 
-                const content = response.choices?.[0]?.message?.content;
-                if (content === undefined || content === null) {
-                    throw new Error('No content in OpenAI API response');
-                }
-                return content;
-            }
-        } catch (error) {
-            lastError = error;
+        const content = response.choices?.[0]?.message?.content;
+        const refused = response.choices?.[0]?.finish_reason === 'content_filter';
+        if (!refused && (content === undefined || content === null)) {
+            throw new Error('No content in OpenAI API response');
+        }
+        return { content, usage: response.usage, refused };
+    };
 
-            // Don't retry on auth errors
-            const status = error?.status || error?.statusCode;
-            if (status && status >= 400 && status < 500 && status !== 429) {
-                throw error;
-            }
+    const useCache = cache?.enabled === true;
+    const cacheKey = useCache
+        ? toResponseCacheKey({ provider, baseUrl, model, systemPrompt, userPrompt, maxTokens, temperature, topP, topK, frequencyPenalty, presencePenalty })
+        : null;
+    if (cacheKey && cache?.bypass) {
+        recordCacheBypass();
+    } else if (cacheKey) {
+        const cached = getCachedResponse(cacheKey);
+        if (cached) {
+            onModelUsed?.({ provider: cached.provider, model: cached.model });
+            return cached.content;
+        }
+    }
 
-            if (attempt < maxRetries) {
-                await new Promise((r) => setTimeout(r, retryDelay));
+    const chain = [
+        { baseUrl, apiKey, model, provider },
+        ...(Array.isArray(fallbacks) ? fallbacks.filter(f => f?.model && f?.baseUrl) : []),
+    ];
+
+    let lastError;
+    for (let i = 0; i < chain.length; i++) {
+        const target = chain[i];
+        try {
+            // Retries (429s with Retry-After, 5xx, network errors) go through the shared scheduler
+            const { content, usage, refused } = await withRateLimit(
+                { provider: target.provider || '', model: target.model, promptText: `${systemPrompt || ''}\n${userPrompt || ''}`, maxRetries, retryDelay },
+                () => callOnce({ ...target, provider: target.provider || '' }),
+                (result) => getUsageTokens(result.usage)
+            );
+            if (onUsage && usage) onUsage(usage, { provider: target.provider, model: target.model });
+            // A refusal is billed but would repeat on retry, so it is neither retried nor cached
+            if (refused) throw new ContentFilterError(target.provider, target.model);
+            onModelUsed?.({ provider: target.provider, model: target.model });
+            if (cacheKey) {
+                setCachedResponse(cacheKey, { content, usage, provider: target.provider, model: target.model }, cache?.ttlMs);
             }
+            return content;
+        } catch (err) {
+            lastError = err;
+            const next = chain[i + 1];
+            if (next) console.warn(`[aiClient] ${target.provider}/${target.model} failed, falling back to ${next.provider}/${next.model}: ${err?.message || err}`);
         }
     }
-
-    throw lastError || new Error('callChatCompletion failed after retries');
+    throw lastError;
 }
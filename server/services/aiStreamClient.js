@@ -2,9 +2,11 @@
  * Streaming AI client for backend SSE proxying.
  * Uses official SDKs: @anthropic-ai/sdk for Anthropic-compatible,
  * openai for OpenAI-compatible providers.
+ * Requests are paced by the shared per-provider rate limiter.
  */
 import Anthropic from '@anthropic-ai/sdk';
 import OpenAI from 'openai';
+import { getUsageTokens, withRateLimit } from './rateLimitScheduler.js';
 
 const DEFAULT_MAX_RETRIES = 2;
 const DEFAULT_RETRY_DELAY_MS = 2000;
@@ -276,17 +278,30 @@ export async function streamChatCompletion({
     console.log('[aiStreamClient] Provider:', provider, '| Model:', model, '| BaseUrl:', baseUrl);
     console.log('[aiStreamClient] Messages:', messages.length, '| Tools:', tools?.length || 0);
 
-    if (isAnthropicCompatible(provider)) {
-        return streamAnthropic({
-            baseUrl, apiKey, model, messages, onChunk, signal,
-            maxTokens, temperature, maxRetries,
-        });
-    } else {
-        return streamOpenAI({
-            baseUrl, apiKey, model, messages, onChunk, signal,
-            maxTokens, temperature, tools, responseFormat, maxRetries, provider,
-        });
-    }
+    // Retries go through the shared scheduler (not the SDK) so 429s pause every caller on this key.
+    // Once chunks have reached the client a retry would repeat them, so the error is surfaced instead.
+    let streamed = false;
+    const trackedOnChunk = (...args) => {
+        streamed = true;
+        return onChunk(...args);
+    };
+    const promptText = messages
+        .map((m) => (typeof m.content === 'string' ? m.content : JSON.stringify(m.content ?? '')))
+        .join('\n');
+
+    return withRateLimit(
+        { provider, model, promptText, maxRetries, retryDelay, signal, canRetry: () => !streamed },
+        () => (isAnthropicCompatible(provider)
+            ? streamAnthropic({
+                baseUrl, apiKey, model, messages, onChunk: trackedOnChunk, signal,
+                maxTokens, temperature, maxRetries: 0,
+            })
+            : streamOpenAI({
+                baseUrl, apiKey, model, messages, onChunk: trackedOnChunk, signal,
+                maxTokens, temperature, tools, responseFormat, maxRetries: 0, provider,
+            })),
+        (result) => getUsageTokens(result.usage)
+    );
 }
 
 /**
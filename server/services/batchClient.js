@@ -0,0 +1,195 @@
+/**
+ * Provider Batch API client for backend batch jobs.
+ * OpenAI batches go through an uploaded JSONL file and /v1/batches; Anthropic uses Message Batches.
+ * Batched requests are billed at half the list price and finish within 24 hours.
+ */
+import Anthropic from '@anthropic-ai/sdk';
+import OpenAI, { toFile } from 'openai';
+
+/** Providers with a Batch API */
+export const BATCH_PROVIDERS = Object.freeze(['openai', 'anthropic']);
+
+/** Share of the list price charged for batched requests */
+export const BATCH_PRICE_FACTOR = 0.5;
+
+export const isBatchProvider = (provider) => BATCH_PROVIDERS.includes(provider);
+
+const DEFAULT_MAX_TOKENS = 8192;
+
+/** OpenAI batch statuses after which the batch no longer changes */
+const OPENAI_ENDED_STATUSES = new Set(['completed', 'failed', 'expired', 'cancelled']);
+
+const createAnthropicClient = ({ baseUrl, apiKey }) => new Anthropic({
+    apiKey,
+    baseURL: baseUrl.replace(/\/+$/, '').replace(/\/v1$/, ''),
+    maxRetries: 2,
+});
+
+const createOpenAIClient = ({ baseUrl, apiKey }) => new OpenAI({
+    apiKey,
+    baseURL: baseUrl.replace(/\/+$/, '').replace(/\/chat\/completions$/, ''),
+    maxRetries: 2,
+});
+
+/**
+ * Submit one request per item as a provider batch.
+ *
+ * @param {object} options
+ * @param {string} options.provider - 'openai' or 'anthropic'
+ * @param {string} options.baseUrl - Provider base URL (e.g. https://api.openai.com/v1)
+ * @param {string} options.apiKey
+ * @param {string} options.model
+ * @param {string} options.systemPrompt - Shared by every request
+ * @param {Array<{ id: string, userPrompt: string }>} options.items - `id` becomes the request's custom_id
+ * @param {object} [options.generationParams] - Client generation params (camelCase)
+ * @param {boolean} [options.jsonOutput] - Ask OpenAI for a JSON object response
+ * @returns {Promise<{ batchId: string, inputFileId?: string }>}
+ */
+export async function submitBatch({ provider, baseUrl, apiKey, model, systemPrompt, items, generationParams, jsonOutput }) {
+    const maxTokens = generationParams?.maxOutputTokens || generationParams?.maxTokens || DEFAULT_MAX_TOKENS;
+    const temperature = generationParams?.temperature;
+    const topP = generationParams?.topP;
+
+    if (provider === 'anthropic') {
+        const client = createAnthropicClient({ baseUrl, apiKey });
+        const batch = await client.messages.batches.create({
+            requests: items.map(item => ({
+                custom_id: item.id,
+                params: {
+                    model,
+                    max_tokens: maxTokens,
+                    ...(temperature != null && { temperature }),
+                    ...(topP != null && { top_p: topP }),
+                    ...(generationParams?.topK != null && { top_k: generationParams.topK }),
+                    system: systemPrompt,
+                    messages: [{ role: 'user', content: item.userPrompt }],
+                },
+            })),
+        });
+        return { batchId: batch.id };
+    }
+
+    const client = createOpenAIClient({ baseUrl, apiKey });
+    const lines = items.map(item => JSON.stringify({
+        custom_id: item.id,
+        method: 'POST',
+        url: '/v1/chat/completions',
+        body: {
+            model,
+            messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: item.userPrompt },
+            ],
+            max_tokens: maxTokens,
+            ...(temperature != null && { temperature }),
+            ...(topP != null && { top_p: topP }),
+            ...(generationParams?.frequencyPenalty != null && { frequency_penalty: generationParams.frequencyPenalty }),
+            ...(generationParams?.presencePenalty != null && { presence_penalty: generationParams.presencePenalty }),
+            ...(jsonOutput && { response_format: { type: 'json_object' } }),
+        },
+    }));
+    const file = await client.files.create({
+        file: await toFile(Buffer.from(lines.join('\n'), 'utf8'), 'batch.jsonl'),
+        purpose: 'batch',
+    });
+    const batch = await client.batches.create({
+        input_file_id: file.id,
+        endpoint: '/v1/chat/completions',
+        completion_window: '24h',
+    });
+    return { batchId: batch.id, inputFileId: file.id };
+}
+
+/**
+ * Current state of a batch.
+ *
+ * @returns {Promise<{ status: string, ended: boolean, counts: { total: number, succeeded: number, failed: number }, outputFileId?: string, errorFileId?: string }>}
+ *   `status` is the provider's own status string
+ */
+export async function getBatchStatus({ provider, baseUrl, apiKey, batchId }) {
+    if (provider === 'anthropic') {
+        const client = createAnthropicClient({ baseUrl, apiKey });
+        const batch = await client.messages.batches.retrieve(batchId);
+        const counts = batch.request_counts || {};
+        const failed = (counts.errored || 0) + (counts.canceled || 0) + (counts.expired || 0);
+        return {
+            status: batch.processing_status,
+            ended: batch.processing_status === 'ended',
+            counts: { total: (counts.processing || 0) + (counts.succeeded || 0) + failed, succeeded: counts.succeeded || 0, failed },
+        };
+    }
+
+    const client = createOpenAIClient({ baseUrl, apiKey });
+    const batch = await client.batches.retrieve(batchId);
+    const counts = batch.request_counts || {};
+    return {
+        status: batch.status,
+        ended: OPENAI_ENDED_STATUSES.has(batch.status),
+        counts: { total: counts.total || 0, succeeded: counts.completed || 0, failed: counts.failed || 0 },
+        outputFileId: batch.output_file_id || undefined,
+        errorFileId: batch.error_file_id || undefined,
+        ...(batch.errors?.data?.length > 0 && { error: batch.errors.data.map(e => e.message).join('; ') }),
+    };
+}
+
+const parseJsonl = (text) => String(text || '')
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+
+/**
+ * Results of an ended batch, in no particular order.
+ *
+ * @param {object} options
+ * @param {object} options.status - Result of getBatchStatus (OpenAI needs its file ids)
+ * @returns {Promise<Array<{ id: string, content?: string, usage?: object, error?: string }>>}
+ *   `id` is the custom_id; either content or error is set
+ */
+export async function fetchBatchResults({ provider, baseUrl, apiKey, batchId, status }) {
+    if (provider === 'anthropic') {
+        const client = createAnthropicClient({ baseUrl, apiKey });
+        const results = [];
+        for await (const entry of await client.messages.batches.results(batchId)) {
+            const { result } = entry;
+            if (result?.type === 'succeeded') {
+                const content = (result.message?.content || [])
+                    .filter(block => block.type === 'text')
+                    .map(block => block.text)
+                    .join('');
+                results.push({ id: entry.custom_id, content, usage: result.message?.usage });
+            } else {
+                const message = result?.type === 'errored'
+                    ? result.error?.error?.message || result.error?.message || 'Request errored'
+                    : `Request ${result?.type || 'failed'}`;
+                results.push({ id: entry.custom_id, error: message });
+            }
+        }
+        return results;
+    }
+
+    const client = createOpenAIClient({ baseUrl, apiKey });
+    const results = [];
+    for (const fileId of [status?.outputFileId, status?.errorFileId].filter(Boolean)) {
+        const response = await client.files.content(fileId);
+        for (const entry of parseJsonl(await response.text())) {
+            const body = entry.response?.body;
+            const content = body?.choices?.[0]?.message?.content;
+            if (entry.response?.status_code === 200 && typeof content === 'string') {
+                results.push({ id: entry.custom_id, content, usage: body.usage });
+            } else {
+                const message = entry.error?.message || body?.error?.message || `Request failed with status ${entry.response?.status_code ?? 'unknown'}`;
+                results.push({ id: entry.custom_id, error: message });
+            }
+        }
+    }
+    return results;
+}
+
+/** Ask the provider to stop a batch; requests already finished still return results */
+export async function cancelBatch({ provider, baseUrl, apiKey, batchId }) {
+    if (provider === 'anthropic') {
+        await createAnthropicClient({ baseUrl, apiKey }).messages.batches.cancel(batchId);
+        return;
+    }
+    await createOpenAIClient({ baseUrl, apiKey }).batches.cancel(batchId);
+}
@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const sdk = vi.hoisted(() => ({
+    anthropicBatch: null,
+    anthropicResults: [],
+    openaiBatch: null,
+    openaiFiles: {},
+}));
+
+vi.mock('@anthropic-ai/sdk', () => ({
+    default: class {
+        messages = {
+            batches: {
+                retrieve: async () => sdk.anthropicBatch,
+                results: async () => (async function* () { yield* sdk.anthropicResults; })(),
+            },
+        };
+    },
+}));
+vi.mock('openai', () => ({
+    default: class {
+        batches = { retrieve: async () => sdk.openaiBatch };
+        files = { content: async (fileId) => ({ text: async () => sdk.openaiFiles[fileId] }) };
+    },
+    toFile: vi.fn(),
+}));
+
+const { fetchBatchResults, getBatchStatus } = await import('./batchClient.js');
+
+const anthropic = { provider: 'anthropic', baseUrl: 'https://api.anthropic.com/v1', apiKey: 'key', batchId: 'msgbatch_1' };
+const openai = { provider: 'openai', baseUrl: 'https://api.openai.com/v1', apiKey: 'key', batchId: 'batch_1' };
+
+describe('getBatchStatus', () => {
+    beforeEach(() => {
+        sdk.anthropicBatch = null;
+        sdk.openaiBatch = null;
+    });
+
+    it('counts errored, canceled and expired Anthropic requests as failed', async () => {
+        sdk.anthropicBatch = {
+            processing_status: 'ended',
+            request_counts: { processing: 0, succeeded: 5, errored: 1, canceled: 2, expired: 1 },
+        };
+        expect(await getBatchStatus(anthropic)).toEqual({
+            status: 'ended',
+            ended: true,
+            counts: { total: 9, succeeded: 5, failed: 4 },
+        });
+    });
+
+    it('keeps the OpenAI file ids and batch errors', async () => {
+        sdk.openaiBatch = {
+            status: 'failed',
+            request_counts: { total: 3, completed: 0, failed: 0 },
+            output_file_id: null,
+            errors: { data: [{ message: 'bad line 1' }, { message: 'bad line 2' }] },
+        };
+        expect(await getBatchStatus(openai)).toEqual({
+            status: 'failed',
+            ended: true,
+            counts: { total: 3, succeeded: 0, failed: 0 },
+            outputFileId: undefined,
+            errorFileId: undefined,
+            error: 'bad line 1; bad line 2',
+        });
+
+        sdk.openaiBatch = { status: 'in_progress', request_counts: { total: 3, completed: 1, failed: 0 } };
+        expect(await getBatchStatus(openai)).toMatchObject({ ended: false, counts: { succeeded: 1 } });
+    });
+});
+
+describe('fetchBatchResults', () => {
+    it('joins the text blocks of Anthropic messages and reports failed requests', async () => {
+        sdk.anthropicResults = [
+            {
+                custom_id: 'a',
+                result: {
+                    type: 'succeeded',
+                    message: {
+                        content: [{ type: 'thinking', thinking: 'hidden' }, { type: 'text', text: '{"answer":' }, { type: 'text', text: '"4"}' }],
+                        usage: { input_tokens: 3, output_tokens: 2 },
+                    },
+                },
+            },
+            { custom_id: 'b', result: { type: 'errored', error: { error: { message: 'overloaded' } } } },
+            { custom_id: 'c', result: { type: 'expired' } },
+        ];
+        expect(await fetchBatchResults(anthropic)).toEqual([
+            { id: 'a', content: '{"answer":"4"}', usage: { input_tokens: 3, output_tokens: 2 } },
+            { id: 'b', error: 'overloaded' },
+            { id: 'c', error: 'Request expired' },
+        ]);
+    });
+
+    it('reads both OpenAI output and error files', async () => {
+        const ok = (id, content) => JSON.stringify({ custom_id: id, response: { status_code: 200, body: { choices: [{ message: { content } }], usage: { prompt_tokens: 1 } } } });
+        sdk.openaiFiles = {
+            'file-out': `${ok('a', 'first')}\n\n${ok('b', 'second')}\n`,
+            'file-err': [
+                JSON.stringify({ custom_id: 'c', response: { status_code: 400, body: { error: { message: 'too long' } } } }),
+                JSON.stringify({ custom_id: 'd', response: null, error: { message: 'expired' } }),
+            ].join('\n'),
+        };
+        const results = await fetchBatchResults({ ...openai, status: { outputFileId: 'file-out', errorFileId: 'file-err' } });
+        expect(results).toEqual([
+            { id: 'a', content: 'first', usage: { prompt_tokens: 1 } },
+            { id: 'b', content: 'second', usage: { prompt_tokens: 1 } },
+            { id: 'c', error: 'too long' },
+            { id: 'd', error: 'expired' },
+        ]);
+    });
+
+    it('returns nothing for an OpenAI batch that wrote no files', async () => {
+        expect(await fetchBatchResults({ ...openai, status: {} })).toEqual([]);
+    });
+});
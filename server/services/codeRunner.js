@@ -0,0 +1,117 @@
+/**
+ * Unit-test runner for ground-truth code verification.
+ * Off unless CODE_RUNNER_ENABLED=true. Each run executes in a throwaway container with
+ * no network, a read-only filesystem, dropped capabilities and CPU, memory and process
+ * limits; the solution and tests are mounted read-only from a temporary directory.
+ */
+
+import { spawn } from 'child_process';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+const MAX_OUTPUT_CHARS = 8000;
+const DEFAULT_TIMEOUT_MS = 10000;
+const MAX_TIMEOUT_MS = 60000;
+
+const RUNTIMES = {
+    python: { file: 'main.py', image: process.env.CODE_RUNNER_PYTHON_IMAGE || 'python:3.12-slim', command: ['python3', '-I', '-B'] },
+    javascript: { file: 'main.js', image: process.env.CODE_RUNNER_NODE_IMAGE || 'node:20-slim', command: ['node'] }
+};
+
+export const SUPPORTED_LANGUAGES = Object.keys(RUNTIMES);
+
+export const isCodeRunnerEnabled = () => process.env.CODE_RUNNER_ENABLED === 'true';
+
+const getContainerCli = () => process.env.CODE_RUNNER_CONTAINER_CLI || 'docker';
+
+/**
+ * Container arguments for one run
+ * @param {{ name: string, workDir: string, runtime: { file: string, image: string, command: string[] } }} params
+ * @returns {string[]}
+ */
+export const buildContainerArgs = ({ name, workDir, runtime }) => [
+    'run', '--rm', '--name', name,
+    '--network', 'none',
+    '--read-only',
+    '--tmpfs', '/tmp:rw,size=64m',
+    '--cap-drop', 'ALL',
+    '--security-opt', 'no-new-privileges',
+    '--user', '65534:65534',
+    '--memory', process.env.CODE_RUNNER_MEMORY || '512m',
+    '--memory-swap', process.env.CODE_RUNNER_MEMORY || '512m',
+    '--cpus', process.env.CODE_RUNNER_CPUS || '1',
+    '--pids-limit', '64',
+    '-e', 'HOME=/tmp',
+    '-v', `${workDir}:/work:ro`,
+    '-w', '/work',
+    runtime.image,
+    ...runtime.command, runtime.file
+];
+
+/**
+ * Run a solution followed by its tests; the run passes when the process exits 0
+ * @param {{ language: string, code: string, tests: string, timeoutMs?: number }} params
+ * @returns {Promise<{ passed: boolean, exitCode: number | null, timedOut: boolean, output: string, durationMs: number }>}
+ */
+export const runCodeTests = async ({ language, code, tests, timeoutMs = DEFAULT_TIMEOUT_MS }) => {
+    if (!isCodeRunnerEnabled()) {
+        throw new Error('Code execution is disabled; set CODE_RUNNER_ENABLED=true on the backend to enable it.');
+    }
+    const runtime = RUNTIMES[language];
+    if (!runtime) {
+        throw new Error(`Unsupported language: ${language}`);
+    }
+
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'synthlabs-run-'));
+    const limitMs = Math.min(MAX_TIMEOUT_MS, Math.max(100, Number(timeoutMs) || DEFAULT_TIMEOUT_MS));
+    const name = `synthlabs-run-${crypto.randomUUID()}`;
+    const cli = getContainerCli();
+    const startedAt = Date.now();
+
+    try {
+        // The container runs as nobody, so the mounted files must be world-readable
+        await fs.chmod(workDir, 0o755);
+        await fs.writeFile(path.join(workDir, runtime.file), `${code}\n\n${tests}\n`, { encoding: 'utf8', mode: 0o644 });
+
+        return await new Promise((resolve, reject) => {
+            let output = '';
+            let timedOut = false;
+            const child = spawn(cli, buildContainerArgs({ name, workDir, runtime }), {
+                env: { PATH: process.env.PATH || '' },
+                stdio: ['ignore', 'pipe', 'pipe']
+            });
+            const append = (chunk) => {
+                if (output.length < MAX_OUTPUT_CHARS) {
+                    output = (output + chunk.toString()).slice(0, MAX_OUTPUT_CHARS);
+                }
+            };
+            child.stdout.on('data', append);
+            child.stderr.on('data', append);
+
+            // Killing the CLI leaves the container running, so stop the container itself
+            const timer = setTimeout(() => {
+                timedOut = true;
+                spawn(cli, ['kill', name], { stdio: 'ignore' }).on('error', () => child.kill('SIGKILL'));
+            }, limitMs);
+
+            child.on('error', (error) => {
+                clearTimeout(timer);
+                reject(new Error(`Could not start the ${cli} sandbox: ${error.message}`));
+            });
+            child.on('close', (exitCode) => {
+                clearTimeout(timer);
+                resolve({
+                    passed: !timedOut && exitCode === 0,
+                    exitCode,
+                    timedOut,
+                    output,
+                    durationMs: Date.now() - startedAt
+                });
+            });
+        });
+    } finally {
+        await fs.rm(workDir, { recursive: true, force: true });
+    }
+};
@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildContainerArgs, runCodeTests } from './codeRunner.js';
+import { isAllowedOrigin } from '../routes/verify/runCodeTests.js';
+
+describe('runCodeTests', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('refuses to run unless the backend enables code execution', async () => {
+        vi.stubEnv('CODE_RUNNER_ENABLED', '');
+        await expect(runCodeTests({ language: 'python', code: 'print(1)', tests: 'assert True' })).rejects.toThrow('disabled');
+    });
+
+    it('runs in a container without network and with resource limits', () => {
+        const args = buildContainerArgs({
+            name: 'run-1',
+            workDir: '/tmp/run-1',
+            runtime: { file: 'main.py', image: 'python:3.12-slim', command: ['python3', '-I'] }
+        });
+        const flag = (name) => args[args.indexOf(name) + 1];
+        expect(flag('--network')).toBe('none');
+        expect(flag('--pids-limit')).toBe('64');
+        expect(flag('--memory')).toBe('512m');
+        expect(flag('-v')).toBe('/tmp/run-1:/work:ro');
+        expect(args).toContain('--read-only');
+        expect(args.slice(-4)).toEqual(['python:3.12-slim', 'python3', '-I', 'main.py']);
+    });
+});
+
+describe('isAllowedOrigin', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('accepts local pages and tools and rejects other sites', () => {
+        expect(isAllowedOrigin(undefined)).toBe(true);
+        expect(isAllowedOrigin('http://localhost:3000')).toBe(true);
+        expect(isAllowedOrigin('http://127.0.0.1:5173')).toBe(true);
+        expect(isAllowedOrigin('https://evil.example')).toBe(false);
+        expect(isAllowedOrigin('null')).toBe(false);
+    });
+
+    it('accepts origins listed in CODE_RUNNER_ALLOWED_ORIGINS', () => {
+        vi.stubEnv('CODE_RUNNER_ALLOWED_ORIGINS', 'http://lab:3000, http://box:3000');
+        expect(isAllowedOrigin('http://box:3000')).toBe(true);
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * Process-wide provider rate limiter. Backend jobs, the SSE proxy routes and browser generation
+ * runs (through /api/rate-limits/acquire) all draw from the same buckets, so concurrent work on
+ * one provider key stays within its budget.
+ */
+import {
+    RateLimitScheduler,
+    estimateRequestTokens,
+    findRateLimitRule,
+    parseRetryAfterMs,
+} from '../utils/rateLimiter.js';
+import { getConfigValue, updateConfig } from '../utils/backendConfig.js';
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const toLimit = (value) => {
+    const number = Number(value);
+    return Number.isFinite(number) && number > 0 ? Math.floor(number) : 0;
+};
+
+const sanitizeRules = (raw) => (Array.isArray(raw) ? raw : [])
+    .filter((rule) => rule && typeof rule.provider === 'string' && rule.provider)
+    .map((rule) => ({
+        provider: rule.provider,
+        model: typeof rule.model === 'string' ? rule.model.trim() : '',
+        rpm: toLimit(rule.rpm),
+        tpm: toLimit(rule.tpm),
+    }));
+
+let rules = sanitizeRules(getConfigValue('rateLimits', []));
+
+export const getRateLimitRules = () => rules;
+
+/** Replace the rules and persist them, so jobs keep their limits across restarts */
+export const setRateLimitRules = (next) => {
+    rules = sanitizeRules(next);
+    updateConfig({ rateLimits: rules });
+    return rules;
+};
+
+export const rateLimiter = new RateLimitScheduler((provider, model) => {
+    const rule = findRateLimitRule(rules, provider, model);
+    return rule && (rule.rpm > 0 || rule.tpm > 0) ? { rpm: rule.rpm, tpm: rule.tpm } : null;
+});
+
+/** Total tokens from an Anthropic- or OpenAI-style usage object */
+export const getUsageTokens = (usage) => {
+    if (!usage) return undefined;
+    if (typeof usage.total_tokens === 'number') return usage.total_tokens;
+    return (usage.input_tokens || usage.prompt_tokens || 0) + (usage.output_tokens || usage.completion_tokens || 0);
+};
+
+/**
+ * Run a provider call under the scheduler: every attempt waits for budget first, a 429 pauses
+ * the key (honouring Retry-After) before the next attempt, and 5xx/network errors are retried
+ * after `retryDelay`. Other 4xx errors are thrown at once.
+ *
+ * @param {object} options
+ * @param {string} options.provider
+ * @param {string} options.model
+ * @param {string} options.promptText - Prompt used to estimate the token cost
+ * @param {number} options.maxRetries
+ * @param {number} options.retryDelay - Delay in ms; also the base of the 429 backoff without Retry-After
+ * @param {AbortSignal} [options.signal]
+ * @param {() => boolean} [options.canRetry] - False once a retry would repeat visible output (e.g. streamed chunks)
+ * @param {() => Promise<any>} call
+ * @param {(result: any) => number | undefined} [getResultTokens] - Actual tokens used, to settle the estimate
+ */
+export const withRateLimit = async (
+    { provider = '', model, promptText, maxRetries, retryDelay, signal, canRetry },
+    call,
+    getResultTokens
+) => {
+    const tokens = estimateRequestTokens(promptText);
+    let lastError = null;
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        const waitedMs = await rateLimiter.acquire(provider, model, tokens, signal);
+        if (waitedMs > 0) {
+            console.log(`[rateLimiter] ${provider}/${model} waited ${waitedMs}ms for budget`);
+        }
+
+        try {
+            const result = await call();
+            rateLimiter.recordSuccess(provider, model, tokens, getResultTokens?.(result));
+            return result;
+        } catch (error) {
+            lastError = error;
+            if (error?.name === 'AbortError' || signal?.aborted) throw error;
+            if (canRetry && !canRetry()) throw error;
+
+            const status = error?.status || error?.statusCode;
+            if (status === 429) {
+                const pause = rateLimiter.recordRateLimited(provider, model, parseRetryAfterMs(error?.headers), retryDelay);
+                console.warn(`[rateLimiter] ${provider}/${model} rate limited (attempt ${attempt + 1}), pausing ${pause}ms`);
+                continue;
+            }
+
+            // Don't retry on auth errors and other client errors
+            if (status && status >= 400 && status < 500) {
+                throw error;
+            }
+
+            if (attempt < maxRetries) {
+                await sleep(retryDelay);
+            }
+        }
+    }
+
+    throw lastError || new Error('Provider call failed after retries');
+};
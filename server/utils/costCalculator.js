@@ -0,0 +1,89 @@
+/**
+ * Token pricing and job budgets for backend jobs.
+ * Mirrors utils/costCalculator.ts on the client; prices are sent by the client with the job.
+ */
+
+/** How specifically a price entry matches a model; -1 when it does not */
+const matchScore = (pattern, model) => {
+    if (pattern === model) return Number.MAX_SAFE_INTEGER;
+    if (pattern === '*') return 0;
+    if (typeof pattern === 'string' && pattern.endsWith('*') && String(model).startsWith(pattern.slice(0, -1))) return pattern.length;
+    return -1;
+};
+
+/**
+ * Price for a model: an exact id wins over the longest matching prefix, which wins over `*`.
+ * On equal matches the earlier entry wins.
+ */
+export const findModelPrice = (prices, provider, model) => {
+    let best = null;
+    let bestScore = -1;
+    for (const price of Array.isArray(prices) ? prices : []) {
+        if (!price || price.provider !== provider) continue;
+        const score = matchScore(price.model, model);
+        if (score > bestScore) {
+            best = price;
+            bestScore = score;
+        }
+    }
+    return best;
+};
+
+/** USD cost of one call; reasoning tokens are billed at the reasoning price when set */
+export const calculateUsageCost = (usage, price) => {
+    const completion = usage.completion_tokens || 0;
+    const reasoning = Math.min(usage.reasoning_tokens || 0, completion);
+    return (
+        (usage.prompt_tokens || 0) * (price.inputPerMTok || 0)
+        + (completion - reasoning) * (price.outputPerMTok || 0)
+        + reasoning * (price.reasoningPerMTok ?? price.outputPerMTok ?? 0)
+    ) / 1_000_000;
+};
+
+/** Normalise Anthropic- and OpenAI-style usage objects */
+export const normalizeUsage = (usage) => ({
+    prompt_tokens: usage?.prompt_tokens || usage?.input_tokens || 0,
+    completion_tokens: usage?.completion_tokens || usage?.output_tokens || 0,
+    reasoning_tokens: usage?.completion_tokens_details?.reasoning_tokens ?? usage?.reasoning_tokens ?? 0,
+});
+
+/**
+ * Running spend of a job against its budget.
+ *
+ * @param {object} options
+ * @param {Array} [options.prices] - Model prices sent with the job
+ * @param {number} [options.budgetUsd] - Hard limit; 0 or empty = none
+ * @param {number} [options.spentUsd] - Spend carried over when a job is resumed
+ * @param {number} [options.priceFactor] - Share of the list price charged (e.g. 0.5 for batch requests)
+ */
+export const createCostMeter = ({ prices, budgetUsd, spentUsd = 0, priceFactor = 1 } = {}) => {
+    let total = spentUsd;
+    const unpriced = new Set();
+    return {
+        /**
+         * Record one call's usage
+         * @returns {number|undefined} Cost of the call, undefined when the model has no price
+         */
+        add(provider, model, usage) {
+            if (!usage) return undefined;
+            const price = findModelPrice(prices, provider, model);
+            if (!price) {
+                unpriced.add(`${provider}/${model}`);
+                return undefined;
+            }
+            const cost = calculateUsageCost(normalizeUsage(usage), price) * priceFactor;
+            total += cost;
+            return cost;
+        },
+        get total() {
+            return total;
+        },
+        /** Models without a price, whose calls are not counted */
+        get unpriced() {
+            return [...unpriced];
+        },
+        isExceeded() {
+            return typeof budgetUsd === 'number' && budgetUsd > 0 && total >= budgetUsd;
+        },
+    };
+};
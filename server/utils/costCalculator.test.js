@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { calculateUsageCost, createCostMeter, findModelPrice, normalizeUsage } from './costCalculator.js';
+
+const prices = [
+    { provider: 'openai', model: 'gpt-4o', inputPerMTok: 2.5, outputPerMTok: 10 },
+    { provider: 'openai', model: 'o3*', inputPerMTok: 2, outputPerMTok: 8, reasoningPerMTok: 4 },
+    { provider: 'openai', model: '*', inputPerMTok: 1, outputPerMTok: 1 },
+];
+
+describe('findModelPrice', () => {
+    it('prefers an exact id over a prefix over the provider wildcard', () => {
+        expect(findModelPrice(prices, 'openai', 'gpt-4o')?.model).toBe('gpt-4o');
+        expect(findModelPrice(prices, 'openai', 'o3-mini')?.model).toBe('o3*');
+        expect(findModelPrice(prices, 'openai', 'gpt-3.5')?.model).toBe('*');
+        expect(findModelPrice(prices, 'anthropic', 'claude')).toBeNull();
+    });
+});
+
+describe('calculateUsageCost', () => {
+    it('bills reasoning tokens at the reasoning price', () => {
+        // 1M prompt at $2, 400k plain output at $8, 600k reasoning at $4
+        const cost = calculateUsageCost({ prompt_tokens: 1_000_000, completion_tokens: 1_000_000, reasoning_tokens: 600_000 }, prices[1]);
+        expect(cost).toBeCloseTo(2 + 3.2 + 2.4);
+    });
+});
+
+describe('normalizeUsage', () => {
+    it('reads Anthropic- and OpenAI-style usage', () => {
+        expect(normalizeUsage({ input_tokens: 10, output_tokens: 5 })).toEqual({ prompt_tokens: 10, completion_tokens: 5, reasoning_tokens: 0 });
+        expect(normalizeUsage({ prompt_tokens: 10, completion_tokens: 5, completion_tokens_details: { reasoning_tokens: 3 } }))
+            .toEqual({ prompt_tokens: 10, completion_tokens: 5, reasoning_tokens: 3 });
+    });
+});
+
+describe('createCostMeter', () => {
+    it('charges the price factor share of the list price', () => {
+        const meter = createCostMeter({ prices, priceFactor: 0.5 });
+        const cost = meter.add('openai', 'gpt-4o', { prompt_tokens: 1_000_000, completion_tokens: 100_000 });
+        expect(cost).toBeCloseTo((2.5 + 1) / 2);
+        expect(meter.total).toBeCloseTo(1.75);
+    });
+
+    it('is exceeded once the spend, including a resumed job\'s, reaches the budget', () => {
+        const meter = createCostMeter({ prices, budgetUsd: 5, spentUsd: 3 });
+        expect(meter.isExceeded()).toBe(false);
+        meter.add('openai', 'gpt-4o', { input_tokens: 400_000, output_tokens: 100_000 });
+        expect(meter.total).toBeCloseTo(5);
+        expect(meter.isExceeded()).toBe(true);
+    });
+
+    it('never runs out without a budget', () => {
+        const meter = createCostMeter({ prices, budgetUsd: 0 });
+        meter.add('openai', 'gpt-4o', { prompt_tokens: 10_000_000, completion_tokens: 10_000_000 });
+        expect(meter.isExceeded()).toBe(false);
+    });
+
+    it('lists unpriced models instead of charging them', () => {
+        const meter = createCostMeter({ prices });
+        expect(meter.add('anthropic', 'claude', { input_tokens: 1000, output_tokens: 1000 })).toBeUndefined();
+        expect(meter.add('openai', 'gpt-4o', undefined)).toBeUndefined();
+        expect(meter.total).toBe(0);
+        expect(meter.unpriced).toEqual(['anthropic/claude']);
+    });
+});
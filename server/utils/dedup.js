@@ -0,0 +1,305 @@
+/**
+ * MinHash near-duplicate clustering for the dedup job.
+ * Mirrors services/dedup/minHash.ts and services/dedup/similarityEngine.ts on the client.
+ */
+
+import { parseThinkTagsForDisplay } from './thinkTagParser.js';
+
+export const DEDUP_FIELDS = ['query', 'reasoning', 'answer'];
+
+export const DEFAULT_DEDUP_OPTIONS = Object.freeze({
+    method: 'minhash',
+    threshold: 0.8,
+    fieldWeights: { query: 1, reasoning: 0.5, answer: 0.5 },
+    shingleSize: 5,
+    numHashes: 128,
+});
+
+// Group ids written by the job carry this prefix so the verifier keeps them across page-local scans
+export const SERVER_GROUP_PREFIX = 'dedup-';
+
+const EMPTY_SIGNATURE = new Uint32Array(0);
+
+const normalizeForShingling = (text) => String(text || '')
+    .toLowerCase()
+    .replace(/<\/?think>/g, ' ')
+    .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const buildShingles = (text, shingleSize) => {
+    const normalized = normalizeForShingling(text);
+    const shingles = new Set();
+    if (!normalized) return shingles;
+    const size = Math.max(1, shingleSize);
+    if (normalized.length <= size) {
+        shingles.add(normalized);
+        return shingles;
+    }
+    for (let i = 0; i <= normalized.length - size; i++) {
+        shingles.add(normalized.slice(i, i + size));
+    }
+    return shingles;
+};
+
+// FNV-1a 32-bit hash of a string
+const hashString = (value) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// murmur3 finalizer, seeded per permutation
+const mixHash = (value, seed) => {
+    let h = (value ^ seed) >>> 0;
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+    return h >>> 0;
+};
+
+const seedCache = new Map();
+
+const getSeeds = (numHashes) => {
+    const cached = seedCache.get(numHashes);
+    if (cached) return cached;
+    const seeds = new Uint32Array(numHashes);
+    let state = 0x9e3779b9;
+    for (let i = 0; i < numHashes; i++) {
+        state = mixHash(state + i, 0x7f4a7c15);
+        seeds[i] = state;
+    }
+    seedCache.set(numHashes, seeds);
+    return seeds;
+};
+
+const computeSignature = (text, shingleSize, numHashes) => {
+    const shingles = buildShingles(text, shingleSize);
+    if (shingles.size === 0) return EMPTY_SIGNATURE;
+
+    const seeds = getSeeds(numHashes);
+    const signature = new Uint32Array(numHashes).fill(0xffffffff);
+    shingles.forEach(shingle => {
+        const base = hashString(shingle);
+        for (let i = 0; i < numHashes; i++) {
+            const h = mixHash(base, seeds[i]);
+            if (h < signature[i]) signature[i] = h;
+        }
+    });
+    return signature;
+};
+
+const estimateSimilarity = (a, b) => {
+    if (a.length === 0 || b.length === 0 || a.length !== b.length) return null;
+    let matches = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] === b[i]) matches++;
+    }
+    return matches / a.length;
+};
+
+// Texts that fit in one shingle ("42", "yes") are compared exactly and kept out of the LSH buckets
+const computeFingerprint = (text, shingleSize, numHashes) => {
+    const normalized = normalizeForShingling(text);
+    if (normalized && normalized.length <= Math.max(1, shingleSize)) {
+        return { signature: EMPTY_SIGNATURE, shortText: normalized };
+    }
+    return { signature: computeSignature(text, shingleSize, numHashes), shortText: null };
+};
+
+const compareFingerprints = (a, b) => {
+    const isEmpty = (fingerprint) => fingerprint.shortText === null && fingerprint.signature.length === 0;
+    if (isEmpty(a) || isEmpty(b)) return null;
+    if (a.shortText !== null || b.shortText !== null) return a.shortText === b.shortText ? 1 : 0;
+    return estimateSimilarity(a.signature, b.signature);
+};
+
+const chooseBandCount = (numHashes, threshold) => {
+    const target = Math.max(0.05, threshold - 0.15);
+    let best = 1;
+    let bestDelta = Number.POSITIVE_INFINITY;
+    for (let bands = 1; bands <= numHashes; bands++) {
+        if (numHashes % bands !== 0) continue;
+        const rows = numHashes / bands;
+        const lshThreshold = Math.pow(1 / bands, 1 / rows);
+        if (lshThreshold > target) continue;
+        const delta = target - lshThreshold;
+        if (delta < bestDelta) {
+            bestDelta = delta;
+            best = bands;
+        }
+    }
+    return best;
+};
+
+/**
+ * Text used for a field when comparing logs. Reasoning falls back to a
+ * `<think>` block embedded in the answer, and the answer strips that block.
+ */
+export const getDedupFieldText = (log, field) => {
+    if (field === 'query') return log.query || log.QUERY || log.full_seed || '';
+    const parsed = parseThinkTagsForDisplay(log.answer || '');
+    if (field === 'reasoning') return log.reasoning || parsed.reasoning || '';
+    return parsed.hasThinkTags ? parsed.answer : (log.answer || '');
+};
+
+const combineFieldSimilarities = (similarities, weights) => {
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const field of DEDUP_FIELDS) {
+        const weight = weights[field] || 0;
+        const similarity = similarities[field];
+        if (weight <= 0 || similarity === null || similarity === undefined) continue;
+        weighted += similarity * weight;
+        totalWeight += weight;
+    }
+    return totalWeight > 0 ? weighted / totalWeight : null;
+};
+
+/**
+ * Resolve request options against the defaults.
+ * @returns {{ method: string, threshold: number, fieldWeights: Object, shingleSize: number, numHashes: number }}
+ */
+export const resolveDedupOptions = (options = {}) => ({
+    method: options.method === 'exact' ? 'exact' : 'minhash',
+    threshold: typeof options.threshold === 'number' && options.threshold > 0 && options.threshold <= 1
+        ? options.threshold
+        : DEFAULT_DEDUP_OPTIONS.threshold,
+    fieldWeights: { ...DEFAULT_DEDUP_OPTIONS.fieldWeights, ...(options.fieldWeights || {}) },
+    shingleSize: typeof options.shingleSize === 'number' && options.shingleSize >= 2
+        ? Math.floor(options.shingleSize)
+        : DEFAULT_DEDUP_OPTIONS.shingleSize,
+    numHashes: typeof options.numHashes === 'number' && options.numHashes >= 16
+        ? Math.floor(options.numHashes)
+        : DEFAULT_DEDUP_OPTIONS.numHashes,
+});
+
+// Buckets up to this size pair every member; larger ones pair each member with the first only
+const MAX_PAIRWISE_BUCKET_SIZE = 32;
+
+// Pairs of indices sharing an LSH bucket in any band, as "i:j" with i < j
+const findCandidatePairs = (signatures, bands, rows) => {
+    const pairs = new Set();
+    for (let band = 0; band < bands; band++) {
+        const buckets = new Map();
+        const start = band * rows;
+        signatures.forEach((signature, index) => {
+            if (signature.length === 0) return;
+            const key = signature.subarray(start, start + rows).join(',');
+            const bucket = buckets.get(key);
+            if (bucket) bucket.push(index);
+            else buckets.set(key, [index]);
+        });
+        buckets.forEach(indices => {
+            if (indices.length > MAX_PAIRWISE_BUCKET_SIZE) {
+                for (let k = 1; k < indices.length; k++) pairs.add(`${indices[0]}:${indices[k]}`);
+                return;
+            }
+            for (let i = 0; i < indices.length; i++) {
+                for (let j = i + 1; j < indices.length; j++) {
+                    pairs.add(`${indices[i]}:${indices[j]}`);
+                }
+            }
+        });
+    }
+    return pairs;
+};
+
+const createUnionFind = (size) => {
+    const parent = Array.from({ length: size }, (_, i) => i);
+    const find = (x) => {
+        while (parent[x] !== x) {
+            parent[x] = parent[parent[x]];
+            x = parent[x];
+        }
+        return x;
+    };
+    const union = (a, b) => {
+        const rootA = find(a);
+        const rootB = find(b);
+        if (rootA !== rootB) parent[rootB] = rootA;
+    };
+    return { find, union };
+};
+
+/**
+ * Cluster near-duplicate logs.
+ * Every pair sharing an LSH bucket in any field is a candidate; the weighted similarity decides the match.
+ * @param {Array} logs - Logs with id, query, reasoning, answer
+ * @param {Object} options - Resolved dedup options
+ * @returns {Array<{ memberIndices: number[], similarities: Map<number, number> }>} Groups with 2+ members
+ */
+export const findDuplicateClusters = (logs, options) => {
+    const matches = [];
+
+    if (options.method === 'exact') {
+        const firstByKey = new Map();
+        logs.forEach((log, index) => {
+            const key = getDedupFieldText(log, 'query').trim().toLowerCase();
+            if (!key) return;
+            if (firstByKey.has(key)) matches.push([firstByKey.get(key), index, 1]);
+            else firstByKey.set(key, index);
+        });
+    } else {
+        const fields = DEDUP_FIELDS.filter(field => (options.fieldWeights[field] || 0) > 0);
+        const fingerprints = new Map();
+        for (const field of fields) {
+            fingerprints.set(field, logs.map(log => computeFingerprint(getDedupFieldText(log, field), options.shingleSize, options.numHashes)));
+        }
+
+        const bands = chooseBandCount(options.numHashes, options.threshold);
+        const rows = Math.max(1, Math.floor(options.numHashes / bands));
+        const candidates = new Set();
+        for (const fieldFingerprints of fingerprints.values()) {
+            findCandidatePairs(fieldFingerprints.map(fingerprint => fingerprint.signature), bands, rows).forEach(pair => candidates.add(pair));
+        }
+
+        candidates.forEach(pair => {
+            const [i, j] = pair.split(':').map(Number);
+            const similarities = {};
+            fingerprints.forEach((fieldFingerprints, field) => {
+                similarities[field] = compareFingerprints(fieldFingerprints[i], fieldFingerprints[j]);
+            });
+            const similarity = combineFieldSimilarities(similarities, options.fieldWeights);
+            if (similarity !== null && similarity >= options.threshold) {
+                matches.push([i, j, similarity]);
+            }
+        });
+    }
+
+    const unionFind = createUnionFind(logs.length);
+    const best = new Map();
+    for (const [i, j, similarity] of matches) {
+        unionFind.union(i, j);
+        best.set(i, Math.max(best.get(i) || 0, similarity));
+        best.set(j, Math.max(best.get(j) || 0, similarity));
+    }
+
+    const groups = new Map();
+    best.forEach((similarity, index) => {
+        const root = unionFind.find(index);
+        if (!groups.has(root)) groups.set(root, { memberIndices: [], similarities: new Map() });
+        const group = groups.get(root);
+        group.memberIndices.push(index);
+        group.similarities.set(index, similarity);
+    });
+
+    return Array.from(groups.values());
+};
+
+/**
+ * Pick the log to keep in a group: highest score, then longest answer.
+ * Same order as Auto-Resolve Dupes in the verifier.
+ */
+export const pickKeeperIndex = (logs, memberIndices) => {
+    return [...memberIndices].sort((a, b) => {
+        const scoreDelta = (logs[b].score || 0) - (logs[a].score || 0);
+        if (scoreDelta !== 0) return scoreDelta;
+        return (logs[b].answer?.length || 0) - (logs[a].answer?.length || 0);
+    })[0];
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { findDuplicateClusters, pickKeeperIndex, resolveDedupOptions } from './dedup.js';
+
+const queryOnly = { query: 1, reasoning: 0, answer: 0 };
+const memberSets = (clusters) => clusters.map(cluster => [...cluster.memberIndices].sort()).sort();
+
+describe('findDuplicateClusters', () => {
+    it('groups exact query matches regardless of case', () => {
+        const logs = [{ query: 'What is 2+2?' }, { query: 'Another' }, { query: 'what is 2+2?' }];
+        expect(memberSets(findDuplicateClusters(logs, resolveDedupOptions({ method: 'exact' })))).toEqual([[0, 2]]);
+    });
+
+    it('does not group logs without a query in exact mode', () => {
+        const logs = [{ query: '' }, { query: '  ' }, { answer: 'only an answer' }];
+        expect(findDuplicateClusters(logs, resolveDedupOptions({ method: 'exact' }))).toEqual([]);
+    });
+
+    it('compares short answers exactly instead of bucketing them', () => {
+        const word = (i, salt) => (Math.imul(i + 1, salt) >>> 0).toString(36);
+        const logs = Array.from({ length: 2000 }, (_, i) => ({ query: `${word(i, 2654435761)} ${word(i, 40503)} ${word(i, 97787)}`, answer: 'Yes' }));
+        logs.push({ query: logs[0].query, answer: 'No' });
+        const options = resolveDedupOptions({ fieldWeights: { query: 1, reasoning: 0, answer: 1 } });
+        // Same query but a different one-word answer scores (1 + 0) / 2
+        expect(findDuplicateClusters(logs, options)).toEqual([]);
+        logs.push({ query: logs[0].query, answer: 'yes!' });
+        expect(memberSets(findDuplicateClusters(logs, options))).toEqual([[0, 2001]]);
+    });
+
+    it('clusters near-duplicates and leaves distinct logs out', () => {
+        const base = 'The quick brown fox jumps over the lazy dog near the river bank on a sunny afternoon';
+        const logs = [
+            { query: 'Completely unrelated question about quantum chromodynamics and gluons' },
+            { query: base },
+            { query: `${base}!` },
+            { query: base.replace('sunny', 'sunny warm') },
+        ];
+        expect(memberSets(findDuplicateClusters(logs, resolveDedupOptions({ fieldWeights: queryOnly })))).toEqual([[1, 2, 3]]);
+    });
+
+    it('pairs bucket members that are not similar to the first member of the bucket', () => {
+        // 0 shares LSH buckets with 1 and 2; 2 only matches 1
+        const logs = [
+            { query: 'the quick brown fox jumps over the lazy alpha' },
+            { query: 'the quick brown fox jumps alpha the lazy dog' },
+            { query: 'the quick brown fox alpha alpha the lazy dog' },
+        ];
+        const options = resolveDedupOptions({ threshold: 0.6, numHashes: 16, shingleSize: 3, fieldWeights: queryOnly });
+        expect(memberSets(findDuplicateClusters(logs, options))).toEqual([[0, 1, 2]]);
+    });
+});
+
+describe('pickKeeperIndex', () => {
+    it('keeps the highest score, then the longest answer', () => {
+        const logs = [{ score: 3, answer: 'long answer' }, { score: 4, answer: 'a' }, { score: 4, answer: 'longer' }];
+        expect(pickKeeperIndex(logs, [0, 1, 2])).toBe(2);
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * Multi-judge autoscoring helpers for the autoscore job.
+ * Mirrors utils/judgeEnsemble.ts on the client.
+ */
+
+export const VALID_AGGREGATIONS = ['mean', 'median', 'majority'];
+
+/** Largest possible gap between two 1-5 scores */
+const MAX_SCORE_SPREAD = 4;
+
+const clampScore = (value) => Math.min(5, Math.max(1, Math.round(value)));
+
+const median = (values) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Combine per-judge scores into a single 1-5 score.
+ * Majority falls back to the median when no single score wins outright.
+ */
+export const aggregateJudgeScores = (scores, aggregation = 'mean') => {
+    if (scores.length === 0) return 0;
+
+    if (aggregation === 'median') {
+        return clampScore(median(scores));
+    }
+
+    if (aggregation === 'majority') {
+        const counts = new Map();
+        scores.forEach(s => counts.set(s, (counts.get(s) || 0) + 1));
+        const top = Math.max(...counts.values());
+        const winners = [...counts.entries()].filter(([, count]) => count === top);
+        return winners.length === 1 ? clampScore(winners[0][0]) : clampScore(median(scores));
+    }
+
+    return clampScore(scores.reduce((a, b) => a + b, 0) / scores.length);
+};
+
+/**
+ * Agreement between judges: 1 minus the mean pairwise score gap, normalised to the 1-5 range.
+ * A score no second judge confirmed counts as no agreement, so it is flagged for review.
+ */
+export const computeJudgeAgreement = (scores) => {
+    if (scores.length < 2) return 0;
+    let gap = 0;
+    let pairs = 0;
+    for (let i = 0; i < scores.length; i++) {
+        for (let j = i + 1; j < scores.length; j++) {
+            gap += Math.abs(scores[i] - scores[j]);
+            pairs++;
+        }
+    }
+    return Math.round((1 - gap / pairs / MAX_SCORE_SPREAD) * 100) / 100;
+};
+
+/** Mean of each criterion across judges, rounded to a 1-5 score. */
+export const mergeJudgeRubricScores = (rubricScoresList) => {
+    const byCriterion = {};
+    for (const rubricScores of rubricScoresList) {
+        for (const [criterion, value] of Object.entries(rubricScores)) {
+            if (!byCriterion[criterion]) byCriterion[criterion] = [];
+            byCriterion[criterion].push(value);
+        }
+    }
+    const merged = {};
+    for (const [criterion, values] of Object.entries(byCriterion)) {
+        merged[criterion] = clampScore(values.reduce((a, b) => a + b, 0) / values.length);
+    }
+    return merged;
+};
+
+/** Stable labels used as judgeScores keys; repeated provider/model pairs get a #n suffix. */
+export const getJudgeLabels = (judges) => {
+    const seen = new Map();
+    return judges.map(judge => {
+        const base = judge.provider ? `${judge.provider}/${judge.model}` : judge.model;
+        const count = (seen.get(base) || 0) + 1;
+        seen.set(base, count);
+        return count > 1 ? `${base}#${count}` : base;
+    });
+};
+
+/**
+ * Validate judges sent by the client (API keys travel separately, per provider).
+ * Returns null when no judge is usable.
+ */
+export const normalizeJudges = (judges) => {
+    if (!Array.isArray(judges)) return null;
+    const list = judges
+        .filter(j => j && typeof j.model === 'string' && j.model.trim() && typeof j.baseUrl === 'string' && j.baseUrl.trim())
+        .map(j => ({
+            provider: typeof j.provider === 'string' ? j.provider : '',
+            model: j.model.trim(),
+            baseUrl: j.baseUrl.trim(),
+            generationParams: j.generationParams && typeof j.generationParams === 'object' ? j.generationParams : undefined,
+            fallbacks: Array.isArray(j.fallbacks)
+                ? j.fallbacks
+                    .filter(f => f && typeof f.model === 'string' && f.model.trim() && typeof f.baseUrl === 'string' && f.baseUrl.trim())
+                    .map(f => ({ provider: typeof f.provider === 'string' ? f.provider : '', model: f.model.trim(), baseUrl: f.baseUrl.trim() }))
+                : undefined,
+        }));
+    return list.length > 0 ? list : null;
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateJudgeScores, computeJudgeAgreement, normalizeJudges } from './judgeEnsemble.js';
+
+describe('aggregateJudgeScores', () => {
+    it('aggregates by mean, median and majority', () => {
+        const scores = [1, 4, 4, 5];
+        expect(aggregateJudgeScores(scores, 'mean')).toBe(4);
+        expect(aggregateJudgeScores(scores, 'median')).toBe(4);
+        expect(aggregateJudgeScores([1, 2, 2], 'majority')).toBe(2);
+        expect(aggregateJudgeScores([1, 5], 'majority')).toBe(3);
+    });
+});
+
+describe('computeJudgeAgreement', () => {
+    it('scales the mean pairwise gap to 0-1', () => {
+        expect(computeJudgeAgreement([2, 2])).toBe(1);
+        expect(computeJudgeAgreement([1, 3])).toBe(0.5);
+        expect(computeJudgeAgreement([1, 5])).toBe(0);
+    });
+
+    it('treats a single parsed judge as unconfirmed', () => {
+        expect(computeJudgeAgreement([5])).toBe(0);
+    });
+});
+
+describe('normalizeJudges', () => {
+    it('keeps judges with a model and base URL, trimmed, and their valid fallbacks', () => {
+        expect(normalizeJudges([
+            { provider: 'openai', model: ' gpt-4o ', baseUrl: 'https://api.openai.com/v1', fallbacks: [{ model: 'o3', baseUrl: 'https://x' }, { model: '' }] },
+            { provider: 'openai', model: 'missing-url' },
+            null,
+        ])).toEqual([{
+            provider: 'openai',
+            model: 'gpt-4o',
+            baseUrl: 'https://api.openai.com/v1',
+            generationParams: undefined,
+            fallbacks: [{ provider: '', model: 'o3', baseUrl: 'https://x' }],
+        }]);
+    });
+
+    it('is null when no judge is usable', () => {
+        expect(normalizeJudges([{ model: 'x' }])).toBeNull();
+        expect(normalizeJudges('judges')).toBeNull();
+    });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimitScheduler, findRateLimitRule, parseRetryAfterMs } from './rateLimiter.js';
+
+const createScheduler = (budget) => new RateLimitScheduler(() => budget);
+
+/** Resolved value of the promise, or 'pending' when it has not settled yet */
+const track = (promise) => {
+    let state = 'pending';
+    promise.then((value) => { state = value; }, () => { state = 'rejected'; });
+    return () => state;
+};
+
+describe('RateLimitScheduler', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('serves a full request bucket without waiting, then waits for the refill', async () => {
+        const scheduler = createScheduler({ rpm: 2, tpm: 0 });
+        await expect(scheduler.acquire('openai', 'gpt-4o', 10)).resolves.toBe(0);
+        await expect(scheduler.acquire('openai', 'gpt-4o', 10)).resolves.toBe(0);
+
+        const third = track(scheduler.acquire('openai', 'gpt-4o', 10));
+        await vi.advanceTimersByTimeAsync(29_999);
+        expect(third()).toBe('pending');
+        await vi.advanceTimersByTimeAsync(1);
+        expect(third()).toBe(30_000);
+    });
+
+    it('waits until the token bucket holds the request', async () => {
+        const scheduler = createScheduler({ rpm: 0, tpm: 1000 });
+        await scheduler.acquire('anthropic', 'claude', 800);
+
+        const next = track(scheduler.acquire('anthropic', 'claude', 400));
+        await vi.advanceTimersByTimeAsync(11_999);
+        expect(next()).toBe('pending');
+        await vi.advanceTimersByTimeAsync(1);
+        expect(next()).toBe(12_000);
+    });
+
+    it('charges the difference between reserved and actual tokens', async () => {
+        const scheduler = createScheduler({ rpm: 0, tpm: 1000 });
+        await scheduler.acquire('openai', 'gpt-4o', 100);
+        scheduler.recordSuccess('openai', 'gpt-4o', 100, 600);
+        expect(scheduler.getState()[0].availableTokens).toBe(400);
+    });
+
+    it('pauses the key after a 429, doubling the backoff without Retry-After', async () => {
+        const scheduler = createScheduler({ rpm: 60, tpm: 0 });
+        expect(scheduler.recordRateLimited('openai', 'gpt-4o', null, 1000)).toBe(1000);
+        expect(scheduler.recordRateLimited('openai', 'gpt-4o', null, 1000)).toBe(2000);
+        expect(scheduler.getState()[0].scale).toBe(0.25);
+
+        const next = track(scheduler.acquire('openai', 'gpt-4o', 10));
+        await vi.advanceTimersByTimeAsync(1999);
+        expect(next()).toBe('pending');
+        await vi.advanceTimersByTimeAsync(1);
+        expect(next()).toBe(2000);
+    });
+
+    it('lets unlimited models through at once', async () => {
+        await expect(createScheduler(null).acquire('openai', 'gpt-4o', 1_000_000)).resolves.toBe(0);
+    });
+});
+
+describe('findRateLimitRule', () => {
+    it('prefers the model rule over the provider-wide one', () => {
+        const rules = [
+            { provider: 'openai', model: '', rpm: 500, tpm: 0 },
+            { provider: 'openai', model: 'gpt-4o', rpm: 60, tpm: 30000 },
+        ];
+        expect(findRateLimitRule(rules, 'openai', 'gpt-4o')?.rpm).toBe(60);
+        expect(findRateLimitRule(rules, 'openai', 'o3')?.rpm).toBe(500);
+        expect(findRateLimitRule(rules, 'anthropic', 'claude')).toBeNull();
+    });
+});
+
+describe('parseRetryAfterMs', () => {
+    it('reads Retry-After seconds and the OpenAI reset headers', () => {
+        expect(parseRetryAfterMs(new Headers({ 'retry-after': '2' }))).toBe(2000);
+        expect(parseRetryAfterMs(new Headers({ 'x-ratelimit-reset-tokens': '1.5s' }))).toBe(1500);
+        expect(parseRetryAfterMs(new Headers())).toBeNull();
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * Rubric autoscoring helpers for the autoscore job and score distribution.
+ * Mirrors utils/rubricScoring.ts on the client.
+ */
+
+export const buildRubricSystemPrompt = (criteria) => {
+    const lines = criteria.map(c => `- "${c.id}" (${c.name}): ${c.description}`);
+    const example = criteria.map(c => `"${c.id}": <1-5>`).join(', ');
+    return `You are an expert evaluator. Score the item on each criterion below using a scale of 1-5, where 1 is poor and 5 is excellent.
+
+Criteria:
+${lines.join('\n')}
+
+Respond with ONLY a JSON object of the form:
+{"scores": {${example}}, "rationale": "<one or two sentences explaining the lowest scores>"}`;
+};
+
+// Pull the outermost JSON object out of a response that may include <think> blocks or code fences
+const extractJsonObject = (text) => {
+    const cleaned = String(text || '').replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+    const start = cleaned.indexOf('{');
+    const end = cleaned.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+    try {
+        const parsed = JSON.parse(cleaned.slice(start, end + 1));
+        return parsed && typeof parsed === 'object' ? parsed : null;
+    } catch {
+        return null;
+    }
+};
+
+export const computeRubricOverall = (rubricScores, criteria) => {
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const c of criteria) {
+        const value = rubricScores[c.id];
+        if (typeof value !== 'number' || !(c.weight > 0)) continue;
+        weighted += value * c.weight;
+        totalWeight += c.weight;
+    }
+    if (totalWeight === 0) return 0;
+    return Math.min(5, Math.max(1, Math.round(weighted / totalWeight)));
+};
+
+/**
+ * Parse the judge's JSON into { score, rubricScores, rubricRationale }.
+ * @returns {Object|null} null when no criterion could be read
+ */
+export const parseRubricResponse = (text, criteria) => {
+    const parsed = extractJsonObject(text);
+    if (!parsed) return null;
+
+    const rawScores = parsed.scores && typeof parsed.scores === 'object' ? parsed.scores : parsed;
+    const rubricScores = {};
+    for (const c of criteria) {
+        const value = Number(rawScores[c.id]);
+        if (Number.isFinite(value) && value >= 1 && value <= 5) {
+            rubricScores[c.id] = Math.round(value);
+        }
+    }
+    if (Object.keys(rubricScores).length === 0) return null;
+
+    const score = computeRubricOverall(rubricScores, criteria);
+    if (score === 0) return null;
+
+    return {
+        score,
+        rubricScores,
+        rubricRationale: typeof parsed.rationale === 'string' ? parsed.rationale : '',
+    };
+};
+
+/**
+ * Validate a rubric sent by the client. Returns null when it is unusable.
+ */
+export const normalizeRubric = (rubric) => {
+    if (!Array.isArray(rubric)) return null;
+    const criteria = rubric
+        .filter(c => c && typeof c.id === 'string' && c.id.trim())
+        .map(c => ({
+            id: c.id.trim(),
+            name: typeof c.name === 'string' && c.name ? c.name : c.id.trim(),
+            description: typeof c.description === 'string' ? c.description : '',
+            weight: typeof c.weight === 'number' && c.weight >= 0 ? c.weight : 1,
+        }));
+    return criteria.length > 0 ? criteria : null;
+};
+
+/**
+ * Per-criterion statistics over a list of rubricScores objects (entries may be null).
+ * @returns {Object} { [criterionId]: { scoredItems, average, min, max, distribution: { '1'..'5' } } }
+ */
+export const summarizeRubricScores = (rubricScoresList) => {
+    const byCriterion = {};
+    for (const rubricScores of rubricScoresList) {
+        if (!rubricScores || typeof rubricScores !== 'object') continue;
+        for (const [criterion, raw] of Object.entries(rubricScores)) {
+            const value = Number(raw);
+            if (!Number.isFinite(value)) continue;
+            if (!byCriterion[criterion]) byCriterion[criterion] = [];
+            byCriterion[criterion].push(value);
+        }
+    }
+
+    const summary = {};
+    for (const [criterion, values] of Object.entries(byCriterion)) {
+        const distribution = { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 };
+        values.forEach(v => {
+            const bucket = String(Math.min(5, Math.max(1, Math.round(v))));
+            distribution[bucket]++;
+        });
+        summary[criterion] = {
+            scoredItems: values.length,
+            average: (values.reduce((a, b) => a + b, 0) / values.length).toFixed(2),
+            min: Math.min(...values).toFixed(2),
+            max: Math.max(...values).toFixed(2),
+            distribution,
+        };
+    }
+    return summary;
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { buildRubricSystemPrompt, computeRubricOverall, normalizeRubric, parseRubricResponse, summarizeRubricScores } from './rubricScoring.js';
+
+describe('normalizeRubric', () => {
+    it('keeps criteria with an id and fills in name and weight', () => {
+        expect(normalizeRubric([{ id: ' depth ' }, { id: 'tone', name: 'Tone', description: 'Polite', weight: 0 }, { name: 'no id' }])).toEqual([
+            { id: 'depth', name: 'depth', description: '', weight: 1 },
+            { id: 'tone', name: 'Tone', description: 'Polite', weight: 0 },
+        ]);
+        expect(normalizeRubric([])).toBeNull();
+        expect(normalizeRubric('rubric')).toBeNull();
+    });
+});
+
+describe('buildRubricSystemPrompt', () => {
+    it('asks for every criterion by id', () => {
+        const prompt = buildRubricSystemPrompt(normalizeRubric([{ id: 'depth', name: 'Depth', description: 'Goes deep' }, { id: 'tone' }]));
+        expect(prompt).toContain('- "depth" (Depth): Goes deep');
+        expect(prompt).toContain('{"scores": {"depth": <1-5>, "tone": <1-5>}');
+    });
+});
+
+describe('computeRubricOverall', () => {
+    it('leaves zero-weight criteria out and clamps to the star range', () => {
+        const criteria = normalizeRubric([{ id: 'depth', weight: 1 }, { id: 'tone', weight: 0 }]);
+        expect(computeRubricOverall({ depth: 4, tone: 1 }, criteria)).toBe(4);
+        expect(computeRubricOverall({ tone: 5 }, criteria)).toBe(0);
+    });
+});
+
+describe('parseRubricResponse', () => {
+    it('scores the weighted mean of the criteria the judge returned', () => {
+        const criteria = normalizeRubric([{ id: 'depth', weight: 3 }, { id: 'tone', weight: 1 }]);
+        expect(parseRubricResponse('{"scores": {"depth": 2, "tone": 5}, "rationale": "Shallow."}', criteria)).toEqual({
+            score: 3,
+            rubricScores: { depth: 2, tone: 5 },
+            rubricRationale: 'Shallow.',
+        });
+    });
+
+    it('skips think blocks and fences, and drops scores outside 1-5', () => {
+        const criteria = normalizeRubric([{ id: 'depth' }, { id: 'tone' }]);
+        const text = '<think>{"scores": {"depth": 1}}</think>\n```json\n{"scores": {"depth": 4.6, "tone": 0}}\n```';
+        expect(parseRubricResponse(text, criteria)).toEqual({ score: 5, rubricScores: { depth: 5 }, rubricRationale: '' });
+    });
+
+    it('is null when the judge returned nothing usable', () => {
+        const criteria = normalizeRubric([{ id: 'depth', weight: 1 }, { id: 'tone', weight: 0 }]);
+        expect(parseRubricResponse('I would give it a 4.', criteria)).toBeNull();
+        expect(parseRubricResponse('{"scores": {"depth": "great"}}', criteria)).toBeNull();
+        expect(parseRubricResponse('{"scores": {"tone": 5}}', criteria)).toBeNull();
+    });
+});
+
+describe('summarizeRubricScores', () => {
+    it('reports per-criterion stats and skips missing entries', () => {
+        const summary = summarizeRubricScores([{ depth: 2 }, null, { depth: 4, tone: 5 }]);
+        expect(summary.depth).toEqual({
+            scoredItems: 2,
+            average: '3.00',
+            min: '2.00',
+            max: '4.00',
+            distribution: { '1': 0, '2': 1, '3': 0, '4': 1, '5': 0 },
+        });
+        expect(summary.tone.scoredItems).toBe(1);
+    });
+});
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExternalProvider, type ModelFallback } from '../../types';
+
+const rateLimits = vi.hoisted(() => ({
+    acquireRateLimit: vi.fn(),
+    releaseRateLimit: vi.fn(),
+    reportRateLimited: vi.fn()
+}));
+
+const settings = vi.hoisted(() => ({ generationTimeoutSeconds: 0 }));
+
+vi.mock('../rateLimitService', () => rateLimits);
+vi.mock('../settingsService', () => ({
+    SettingsService: {
+        getSettings: () => settings,
+        getApiKey: (provider: string) => `${provider}-key`,
+        getCustomBaseUrl: () => ''
+    }
+}));
+vi.mock('../costService', () => ({ estimateUsageCost: () => 0 }));
+const responseCache = vi.hoisted(() => ({
+    config: { enabled: false, bypass: false, ttlHours: 24 },
+    buildExternalCallCacheKey: vi.fn(async () => 'key'),
+    getCachedResponse: vi.fn(),
+    setCachedResponse: vi.fn(),
+    recordCacheBypass: vi.fn()
+}));
+vi.mock('../responseCacheService', () => ({ ...responseCache, getResponseCacheConfig: () => responseCache.config }));
+
+const { callExternalApi } = await import('./callExternalApi');
+
+const fetchMock = vi.fn();
+vi.stubGlobal('fetch', fetchMock);
+
+const reply = (status: number, content = 'hello', finishReason = 'stop') => new Response(
+    JSON.stringify({ choices: [{ message: { content }, finish_reason: finishReason }], usage: { total_tokens: 12 } }),
+    { status }
+);
+
+type CallOptions = {
+    bypassCache?: boolean;
+    fallbacks?: ModelFallback[];
+    signal?: AbortSignal;
+    onModelUsed?: (provider: string, model: string) => void;
+};
+
+const call = (options: CallOptions = {}) => callExternalApi({
+    provider: ExternalProvider.OpenRouter,
+    apiKey: 'key',
+    model: 'model-a',
+    customBaseUrl: '',
+    systemPrompt: 'system',
+    userPrompt: 'user',
+    structuredOutput: false,
+    maxRetries: 2,
+    retryDelay: 0,
+    ...options
+});
+
+describe('callExternalApi rate limiting', () => {
+    beforeEach(() => {
+        fetchMock.mockReset();
+        Object.values(rateLimits).forEach(mock => mock.mockReset());
+        rateLimits.acquireRateLimit.mockImplementation(async () => ({ provider: 'openrouter', model: 'model-a', tokens: 5, remote: false }));
+    });
+
+    it('settles only the attempt that succeeded', async () => {
+        fetchMock
+            .mockResolvedValueOnce(reply(503))
+            .mockRejectedValueOnce(new TypeError('network down'))
+            .mockResolvedValueOnce(reply(200));
+
+        await expect(call()).resolves.toBe('hello');
+        expect(rateLimits.acquireRateLimit).toHaveBeenCalledTimes(3);
+        expect(rateLimits.releaseRateLimit).toHaveBeenCalledTimes(1);
+        expect(rateLimits.releaseRateLimit).toHaveBeenCalledWith(expect.objectContaining({ model: 'model-a' }), 12);
+    });
+
+    it('leaves the tickets of failed calls unsettled', async () => {
+        fetchMock.mockResolvedValue(reply(500));
+
+        await expect(call()).rejects.toThrow('500');
+        expect(rateLimits.releaseRateLimit).not.toHaveBeenCalled();
+    });
+});
+
+describe('callExternalApi response cache', () => {
+    beforeEach(() => {
+        fetchMock.mockReset();
+        fetchMock.mockImplementation(async () => reply(200, 'fresh'));
+        rateLimits.acquireRateLimit.mockResolvedValue(null);
+        responseCache.config = { enabled: true, bypass: false, ttlHours: 24 };
+        responseCache.getCachedResponse.mockReset();
+        responseCache.getCachedResponse.mockResolvedValue({ result: 'cached', provider: 'openrouter', model: 'model-a' });
+        responseCache.setCachedResponse.mockReset();
+    });
+
+    afterEach(() => {
+        responseCache.config = { enabled: false, bypass: false, ttlHours: 24 };
+    });
+
+    it('answers a repeated call from the cache', async () => {
+        await expect(call()).resolves.toBe('cached');
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('asks for a new response when the call bypasses the cache, and caches that instead', async () => {
+        await expect(call({ bypassCache: true })).resolves.toBe('fresh');
+        expect(responseCache.getCachedResponse).not.toHaveBeenCalled();
+        expect(responseCache.setCachedResponse).toHaveBeenCalledWith('key', expect.objectContaining({ result: 'fresh' }), 24);
+    });
+});
+
+describe('callExternalApi fallback chain', () => {
+    const fallbacks: ModelFallback[] = [
+        { provider: ExternalProvider.OpenRouter, model: ' ' },
+        { provider: ExternalProvider.OpenAI, model: ' model-b ' },
+        { provider: ExternalProvider.OpenRouter, model: 'model-c' }
+    ];
+    const requestedModels = () => fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).model);
+
+    beforeEach(() => {
+        fetchMock.mockReset();
+        rateLimits.acquireRateLimit.mockResolvedValue(null);
+        settings.generationTimeoutSeconds = 0;
+    });
+
+    it('moves to the next model once the first one runs out of retries', async () => {
+        fetchMock.mockImplementation(async (_url, init) => (JSON.parse(init.body).model === 'model-a' ? reply(500) : reply(200, 'from b')));
+        const onModelUsed = vi.fn();
+
+        await expect(call({ fallbacks, onModelUsed })).resolves.toBe('from b');
+        expect(requestedModels()).toEqual(['model-a', 'model-a', 'model-a', 'model-b']);
+        expect(fetchMock.mock.calls[3][1].headers.Authorization).toBe('Bearer openai-key');
+        expect(onModelUsed).toHaveBeenCalledWith(ExternalProvider.OpenAI, 'model-b');
+    });
+
+    it('falls over on a refusal without retrying the refusing model', async () => {
+        fetchMock
+            .mockResolvedValueOnce(reply(200, '', 'content_filter'))
+            .mockResolvedValueOnce(reply(200, 'from b'));
+
+        await expect(call({ fallbacks })).resolves.toBe('from b');
+        expect(requestedModels()).toEqual(['model-a', 'model-b']);
+    });
+
+    it('gives each model the generation timeout before trying the next', async () => {
+        settings.generationTimeoutSeconds = 0.01;
+        fetchMock.mockImplementation((_url, init) => (JSON.parse(init.body).model === 'model-a'
+            ? new Promise((_resolve, reject) => init.signal.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError'))))
+            : Promise.resolve(reply(200, 'from b'))));
+
+        await expect(call({ fallbacks })).resolves.toBe('from b');
+        expect(requestedModels()).toEqual(['model-a', 'model-b']);
+    });
+
+    it('does not fall over when the caller aborts', async () => {
+        const controller = new AbortController();
+        fetchMock.mockImplementation(async () => {
+            controller.abort();
+            throw new DOMException('aborted', 'AbortError');
+        });
+
+        await expect(call({ fallbacks, signal: controller.signal })).rejects.toThrow('aborted');
+        expect(requestedModels()).toEqual(['model-a']);
+    });
+
+    it('throws the last error when every model fails', async () => {
+        fetchMock.mockImplementation(async (_url, init) => new Response(`${JSON.parse(init.body).model} is down`, { status: 400 }));
+
+        await expect(call({ fallbacks })).rejects.toThrow('model-c is down');
+        expect(new Set(requestedModels())).toEqual(new Set(['model-a', 'model-b', 'model-c']));
+        expect(fetchMock).toHaveBeenCalledTimes(9);
+    });
+});
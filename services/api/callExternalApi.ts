@@ -1,4 +1,4 @@
-import { ExternalProvider, ApiType, ChatRole } from '../../types';
+import { ExternalProvider, ApiType, ChatRole, type ModelFallback, type UsageData } from '../../types';
 
 /** Providers that use the Anthropic Messages API format */
 const isAnthropicCompatible = (provider: ExternalProvider): boolean =>
@@ -10,10 +10,169 @@ import { ExternalApiConfig, RESPONSES_API_SCHEMAS, sleep, generateJsonSchemaForP
 import { processStreamResponse } from './streaming';
 import { parseJsonContent, MissingFieldsError } from './jsonParser';
 import { cleanGenerationParamsForApi } from '../../utils/generationParamsUtils';
+import { acquireRateLimit, releaseRateLimit, reportRateLimited } from '../rateLimitService';
+import { estimateUsageCost } from '../costService';
+import { buildExternalCallCacheKey, getCachedResponse, getResponseCacheConfig, recordCacheBypass, setCachedResponse } from '../responseCacheService';
 
 export type { ExternalApiConfig } from './schemas';
 
+/** Total tokens from an OpenAI-, Responses- or Anthropic-style usage object */
+const getUsageTotal = (usage: any): number | undefined => {
+  if (!usage) return undefined;
+  if (typeof usage.total_tokens === 'number') return usage.total_tokens;
+  return (usage.prompt_tokens || usage.input_tokens || 0) + (usage.completion_tokens || usage.output_tokens || 0);
+};
+
+/** Normalised usage of one call, priced from the model price table (0 when the model has no price) unless the provider reports it */
+const toUsageData = (usage: any, provider: string, model: string): UsageData => {
+  const promptTokens = usage.prompt_tokens || usage.input_tokens || 0;
+  const completionTokens = usage.completion_tokens || usage.output_tokens || 0;
+  const reasoningTokens = usage.completion_tokens_details?.reasoning_tokens
+    ?? usage.output_tokens_details?.reasoning_tokens
+    ?? usage.reasoning_tokens
+    ?? 0;
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: usage.total_tokens || (promptTokens + completionTokens),
+    reasoning_tokens: reasoningTokens,
+    // Some providers (e.g. OpenRouter) report the billed cost themselves
+    cost: typeof usage.cost === 'number' ? usage.cost : estimateUsageCost(provider, model, {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      reasoning_tokens: reasoningTokens
+    }) ?? 0
+  };
+};
+
+/** The provider refused to answer (OpenAI content_filter, Anthropic refusal) */
+export class ContentFilterError extends Error {
+  constructor(provider: string, model: string) {
+    super(`${provider}/${model} refused the request (content filter)`);
+    this.name = 'ContentFilterError';
+  }
+}
+
+/** Stop reasons that mean the provider refused to answer */
+const isRefusalReason = (reason: string | null | undefined): boolean =>
+  reason === 'refusal' || reason === 'content_filter';
+
+/** Config for a fallback entry: same request, other model; the key comes from settings */
+const toFallbackConfig = (config: ExternalApiConfig, fallback: ModelFallback): ExternalApiConfig => ({
+  ...config,
+  provider: fallback.provider,
+  model: fallback.model.trim(),
+  apiType: fallback.apiType || ApiType.Chat,
+  apiKey: SettingsService.getApiKey(fallback.provider),
+  customBaseUrl: fallback.customBaseUrl || SettingsService.getCustomBaseUrl()
+});
+
+/**
+ * One model of a fallback chain, under its own timer linked to the caller's signal. When only the
+ * timer fired the call fails with a TimeoutError, which the chain treats like any other failure;
+ * an abort of the caller's signal still surfaces as an abort.
+ */
+const callWithAttemptTimeout = async (config: ExternalApiConfig, timeoutMs: number): Promise<any> => {
+  if (timeoutMs <= 0) return callModel(config);
+
+  const { signal } = config;
+  const attemptController = new AbortController();
+  const abortAttempt = () => attemptController.abort();
+  if (signal?.aborted) {
+    attemptController.abort();
+  } else {
+    signal?.addEventListener('abort', abortAttempt);
+  }
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    attemptController.abort();
+  }, timeoutMs);
+
+  try {
+    return await callModel({ ...config, signal: attemptController.signal });
+  } catch (err: any) {
+    if (timedOut && !signal?.aborted) {
+      const timeoutError = new Error(`${config.provider}/${config.model} timed out after ${Math.round(timeoutMs / 1000)} seconds`);
+      timeoutError.name = 'TimeoutError';
+      throw timeoutError;
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abortAttempt);
+  }
+};
+
+/**
+ * Call the model, falling through `fallbacks` in order when it still fails after its retries,
+ * times out or is refused by a content filter. With fallbacks configured, each model gets the
+ * generation timeout from settings before the next one is tried. Aborts are never failed over.
+ */
 export const callExternalApi = async (config: ExternalApiConfig): Promise<any> => {
+  const { fallbacks = [], onModelUsed, signal } = config;
+  const chain = [config, ...fallbacks.filter(f => f.model?.trim()).map(f => toFallbackConfig(config, f))];
+  const attemptTimeoutMs = chain.length > 1
+    ? Math.max(0, SettingsService.getSettings().generationTimeoutSeconds ?? 300) * 1000
+    : 0;
+
+  let lastError: any;
+  for (let i = 0; i < chain.length; i++) {
+    const entry = chain[i];
+    try {
+      const result = await callWithAttemptTimeout(entry, attemptTimeoutMs);
+      onModelUsed?.(entry.provider, entry.model);
+      return result;
+    } catch (err: any) {
+      if (err?.name === 'AbortError' || signal?.aborted) throw err;
+      lastError = err;
+      const next = chain[i + 1];
+      if (next) logger.warn(`[callExternalApi] ${entry.provider}/${entry.model} failed, falling back to ${next.provider}/${next.model}:`, err?.message || err);
+    }
+  }
+  throw lastError;
+};
+
+/**
+ * Answer from the response cache when an identical request was made before; otherwise call the
+ * model and cache what it returned. A bypassed run or call skips the read but still stores its
+ * response. A hit is free, so its usage is reported with no cost.
+ */
+const callModel = async (config: ExternalApiConfig): Promise<any> => {
+  const cacheConfig = getResponseCacheConfig();
+  if (!cacheConfig.enabled) return requestModel(config);
+
+  const { provider, model, onUsage } = config;
+  const key = await buildExternalCallCacheKey(config);
+
+  if (cacheConfig.bypass || config.bypassCache) {
+    recordCacheBypass();
+  } else {
+    const cached = await getCachedResponse(key);
+    if (cached) {
+      logger.log(`[callExternalApi] Cache hit for ${provider}/${model}`);
+      if (config.stream && config.onStreamChunk && typeof cached.result === 'string') {
+        config.onStreamChunk(cached.result, cached.result, config.streamPhase);
+      }
+      if (onUsage && cached.usage) onUsage({ ...cached.usage, cost: 0 });
+      return cached.result;
+    }
+  }
+
+  let usage: UsageData | undefined;
+  const result = await requestModel({
+    ...config,
+    onUsage: (callUsage) => {
+      usage = callUsage;
+      onUsage?.(callUsage);
+    }
+  });
+  await setCachedResponse(key, { result, usage, provider, model }, cacheConfig.ttlHours);
+  return result;
+};
+
+const requestModel = async (config: ExternalApiConfig): Promise<any> => {
   const {
     provider, apiKey, model, apiType = ApiType.Chat, customBaseUrl, userPrompt, signal,
     maxRetries = 3, retryDelay = 2000, generationParams, structuredOutput,
@@ -211,17 +370,33 @@ export const callExternalApi = async (config: ExternalApiConfig): Promise<any> =
   }
 
   let lastError: any;
+  const body = JSON.stringify(payload);
 
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
+      const rateLimitTicket = await acquireRateLimit(provider, model, body, signal);
       const response = await fetch(url, {
         method: 'POST',
         headers,
-        body: JSON.stringify(payload),
+        body,
         signal
       });
 
-      if (response.status === 429 || response.status >= 500) {
+      if (response.status === 429) {
+        // Pauses the provider key for every caller sharing the scheduler, honouring Retry-After
+        const pause = await reportRateLimited(rateLimitTicket, response.headers, retryDelay * Math.pow(2, attempt));
+        if (attempt < maxRetries) {
+          logger.warn(`Attempt ${attempt + 1} rate limited (429). ${pause > 0 ? `Retrying in ${pause}ms...` : 'Retrying when the key has budget again...'}`);
+          if (pause > 0) await sleep(pause);
+          continue;
+        } else {
+          const errText = await response.text();
+          throw new Error(`${provider} API Error ${response.status} after ${maxRetries} retries: ${errText}`);
+        }
+      }
+
+      if (response.status >= 500) {
+        // The ticket stays unsettled: a failed call keeps its reserved estimate and any 429 backoff
         if (attempt < maxRetries) {
           const backoff = retryDelay * Math.pow(2, attempt);
           logger.warn(`Attempt ${attempt + 1} failed (${response.status}). Retrying in ${backoff}ms...`);
@@ -239,15 +414,24 @@ export const callExternalApi = async (config: ExternalApiConfig): Promise<any> =
       }
 
       if (shouldStream) {
+        let streamUsage: any;
+        let streamStopReason: string | undefined;
         const rawContent = await processStreamResponse(
           response,
           provider,
           (chunk, accumulated, usage) => {
+            if (usage) streamUsage = usage;
             return onStreamChunk!(chunk, accumulated, streamPhase, usage);
           },
           signal,
-          apiType
+          apiType,
+          (reason) => { streamStopReason = reason; }
         );
+        releaseRateLimit(rateLimitTicket, getUsageTotal(streamUsage));
+        if (onUsage && streamUsage) onUsage(toUsageData(streamUsage, provider, model));
+
+        // Refused streams end with partial or empty text; fail so the fallbacks get a turn
+        if (isRefusalReason(streamStopReason)) throw new ContentFilterError(provider, model);
 
         if (!rawContent) {
           logger.warn("Streaming returned empty content");
@@ -261,22 +445,18 @@ export const callExternalApi = async (config: ExternalApiConfig): Promise<any> =
       }
 
       const data = await response.json();
+      releaseRateLimit(rateLimitTicket, getUsageTotal(data.usage));
 
       // Extract usage data from non-streaming response
       if (onUsage && data.usage) {
-        const usage = data.usage;
-        const reasoningTokens = usage.completion_tokens_details?.reasoning_tokens
-          ?? usage.reasoning_tokens
-          ?? 0;
-        onUsage({
-          prompt_tokens: usage.prompt_tokens || usage.input_tokens || 0,
-          completion_tokens: usage.completion_tokens || usage.output_tokens || 0,
-          total_tokens: usage.total_tokens || ((usage.prompt_tokens || 0) + (usage.completion_tokens || 0)),
-          reasoning_tokens: reasoningTokens,
-          cost: 0
-        });
+        onUsage(toUsageData(data.usage, provider, model));
       }
 
+      const refused = isRefusalReason(data.stop_reason)
+        || isRefusalReason(data.choices?.[0]?.finish_reason)
+        || isRefusalReason(data.incomplete_details?.reason);
+      if (refused) throw new ContentFilterError(provider, model);
+
       if (isAnthropicCompatible(provider)) {
         const content = data.content?.[0]?.text || "";
         return parseJsonContent(content, { requiredFields: selectedFields });
@@ -367,6 +547,8 @@ export const callExternalApi = async (config: ExternalApiConfig): Promise<any> =
         logger.error(`Missing required fields in response: ${err.missingFields.join(', ')}`);
         throw err;
       }
+      // A refusal repeats on retry; the caller's fallbacks may answer instead
+      if (err instanceof ContentFilterError) throw err;
 
       lastError = err;
 
@@ -0,0 +1,83 @@
+import { ExternalProvider } from '../../types';
+import { PROVIDERS } from '../../constants';
+import { logger } from '../../utils/logger';
+
+export interface EmbeddingRequestConfig {
+  provider: ExternalProvider;
+  apiKey: string;
+  model: string;
+  customBaseUrl?: string;
+  batchSize?: number;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_EMBEDDING_BATCH_SIZE = 64;
+
+const resolveEmbeddingsUrl = (provider: ExternalProvider, customBaseUrl?: string): string => {
+  const baseUrl = (provider === ExternalProvider.Other ? customBaseUrl : (customBaseUrl || PROVIDERS[provider]?.url)) || '';
+  if (!baseUrl) {
+    throw new Error(`No base URL found for provider: ${provider}`);
+  }
+  const trimmed = baseUrl.replace(/\/$/, '');
+  return trimmed.endsWith('/embeddings') ? trimmed : `${trimmed}/embeddings`;
+};
+
+/**
+ * Fetch embeddings from an OpenAI-compatible `/embeddings` endpoint.
+ * Inputs are sent in batches; the result preserves input order.
+ */
+export const fetchEmbeddings = async (inputs: string[], config: EmbeddingRequestConfig): Promise<number[][]> => {
+  const { provider, apiKey, model, customBaseUrl, signal } = config;
+  const batchSize = Math.max(1, config.batchSize || DEFAULT_EMBEDDING_BATCH_SIZE);
+  const url = resolveEmbeddingsUrl(provider, customBaseUrl);
+  const safeApiKey = apiKey ? apiKey.replace(/[^\x20-\x7E]/g, '').trim() : '';
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (provider === ExternalProvider.Ollama && !safeApiKey) {
+    headers['Authorization'] = 'Bearer ollama-local';
+  } else {
+    headers['Authorization'] = `Bearer ${safeApiKey}`;
+  }
+
+  const vectors: number[][] = [];
+  for (let start = 0; start < inputs.length; start += batchSize) {
+    // Empty strings are rejected by most providers; embed a single space instead
+    const batch = inputs.slice(start, start + batchSize).map(text => text.trim() || ' ');
+    logger.log(`[fetchEmbeddings] Requesting ${batch.length} embeddings from ${url}`);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model, input: batch }),
+      signal
+    });
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`Embeddings request failed (${response.status}): ${errorText.slice(0, 200)}`);
+    }
+    const payload = await response.json();
+    const data: Array<{ index?: number; embedding: number[] }> = Array.isArray(payload?.data) ? payload.data : [];
+    if (data.length !== batch.length) {
+      throw new Error(`Embeddings response returned ${data.length} vectors for ${batch.length} inputs`);
+    }
+    const ordered = [...data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    ordered.forEach(entry => vectors.push(entry.embedding));
+  }
+  return vectors;
+};
+
+/**
+ * Cosine similarity of two vectors, clamped to [0, 1].
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (!a || !b || a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return Math.max(0, Math.min(1, dot / (Math.sqrt(normA) * Math.sqrt(normB))));
+};
@@ -120,6 +120,14 @@ export interface ExternalApiConfig {
   selectedFields?: OutputFieldName[];
   /** Callback to receive usage data from the API response (both streaming and non-streaming) */
   onUsage?: (usage: import('../../types').UsageData) => void;
+  /** Models tried in order once this one fails after its retries */
+  fallbacks?: import('../../types').ModelFallback[];
+  /** Called with the model that produced the response, whether primary or a fallback */
+  onModelUsed?: (provider: ExternalProvider, model: string) => void;
+  /** Keeps otherwise identical requests from sharing a cached response (e.g. self-consistency samples) */
+  cacheVariant?: string | number;
+  /** Skip the cache read for a call that must return a new sample (regenerate, rewrite); its response still replaces the cached one */
+  bypassCache?: boolean;
 }
 
 export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
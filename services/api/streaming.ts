@@ -10,7 +10,8 @@ export async function processStreamResponse(
   provider: ExternalProvider,
   onChunk: (chunk: string, accumulated: string, usage?: any) => void | false,
   signal?: AbortSignal,
-  apiType: ApiType = ApiType.Chat
+  apiType: ApiType = ApiType.Chat,
+  onStopReason?: (reason: string) => void
 ): Promise<string> {
   const reader = response.body?.getReader();
   if (!reader) throw new Error('No response body for streaming');
@@ -21,6 +22,8 @@ export async function processStreamResponse(
   let isReasoning = false;
   let toolCalls: Record<number, { name: string, args: string, id?: string }> = {};
   let usageData: any = null;
+  // Why the model stopped (finish_reason / stop_reason / incomplete reason), reported once the stream ends
+  let stopReason: string | null = null;
   const isResponsesApi = apiType === ApiType.Responses;
   let chunkCount = 0;
 
@@ -77,6 +80,13 @@ export async function processStreamResponse(
               usageData = json.usage;
             }
 
+            const chunkStopReason = json.choices?.[0]?.finish_reason
+              || json.delta?.stop_reason
+              || json.response?.incomplete_details?.reason;
+            if (chunkStopReason) {
+              stopReason = chunkStopReason;
+            }
+
             if (isAnthropicCompatible(provider)) {
               if (json.type === 'content_block_delta') {
                 chunk = json.delta?.text || '';
@@ -232,5 +242,7 @@ export async function processStreamResponse(
     }
   }
 
+  if (stopReason) onStopReason?.(stopReason);
+
   return accumulated;
 }
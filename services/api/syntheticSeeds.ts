@@ -16,6 +16,8 @@ export const generateSyntheticSeeds = async (
   try {
     const result = await callExternalApi({
       ...baseConfig,
+      // Each run on a topic wants new seeds, not the last run's
+      bypassCache: true,
       userPrompt: "You are a high-fidelity synthetic data generator. You output strict JSON arrays of strings.\n\n" + prompt
     });
 
@@ -1,5 +1,7 @@
-import type { SessionListFilters } from '../types';
-import { DbProvider } from '../interfaces/enums';
+import type { ModelPrice, RateLimitRule, RubricCriterion, SessionListFilters, SynthLogItem } from '../types';
+import { AutoscoreMode, DbProvider, JudgeAggregation } from '../interfaces/enums';
+import type { BackendJudge } from './judgeEnsembleService';
+import type { BackendCacheParams } from './responseCacheService';
 
 // --- Constants ---
 const DEFAULT_BACKEND_URL = import.meta.env.VITE_BACKEND_URL || '';
@@ -565,10 +567,10 @@ export const cancelJob = async (jobId: string): Promise<void> => {
     await requestJson(`/api/jobs/${jobId}/cancel`, { method: 'POST' });
 };
 
-export const rerunJob = async (jobId: string, encryptedApiKey: string): Promise<string> => {
+export const rerunJob = async (jobId: string, encryptedApiKey?: string, judgeApiKeys?: Record<string, string>): Promise<string> => {
     const { jobId: newJobId } = await requestJson<{ jobId: string }>(`/api/jobs/${jobId}/rerun`, {
         method: 'POST',
-        body: JSON.stringify({ apiKey: encryptedApiKey }),
+        body: JSON.stringify({ apiKey: encryptedApiKey, judgeApiKeys }),
     });
     return newJobId;
 };
@@ -590,6 +592,14 @@ export const startAutoScore = async (params: {
     resumeJobId?: string;
     systemPrompt?: string;
     generationParams?: Record<string, unknown>;
+    mode?: AutoscoreMode;
+    rubric?: RubricCriterion[];
+    judges?: BackendJudge[];
+    judgeApiKeys?: Record<string, string>;  // Encrypted, by judge provider; also required when resuming
+    aggregation?: JudgeAggregation;
+    pricing?: ModelPrice[];
+    budgetUsd?: number;     // Job stops as failed once spend reaches it; 0 = none
+    cache?: BackendCacheParams;
 }) => {
     const { jobId } = await requestJson<{ jobId: string }>('/api/jobs/autoscore', {
         method: 'POST',
@@ -615,6 +625,9 @@ export const startRewrite = async (params: {
     fieldPrompts?: Record<string, string>;
     itemIds?: string[];
     resumeJobId?: string;  // NEW: Resume from this job
+    pricing?: ModelPrice[];
+    budgetUsd?: number;    // Job stops as failed once spend reaches it; 0 = none
+    cache?: BackendCacheParams;
 }) => {
     const { jobId } = await requestJson<{ jobId: string }>('/api/jobs/rewrite', {
         method: 'POST',
@@ -623,6 +636,43 @@ export const startRewrite = async (params: {
     return jobId;
 };
 
+/** One converter work item of a batch job; the backend fills in reasoning and answer */
+export interface BackendBatchItem {
+    userPrompt: string;
+    log: Partial<SynthLogItem>;
+}
+
+/** Upload one chunk of batch items; the first upload (no jobId) creates the job. */
+export const uploadBatchItems = async (params: {
+    jobId?: string;
+    sessionId?: string;    // Required for the first upload
+    sessionName?: string;
+    items: BackendBatchItem[];
+}) => requestJson<{ jobId: string; chunk: number; uploaded: number }>('/api/jobs/batch/items', {
+    method: 'POST',
+    body: JSON.stringify(params)
+});
+
+export const startBatch = async (params: {
+    jobId?: string;        // Job holding the uploaded items; optional when resuming
+    provider?: string;     // openai or anthropic; optional when resuming
+    model?: string;        // Optional when resuming
+    baseUrl?: string;      // Optional when resuming
+    apiKey?: string;       // Encrypted; also required when resuming
+    systemPrompt?: string;
+    generationParams?: Record<string, unknown>;
+    outputFormat?: 'json' | 'native';
+    pollIntervalMs?: number;
+    resumeJobId?: string;  // Polls the job's batches again instead of submitting new ones
+    pricing?: ModelPrice[];
+}) => {
+    const { jobId } = await requestJson<{ jobId: string }>('/api/jobs/batch', {
+        method: 'POST',
+        body: JSON.stringify(params)
+    });
+    return jobId;
+};
+
 export const startMigrateReasoning = async (params: {
     sessionId?: string;
     limit?: number;
@@ -654,6 +704,14 @@ export interface ScoreDistributionResult {
     };
     distribution?: Record<string, number>;
     thresholdPreview?: Record<string, number>;
+    /** Per-criterion stats, present when items were scored in rubric mode */
+    criteria?: Record<string, {
+        scoredItems: number;
+        average: string;
+        min: string;
+        max: string;
+        distribution: Record<string, number>;
+    }>;
 }
 
 export const getScoreDistribution = async (
@@ -679,6 +737,27 @@ export const startRemoveItems = async (params: {
     return jobId;
 };
 
+export const startDedup = async (params: {
+    sessionId?: string;
+    sessionIds?: string[];
+    method?: 'exact' | 'minhash';
+    threshold?: number;
+    fieldWeights?: { query?: number; reasoning?: number; answer?: number };
+    shingleSize?: number;
+    numHashes?: number;
+    action?: 'mark' | 'delete';
+    dryRun?: boolean;
+    sleepMs?: number;
+    concurrency?: number;
+    resumeJobId?: string;
+}) => {
+    const { jobId } = await requestJson<{ jobId: string }>('/api/jobs/dedup', {
+        method: 'POST',
+        body: JSON.stringify(params)
+    });
+    return jobId;
+};
+
 // ─── Database Provider Admin ────────────────────────────────
 
 export const getDbProvider = async (): Promise<string> => {
@@ -716,3 +795,91 @@ export const startMigrateFromFirebase = async (): Promise<string> => {
     });
     return jobId;
 };
+
+// ─── Ground-Truth Verification ──────────────────────────────
+
+export interface CodeTestRunResult {
+    passed: boolean;
+    exitCode: number | null;
+    timedOut: boolean;
+    /** Combined stdout/stderr, truncated */
+    output: string;
+    durationMs: number;
+}
+
+export const runCodeTests = async (params: {
+    language: 'python' | 'javascript';
+    code: string;
+    tests: string;
+    timeoutMs?: number;
+}): Promise<CodeTestRunResult> => {
+    return requestJson<CodeTestRunResult>('/api/verify/code', {
+        method: 'POST',
+        body: JSON.stringify(params)
+    });
+};
+
+// ─── Rate Limits ────────────────────────────────────────────
+
+export const updateRateLimits = async (rules: RateLimitRule[]): Promise<{ rules: RateLimitRule[] }> => {
+    return requestJson<{ rules: RateLimitRule[] }>('/api/rate-limits', {
+        method: 'PUT',
+        body: JSON.stringify({ rules })
+    });
+};
+
+/**
+ * Wait for budget in the backend scheduler. Not retried: the request is held open until the
+ * budget is available, and aborting it removes the waiter on the backend.
+ */
+export const acquireRateLimit = async (
+    params: { provider: string; model: string; tokens: number },
+    signal?: AbortSignal
+): Promise<{ waitedMs: number }> => {
+    const response = await fetch(await buildUrl('/api/rate-limits/acquire'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(params),
+        signal
+    });
+    if (!response.ok) {
+        throw await buildHttpError(response);
+    }
+    return response.json() as Promise<{ waitedMs: number }>;
+};
+
+export const reportRateLimit = async (params: {
+    provider: string;
+    model: string;
+    outcome: 'success' | 'limited';
+    reservedTokens?: number;
+    actualTokens?: number;
+    retryAfterMs?: number | null;
+    fallbackDelayMs?: number;
+}): Promise<void> => {
+    await requestJson('/api/rate-limits/report', {
+        method: 'POST',
+        body: JSON.stringify(params)
+    });
+};
+
+// ─── Response Cache ─────────────────────────────────────────
+
+export interface BackendResponseCacheStats {
+    hits: number;
+    misses: number;
+    writes: number;
+    bypassed: number;
+    savedTokens: number;
+    entries: number;
+    maxEntries: number;
+    defaultTtlMs: number;
+}
+
+export const fetchResponseCacheStats = async (): Promise<BackendResponseCacheStats> => {
+    return requestJson<BackendResponseCacheStats>('/api/response-cache');
+};
+
+export const clearResponseCache = async (): Promise<BackendResponseCacheStats> => {
+    return requestJson<BackendResponseCacheStats>('/api/response-cache', { method: 'DELETE' });
+};
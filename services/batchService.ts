@@ -0,0 +1,115 @@
+/**
+ * Batch submission: converter work items go to the provider Batch API as one backend job, at
+ * half the price of regular calls. Items are uploaded in chunks that the backend keeps as
+ * pending logs of the session, one provider batch per chunk; the backend polls the batches and
+ * fills the logs in, and importBatchLogs copies them into local storage once the job completes.
+ */
+
+import { ExternalProvider, LogItemStatus, type GenerationParams, type SynthLogItem } from '../types';
+import { logger } from '../utils/logger';
+import { encryptKey } from '../utils/keyEncryption';
+import * as backendClient from './backendClient';
+import { getModelPrices } from './costService';
+import { LogStorageService } from './logStorageService';
+import { SettingsService } from './settingsService';
+
+export const BATCH_JOB_TYPE = 'batch';
+
+/** Providers with a Batch API */
+export const BATCH_PROVIDERS: ExternalProvider[] = [ExternalProvider.OpenAI, ExternalProvider.Anthropic];
+
+export const isBatchProvider = (provider: string): boolean => BATCH_PROVIDERS.includes(provider as ExternalProvider);
+
+/** Whether converter runs should be submitted as a batch (setting on, provider supported, backend connected) */
+/** Limits of one uploaded chunk, kept well under the backend's request body limit */
+const MAX_CHUNK_ITEMS = 1000;
+const MAX_CHUNK_BYTES = 5 * 1024 * 1024;
+
+/** Split items into upload chunks by count and by serialized size */
+export function chunkBatchItems(items: backendClient.BackendBatchItem[]): backendClient.BackendBatchItem[][] {
+    const chunks: backendClient.BackendBatchItem[][] = [];
+    let current: backendClient.BackendBatchItem[] = [];
+    let bytes = 0;
+    for (const item of items) {
+        const size = new Blob([JSON.stringify(item)]).size;
+        if (current.length > 0 && (current.length >= MAX_CHUNK_ITEMS || bytes + size > MAX_CHUNK_BYTES)) {
+            chunks.push(current);
+            current = [];
+            bytes = 0;
+        }
+        current.push(item);
+        bytes += size;
+    }
+    if (current.length > 0) chunks.push(current);
+    return chunks;
+}
+
+export const isBatchSubmissionEnabled = (provider: string): boolean =>
+    Boolean(SettingsService.getSettings().batchSubmission) && isBatchProvider(provider) && backendClient.isBackendEnabled();
+
+/**
+ * Upload the work items chunk by chunk and start a backend batch job for them
+ *
+ * @returns The job id
+ */
+export async function submitBatchJob(params: {
+    sessionId: string;
+    sessionName?: string | null;
+    provider: ExternalProvider;
+    model: string;
+    apiKey: string;
+    systemPrompt: string;
+    items: backendClient.BackendBatchItem[];
+    generationParams?: GenerationParams;
+    outputFormat: 'json' | 'native';
+}): Promise<string> {
+    // Chunks take consecutive numbers on the backend, so they go one after another
+    let jobId: string | undefined;
+    for (const items of chunkBatchItems(params.items)) {
+        const uploaded = await backendClient.uploadBatchItems({
+            jobId,
+            sessionId: params.sessionId,
+            sessionName: params.sessionName || undefined,
+            items
+        });
+        jobId = uploaded.jobId;
+    }
+    if (!jobId) throw new Error('No items to submit');
+
+    return backendClient.startBatch({
+        jobId,
+        provider: params.provider,
+        model: params.model,
+        baseUrl: SettingsService.getProviderUrl(params.provider),
+        apiKey: await encryptKey(params.apiKey),
+        systemPrompt: params.systemPrompt,
+        generationParams: params.generationParams as Record<string, unknown> | undefined,
+        outputFormat: params.outputFormat,
+        pricing: getModelPrices()
+    });
+}
+
+/**
+ * Copy the logs a completed batch job saved on the backend into local storage
+ *
+ * @returns The session the logs belong to and how many were added
+ */
+export async function importBatchLogs(jobId: string): Promise<{ sessionId: string | null; imported: number }> {
+    const job = await backendClient.fetchJob(jobId) as { params?: { sessionId?: string } };
+    const sessionId = job.params?.sessionId || null;
+    if (!sessionId) return { sessionId, imported: 0 };
+
+    // Logs still pending failed to save their result; a resume of the job fills them in
+    const remote = (await backendClient.fetchAllLogs(sessionId, true) as SynthLogItem[])
+        .filter(log => log.batchJobId === jobId && log.status !== LogItemStatus.IN_PROGRESS);
+    const localIds = new Set((await LogStorageService.getAllLogs(sessionId)).map(log => log.id));
+
+    let imported = 0;
+    for (const log of remote) {
+        if (localIds.has(log.id)) continue;
+        await LogStorageService.saveLog(sessionId, { ...log, sessionUid: sessionId, savedToDb: true });
+        imported++;
+    }
+    logger.log(`[batch] Imported ${imported} logs from job ${jobId} into session ${sessionId}`);
+    return { sessionId, imported };
+}
@@ -0,0 +1,44 @@
+/**
+ * Spend tracking: model prices (settings over the built-in defaults), the cost of calls and
+ * items, and the budget sent with backend jobs.
+ */
+
+import { DEFAULT_BUDGET_CONFIG, DEFAULT_MODEL_PRICES, type BudgetConfig, type ModelPrice, type SynthLogItem } from '../types';
+import { calculateUsageCost, findModelPrice, type CostUsage } from '../utils/costCalculator';
+import { getBackendCacheParams, type BackendCacheParams } from './responseCacheService';
+import { SettingsService } from './settingsService';
+
+export const getModelPrices = (): ModelPrice[] => [...(SettingsService.getSettings().modelPrices || []), ...DEFAULT_MODEL_PRICES];
+
+export const getBudgetConfig = (): BudgetConfig => ({ ...DEFAULT_BUDGET_CONFIG, ...SettingsService.getSettings().budget });
+
+/**
+ * USD cost of one call's usage
+ *
+ * @returns undefined when the model has no price
+ */
+export function estimateUsageCost(provider: string, model: string, usage: CostUsage): number | undefined {
+    const price = findModelPrice(getModelPrices(), provider, model);
+    return price ? calculateUsageCost(usage, price) : undefined;
+}
+
+/** Cost per DEEP phase (trace key), for phases whose usage was reported */
+export function getPhaseCosts(item: Pick<SynthLogItem, 'deepTrace'>): Record<string, number> {
+    const costs: Record<string, number> = {};
+    Object.entries(item.deepTrace || {}).forEach(([phase, entry]) => {
+        if (typeof entry.usage?.cost === 'number') costs[phase] = entry.usage.cost;
+    });
+    return costs;
+}
+
+export const sumItemCosts = (items: SynthLogItem[]): number => items.reduce((sum, item) => sum + (item.cost || 0), 0);
+
+/**
+ * Prices, budget and response cache settings sent with backend jobs that call models; a budget
+ * of 0 means none, also on resume
+ */
+export const getJobCostParams = (): { pricing: ModelPrice[]; budgetUsd: number; cache: BackendCacheParams } => ({
+    pricing: getModelPrices(),
+    budgetUsd: getBudgetConfig().jobBudgetUsd,
+    cache: getBackendCacheParams()
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_PAIRWISE_BUCKET_SIZE, buildShingles, chooseBandCount, compareFingerprints, computeFingerprint, computeSignature, estimateSimilarity, findCandidatePairs, normalizeForShingling } from './minHash';
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+    const intersection = [...a].filter(shingle => b.has(shingle)).length;
+    return intersection / (a.size + b.size - intersection);
+};
+
+describe('normalizeForShingling', () => {
+    it('ignores case, punctuation, think tags and extra whitespace', () => {
+        expect(normalizeForShingling('<think>Hello,   WORLD!</think>\n')).toBe('hello world');
+    });
+});
+
+describe('buildShingles', () => {
+    it('builds overlapping character n-grams', () => {
+        expect([...buildShingles('abcd', 3)]).toEqual(['abc', 'bcd']);
+    });
+
+    it('keeps a short text as one shingle and an empty one as none', () => {
+        expect([...buildShingles('ab', 5)]).toEqual(['ab']);
+        expect(buildShingles(' !? ', 5).size).toBe(0);
+    });
+});
+
+describe('computeSignature / estimateSimilarity', () => {
+    it('gives formatting-only variants the same signature', () => {
+        const a = computeSignature('The quick brown fox.', 5, 64);
+        const b = computeSignature('the QUICK brown   fox', 5, 64);
+        expect(estimateSimilarity(a, b)).toBe(1);
+    });
+
+    it('estimates the Jaccard similarity of the shingle sets', () => {
+        const left = 'the quick brown fox jumps over the lazy dog near the river';
+        const right = 'the quick brown fox leaps over the lazy cat near the river';
+        const exact = jaccard(buildShingles(left, 3), buildShingles(right, 3));
+        const estimate = estimateSimilarity(computeSignature(left, 3, 256), computeSignature(right, 3, 256));
+        expect(estimate).not.toBeNull();
+        expect(Math.abs(estimate! - exact)).toBeLessThan(0.1);
+    });
+
+    it('skips empty texts', () => {
+        expect(estimateSimilarity(computeSignature('', 5, 64), computeSignature('text', 5, 64))).toBeNull();
+    });
+});
+
+describe('computeFingerprint / compareFingerprints', () => {
+    it('compares texts that fit in one shingle exactly and keeps them out of the buckets', () => {
+        const yes = computeFingerprint('Yes.', 5, 64);
+        expect(yes).toEqual({ signature: new Uint32Array(0), shortText: 'yes' });
+        expect(compareFingerprints(yes, computeFingerprint('YES', 5, 64))).toBe(1);
+        expect(compareFingerprints(yes, computeFingerprint('no', 5, 64))).toBe(0);
+        expect(compareFingerprints(yes, computeFingerprint('yes, and a much longer answer', 5, 64))).toBe(0);
+    });
+
+    it('skips empty texts and estimates long ones', () => {
+        const long = computeFingerprint('a sentence long enough to shingle', 5, 64);
+        expect(compareFingerprints(computeFingerprint('', 5, 64), long)).toBeNull();
+        expect(compareFingerprints(long, computeFingerprint('A sentence, long enough to shingle!', 5, 64))).toBe(1);
+    });
+});
+
+describe('chooseBandCount', () => {
+    it('puts the LSH threshold below the similarity threshold', () => {
+        const bands = chooseBandCount(128, 0.8);
+        expect(128 % bands).toBe(0);
+        expect(Math.pow(1 / bands, bands / 128)).toBeLessThanOrEqual(0.65);
+    });
+});
+
+describe('findCandidatePairs', () => {
+    it('pairs every member of a shared bucket and skips empty signatures', () => {
+        const same = computeSignature('identical text for all three', 5, 32);
+        const other = computeSignature('something else entirely, nothing shared', 5, 32);
+        const empty = computeSignature('', 5, 32);
+        expect([...findCandidatePairs([same, other, same, empty, same], 8)].sort()).toEqual(['0:2', '0:4', '2:4']);
+    });
+
+    it('links an oversized bucket through its first member', () => {
+        const same = computeSignature('identical text in every row', 5, 32);
+        const size = MAX_PAIRWISE_BUCKET_SIZE * 4;
+        const pairs = findCandidatePairs(Array.from({ length: size }, () => same), 8);
+        expect(pairs.size).toBe(size - 1);
+        expect(pairs.has(`0:${size - 1}`)).toBe(true);
+    });
+});
@@ -0,0 +1,199 @@
+/**
+ * MinHash signatures over character shingles, with LSH banding for candidate pairs.
+ * Estimates Jaccard similarity between texts without comparing every shingle set.
+ */
+
+const EMPTY_SIGNATURE = new Uint32Array(0);
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace so that formatting-only
+ * differences do not affect similarity.
+ */
+export function normalizeForShingling(text: string): string {
+    return (text || '')
+        .toLowerCase()
+        .replace(/<\/?think>/g, ' ')
+        .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Build the set of character n-grams for a text.
+ * Texts shorter than the shingle size produce a single shingle.
+ */
+export function buildShingles(text: string, shingleSize: number): Set<string> {
+    const normalized = normalizeForShingling(text);
+    const shingles = new Set<string>();
+    if (!normalized) return shingles;
+    const size = Math.max(1, shingleSize);
+    if (normalized.length <= size) {
+        shingles.add(normalized);
+        return shingles;
+    }
+    for (let i = 0; i <= normalized.length - size; i++) {
+        shingles.add(normalized.slice(i, i + size));
+    }
+    return shingles;
+}
+
+// FNV-1a 32-bit hash of a string
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// murmur3 finalizer, seeded per permutation
+function mixHash(value: number, seed: number): number {
+    let h = (value ^ seed) >>> 0;
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+    return h >>> 0;
+}
+
+const seedCache = new Map<number, Uint32Array>();
+
+function getSeeds(numHashes: number): Uint32Array {
+    const cached = seedCache.get(numHashes);
+    if (cached) return cached;
+    // Deterministic seeds so signatures are comparable across runs
+    const seeds = new Uint32Array(numHashes);
+    let state = 0x9e3779b9;
+    for (let i = 0; i < numHashes; i++) {
+        state = mixHash(state + i, 0x7f4a7c15);
+        seeds[i] = state;
+    }
+    seedCache.set(numHashes, seeds);
+    return seeds;
+}
+
+/**
+ * Compute a MinHash signature for a text. Empty texts return an empty signature.
+ */
+export function computeSignature(text: string, shingleSize: number, numHashes: number): Uint32Array {
+    const shingles = buildShingles(text, shingleSize);
+    if (shingles.size === 0) return EMPTY_SIGNATURE;
+
+    const seeds = getSeeds(numHashes);
+    const signature = new Uint32Array(numHashes).fill(0xffffffff);
+    shingles.forEach(shingle => {
+        const base = hashString(shingle);
+        for (let i = 0; i < numHashes; i++) {
+            const h = mixHash(base, seeds[i]);
+            if (h < signature[i]) signature[i] = h;
+        }
+    });
+    return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of two signatures (fraction of matching positions).
+ * Returns null when either side is empty, so callers can skip the field.
+ */
+export function estimateSimilarity(a: Uint32Array, b: Uint32Array): number | null {
+    if (a.length === 0 || b.length === 0 || a.length !== b.length) return null;
+    let matches = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] === b[i]) matches++;
+    }
+    return matches / a.length;
+}
+
+/**
+ * MinHash signature of a text, or its normalized form when the text fits in a single shingle.
+ * Short texts such as "42" or "yes" are compared exactly and stay out of the LSH buckets,
+ * where thousands of identical ones would otherwise land together.
+ */
+export interface TextFingerprint {
+    signature: Uint32Array;
+    shortText: string | null;
+}
+
+export function computeFingerprint(text: string, shingleSize: number, numHashes: number): TextFingerprint {
+    const normalized = normalizeForShingling(text);
+    if (normalized && normalized.length <= Math.max(1, shingleSize)) {
+        return { signature: EMPTY_SIGNATURE, shortText: normalized };
+    }
+    return { signature: computeSignature(text, shingleSize, numHashes), shortText: null };
+}
+
+/**
+ * Similarity of two fingerprints: exact match for short texts, MinHash estimate otherwise.
+ * Returns null when either text is empty.
+ */
+export function compareFingerprints(a: TextFingerprint, b: TextFingerprint): number | null {
+    const isEmpty = (fingerprint: TextFingerprint) => fingerprint.shortText === null && fingerprint.signature.length === 0;
+    if (isEmpty(a) || isEmpty(b)) return null;
+    if (a.shortText !== null || b.shortText !== null) return a.shortText === b.shortText ? 1 : 0;
+    return estimateSimilarity(a.signature, b.signature);
+}
+
+/**
+ * Choose an LSH band count whose detection threshold (1/b)^(1/r) sits below the
+ * requested similarity threshold, so true matches are rarely missed.
+ */
+export function chooseBandCount(numHashes: number, threshold: number): number {
+    const target = Math.max(0.05, threshold - 0.15);
+    let best = 1;
+    let bestDelta = Number.POSITIVE_INFINITY;
+    for (let bands = 1; bands <= numHashes; bands++) {
+        if (numHashes % bands !== 0) continue;
+        const rows = numHashes / bands;
+        const lshThreshold = Math.pow(1 / bands, 1 / rows);
+        if (lshThreshold > target) continue;
+        const delta = target - lshThreshold;
+        if (delta < bestDelta) {
+            bestDelta = delta;
+            best = bands;
+        }
+    }
+    return best;
+}
+
+/** Buckets up to this size pair every member; larger ones pair each member with the first only */
+export const MAX_PAIRWISE_BUCKET_SIZE = 32;
+
+/**
+ * Find index pairs whose signatures collide in at least one LSH band.
+ * Pairs are encoded as `i:j` with i < j. Oversized buckets, usually many copies of one text,
+ * are linked through their first member so the pair count stays linear.
+ */
+export function findCandidatePairs(signatures: Uint32Array[], bands: number): Set<string> {
+    const pairs = new Set<string>();
+    if (signatures.length < 2) return pairs;
+    const numHashes = signatures.find(s => s.length > 0)?.length || 0;
+    if (numHashes === 0) return pairs;
+    const rows = Math.max(1, Math.floor(numHashes / bands));
+
+    for (let band = 0; band < bands; band++) {
+        const buckets = new Map<string, number[]>();
+        const start = band * rows;
+        signatures.forEach((signature, index) => {
+            if (signature.length === 0) return;
+            const key = Array.from(signature.subarray(start, start + rows)).join(',');
+            const bucket = buckets.get(key);
+            if (bucket) bucket.push(index);
+            else buckets.set(key, [index]);
+        });
+        buckets.forEach(indices => {
+            if (indices.length < 2) return;
+            if (indices.length > MAX_PAIRWISE_BUCKET_SIZE) {
+                for (let k = 1; k < indices.length; k++) pairs.add(`${indices[0]}:${indices[k]}`);
+                return;
+            }
+            for (let i = 0; i < indices.length; i++) {
+                for (let j = i + 1; j < indices.length; j++) {
+                    pairs.add(`${indices[i]}:${indices[j]}`);
+                }
+            }
+        });
+    }
+    return pairs;
+}
@@ -0,0 +1,236 @@
+/**
+ * Near-duplicate detection for verifier items.
+ * Combines per-field similarities (query, reasoning, answer) into a weighted score
+ * and groups items whose score meets the configured threshold.
+ */
+
+import type { DedupConfig, DedupFieldWeights, SynthLogItem } from '../../types';
+import { DedupMethod } from '../../interfaces/enums';
+import { parseThinkTagsForDisplay } from '../../utils/thinkTagParser';
+import { chooseBandCount, compareFingerprints, computeFingerprint, findCandidatePairs, type TextFingerprint } from './minHash';
+import { cosineSimilarity, fetchEmbeddings } from '../api/embeddings';
+
+export type DedupField = keyof DedupFieldWeights;
+
+export const DEDUP_FIELDS: DedupField[] = ['query', 'reasoning', 'answer'];
+
+/** Group ids assigned by the server dedup job (server/utils/dedup.js) */
+export const SERVER_DEDUP_GROUP_PREFIX = 'dedup-';
+
+type DedupItem = Pick<SynthLogItem, 'id' | 'query' | 'full_seed' | 'reasoning' | 'answer'>;
+
+export interface DuplicateAnalysis {
+    /** itemId -> duplicate group id */
+    groupIds: Map<string, string>;
+    /** itemId -> highest similarity to another member of its group */
+    similarities: Map<string, number>;
+    groupCount: number;
+}
+
+export type FieldSimilarities = Record<DedupField, number | null>;
+
+/**
+ * Text used for a field when comparing items. Reasoning falls back to a
+ * `<think>` block embedded in the answer, and the answer strips that block.
+ */
+export function getDedupFieldText(item: DedupItem, field: DedupField): string {
+    if (field === 'query') return item.query || item.full_seed || '';
+    const parsed = parseThinkTagsForDisplay(item.answer || '');
+    if (field === 'reasoning') return item.reasoning || parsed.reasoning || '';
+    return parsed.hasThinkTags ? parsed.answer : (item.answer || '');
+}
+
+function getActiveFields(weights: DedupFieldWeights): DedupField[] {
+    return DEDUP_FIELDS.filter(field => (weights[field] || 0) > 0);
+}
+
+/**
+ * Weighted mean of the per-field similarities that are available on both sides.
+ * Returns null when no weighted field has content on both items.
+ */
+export function combineFieldSimilarities(similarities: FieldSimilarities, weights: DedupFieldWeights): number | null {
+    let weighted = 0;
+    let totalWeight = 0;
+    DEDUP_FIELDS.forEach(field => {
+        const weight = weights[field] || 0;
+        const similarity = similarities[field];
+        if (weight <= 0 || similarity === null) return;
+        weighted += similarity * weight;
+        totalWeight += weight;
+    });
+    return totalWeight > 0 ? weighted / totalWeight : null;
+}
+
+/**
+ * MinHash-estimated similarity of each field for a single pair of items.
+ */
+export function computeFieldSimilarities(a: DedupItem, b: DedupItem, config: DedupConfig): FieldSimilarities {
+    const result: FieldSimilarities = { query: null, reasoning: null, answer: null };
+    DEDUP_FIELDS.forEach(field => {
+        const fingerprintA = computeFingerprint(getDedupFieldText(a, field), config.shingleSize, config.numHashes);
+        const fingerprintB = computeFingerprint(getDedupFieldText(b, field), config.shingleSize, config.numHashes);
+        result[field] = compareFingerprints(fingerprintA, fingerprintB);
+    });
+    return result;
+}
+
+class UnionFind {
+    private parent: number[];
+
+    constructor(size: number) {
+        this.parent = Array.from({ length: size }, (_, i) => i);
+    }
+
+    find(x: number): number {
+        while (this.parent[x] !== x) {
+            this.parent[x] = this.parent[this.parent[x]];
+            x = this.parent[x];
+        }
+        return x;
+    }
+
+    union(a: number, b: number) {
+        const rootA = this.find(a);
+        const rootB = this.find(b);
+        if (rootA !== rootB) this.parent[rootB] = rootA;
+    }
+}
+
+function buildAnalysis(items: DedupItem[], matches: Array<[number, number, number]>): DuplicateAnalysis {
+    const unionFind = new UnionFind(items.length);
+    const best = new Map<number, number>();
+    matches.forEach(([i, j, similarity]) => {
+        unionFind.union(i, j);
+        best.set(i, Math.max(best.get(i) || 0, similarity));
+        best.set(j, Math.max(best.get(j) || 0, similarity));
+    });
+
+    const members = new Map<number, number[]>();
+    best.forEach((_, index) => {
+        const root = unionFind.find(index);
+        const list = members.get(root);
+        if (list) list.push(index);
+        else members.set(root, [index]);
+    });
+
+    const groupIds = new Map<string, string>();
+    const similarities = new Map<string, number>();
+    members.forEach(indices => {
+        const groupId = crypto.randomUUID();
+        indices.forEach(index => {
+            groupIds.set(items[index].id, groupId);
+            similarities.set(items[index].id, best.get(index) || 0);
+        });
+    });
+
+    return { groupIds, similarities, groupCount: members.size };
+}
+
+function findExactDuplicates(items: DedupItem[]): DuplicateAnalysis {
+    const byKey = new Map<string, number[]>();
+    items.forEach((item, index) => {
+        const key = getDedupFieldText(item, 'query').trim().toLowerCase();
+        if (!key) return;
+        const list = byKey.get(key);
+        if (list) list.push(index);
+        else byKey.set(key, [index]);
+    });
+
+    const matches: Array<[number, number, number]> = [];
+    byKey.forEach(indices => {
+        for (let k = 1; k < indices.length; k++) {
+            matches.push([indices[0], indices[k], 1]);
+        }
+    });
+    return buildAnalysis(items, matches);
+}
+
+function findMinHashDuplicates(items: DedupItem[], config: DedupConfig): DuplicateAnalysis {
+    const fields = getActiveFields(config.fieldWeights);
+    const fingerprints = new Map<DedupField, TextFingerprint[]>();
+    fields.forEach(field => {
+        fingerprints.set(field, items.map(item => computeFingerprint(getDedupFieldText(item, field), config.shingleSize, config.numHashes)));
+    });
+
+    // Any field collision makes a candidate; the weighted score decides the match
+    const bands = chooseBandCount(config.numHashes, config.threshold);
+    const candidates = new Set<string>();
+    fingerprints.forEach(fieldFingerprints => {
+        findCandidatePairs(fieldFingerprints.map(fingerprint => fingerprint.signature), bands).forEach(pair => candidates.add(pair));
+    });
+
+    const matches: Array<[number, number, number]> = [];
+    candidates.forEach(pair => {
+        const [i, j] = pair.split(':').map(Number);
+        const fieldSimilarities: FieldSimilarities = { query: null, reasoning: null, answer: null };
+        fingerprints.forEach((fieldFingerprints, field) => {
+            fieldSimilarities[field] = compareFingerprints(fieldFingerprints[i], fieldFingerprints[j]);
+        });
+        const similarity = combineFieldSimilarities(fieldSimilarities, config.fieldWeights);
+        if (similarity !== null && similarity >= config.threshold) {
+            matches.push([i, j, similarity]);
+        }
+    });
+    return buildAnalysis(items, matches);
+}
+
+/**
+ * Group near-duplicates synchronously. The embedding method needs network
+ * access, so it falls back to MinHash here; use `findDuplicateGroupsAsync` for it.
+ */
+export function findDuplicateGroups(items: DedupItem[], config: DedupConfig): DuplicateAnalysis {
+    if (config.method === DedupMethod.Exact) {
+        return findExactDuplicates(items);
+    }
+    return findMinHashDuplicates(items, config);
+}
+
+/**
+ * Group near-duplicates, including the embedding method.
+ * Embedding similarity compares every pair, so it is intended for loaded pages, not whole sessions.
+ */
+export async function findDuplicateGroupsAsync(items: DedupItem[], config: DedupConfig, signal?: AbortSignal): Promise<DuplicateAnalysis> {
+    if (config.method !== DedupMethod.Embedding) {
+        return findDuplicateGroups(items, config);
+    }
+    if (!config.embedding?.model) {
+        throw new Error('Embedding deduplication requires an embedding model.');
+    }
+
+    const embedding = config.embedding;
+    const fields = getActiveFields(config.fieldWeights);
+    const vectors = new Map<DedupField, Array<number[] | null>>();
+    for (const field of fields) {
+        const texts = items.map(item => getDedupFieldText(item, field));
+        const nonEmpty = texts.map((text, index) => ({ text, index })).filter(entry => entry.text.trim().length > 0);
+        const fetched = await fetchEmbeddings(nonEmpty.map(entry => entry.text), {
+            provider: embedding.externalProvider,
+            apiKey: embedding.apiKey,
+            model: embedding.model,
+            customBaseUrl: embedding.customBaseUrl,
+            signal
+        });
+        const fieldVectors: Array<number[] | null> = items.map(() => null);
+        nonEmpty.forEach((entry, k) => {
+            fieldVectors[entry.index] = fetched[k];
+        });
+        vectors.set(field, fieldVectors);
+    }
+
+    const matches: Array<[number, number, number]> = [];
+    for (let i = 0; i < items.length; i++) {
+        for (let j = i + 1; j < items.length; j++) {
+            const fieldSimilarities: FieldSimilarities = { query: null, reasoning: null, answer: null };
+            vectors.forEach((fieldVectors, field) => {
+                const a = fieldVectors[i];
+                const b = fieldVectors[j];
+                fieldSimilarities[field] = a && b ? cosineSimilarity(a, b) : null;
+            });
+            const similarity = combineFieldSimilarities(fieldSimilarities, config.fieldWeights);
+            if (similarity !== null && similarity >= config.threshold) {
+                matches.push([i, j, similarity]);
+            }
+        }
+    }
+    return buildAnalysis(items, matches);
+}
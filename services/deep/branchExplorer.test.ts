@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PromptRole } from '../../interfaces/enums';
+import type { DeepPhaseConfig } from '../../types';
+
+const executor = vi.hoisted(() => ({ executePhase: vi.fn() }));
+
+// The executor pulls in the provider clients, which read settings on import
+vi.mock('./phaseExecutor', () => ({
+    executePhase: executor.executePhase,
+    truncatePreview: (text: string) => text,
+    toPreviewString: (value: unknown) => JSON.stringify(value)
+}));
+vi.mock('../promptService', () => ({
+    PromptService: { getPromptSchema: (_category: string, role: string) => ({ role }) }
+}));
+
+const { exploreDerivationBranches, formatPrunedBranches } = await import('./branchExplorer');
+
+const phaseResult = (result: unknown) => ({ result, model: 'model', input: 'in', timestamp: 't', duration: 1 });
+
+/** Answers the proposer, each branch expansion and the judge by the prompt role the call carries */
+const respond = (replies: { proposals: unknown; expand: (approach: string) => unknown; judge: unknown }) => {
+    executor.executePhase.mockImplementation(async (phase: DeepPhaseConfig & { promptSchema?: { role: string } }, input: string) => {
+        if (phase.promptSchema?.role === PromptRole.BranchProposer) return phaseResult(replies.proposals);
+        if (phase.promptSchema?.role === PromptRole.BranchJudge) {
+            if (replies.judge instanceof Error) throw replies.judge;
+            return phaseResult(replies.judge);
+        }
+        const approach = input.split('[ASSIGNED APPROACH]\n')[1].split('\n')[0];
+        const expanded = replies.expand(approach);
+        if (expanded instanceof Error) throw expanded;
+        return phaseResult(expanded);
+    });
+};
+
+const params = (branches: number) => ({
+    derivation: { id: 'derivation', enabled: true, model: 'model' } as unknown as DeepPhaseConfig,
+    branches,
+    input: 'What is 2 + 2?',
+    deepTrace: {} as Record<string, any>,
+    maxRetries: 0,
+    retryDelay: 0
+});
+
+describe('exploreDerivationBranches', () => {
+    beforeEach(() => {
+        executor.executePhase.mockReset();
+    });
+
+    it('expands every proposed approach and ranks them by the judge scores', async () => {
+        respond({
+            proposals: { branches: ['count', 'add', 'guess'] },
+            expand: approach => ({ steps: approach }),
+            judge: { scores: [{ branch: 1, score: 6, reason: 'slow' }, { branch: 2, score: 9, reason: 'direct' }, { branch: 3, score: 1 }] }
+        });
+        const run = params(3);
+        const result = await exploreDerivationBranches(run);
+
+        expect(result.best).toMatchObject({ index: 2, approach: 'add', derivation: { steps: 'add' }, score: 9, reason: 'direct' });
+        expect(result.pruned.map(branch => branch.index)).toEqual([1, 3]);
+        expect(Object.keys(run.deepTrace).sort()).toEqual(['branch_judge', 'derivation_branch_1', 'derivation_branch_2', 'derivation_branch_3', 'derivation_proposals']);
+    });
+
+    it('asks for at least two approaches and uses no more than requested', async () => {
+        respond({ proposals: { branches: ['a', 'b', 'c'] }, expand: approach => approach, judge: { scores: [] } });
+        const result = await exploreDerivationBranches(params(1));
+
+        expect(executor.executePhase.mock.calls[0][1]).toContain('[NUMBER OF APPROACHES]\n2');
+        expect([result.best, ...result.pruned].map(branch => branch.approach)).toEqual(['a', 'b']);
+    });
+
+    it('drops branches that fail to expand and keeps the proposer order when the judge fails', async () => {
+        respond({
+            proposals: { branches: ['a', 'b', 'c'] },
+            expand: approach => (approach === 'a' ? new Error('timeout') : approach),
+            judge: new Error('judge down')
+        });
+        const result = await exploreDerivationBranches(params(3));
+
+        expect(result.best.index).toBe(2);
+        expect(result.pruned.map(branch => branch.index)).toEqual([3]);
+    });
+
+    it('throws when nothing was proposed or every branch failed', async () => {
+        respond({ proposals: { branches: [' '] }, expand: approach => approach, judge: {} });
+        await expect(exploreDerivationBranches(params(2))).rejects.toThrow('proposed no branches');
+
+        respond({ proposals: { branches: ['a', 'b'] }, expand: () => new Error('down'), judge: {} });
+        await expect(exploreDerivationBranches(params(2))).rejects.toThrow('every branch failed');
+    });
+});
+
+describe('formatPrunedBranches', () => {
+    it('lists each pruned branch with the judge reason, or nothing when none were pruned', () => {
+        expect(formatPrunedBranches([])).toBe('');
+        const text = formatPrunedBranches([{ index: 3, approach: 'guess', derivation: { answer: 5 }, score: 1, reason: '' }]);
+        expect(text).toContain('[PRUNED BRANCH 3] Approach: guess\nJudge: scored lower than the selected branch (score 1)');
+        expect(text).toContain('↺');
+    });
+});
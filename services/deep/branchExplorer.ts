@@ -0,0 +1,143 @@
+import { DeepPhaseConfig, GenerationParams, UsageData } from '../../types';
+import { PromptCategory, PromptRole } from '../../interfaces/enums';
+import { logger } from '../../utils/logger';
+import { PromptService } from '../promptService';
+import { executePhase, truncatePreview, toPreviewString } from './phaseExecutor';
+
+type DeepTrace = Record<string, { model: string; input: string; output: any; timestamp: string; duration: number; usage?: UsageData }>;
+
+export interface DerivationBranch {
+  /** 1-based branch number */
+  index: number;
+  approach: string;
+  derivation: any;
+  score: number;
+  reason: string;
+}
+
+export interface BranchExplorationResult {
+  best: DerivationBranch;
+  /** Remaining branches, best first */
+  pruned: DerivationBranch[];
+}
+
+export interface BranchExplorationParams {
+  /** Derivation phase; its model proposes, expands and judges the branches */
+  derivation: DeepPhaseConfig;
+  branches: number;
+  input: string;
+  expectedAnswer?: string;
+  /** Recorded as derivation_proposals, derivation_branch_<n> and branch_judge */
+  deepTrace: DeepTrace;
+  signal?: AbortSignal;
+  maxRetries: number;
+  retryDelay: number;
+  generationParams?: GenerationParams;
+  /** Passed to the branch expansions, as for a regular derivation call */
+  structuredOutput?: boolean;
+}
+
+const asText = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
+/** The derivation agent with another role's prompt and output schema */
+const withRole = (phase: DeepPhaseConfig, role: PromptRole): DeepPhaseConfig => ({
+  ...phase,
+  promptSchema: PromptService.getPromptSchema(PromptCategory.Generator, role),
+  selectedFields: undefined,
+  useNativeOutput: false
+});
+
+/**
+ * Tree-of-thought derivation: propose N distinct approaches, expand each with the
+ * derivation agent in parallel, then have a judge score the expansions.
+ *
+ * @throws Error when no branch could be proposed or expanded
+ */
+export const exploreDerivationBranches = async (params: BranchExplorationParams): Promise<BranchExplorationResult> => {
+  const { derivation, input, expectedAnswer, deepTrace, signal, maxRetries, retryDelay, structuredOutput } = params;
+  const count = Math.max(2, Math.floor(params.branches));
+  const generationParams = derivation.generationParams || params.generationParams;
+  const record = (key: string, res: Awaited<ReturnType<typeof executePhase>>) => {
+    deepTrace[key] = { model: res.model, input: truncatePreview(res.input), output: toPreviewString(res.result), timestamp: res.timestamp, duration: res.duration, usage: res.usage };
+  };
+
+  // 1. Propose
+  const proposalRes = await executePhase(
+    withRole(derivation, PromptRole.BranchProposer),
+    `${input}\n\n[NUMBER OF APPROACHES]\n${count}`,
+    signal, maxRetries, retryDelay, generationParams, true
+  );
+  record('derivation_proposals', proposalRes);
+  const proposed: unknown[] = Array.isArray(proposalRes.result?.branches) ? proposalRes.result.branches : [];
+  const approaches = proposed.map(asText).filter(approach => approach.trim()).slice(0, count);
+  if (approaches.length === 0) {
+    throw new Error("[DERIVATION] proposed no branches.");
+  }
+
+  // 2. Expand each branch
+  const expanded = await Promise.all(approaches.map(async (approach, i) => {
+    try {
+      const res = await executePhase(
+        derivation,
+        `${input}\n\n[ASSIGNED APPROACH]\n${approach}\n\nFollow this approach only. If it stops working, say where and why instead of switching methods.`,
+        signal, maxRetries, retryDelay, generationParams, structuredOutput
+      );
+      record(`derivation_branch_${i + 1}`, res);
+      return { index: i + 1, approach, derivation: res.result, score: 0, reason: '' } as DerivationBranch;
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      logger.warn(`⚠️ Branch ${i + 1} failed to expand:`, error?.message || error);
+      return null;
+    }
+  }));
+  const branches = expanded.filter((branch): branch is DerivationBranch => branch !== null);
+  if (branches.length === 0) {
+    throw new Error("[DERIVATION] every branch failed to expand.");
+  }
+
+  // 3. Judge
+  const judgeInput = [
+    `[ORIGINAL SEED]\n${input}`,
+    `[EXPECTED ANSWER]\n${expectedAnswer || ''}`,
+    ...branches.map(branch => `[BRANCH ${branch.index}] Approach: ${branch.approach}\n${JSON.stringify(branch.derivation, null, 2)}`)
+  ].join('\n\n');
+  try {
+    const judgeRes = await executePhase(
+      withRole(derivation, PromptRole.BranchJudge),
+      judgeInput,
+      signal, maxRetries, retryDelay, generationParams, true
+    );
+    record('branch_judge', judgeRes);
+    const scores: any[] = Array.isArray(judgeRes.result?.scores) ? judgeRes.result.scores : [];
+    scores.forEach(entry => {
+      const branch = branches.find(b => b.index === Number(entry?.branch));
+      if (!branch) return;
+      branch.score = Number(entry.score) || 0;
+      branch.reason = typeof entry.reason === 'string' ? entry.reason : '';
+    });
+  } catch (error: any) {
+    if (signal?.aborted) throw error;
+    logger.warn("⚠️ Branch judge failed, keeping the first branch:", error?.message || error);
+  }
+
+  // Ties keep the proposer's order
+  const ranked = [...branches].sort((a, b) => b.score - a.score || a.index - b.index);
+  logger.log(`🌳 Explored ${branches.length} branches, selected #${ranked[0].index} (score ${ranked[0].score})`);
+  return { best: ranked[0], pruned: ranked.slice(1) };
+};
+
+/**
+ * Writer context section for the pruned branches, asking for them to be rendered as
+ * abandoned attempts with ↺ backtracking before the selected path
+ */
+export const formatPrunedBranches = (pruned: DerivationBranch[]): string => {
+  if (pruned.length === 0) return '';
+  return `
+### PHASE 3b: EXPLORED AND PRUNED BRANCHES
+These approaches were tried and rejected. In the trace, show each as a brief attempt that hits its problem, mark the backtrack with ↺ and the reason, then continue with the selected derivation above. Keep them short; the selected path carries the solution.
+${pruned.map(branch => `
+[PRUNED BRANCH ${branch.index}] Approach: ${branch.approach}
+Judge: ${branch.reason || 'scored lower than the selected branch'} (score ${branch.score})
+${JSON.stringify(branch.derivation, null, 2)}`).join('\n')}
+`;
+};
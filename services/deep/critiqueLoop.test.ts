@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DeepPhaseConfig } from '../../types';
+
+const executor = vi.hoisted(() => ({ executePhase: vi.fn() }));
+
+// The executor pulls in the provider clients, which read settings on import
+vi.mock('./phaseExecutor', () => ({
+    executePhase: executor.executePhase,
+    truncatePreview: (text: string) => text,
+    toPreviewString: (value: unknown) => JSON.stringify(value)
+}));
+
+const { parseCritiqueVerdict, runCritiqueLoop } = await import('./critiqueLoop');
+
+describe('parseCritiqueVerdict', () => {
+    it('passes only an explicit pass', () => {
+        expect(parseCritiqueVerdict({ verdict: 'PASS', issues: [] })).toEqual({ passed: true, issues: [], revisionRequest: '' });
+        expect(parseCritiqueVerdict({ verdict: 'pass, but revise step 2' }).passed).toBe(false);
+        expect(parseCritiqueVerdict({ verdict: 'revise', issues: 'Step 3 is wrong.' })).toEqual({
+            passed: false,
+            issues: ['Step 3 is wrong.'],
+            revisionRequest: ''
+        });
+    });
+
+    it('reads issues and revision requests given as lists or objects', () => {
+        expect(parseCritiqueVerdict({ verdict: 'revise', issues: ['a', { step: 2 }], revision_request: ['Redo step 2', 'Check units'] })).toEqual({
+            passed: false,
+            issues: ['a', '{"step":2}'],
+            revisionRequest: 'Redo step 2\nCheck units'
+        });
+    });
+
+    it('treats a plain string as the verdict and an empty critique as a pass', () => {
+        expect(parseCritiqueVerdict('REVISE').passed).toBe(false);
+        expect(parseCritiqueVerdict({}).passed).toBe(true);
+        expect(parseCritiqueVerdict(null).passed).toBe(true);
+        expect(parseCritiqueVerdict({ issues: ['Missing units'] }).passed).toBe(false);
+    });
+});
+
+describe('runCritiqueLoop', () => {
+    const phaseResult = (result: unknown) => ({ result, model: 'model', input: 'in', timestamp: 't', duration: 1 });
+    const params = (maxRounds: number) => ({
+        critic: { id: 'critic', enabled: true, model: 'critic-model', maxRounds } as unknown as DeepPhaseConfig,
+        writer: { id: 'writer', enabled: true, model: 'writer-model' } as unknown as DeepPhaseConfig,
+        input: 'What is 2 + 2?',
+        writerContext: 'context',
+        draft: { reasoning: 'draft', answer: '5' },
+        deepTrace: {} as Record<string, any>,
+        maxRetries: 0,
+        retryDelay: 0
+    });
+
+    beforeEach(() => {
+        executor.executePhase.mockReset();
+    });
+
+    it('revises until the critic passes and records each round', async () => {
+        executor.executePhase
+            .mockResolvedValueOnce(phaseResult({ verdict: 'revise', issues: ['2 + 2 is 4'] }))
+            .mockResolvedValueOnce(phaseResult({ reasoning: 'fixed', answer: '4' }))
+            .mockResolvedValueOnce(phaseResult({ verdict: 'pass' }));
+        const run = params(3);
+
+        await expect(runCritiqueLoop(run)).resolves.toEqual({ reasoning: 'fixed', answer: '4' });
+        expect(Object.keys(run.deepTrace)).toEqual(['critic', 'writer_2', 'critic_2']);
+        const revisionInput = executor.executePhase.mock.calls[1][1] as string;
+        expect(revisionInput).toContain('[PREVIOUS REASONING TRACE]\ndraft');
+        expect(revisionInput).toContain('- 2 + 2 is 4');
+    });
+
+    it('stops after maxRounds with the last revision', async () => {
+        executor.executePhase
+            .mockResolvedValueOnce(phaseResult({ verdict: 'revise' }))
+            .mockResolvedValueOnce(phaseResult({ reasoning: 'second' }));
+
+        await expect(runCritiqueLoop(params(1))).resolves.toEqual({ reasoning: 'second' });
+        expect(executor.executePhase).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps the previous draft when a revision has no reasoning', async () => {
+        executor.executePhase
+            .mockResolvedValueOnce(phaseResult({ verdict: 'revise' }))
+            .mockResolvedValueOnce(phaseResult({ answer: '4' }));
+
+        await expect(runCritiqueLoop(params(3))).resolves.toEqual({ reasoning: 'draft', answer: '5' });
+        expect(executor.executePhase).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,145 @@
+import { DeepPhaseConfig, GenerationParams, StreamChunkCallback, UsageData } from '../../types';
+import { logger } from '../../utils/logger';
+import { executePhase, truncatePreview, toPreviewString } from './phaseExecutor';
+
+const DEFAULT_MAX_ROUNDS = 2;
+
+type DeepTrace = Record<string, { model: string; input: string; output: any; timestamp: string; duration: number; usage?: UsageData }>;
+
+export interface CritiqueLoopParams {
+  critic: DeepPhaseConfig;
+  writer: DeepPhaseConfig;
+  /** Original seed the trace is checked against */
+  input: string;
+  expectedAnswer?: string;
+  /** Meta phase's `traps` output */
+  traps?: unknown;
+  /** Context the writer produced its first draft from; revisions build on it */
+  writerContext: string;
+  /** Writer's first draft ({ reasoning, answer? }) */
+  draft: any;
+  /** Rounds are recorded here as critic, critic_2, ... and writer_2, writer_3, ... */
+  deepTrace: DeepTrace;
+  signal?: AbortSignal;
+  maxRetries: number;
+  retryDelay: number;
+  generationParams?: GenerationParams;
+  onPhaseComplete?: (phase: string) => void;
+  stream?: boolean;
+  onStreamChunk?: StreamChunkCallback;
+}
+
+export interface CritiqueVerdict {
+  passed: boolean;
+  issues: string[];
+  revisionRequest: string;
+}
+
+const toList = (value: unknown): string[] => {
+  if (!value) return [];
+  if (Array.isArray(value)) return value.map(item => (typeof item === 'string' ? item : JSON.stringify(item))).filter(Boolean);
+  if (typeof value === 'string') return value.trim() ? [value.trim()] : [];
+  return [JSON.stringify(value)];
+};
+
+/**
+ * Read the critic's output; anything other than an explicit pass with no issues counts as "revise"
+ */
+export const parseCritiqueVerdict = (result: any): CritiqueVerdict => {
+  const fields = typeof result === 'string' ? { verdict: result } : (result || {});
+  const issues = toList(fields.issues);
+  const revisionRequest = typeof fields.revision_request === 'string'
+    ? fields.revision_request.trim()
+    : toList(fields.revision_request).join('\n');
+  const verdict = String(fields.verdict || '').toLowerCase();
+  const passed = /\bpass/.test(verdict) && !/\brevise/.test(verdict);
+  return { passed: passed || (issues.length === 0 && !revisionRequest && !verdict), issues, revisionRequest };
+};
+
+const buildCriticInput = (input: string, expectedAnswer: string | undefined, traps: unknown, draft: any) => `
+[ORIGINAL SEED]:
+${input}
+
+[EXPECTED ANSWER]:
+${expectedAnswer || ''}
+
+[KNOWN TRAPS]:
+${toList(traps).map(trap => `- ${trap}`).join('\n') || '(none reported)'}
+
+[REASONING TRACE]:
+${draft.reasoning}
+
+[ANSWER]:
+${draft.answer || ''}
+`;
+
+const buildRevisionInput = (writerContext: string, draft: any, verdict: CritiqueVerdict, round: number) => `${writerContext}
+
+## 4. REVISION REQUEST (ROUND ${round})
+A critic reviewed your previous trace and found problems. Produce a corrected trace in the same output format.
+
+[PREVIOUS REASONING TRACE]
+${draft.reasoning}
+
+[CRITIC ISSUES]
+${verdict.issues.map(issue => `- ${issue}`).join('\n') || '(none listed)'}
+
+[REVISION REQUEST]
+${verdict.revisionRequest || 'Fix the issues above.'}
+`;
+
+/**
+ * Critique-and-revise: the critic reviews the writer's trace against the seed and the
+ * meta phase's traps; on "revise" the writer gets the critique and rewrites, up to maxRounds.
+ *
+ * @returns The last accepted writer result (the original draft when no revision succeeds)
+ */
+export const runCritiqueLoop = async (params: CritiqueLoopParams): Promise<any> => {
+  const { critic, writer, input, expectedAnswer, traps, writerContext, deepTrace, signal, maxRetries, retryDelay, generationParams, onPhaseComplete, stream, onStreamChunk } = params;
+  const maxRounds = Math.max(1, critic.maxRounds ?? DEFAULT_MAX_ROUNDS);
+  let draft = params.draft;
+
+  for (let round = 1; round <= maxRounds; round++) {
+    const criticRes = await executePhase(
+      critic,
+      buildCriticInput(input, expectedAnswer, traps, draft),
+      signal,
+      maxRetries,
+      retryDelay,
+      critic.generationParams || generationParams,
+      true
+    );
+    const criticKey = round > 1 ? `critic_${round}` : 'critic';
+    deepTrace[criticKey] = { model: criticRes.model, input: truncatePreview(criticRes.input), output: toPreviewString(criticRes.result), timestamp: criticRes.timestamp, duration: criticRes.duration, usage: criticRes.usage };
+    onPhaseComplete?.(criticKey);
+
+    const verdict = parseCritiqueVerdict(criticRes.result);
+    if (verdict.passed) {
+      logger.log(`✅ Critic accepted the trace in round ${round}`);
+      break;
+    }
+
+    logger.log(`🔁 Critic requested a revision (round ${round}/${maxRounds}):`, verdict.issues);
+    const revisionRes = await executePhase(
+      writer,
+      buildRevisionInput(writerContext, draft, verdict, round),
+      signal,
+      maxRetries,
+      retryDelay,
+      writer.generationParams || generationParams,
+      true,
+      stream && onStreamChunk ? { stream: true, onStreamChunk, streamPhase: 'writer' } : undefined
+    );
+    const writerKey = `writer_${round + 1}`;
+    deepTrace[writerKey] = { model: revisionRes.model, input: truncatePreview(revisionRes.input), output: toPreviewString(revisionRes.result), timestamp: revisionRes.timestamp, duration: revisionRes.duration, usage: revisionRes.usage };
+    onPhaseComplete?.(writerKey);
+
+    if (!revisionRes.result?.reasoning) {
+      logger.warn("⚠️ Writer revision returned no reasoning, keeping the previous draft.");
+      break;
+    }
+    draft = revisionRes.result;
+  }
+
+  return draft;
+};
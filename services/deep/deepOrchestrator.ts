@@ -1,7 +1,10 @@
-import { DeepConfig, SynthLogItem, GenerationParams, ProviderType } from '../../types';
+import { DeepConfig, DeepPhaseConfig, SynthLogItem, GenerationParams, ProviderType, UsageData } from '../../types';
 import { DeepPhase, OutputFieldName } from '../../interfaces/enums';
 import { logger } from '../../utils/logger';
 import { executePhase, getModelName, truncatePreview, toPreviewString, PHASE_TO_SCHEMA } from './phaseExecutor';
+import { runDeepGraph } from './pipelineGraph';
+import { runCritiqueLoop } from './critiqueLoop';
+import { exploreDerivationBranches, formatPrunedBranches } from './branchExplorer';
 import { JSON_OUTPUT_FALLBACK } from '../../constants';
 
 export interface DeepOrchestrationParams {
@@ -19,39 +22,114 @@ export interface DeepOrchestrationParams {
   onStreamChunk?: import('../../types').StreamChunkCallback;
 }
 
+/** Answer text from an agent result: the string itself, or its answer-like field */
+const extractAnswerText = (result: any): string => {
+  if (!result) return "";
+  if (typeof result === 'string') return result;
+  if (typeof result !== 'object') return "";
+  const normalized = Object.keys(result).reduce((acc, key) => {
+    acc[key.toLowerCase()] = result[key];
+    return acc;
+  }, {} as Record<string, any>);
+  return normalized.answer || normalized.response || normalized.content || normalized.text || normalized.res || normalized.output || "";
+};
+
 export const orchestrateDeepReasoning = async (
   params: DeepOrchestrationParams
 ): Promise<SynthLogItem> => {
   const { input, originalQuery, expectedAnswer, config, signal, maxRetries, retryDelay, onPhaseComplete, generationParams, structuredOutput, stream, onStreamChunk } = params;
 
   const cleanQuery = originalQuery || input;
-  const deepTrace: Record<string, { model: string; input: string; output: any; timestamp: string; duration: number }> = {};
+  const deepTrace: Record<string, { model: string; input: string; output: any; timestamp: string; duration: number; usage?: UsageData }> = {};
 
   logger.group("🚀 STARTING DEEP REASONING ORCHESTRATION");
   logger.log("Seed:", input);
 
   try {
+    if (config.graph?.enabled) {
+      const graph = config.graph;
+      const { outputs, trace } = await runDeepGraph({
+        graph,
+        input,
+        expectedAnswer,
+        signal,
+        maxRetries,
+        retryDelay,
+        generationParams,
+        structuredOutput,
+        onNodeComplete: onPhaseComplete,
+        stream,
+        onStreamChunk
+      });
+      Object.assign(deepTrace, trace);
+
+      const reasoningResult = outputs[graph.output.reasoning];
+      const reasoning = typeof reasoningResult === 'string' ? reasoningResult : reasoningResult?.reasoning;
+      if (!reasoning) {
+        throw new Error(`[${graph.output.reasoning.toUpperCase()}] produced no reasoning.`);
+      }
+      const graphAnswer = graph.output.answer ? extractAnswerText(outputs[graph.output.answer]).trim() : "";
+      const reasoningAgent = graph.nodes.find(node => node.id === graph.output.reasoning)!.agent;
+      logger.groupEnd();
+
+      return {
+        id: crypto.randomUUID(),
+        seed_preview: cleanQuery.substring(0, 150) + "...",
+        full_seed: cleanQuery,
+        query: cleanQuery.trim(),
+        reasoning,
+        reasoning_content: reasoning,
+        answer: graphAnswer || expectedAnswer || "",
+        timestamp: new Date().toISOString(),
+        modelUsed: `DEEP: ${reasoningAgent.model}`,
+        provider: reasoningAgent.provider === ProviderType.External ? reasoningAgent.externalProvider : reasoningAgent.provider,
+        deepTrace: deepTrace
+      };
+    }
+
     // 1. Parallel Execution of Phase 0, 1, 2
     const metaPromise = executePhase(config.phases.meta, input, signal, maxRetries, retryDelay, config.phases.meta.generationParams || generationParams, structuredOutput)
       .then(res => {
         onPhaseComplete?.('meta');
-        deepTrace.meta = { model: res.model, input: truncatePreview(res.input), output: toPreviewString(res.result), timestamp: res.timestamp, duration: res.duration };
+        deepTrace.meta = { model: res.model, input: truncatePreview(res.input), output: toPreviewString(res.result), timestamp: res.timestamp, duration: res.duration, usage: res.usage };
         return res.result;
       });
 
     const retrievalPromise = executePhase(config.phases.retrieval, input, signal, maxRetries, retryDelay, config.phases.retrieval.generationParams || generationParams, structuredOutput)
       .then(res => {
         onPhaseComplete?.('retrieval');
-        deepTrace.retrieval = { model: res.model, input: truncatePreview(res.input), output: toPreviewString(res.result), timestamp: res.timestamp, duration: res.duration };
+        deepTrace.retrieval = { model: res.model, input: truncatePreview(res.input), output: toPreviewString(res.result), timestamp: res.timestamp, duration: res.duration, usage: res.usage };
         return res.result;
       });
 
-    const derivationPromise = executePhase(config.phases.derivation, input, signal, maxRetries, retryDelay, config.phases.derivation.generationParams || generationParams, structuredOutput)
-      .then(res => {
+    // Tree-of-thought replaces the single derivation call with proposed, expanded and judged branches
+    const treeOfThought = config.phases.derivation.treeOfThought;
+    let prunedBranchesSection = '';
+    const derivationPromise = treeOfThought?.enabled
+      ? exploreDerivationBranches({
+        derivation: config.phases.derivation,
+        branches: treeOfThought.branches,
+        input,
+        expectedAnswer,
+        deepTrace,
+        signal,
+        maxRetries,
+        retryDelay,
+        generationParams,
+        structuredOutput
+      }).then(({ best, pruned }) => {
         onPhaseComplete?.('derivation');
-        deepTrace.derivation = { model: res.model, input: truncatePreview(res.input), output: toPreviewString(res.result), timestamp: res.timestamp, duration: res.duration };
-        return res.result;
-      });
+        // The branch entry already carries the usage, so the copy must not count it again
+        deepTrace.derivation = { ...deepTrace[`derivation_branch_${best.index}`], usage: undefined };
+        if (treeOfThought.includePruned) prunedBranchesSection = formatPrunedBranches(pruned);
+        return best.derivation;
+      })
+      : executePhase(config.phases.derivation, input, signal, maxRetries, retryDelay, config.phases.derivation.generationParams || generationParams, structuredOutput)
+        .then(res => {
+          onPhaseComplete?.('derivation');
+          deepTrace.derivation = { model: res.model, input: truncatePreview(res.input), output: toPreviewString(res.result), timestamp: res.timestamp, duration: res.duration, usage: res.usage };
+          return res.result;
+        });
 
     const [metaResult, retrievalResult, derivationResult] = await Promise.all([metaPromise, retrievalPromise, derivationPromise]);
 
@@ -76,7 +154,7 @@ ${JSON.stringify(retrievalResult, null, 2)}
 
 ### PHASE 3: DERIVATION (Logical Steps)
 ${JSON.stringify(derivationResult, null, 2)}
-
+${prunedBranchesSection}
 ## 3. SYNTHESIS INSTRUCTION
 Your goal is to unify these insights into a SINGLE, PERFECT "Stenographic Reasoning Trace" and final answer.
 
@@ -101,7 +179,7 @@ You must output a single valid JSON object. Do NOT wrap it in markdown code bloc
       stream && onStreamChunk ? { stream: true, onStreamChunk, streamPhase: 'writer' } : undefined
     );
 
-    deepTrace.writer = { model: writerRes.model, input: truncatePreview(writerRes.input), output: toPreviewString(writerRes.result), timestamp: writerRes.timestamp, duration: writerRes.duration };
+    deepTrace.writer = { model: writerRes.model, input: truncatePreview(writerRes.input), output: toPreviewString(writerRes.result), timestamp: writerRes.timestamp, duration: writerRes.duration, usage: writerRes.usage };
     onPhaseComplete?.('writer');
 
     let writerResult = writerRes.result;
@@ -110,7 +188,29 @@ You must output a single valid JSON object. Do NOT wrap it in markdown code bloc
       throw new Error("[WRITER] produced empty or invalid JSON output.");
     }
 
-    // 4. Optional Rewriter Phase
+    // 4. Optional Critique-and-Revise Loop
+    if (config.phases.critic?.enabled) {
+      logger.log("🧐 Critic Phase Enabled - reviewing the writer's trace...");
+      writerResult = await runCritiqueLoop({
+        critic: config.phases.critic,
+        writer: config.phases.writer,
+        input,
+        expectedAnswer,
+        traps: metaResult?.traps,
+        writerContext: aggregatedContext,
+        draft: writerResult,
+        deepTrace,
+        signal,
+        maxRetries,
+        retryDelay,
+        generationParams,
+        onPhaseComplete,
+        stream,
+        onStreamChunk
+      });
+    }
+
+    // 5. Optional Rewriter Phase
     if (config.phases.rewriter?.enabled) {
       logger.log("✨ Rewriter Phase Enabled - refining answer...");
       const rewriterInput = `
@@ -134,21 +234,10 @@ CRITICAL: " + ${JSON_OUTPUT_FALLBACK} + " Format: { "answer": "Your final refine
         stream && onStreamChunk ? { stream: true, onStreamChunk, streamPhase: 'rewriter' } : undefined
       );
 
-      deepTrace.rewriter = { model: rewriterRes.model, input: truncatePreview(rewriterRes.input), output: toPreviewString(rewriterRes.result), timestamp: rewriterRes.timestamp, duration: rewriterRes.duration };
+      deepTrace.rewriter = { model: rewriterRes.model, input: truncatePreview(rewriterRes.input), output: toPreviewString(rewriterRes.result), timestamp: rewriterRes.timestamp, duration: rewriterRes.duration, usage: rewriterRes.usage };
       onPhaseComplete?.('rewriter');
 
-      let newAnswer = "";
-      if (rewriterRes.result) {
-        if (typeof rewriterRes.result === 'string') {
-          newAnswer = rewriterRes.result;
-        } else if (typeof rewriterRes.result === 'object') {
-          const normalized = Object.keys(rewriterRes.result).reduce((acc, key) => {
-            acc[key.toLowerCase()] = rewriterRes.result[key];
-            return acc;
-          }, {} as Record<string, any>);
-          newAnswer = normalized.answer || normalized.response || normalized.content || normalized.text || normalized.res || normalized.output || "";
-        }
-      }
+      const newAnswer = extractAnswerText(rewriterRes.result);
 
       if (newAnswer && newAnswer.trim().length > 0) {
         writerResult.answer = newAnswer.trim();
@@ -177,6 +266,10 @@ CRITICAL: " + ${JSON_OUTPUT_FALLBACK} + " Format: { "answer": "Your final refine
       finalAnswer = expectedAnswer || "";
     }
     
+    // Trace entries name the model that answered, which differs from the config after a fallback
+    const usedModel = (phase: string, cfg: DeepPhaseConfig) => deepTrace[phase]?.model || getModelName(cfg);
+    const writerFellBack = usedModel('writer', config.phases.writer) !== getModelName(config.phases.writer);
+
     const finalLogItem: SynthLogItem = {
       id: crypto.randomUUID(),
       seed_preview: cleanQuery.substring(0, 150) + "...",
@@ -186,14 +279,15 @@ CRITICAL: " + ${JSON_OUTPUT_FALLBACK} + " Format: { "answer": "Your final refine
       reasoning_content: writerResult.reasoning || "Writer failed to generate reasoning.",
       answer: finalAnswer,
       timestamp: new Date().toISOString(),
-      modelUsed: `DEEP: ${config.phases.writer.model}`,
+      modelUsed: `DEEP: ${writerFellBack ? usedModel('writer', config.phases.writer) : config.phases.writer.model}`,
       provider: config.phases.writer.provider === ProviderType.Gemini ? ProviderType.Gemini : config.phases.writer.externalProvider,
       deepMetadata: {
-        meta: getModelName(config.phases.meta),
-        retrieval: getModelName(config.phases.retrieval),
-        derivation: getModelName(config.phases.derivation),
-        writer: getModelName(config.phases.writer),
-        rewriter: config.phases.rewriter?.enabled ? getModelName(config.phases.rewriter) : undefined
+        meta: usedModel('meta', config.phases.meta),
+        retrieval: usedModel('retrieval', config.phases.retrieval),
+        derivation: usedModel('derivation', config.phases.derivation),
+        writer: usedModel('writer', config.phases.writer),
+        rewriter: config.phases.rewriter?.enabled ? usedModel('rewriter', config.phases.rewriter) : undefined,
+        critic: config.phases.critic?.enabled ? getModelName(config.phases.critic) : undefined
       },
       deepTrace: deepTrace
     };
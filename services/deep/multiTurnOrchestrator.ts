@@ -1,8 +1,9 @@
-import { SynthLogItem, GenerationParams, ChatMessage, UserAgentConfig, LogItemStatus, ProviderType, ApiType, ChatRole, ExternalProvider } from '../../types';
+import { SynthLogItem, GenerationParams, ChatMessage, UserAgentConfig, LogItemStatus, ProviderType, ApiType, ChatRole, ExternalProvider, DEFAULT_USER_PERSONAS } from '../../types';
 import { DeepPhase, OutputFieldName } from '../../interfaces/enums';
 import { logger } from '../../utils/logger';
 import { PHASE_TO_SCHEMA } from './phaseExecutor';
 import { callAgent } from './agentCaller';
+import { describePersona, samplePersona } from './userPersona';
 
 export interface MultiTurnOrchestrationParams {
   initialInput: string;
@@ -72,6 +73,14 @@ export const orchestrateMultiTurnConversation = async (
     ? false
     : schemaOutputFields.includes(OutputFieldName.Reasoning);
 
+  // One persona per conversation, so every follow-up comes from the same simulated user
+  const persona = userAgentConfig.usePersonas ? samplePersona(userAgentConfig.personas ?? DEFAULT_USER_PERSONAS) : undefined;
+  const baseUserAgentSchema = userAgentConfig.promptSchema || PHASE_TO_SCHEMA[DeepPhase.UserAgent]?.();
+  const userAgentSchema = persona && baseUserAgentSchema
+    ? { ...baseUserAgentSchema, prompt: `${baseUserAgentSchema.prompt}\n${describePersona(persona)}` }
+    : baseUserAgentSchema;
+  if (persona) logger.log("🎭 User persona:", persona.name);
+
   try {
     messages.push({ role: ChatRole.User, content: displayQuery });
 
@@ -132,7 +141,7 @@ export const orchestrateMultiTurnConversation = async (
           apiKey: userAgentConfig.apiKey,
           model: userAgentConfig.model,
           customBaseUrl: userAgentConfig.customBaseUrl,
-          promptSchema: userAgentConfig.promptSchema || PHASE_TO_SCHEMA[DeepPhase.UserAgent]?.(),
+          promptSchema: userAgentSchema,
           generationParams: userAgentConfig.generationParams
         },
         userAgentInput,
@@ -200,7 +209,8 @@ export const orchestrateMultiTurnConversation = async (
         error: 'Halted by user',
         isMultiTurn: true,
         messages: messages.length > MAX_MESSAGES_TO_STORE ? messages.slice(-MAX_MESSAGES_TO_STORE) : messages,
-        messagesTruncated: messages.length > MAX_MESSAGES_TO_STORE
+        messagesTruncated: messages.length > MAX_MESSAGES_TO_STORE,
+        persona
       };
     }
 
@@ -224,7 +234,8 @@ export const orchestrateMultiTurnConversation = async (
       modelUsed: `MULTI: ${responderConfig.model}`,
       isMultiTurn: true,
       messages: messagesForLog,
-      messagesTruncated
+      messagesTruncated,
+      persona
     };
 
     return logItem;
@@ -248,7 +259,8 @@ export const orchestrateMultiTurnConversation = async (
       error: error.message || "Unknown error",
       isMultiTurn: true,
       messages: messages.length > MAX_MESSAGES_TO_STORE ? messages.slice(-MAX_MESSAGES_TO_STORE) : messages,
-      messagesTruncated: messages.length > MAX_MESSAGES_TO_STORE
+      messagesTruncated: messages.length > MAX_MESSAGES_TO_STORE,
+      persona
     };
   }
 };
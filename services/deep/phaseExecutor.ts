@@ -1,4 +1,4 @@
-import { DeepPhaseConfig, GenerationParams, StreamChunkCallback, StreamPhase, ProviderType, ApiType } from '../../types';
+import { DeepPhaseConfig, GenerationParams, StreamChunkCallback, StreamPhase, ProviderType, ApiType, UsageData } from '../../types';
 import { PromptCategory, PromptRole, DeepPhase, ResponsesSchemaName } from '../../interfaces/enums';
 import { JSON_SCHEMA_INSTRUCTION_PREFIX, JSON_OUTPUT_FALLBACK } from '../../constants';
 import * as GeminiService from '../geminiService';
@@ -15,6 +15,7 @@ export const PHASE_TO_SCHEMA: Record<DeepPhase, () => import('../../types').Prom
   [DeepPhase.Derivation]: () => PromptService.getPromptSchema(PromptCategory.Generator, PromptRole.Derivation),
   [DeepPhase.Writer]: () => PromptService.getPromptSchema(PromptCategory.Converter, PromptRole.Writer),
   [DeepPhase.Rewriter]: () => PromptService.getPromptSchema(PromptCategory.Converter, PromptRole.Rewriter),
+  [DeepPhase.Critic]: () => PromptService.getPromptSchema(PromptCategory.Converter, PromptRole.Critic),
   [DeepPhase.Responder]: () => PromptService.getPromptSchema(PromptCategory.Generator, PromptRole.Responder),
   [DeepPhase.UserAgent]: () => PromptService.getPromptSchema(PromptCategory.Generator, PromptRole.UserAgent)
 };
@@ -25,6 +26,8 @@ export interface PhaseExecutionResult {
   input: string;
   duration: number;
   timestamp: string;
+  /** Usage reported by the provider, summed over retries; absent for Gemini */
+  usage?: UsageData;
 }
 
 export const executePhase = async (
@@ -37,8 +40,8 @@ export const executePhase = async (
   structuredOutput: boolean = true,
   streamOptions?: { stream: boolean; onStreamChunk?: StreamChunkCallback; streamPhase?: StreamPhase }
 ): Promise<PhaseExecutionResult> => {
-  const { id, provider, externalProvider, apiType, apiKey, model, customBaseUrl, promptSchema: configSchema, selectedFields, useNativeOutput } = phaseConfig;
-  const modelName = provider === ProviderType.Gemini ? 'Gemini 3 Flash' : `${externalProvider}/${model}`;
+  const { id, provider, externalProvider, apiType, apiKey, model, customBaseUrl, promptSchema: configSchema, selectedFields, useNativeOutput, fallbacks } = phaseConfig;
+  let modelName = provider === ProviderType.Gemini ? 'Gemini 3 Flash' : `${externalProvider}/${model}`;
   const startTime = Date.now();
   const timestamp = new Date().toISOString();
 
@@ -67,6 +70,16 @@ export const executePhase = async (
   logger.log("System Prompt Snippet:", schema?.prompt.substring(0, 100) + "..." || '(none)');
 
   let result;
+  let usage: UsageData | undefined;
+  const addUsage = (next: UsageData) => {
+    usage = {
+      prompt_tokens: (usage?.prompt_tokens || 0) + next.prompt_tokens,
+      completion_tokens: (usage?.completion_tokens || 0) + next.completion_tokens,
+      total_tokens: (usage?.total_tokens || 0) + next.total_tokens,
+      reasoning_tokens: ((usage?.reasoning_tokens || 0) + (next.reasoning_tokens || 0)) || undefined,
+      cost: (usage?.cost || 0) + (next.cost || 0)
+    };
+  };
   try {
     if (provider === ProviderType.Gemini) {
       const useNative = useNativeOutput === true;
@@ -116,7 +129,10 @@ export const executePhase = async (
         // Streaming: only enable if streamOptions provided with callback
         stream: streamOptions?.stream,
         onStreamChunk: streamOptions?.onStreamChunk,
-        streamPhase: streamOptions?.streamPhase
+        streamPhase: streamOptions?.streamPhase,
+        onUsage: addUsage,
+        fallbacks,
+        onModelUsed: (usedProvider, usedModel) => { modelName = `${usedProvider}/${usedModel}`; }
       });
 
       if (useNativeOutput && typeof result === 'string') {
@@ -128,7 +144,7 @@ export const executePhase = async (
     logger.log(`✅ Phase ${id} completed in ${duration}ms`);
     logger.groupEnd();
 
-    return { result, model: modelName, input: userContent, duration, timestamp };
+    return { result, model: modelName, input: userContent, duration, timestamp, usage };
   } catch (err: any) {
     logger.error(`❌ Phase ${id} failed:`, err);
     logger.groupEnd();
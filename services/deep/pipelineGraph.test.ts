@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DeepPhase } from '../../interfaces/enums';
+import type { DeepPhaseConfig, DeepPipelineGraph, DeepPipelineNode } from '../../types';
+
+// The executor pulls in the provider clients, which read settings on import
+vi.mock('./phaseExecutor', () => ({
+    executePhase: vi.fn(),
+    truncatePreview: (text: string) => text,
+    toPreviewString: (value: unknown) => String(value),
+    PHASE_TO_SCHEMA: {}
+}));
+
+const { GRAPH_SEED_INPUT, getExecutionOrder, getLoopRegion, validateDeepGraph } = await import('./pipelineGraph');
+
+const node = (id: string, inputs: string[], enabled = true): DeepPipelineNode => ({
+    id,
+    inputs,
+    agent: { id: DeepPhase.Derivation, enabled, model: 'model' } as DeepPhaseConfig
+});
+
+const graph = (nodes: DeepPipelineNode[], extra: Partial<DeepPipelineGraph> = {}): DeepPipelineGraph => ({
+    enabled: true,
+    nodes,
+    loops: [],
+    output: { reasoning: nodes[nodes.length - 1].id },
+    ...extra
+});
+
+describe('getExecutionOrder', () => {
+    it('orders nodes after their inputs and ignores loop back edges', () => {
+        const g = graph(
+            [node('writer', ['draft', 'critic']), node('critic', ['draft']), node('draft', [GRAPH_SEED_INPUT, 'writer'])],
+            { loops: [{ start: 'draft', end: 'writer', maxIterations: 2 }] }
+        );
+        expect(getExecutionOrder(g)).toEqual(['draft', 'critic', 'writer']);
+        expect(getLoopRegion(g, g.loops![0])).toEqual(new Set(['draft', 'critic', 'writer']));
+    });
+
+    it('names a node on a cycle that no loop covers', () => {
+        expect(() => getExecutionOrder(graph([node('a', ['b']), node('b', ['a'])]))).toThrow('Cycle through "a"');
+    });
+});
+
+describe('validateDeepGraph', () => {
+    it('accepts a connected graph', () => {
+        expect(validateDeepGraph(graph([node('a', [GRAPH_SEED_INPUT]), node('b', ['a'])]))).toEqual([]);
+    });
+
+    it('reports unknown inputs, reserved names and a missing reasoning node', () => {
+        const errors = validateDeepGraph(graph([node('$a', [GRAPH_SEED_INPUT]), node('b', ['c'])], { output: { reasoning: 'x' } }));
+        expect(errors).toEqual([
+            '"$a": names starting with $ are reserved.',
+            '"b": unknown input "c".',
+            'Pick the node that produces the reasoning.'
+        ]);
+    });
+
+    it('flags disabled nodes that other nodes or the output read from', () => {
+        const errors = validateDeepGraph(graph(
+            [node('a', [GRAPH_SEED_INPUT], false), node('b', ['a']), node('c', [GRAPH_SEED_INPUT], false)],
+            { output: { reasoning: 'b', answer: 'c' } }
+        ));
+        expect(errors).toEqual(['"b": input "a" is disabled.', 'Answer node "c" is disabled.']);
+        expect(validateDeepGraph(graph([node('a', [GRAPH_SEED_INPUT]), node('b', [GRAPH_SEED_INPUT], false)], { output: { reasoning: 'a' } }))).toEqual([]);
+    });
+
+    it('requires a loop end to depend on its start', () => {
+        const errors = validateDeepGraph(graph(
+            [node('a', [GRAPH_SEED_INPUT]), node('b', [GRAPH_SEED_INPUT])],
+            { loops: [{ start: 'a', end: 'b', maxIterations: 2 }] }
+        ));
+        expect(errors).toEqual(['Loop 1: "b" must depend on "a".']);
+    });
+});
@@ -0,0 +1,288 @@
+import { DeepConfig, DeepPhaseConfig, DeepPipelineGraph, DeepPipelineLoop, DeepPipelineNode, GenerationParams, StreamChunkCallback, UsageData } from '../../types';
+import { JSON_OUTPUT_FALLBACK } from '../../constants';
+import { logger } from '../../utils/logger';
+import { executePhase, truncatePreview, toPreviewString, PHASE_TO_SCHEMA } from './phaseExecutor';
+
+/** Input references that resolve to the row itself rather than to a node. */
+export const GRAPH_SEED_INPUT = '$seed';
+export const GRAPH_EXPECTED_ANSWER_INPUT = '$expectedAnswer';
+export const GRAPH_SOURCE_INPUTS = [GRAPH_SEED_INPUT, GRAPH_EXPECTED_ANSWER_INPUT];
+
+export interface DeepGraphTraceEntry {
+  model: string;
+  input: string;
+  output: any;
+  timestamp: string;
+  duration: number;
+  usage?: UsageData;
+}
+
+export interface DeepGraphRunParams {
+  graph: DeepPipelineGraph;
+  input: string;
+  expectedAnswer?: string;
+  signal?: AbortSignal;
+  maxRetries: number;
+  retryDelay: number;
+  generationParams?: GenerationParams;
+  structuredOutput?: boolean;
+  onNodeComplete?: (nodeId: string) => void;
+  stream?: boolean;
+  onStreamChunk?: StreamChunkCallback;
+}
+
+const isBackEdge = (graph: DeepPipelineGraph, from: string, to: string) =>
+  (graph.loops || []).some(loop => loop.end === from && loop.start === to);
+
+const getForwardDeps = (graph: DeepPipelineGraph, node: DeepPipelineNode) => {
+  const ids = new Set(graph.nodes.map(n => n.id));
+  return node.inputs.filter(input => ids.has(input) && !isBackEdge(graph, input, node.id));
+};
+
+/**
+ * Node ids in dependency order, ignoring loop back edges
+ *
+ * @throws Error naming a node on a cycle
+ */
+export function getExecutionOrder(graph: DeepPipelineGraph): string[] {
+  const remaining = new Map(graph.nodes.map(node => [node.id, getForwardDeps(graph, node)]));
+  const order: string[] = [];
+  while (remaining.size > 0) {
+    const ready = Array.from(remaining.keys()).filter(id => remaining.get(id)!.every(dep => order.includes(dep)));
+    if (ready.length === 0) {
+      throw new Error(`Cycle through "${Array.from(remaining.keys())[0]}"; use a loop to repeat nodes.`);
+    }
+    ready.forEach(id => {
+      order.push(id);
+      remaining.delete(id);
+    });
+  }
+  return order;
+}
+
+/** Nodes re-run by a loop: on a forward path from its start to its end */
+export function getLoopRegion(graph: DeepPipelineGraph, loop: DeepPipelineLoop): Set<string> {
+  const downstream = new Set<string>([loop.start]);
+  const order = getExecutionOrder(graph);
+  order.forEach(id => {
+    const node = graph.nodes.find(n => n.id === id)!;
+    if (getForwardDeps(graph, node).some(dep => downstream.has(dep))) downstream.add(id);
+  });
+  const upstream = new Set<string>([loop.end]);
+  [...order].reverse().forEach(id => {
+    if (!upstream.has(id)) return;
+    getForwardDeps(graph, graph.nodes.find(n => n.id === id)!).forEach(dep => upstream.add(dep));
+  });
+  return new Set(Array.from(downstream).filter(id => upstream.has(id)));
+}
+
+/**
+ * Check a graph before running it
+ *
+ * @returns One message per problem; empty when the graph is runnable
+ */
+export function validateDeepGraph(graph: DeepPipelineGraph): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  // A disabled node never produces output, so nothing may read from it
+  const disabled = new Set(graph.nodes.filter(node => !node.agent.enabled).map(node => node.id));
+  if (graph.nodes.length === 0) errors.push('Add at least one node.');
+
+  graph.nodes.forEach(node => {
+    if (!node.id.trim()) errors.push('Every node needs a name.');
+    else if (node.id.startsWith('$')) errors.push(`"${node.id}": names starting with $ are reserved.`);
+    else if (ids.has(node.id)) errors.push(`"${node.id}": duplicate node name.`);
+    ids.add(node.id);
+  });
+  graph.nodes.forEach(node => {
+    if (node.inputs.length === 0) errors.push(`"${node.id}": select at least one input.`);
+    node.inputs.forEach(input => {
+      if (input === node.id) errors.push(`"${node.id}": a node cannot read its own output.`);
+      else if (!ids.has(input) && !GRAPH_SOURCE_INPUTS.includes(input)) errors.push(`"${node.id}": unknown input "${input}".`);
+      else if (disabled.has(input)) errors.push(`"${node.id}": input "${input}" is disabled.`);
+    });
+  });
+
+  if (!ids.has(graph.output.reasoning)) errors.push('Pick the node that produces the reasoning.');
+  else if (disabled.has(graph.output.reasoning)) errors.push(`Reasoning node "${graph.output.reasoning}" is disabled.`);
+  if (graph.output.answer && !ids.has(graph.output.answer)) errors.push(`Answer node "${graph.output.answer}" does not exist.`);
+  else if (graph.output.answer && disabled.has(graph.output.answer)) errors.push(`Answer node "${graph.output.answer}" is disabled.`);
+
+  (graph.loops || []).forEach((loop, index) => {
+    const label = `Loop ${index + 1}`;
+    if (!ids.has(loop.start) || !ids.has(loop.end)) {
+      errors.push(`${label}: start and end must be existing nodes.`);
+      return;
+    }
+    if (!(loop.maxIterations >= 1)) errors.push(`${label}: max iterations must be at least 1.`);
+    if (loop.stopWhen) {
+      if (!ids.has(loop.stopWhen.node)) errors.push(`${label}: stop node "${loop.stopWhen.node}" does not exist.`);
+      try {
+        new RegExp(loop.stopWhen.pattern, 'i');
+      } catch {
+        errors.push(`${label}: invalid stop pattern.`);
+      }
+    }
+  });
+
+  if (errors.length > 0) return errors;
+  try {
+    getExecutionOrder(graph);
+  } catch (e: any) {
+    return [e.message];
+  }
+  (graph.loops || []).forEach((loop, index) => {
+    if (!getLoopRegion(graph, loop).has(loop.start)) {
+      errors.push(`Loop ${index + 1}: "${loop.end}" must depend on "${loop.start}".`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Input text for one node: the raw seed for seed-only nodes, otherwise a report of the
+ * requested sources and upstream outputs followed by the node's instruction
+ */
+export function composeNodeInput(
+  node: DeepPipelineNode,
+  outputs: Record<string, any>,
+  input: string,
+  expectedAnswer?: string
+): string {
+  if (node.inputs.length === 1 && node.inputs[0] === GRAPH_SEED_INPUT && !node.instruction?.trim()) {
+    return input;
+  }
+
+  const sources: string[] = [];
+  if (node.inputs.includes(GRAPH_SEED_INPUT)) sources.push(`[ORIGINAL SEED]\n${input}`);
+  if (node.inputs.includes(GRAPH_EXPECTED_ANSWER_INPUT)) sources.push(`[EXPECTED ANSWER]\n${expectedAnswer || ''}`);
+
+  const reports = node.inputs
+    .filter(id => !GRAPH_SOURCE_INPUTS.includes(id))
+    .map(id => `### ${id.toUpperCase()}\n${id in outputs ? JSON.stringify(outputs[id], null, 2) : '(not available yet)'}`);
+
+  return `
+# SYSTEM ORCHESTRATION REPORT
+You are the [${node.id.toUpperCase()}] agent in a multi-agent pipeline.
+${sources.length > 0 ? `\n## SOURCE DATA\n${sources.join('\n\n')}\n` : ''}${reports.length > 0 ? `\n## AGENT REPORTS\n${reports.join('\n\n')}\n` : ''}${node.instruction?.trim() ? `\n## INSTRUCTION\n${node.instruction.trim()}\n` : ''}`;
+}
+
+// The editor's system prompt replaces the schema prompt; output fields stay the schema's
+const withSystemPrompt = (agent: DeepPhaseConfig): DeepPhaseConfig => {
+  const schema = agent.promptSchema || PHASE_TO_SCHEMA[agent.id]?.();
+  if (!agent.systemPrompt || !schema) return agent;
+  return { ...agent, promptSchema: { ...schema, prompt: agent.systemPrompt } };
+};
+
+const matchesStop = (loop: DeepPipelineLoop, outputs: Record<string, any>) => {
+  if (!loop.stopWhen) return false;
+  const output = outputs[loop.stopWhen.node];
+  const value = output && typeof output === 'object' ? output[loop.stopWhen.field] : output;
+  return value !== undefined && value !== null && new RegExp(loop.stopWhen.pattern, 'i').test(String(value));
+};
+
+/**
+ * Run every node once its upstream outputs exist, in parallel where possible, repeating loops
+ *
+ * @returns Last output per node and a trace entry per node run (repeat runs suffixed `_2`, `_3`, ...)
+ */
+export async function runDeepGraph(params: DeepGraphRunParams): Promise<{ outputs: Record<string, any>; trace: Record<string, DeepGraphTraceEntry> }> {
+  const { graph, input, expectedAnswer, signal, maxRetries, retryDelay, generationParams, structuredOutput, onNodeComplete, stream, onStreamChunk } = params;
+
+  const errors = validateDeepGraph(graph);
+  if (errors.length > 0) {
+    throw new Error(`[PIPELINE] ${errors[0]}`);
+  }
+
+  const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+  const loops = graph.loops || [];
+  const regions = loops.map(loop => getLoopRegion(graph, loop));
+  const iterations = loops.map(() => 1);
+  const runCounts: Record<string, number> = {};
+  const outputs: Record<string, any> = {};
+  const trace: Record<string, DeepGraphTraceEntry> = {};
+  const pending = new Set(graph.nodes.map(node => node.id));
+  const completed = new Set<string>();
+
+  const runNode = async (node: DeepPipelineNode) => {
+    runCounts[node.id] = (runCounts[node.id] || 0) + 1;
+    if (!node.agent.enabled) {
+      logger.log(`⏭️ Pipeline node ${node.id} disabled, skipping`);
+      return;
+    }
+    const isStreamed = stream && onStreamChunk && node.id === graph.output.reasoning;
+    const res = await executePhase(
+      withSystemPrompt(node.agent),
+      composeNodeInput(node, outputs, input, expectedAnswer),
+      signal,
+      maxRetries,
+      retryDelay,
+      node.agent.generationParams || generationParams,
+      node.agent.structuredOutput ?? structuredOutput,
+      isStreamed ? { stream: true, onStreamChunk, streamPhase: 'writer' } : undefined
+    );
+    outputs[node.id] = res.result;
+    const traceKey = runCounts[node.id] > 1 ? `${node.id}_${runCounts[node.id]}` : node.id;
+    trace[traceKey] = { model: res.model, input: truncatePreview(res.input), output: toPreviewString(res.result), timestamp: res.timestamp, duration: res.duration, usage: res.usage };
+    onNodeComplete?.(node.id);
+  };
+
+  while (pending.size > 0) {
+    const ready = Array.from(pending).filter(id => getForwardDeps(graph, nodes.get(id)!).every(dep => completed.has(dep)));
+    await Promise.all(ready.map(id => runNode(nodes.get(id)!)));
+    ready.forEach(id => {
+      pending.delete(id);
+      completed.add(id);
+    });
+
+    loops.forEach((loop, index) => {
+      if (!ready.includes(loop.end)) return;
+      if (iterations[index] >= loop.maxIterations || matchesStop(loop, outputs)) return;
+      iterations[index]++;
+      logger.log(`🔁 Loop ${loop.start}→${loop.end}: iteration ${iterations[index]}/${loop.maxIterations}`);
+      regions[index].forEach(id => {
+        completed.delete(id);
+        pending.add(id);
+      });
+    });
+  }
+
+  return { outputs, trace };
+}
+
+/**
+ * The fixed DEEP pipeline expressed as a graph, as a starting point for editing
+ */
+export function buildDefaultDeepGraph(config: DeepConfig): DeepPipelineGraph {
+  const nodes: DeepPipelineNode[] = [
+    { id: 'meta', agent: { ...config.phases.meta }, inputs: [GRAPH_SEED_INPUT] },
+    { id: 'retrieval', agent: { ...config.phases.retrieval }, inputs: [GRAPH_SEED_INPUT] },
+    { id: 'derivation', agent: { ...config.phases.derivation }, inputs: [GRAPH_SEED_INPUT] },
+    {
+      id: 'writer',
+      agent: { ...config.phases.writer },
+      inputs: [GRAPH_SEED_INPUT, GRAPH_EXPECTED_ANSWER_INPUT, 'meta', 'retrieval', 'derivation'],
+      instruction: `Your goal is to unify these insights into a SINGLE, PERFECT "Stenographic Reasoning Trace" and final answer.
+
+**MANDATORY OUTPUT FORMAT (JSON ONLY)**
+You must output a single valid JSON object. Do NOT wrap it in markdown code blocks.
+{
+  "reasoning": "A single continuous string using stenographic symbols (→, ↺, ∴, ●, ⚠) combining the retrieval constraints and derivation logic."
+}`
+    }
+  ];
+  if (config.phases.rewriter?.enabled) {
+    nodes.push({
+      id: 'rewriter',
+      agent: { ...config.phases.rewriter },
+      inputs: ['writer'],
+      instruction: `Based on the reasoning trace above, write the final high-quality response.\n${JSON_OUTPUT_FALLBACK} Format: { "answer": "Your final refined answer string here" }`
+    });
+  }
+  return {
+    enabled: true,
+    nodes,
+    loops: [],
+    output: { reasoning: 'writer', answer: config.phases.rewriter?.enabled ? 'rewriter' : 'writer' }
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { PersonaExpertise } from '../../interfaces/enums';
+import { DEFAULT_USER_PERSONAS, type UserPersona } from '../../interfaces/config/UserPersona';
+import { describePersona, samplePersona } from './userPersona';
+
+const persona = (id: string, weight: number, fields: Partial<UserPersona> = {}): UserPersona => ({
+    id,
+    name: id,
+    expertise: PersonaExpertise.Novice,
+    tone: 'Plain',
+    goals: 'Learn',
+    language: 'English',
+    weight,
+    ...fields
+});
+
+describe('samplePersona', () => {
+    const personas = [persona('a', 1), persona('off', 0), persona('b', 3)];
+
+    it('picks by weight and never picks a zero-weight persona', () => {
+        expect(samplePersona(personas, () => 0)?.id).toBe('a');
+        expect(samplePersona(personas, () => 0.24)?.id).toBe('a');
+        expect(samplePersona(personas, () => 0.25)?.id).toBe('b');
+        expect(samplePersona(personas, () => 0.999)?.id).toBe('b');
+    });
+
+    it('is undefined when no persona has a positive weight', () => {
+        expect(samplePersona([persona('off', 0)])).toBeUndefined();
+        expect(samplePersona([])).toBeUndefined();
+    });
+
+    it('samples from the default library', () => {
+        const ids = new Set(DEFAULT_USER_PERSONAS.map(p => p.id));
+        expect(ids.has(samplePersona(DEFAULT_USER_PERSONAS)!.id)).toBe(true);
+    });
+});
+
+describe('describePersona', () => {
+    it('describes a cooperative persona without a behaviour line', () => {
+        const text = describePersona(persona('student', 1, { name: 'Student', language: 'Spanish' }));
+        expect(text).toContain('- Who: Student');
+        expect(text).toContain('- Expertise: novice. You are new to the topic');
+        expect(text).toContain('write the follow-up in Spanish.');
+        expect(text).not.toContain('Behaviour');
+    });
+
+    it('adds the adversarial behaviour without announcing the test', () => {
+        const text = describePersona(persona('contrarian', 1, { adversarial: ' Insists on a wrong answer ' }));
+        expect(text).toContain('- Behaviour: Insists on a wrong answer. Keep it realistic; do not announce that you are testing the assistant.');
+    });
+});
@@ -0,0 +1,37 @@
+import { UserPersona } from '../../types';
+import { PersonaExpertise } from '../../interfaces/enums';
+
+const EXPERTISE_HINTS: Record<PersonaExpertise, string> = {
+  [PersonaExpertise.Novice]: 'You are new to the topic: you may misuse terms and need jargon explained.',
+  [PersonaExpertise.Intermediate]: 'You know the basics and use common terms correctly, but not the finer details.',
+  [PersonaExpertise.Expert]: 'You know the field well and expect precise, rigorous answers.'
+};
+
+/**
+ * Pick a persona by weight; personas with weight 0 are never picked
+ *
+ * @returns undefined when no persona has a positive weight
+ */
+export const samplePersona = (personas: UserPersona[], random: () => number = Math.random): UserPersona | undefined => {
+  const candidates = personas.filter(persona => persona.weight > 0);
+  const total = candidates.reduce((sum, persona) => sum + persona.weight, 0);
+  if (total <= 0) return undefined;
+  let roll = random() * total;
+  for (const persona of candidates) {
+    roll -= persona.weight;
+    if (roll < 0) return persona;
+  }
+  return candidates[candidates.length - 1];
+};
+
+/** Persona section appended to the user agent's prompt */
+export const describePersona = (persona: UserPersona): string => `
+[PERSONA]
+Stay in character as this user for every follow-up.
+- Who: ${persona.name}
+- Expertise: ${persona.expertise}. ${EXPERTISE_HINTS[persona.expertise] || ''}
+- Tone: ${persona.tone}
+- Goals: ${persona.goals}
+- Language: write the follow-up in ${persona.language}.${persona.adversarial?.trim() ? `
+- Behaviour: ${persona.adversarial.trim()}. Keep it realistic; do not announce that you are testing the assistant.` : ''}
+`;
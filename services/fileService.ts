@@ -20,6 +20,7 @@ import {
 } from '../interfaces/services/FileServiceConfig';
 import { CreatorMode } from '../interfaces/enums';
 import { DetectedColumns } from '../types';
+import { applyExportTemplate } from '../utils/exportTemplate';
 
 /**
  * Maximum buffer size for streaming exports (256KB).
@@ -203,6 +204,8 @@ export const FileService = {
 
         const fileName = `synth_dataset_${new Date().toISOString().slice(0, 10)}.jsonl`;
         const anyWindow = window as any;
+        const { template } = config;
+        const toRow = (log: any) => template ? applyExportTemplate(log, template) : log;
 
         // Try streaming export first
         try {
@@ -223,7 +226,7 @@ export const FileService = {
                 let count = 0;
 
                 await config.logStorageService.iterateLogs(config.sessionUid, async (log: any) => {
-                    buffer += JSON.stringify(log) + '\n';
+                    buffer += JSON.stringify(toRow(log)) + '\n';
                     count++;
                     if (buffer.length >= MAX_BUFFER_CHARS) {
                         await writable.write(encoder.encode(buffer));
@@ -255,7 +258,7 @@ export const FileService = {
             return { success: false, method: ExportMethod.Fallback, count: 0, error: 'No logs found' };
         }
 
-        const jsonl = allLogs.map((log: any) => JSON.stringify(log)).join('\n');
+        const jsonl = allLogs.map((log: any) => JSON.stringify(toRow(log))).join('\n');
         this.downloadFile(jsonl, fileName, 'application/x-jsonlines');
         config.toast.info('Exported with fallback method');
         return { success: true, method: ExportMethod.Fallback, count: allLogs.length };
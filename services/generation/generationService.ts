@@ -1,4 +1,4 @@
-import { SynthLogItem, StreamChunkCallback, ChatMessage, StreamingConversationState, GenerationParams, ReplayConfig } from '../../types';
+import { SynthLogItem, StreamChunkCallback, ChatMessage, StreamingConversationState, GenerationParams, ReplayConfig, UsageData } from '../../types';
 import { LogStorageService } from '../logStorageService';
 import { SettingsService } from '../settingsService';
 import * as FirebaseService from '../firebaseService';
@@ -12,13 +12,22 @@ import { createPrefetchManager, PrefetchState } from '../hfPrefetchService';
 import { TaskClassifierService } from '../taskClassifierService';
 import { TaskType } from '../../interfaces/enums';
 import { PromptService } from '../promptService';
-import { DEFAULT_HF_PREFETCH_CONFIG } from '../../types';
+import { DEFAULT_GROUND_TRUTH_CONFIG, DEFAULT_HF_PREFETCH_CONFIG, DEFAULT_SEED_EVOLUTION_CONFIG, DEFAULT_TAXONOMY_CONFIG, DEFAULT_TOOL_USE_CONFIG, SeedEvolutionConfig, TaxonomyConfig } from '../../types';
 import { extractInputContent } from '../../utils/contentExtractor';
 import { parseThinkTagsForDisplay, parseNativeOutput, sanitizeReasoningContent } from '../../utils/thinkTagParser';
-import { DataSource, EngineMode, CreatorMode, Environment, ProviderType, ExternalProvider, ApiType, ChatRole, ResponderPhase, LogItemStatus, PromptCategory, PromptRole, StreamingPhase, OutputFieldName, SynthLogFieldName, ResponsesSchemaName } from '../../interfaces/enums';
+import { getSampleTemperatures, normalizeAnswer, voteOnAnswers } from '../../utils/answerVoting';
+import { DataSource, EngineMode, CreatorMode, Environment, ProviderType, ExternalProvider, ApiType, ChatRole, ResponderPhase, LogItemStatus, PromptCategory, PromptRole, StreamingPhase, OutputFieldName, SynthLogFieldName, ResponsesSchemaName, SelfConsistencyKeep, GroundTruthStatus } from '../../interfaces/enums';
 import { ExtractContentFormat } from '../../interfaces/services/DataTransformConfig';
 import type { CompleteGenerationConfig as GenerationConfig, RuntimePromptConfig, WorkItem } from '../../interfaces';
 import { mergeWithExistingFields } from '../fieldSelectionService';
+import { verifyAgainstReference } from '../groundTruthService';
+import { generateToolTrace, type ToolTraceModel } from '../toolTraceService';
+import { buildTaxonomyCoverage, describeTaxonomyLeaf, getTaxonomyLeafKey, planTaxonomySeeds } from '../taxonomyService';
+import { evolveSeed, type SeedEvolverModel } from '../seedEvolutionService';
+import { estimateUsageCost, getBudgetConfig, getPhaseCosts, sumItemCosts } from '../costService';
+import { formatCost } from '../../utils/costCalculator';
+import { BATCH_JOB_TYPE, isBatchSubmissionEnabled, submitBatchJob } from '../batchService';
+import type { BackendBatchItem } from '../backendClient';
 
 export interface GenerationConfigBuilderInput extends Omit<GenerationConfig, 'generationParams'> {
     generationParams: GenerationParams;
@@ -35,9 +44,14 @@ export const buildGenerationConfig = (input: GenerationConfigBuilderInput): Gene
     };
 };
 
+const MAX_SEEDS_PER_BATCH = 10;
+
 export class GenerationService {
     private config: GenerationConfig;
     private isAppendRun: boolean = false;
+    /** Estimated spend of the session so far, checked against the session budget */
+    private sessionSpend = 0;
+    private budgetWarned = false;
 
     constructor(config: GenerationConfig) {
         this.config = config;
@@ -78,12 +92,27 @@ export class GenerationService {
             return;
         }
 
+        const useBatch = this.shouldSubmitBatch();
+        if (useBatch) {
+            const blockers = this.getBatchBlockers();
+            if (blockers.length > 0) {
+                config.setError(`Batch API submission does not support ${blockers.join(', ')}. Turn them off or disable Batch API.`);
+                return;
+            }
+        }
+
         config.setError(null);
         config.setIsRunning(true);
         config.abortControllerRef.current = new AbortController();
         toast.info('Generation started');
 
         try {
+            // Reset before seed generation, whose calls count towards the session spend too
+            this.sessionSpend = this.isAppendRun && getBudgetConfig().sessionBudgetUsd > 0
+                ? sumItemCosts(await LogStorageService.getAllLogs(config.sessionUidRef.current))
+                : 0;
+            this.budgetWarned = false;
+
             const workItems = await this.prepareWorkItems();
 
             if (workItems.length === 0 && config.dataSourceMode !== DataSource.HuggingFace) {
@@ -100,8 +129,12 @@ export class GenerationService {
             // Build runtime config with auto-routing
             const runtimeConfig = await this.buildRuntimeConfig(workItems);
 
-            // Run generation
-            await this.runGeneration(workItems, runtimeConfig);
+            // Run generation, or hand everything to the provider Batch API
+            if (useBatch) {
+                await this.submitBatch(workItems, runtimeConfig);
+            } else {
+                await this.runGeneration(workItems, runtimeConfig);
+            }
 
         } catch (err: any) {
             if (err.name !== 'AbortError') {
@@ -282,7 +315,11 @@ export class GenerationService {
 
     private async generateSyntheticSeeds(): Promise<WorkItem[]> {
         const { config } = this;
-        const MAX_SEEDS_PER_BATCH = 10;
+        const taxonomy = { ...DEFAULT_TAXONOMY_CONFIG, ...SettingsService.getSettings().taxonomy };
+        if (taxonomy.enabled) {
+            return this.generateTaxonomySeeds(taxonomy);
+        }
+
         const totalNeeded = config.rowsToFetch;
         let collectedSeeds: string[] = [];
         const batchCount = Math.ceil(totalNeeded / MAX_SEEDS_PER_BATCH);
@@ -293,21 +330,7 @@ export class GenerationService {
             if (config.abortControllerRef.current?.signal.aborted) break;
 
             const countForBatch = Math.min(MAX_SEEDS_PER_BATCH, totalNeeded - collectedSeeds.length);
-            let batchSeeds: string[] = [];
-
-            if (config.provider === ProviderType.Gemini) {
-                batchSeeds = await GeminiService.generateSyntheticSeeds(config.geminiTopic, countForBatch, config.externalModel);
-            } else {
-                const useStructuredOutput = config.externalProvider !== ExternalProvider.Ollama;
-                batchSeeds = await ExternalApiService.generateSyntheticSeeds({
-                    provider: config.externalProvider,
-                    apiKey: config.externalApiKey || SettingsService.getApiKey(config.externalProvider),
-                    model: config.externalModel,
-                    customBaseUrl: config.customBaseUrl || SettingsService.getCustomBaseUrl(),
-                    signal: config.abortControllerRef.current?.signal || undefined,
-                    structuredOutput: useStructuredOutput,
-                }, config.geminiTopic, countForBatch);
-            }
+            const batchSeeds = await this.requestSeeds(config.geminiTopic, countForBatch);
 
             collectedSeeds = [...collectedSeeds, ...batchSeeds];
             config.setProgress((p: { current: number; total: number; activeWorkers: number }) => ({ ...p, current: collectedSeeds.length, total: totalNeeded }));
@@ -316,6 +339,73 @@ export class GenerationService {
         return collectedSeeds.map(s => ({ content: s, row: null }));
     }
 
+    /**
+     * Seeds for the taxonomy leaves still under quota. Append runs count the session's
+     * existing items, so repeated runs top up the gaps instead of overfilling.
+     */
+    private async generateTaxonomySeeds(taxonomy: TaxonomyConfig): Promise<WorkItem[]> {
+        const { config } = this;
+        const existing = this.isAppendRun ? await LogStorageService.getAllLogs(config.sessionUidRef.current) : [];
+        const plan = planTaxonomySeeds(taxonomy, existing);
+        if (plan.length === 0) {
+            throw new Error(`All quotas of taxonomy "${taxonomy.name}" are already filled.`);
+        }
+
+        const coverage = buildTaxonomyCoverage(taxonomy, existing);
+        logger.log(`[Generation] Taxonomy "${taxonomy.name}": ${coverage.totalFilled}/${coverage.totalQuota} filled, generating ${plan.length} seeds across ${coverage.rows.length - coverage.completeLeaves} leaves`);
+        config.setProgress({ current: 0, total: plan.length, activeWorkers: 1 });
+
+        const needed = new Map<string, { topic: string; count: number }>();
+        plan.forEach(leaf => {
+            const key = getTaxonomyLeafKey(leaf.path);
+            const entry = needed.get(key) || { topic: describeTaxonomyLeaf(leaf, taxonomy.levels), count: 0 };
+            entry.count++;
+            needed.set(key, entry);
+        });
+
+        const seedsByLeaf = new Map<string, string[]>();
+        let collected = 0;
+        for (const [key, { topic, count }] of needed) {
+            const seeds: string[] = [];
+            while (seeds.length < count) {
+                if (config.abortControllerRef.current?.signal.aborted) break;
+                const batch = await this.requestSeeds(topic, Math.min(MAX_SEEDS_PER_BATCH, count - seeds.length));
+                // A batch that comes back empty would otherwise loop forever
+                if (batch.length === 0) break;
+                seeds.push(...batch.slice(0, count - seeds.length));
+            }
+            if (seeds.length < count) {
+                logger.warn(`[Generation] Taxonomy leaf "${key}" got ${seeds.length}/${count} seeds`);
+            }
+            seedsByLeaf.set(key, seeds);
+            collected += seeds.length;
+            config.setProgress((p: { current: number; total: number; activeWorkers: number }) => ({ ...p, current: collected, total: plan.length }));
+        }
+
+        // Keep the plan's round-robin order so workers fill leaves evenly
+        return plan.flatMap(leaf => {
+            const seed = seedsByLeaf.get(getTaxonomyLeafKey(leaf.path))?.shift();
+            return seed ? [{ content: seed, row: null, taxonomyPath: leaf.path }] : [];
+        });
+    }
+
+    private async requestSeeds(topic: string, count: number): Promise<string[]> {
+        const { config } = this;
+        if (config.provider === ProviderType.Gemini) {
+            return GeminiService.generateSyntheticSeeds(topic, count, config.externalModel);
+        }
+        const useStructuredOutput = config.externalProvider !== ExternalProvider.Ollama;
+        return ExternalApiService.generateSyntheticSeeds({
+            provider: config.externalProvider,
+            apiKey: config.externalApiKey || SettingsService.getApiKey(config.externalProvider),
+            model: config.externalModel,
+            customBaseUrl: config.customBaseUrl || SettingsService.getCustomBaseUrl(),
+            signal: config.abortControllerRef.current?.signal || undefined,
+            structuredOutput: useStructuredOutput,
+            onUsage: (usage) => this.recordSessionSpend(usage.cost || 0),
+        }, topic, count);
+    }
+
     private async buildRuntimeConfig(workItems: WorkItem[]): Promise<RuntimePromptConfig | undefined> {
         const { config } = this;
         const settings = SettingsService.getSettings();
@@ -518,6 +608,7 @@ export class GenerationService {
 
         config.setProgress({ current: 0, total: totalItems, activeWorkers: 0 });
 
+        const seedEvolution = { ...DEFAULT_SEED_EVOLUTION_CONFIG, ...SettingsService.getSettings().seedEvolution };
         let currentIndex = 0;
         let processedCount = 0;
 
@@ -549,6 +640,18 @@ export class GenerationService {
                 await this.waitIfPaused();
                 if (config.abortControllerRef.current?.signal.aborted) break;
 
+                if (seedEvolution.enabled) {
+                    const evolved = await this.evolveWorkItem(item, seedEvolution);
+                    if (config.abortControllerRef.current?.signal.aborted) break;
+                    if (!evolved) {
+                        // Filtered out: counts as processed, nothing is generated
+                        processedCount++;
+                        config.setProgress((p: { current: number; total: number; activeWorkers: number }) => ({ ...p, current: processedCount }));
+                        continue;
+                    }
+                    item = evolved;
+                }
+
                 const { originalQuestion, originalAnswer, originalReasoning } = this.extractOriginals(item.row);
 
                 config.setProgress((p: { current: number; total: number; activeWorkers: number }) => ({ ...p, activeWorkers: p.activeWorkers + 1 }));
@@ -569,7 +672,15 @@ export class GenerationService {
                 }));
 
                 if (result) {
+                    if (item.taxonomyPath) {
+                        result.taxonomyPath = item.taxonomyPath;
+                    }
+                    if (item.seedLineage) {
+                        result.seedLineage = item.seedLineage;
+                    }
+                    await this.applyGroundTruth(result, originalAnswer, item.row);
                     await this.processResult(result);
+                    if (result.cost) this.recordSessionSpend(result.cost);
                 }
 
                 if (config.sleepTime > 0) {
@@ -583,8 +694,167 @@ export class GenerationService {
         await Promise.all(workers);
     }
 
+    /** Converter runs on a Batch API provider go to the backend as one batch job when enabled */
+    private shouldSubmitBatch(): boolean {
+        const { config } = this;
+        return config.appMode === CreatorMode.Converter
+            && config.engineMode === EngineMode.Regular
+            && config.provider === ProviderType.External
+            && isBatchSubmissionEnabled(config.externalProvider);
+    }
+
+    /**
+     * Options that need one response before sending the next request, which a batch cannot do,
+     * and checks the backend does not run on batch results (ground truth, the session budget)
+     */
+    private getBatchBlockers(): string[] {
+        const genParams = { ...SettingsService.getDefaultGenerationParams(), ...this.config.generationParams };
+        const seedEvolution = { ...DEFAULT_SEED_EVOLUTION_CONFIG, ...SettingsService.getSettings().seedEvolution };
+        const groundTruth = { ...DEFAULT_GROUND_TRUTH_CONFIG, ...SettingsService.getSettings().groundTruth };
+        const blockers: string[] = [];
+        if (genParams.splitFieldRequests) blockers.push('split field requests');
+        if (genParams.selfConsistency?.enabled && genParams.selfConsistency.samples > 1) blockers.push('self-consistency');
+        if (seedEvolution.enabled) blockers.push('seed evolution');
+        if (groundTruth.enabled) blockers.push('ground-truth verification');
+        if (getBudgetConfig().sessionBudgetUsd > 0) blockers.push('a session budget');
+        return blockers;
+    }
+
+    /**
+     * Submit all work items to the provider Batch API through the backend, one batch per uploaded
+     * chunk. The backend saves the results as logs; they are imported into the session when the job completes.
+     */
+    private async submitBatch(workItems: WorkItem[], runtimeConfig: RuntimePromptConfig | undefined): Promise<void> {
+        const { config } = this;
+        const items = [...workItems];
+        if (config.dataSourceMode === DataSource.HuggingFace && config.prefetchManagerRef.current) {
+            while (items.length < config.rowsToFetch) {
+                const row = await config.prefetchManagerRef.current.getNextItem();
+                if (!row) break;
+                items.push({ content: config.getRowContent(row), row });
+            }
+        }
+        if (items.length === 0) {
+            throw new Error("No inputs generated or parsed.");
+        }
+
+        const genParams = { ...SettingsService.getDefaultGenerationParams(), ...config.generationParams };
+        const selectedFields = genParams.selectedFields || [];
+        const keepReasoning = selectedFields.length > 0 && !selectedFields.includes(OutputFieldName.Reasoning);
+        const keepAnswer = selectedFields.length > 0 && !selectedFields.includes(OutputFieldName.Answer);
+        const source = this.getLogSource();
+
+        const batchItems: BackendBatchItem[] = items.map(item => {
+            const safeInput = typeof item.content === 'string' ? item.content : String(item.content);
+            const { originalQuestion, originalAnswer, originalReasoning } = this.extractOriginals(item.row);
+            return {
+                userPrompt: this.buildRegularPromptInput(safeInput),
+                log: {
+                    source,
+                    seed_preview: safeInput.substring(0, 150) + "...",
+                    full_seed: safeInput,
+                    query: originalQuestion || extractInputContent(safeInput, { format: ExtractContentFormat.Display }),
+                    [SynthLogFieldName.OriginalReasoning]: originalReasoning,
+                    [SynthLogFieldName.OriginalAnswer]: originalAnswer,
+                    // Fields left out of the selection keep the original values
+                    ...(keepReasoning && { reasoning: originalReasoning }),
+                    ...(keepAnswer && { answer: originalAnswer })
+                }
+            };
+        });
+
+        config.setProgress({ current: 0, total: batchItems.length, activeWorkers: 1 });
+        const jobId = await submitBatchJob({
+            sessionId: config.sessionUidRef.current,
+            sessionName: config.sessionNameRef.current,
+            provider: config.externalProvider,
+            model: config.externalModel,
+            apiKey: config.externalApiKey || SettingsService.getApiKey(config.externalProvider),
+            systemPrompt: this.withJsonInstruction(runtimeConfig?.converterPrompt ?? config.converterPrompt, genParams),
+            items: batchItems,
+            generationParams: genParams,
+            outputFormat: genParams.useNativeOutput ? 'native' : 'json'
+        });
+        config.setProgress({ current: batchItems.length, total: batchItems.length, activeWorkers: 0 });
+
+        config.trackJob?.(jobId, BATCH_JOB_TYPE);
+        toast.success(`Submitted ${batchItems.length} items to the ${config.externalProvider} Batch API. Results are added to the session when the job completes.`);
+    }
+
+    /**
+     * Evolve a work item's seed. The evolved seed replaces the row, since the row's
+     * reference answer no longer matches the question.
+     *
+     * @returns null when the evolution was filtered out or failed
+     */
+    private async evolveWorkItem(item: WorkItem, seedEvolution: SeedEvolutionConfig): Promise<WorkItem | null> {
+        const { config } = this;
+        const provider = seedEvolution.provider || config.externalProvider;
+        const evolver: SeedEvolverModel = seedEvolution.model?.trim()
+            ? {
+                provider,
+                apiKey: SettingsService.getApiKey(provider),
+                model: seedEvolution.model.trim(),
+                customBaseUrl: SettingsService.getCustomBaseUrl()
+            }
+            : {
+                provider: config.externalProvider,
+                apiKey: config.externalApiKey || SettingsService.getApiKey(config.externalProvider),
+                model: config.externalModel,
+                apiType: config.apiType,
+                customBaseUrl: config.customBaseUrl || SettingsService.getCustomBaseUrl()
+            };
+
+        try {
+            const result = await evolveSeed({
+                seed: item.content,
+                config: seedEvolution,
+                evolver,
+                signal: config.abortControllerRef.current?.signal || undefined,
+                maxRetries: config.maxRetries,
+                retryDelay: config.retryDelay,
+                // Evolution happens before the item exists, so its calls are not part of the item's cost
+                onUsage: (usage) => this.recordSessionSpend(usage.cost || 0)
+            });
+            if (!result) {
+                logger.log('🧬 Seed filtered out: no evolution passed the checks');
+                return null;
+            }
+            return { content: result.seed, row: null, taxonomyPath: item.taxonomyPath, seedLineage: result.lineage };
+        } catch (error: any) {
+            if (error?.name === 'AbortError') return null;
+            logger.warn('🧬 Seed evolution failed:', error?.message || error);
+            return null;
+        }
+    }
+
+    /** Add an item's cost to the session spend, warning once it nears the budget */
+    private recordSessionSpend(cost: number): void {
+        this.sessionSpend += cost;
+        const { sessionBudgetUsd, warnAt } = getBudgetConfig();
+        if (this.budgetWarned || sessionBudgetUsd <= 0) return;
+        if (this.sessionSpend >= sessionBudgetUsd * warnAt && this.sessionSpend < sessionBudgetUsd) {
+            this.budgetWarned = true;
+            toast.warning(`Session spend ${formatCost(this.sessionSpend)} of ${formatCost(sessionBudgetUsd)} budget`);
+        }
+    }
+
+    /**
+     * Pause once the session budget is spent. The budget is re-read on every check, so raising
+     * it in settings and resuming continues the run; resuming without raising it pauses again.
+     */
+    private enforceSessionBudget(): void {
+        const { config } = this;
+        const { sessionBudgetUsd } = getBudgetConfig();
+        if (sessionBudgetUsd <= 0 || this.sessionSpend < sessionBudgetUsd || config.isPausedRef.current) return;
+        config.isPausedRef.current = true;
+        config.setIsPaused(true);
+        toast.warning(`Session budget of ${formatCost(sessionBudgetUsd)} reached (${formatCost(this.sessionSpend)} spent). Generation paused.`);
+    }
+
     private async waitIfPaused(): Promise<void> {
         const { config } = this;
+        this.enforceSessionBudget();
         while (config.isPausedRef.current && !config.abortControllerRef.current?.signal.aborted) {
             await new Promise(r => setTimeout(r, 200));
         }
@@ -677,14 +947,13 @@ export class GenerationService {
         const startTime = Date.now();
 
         // Determine source for tracking
-        const source = config.dataSourceMode === DataSource.HuggingFace
-            ? `hf:${config.hfConfig.dataset}`
-            : config.dataSourceMode === DataSource.Manual
-                ? `manual:${config.manualFileName || 'unknown'}`
-                : 'synthetic';
+        const source = this.getLogSource();
 
         const settings = SettingsService.getSettings();
-        const timeoutSeconds = Math.max(0, settings.generationTimeoutSeconds ?? 300);
+        // Each model of a fallback chain gets the whole timeout (see callExternalApi), so the item may take one per model
+        const deepPhases = Object.values((runtimeConfig?.deepConfig ?? config.deepConfig)?.phases || {});
+        const longestChain = 1 + Math.max(settings.generationFallbacks?.length || 0, ...deepPhases.map(phase => phase.fallbacks?.length || 0));
+        const timeoutSeconds = Math.max(0, settings.generationTimeoutSeconds ?? 300) * longestChain;
         const timeoutMs = timeoutSeconds * 1000;
         const generationId = retryId || crypto.randomUUID();
 
@@ -822,7 +1091,7 @@ export class GenerationService {
                 });
 
                 // Capture API-reported usage data for accurate token counting
-                interface CapturedUsage { prompt_tokens: number; completion_tokens: number; total_tokens: number; reasoning_tokens?: number }
+                interface CapturedUsage { prompt_tokens: number; completion_tokens: number; total_tokens: number; reasoning_tokens?: number; cost?: number }
                 const usageRef: { current: CapturedUsage | null } = { current: null };
                 const captureUsage = (rawUsage: any) => {
                     if (!rawUsage || typeof rawUsage !== 'object') return;
@@ -833,10 +1102,18 @@ export class GenerationService {
                         prompt_tokens: rawUsage.prompt_tokens || rawUsage.input_tokens || 0,
                         completion_tokens: rawUsage.completion_tokens || rawUsage.output_tokens || 0,
                         total_tokens: rawUsage.total_tokens || ((rawUsage.prompt_tokens || 0) + (rawUsage.completion_tokens || 0)),
-                        reasoning_tokens: reasoningTokens || undefined
+                        reasoning_tokens: reasoningTokens || undefined,
+                        cost: typeof rawUsage.cost === 'number' ? rawUsage.cost : undefined
                     };
                 };
 
+                // The sidebar model's fallback chain; records which model actually answered
+                const generationFallbacks = SettingsService.getSettings().generationFallbacks;
+                const modelUsedRef: { current: string | null } = { current: null };
+                const recordModelUsed = (usedProvider: ExternalProvider, usedModel: string) => {
+                    modelUsedRef.current = `${usedProvider}/${usedModel}`;
+                };
+
                 // Progressive streaming callback that parses JSON fields
                 const MAX_STREAM_RAW_CHARS = 5000;
                 const handleStreamChunk: StreamChunkCallback = (_chunk, accumulated, _phase, usage) => {
@@ -1080,26 +1357,78 @@ export class GenerationService {
                     }
                 }
 
+                // --- Tool-Use Trace Mode ---
+                const toolUse = { ...DEFAULT_TOOL_USE_CONFIG, ...settings.toolUse };
+                if (toolUse.enabled && config.appMode === CreatorMode.Generator && config.engineMode === EngineMode.Regular) {
+                    const agent: ToolTraceModel = {
+                        provider: config.externalProvider,
+                        apiKey: config.externalApiKey || SettingsService.getApiKey(config.externalProvider),
+                        model: config.externalModel,
+                        apiType: config.apiType,
+                        customBaseUrl: config.customBaseUrl || SettingsService.getCustomBaseUrl()
+                    };
+                    const environmentProvider = toolUse.environmentProvider || config.externalProvider;
+                    const environment: ToolTraceModel = toolUse.environmentModel?.trim()
+                        ? {
+                            provider: environmentProvider,
+                            apiKey: SettingsService.getApiKey(environmentProvider),
+                            model: toolUse.environmentModel.trim(),
+                            customBaseUrl: SettingsService.getCustomBaseUrl()
+                        }
+                        : agent;
+
+                    // A failed trace has no log cost, but the agent and environment turns it ran are still billed
+                    let traceCost = 0;
+                    const trace = await generateToolTrace({
+                        seed: safeInput,
+                        config: toolUse,
+                        agent,
+                        environment,
+                        signal: itemAbortController.signal,
+                        maxRetries: config.maxRetries,
+                        retryDelay: config.retryDelay,
+                        generationParams: genParams,
+                        onUsage: (usage) => { traceCost += usage.cost || 0; }
+                    }).catch((error) => {
+                        this.recordSessionSpend(traceCost);
+                        throw error;
+                    });
+
+                    return {
+                        id: generationId,
+                        sessionUid: config.sessionUid,
+                        source: source,
+                        seed_preview: safeInput.substring(0, 150) + "...",
+                        full_seed: safeInput,
+                        query: originalQuestion || safeInput,
+                        reasoning: trace.reasoning,
+                        reasoning_content: trace.reasoning,
+                        answer: trace.answer,
+                        [SynthLogFieldName.OriginalAnswer]: originalAnswer,
+                        timestamp: new Date().toISOString(),
+                        duration: Date.now() - startTime,
+                        tokenCount: trace.usage?.total_tokens
+                            || trace.messages.reduce((acc, m) => acc + Math.round((m.content?.length || 0) / 4), 0),
+                        usage: trace.usage,
+                        cost: trace.usage?.cost,
+                        modelUsed: `TOOLS: ${config.externalProvider}/${config.externalModel}`,
+                        provider: config.externalProvider,
+                        status: LogItemStatus.DONE,
+                        isMultiTurn: true,
+                        messages: trace.messages,
+                        tools: toolUse.tools,
+                        replayConfig
+                    };
+                }
+
                 // Regular generation mode
                 if (config.engineMode === EngineMode.Regular) {
-                    let promptInput = "";
-                    if (config.appMode === CreatorMode.Generator) {
-                        promptInput = `[SEED TEXT START]\n${safeInput}\n[SEED TEXT END]`;
-                    } else {
-                        const contentToConvert = extractInputContent(safeInput);
-                        promptInput = `[INPUT LOGIC START]\n${contentToConvert}\n[INPUT LOGIC END]`;
-                    }
+                    const promptInput = this.buildRegularPromptInput(safeInput);
 
                     const splitFieldRequests = genParams?.splitFieldRequests ?? false;
+                    let selfConsistencyVote: Pick<SynthLogItem, 'voteTally' | 'voteAgreement' | 'voteTraces'> = {};
 
-                    let enhancedPrompt = activePrompt;
-                    if (!splitFieldRequests && !useNativeOutput && !enhancedPrompt.toLowerCase().includes("json")) {
-                        const selFields = genParams?.selectedFields;
-                        const fieldNames = selFields && selFields.length > 0
-                            ? selFields.map((f: string) => `'${f}'`).join(', ')
-                            : `'${OutputFieldName.Query}', '${OutputFieldName.Reasoning}', '${OutputFieldName.Answer}'`;
-                        enhancedPrompt += `\n\nCRITICAL: You must output ONLY valid JSON with ${fieldNames} fields.`;
-                    }
+                    const enhancedPrompt = this.withJsonInstruction(activePrompt, genParams);
 
                     if (splitFieldRequests && config.provider !== ProviderType.Gemini) {
                         // Split mode: separate plain-text requests per selected field
@@ -1168,7 +1497,9 @@ export class GenerationService {
                                 stream: config.isStreamingEnabled,
                                 onStreamChunk: handleSplitStreamChunk('reasoning'),
                                 streamPhase: 'regular',
-                                onUsage: captureUsage
+                                onUsage: captureUsage,
+                                fallbacks: generationFallbacks,
+                                onModelUsed: recordModelUsed
                             });
                             clearStreamingState();
 
@@ -1206,7 +1537,9 @@ export class GenerationService {
                                 stream: config.isStreamingEnabled,
                                 onStreamChunk: handleSplitStreamChunk('answer'),
                                 streamPhase: 'regular',
-                                onUsage: captureUsage
+                                onUsage: captureUsage,
+                                fallbacks: generationFallbacks,
+                                onModelUsed: recordModelUsed
                             });
                             clearStreamingState();
 
@@ -1240,7 +1573,7 @@ export class GenerationService {
                         config.streamingConversationsRef.current.set(generationId, regularStreamState);
                         config.bumpStreamingConversations();
 
-                        result = await ExternalApiService.callExternalApi({
+                        const callRegular = (sampleParams: GenerationParams, stream: boolean, onUsage: (usage: UsageData) => void, cacheVariant?: number) => ExternalApiService.callExternalApi({
                             provider: config.externalProvider,
                             apiKey: config.externalApiKey || SettingsService.getApiKey(config.externalProvider),
                             model: config.externalModel,
@@ -1252,15 +1585,86 @@ export class GenerationService {
                             signal: itemAbortController.signal,
                             maxRetries: config.maxRetries,
                             retryDelay: config.retryDelay,
-                            generationParams: genParams,
+                            generationParams: sampleParams,
                             structuredOutput: (useNativeOutput || splitFieldRequests) ? false : (genParams?.forceStructuredOutput ?? true),
                             responsesSchema: ResponsesSchemaName.ReasoningTrace,
                             selectedFields: useNativeOutput ? undefined : genParams?.selectedFields,
-                            stream: config.isStreamingEnabled,
+                            stream,
                             onStreamChunk: handleStreamChunk,
                             streamPhase: 'regular',
-                            onUsage: captureUsage
+                            onUsage,
+                            fallbacks: generationFallbacks,
+                            onModelUsed: recordModelUsed,
+                            cacheVariant
                         });
+
+                        const selfConsistency = genParams?.selfConsistency;
+                        if (selfConsistency?.enabled && selfConsistency.samples > 1) {
+                            const temperatures = getSampleTemperatures(selfConsistency.samples, genParams?.temperature, selfConsistency.temperatureSpread);
+                            const sampleUsage: UsageData[] = [];
+                            // Only the first sample streams to the feed; the rest run alongside it
+                            const settled = await Promise.allSettled(temperatures.map((temperature, index) => callRegular(
+                                { ...genParams, temperature },
+                                index === 0 && config.isStreamingEnabled,
+                                index === 0 ? captureUsage : (usage) => { sampleUsage[index] = usage; },
+                                index
+                            )));
+                            sampleUsage.forEach(usage => {
+                                if (!usage) return;
+                                const current = usageRef.current || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+                                usageRef.current = {
+                                    prompt_tokens: current.prompt_tokens + usage.prompt_tokens,
+                                    completion_tokens: current.completion_tokens + usage.completion_tokens,
+                                    total_tokens: current.total_tokens + usage.total_tokens,
+                                    reasoning_tokens: (current.reasoning_tokens || 0) + (usage.reasoning_tokens || 0) || undefined,
+                                    // Unknown only while no sample has reported a cost
+                                    cost: current.cost === undefined && usage.cost === undefined
+                                        ? undefined
+                                        : (current.cost || 0) + (usage.cost || 0)
+                                };
+                            });
+
+                            // Failed samples drop out of the vote; the spend of those that returned is kept above
+                            const returned = settled.flatMap((outcome, index) => outcome.status === 'fulfilled' ? [{ sample: outcome.value, index }] : []);
+                            if (returned.length === 0) {
+                                throw (settled[0] as PromiseRejectedResult).reason;
+                            }
+                            if (returned.length < settled.length) {
+                                logger.warn(`[Self-Consistency] ${settled.length - returned.length} of ${settled.length} samples failed; voting over the rest`);
+                            }
+                            const samples = returned.map(({ sample }) => sample);
+
+                            const traces = returned.map(({ sample, index }) => {
+                                const fields = useNativeOutput
+                                    ? parseNativeOutput(typeof sample === 'string' ? sample : JSON.stringify(sample))
+                                    : (sample || {});
+                                const toText = (val: any) => (val === null || val === undefined) ? '' : typeof val === 'string' ? val : JSON.stringify(val);
+                                const answer = toText(fields.answer);
+                                return {
+                                    reasoning: toText(fields.reasoning),
+                                    answer,
+                                    normalizedAnswer: normalizeAnswer(answer),
+                                    temperature: temperatures[index],
+                                    agreesWithMajority: false
+                                };
+                            });
+                            const vote = voteOnAnswers(traces.map(trace => trace.answer));
+                            traces.forEach(trace => { trace.agreesWithMajority = !!vote.majority && trace.normalizedAnswer === vote.majority; });
+                            logger.log(`[Self-Consistency] ${samples.length} samples, majority "${vote.majority}" (${Math.round(vote.agreement * 100)}% agreement)`);
+
+                            // The first agreeing trace becomes the item's own reasoning/answer
+                            const representative = Math.max(0, traces.findIndex(trace => trace.agreesWithMajority));
+                            result = samples[representative];
+                            selfConsistencyVote = {
+                                voteTally: vote.tally,
+                                voteAgreement: vote.agreement,
+                                voteTraces: selfConsistency.keep === SelfConsistencyKeep.All
+                                    ? traces
+                                    : traces.filter(trace => trace.agreesWithMajority)
+                            };
+                        } else {
+                            result = await callRegular(genParams, config.isStreamingEnabled, captureUsage);
+                        }
                         clearStreamingState();
                     }
 
@@ -1339,6 +1743,9 @@ export class GenerationService {
                         : answer;
 
                     const finalUsage = usageRef.current;
+                    const cost = finalUsage
+                        ? finalUsage.cost ?? estimateUsageCost(config.externalProvider, config.externalModel, finalUsage)
+                        : undefined;
                     return {
                         id: generationId,
                         sessionUid: config.sessionUid,
@@ -1355,11 +1762,13 @@ export class GenerationService {
                         duration: Date.now() - startTime,
                         tokenCount: finalUsage?.total_tokens
                             || Math.round((finalAnswer.length + reasoning.length) / 4),
-                        usage: finalUsage || undefined,
-                        modelUsed: config.provider === ProviderType.Gemini ? 'Gemini 3 Flash' : `${config.externalProvider}/${config.externalModel}`,
+                        usage: finalUsage ? { ...finalUsage, cost } : undefined,
+                        cost,
+                        modelUsed: config.provider === ProviderType.Gemini ? 'Gemini 3 Flash' : (modelUsedRef.current || `${config.externalProvider}/${config.externalModel}`),
                         provider: config.externalProvider,
                         status: LogItemStatus.DONE,
-                        replayConfig
+                        replayConfig,
+                        ...selfConsistencyVote
                     };
                 } else {
                     // Deep mode
@@ -1452,8 +1861,10 @@ export class GenerationService {
 
                     const answer = deepResult.answer || "";
                     const reasoning = deepResult.reasoning || "";
+                    const phaseCosts = Object.values(getPhaseCosts(deepResult));
                     return {
                         ...deepResult,
+                        cost: phaseCosts.length > 0 ? phaseCosts.reduce((sum, c) => sum + c, 0) : undefined,
                         id: generationId,
                         [SynthLogFieldName.OriginalReasoning]: originalReasoning,
                         [SynthLogFieldName.OriginalAnswer]: originalAnswer,
@@ -1547,6 +1958,28 @@ export class GenerationService {
         }
     }
 
+    /**
+     * Check the answer against the row's reference answer when ground-truth verification is on.
+     * Failed items are marked discarded when reject sampling is enabled.
+     */
+    private async applyGroundTruth(result: SynthLogItem, reference: string | undefined, row: any): Promise<void> {
+        const groundTruth = { ...DEFAULT_GROUND_TRUTH_CONFIG, ...SettingsService.getSettings().groundTruth };
+        if (!groundTruth.enabled || result.isError || result.isMultiTurn || !result.answer) return;
+        const hasTests = Boolean(groundTruth.codeTestsColumn && row?.[groundTruth.codeTestsColumn]);
+        if (!reference?.trim() && !hasTests) return;
+
+        result.groundTruth = await verifyAgainstReference({
+            answer: result.answer,
+            reference: reference || '',
+            row,
+            mcqColumn: this.config.hfConfig.mcqColumn,
+            config: groundTruth
+        });
+        if (result.groundTruth.status === GroundTruthStatus.Fail && groundTruth.rejectFailures) {
+            result.isDiscarded = true;
+        }
+    }
+
     private async processResult(result: SynthLogItem): Promise<void> {
         const { config } = this;
 
@@ -1580,6 +2013,35 @@ export class GenerationService {
         }
     }
 
+    private getLogSource(): string {
+        const { config } = this;
+        return config.dataSourceMode === DataSource.HuggingFace
+            ? `hf:${config.hfConfig.dataset}`
+            : config.dataSourceMode === DataSource.Manual
+                ? `manual:${config.manualFileName || 'unknown'}`
+                : 'synthetic';
+    }
+
+    /** User prompt of a regular-mode request */
+    private buildRegularPromptInput(safeInput: string): string {
+        if (this.config.appMode === CreatorMode.Generator) {
+            return `[SEED TEXT START]\n${safeInput}\n[SEED TEXT END]`;
+        }
+        return `[INPUT LOGIC START]\n${extractInputContent(safeInput)}\n[INPUT LOGIC END]`;
+    }
+
+    /** Regular-mode system prompt, asking for JSON output unless the prompt already mentions it */
+    private withJsonInstruction(prompt: string, genParams: GenerationParams): string {
+        if (genParams.splitFieldRequests || genParams.useNativeOutput || prompt.toLowerCase().includes("json")) {
+            return prompt;
+        }
+        const selFields = genParams.selectedFields;
+        const fieldNames = selFields && selFields.length > 0
+            ? selFields.map((f: string) => `'${f}'`).join(', ')
+            : `'${OutputFieldName.Query}', '${OutputFieldName.Reasoning}', '${OutputFieldName.Answer}'`;
+        return `${prompt}\n\nCRITICAL: You must output ONLY valid JSON with ${fieldNames} fields.`;
+    }
+
     private cleanup(): void {
         const { config } = this;
 
@@ -26,6 +26,9 @@ export async function retryItem(
     try {
         const result = await generateSingleItem(logItem.full_seed, 0, { retryId: id });
         if (result) {
+            // Keep the taxonomy leaf and seed lineage of the item being replaced
+            result.taxonomyPath = logItem.taxonomyPath;
+            result.seedLineage = logItem.seedLineage;
             // Save to Firebase in production
             if (environment === Environment.Production) {
                 try {
@@ -123,6 +126,8 @@ export async function retryAllFailed(
                 .then(async (result) => {
                     activeWorkers--;
                     if (result) {
+                        result.taxonomyPath = item.taxonomyPath;
+                        result.seedLineage = item.seedLineage;
                         if (environment === Environment.Production) {
                             try {
                                 await FirebaseService.saveLogToFirebase(result);
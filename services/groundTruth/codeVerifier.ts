@@ -0,0 +1,66 @@
+/**
+ * Code answers: the generated solution runs against the dataset's unit tests in the
+ * backend's container runner (POST /api/verify/code), which is off unless the backend enables it.
+ */
+
+import { GroundTruthStatus, GroundTruthVerifierType } from '../../interfaces/enums';
+import { isBackendEnabled, runCodeTests } from '../backendClient';
+import type { GroundTruthVerifier } from './types';
+
+const LANGUAGE_FENCES: Record<string, string[]> = {
+    python: ['python', 'py', 'python3'],
+    javascript: ['javascript', 'js', 'node']
+};
+
+/** Last fenced code block, preferring blocks tagged with the target language */
+export function extractCodeBlock(text: string, language: string): string {
+    const blocks = [...(text || '').matchAll(/```([\w+-]*)[^\n]*\n([\s\S]*?)```/g)]
+        .map(match => ({ lang: match[1].toLowerCase(), code: match[2] }));
+    if (blocks.length === 0) return (text || '').trim();
+    const tagged = blocks.filter(block => (LANGUAGE_FENCES[language] || [language]).includes(block.lang));
+    const candidates = tagged.length > 0 ? tagged : blocks;
+    return candidates[candidates.length - 1].code.trim();
+}
+
+/** Tests column value as source: arrays (e.g. MBPP's test_list) become one assertion per line */
+export function formatTests(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (Array.isArray(value)) return value.map(test => String(test)).join('\n');
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export const codeVerifier: GroundTruthVerifier = {
+    type: GroundTruthVerifierType.Code,
+    label: 'Code (unit tests)',
+    async verify({ answer, row, config }) {
+        const tests = formatTests(config.codeTestsColumn ? row?.[config.codeTestsColumn] : undefined);
+        const result = {
+            verifier: GroundTruthVerifierType.Code,
+            expected: config.codeTestsColumn ? `tests: ${config.codeTestsColumn}` : ''
+        };
+        if (!tests.trim()) {
+            return { ...result, status: GroundTruthStatus.Error, detail: 'No unit tests for this item' };
+        }
+        if (!isBackendEnabled()) {
+            return { ...result, status: GroundTruthStatus.Error, detail: 'Code verification needs the local backend' };
+        }
+
+        const code = extractCodeBlock(answer, config.codeLanguage);
+        try {
+            const run = await runCodeTests({
+                language: config.codeLanguage,
+                code,
+                tests,
+                timeoutMs: config.codeTimeoutMs
+            });
+            return {
+                ...result,
+                status: run.passed ? GroundTruthStatus.Pass : GroundTruthStatus.Fail,
+                actual: code.slice(0, 200),
+                detail: run.timedOut ? `Timed out after ${config.codeTimeoutMs}ms` : (run.passed ? undefined : run.output)
+            };
+        } catch (error: any) {
+            return { ...result, status: GroundTruthStatus.Error, detail: error?.message || String(error) };
+        }
+    }
+};
@@ -0,0 +1,105 @@
+/**
+ * Math answers: numeric equivalence (fractions, percentages, thousands separators)
+ * with a LaTeX-normalized string comparison as fallback.
+ */
+
+import { GroundTruthStatus, GroundTruthVerifierType } from '../../interfaces/enums';
+import { normalizeAnswer } from '../../utils/answerVoting';
+import type { GroundTruthVerifier } from './types';
+
+const RELATIVE_TOLERANCE = 1e-6;
+
+/** Content of the last \boxed{...}, honouring nested braces */
+const lastBoxed = (text: string): string | null => {
+    const start = text.lastIndexOf('\\boxed');
+    if (start === -1) return null;
+    const open = text.indexOf('{', start);
+    if (open === -1) return null;
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === '{') depth++;
+        else if (text[i] === '}' && --depth === 0) return text.slice(open + 1, i);
+    }
+    return null;
+};
+
+/**
+ * Final answer from a reference or generated solution: GSM8K-style `#### x`,
+ * the last \boxed{}, an "answer is x" lead-in, or the text as a whole
+ */
+export function extractFinalAnswer(text: string): string {
+    const trimmed = (text || '').trim();
+    const hashes = trimmed.match(/####\s*([^\n]+)\s*$/);
+    if (hashes) return hashes[1].trim();
+    const boxed = lastBoxed(trimmed);
+    if (boxed !== null) return boxed.trim();
+    const lead = trimmed.match(/(?:final answer|answer)\s*(?:is|:)\s*([^\n]+)\s*$/i);
+    if (lead) return lead[1].trim();
+    return trimmed;
+}
+
+const stripLatex = (text: string) => text
+    .replace(/\\[dt]frac/g, '\\frac')
+    .replace(/\\left|\\right|\\!|\\,|\\;|\\ /g, '')
+    .replace(/\^\{?\\circ\}?/g, '')
+    .replace(/\\%|\\\$/g, '')
+    .replace(/\\text\{([^}]*)\}/g, '$1')
+    .replace(/\s+/g, '')
+    .replace(/^[a-z]\s*=/i, '');
+
+/** Numeric value of an answer, or null when it is not a plain number, fraction or percentage */
+export function parseNumericAnswer(text: string): number | null {
+    const cleaned = stripLatex(normalizeAnswer(text)).replace(/,(?=\d{3}\b)/g, '');
+    const percent = cleaned.endsWith('%');
+    const body = percent ? cleaned.slice(0, -1) : cleaned;
+
+    let value: number | null = null;
+    const frac = body.match(/^(-?)\\frac\{(-?[\d.]+)\}\{(-?[\d.]+)\}$/) || body.match(/^(-?)\(?(-?[\d.]+)\)?\/\(?(-?[\d.]+)\)?$/);
+    if (frac) {
+        const denominator = Number(frac[3]);
+        value = denominator !== 0 ? (frac[1] ? -1 : 1) * Number(frac[2]) / denominator : null;
+    } else if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(body)) {
+        value = Number(body);
+    }
+    if (value === null || !Number.isFinite(value)) return null;
+    return percent ? value / 100 : value;
+}
+
+const numbersMatch = (a: number, b: number) =>
+    Math.abs(a - b) <= RELATIVE_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+
+/** Last number in free text, used when a long solution has no marked final answer */
+const lastNumber = (text: string): string | null => {
+    const matches = text.match(/-?\d[\d,]*(?:\.\d+)?/g);
+    return matches ? matches[matches.length - 1] : null;
+};
+
+export const mathVerifier: GroundTruthVerifier = {
+    type: GroundTruthVerifierType.Math,
+    label: 'Math (numeric / LaTeX equivalence)',
+    async verify({ answer, reference }) {
+        const expected = extractFinalAnswer(reference);
+        let actual = extractFinalAnswer(answer);
+        const expectedValue = parseNumericAnswer(expected);
+        let actualValue = parseNumericAnswer(actual);
+
+        if (expectedValue !== null && actualValue === null && actual === answer.trim()) {
+            const fallback = lastNumber(answer);
+            if (fallback) {
+                actual = fallback;
+                actualValue = parseNumericAnswer(fallback);
+            }
+        }
+
+        const passed = expectedValue !== null && actualValue !== null
+            ? numbersMatch(expectedValue, actualValue)
+            : stripLatex(normalizeAnswer(expected)) === stripLatex(normalizeAnswer(actual));
+
+        return {
+            verifier: GroundTruthVerifierType.Math,
+            status: passed ? GroundTruthStatus.Pass : GroundTruthStatus.Fail,
+            expected,
+            actual
+        };
+    }
+};
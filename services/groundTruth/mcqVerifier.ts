@@ -0,0 +1,90 @@
+/**
+ * Multiple-choice answers: both sides are reduced to a choice letter, using the
+ * dataset's options (mcqColumn) to resolve indices and option text.
+ */
+
+import { GroundTruthStatus, GroundTruthVerifierType } from '../../interfaces/enums';
+import { normalizeAnswer } from '../../utils/answerVoting';
+import { extractFinalAnswer } from './mathVerifier';
+import type { GroundTruthVerifier } from './types';
+
+const LABELS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/** Options keyed by letter, from a dict, an array or "A: ..." lines */
+export function parseMcqOptions(options: unknown): Record<string, string> {
+    if (!options) return {};
+    if (Array.isArray(options)) {
+        return Object.fromEntries(options.map((opt, idx) => [LABELS[idx], typeof opt === 'string' ? opt : JSON.stringify(opt)]));
+    }
+    if (typeof options === 'object') {
+        return Object.fromEntries(Object.entries(options as Record<string, unknown>).map(([key, value]) => [key.trim().toUpperCase(), String(value)]));
+    }
+    if (typeof options === 'string') {
+        const parsed: Record<string, string> = {};
+        options.split('\n').forEach(line => {
+            const match = line.match(/^\s*\(?([A-Z])[).:]\s*(.+)$/i);
+            if (match) parsed[match[1].toUpperCase()] = match[2].trim();
+        });
+        return parsed;
+    }
+    return {};
+}
+
+/**
+ * Choice letter an answer refers to
+ *
+ * @param allowIndex - Treat a bare integer as a 0-based option index (reference answers only)
+ */
+export function resolveChoice(text: string, options: Record<string, string>, allowIndex = false): string | null {
+    const final = extractFinalAnswer(text).replace(/\\text\{([^}]*)\}/g, '$1').trim();
+    const letters = Object.keys(options);
+
+    const bare = final.match(/^\(?([A-Z])\)?[.:)]?$/i);
+    if (bare) return bare[1].toUpperCase();
+    if (allowIndex && /^\d+$/.test(final) && letters.length > 0) {
+        return letters[Number(final)] ?? null;
+    }
+
+    const lead = text.match(/(?:answer|option|choice)\s*(?:is|:)?\s*\(([A-Z])\)/i)
+        || text.match(/(?:answer|option|choice)\s*(?:is|:)\s*([A-Z])(?:[.,;)]|\s*$)/i);
+    if (lead) return lead[1].toUpperCase();
+    const opening = final.match(/^\(?([A-Z])[).:]\s+/);
+    if (opening) return opening[1].toUpperCase();
+
+    // Fall back to option text: an exact match, else the only option the answer mentions
+    const normalized = normalizeAnswer(final);
+    const exact = letters.find(letter => normalizeAnswer(options[letter]) === normalized);
+    if (exact) return exact;
+    const mentioned = letters.filter(letter => {
+        const option = normalizeAnswer(options[letter]);
+        return option.length > 0 && normalized.includes(option);
+    });
+    return mentioned.length === 1 ? mentioned[0] : null;
+}
+
+export const mcqVerifier: GroundTruthVerifier = {
+    type: GroundTruthVerifierType.Mcq,
+    label: 'Multiple choice (normalized match)',
+    async verify({ answer, reference, row, mcqColumn }) {
+        const options = parseMcqOptions(mcqColumn ? row?.[mcqColumn] : undefined);
+        const expected = resolveChoice(reference, options, true);
+        const actual = resolveChoice(answer, options);
+
+        if (!expected) {
+            return {
+                verifier: GroundTruthVerifierType.Mcq,
+                status: GroundTruthStatus.Error,
+                expected: reference,
+                actual: actual ?? undefined,
+                detail: 'Could not resolve the reference to an option'
+            };
+        }
+        return {
+            verifier: GroundTruthVerifierType.Mcq,
+            status: actual === expected ? GroundTruthStatus.Pass : GroundTruthStatus.Fail,
+            expected,
+            actual: actual ?? undefined,
+            detail: actual ? undefined : 'No choice found in the answer'
+        };
+    }
+};
@@ -0,0 +1,21 @@
+import type { GroundTruthConfig, GroundTruthResult } from '../../types';
+import { GroundTruthVerifierType } from '../../interfaces/enums';
+
+export interface GroundTruthInput {
+    /** Generated answer being checked */
+    answer: string;
+    /** Reference answer from the dataset's output columns */
+    reference: string;
+    /** Source dataset row, for verifiers that read extra columns (MCQ options, unit tests) */
+    row?: Record<string, unknown>;
+    /** Dataset column holding MCQ options */
+    mcqColumn?: string;
+    config: GroundTruthConfig;
+}
+
+/** A pluggable answer checker; register new ones with `registerGroundTruthVerifier`. */
+export interface GroundTruthVerifier {
+    type: GroundTruthVerifierType;
+    label: string;
+    verify(input: GroundTruthInput): Promise<GroundTruthResult>;
+}
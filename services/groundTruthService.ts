@@ -0,0 +1,52 @@
+/**
+ * Ground-truth verification: checks a generated answer against the dataset's reference
+ * answer with a pluggable verifier (math, multiple choice, code unit tests).
+ */
+
+import type { GroundTruthResult } from '../types';
+import { GroundTruthStatus, GroundTruthVerifierType } from '../interfaces/enums';
+import { codeVerifier } from './groundTruth/codeVerifier';
+import { mathVerifier } from './groundTruth/mathVerifier';
+import { mcqVerifier } from './groundTruth/mcqVerifier';
+import type { GroundTruthInput, GroundTruthVerifier } from './groundTruth/types';
+
+export type { GroundTruthInput, GroundTruthVerifier } from './groundTruth/types';
+
+const verifiers = new Map<GroundTruthVerifierType, GroundTruthVerifier>();
+
+/** Add or replace the verifier for a type */
+export function registerGroundTruthVerifier(verifier: GroundTruthVerifier): void {
+    verifiers.set(verifier.type, verifier);
+}
+
+export function getGroundTruthVerifiers(): GroundTruthVerifier[] {
+    return [...verifiers.values()];
+}
+
+[mathVerifier, mcqVerifier, codeVerifier].forEach(registerGroundTruthVerifier);
+
+/** Verifier for an item under Auto: MCQ when options exist, code when tests exist, math otherwise */
+export function resolveVerifierType(input: Pick<GroundTruthInput, 'row' | 'mcqColumn' | 'config'>): GroundTruthVerifierType {
+    const { row, mcqColumn, config } = input;
+    if (config.verifier !== GroundTruthVerifierType.Auto) return config.verifier;
+    if (mcqColumn && row?.[mcqColumn]) return GroundTruthVerifierType.Mcq;
+    if (config.codeTestsColumn && row?.[config.codeTestsColumn]) return GroundTruthVerifierType.Code;
+    return GroundTruthVerifierType.Math;
+}
+
+/**
+ * Check an answer against its reference. Never throws: failures to run the check
+ * come back with Error status so they are not mistaken for wrong answers.
+ */
+export async function verifyAgainstReference(input: GroundTruthInput): Promise<GroundTruthResult> {
+    const type = resolveVerifierType(input);
+    const verifier = verifiers.get(type);
+    if (!verifier) {
+        return { verifier: type, status: GroundTruthStatus.Error, expected: input.reference, detail: `No verifier registered for ${type}` };
+    }
+    try {
+        return await verifier.verify(input);
+    } catch (error: any) {
+        return { verifier: type, status: GroundTruthStatus.Error, expected: input.reference, detail: error?.message || String(error) };
+    }
+}
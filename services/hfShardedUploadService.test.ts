@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { StorageMode } from '../interfaces/enums/StorageMode';
+import { SplitStratifyBy } from '../interfaces/enums';
+import type { SynthLogItem } from '../interfaces/models/SynthLogItem';
+
+const hub = vi.hoisted(() => ({
+    uploaded: [] as string[],
+    existing: [] as string[],
+    commits: [] as { title: string; operations: { operation: string; path: string }[] }[]
+}));
+const pages = vi.hoisted(() => ({ logs: [] as Partial<SynthLogItem>[] }));
+
+vi.mock('@huggingface/hub', () => ({
+    uploadFile: vi.fn(async ({ file }: { file: { path: string } }) => { hub.uploaded.push(file.path); }),
+    listFiles: vi.fn(async function* () {
+        for (const path of new Set([...hub.existing, ...hub.uploaded])) yield { type: 'file', path };
+    }),
+    commit: vi.fn(async (params: { title: string; operations: { operation: string; path: string }[] }) => { hub.commits.push(params); })
+}));
+vi.mock('./huggingFaceService', () => ({
+    ensureDatasetRepo: vi.fn(async () => undefined),
+    buildDataBlob: vi.fn(async (rows: unknown[]) => new Blob([JSON.stringify(rows)]))
+}));
+// Pages of two logs, the cursor being the index of the next log
+vi.mock('./backendClient', () => ({
+    fetchLogsPage: vi.fn(async (_sessionUid: string, _limit: number, cursor: number | null) => {
+        const start = cursor ?? 0;
+        const logs = pages.logs.slice(start, start + 2);
+        const next = start + logs.length;
+        return { logs, hasMore: next < pages.logs.length, nextCursorCreatedAt: next };
+    })
+}));
+
+const { getShardedUploadState, uploadSessionShardsToHuggingFace } = await import('./hfShardedUploadService');
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+    removeItem: (key: string) => { storage.delete(key); }
+});
+
+const baseOptions = {
+    token: 'hf_token',
+    repoId: 'me/data',
+    sessionUid: 'session-1',
+    storageMode: StorageMode.Cloud,
+    format: 'jsonl' as const,
+    mapRow: (log: SynthLogItem) => ({ query: log.query }),
+    // Every page fills a shard
+    maxShardBytes: 1
+};
+
+describe('uploadSessionShardsToHuggingFace', () => {
+    beforeEach(() => {
+        hub.uploaded = [];
+        hub.existing = [];
+        hub.commits = [];
+        storage.clear();
+        pages.logs = Array.from({ length: 6 }, (_, i) => ({ id: `log-${i}`, query: `q${i}`, score: 5 }));
+    });
+
+    it('uploads one shard per page and removes shards left by an earlier, larger upload', async () => {
+        hub.existing = ['data/train-00000.jsonl', 'data/train-00007.jsonl', 'data/notes.txt'];
+        const result = await uploadSessionShardsToHuggingFace(baseOptions);
+
+        expect(result).toMatchObject({ shards: 3, rows: 6, resumed: false });
+        expect(hub.uploaded).toEqual(['data/train-00000.jsonl', 'data/train-00001.jsonl', 'data/train-00002.jsonl']);
+        expect(hub.commits).toHaveLength(1);
+        expect(hub.commits[0].operations).toEqual([{ operation: 'delete', path: 'data/train-00007.jsonl' }]);
+        expect(getShardedUploadState('me/data', 'session-1', 'jsonl')).toBeNull();
+    });
+
+    it('splits the whole session at once and writes the card for the shard globs', async () => {
+        pages.logs[4].isDiscarded = true;
+        const buildCard = vi.fn(() => 'card');
+        await uploadSessionShardsToHuggingFace({
+            ...baseOptions,
+            splits: { config: { train: 1, validation: 0, test: 1, seed: 42, stratifyBy: SplitStratifyBy.None }, getStratum: () => '' },
+            buildCard
+        });
+
+        const [files, stats] = buildCard.mock.calls[0] as unknown as [{ split: string; path: string; rows: number }[], { rows: number }];
+        expect(files).toEqual([
+            { split: 'train', path: 'data/train-*.jsonl', rows: 3 },
+            { split: 'test', path: 'data/test-*.jsonl', rows: 2 }
+        ]);
+        expect(stats.rows).toBe(5);
+        expect(hub.uploaded.every(path => /^data\/(train|test)-0000[0-2]\.jsonl$/.test(path))).toBe(true);
+        expect(hub.commits[0].operations).toEqual([expect.objectContaining({ operation: 'addOrUpdate', path: 'README.md' })]);
+    });
+
+    it('resumes after the last saved shard and keeps the shards it already wrote', async () => {
+        storage.set('synth_hf_shard_upload_me/data_session-1_jsonl', JSON.stringify({
+            nextShard: 1, cursor: 2, rowsUploaded: 2, paths: ['data/train-00000.jsonl'], splitKey: '', updatedAt: 0
+        }));
+        hub.existing = ['data/train-00000.jsonl'];
+        const result = await uploadSessionShardsToHuggingFace(baseOptions);
+
+        expect(result).toMatchObject({ shards: 3, rows: 6, resumed: true });
+        expect(hub.uploaded).toEqual(['data/train-00001.jsonl', 'data/train-00002.jsonl']);
+        expect(hub.commits).toEqual([]);
+    });
+
+    it('starts over when the split settings changed since the saved progress', async () => {
+        storage.set('synth_hf_shard_upload_me/data_session-1_jsonl', JSON.stringify({
+            nextShard: 1, cursor: 2, rowsUploaded: 2, paths: ['data/train-00000.jsonl'], splitKey: 'other', updatedAt: 0
+        }));
+        const result = await uploadSessionShardsToHuggingFace(baseOptions);
+        expect(result).toMatchObject({ shards: 3, rows: 6, resumed: false });
+    });
+});
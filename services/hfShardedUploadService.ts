@@ -0,0 +1,321 @@
+/**
+ * Streaming HF upload for sessions too large to hold in memory: logs are read page by page
+ * (IndexedDB or backend), packed into size-bounded shards, and each shard is committed on its own.
+ * Progress is saved after every shard, so a failed upload resumes where it stopped.
+ * A first pass over the session assigns splits and collects the dataset card stats; the last
+ * commit writes the card and removes shards an earlier, larger upload left behind.
+ */
+
+import { commit, listFiles, uploadFile, type CommitOperation } from "@huggingface/hub";
+import type { DatasetSplitConfig } from '../interfaces/config/DatasetSplitConfig';
+import { StorageMode } from '../interfaces/enums/StorageMode';
+import type { SynthLogItem } from '../interfaces/models/SynthLogItem';
+import { createDatasetCardStatsCollector, type DatasetCardFile, type DatasetCardStats } from '../utils/datasetCard';
+import { splitDataset } from '../utils/datasetSplit';
+import { logger } from '../utils/logger';
+import { fetchLogsPage } from './backendClient';
+import { buildDataBlob, ensureDatasetRepo } from './huggingFaceService';
+import { LogStorageService, type LogPosition } from './logStorageService';
+
+const STATE_KEY_PREFIX = 'synth_hf_shard_upload_';
+const PAGE_SIZE = 200;
+const DEFAULT_MAX_SHARD_BYTES = 64 * 1024 * 1024;
+const MAX_SHARD_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+const SHARD_PATH_PATTERN = /^data\/[^/]+-\d{5}\.(jsonl|parquet)$/;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+type PageCursor = string | number | LogPosition | null;
+
+export interface ShardedUploadState {
+    /** Index of the next shard round; each round writes one file per split that has rows */
+    nextShard: number;
+    /** Read position after the last uploaded shard: log position (local) or createdAt cursor (backend) */
+    cursor: PageCursor;
+    rowsUploaded: number;
+    /** Files written so far; other shard files in the repo are removed at the end */
+    paths: string[];
+    /** Split settings the upload started with; an upload with other settings starts over */
+    splitKey: string;
+    updatedAt: number;
+}
+
+export interface ShardedUploadProgress {
+    shard: number;
+    rowsUploaded: number;
+    /** Rows read into the shard being built */
+    pendingRows: number;
+    retrying: boolean;
+}
+
+export interface ShardedUploadOptions {
+    token: string;
+    repoId: string;
+    sessionUid: string;
+    storageMode: StorageMode;
+    /** Maps each log to its output row; logs mapped to null are skipped */
+    mapRow: (log: SynthLogItem) => Record<string, unknown> | null;
+    privateRepo?: boolean;
+    format?: 'jsonl' | 'parquet';
+    /** Split every row goes to when `splits` is not set */
+    split?: string;
+    /** Train/validation/test assignment, same as the in-memory export for the same rows */
+    splits?: {
+        config: Pick<DatasetSplitConfig, 'train' | 'validation' | 'test' | 'seed' | 'stratifyBy'>;
+        getStratum: (log: SynthLogItem) => string;
+    };
+    /** README.md written with the last commit; omitted when not set */
+    buildCard?: (files: DatasetCardFile[], stats: DatasetCardStats) => string;
+    /** Serialized size a shard is flushed at (JSON length, approximate for parquet) */
+    maxShardBytes?: number;
+    onProgress?: (progress: ShardedUploadProgress) => void;
+}
+
+export interface ShardedUploadResult {
+    url: string;
+    shards: number;
+    rows: number;
+    resumed: boolean;
+}
+
+const getStateKey = (repoId: string, sessionUid: string, format: string) =>
+    `${STATE_KEY_PREFIX}${repoId}_${sessionUid}_${format}`;
+
+export const getShardedUploadState = (repoId: string, sessionUid: string, format: 'jsonl' | 'parquet'): ShardedUploadState | null => {
+    try {
+        const raw = localStorage.getItem(getStateKey(repoId, sessionUid, format));
+        return raw ? JSON.parse(raw) as ShardedUploadState : null;
+    } catch {
+        return null;
+    }
+};
+
+export const clearShardedUploadState = (repoId: string, sessionUid: string, format: 'jsonl' | 'parquet') => {
+    localStorage.removeItem(getStateKey(repoId, sessionUid, format));
+};
+
+const saveState = (key: string, state: ShardedUploadState) => {
+    localStorage.setItem(key, JSON.stringify(state));
+};
+
+/** Shard path; the `<split>-*` naming lets the Hub detect the split without a dataset card */
+export const getShardPath = (split: string, shard: number, format: 'jsonl' | 'parquet') =>
+    `data/${split}-${String(shard).padStart(5, '0')}.${format}`;
+
+/** Glob matching every shard of a split, as used in the dataset card */
+const getShardGlob = (split: string, format: 'jsonl' | 'parquet') => `data/${split}-*.${format}`;
+
+const readPage = async (
+    sessionUid: string,
+    storageMode: StorageMode,
+    cursor: PageCursor
+): Promise<{ logs: SynthLogItem[]; next: PageCursor; done: boolean }> => {
+    if (storageMode === StorageMode.Cloud) {
+        const page = await fetchLogsPage(sessionUid, PAGE_SIZE, cursor as string | number | null, true);
+        const next = page.nextCursorCreatedAt ?? null;
+        return { logs: page.logs as SynthLogItem[], next, done: !page.hasMore || next === null };
+    }
+    const logs: SynthLogItem[] = [];
+    const last = await LogStorageService.iterateLogs(sessionUid, log => { logs.push(log); }, { after: cursor as LogPosition | null, limit: PAGE_SIZE });
+    return { logs, next: last, done: logs.length < PAGE_SIZE };
+};
+
+/**
+ * Read the whole session once: the split of every uploaded row, rows per split and card stats.
+ * Rows are split together, so the assignment does not depend on where an upload resumes.
+ */
+const scanSession = async (
+    options: ShardedUploadOptions,
+    isUploaded: (log: SynthLogItem) => boolean
+): Promise<{ splitOf: (log: SynthLogItem) => string; rowsBySplit: Record<string, number>; stats: DatasetCardStats }> => {
+    const { sessionUid, storageMode, splits, split = 'train' } = options;
+    const entries: { id: string; stratum: string }[] = [];
+    const stats = createDatasetCardStatsCollector();
+
+    let cursor: PageCursor = null;
+    for (let done = false; !done;) {
+        const page = await readPage(sessionUid, storageMode, cursor);
+        page.logs.forEach(log => {
+            if (!isUploaded(log)) return;
+            entries.push({ id: log.id, stratum: splits ? splits.getStratum(log) : '' });
+            stats.add(log);
+        });
+        cursor = page.next;
+        done = page.done;
+    }
+
+    if (!splits) {
+        return { splitOf: () => split, rowsBySplit: entries.length > 0 ? { [split]: entries.length } : {}, stats: stats.result() };
+    }
+    const splitById = new Map<string, string>();
+    const rowsBySplit: Record<string, number> = {};
+    Object.entries(splitDataset(entries, splits.config, entry => entry.stratum)).forEach(([name, members]) => {
+        members?.forEach(entry => splitById.set(entry.id, name));
+        rowsBySplit[name] = members?.length || 0;
+    });
+    return { splitOf: log => splitById.get(log.id) || split, rowsBySplit, stats: stats.result() };
+};
+
+/** Shard files in the repo that this upload did not write, e.g. the tail of an earlier, larger upload */
+const findStaleShards = async (options: ShardedUploadOptions, written: Set<string>): Promise<string[]> => {
+    const stale: string[] = [];
+    for await (const file of listFiles({
+        repo: { type: "dataset", name: options.repoId },
+        credentials: { accessToken: options.token },
+        path: 'data'
+    })) {
+        if (file.type === 'file' && SHARD_PATH_PATTERN.test(file.path) && !written.has(file.path)) {
+            stale.push(file.path);
+        }
+    }
+    return stale;
+};
+
+const uploadShard = async (
+    options: ShardedUploadOptions,
+    path: string,
+    content: Blob,
+    onRetry: () => void
+) => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            await uploadFile({
+                repo: { type: "dataset", name: options.repoId },
+                credentials: { accessToken: options.token },
+                file: { path, content },
+                commitTitle: `Upload ${path} via SynthLabs`
+            });
+            return;
+        } catch (e: any) {
+            if (attempt >= MAX_SHARD_ATTEMPTS) throw e;
+            logger.warn(`Shard ${path} failed (attempt ${attempt}/${MAX_SHARD_ATTEMPTS}), retrying:`, e);
+            onRetry();
+            await sleep(RETRY_DELAY_MS * attempt);
+        }
+    }
+};
+
+/**
+ * Upload a whole session as sharded files, resuming from saved progress when present.
+ *
+ * @throws Error when a shard still fails after retries; progress up to the previous shard is kept
+ */
+export const uploadSessionShardsToHuggingFace = async (options: ShardedUploadOptions): Promise<ShardedUploadResult> => {
+    const {
+        repoId,
+        sessionUid,
+        storageMode,
+        mapRow,
+        privateRepo = true,
+        format = 'parquet',
+        splits,
+        buildCard,
+        maxShardBytes = DEFAULT_MAX_SHARD_BYTES,
+        onProgress
+    } = options;
+
+    const stateKey = getStateKey(repoId, sessionUid, format);
+    const splitKey = splits
+        ? JSON.stringify([splits.config.train, splits.config.validation, splits.config.test, splits.config.seed, splits.config.stratifyBy])
+        : '';
+    const stored = getShardedUploadState(repoId, sessionUid, format);
+    const saved = stored && stored.splitKey === splitKey && Array.isArray(stored.paths) ? stored : null;
+    let state: ShardedUploadState = saved || { nextShard: 0, cursor: null, rowsUploaded: 0, paths: [], splitKey, updatedAt: Date.now() };
+    if (saved) {
+        logger.log(`Resuming sharded upload of ${sessionUid} at shard ${saved.nextShard} (${saved.rowsUploaded} rows done)`);
+    }
+
+    await ensureDatasetRepo(repoId, { accessToken: options.token }, privateRepo);
+
+    const isUploaded = (log: SynthLogItem) => !log.isError && !log.isDiscarded && mapRow(log) !== null;
+    const { splitOf, rowsBySplit, stats } = await scanSession(options, isUploaded);
+
+    let cursor = state.cursor;
+    let pending = new Map<string, Record<string, unknown>[]>();
+    let pendingRows = 0;
+    let bytes = 0;
+    let done = false;
+
+    const report = (retrying = false) => onProgress?.({
+        shard: state.nextShard,
+        rowsUploaded: state.rowsUploaded,
+        pendingRows,
+        retrying
+    });
+
+    // One file per split per round; a failed round is uploaded again in full on resume
+    const flush = async () => {
+        const paths: string[] = [];
+        for (const [split, rows] of pending) {
+            const path = getShardPath(split, state.nextShard, format);
+            logger.log(`Uploading ${path} (${rows.length} rows) to ${repoId}...`);
+            const blob = await buildDataBlob(rows, format);
+            await uploadShard(options, path, blob, () => report(true));
+            paths.push(path);
+        }
+        state = {
+            nextShard: state.nextShard + 1,
+            cursor,
+            rowsUploaded: state.rowsUploaded + pendingRows,
+            paths: [...state.paths, ...paths],
+            splitKey,
+            updatedAt: Date.now()
+        };
+        saveState(stateKey, state);
+        pending = new Map();
+        pendingRows = 0;
+        bytes = 0;
+        report();
+    };
+
+    // Shards are cut on page boundaries so the saved cursor always marks a clean restart point
+    while (!done) {
+        const page = await readPage(sessionUid, storageMode, cursor);
+        page.logs.forEach(log => {
+            if (log.isError || log.isDiscarded) return;
+            const row = mapRow(log);
+            if (!row) return;
+            const split = splitOf(log);
+            const rows = pending.get(split);
+            if (rows) rows.push(row);
+            else pending.set(split, [row]);
+            pendingRows++;
+            bytes += JSON.stringify(row).length;
+        });
+        cursor = page.next;
+        done = page.done;
+        report();
+        if (pendingRows > 0 && (bytes >= maxShardBytes || done)) {
+            await flush();
+        }
+    }
+
+    if (state.nextShard === 0) {
+        throw new Error("No data to upload.");
+    }
+
+    const stale = await findStaleShards(options, new Set(state.paths));
+    const operations: CommitOperation[] = stale.map(path => ({ operation: 'delete', path }));
+    if (buildCard) {
+        const files = Object.entries(rowsBySplit).map(([split, rows]) => ({ split, path: getShardGlob(split, format), rows }));
+        operations.push({ operation: 'addOrUpdate', path: 'README.md', content: new Blob([buildCard(files, stats)], { type: 'text/markdown' }) });
+    }
+    if (operations.length > 0) {
+        logger.log(`Writing dataset card and removing ${stale.length} stale shards in ${repoId}...`);
+        await commit({
+            repo: { type: "dataset", name: repoId },
+            credentials: { accessToken: options.token },
+            title: stale.length > 0 ? `Remove ${stale.length} stale shards via SynthLabs` : 'Update dataset card via SynthLabs',
+            operations
+        });
+    }
+    clearShardedUploadState(repoId, sessionUid, format);
+
+    return {
+        url: `https://huggingface.co/datasets/${repoId}`,
+        shards: state.nextShard,
+        rows: state.rowsUploaded,
+        resumed: !!saved
+    };
+};
@@ -1,7 +1,10 @@
 
-import { HuggingFaceConfig } from "../types";
-import { createRepo, uploadFile } from "@huggingface/hub";
+import { ExportTemplate, HuggingFaceConfig } from "../types";
+import { createRepo, uploadFile, uploadFiles } from "@huggingface/hub";
 import { logger } from '../utils/logger';
+import { applyExportTemplate } from '../utils/exportTemplate';
+import { buildSplitDatasetCard, type DatasetCardFile } from '../utils/datasetCard';
+import type { DatasetSplits } from '../utils/datasetSplit';
 
 const MAX_BATCH_SIZE = 100;
 const MAX_CONCURRENT_FETCHES = 3;
@@ -207,30 +210,11 @@ export const generateParquetBuffer = async (data: any[]): Promise<Uint8Array> =>
     }
 };
 
-/**
- * Pushes data to Hugging Face Hub using the @huggingface/hub library.
- */
-export const uploadToHuggingFace = async (
-    token: string,
-    repoId: string,
-    data: any[],
-    filename: string = 'data.jsonl',
-    privateRepo: boolean = true,
-    format: 'jsonl' | 'parquet' = 'jsonl'
-): Promise<string> => {
-
-    if (!data || data.length === 0) {
-        throw new Error("No data to upload.");
-    }
-
-    const credentials = { accessToken: token };
-    const repo = { type: "dataset" as const, name: repoId };
-
-    // 1. Create Repo (Idempotent-ish)
+export const ensureDatasetRepo = async (repoId: string, credentials: { accessToken: string }, privateRepo: boolean) => {
     try {
         logger.log(`Creating repo ${repoId} if needed...`);
         await createRepo({
-            repo,
+            repo: { type: "dataset", name: repoId },
             credentials,
             private: privateRepo
         });
@@ -240,30 +224,74 @@ export const uploadToHuggingFace = async (
             logger.warn("Repo creation warning:", e);
         }
     }
+};
 
-    // 2. Prepare Data Content
-    let blob: Blob;
-    let finalFilename = filename;
-
+export const buildDataBlob = async (data: any[], format: 'jsonl' | 'parquet'): Promise<Blob> => {
     logger.log(`Preparing content in format: ${format}`);
 
     if (format === 'parquet') {
         try {
             const parquetBytes = await generateParquetBuffer(data);
-            blob = new Blob([parquetBytes.buffer as ArrayBuffer], { type: 'application/octet-stream' });
-            if (!finalFilename.endsWith('.parquet')) finalFilename = finalFilename.replace(/\.jsonl$/, '') + '.parquet';
+            return new Blob([parquetBytes.buffer as ArrayBuffer], { type: 'application/octet-stream' });
         } catch (e: any) {
             throw new Error("Parquet conversion failed: " + e.message);
         }
-    } else {
-        // JSONL
-        const jsonlData = data.map(item => JSON.stringify(item)).join('\n');
-        blob = new Blob([jsonlData], { type: 'application/json' });
     }
+    // JSONL
+    const jsonlData = data.map(item => JSON.stringify(item)).join('\n');
+    return new Blob([jsonlData], { type: 'application/json' });
+};
+
+/**
+ * Pushes data to Hugging Face Hub using the @huggingface/hub library.
+ * When a template is given, each row is mapped through it before conversion.
+ * When a card is given, it is committed as README.md alongside the data.
+ */
+export const uploadToHuggingFace = async (
+    token: string,
+    repoId: string,
+    rows: any[],
+    filename: string = 'data.jsonl',
+    privateRepo: boolean = true,
+    format: 'jsonl' | 'parquet' = 'jsonl',
+    template?: ExportTemplate,
+    card?: string
+): Promise<string> => {
+
+    if (!rows || rows.length === 0) {
+        throw new Error("No data to upload.");
+    }
+    const data = template ? rows.map(row => applyExportTemplate(row, template)) : rows;
+
+    const credentials = { accessToken: token };
+    const repo = { type: "dataset" as const, name: repoId };
+
+    // 1. Create Repo (Idempotent-ish)
+    await ensureDatasetRepo(repoId, credentials, privateRepo);
+
+    // 2. Prepare Data Content
+    let finalFilename = filename;
+    if (format === 'parquet' && !finalFilename.endsWith('.parquet')) {
+        finalFilename = finalFilename.replace(/\.jsonl$/, '') + '.parquet';
+    }
+    const blob = await buildDataBlob(data, format);
 
     // 3. Upload File
     logger.log(`Uploading ${finalFilename} to ${repoId}...`);
 
+    if (card) {
+        await uploadFiles({
+            repo,
+            credentials,
+            files: [
+                { path: finalFilename, content: blob },
+                { path: 'README.md', content: new Blob([card], { type: 'text/markdown' }) }
+            ],
+            commitTitle: `Upload ${finalFilename} and dataset card via SynthLabs (${format})`
+        });
+        return `https://huggingface.co/datasets/${repoId}`;
+    }
+
     await uploadFile({
         repo,
         credentials,
@@ -277,3 +305,52 @@ export const uploadToHuggingFace = async (
 
     return `https://huggingface.co/datasets/${repoId}`;
 };
+
+/** Paths the split upload writes each split to */
+export const getSplitFilePath = (split: string, format: 'jsonl' | 'parquet') => `data/${split}.${format}`;
+
+/**
+ * Pushes each split as `data/<split>.<format>` plus a README.md dataset card, in one commit.
+ * When a template is given, each row is mapped through it before conversion.
+ * Without a card, a minimal one listing the split files is generated.
+ */
+export const uploadSplitsToHuggingFace = async (
+    token: string,
+    repoId: string,
+    splits: DatasetSplits<any>,
+    privateRepo: boolean = true,
+    format: 'jsonl' | 'parquet' = 'jsonl',
+    template?: ExportTemplate,
+    card?: string
+): Promise<string> => {
+    const entries = Object.entries(splits).filter(([, rows]) => rows && rows.length > 0) as [string, any[]][];
+    if (entries.length === 0) {
+        throw new Error("No data to upload.");
+    }
+
+    const credentials = { accessToken: token };
+    await ensureDatasetRepo(repoId, credentials, privateRepo);
+
+    const cardFiles: DatasetCardFile[] = [];
+    const files: { path: string; content: Blob }[] = [];
+    for (const [split, rows] of entries) {
+        const path = getSplitFilePath(split, format);
+        const data = template ? rows.map(row => applyExportTemplate(row, template)) : rows;
+        files.push({ path, content: await buildDataBlob(data, format) });
+        cardFiles.push({ split, path, rows: rows.length });
+    }
+    files.push({
+        path: 'README.md',
+        content: new Blob([card || buildSplitDatasetCard(repoId, cardFiles)], { type: 'text/markdown' })
+    });
+
+    logger.log(`Uploading ${cardFiles.map(f => f.path).join(', ')} to ${repoId}...`);
+    await uploadFiles({
+        repo: { type: "dataset", name: repoId },
+        credentials,
+        files,
+        commitTitle: `Upload ${cardFiles.map(f => f.split).join('/')} splits via SynthLabs (${format})`
+    });
+
+    return `https://huggingface.co/datasets/${repoId}`;
+};
@@ -0,0 +1,79 @@
+import { ProviderType } from '../interfaces/enums';
+import { SettingsService, type StepModelConfig } from './settingsService';
+import { encryptKey } from '../utils/keyEncryption';
+
+/** A judge as sent to the backend autoscore job; keys travel separately per provider */
+export interface BackendJudge {
+  provider: string;
+  model: string;
+  baseUrl: string;
+  generationParams?: Record<string, unknown>;
+  /** Tried in order when the judge model fails */
+  fallbacks?: Array<{ provider: string; model: string; baseUrl: string }>;
+}
+
+/**
+ * Resolve the provider string used for keys, URLs and judge labels
+ *
+ * @param judge - Judge model configuration
+ * @returns External provider id, or 'gemini' for the native provider
+ */
+export function getJudgeProvider(judge: Pick<StepModelConfig, 'provider' | 'externalProvider'>): string {
+  return judge.provider === ProviderType.External ? judge.externalProvider : 'gemini';
+}
+
+/**
+ * Convert configured judges into backend payloads, dropping judges without a model
+ *
+ * @param judges - Judge model configurations from the autoscore config
+ * @returns Judges with resolved base URLs
+ */
+export function toBackendJudges(judges: StepModelConfig[]): BackendJudge[] {
+  return judges
+    .filter(judge => judge.model.trim() !== '')
+    .map(judge => {
+      const provider = getJudgeProvider(judge);
+      return {
+        provider,
+        model: judge.model.trim(),
+        baseUrl: SettingsService.getProviderUrl(provider),
+        generationParams: judge.generationParams as Record<string, unknown> | undefined,
+        fallbacks: judge.fallbacks
+          ?.filter(fallback => fallback.model.trim() !== '')
+          .map(fallback => ({
+            provider: fallback.provider,
+            model: fallback.model.trim(),
+            baseUrl: fallback.customBaseUrl || SettingsService.getProviderUrl(fallback.provider)
+          }))
+      };
+    });
+}
+
+/**
+ * Providers whose keys the judges need, fallback models included
+ *
+ * @param judges - Backend judge payloads
+ * @returns Provider ids (may contain duplicates)
+ */
+export const getJudgeKeyProviders = (judges: BackendJudge[]): string[] =>
+  judges.flatMap(judge => [judge.provider, ...(judge.fallbacks || []).map(fallback => fallback.provider)]);
+
+/**
+ * Encrypt the stored API key of every provider used by the judges
+ *
+ * @param providers - Provider ids (duplicates allowed)
+ * @returns Encrypted keys by provider, plus the providers that have no key configured
+ */
+export async function encryptJudgeApiKeys(providers: string[]): Promise<{ judgeApiKeys: Record<string, string>; missing: string[] }> {
+  const judgeApiKeys: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const provider of new Set(providers)) {
+    const apiKey = SettingsService.getApiKey(provider);
+    if (apiKey) {
+      judgeApiKeys[provider] = await encryptKey(apiKey);
+    } else if (provider !== 'ollama') {
+      missing.push(provider);
+    }
+  }
+  return { judgeApiKeys, missing };
+}
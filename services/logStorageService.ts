@@ -18,6 +18,12 @@ type StoredLogRecord = Omit<SynthLogItem, 'timestamp'> & {
     timestamp?: number | string;
 };
 
+/** Read position in a session's timestamp order; the id breaks ties between equal timestamps */
+export interface LogPosition {
+    timestamp: number;
+    id: string;
+}
+
 const readLegacySessionLogs = (sessionUid: string): SynthLogItem[] => {
     try {
         const indexKey = `${LEGACY_LOG_STORAGE_PREFIX}${sessionUid}_index`;
@@ -433,24 +439,43 @@ export const LogStorageService = {
     },
 
     // Iterate logs for a session without loading all into memory (oldest first)
-    iterateLogs: async (sessionUid: string, onItem: (log: SynthLogItem) => Promise<void> | void): Promise<void> => {
+    // Pass after/limit to read one window of the session; the returned position (last item read)
+    // is the `after` of the next window. onItem should not await network work, since the
+    // cursor's transaction closes once it goes idle.
+    iterateLogs: async (
+        sessionUid: string,
+        onItem: (log: SynthLogItem) => Promise<void> | void,
+        options: { after?: LogPosition | null; limit?: number } = {}
+    ): Promise<LogPosition | null> => {
         try {
             const db = await getDB();
             const tx = db.transaction(LOGS_STORE, 'readonly');
             const store = tx.objectStore(LOGS_STORE);
             const index = store.index('sessionTimestamp');
-            const range = IDBKeyRange.bound([sessionUid, 0], [sessionUid, Number.MAX_SAFE_INTEGER]);
+            const after = options.after ?? null;
+            const range = IDBKeyRange.bound([sessionUid, after ? after.timestamp : 0], [sessionUid, Number.MAX_SAFE_INTEGER]);
             const request = index.openCursor(range, 'next');
+            const limit = options.limit ?? Infinity;
+            let last = after;
+            let visited = 0;
 
             await new Promise<void>((resolve, reject) => {
                 request.onsuccess = () => {
                     const cursor = request.result;
-                    if (!cursor) {
+                    if (!cursor || visited >= limit) {
                         resolve();
                         return;
                     }
-
                     const { sessionUid: _s, timestamp: _t, ...log } = cursor.value as (SynthLogItem & { sessionUid: string; timestamp: number });
+
+                    // Logs sharing the resume timestamp come in id order; skip the ones already read
+                    if (after && _t === after.timestamp && indexedDB.cmp(cursor.primaryKey, [sessionUid, after.id]) <= 0) {
+                        cursor.continue();
+                        return;
+                    }
+                    visited++;
+                    last = { timestamp: _t, id: log.id };
+
                     const logItem: SynthLogItem = {
                         ...log,
                         timestamp: _t ? new Date(_t).toISOString() : new Date().toISOString()
@@ -462,6 +487,7 @@ export const LogStorageService = {
                 };
                 request.onerror = () => reject(request.error);
             });
+            return last;
         } catch (e) {
             console.error('IndexedDB iterateLogs failed:', e);
             throw e;
@@ -0,0 +1,141 @@
+import type { AutoscoreConfig, PreferenceCandidate, PreferenceVariant, VerifierItem } from '../types';
+import { PromptCategory, PromptRole, ProviderType, ResponsesSchemaName } from '../interfaces/enums';
+import * as ExternalApiService from './externalApiService';
+import * as GeminiService from './geminiService';
+import { SettingsService } from './settingsService';
+import { PromptService } from './promptService';
+import { PROVIDERS } from '../constants';
+import { extractJsonFields } from '../utils/jsonFieldExtractor';
+import { sanitizeReasoningContent } from '../utils/thinkTagParser';
+import {
+  buildPreferenceJudgePrompt,
+  getPreferencePrompt,
+  parsePreferenceJudgeResponse,
+  PREFERENCE_JUDGE_SYSTEM_PROMPT,
+  type PreferenceJudgement
+} from '../utils/preferencePairs';
+
+const createCandidateId = () => `cand-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Wrap the item's current answer as a candidate
+ *
+ * @param item - Verifier item
+ * @returns Candidate marked as original, or null when the item has no answer
+ */
+export function getOriginalCandidate(item: VerifierItem): PreferenceCandidate | null {
+  if (!item.answer) return null;
+  return {
+    id: 'original',
+    answer: item.answer,
+    reasoning: item.reasoning || undefined,
+    modelUsed: item.modelUsed || 'original',
+    isOriginal: true
+  };
+}
+
+/**
+ * Generate one candidate response for the item's prompt with the generator prompt of the variant's set
+ *
+ * @param item - Verifier item whose query (or seed) is the prompt
+ * @param variant - Model, temperature and prompt set to use
+ * @param signal - Optional abort signal
+ * @returns The generated candidate
+ */
+export async function generateCandidate(item: VerifierItem, variant: PreferenceVariant, signal?: AbortSignal): Promise<PreferenceCandidate> {
+  const promptSet = variant.promptSet || SettingsService.getSettings().promptSet || 'default';
+  const schema = PromptService.getPromptSchema(PromptCategory.Generator, PromptRole.System, promptSet);
+  const defaults = SettingsService.getDefaultGenerationParams();
+  const generationParams = variant.temperature !== undefined ? { ...defaults, temperature: variant.temperature } : defaults;
+  const prompt = getPreferencePrompt(item);
+
+  let result: unknown;
+  if (variant.provider !== ProviderType.External) {
+    result = await GeminiService.generateReasoningTrace(prompt, schema.prompt, { generationParams, model: variant.model });
+  } else {
+    result = await ExternalApiService.callExternalApi({
+      provider: variant.externalProvider,
+      apiKey: SettingsService.getApiKey(variant.externalProvider),
+      model: variant.model,
+      customBaseUrl: SettingsService.getProviderUrl(variant.externalProvider),
+      systemPrompt: schema.prompt,
+      userPrompt: prompt,
+      promptSchema: schema,
+      signal,
+      generationParams,
+      structuredOutput: generationParams.forceStructuredOutput ?? true,
+      responsesSchema: ResponsesSchemaName.ReasoningTrace,
+      // Candidates of one pair must differ, and a second pass asks for new ones
+      bypassCache: true
+    });
+  }
+
+  let reasoning = '';
+  let answer = '';
+  if (result && typeof result === 'object') {
+    const fields = result as Record<string, unknown>;
+    reasoning = typeof fields.reasoning === 'string' ? fields.reasoning : '';
+    answer = typeof fields.answer === 'string' ? fields.answer : '';
+  } else {
+    const extracted = extractJsonFields(String(result ?? ''));
+    reasoning = extracted.reasoning || '';
+    answer = extracted.answer || String(result ?? '');
+  }
+  if (!answer.trim()) {
+    throw new Error(`${variant.model} returned an empty answer`);
+  }
+
+  return {
+    id: createCandidateId(),
+    answer,
+    reasoning: sanitizeReasoningContent(reasoning) || undefined,
+    modelUsed: variant.model,
+    temperature: variant.temperature,
+    promptSet: variant.promptSet || undefined
+  };
+}
+
+/**
+ * Ask the autoscore model to pick the best and worst candidate
+ *
+ * @param item - Verifier item the candidates answer
+ * @param candidates - At least two candidates
+ * @param judgeConfig - Autoscore configuration used as the judge
+ * @param signal - Optional abort signal
+ * @returns Chosen/rejected candidate ids, or null when the judge response could not be parsed
+ */
+export async function judgeCandidates(
+  item: VerifierItem,
+  candidates: PreferenceCandidate[],
+  judgeConfig: AutoscoreConfig,
+  signal?: AbortSignal
+): Promise<PreferenceJudgement | null> {
+  const { provider, externalProvider, apiKey, model, customBaseUrl, maxRetries, retryDelay, generationParams } = judgeConfig;
+  const userPrompt = buildPreferenceJudgePrompt(getPreferencePrompt(item), candidates);
+
+  let raw: string;
+  if (provider !== ProviderType.External) {
+    raw = await GeminiService.generateNativeText(userPrompt, PREFERENCE_JUDGE_SYSTEM_PROMPT, {
+      maxRetries,
+      retryDelay,
+      generationParams: generationParams || SettingsService.getDefaultGenerationParams(),
+      model
+    });
+  } else {
+    const result = await ExternalApiService.callExternalApi({
+      provider: externalProvider,
+      apiKey: apiKey || SettingsService.getApiKey(externalProvider),
+      model,
+      customBaseUrl: customBaseUrl || PROVIDERS[externalProvider]?.url || '',
+      userPrompt: PREFERENCE_JUDGE_SYSTEM_PROMPT + '\n\n' + userPrompt,
+      signal,
+      maxRetries,
+      retryDelay,
+      structuredOutput: false,
+      generationParams: generationParams || SettingsService.getDefaultGenerationParams()
+    });
+    raw = typeof result === 'string' ? result : JSON.stringify(result);
+  }
+
+  return parsePreferenceJudgeResponse(raw, candidates);
+}
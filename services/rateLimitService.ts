@@ -0,0 +1,125 @@
+/**
+ * Provider rate limiting for browser API calls. With a backend connected, budgets come from the
+ * backend scheduler, so generation runs and backend jobs hitting the same key share them;
+ * otherwise a local scheduler paces the calls made from this tab.
+ */
+
+import { DEFAULT_RATE_LIMIT_CONFIG, type RateLimitConfig } from '../types';
+import { logger } from '../utils/logger';
+import { RateLimitScheduler, estimateRequestTokens, findRateLimitRule, parseRetryAfterMs } from '../utils/rateLimiter';
+import * as backendClient from './backendClient';
+import { SettingsService } from './settingsService';
+
+/** Budget taken for one call; settle it with releaseRateLimit or reportRateLimited */
+export interface RateLimitTicket {
+    provider: string;
+    model: string;
+    tokens: number;
+    /** Taken from the backend scheduler */
+    remote: boolean;
+}
+
+const getConfig = (): RateLimitConfig => ({ ...DEFAULT_RATE_LIMIT_CONFIG, ...SettingsService.getSettings().rateLimits });
+
+/** Limits of the rule covering the provider + model, or null when no rule limits it */
+const getLimits = (config: RateLimitConfig, provider: string, model: string) => {
+    const rule = findRateLimitRule(config.rules, provider, model);
+    return rule && (rule.rpm > 0 || rule.tpm > 0) ? { rpm: rule.rpm, tpm: rule.tpm } : null;
+};
+
+const localScheduler = new RateLimitScheduler((provider, model) => getLimits(getConfig(), provider, model));
+
+/** Rules last pushed to the backend, to skip pushes that change nothing */
+let syncedRules: string | null = null;
+
+/** Push the rules to the backend scheduler when they changed since the last push */
+export async function syncRateLimitsToBackend(config: RateLimitConfig = getConfig()): Promise<void> {
+    if (!backendClient.isBackendEnabled()) return;
+    const rules = config.enabled && config.shareWithBackend ? config.rules : [];
+    const serialized = JSON.stringify(rules);
+    if (serialized === syncedRules) return;
+    await backendClient.updateRateLimits(rules);
+    syncedRules = serialized;
+}
+
+/**
+ * Wait until the provider + model has budget for a call with this prompt
+ *
+ * @returns The ticket to settle after the call, or null when rate limiting is off or no rule covers the model
+ */
+export async function acquireRateLimit(
+    provider: string,
+    model: string,
+    promptText: string,
+    signal?: AbortSignal
+): Promise<RateLimitTicket | null> {
+    const config = getConfig();
+    // The backend only knows the rules synced from here, so an unlimited model needs no round trip
+    if (!config.enabled || !getLimits(config, provider, model)) return null;
+    const tokens = estimateRequestTokens(promptText);
+
+    if (config.shareWithBackend && backendClient.isBackendEnabled()) {
+        try {
+            await syncRateLimitsToBackend(config);
+            const { waitedMs } = await backendClient.acquireRateLimit({ provider, model, tokens }, signal);
+            if (waitedMs > 0) logger.log(`[rateLimit] ${provider}/${model} waited ${waitedMs}ms for backend budget`);
+            return { provider, model, tokens, remote: true };
+        } catch (err: any) {
+            if (err?.name === 'AbortError') throw err;
+            logger.warn('[rateLimit] Backend scheduler unavailable, pacing locally', err);
+        }
+    }
+
+    const waitedMs = await localScheduler.acquire(provider, model, tokens, signal);
+    if (waitedMs > 0) logger.log(`[rateLimit] ${provider}/${model} waited ${waitedMs}ms for budget`);
+    return { provider, model, tokens, remote: false };
+}
+
+/**
+ * Settle a call that succeeded (2xx), charging actual tokens when the response reported usage.
+ * Failed calls are not settled: they keep the estimate they reserved and leave any backoff in place.
+ */
+export function releaseRateLimit(ticket: RateLimitTicket | null, actualTokens?: number): void {
+    if (!ticket) return;
+    if (ticket.remote) {
+        backendClient.reportRateLimit({
+            provider: ticket.provider,
+            model: ticket.model,
+            outcome: 'success',
+            reservedTokens: ticket.tokens,
+            actualTokens
+        }).catch(err => logger.warn('[rateLimit] Failed to report usage to backend', err));
+        return;
+    }
+    localScheduler.recordSuccess(ticket.provider, ticket.model, ticket.tokens, actualTokens);
+}
+
+/**
+ * Record a 429. With a ticket the scheduler pauses the key, so the next acquire waits;
+ * without one (or when the backend cannot be told) the caller sleeps for the returned delay.
+ *
+ * @param fallbackDelayMs - Backoff used when the response carries no Retry-After
+ * @returns Milliseconds the caller should sleep before retrying
+ */
+export async function reportRateLimited(ticket: RateLimitTicket | null, headers: Headers, fallbackDelayMs: number): Promise<number> {
+    const retryAfterMs = parseRetryAfterMs(headers);
+    if (!ticket) return retryAfterMs ?? fallbackDelayMs;
+
+    if (ticket.remote) {
+        try {
+            await backendClient.reportRateLimit({
+                provider: ticket.provider,
+                model: ticket.model,
+                outcome: 'limited',
+                retryAfterMs,
+                fallbackDelayMs
+            });
+            return 0;
+        } catch (err) {
+            logger.warn('[rateLimit] Failed to report 429 to backend', err);
+            return retryAfterMs ?? fallbackDelayMs;
+        }
+    }
+    localScheduler.recordRateLimited(ticket.provider, ticket.model, retryAfterMs, fallbackDelayMs);
+    return 0;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ExternalProvider } from '../types';
+import type { ExternalApiConfig } from './api/schemas';
+
+vi.mock('./settingsService', () => ({ SettingsService: { getSettings: () => ({}) } }));
+
+const { buildExternalCallCacheKey } = await import('./responseCacheService');
+
+const base: ExternalApiConfig = {
+    provider: ExternalProvider.OpenAI,
+    apiKey: 'key',
+    model: 'gpt-test',
+    systemPrompt: 'system',
+    userPrompt: 'question',
+    generationParams: { temperature: 0.7 }
+};
+
+describe('buildExternalCallCacheKey', () => {
+    it('ignores delivery options', async () => {
+        const key = await buildExternalCallCacheKey(base);
+        expect(key).toMatch(/^[0-9a-f]{64}$/);
+        expect(await buildExternalCallCacheKey({
+            ...base,
+            apiKey: 'other-key',
+            stream: true,
+            maxRetries: 5,
+            retryDelay: 0,
+            signal: new AbortController().signal,
+            bypassCache: true
+        })).toBe(key);
+    });
+
+    it('changes with the prompt, model, params and variant', async () => {
+        const key = await buildExternalCallCacheKey(base);
+        const variants: Partial<ExternalApiConfig>[] = [
+            { userPrompt: 'other question' },
+            { model: 'gpt-other' },
+            { generationParams: { temperature: 0.8 } },
+            { cacheVariant: 1 },
+            { messages: [{ role: 'user', content: 'question' }] as ExternalApiConfig['messages'] }
+        ];
+        const keys = await Promise.all(variants.map(change => buildExternalCallCacheKey({ ...base, ...change })));
+        expect(new Set([key, ...keys]).size).toBe(variants.length + 1);
+    });
+
+    it('keys custom endpoints by their URL and known providers by theirs', async () => {
+        const other = { ...base, provider: ExternalProvider.Other };
+        expect(await buildExternalCallCacheKey({ ...other, customBaseUrl: 'http://a/v1' }))
+            .not.toBe(await buildExternalCallCacheKey({ ...other, customBaseUrl: 'http://b/v1' }));
+        expect(await buildExternalCallCacheKey({ ...base, customBaseUrl: 'http://a/v1' }))
+            .toBe(await buildExternalCallCacheKey(base));
+    });
+});
@@ -0,0 +1,209 @@
+/**
+ * Content-addressed cache of model responses for browser calls. The key hashes everything that
+ * shapes the answer (provider, endpoint, model, messages, generation params), so re-running a
+ * session or replaying an item does not pay again for calls it already made. Entries live in
+ * IndexedDB; the backend keeps its own cache for jobs, configured from the same settings.
+ */
+
+import { PROVIDERS } from '../constants';
+import { ApiType, DEFAULT_RESPONSE_CACHE_CONFIG, ExternalProvider, type ResponseCacheConfig, type UsageData } from '../types';
+import { logger } from '../utils/logger';
+import type { ExternalApiConfig } from './api/schemas';
+import { SettingsService } from './settingsService';
+
+const DB_NAME = 'SynthLabsResponseCacheDB';
+const STORE_NAME = 'responses';
+const DB_VERSION = 1;
+
+export interface CachedResponse {
+    /** What the call returned: raw text, or the parsed object for structured output */
+    result: any;
+    usage?: UsageData;
+    provider: string;
+    model: string;
+}
+
+interface StoredResponse extends CachedResponse {
+    key: string;
+    createdAt: number;
+    /** 0 = never expires */
+    expiresAt: number;
+}
+
+export interface ResponseCacheStats {
+    hits: number;
+    misses: number;
+    writes: number;
+    bypassed: number;
+    /** List price of the calls answered from the cache */
+    savedCost: number;
+    entries: number;
+}
+
+/** Cache settings sent with backend jobs */
+export interface BackendCacheParams {
+    enabled: boolean;
+    bypass: boolean;
+    ttlMs: number;
+}
+
+export const getResponseCacheConfig = (): ResponseCacheConfig => ({ ...DEFAULT_RESPONSE_CACHE_CONFIG, ...SettingsService.getSettings().responseCache });
+
+export const getBackendCacheParams = (): BackendCacheParams => {
+    const config = getResponseCacheConfig();
+    return { enabled: config.enabled, bypass: config.bypass, ttlMs: Math.max(0, config.ttlHours) * 60 * 60 * 1000 };
+};
+
+/** Counters since the page was loaded */
+const stats = { hits: 0, misses: 0, writes: 0, bypassed: 0, savedCost: 0 };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+                store.createIndex('expiresAt', 'expiresAt', { unique: false });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+const isExpired = (entry: StoredResponse | undefined): boolean =>
+    !entry || (entry.expiresAt > 0 && entry.expiresAt <= Date.now());
+
+/** SHA-256 hex of the request parts */
+export async function buildResponseCacheKey(parts: unknown): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Key of an external API call: everything that shapes the answer, plus the caller's variant.
+ * Delivery options (streaming, retries, key, signal) are left out.
+ */
+export function buildExternalCallCacheKey(config: ExternalApiConfig): Promise<string> {
+    const { provider } = config;
+    return buildResponseCacheKey({
+        provider,
+        model: config.model,
+        apiType: config.apiType || ApiType.Chat,
+        baseUrl: provider === ExternalProvider.Other ? config.customBaseUrl : PROVIDERS[provider]?.url,
+        systemPrompt: config.systemPrompt,
+        userPrompt: config.userPrompt,
+        messages: config.messages,
+        generationParams: config.generationParams,
+        structuredOutput: config.structuredOutput,
+        responsesSchema: config.responsesSchema,
+        promptSchema: config.promptSchema,
+        selectedFields: config.selectedFields,
+        tools: config.tools,
+        maxTokens: config.maxTokens,
+        variant: config.cacheVariant
+    });
+}
+
+/**
+ * Cached response for the key, or null on a miss. Read errors count as misses so a broken
+ * cache never blocks a call.
+ */
+export async function getCachedResponse(key: string): Promise<CachedResponse | null> {
+    try {
+        const db = await openDb();
+        const entry = await new Promise<StoredResponse | undefined>((resolve, reject) => {
+            const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+            request.onsuccess = () => resolve(request.result as StoredResponse | undefined);
+            request.onerror = () => reject(request.error);
+        });
+        if (!entry || isExpired(entry)) {
+            stats.misses++;
+            return null;
+        }
+        stats.hits++;
+        stats.savedCost += entry.usage?.cost || 0;
+        return { result: entry.result, usage: entry.usage, provider: entry.provider, model: entry.model };
+    } catch (e) {
+        logger.warn('[ResponseCache] read failed', e);
+        stats.misses++;
+        return null;
+    }
+}
+
+export async function setCachedResponse(key: string, response: CachedResponse, ttlHours = getResponseCacheConfig().ttlHours): Promise<void> {
+    try {
+        const db = await openDb();
+        const now = Date.now();
+        const entry: StoredResponse = { ...response, key, createdAt: now, expiresAt: ttlHours > 0 ? now + ttlHours * 60 * 60 * 1000 : 0 };
+        await new Promise<void>((resolve, reject) => {
+            const tx = db.transaction(STORE_NAME, 'readwrite');
+            tx.objectStore(STORE_NAME).put(entry);
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+        stats.writes++;
+    } catch (e) {
+        logger.warn('[ResponseCache] write failed', e);
+    }
+}
+
+/** A call that skipped the cache read because the cache is bypassed for this run */
+export const recordCacheBypass = (): void => {
+    stats.bypassed++;
+};
+
+/** Delete expired entries; returns how many were removed */
+export async function pruneResponseCache(): Promise<number> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        // expiresAt 0 (never expires) sorts first, so start the range just above it
+        const request = tx.objectStore(STORE_NAME).index('expiresAt').openCursor(IDBKeyRange.bound(1, Date.now()));
+        let removed = 0;
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            cursor.delete();
+            removed++;
+            cursor.continue();
+        };
+        tx.oncomplete = () => resolve(removed);
+        tx.onerror = () => reject(tx.error);
+    });
+}
+
+export async function getResponseCacheStats(): Promise<ResponseCacheStats> {
+    let entries = 0;
+    try {
+        await pruneResponseCache();
+        const db = await openDb();
+        entries = await new Promise<number>((resolve, reject) => {
+            const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).count();
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        logger.warn('[ResponseCache] stats failed', e);
+    }
+    return { ...stats, entries };
+}
+
+export async function clearResponseCache(): Promise<void> {
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        tx.objectStore(STORE_NAME).clear();
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+    Object.assign(stats, { hits: 0, misses: 0, writes: 0, bypassed: 0, savedCost: 0 });
+}
@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { EvolOperator, ExternalProvider } from '../interfaces/enums';
+
+const api = vi.hoisted(() => ({ callExternalApi: vi.fn() }));
+
+// The API client reads settings on import
+vi.mock('./externalApiService', () => ({ callExternalApi: api.callExternalApi }));
+vi.mock('./promptService', () => ({
+    PromptService: { getPromptSchema: () => ({ prompt: 'Rewrite the prompt.' }) }
+}));
+
+const { evolveSeed, getEvolutionFailure, getSeedId } = await import('./seedEvolutionService');
+
+const seed = 'Explain how a hash map handles collisions.';
+
+describe('getEvolutionFailure', () => {
+    it('accepts a real rewrite', () => {
+        expect(getEvolutionFailure(seed, 'Explain how a hash map handles collisions, comparing chaining with open addressing.')).toBeNull();
+    });
+
+    it('names why an evolution is eliminated', () => {
+        expect(getEvolutionFailure(seed, '  ')).toBe('empty');
+        expect(getEvolutionFailure(seed, 'explain how a HASH MAP handles collisions')).toBe('no change');
+        expect(getEvolutionFailure(seed, 'Hash maps?')).toBe('too short');
+        expect(getEvolutionFailure(seed, "I'm sorry, but I can't rewrite this prompt for you.")).toBe('refusal');
+        expect(getEvolutionFailure(seed, '#Rewritten Prompt#: Explain hash map collisions in depth.')).toBe('copied the instructions');
+    });
+});
+
+describe('getSeedId', () => {
+    it('is stable per seed text', () => {
+        expect(getSeedId(seed)).toBe(getSeedId(seed));
+        expect(getSeedId(seed)).toMatch(/^seed_[0-9a-f]{8}$/);
+        expect(getSeedId(`${seed} `)).not.toBe(getSeedId(seed));
+    });
+});
+
+describe('evolveSeed', () => {
+    const params = (rounds: number, operators = [EvolOperator.Deepen]) => ({
+        seed,
+        config: { enabled: true, operators, rounds },
+        evolver: { provider: ExternalProvider.OpenRouter, apiKey: 'key', model: 'model' },
+        maxRetries: 0,
+        retryDelay: 0
+    });
+
+    beforeEach(() => {
+        api.callExternalApi.mockReset();
+    });
+
+    it('chains rounds and records the lineage', async () => {
+        const first = 'Explain how a hash map handles collisions and how resizing affects them.';
+        const second = 'Explain how a hash map handles collisions, how resizing affects them, and when to use Robin Hood hashing.';
+        api.callExternalApi
+            .mockResolvedValueOnce({ evolved_prompt: first })
+            .mockResolvedValueOnce(`<think>plan</think>\`\`\`json\n{"evolved_prompt": "${second}"}\n\`\`\``);
+
+        const result = await evolveSeed(params(2));
+        expect(result).toEqual({
+            seed: second,
+            lineage: { seedId: getSeedId(second), parentSeedId: getSeedId(seed), parentSeed: seed, operators: [EvolOperator.Deepen, EvolOperator.Deepen] }
+        });
+        expect(api.callExternalApi.mock.calls[1][0].userPrompt).toContain(`[PROMPT]\n${first}`);
+        expect(api.callExternalApi.mock.calls[0][0].bypassCache).toBe(true);
+    });
+
+    it('stops at the last good evolution when a later round fails', async () => {
+        const first = 'Explain how a hash map handles collisions and how resizing affects them.';
+        api.callExternalApi.mockResolvedValueOnce(first).mockResolvedValueOnce("Sorry, I can't do that.");
+
+        const result = await evolveSeed(params(3));
+        expect(result?.seed).toBe(first);
+        expect(result?.lineage.operators).toHaveLength(1);
+        expect(api.callExternalApi).toHaveBeenCalledTimes(2);
+    });
+
+    it('filters the seed out when the first round fails', async () => {
+        api.callExternalApi.mockResolvedValueOnce(seed);
+        await expect(evolveSeed(params(2))).resolves.toBeNull();
+    });
+
+    it('needs at least one operator', async () => {
+        await expect(evolveSeed(params(1, []))).rejects.toThrow('at least one operator');
+        expect(api.callExternalApi).not.toHaveBeenCalled();
+    });
+});
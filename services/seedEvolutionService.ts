@@ -0,0 +1,162 @@
+/**
+ * Evol-Instruct seed evolution: seeds are rewritten by mutation operators (in-depth and
+ * in-breadth), and evolutions that fail the elimination checks are dropped before generation.
+ */
+
+import type { ApiType, ExternalProvider, SeedEvolutionConfig, SeedLineage, UsageData } from '../types';
+import { EvolOperator, PromptCategory, PromptRole } from '../interfaces/enums';
+import { logger } from '../utils/logger';
+import { callExternalApi } from './externalApiService';
+import { PromptService } from './promptService';
+
+/** Model endpoint used to evolve seeds */
+export interface SeedEvolverModel {
+    provider: ExternalProvider;
+    apiKey: string;
+    model: string;
+    apiType?: ApiType;
+    customBaseUrl?: string;
+}
+
+export interface SeedEvolutionParams {
+    seed: string;
+    config: SeedEvolutionConfig;
+    evolver: SeedEvolverModel;
+    signal?: AbortSignal;
+    maxRetries: number;
+    retryDelay: number;
+    onUsage?: (usage: UsageData) => void;
+}
+
+export interface SeedEvolutionResult {
+    seed: string;
+    lineage: SeedLineage;
+}
+
+export const EVOL_OPERATOR_LABELS: Record<EvolOperator, string> = {
+    [EvolOperator.AddConstraints]: 'Add constraints',
+    [EvolOperator.Deepen]: 'Deepen',
+    [EvolOperator.Concretize]: 'Concretize',
+    [EvolOperator.IncreaseReasoning]: 'Increase reasoning steps',
+    [EvolOperator.Breadth]: 'Breadth mutation'
+};
+
+const OPERATOR_INSTRUCTIONS: Record<EvolOperator, string> = {
+    [EvolOperator.AddConstraints]: 'Add one more constraint or requirement to the prompt.',
+    [EvolOperator.Deepen]: 'If the prompt asks about a specific issue, increase the depth and breadth of the inquiry.',
+    [EvolOperator.Concretize]: 'Replace general concepts in the prompt with more specific ones.',
+    [EvolOperator.IncreaseReasoning]: 'If the prompt can be solved with a few simple steps, rewrite it to explicitly require multi-step reasoning.',
+    [EvolOperator.Breadth]: 'Do not rewrite the prompt: write a brand-new prompt in the same domain, of similar length and difficulty, on a rarer topic.'
+};
+
+const LEAKED_TEMPLATE = /(given|rewritten|evolved|original|created)\s+prompt|#\s*(rewritten|created)\s*prompt\s*#/i;
+
+/** Stable id for a seed text, so the same seed maps to the same id across items and sessions */
+export function getSeedId(seed: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `seed_${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').replace(/[^\p{L}\p{N} ]/gu, '').trim();
+
+/**
+ * Elimination check for one evolution
+ *
+ * @returns Why the evolution failed, or null when it is usable
+ */
+export function getEvolutionFailure(parent: string, evolved: string): string | null {
+    const text = evolved.trim();
+    if (!text) return 'empty';
+    if (normalize(text) === normalize(parent)) return 'no change';
+    if (text.length < Math.min(20, parent.trim().length)) return 'too short';
+    if (/\bsorry\b|\bI (?:can(?:no|')t|am unable to)\b/i.test(text) && text.split(/\s+/).length < 80) return 'refusal';
+    if (LEAKED_TEMPLATE.test(text)) return 'copied the instructions';
+    return null;
+}
+
+const readEvolved = (raw: unknown): string => {
+    if (typeof raw === 'string') {
+        const cleaned = raw.replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+        try {
+            const parsed = JSON.parse(cleaned.replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/, '$1'));
+            if (typeof parsed?.evolved_prompt === 'string') return parsed.evolved_prompt;
+        } catch {
+            // Plain text answer
+        }
+        return cleaned;
+    }
+    if (raw && typeof raw === 'object' && typeof (raw as any).evolved_prompt === 'string') {
+        return (raw as any).evolved_prompt;
+    }
+    return '';
+};
+
+/** Rewrite a seed once with one operator; the result is not checked */
+export async function applyEvolOperator(
+    seed: string,
+    operator: EvolOperator,
+    params: Omit<SeedEvolutionParams, 'seed' | 'config'>
+): Promise<string> {
+    const { evolver, signal, maxRetries, retryDelay, onUsage } = params;
+    const schema = PromptService.getPromptSchema(PromptCategory.Generator, PromptRole.SeedEvolver);
+    const raw = await callExternalApi({
+        provider: evolver.provider,
+        apiKey: evolver.apiKey,
+        model: evolver.model,
+        apiType: evolver.apiType,
+        customBaseUrl: evolver.customBaseUrl,
+        systemPrompt: schema.prompt,
+        userPrompt: `[EVOLUTION METHOD]\n${OPERATOR_INSTRUCTIONS[operator]}\n\n[PROMPT]\n${seed}`,
+        signal,
+        maxRetries,
+        retryDelay,
+        generationParams: { useNativeOutput: true },
+        structuredOutput: false,
+        onUsage,
+        // Evolving the same seed again must sample a new prompt
+        bypassCache: true
+    });
+    return readEvolved(raw).trim();
+}
+
+/**
+ * Evolve a seed for `config.rounds` rounds, sampling an operator per round. A failed round
+ * ends the chain at the last good evolution.
+ *
+ * @returns null when the first round already fails, so the seed is filtered out
+ */
+export async function evolveSeed(params: SeedEvolutionParams): Promise<SeedEvolutionResult | null> {
+    const { seed, config } = params;
+    if (config.operators.length === 0) {
+        throw new Error('Seed evolution needs at least one operator');
+    }
+
+    let current = seed;
+    const operators: EvolOperator[] = [];
+    for (let round = 0; round < Math.max(1, config.rounds); round++) {
+        const operator = config.operators[Math.floor(Math.random() * config.operators.length)];
+        const evolved = await applyEvolOperator(current, operator, params);
+        const failure = getEvolutionFailure(current, evolved);
+        if (failure) {
+            logger.warn(`🧬 Evolution ${operator} failed (${failure}) in round ${round + 1}`);
+            break;
+        }
+        current = evolved;
+        operators.push(operator);
+    }
+
+    if (operators.length === 0) return null;
+    return {
+        seed: current,
+        lineage: {
+            seedId: getSeedId(current),
+            parentSeedId: getSeedId(seed),
+            parentSeed: seed,
+            operators
+        }
+    };
+}
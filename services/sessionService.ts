@@ -33,7 +33,7 @@ import { StorageMode } from '../interfaces/enums/StorageMode';
 const SESSION_VERSION = 2;
 
 /**
- * Default configuration for missing rewriter phase (backward compatibility).
+ * Default configuration for missing rewriter/critic phases (backward compatibility).
  */
 const DEFAULT_REWRITER_CONFIG = {
     id: DeepPhase.Rewriter,
@@ -118,8 +118,8 @@ export const SessionService = {
                 if (c.customBaseUrl !== undefined) setters.setCustomBaseUrl(c.customBaseUrl);
 
                 if (c.deepConfig) {
-                    // Backfill missing rewriter phase for older sessions
-                    const mergedDeepConfig = this.backfillRewriterPhase(c.deepConfig);
+                    // Backfill phases added after older sessions were saved
+                    const mergedDeepConfig = this.backfillOptionalPhases(c.deepConfig);
                     setters.setDeepConfig(mergedDeepConfig);
                 }
 
@@ -160,13 +160,13 @@ export const SessionService = {
     },
 
     /**
-     * Backfill missing rewriter phase in deep config for backward compatibility.
+     * Backfill missing optional phases (rewriter, critic) in deep config for backward compatibility.
      * 
      * @param deepConfig - Deep configuration from saved session
-     * @returns DeepConfig with rewriter phase added if missing
+     * @returns DeepConfig with rewriter and critic phases added if missing
      */
-    backfillRewriterPhase(deepConfig: DeepConfig): DeepConfig {
-        const mergedDeepConfig = { ...deepConfig };
+    backfillOptionalPhases(deepConfig: DeepConfig): DeepConfig {
+        const mergedDeepConfig = { ...deepConfig, phases: { ...deepConfig.phases } };
 
         if (!mergedDeepConfig.phases.rewriter) {
             mergedDeepConfig.phases.rewriter = {
@@ -175,6 +175,15 @@ export const SessionService = {
             };
         }
 
+        if (!mergedDeepConfig.phases.critic) {
+            mergedDeepConfig.phases.critic = {
+                ...DEFAULT_REWRITER_CONFIG,
+                id: DeepPhase.Critic,
+                systemPrompt: PromptService.getPrompt(PromptCategory.Converter, PromptRole.Critic),
+                maxRounds: 2
+            };
+        }
+
         return mergedDeepConfig;
     },
 
@@ -5,7 +5,7 @@
  */
 
 import { EXTERNAL_PROVIDERS, PROVIDERS } from '../constants';
-import { GenerationParams } from '../types';
+import { BudgetConfig, ExportTemplate, GenerationParams, GroundTruthConfig, ModelFallback, ModelPrice, RateLimitConfig, ResponseCacheConfig, SeedEvolutionConfig, TaxonomyConfig, ToolUseConfig } from '../types';
 import { ApiType, DbProvider, ExternalProvider, ProviderType, ThemeMode } from '../interfaces/enums';
 
 const DB_NAME = 'SynthLabsSettingsDB';
@@ -24,6 +24,8 @@ export interface StepModelConfig {
     apiType?: ApiType; // defaults to chat if not specified
     model: string;
     generationParams?: GenerationParams;
+    // Tried in order when the model above keeps failing
+    fallbacks?: ModelFallback[];
 }
 
 // Deep mode step configurations
@@ -98,6 +100,10 @@ export interface AppSettings {
     huggingFaceToken?: string;
     huggingFaceDefaultRepo?: string;
 
+    // Export templates (verifier export, HF upload and creator JSONL export)
+    exportTemplates?: ExportTemplate[];
+    creatorExportTemplateId?: string;  // Template applied by the creator's JSONL export (empty = raw logs)
+
     // Firebase backend (service account managed by backend server)
     backendServiceAccountPath?: string;
 
@@ -130,6 +136,26 @@ export interface AppSettings {
     // Default generation parameters for LLM calls
     defaultGenerationParams?: GenerationParams;
     generationTimeoutSeconds?: number;
+    // Ground-truth verification of generated answers against reference answers
+    groundTruth?: GroundTruthConfig;
+    // Tool-use trace generation (generator, regular engine)
+    toolUse?: ToolUseConfig;
+    // Seed taxonomy with per-leaf quotas (synthetic data source)
+    taxonomy?: TaxonomyConfig;
+    // Evol-Instruct rewriting of seeds before generation (any data source)
+    seedEvolution?: SeedEvolutionConfig;
+    // Per-provider request/token budgets (shared with backend jobs when a backend is connected)
+    rateLimits?: RateLimitConfig;
+    // Model prices (USD per million tokens) checked before the built-in defaults
+    modelPrices?: ModelPrice[];
+    // Hard spend limits per session and per backend job
+    budget?: BudgetConfig;
+    // Models the regular engine falls through to when the sidebar model keeps failing
+    generationFallbacks?: ModelFallback[];
+    // Converter runs on OpenAI/Anthropic go to the provider Batch API through the backend
+    batchSubmission?: boolean;
+    // Reuse responses of identical model calls (browser runs and backend jobs)
+    responseCache?: ResponseCacheConfig;
 
     // Assistant (Verifier chat) preferences
     assistantDefaults?: AssistantDefaults;
@@ -501,6 +527,17 @@ export const SettingsService = {
         };
     },
 
+    // Get saved export templates
+    getExportTemplates: (): ExportTemplate[] => {
+        return settingsCache.exportTemplates || [];
+    },
+
+    // Get the template the creator's JSONL export applies, if any
+    getCreatorExportTemplate: (): ExportTemplate | undefined => {
+        const id = settingsCache.creatorExportTemplateId;
+        return id ? (settingsCache.exportTemplates || []).find(t => t.id === id) : undefined;
+    },
+
     // Get workflow defaults
     getWorkflowDefaults: (): WorkflowDefaults => {
         return settingsCache.workflowDefaults || DEFAULT_WORKFLOW_DEFAULTS;
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TAXONOMY_CONFIG, type TaxonomyConfig } from '../interfaces/config/TaxonomyConfig';
+import type { SynthLogItem } from '../types';
+import {
+    buildTaxonomyCoverage,
+    describeTaxonomyLeaf,
+    getTaxonomyLeaves,
+    parseTaxonomy,
+    planTaxonomySeeds,
+    serializeTaxonomy
+} from './taxonomyService';
+
+const config: TaxonomyConfig = {
+    enabled: true,
+    name: 'Math',
+    levels: ['domain', 'skill'],
+    defaultQuota: 2,
+    nodes: [
+        { name: 'Algebra', description: 'Symbolic manipulation', children: [{ name: 'Equations', quota: 3 }, { name: 'Inequalities' }] },
+        { name: 'Geometry', quota: 1 }
+    ]
+};
+
+const item = (taxonomyPath: string[], fields: Partial<SynthLogItem> = {}) => ({ id: 'item', query: '', full_seed: '', taxonomyPath, ...fields }) as SynthLogItem;
+
+describe('parseTaxonomy', () => {
+    it('reads the nested mapping shorthand with leaf quotas', () => {
+        expect(parseTaxonomy('Algebra:\n  Equations: 3\n  Inequalities:\nGeometry: 1\n')).toEqual({
+            nodes: [
+                { name: 'Algebra', children: [{ name: 'Equations', quota: 3 }, { name: 'Inequalities' }] },
+                { name: 'Geometry', quota: 1 }
+            ]
+        });
+    });
+
+    it('reads a JSON node list and the config fields around it', () => {
+        expect(parseTaxonomy('{"name": "Math", "levels": ["domain"], "defaultQuota": 2.7, "nodes": ["Algebra", {"name": " Geometry ", "quota": "4.9", "description": " Shapes "}]}')).toEqual({
+            name: 'Math',
+            levels: ['domain'],
+            defaultQuota: 2,
+            nodes: [{ name: 'Algebra' }, { name: 'Geometry', quota: 4, description: 'Shapes' }]
+        });
+    });
+
+    it('round-trips the serialized settings', () => {
+        const { enabled: _enabled, ...rest } = DEFAULT_TAXONOMY_CONFIG;
+        expect(parseTaxonomy(serializeTaxonomy(DEFAULT_TAXONOMY_CONFIG))).toEqual(rest);
+    });
+
+    it('rejects nodes without names, bad quotas and scalar documents', () => {
+        expect(() => parseTaxonomy('- quota: 3')).toThrow('needs a name');
+        expect(() => parseTaxonomy('- name: Algebra\n  quota: -1')).toThrow('Invalid quota for "Algebra"');
+        expect(() => parseTaxonomy('Algebra: lots')).toThrow('Invalid value for "Algebra"');
+        expect(() => parseTaxonomy('just text')).toThrow('list of topics or a mapping');
+    });
+});
+
+describe('getTaxonomyLeaves', () => {
+    it('walks to the leaves with the default quota and the descriptions along the path', () => {
+        expect(getTaxonomyLeaves(config)).toEqual([
+            { path: ['Algebra', 'Equations'], quota: 3, descriptions: ['Symbolic manipulation'] },
+            { path: ['Algebra', 'Inequalities'], quota: 2, descriptions: ['Symbolic manipulation'] },
+            { path: ['Geometry'], quota: 1, descriptions: [] }
+        ]);
+    });
+});
+
+describe('describeTaxonomyLeaf', () => {
+    it('names each level and falls back to a numbered level', () => {
+        const [leaf] = getTaxonomyLeaves(config);
+        expect(describeTaxonomyLeaf(leaf, ['domain', 'skill'])).toBe('domain: Algebra; skill: Equations\nSymbolic manipulation');
+        expect(describeTaxonomyLeaf(leaf, ['domain'])).toBe('domain: Algebra; level 2: Equations\nSymbolic manipulation');
+    });
+});
+
+describe('buildTaxonomyCoverage', () => {
+    it('counts usable items per leaf and caps the total at each quota', () => {
+        const coverage = buildTaxonomyCoverage(config, [
+            item(['Geometry']),
+            item(['Geometry']),
+            item(['Algebra', 'Equations']),
+            item(['Algebra', 'Equations'], { isError: true }),
+            item(['Algebra', 'Inequalities'], { isDiscarded: true })
+        ]);
+        expect(coverage.rows.map(row => [row.key, row.filled])).toEqual([
+            ['Algebra > Equations', 1],
+            ['Algebra > Inequalities', 0],
+            ['Geometry', 2]
+        ]);
+        expect(coverage).toMatchObject({ totalQuota: 6, totalFilled: 2, completeLeaves: 1 });
+    });
+});
+
+describe('planTaxonomySeeds', () => {
+    it('plans only the missing seeds, interleaving the leaves', () => {
+        const plan = planTaxonomySeeds(config, [item(['Geometry']), item(['Algebra', 'Equations'])]);
+        expect(plan.map(leaf => leaf.path.join('/'))).toEqual([
+            'Algebra/Equations',
+            'Algebra/Inequalities',
+            'Algebra/Equations',
+            'Algebra/Inequalities'
+        ]);
+    });
+
+    it('is empty once every quota is met', () => {
+        expect(planTaxonomySeeds({ ...config, nodes: [{ name: 'Geometry', quota: 1 }] }, [item(['Geometry'])])).toEqual([]);
+    });
+});
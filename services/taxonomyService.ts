@@ -0,0 +1,165 @@
+/**
+ * Seed taxonomies: hierarchical topic plans (YAML or JSON) with per-leaf quotas, and the
+ * coverage of a session's items against them.
+ */
+
+import YAML from 'js-yaml';
+import type { SynthLogItem, TaxonomyConfig, TaxonomyNode } from '../types';
+
+export interface TaxonomyLeaf {
+    /** Node names from the top level down to the leaf */
+    path: string[];
+    quota: number;
+    /** Descriptions along the path, where given */
+    descriptions: string[];
+}
+
+export interface TaxonomyCoverageRow {
+    key: string;
+    path: string[];
+    quota: number;
+    filled: number;
+}
+
+export interface TaxonomyCoverage {
+    rows: TaxonomyCoverageRow[];
+    totalQuota: number;
+    /** Items counted toward quotas (capped per leaf) */
+    totalFilled: number;
+    completeLeaves: number;
+}
+
+export const getTaxonomyLeafKey = (path: string[]): string => path.join(' > ');
+
+const toNode = (value: unknown, name?: string): TaxonomyNode => {
+    // Shorthand: `name: quota` or `name: { child: ... }`
+    if (name !== undefined) {
+        if (value === null || value === undefined) return { name };
+        if (typeof value === 'number') return { name, quota: value };
+        if (typeof value === 'object' && !Array.isArray(value)) {
+            return { name, children: Object.entries(value as Record<string, unknown>).map(([child, v]) => toNode(v, child)) };
+        }
+        throw new Error(`Invalid value for "${name}": expected a quota or nested topics`);
+    }
+
+    if (typeof value === 'string') return { name: value };
+    if (!value || typeof value !== 'object') throw new Error('Invalid taxonomy node');
+    const raw = value as Record<string, unknown>;
+    if (typeof raw.name !== 'string' || !raw.name.trim()) throw new Error('Every taxonomy node needs a name');
+    const node: TaxonomyNode = { name: raw.name.trim() };
+    if (typeof raw.description === 'string' && raw.description.trim()) node.description = raw.description.trim();
+    if (raw.quota !== undefined) {
+        const quota = Number(raw.quota);
+        if (!Number.isFinite(quota) || quota < 0) throw new Error(`Invalid quota for "${node.name}"`);
+        node.quota = Math.floor(quota);
+    }
+    if (Array.isArray(raw.children) && raw.children.length > 0) node.children = raw.children.map(child => toNode(child));
+    return node;
+};
+
+/**
+ * Read a taxonomy from YAML or JSON. Accepts a list of nodes, `{ name?, levels?, defaultQuota?, nodes }`,
+ * or a nested mapping shorthand where leaf values are quotas.
+ *
+ * @throws Error when the text is not a valid taxonomy
+ */
+export function parseTaxonomy(text: string): Partial<TaxonomyConfig> & { nodes: TaxonomyNode[] } {
+    const data = YAML.load(text) as unknown;
+    if (Array.isArray(data)) {
+        return { nodes: data.map(node => toNode(node)) };
+    }
+    if (!data || typeof data !== 'object') {
+        throw new Error('Taxonomy must be a list of topics or a mapping');
+    }
+
+    const raw = data as Record<string, unknown>;
+    const list = raw.nodes ?? raw.taxonomy;
+    if (list === undefined) {
+        return { nodes: Object.entries(raw).map(([name, value]) => toNode(value, name)) };
+    }
+
+    const parsed: Partial<TaxonomyConfig> & { nodes: TaxonomyNode[] } = {
+        nodes: Array.isArray(list)
+            ? list.map(node => toNode(node))
+            : Object.entries(list as Record<string, unknown>).map(([name, value]) => toNode(value, name))
+    };
+    if (typeof raw.name === 'string') parsed.name = raw.name;
+    if (Array.isArray(raw.levels)) parsed.levels = raw.levels.map(String);
+    if (raw.defaultQuota !== undefined) parsed.defaultQuota = Math.max(0, Math.floor(Number(raw.defaultQuota) || 0));
+    return parsed;
+}
+
+/** YAML for the settings editor; parseTaxonomy reads it back */
+export function serializeTaxonomy(config: TaxonomyConfig): string {
+    return YAML.dump({ name: config.name, levels: config.levels, defaultQuota: config.defaultQuota, nodes: config.nodes }, { lineWidth: -1 });
+}
+
+export function getTaxonomyLeaves(config: Pick<TaxonomyConfig, 'nodes' | 'defaultQuota'>): TaxonomyLeaf[] {
+    const leaves: TaxonomyLeaf[] = [];
+    const walk = (node: TaxonomyNode, path: string[], descriptions: string[]) => {
+        const nextPath = [...path, node.name];
+        const nextDescriptions = node.description ? [...descriptions, node.description] : descriptions;
+        if (node.children && node.children.length > 0) {
+            node.children.forEach(child => walk(child, nextPath, nextDescriptions));
+            return;
+        }
+        leaves.push({ path: nextPath, quota: node.quota ?? config.defaultQuota, descriptions: nextDescriptions });
+    };
+    config.nodes.forEach(node => walk(node, [], []));
+    return leaves;
+}
+
+/** Topic text for the seed generator, naming each level of the leaf's path */
+export function describeTaxonomyLeaf(leaf: TaxonomyLeaf, levels: string[]): string {
+    const parts = leaf.path.map((name, idx) => `${levels[idx] || `level ${idx + 1}`}: ${name}`);
+    return [parts.join('; '), ...leaf.descriptions].join('\n');
+}
+
+/** Usable items per leaf key; errors and discarded items do not count */
+export function countTaxonomyItems(items: SynthLogItem[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    items.forEach(item => {
+        if (!item.taxonomyPath || item.isError || item.isDiscarded) return;
+        const key = getTaxonomyLeafKey(item.taxonomyPath);
+        counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return counts;
+}
+
+export function buildTaxonomyCoverage(config: TaxonomyConfig, items: SynthLogItem[]): TaxonomyCoverage {
+    const counts = countTaxonomyItems(items);
+    const rows = getTaxonomyLeaves(config).map(leaf => {
+        const key = getTaxonomyLeafKey(leaf.path);
+        return { key, path: leaf.path, quota: leaf.quota, filled: counts.get(key) || 0 };
+    });
+    return {
+        rows,
+        totalQuota: rows.reduce((sum, row) => sum + row.quota, 0),
+        totalFilled: rows.reduce((sum, row) => sum + Math.min(row.filled, row.quota), 0),
+        completeLeaves: rows.filter(row => row.filled >= row.quota).length
+    };
+}
+
+/**
+ * Seeds still needed per leaf, interleaved round-robin so a run that stops early
+ * leaves the leaves evenly filled
+ */
+export function planTaxonomySeeds(config: TaxonomyConfig, items: SynthLogItem[]): TaxonomyLeaf[] {
+    const counts = countTaxonomyItems(items);
+    const queues = getTaxonomyLeaves(config).map(leaf => ({
+        leaf,
+        remaining: Math.max(0, leaf.quota - (counts.get(getTaxonomyLeafKey(leaf.path)) || 0))
+    }));
+    const plan: TaxonomyLeaf[] = [];
+    let added = true;
+    while (added) {
+        added = false;
+        queues.forEach(queue => {
+            if (queue.remaining <= 0) return;
+            plan.push(queue.leaf);
+            queue.remaining--;
+            added = true;
+        });
+    }
+    return plan;
+}
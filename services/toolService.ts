@@ -1,5 +1,6 @@
 import type { AutoscoreConfig, AutoscoreToolParams, AutoscoreToolResult, SessionListToolParams, VerifierItem } from '../types';
-import { ToolFieldName, ProviderType, PromptCategory, PromptRole } from '../interfaces/enums';
+import { ToolFieldName, ProviderType, PromptCategory, PromptRole, AutoscoreMode, JudgeAggregation } from '../interfaces/enums';
+import { DEFAULT_RUBRIC_CRITERIA } from '../interfaces/config/ScoringRubric';
 import { PROVIDERS } from '../constants';
 import * as FirebaseService from './firebaseService';
 import * as backendClient from './backendClient';
@@ -7,6 +8,8 @@ import { encryptKey } from '../utils/keyEncryption';
 import { addJob as trackJobInStorage } from './jobStorageService';
 import { SettingsService } from './settingsService';
 import { PromptService } from './promptService';
+import { encryptJudgeApiKeys, getJudgeKeyProviders, toBackendJudges, type BackendJudge } from './judgeEnsembleService';
+import { getJobCostParams } from './costService';
 import type { SessionData } from '../interfaces';
 import type { RewriterConfig } from './verifierRewriterService';
 import { getBrowserTools } from './browserTools';
@@ -851,15 +854,22 @@ export class ToolExecutor {
             const apiKey = autoscoreConfig.apiKey
                 || SettingsService.getApiKey(providerString)
                 || '';
+            const judges = toBackendJudges(autoscoreConfig.judges || []);
 
-            if (!apiKey) {
-                return { error: `No API key found for provider "${providerString}". Configure it in the auto-score settings panel.` };
-            }
-            if (!effectiveModel) {
-                return { error: 'No model configured in auto-score settings.' };
+            if (judges.length === 0) {
+                if (!apiKey) {
+                    return { error: `No API key found for provider "${providerString}". Configure it in the auto-score settings panel.` };
+                }
+                if (!effectiveModel) {
+                    return { error: 'No model configured in auto-score settings.' };
+                }
+                if (!effectiveBaseUrl) {
+                    return { error: 'No base URL configured for the auto-score provider.' };
+                }
             }
-            if (!effectiveBaseUrl) {
-                return { error: 'No base URL configured for the auto-score provider.' };
+            const { judgeApiKeys, missing } = await encryptJudgeApiKeys(getJudgeKeyProviders(judges));
+            if (missing.length > 0) {
+                return { error: `No API key found for judge provider(s): ${missing.join(', ')}. Configure them in Settings.` };
             }
 
             const effectiveSleepMs = sleepMs ?? autoscoreConfig.sleepTime ?? 500;
@@ -878,7 +888,7 @@ export class ToolExecutor {
                 }
             }
 
-            const encryptedKey = await encryptKey(apiKey);
+            const encryptedKey = apiKey ? await encryptKey(apiKey) : undefined;
             const effectiveConcurrency = autoscoreConfig.concurrency ?? 1;
             const effectiveMaxRetries = autoscoreConfig.maxRetries ?? 3;
             const effectiveRetryDelay = autoscoreConfig.retryDelay ?? 2000;
@@ -896,9 +906,17 @@ export class ToolExecutor {
                 maxRetries: effectiveMaxRetries,
                 retryDelay: effectiveRetryDelay,
                 force: !!force,
+                ...(autoscoreConfig.mode === AutoscoreMode.Rubric
+                    ? { mode: AutoscoreMode.Rubric, rubric: autoscoreConfig.rubric?.length ? autoscoreConfig.rubric : DEFAULT_RUBRIC_CRITERIA }
+                    : {}),
+                ...(judges.length > 0
+                    ? { judges, judgeApiKeys, aggregation: autoscoreConfig.judgeAggregation }
+                    : {}),
+                ...getJobCostParams(),
             });
             await trackJobInStorage({ id: jobId, type: 'autoscore', status: 'pending', createdAt: Date.now(), updatedAt: Date.now() });
-            return { jobId, message: `Auto-scoring job started using ${effectiveModel}. Use checkJobStatus to monitor progress.` };
+            const scorer = judges.length > 0 ? `${judges.length} judges (${autoscoreConfig.judgeAggregation || JudgeAggregation.Mean})` : effectiveModel;
+            return { jobId, message: `Auto-scoring job started using ${scorer}. Use checkJobStatus to monitor progress.` };
         }, {
             requiresApproval: true,
             approvalSettingName: 'Run auto-scoring job'
@@ -1009,6 +1027,7 @@ export class ToolExecutor {
                 retryDelay: effectiveRetryDelay,
                 systemPrompt: effectiveSystemPrompt,
                 fieldPrompts,
+                ...getJobCostParams(),
             });
             await trackJobInStorage({ id: jobId, type: 'rewrite', status: 'pending', createdAt: Date.now(), updatedAt: Date.now() });
             return { jobId, message: `Rewrite job started for fields: ${fields.join(', ')} using ${effectiveModel}. Use checkJobStatus to monitor progress.` };
@@ -1054,7 +1073,7 @@ export class ToolExecutor {
                 properties: {
                     type: {
                         type: 'string',
-                        enum: ['autoscore', 'rewrite', 'migrate-reasoning', 'remove-items', 'orphan_check', 'orphan_sync'],
+                        enum: ['autoscore', 'rewrite', 'migrate-reasoning', 'remove-items', 'dedup', 'orphan_check', 'orphan_sync'],
                         description: 'Filter by job type. Optional - omit to get all types.'
                     },
                     status: {
@@ -1093,7 +1112,7 @@ export class ToolExecutor {
         // 20b. resumeJob - Resume a failed job
         this.registerTool({
             name: 'resumeJob',
-            description: 'Resume a failed or stalled job from where it stopped. Works for autoscore, rewrite, and migrate-reasoning jobs. Skips already-processed items and continues with the same parameters. The job will continue from its last checkpoint.',
+            description: 'Resume a failed or stalled job from where it stopped. Works for autoscore, rewrite, migrate-reasoning, and dedup jobs. Skips already-processed items and continues with the same parameters. The job will continue from its last checkpoint.',
             parameters: {
                 type: 'object',
                 properties: {
@@ -1113,8 +1132,21 @@ export class ToolExecutor {
             }
 
             if (job.type === 'autoscore') {
-                // Autoscore needs API key from settings
+                // Autoscore needs API keys from settings: the job's provider, or one per judge provider
                 const params = job.params as Record<string, unknown> | undefined;
+                const judges = (params?.judges as BackendJudge[] | undefined) || [];
+                if (judges.length > 0) {
+                    const { judgeApiKeys, missing } = await encryptJudgeApiKeys(getJudgeKeyProviders(judges));
+                    if (missing.length > 0) {
+                        return { error: `No API key found for judge provider(s): ${missing.join(', ')}. Configure them in Settings before resuming.` };
+                    }
+                    const newJobId = await backendClient.startAutoScore({ resumeJobId: jobId, judgeApiKeys, ...getJobCostParams() });
+                    return {
+                        jobId: newJobId,
+                        message: `Auto-scoring job resumed from checkpoint. Previous progress preserved. Use checkJobStatus to monitor.`
+                    };
+                }
+
                 const provider = (params?.provider as string) || '';
                 const apiKey = SettingsService.getApiKey(provider);
 
@@ -1126,6 +1158,7 @@ export class ToolExecutor {
                 const newJobId = await backendClient.startAutoScore({
                     resumeJobId: jobId,
                     apiKey: encryptedKey,
+                    ...getJobCostParams(),
                 });
 
                 return {
@@ -1146,6 +1179,7 @@ export class ToolExecutor {
                 const newJobId = await backendClient.startRewrite({
                     resumeJobId: jobId,
                     apiKey: encryptedKey,
+                    ...getJobCostParams(),
                 });
 
                 return {
@@ -1161,9 +1195,18 @@ export class ToolExecutor {
                     jobId: newJobId,
                     message: `Reasoning migration job resumed from checkpoint. Previous progress preserved. Use checkJobStatus to monitor.`
                 };
+            } else if (job.type === 'dedup') {
+                const newJobId = await backendClient.startDedup({
+                    resumeJobId: jobId,
+                });
+
+                return {
+                    jobId: newJobId,
+                    message: `Dedup job resumed from checkpoint. Previous progress preserved. Use checkJobStatus to monitor.`
+                };
             } else {
                 return {
-                    error: `Job type "${job.type}" does not support resume. Only autoscore, rewrite, and migrate-reasoning jobs can be resumed.`
+                    error: `Job type "${job.type}" does not support resume. Only autoscore, rewrite, migrate-reasoning, and dedup jobs can be resumed.`
                 };
             }
         });
@@ -1271,10 +1314,89 @@ export class ToolExecutor {
             approvalSettingName: 'Remove items from dataset'
         });
 
+        // 21b. runDedup (requires approval) - starts a background job over whole sessions
+        this.registerTool({
+            name: 'runDedup',
+            description: 'Start a background job that finds near-duplicate items across ALL items of one or more sessions (not just the loaded page) using MinHash similarity over query, reasoning and answer. action="mark" flags every group member as a duplicate; action="delete" removes all but the highest-scored item of each group. Returns a jobId to check progress with checkJobStatus. Requires approval.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    sessionId: {
+                        type: 'string',
+                        description: 'Session ID (sessionUid) to deduplicate. Use getCurrentSessionId to get this value.'
+                    },
+                    sessionIds: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Deduplicate across several sessions at once. Overrides sessionId.'
+                    },
+                    method: {
+                        type: 'string',
+                        enum: ['minhash', 'exact'],
+                        description: 'minhash (default) finds near-duplicates; exact only matches identical queries.'
+                    },
+                    threshold: {
+                        type: 'number',
+                        description: 'Similarity (0-1) at which two items count as duplicates. Defaults to 0.8.'
+                    },
+                    action: {
+                        type: 'string',
+                        enum: ['mark', 'delete'],
+                        description: 'What to do with duplicates. Defaults to "mark".'
+                    },
+                    dryRun: {
+                        type: 'boolean',
+                        description: 'If true, only reports duplicate groups without changing anything.'
+                    }
+                }
+            }
+        }, async ({
+            sessionId,
+            sessionIds,
+            method,
+            threshold,
+            action = 'mark',
+            dryRun = false
+        }: {
+            sessionId?: string;
+            sessionIds?: string[];
+            method?: 'exact' | 'minhash';
+            threshold?: number;
+            action?: 'mark' | 'delete';
+            dryRun?: boolean;
+        }) => {
+            if (!sessionId && (!sessionIds || sessionIds.length === 0)) {
+                return { error: 'sessionId or sessionIds is required. Use getCurrentSessionId to get the session ID.' };
+            }
+
+            try {
+                const jobId = await backendClient.startDedup({
+                    sessionId,
+                    sessionIds,
+                    method,
+                    threshold,
+                    action,
+                    dryRun,
+                });
+                await trackJobInStorage({ id: jobId, type: 'dedup', status: 'pending', createdAt: Date.now(), updatedAt: Date.now() });
+                return {
+                    jobId,
+                    message: dryRun
+                        ? `Dry-run dedup job started. Use checkJobStatus to see the duplicate groups.`
+                        : `Dedup job started. Use checkJobStatus to monitor progress.`
+                };
+            } catch (err: any) {
+                return { error: `Failed to start dedup job: ${err.message}` };
+            }
+        }, {
+            requiresApproval: true,
+            approvalSettingName: 'Deduplicate dataset'
+        });
+
         // 22. getScoreDistribution - queries the backend for full session data
         this.registerTool({
             name: 'getScoreDistribution',
-            description: 'Get a summary of score distribution for ALL items in a session (queries the database directly). Useful before using runRemoveItems with scoreThreshold. Returns statistics, distribution by score ranges, and preview of how many items would be affected at various thresholds.',
+            description: 'Get a summary of score distribution for ALL items in a session (queries the database directly). Useful before using runRemoveItems with scoreThreshold. Returns statistics, distribution by score ranges, and preview of how many items would be affected at various thresholds. When items were scored in rubric mode, also returns per-criterion statistics under `criteria`.',
             parameters: {
                 type: 'object',
                 properties: {
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { fillPlaceholders, mockSimulator } from './mockSimulator';
+import type { ToolSimulationInput } from './types';
+
+const simulate = (mock: unknown, args: Record<string, unknown>) => mockSimulator.simulate({
+    call: { id: 'call-1', name: 'lookup', args },
+    tool: { name: 'lookup' },
+    config: { mockResults: { lookup: mock } }
+} as unknown as ToolSimulationInput);
+
+describe('fillPlaceholders', () => {
+    it('inserts arguments and leaves unknown placeholders', () => {
+        expect(fillPlaceholders('{{city}}: {{ days }} days, {{unit}}', { city: 'Oslo', days: 3 })).toBe('Oslo: 3 days, {{unit}}');
+    });
+
+    it('escapes values inside JSON strings and writes bare placeholders as JSON values', () => {
+        expect(fillPlaceholders('{"q": "{{q}}"}', { q: 'say "hi"\nnow' }, true)).toBe('{"q": "say \\"hi\\"\\nnow"}');
+        expect(fillPlaceholders('{"q": {{q}}, "n": {{n}}}', { q: 'hi', n: 2 }, true)).toBe('{"q": "hi", "n": 2}');
+    });
+});
+
+describe('mockSimulator', () => {
+    it('keeps JSON mocks valid whatever the arguments contain', async () => {
+        const result = await simulate({ query: '{{q}}', tags: '{{tags}}' }, { q: 'a "quoted"\\path', tags: ['x'] });
+        expect(JSON.parse(result)).toEqual({ query: 'a "quoted"\\path', tags: '["x"]' });
+    });
+
+    it('treats string mocks with bare placeholders as JSON', async () => {
+        const result = await simulate('{"q": "{{q}}", "n": {{n}}}', { q: 'line\nbreak', n: 2 });
+        expect(JSON.parse(result)).toEqual({ q: 'line\nbreak', n: 2 });
+    });
+
+    it('fills plain-text mocks verbatim', async () => {
+        expect(await simulate('Found "{{q}}"', { q: 'a "b"' })).toBe('Found "a "b""');
+        expect(JSON.parse(await simulate(undefined, {}))).toEqual({ error: 'No mock result configured for lookup' });
+    });
+});
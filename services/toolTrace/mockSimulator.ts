@@ -0,0 +1,50 @@
+/**
+ * Deterministic tool results: the configured mock for the tool, with {{arg}}
+ * placeholders replaced by the call's arguments.
+ */
+
+import { ToolSimulatorMode } from '../../interfaces/enums';
+import type { ToolSimulator } from './types';
+
+/**
+ * Replace {{name}} with the argument value; unknown placeholders are left as-is
+ *
+ * @param json - The template is JSON: values inside a string are escaped and bare
+ * placeholders become JSON values, so quotes and newlines keep it valid
+ */
+export function fillPlaceholders(template: string, args: Record<string, unknown>, json = false): string {
+    return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, key: string, offset: number) => {
+        const value = args?.[key];
+        if (value === undefined || value === null) return match;
+        const text = typeof value === 'string' ? value : JSON.stringify(value);
+        if (!json) return text;
+        const quoted = template[offset - 1] === '"' && template[offset + match.length] === '"';
+        return quoted ? JSON.stringify(text).slice(1, -1) : JSON.stringify(value);
+    });
+}
+
+// Placeholders may stand in for bare values, e.g. {"n": {{count}}}
+const isJsonTemplate = (template: string) => {
+    try {
+        JSON.parse(template.replace(/\{\{\s*[\w.-]+\s*\}\}/g, '0'));
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const mockSimulator: ToolSimulator = {
+    mode: ToolSimulatorMode.Mock,
+    label: 'Local mocks',
+    async simulate({ call, tool, config }) {
+        if (!tool) {
+            return JSON.stringify({ error: `Unknown tool: ${call.name}` });
+        }
+        const mock = config.mockResults?.[call.name];
+        if (mock === undefined) {
+            return JSON.stringify({ error: `No mock result configured for ${call.name}` });
+        }
+        const template = typeof mock === 'string' ? mock : JSON.stringify(mock);
+        return fillPlaceholders(template, call.args || {}, typeof mock !== 'string' || isJsonTemplate(template));
+    }
+};
@@ -0,0 +1,52 @@
+/**
+ * Model-simulated tool results: an environment model reads the tool declaration,
+ * the call and the trace so far, and writes the result a real tool would return.
+ */
+
+import { PromptCategory, PromptRole, ToolSimulatorMode } from '../../interfaces/enums';
+import { callExternalApi } from '../externalApiService';
+import { PromptService } from '../promptService';
+import { formatToolTranscript } from './transcript';
+import type { ToolSimulator } from './types';
+
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*\n?([\s\S]*?)\n?```$/, '$1').trim();
+
+export const modelSimulator: ToolSimulator = {
+    mode: ToolSimulatorMode.Model,
+    label: 'Environment model',
+    async simulate({ call, tool, messages, environment, signal, maxRetries, retryDelay, onUsage }) {
+        if (!tool) {
+            return JSON.stringify({ error: `Unknown tool: ${call.name}` });
+        }
+        const schema = PromptService.getPromptSchema(PromptCategory.Generator, PromptRole.ToolEnvironment);
+        const userPrompt = `[TOOL DECLARATION]
+${JSON.stringify(tool.function, null, 2)}
+
+[CONVERSATION SO FAR]
+${formatToolTranscript(messages)}
+
+[CALL]
+${JSON.stringify({ name: call.name, arguments: call.args })}
+
+Return the tool result.`;
+
+        const raw = await callExternalApi({
+            provider: environment.provider,
+            apiKey: environment.apiKey,
+            model: environment.model,
+            apiType: environment.apiType,
+            customBaseUrl: environment.customBaseUrl,
+            systemPrompt: schema.prompt,
+            userPrompt,
+            signal,
+            maxRetries,
+            retryDelay,
+            // Native output keeps the system prompt as-is and returns the raw text
+            generationParams: { useNativeOutput: true },
+            structuredOutput: false,
+            onUsage
+        });
+        const text = typeof raw === 'string' ? raw : JSON.stringify(raw);
+        return stripCodeFence(text.replace(/<think>[\s\S]*?<\/think>/gi, ''));
+    }
+};
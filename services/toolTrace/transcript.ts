@@ -0,0 +1,24 @@
+import type { ChatMessage } from '../../types';
+import { ChatRole } from '../../interfaces/enums';
+
+/**
+ * Flatten a tool-use trace into the <think>/<tool_call>/<tool_response> text protocol,
+ * the same layout the assistant chat uses for providers without native tool calling
+ */
+export function formatToolTranscript(messages: ChatMessage[]): string {
+    return messages.map(msg => {
+        if (msg.role === ChatRole.Tool) {
+            return `<tool_response>\n${msg.content}\n</tool_response>`;
+        }
+        if (msg.role === ChatRole.Assistant) {
+            const parts: string[] = [];
+            if (msg.reasoning_content) parts.push(`<think>${msg.reasoning_content}</think>`);
+            if (msg.content) parts.push(msg.content);
+            (msg.toolCalls || []).forEach(tc => {
+                parts.push(`<tool_call>${JSON.stringify({ name: tc.name, arguments: tc.args })}</tool_call>`);
+            });
+            return `Assistant: ${parts.join('\n')}`;
+        }
+        return `User: ${msg.content}`;
+    }).join('\n');
+}
@@ -0,0 +1,34 @@
+import type { ChatMessage, DeclaredTool, ExternalProvider, ApiType, ToolUseConfig, UsageData } from '../../types';
+import { ToolSimulatorMode } from '../../interfaces/enums';
+import type { ToolCall } from '../chatService';
+
+/** Model endpoint used for the agent or the environment */
+export interface ToolTraceModel {
+    provider: ExternalProvider;
+    apiKey: string;
+    model: string;
+    apiType?: ApiType;
+    customBaseUrl?: string;
+}
+
+export interface ToolSimulationInput {
+    call: ToolCall;
+    /** Declaration of the called tool; undefined when the model called an undeclared tool */
+    tool?: DeclaredTool;
+    /** Trace so far, ending with the assistant turn that made the call */
+    messages: ChatMessage[];
+    config: ToolUseConfig;
+    environment: ToolTraceModel;
+    signal?: AbortSignal;
+    maxRetries: number;
+    retryDelay: number;
+    onUsage?: (usage: UsageData) => void;
+}
+
+/** Produces tool results; register new ones with `registerToolSimulator`. */
+export interface ToolSimulator {
+    mode: ToolSimulatorMode;
+    label: string;
+    /** @returns The tool message content */
+    simulate(input: ToolSimulationInput): Promise<string>;
+}
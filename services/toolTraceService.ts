@@ -0,0 +1,160 @@
+/**
+ * Tool-use trace generation: the agent model works on a seed with a declared tool schema,
+ * emitting <tool_call> blocks; each call is answered by a pluggable simulator (environment
+ * model or local mocks) until the agent gives a final answer.
+ */
+
+import type { ChatMessage, GenerationParams, ToolUseConfig, UsageData } from '../types';
+import { ChatRole, PromptCategory, PromptRole, ToolSimulatorMode } from '../interfaces/enums';
+import { logger } from '../utils/logger';
+import { ChatService } from './chatService';
+import { callExternalApi } from './externalApiService';
+import { PromptService } from './promptService';
+import { mockSimulator } from './toolTrace/mockSimulator';
+import { modelSimulator } from './toolTrace/modelSimulator';
+import { formatToolTranscript } from './toolTrace/transcript';
+import type { ToolSimulator, ToolTraceModel } from './toolTrace/types';
+
+export type { ToolSimulationInput, ToolSimulator, ToolTraceModel } from './toolTrace/types';
+export { formatToolTranscript } from './toolTrace/transcript';
+
+const simulators = new Map<ToolSimulatorMode, ToolSimulator>();
+
+/** Add or replace the simulator for a mode */
+export function registerToolSimulator(simulator: ToolSimulator): void {
+    simulators.set(simulator.mode, simulator);
+}
+
+export function getToolSimulators(): ToolSimulator[] {
+    return [...simulators.values()];
+}
+
+[modelSimulator, mockSimulator].forEach(registerToolSimulator);
+
+export interface ToolTraceParams {
+    seed: string;
+    config: ToolUseConfig;
+    agent: ToolTraceModel;
+    /** Model for the environment simulator; defaults to the agent */
+    environment?: ToolTraceModel;
+    signal?: AbortSignal;
+    maxRetries: number;
+    retryDelay: number;
+    generationParams?: GenerationParams;
+    /** Usage of each agent and environment call as it finishes */
+    onUsage?: (usage: UsageData) => void;
+}
+
+export interface ToolTraceResult {
+    /** user, then assistant turns with toolCalls and the tool messages answering them */
+    messages: ChatMessage[];
+    answer: string;
+    /** Agent reasoning across all assistant turns */
+    reasoning: string;
+    toolCallCount: number;
+    /** Agent and environment usage combined */
+    usage?: UsageData;
+}
+
+const invalidCallResult = (args: { raw?: string; error?: string }) => JSON.stringify({
+    error: `Invalid tool call JSON: ${args?.error || 'unparseable'}`,
+    received: args?.raw
+});
+
+/**
+ * Run the agent loop for one seed
+ *
+ * @throws Error when the agent returns an empty turn or is still calling tools after maxSteps turns
+ */
+export async function generateToolTrace(params: ToolTraceParams): Promise<ToolTraceResult> {
+    const { seed, config, agent, signal, maxRetries, retryDelay, generationParams, onUsage } = params;
+    const environment = params.environment || agent;
+    const simulator = simulators.get(config.simulator);
+    if (!simulator) {
+        throw new Error(`No tool simulator registered for ${config.simulator}`);
+    }
+    if (config.tools.length === 0) {
+        throw new Error('Tool-use mode needs at least one declared tool');
+    }
+
+    const schema = PromptService.getPromptSchema(PromptCategory.Generator, PromptRole.ToolAgent);
+    const systemPrompt = `${schema.prompt}\nAvailable Tools:\n${JSON.stringify(config.tools, null, 2)}`;
+    const messages: ChatMessage[] = [{ role: ChatRole.User, content: seed }];
+    let usage: UsageData | undefined;
+    const addUsage = (next: UsageData) => {
+        usage = {
+            prompt_tokens: (usage?.prompt_tokens || 0) + next.prompt_tokens,
+            completion_tokens: (usage?.completion_tokens || 0) + next.completion_tokens,
+            total_tokens: (usage?.total_tokens || 0) + next.total_tokens,
+            reasoning_tokens: ((usage?.reasoning_tokens || 0) + (next.reasoning_tokens || 0)) || undefined,
+            cost: (usage?.cost || 0) + (next.cost || 0)
+        };
+        onUsage?.(next);
+    };
+    let toolCallCount = 0;
+
+    for (let step = 1; step <= config.maxSteps; step++) {
+        const raw = await callExternalApi({
+            provider: agent.provider,
+            apiKey: agent.apiKey,
+            model: agent.model,
+            apiType: agent.apiType,
+            customBaseUrl: agent.customBaseUrl,
+            systemPrompt,
+            userPrompt: `${formatToolTranscript(messages)}\nAssistant:`,
+            signal,
+            maxRetries,
+            retryDelay,
+            // Native output: the text protocol is parsed here, not as a JSON schema
+            generationParams: { ...generationParams, useNativeOutput: true, splitFieldRequests: false, selfConsistency: undefined },
+            structuredOutput: false,
+            onUsage: addUsage
+        });
+        const text = typeof raw === 'string' ? raw : JSON.stringify(raw);
+        const { thinking, content, toolCalls } = ChatService.parseResponse(text);
+        // Parsed ids hash the call JSON, so repeated identical calls would collide
+        const calls = toolCalls.map((tc, i) => ({ ...tc, id: `call_${step}_${i + 1}` }));
+
+        const assistantMessage: ChatMessage = {
+            role: ChatRole.Assistant,
+            content,
+            reasoning_content: thinking || undefined,
+            ...(calls.length > 0 ? { toolCalls: calls } : {})
+        };
+        messages.push(assistantMessage);
+
+        if (calls.length === 0) {
+            if (!content.trim()) {
+                throw new Error(`[TOOL AGENT] returned an empty turn at step ${step}.`);
+            }
+            logger.log(`🛠️ Tool-use trace complete: ${step} turns, ${toolCallCount} tool calls`);
+            return {
+                messages,
+                answer: content,
+                reasoning: messages.map(m => m.reasoning_content).filter(Boolean).join('\n---\n'),
+                toolCallCount,
+                usage
+            };
+        }
+
+        for (const call of calls) {
+            toolCallCount++;
+            const result = call.name === 'invalid_tool_call'
+                ? invalidCallResult(call.args)
+                : await simulator.simulate({
+                    call,
+                    tool: config.tools.find(tool => tool.function.name === call.name),
+                    messages,
+                    config,
+                    environment,
+                    signal,
+                    maxRetries,
+                    retryDelay,
+                    onUsage: addUsage
+                });
+            messages.push({ role: ChatRole.Tool, content: result, toolCallId: call.id });
+        }
+    }
+
+    throw new Error(`[TOOL AGENT] still calling tools after ${config.maxSteps} steps.`);
+}
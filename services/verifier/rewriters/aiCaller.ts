@@ -151,6 +151,8 @@ export async function callRewriterAI(
 
         const result = await ExternalApiService.callExternalApi({
             provider: config.externalProvider,
+            // A rewrite asks for a new response, never the cached one
+            bypassCache: true,
             apiKey: config.apiKey || SettingsService.getApiKey(config.externalProvider),
             model: config.model,
             apiType: config.apiType || ApiType.Chat,
@@ -235,6 +237,7 @@ export async function callRewriterAIStreaming(
     } else {
         const result = await ExternalApiService.callExternalApi({
             provider: config.externalProvider,
+            bypassCache: true,
             apiKey: config.apiKey || SettingsService.getApiKey(config.externalProvider),
             model: config.model,
             apiType: config.apiType || ApiType.Chat,
@@ -314,6 +317,7 @@ export async function callRewriterAIStreamingWithSystemPrompt(
 
     const result = await ExternalApiService.callExternalApi({
         provider: config.externalProvider,
+        bypassCache: true,
         apiKey: config.apiKey || SettingsService.getApiKey(config.externalProvider),
         model: config.model,
         apiType: config.apiType || ApiType.Chat,
@@ -380,6 +384,7 @@ export async function callRewriterAIRaw(
     } else {
         const result = await ExternalApiService.callExternalApi({
             provider: config.externalProvider,
+            bypassCache: true,
             apiKey: config.apiKey || SettingsService.getApiKey(config.externalProvider),
             model: config.model,
             apiType: config.apiType || ApiType.Chat,
@@ -1,5 +1,6 @@
 import { VerifierItem } from '../../../types';
 import { OutputFieldName } from '../../../interfaces/enums';
+import { extractMessageParts } from '../../../utils/thinkTagParser';
 
 export type RewritableField = OutputFieldName.Query | OutputFieldName.Reasoning | OutputFieldName.Answer;
 
@@ -62,6 +63,39 @@ REWRITE THE LAST MESSAGE IN THE HISTORY ABOVE (the one marked as TARGET).
 IMPORTANT: Only rewrite the ANSWER portion. Preserve any existing reasoning structure.`;
 }
 
+/**
+ * Builds context for an alternative response at the target turn.
+ * Only the history before the target is shown, so the new response is written independently.
+ */
+export function buildAlternativeMessageContext(item: VerifierItem, targetIndex: number): string {
+    if (!item.messages || item.messages.length === 0) {
+        return '';
+    }
+
+    const formattedHistory = item.messages.slice(0, targetIndex).map(msg => {
+        const { content } = extractMessageParts(msg);
+        return `[${msg.role.toUpperCase()}]:
+${content}`;
+    }).join('\n\n');
+
+    return `## CONVERSATION HISTORY
+
+${formattedHistory}
+
+---
+TASK: Write the next ${item.messages[targetIndex].role.toUpperCase()} message in the conversation above.
+- Reason through the last request before answering.
+- Your response must be a VALID JSON object.
+
+Expected Output Format:
+{
+  "reasoning": "### 1. Query decomposition...",
+  "answer": "The response..."
+}
+
+Respond with ONLY the JSON object, no additional text.`;
+}
+
 /**
  * Plain text context builder for split-field mode (no JSON instructions).
  * Used when splitFieldRequests is enabled.
@@ -3,7 +3,7 @@ import { PromptCategory, PromptRole, OutputFieldName, VerifierRewriteTarget } fr
 import { PromptService } from '../../promptService';
 import { RewriterConfig, RewriterStreamCallback, callRewriterAI, callRewriterAIStreaming, callRewriterAIStreamingWithSystemPrompt } from './aiCaller';
 import { buildItemContext, buildItemContextPlainText } from './contextBuilder';
-import { buildMessageContext } from './contextBuilder';
+import { buildAlternativeMessageContext, buildMessageContext } from './contextBuilder';
 import { buildMessageContextForTarget } from './targetedContextBuilder';
 import { buildMessageContextForTargetPlainText } from './targetedContextBuilder';
 
@@ -151,6 +151,40 @@ Respond with a valid JSON object containing "reasoning" and "answer" fields.`;
     return rawAccumulated || cleanedResult;
 }
 
+/**
+ * Generates an alternative response (reasoning and answer) at a message, from the history before it.
+ * Returns the raw accumulated string for the caller to parse with extractJsonFields.
+ */
+export async function generateMessageAlternativeStreaming(
+    params: RewriteMessageParams,
+    onChunk: RewriterStreamCallback
+): Promise<string> {
+    const { item, messageIndex, config, signal } = params;
+
+    if (!item.messages || messageIndex >= item.messages.length || messageIndex === 0) {
+        throw new Error('Invalid message index or no preceding messages in item');
+    }
+
+    const systemPrompt = config.systemPrompt || `You are a helpful AI assistant continuing a conversation.
+Given the conversation so far, write the next assistant message with its reasoning trace.
+Respond with a valid JSON object containing "reasoning" and "answer" fields.`;
+
+    const userPrompt = buildAlternativeMessageContext(item, messageIndex);
+
+    let rawAccumulated = '';
+    const cleanedResult = await callRewriterAIStreamingWithSystemPrompt(
+        systemPrompt, userPrompt, config,
+        (chunk, accumulated) => {
+            rawAccumulated = accumulated;
+            onChunk(chunk, accumulated);
+        },
+        signal
+    );
+
+    // Same as rewriteMessageBothStreaming: the raw stream keeps both JSON fields
+    return rawAccumulated || cleanedResult;
+}
+
 /**
  * Split "Both" rewrite for field-level items (non-message).
  * Makes two sequential plain-text requests: reasoning first, then answer with reasoning context.
@@ -48,6 +48,7 @@ export {
     rewriteMessage,
     rewriteMessageStreaming,
     rewriteMessageBothStreaming,
+    generateMessageAlternativeStreaming,
     rewriteBothSplitStreaming,
     rewriteMessageBothSplitStreaming
 } from './verifier/rewriters/fieldRewriter';
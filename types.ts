@@ -21,18 +21,52 @@ export { ResponderPhase } from './interfaces/enums';
 export { ChatRole } from './interfaces/enums';
 
 // Models
-export type { ChatMessage, ChatUsageSummary } from './interfaces/models/ChatMessage';
+export type { ChatMessage, ChatMessageBranch, ChatUsageSummary } from './interfaces/models/ChatMessage';
 export type { SynthLogItem } from './interfaces/models/SynthLogItem';
 export type { VerifierItem } from './interfaces/models/VerifierItem';
 export type { ProviderModel } from './interfaces/models/ProviderModel';
 export type { CachedModelList } from './interfaces/models/CachedModelList';
+export type { PreferenceCandidate } from './interfaces/models/PreferenceCandidate';
+export type { SelfConsistencyTrace } from './interfaces/models/SelfConsistencyTrace';
+export type { GroundTruthResult } from './interfaces/models/GroundTruthResult';
 
 // Config
 export type { GenerationParams } from './interfaces/config/GenerationParams';
 export type { GenerationConfig } from './interfaces/config/GenerationConfig';
 export type { DeepPhaseConfig } from './interfaces/config/DeepPhaseConfig';
 export type { DeepConfig } from './interfaces/config/DeepConfig';
+export type { DeepPipelineGraph, DeepPipelineLoop, DeepPipelineNode } from './interfaces/config/DeepPipelineGraph';
+export type { TreeOfThoughtConfig } from './interfaces/config/TreeOfThoughtConfig';
+export { DEFAULT_TREE_OF_THOUGHT_CONFIG } from './interfaces/config/TreeOfThoughtConfig';
 export type { UserAgentConfig } from './interfaces/config/UserAgentConfig';
+export type { UserPersona } from './interfaces/config/UserPersona';
+export { DEFAULT_USER_PERSONAS } from './interfaces/config/UserPersona';
+export type { DedupConfig, DedupFieldWeights, DedupEmbeddingConfig } from './interfaces/config/DedupConfig';
+export { DEFAULT_DEDUP_CONFIG } from './interfaces/config/DedupConfig';
+export type { RubricCriterion, RubricCriterionFilter } from './interfaces/config/ScoringRubric';
+export { DEFAULT_RUBRIC_CRITERIA } from './interfaces/config/ScoringRubric';
+export type { PreferenceConfig, PreferenceVariant } from './interfaces/config/PreferenceConfig';
+export { DEFAULT_PREFERENCE_CONFIG } from './interfaces/config/PreferenceConfig';
+export type { ExportTemplate, ExportTemplateField } from './interfaces/config/ExportTemplate';
+export type { DatasetSplitConfig } from './interfaces/config/DatasetSplitConfig';
+export { DEFAULT_DATASET_SPLIT_CONFIG } from './interfaces/config/DatasetSplitConfig';
+export type { SelfConsistencyConfig } from './interfaces/config/SelfConsistencyConfig';
+export { DEFAULT_SELF_CONSISTENCY_CONFIG } from './interfaces/config/SelfConsistencyConfig';
+export type { GroundTruthConfig, CodeTestLanguage } from './interfaces/config/GroundTruthConfig';
+export { DEFAULT_GROUND_TRUTH_CONFIG } from './interfaces/config/GroundTruthConfig';
+export type { ToolUseConfig, DeclaredTool } from './interfaces/config/ToolUseConfig';
+export { DEFAULT_TOOL_USE_CONFIG } from './interfaces/config/ToolUseConfig';
+export type { TaxonomyConfig, TaxonomyNode } from './interfaces/config/TaxonomyConfig';
+export { DEFAULT_TAXONOMY_CONFIG } from './interfaces/config/TaxonomyConfig';
+export type { SeedEvolutionConfig, SeedLineage } from './interfaces/config/SeedEvolutionConfig';
+export { DEFAULT_SEED_EVOLUTION_CONFIG } from './interfaces/config/SeedEvolutionConfig';
+export type { RateLimitConfig, RateLimitRule } from './interfaces/config/RateLimitConfig';
+export { DEFAULT_RATE_LIMIT_CONFIG } from './interfaces/config/RateLimitConfig';
+export type { BudgetConfig, ModelPrice } from './interfaces/config/PricingConfig';
+export { DEFAULT_BUDGET_CONFIG, DEFAULT_MODEL_PRICES } from './interfaces/config/PricingConfig';
+export type { ModelFallback } from './interfaces/config/ModelFallback';
+export type { ResponseCacheConfig } from './interfaces/config/ResponseCacheConfig';
+export { DEFAULT_RESPONSE_CACHE_CONFIG } from './interfaces/config/ResponseCacheConfig';
 
 // Types
 export type { OutputField, PromptSchema, ParsedSchemaOutput } from './interfaces/types/PromptSchema';
@@ -157,6 +191,7 @@ export interface StepModelConfig {
   apiType?: import('./interfaces/enums').ApiType;
   model: string;
   generationParams?: import('./interfaces/config/GenerationParams').GenerationParams;
+  fallbacks?: import('./interfaces/config/ModelFallback').ModelFallback[];
 }
 
 export interface AutoscoreConfig {
@@ -168,6 +203,12 @@ export interface AutoscoreConfig {
   customBaseUrl: string;
   promptSchema?: import('./interfaces/types/PromptSchema').PromptSchema;
   systemPrompt?: string;
+  /** Single 1-5 digit (default) or per-criterion rubric JSON */
+  mode?: import('./interfaces/enums').AutoscoreMode;
+  rubric?: import('./interfaces/config/ScoringRubric').RubricCriterion[];
+  /** Judge ensemble; when non-empty every judge scores each item and the scores are aggregated */
+  judges?: import('./services/settingsService').StepModelConfig[];
+  judgeAggregation?: import('./interfaces/enums').JudgeAggregation;
   concurrency: number;
   sleepTime: number;
   maxRetries: number;
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { getSampleTemperatures, normalizeAnswer, voteOnAnswers } from './answerVoting';
+
+describe('normalizeAnswer', () => {
+    it('strips lead-ins, boxing, surrounding emphasis and trailing punctuation', () => {
+        expect(normalizeAnswer('The final answer is: \\boxed{1,000.0}')).toBe('1000');
+        expect(normalizeAnswer('**42**.')).toBe('42');
+        expect(normalizeAnswer('`Paris`')).toBe('paris');
+        expect(normalizeAnswer('$\\text{Yes}$')).toBe('yes');
+    });
+
+    it('keeps markers inside the answer', () => {
+        expect(normalizeAnswer('x_1')).toBe('x_1');
+        expect(normalizeAnswer('x_1')).not.toBe(normalizeAnswer('x1'));
+        expect(normalizeAnswer('*a*b*')).toBe('a*b');
+    });
+});
+
+describe('voteOnAnswers', () => {
+    it('picks the most common normalized answer and reports its share', () => {
+        const vote = voteOnAnswers(['42', '**42**', '41', '']);
+        expect(vote.tally).toEqual({ '42': 2, '41': 1 });
+        expect(vote.majority).toBe('42');
+        expect(vote.agreement).toBeCloseTo(2 / 3);
+    });
+
+    it('breaks ties in favour of the answer seen first', () => {
+        expect(voteOnAnswers(['b', 'a', 'a', 'b']).majority).toBe('b');
+        expect(voteOnAnswers([])).toEqual({ tally: {}, majority: '', agreement: 0 });
+    });
+});
+
+describe('getSampleTemperatures', () => {
+    it('spreads samples evenly around the base and clamps to the valid range', () => {
+        expect(getSampleTemperatures(3, 1, 0.4)).toEqual([0.8, 1, 1.2]);
+        expect(getSampleTemperatures(3, 0.1, 1)).toEqual([0, 0.1, 0.6]);
+        expect(getSampleTemperatures(2, undefined, 0)).toEqual([0.8, 0.8]);
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * Self-consistency helpers: final-answer normalization, majority voting and the
+ * temperature schedule used to sample independent traces.
+ */
+
+/** Temperature used as the centre of the schedule when none is configured */
+const DEFAULT_BASE_TEMPERATURE = 0.8;
+const MAX_TEMPERATURE = 2;
+
+export interface AnswerVote {
+    /** Votes per normalized answer */
+    tally: Record<string, number>;
+    /** Winning normalized answer; ties go to the answer seen first */
+    majority: string;
+    /** Share of answers matching the majority, 0-1 */
+    agreement: number;
+}
+
+const unwrapBoxed = (text: string): string => {
+    const match = text.match(/\\boxed\s*\{([\s\S]*)\}/);
+    return match ? match[1] : text;
+};
+
+const canonicalNumber = (text: string): string | null => {
+    const candidate = text.replace(/,(?=\d{3}\b)/g, '').replace(/^\$|%$/g, '');
+    if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(candidate)) return null;
+    const value = Number(candidate);
+    return Number.isFinite(value) ? String(value) : null;
+};
+
+/**
+ * Reduce a final answer to the form it is voted under: strips a trailing
+ * "final answer:" lead-in, \boxed{}, LaTeX delimiters, surrounding markdown emphasis,
+ * case, whitespace and trailing punctuation; numbers are canonicalized (1,000.0 → 1000).
+ * Markers inside the answer stay, so `x_1` and `x1` are different answers.
+ */
+export function normalizeAnswer(answer: string): string {
+    let text = (answer || '').trim();
+    const lead = text.match(/(?:final answer|answer)\s*(?:is|:)\s*([\s\S]+)$/i);
+    if (lead) text = lead[1];
+    text = unwrapBoxed(text)
+        .replace(/^[*_`]+|[*_`]+$/g, '')
+        .replace(/^\$+|\$+$/g, '')
+        .replace(/^\\\(|\\\)$/g, '')
+        .replace(/\\text\{([^}]*)\}/g, '$1')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/[*_`.;:!]+$/, '')
+        .trim()
+        .toLowerCase();
+    return canonicalNumber(text) ?? text;
+}
+
+/**
+ * Majority vote over final answers
+ *
+ * @param answers - Raw final answers, one per sampled trace; empty answers do not vote
+ */
+export function voteOnAnswers(answers: string[]): AnswerVote {
+    const tally: Record<string, number> = {};
+    const order: string[] = [];
+    answers.map(normalizeAnswer).filter(Boolean).forEach(key => {
+        if (!(key in tally)) order.push(key);
+        tally[key] = (tally[key] || 0) + 1;
+    });
+    const majority = order.reduce((best, key) => (tally[key] > (tally[best] || 0) ? key : best), '');
+    const voters = order.reduce((sum, key) => sum + tally[key], 0);
+    return { tally, majority, agreement: voters > 0 ? tally[majority] / voters : 0 };
+}
+
+/**
+ * Sampling temperatures spread evenly across `spread`, centred on the base temperature
+ */
+export function getSampleTemperatures(samples: number, baseTemperature: number | undefined, spread: number): number[] {
+    const base = typeof baseTemperature === 'number' ? baseTemperature : DEFAULT_BASE_TEMPERATURE;
+    const count = Math.max(1, Math.floor(samples));
+    if (count === 1 || spread <= 0) return new Array(count).fill(base);
+    const low = base - spread / 2;
+    const step = spread / (count - 1);
+    return Array.from({ length: count }, (_, i) =>
+        Math.round(Math.min(MAX_TEMPERATURE, Math.max(0, low + step * i)) * 100) / 100
+    );
+}
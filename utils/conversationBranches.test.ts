@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { ChatRole } from '../interfaces/enums';
+import type { ChatMessage } from '../interfaces/models/ChatMessage';
+import {
+    addAlternative,
+    buildTurnPreferencePairs,
+    countAlternatives,
+    formatTurnPrompt,
+    getTurnModel,
+    removeAlternative,
+    selectBranch
+} from './conversationBranches';
+
+const message = (role: ChatRole, content: string, fields: Partial<ChatMessage> = {}): ChatMessage => ({ role, content, ...fields });
+
+const conversation: ChatMessage[] = [
+    message(ChatRole.User, 'What is 2 + 2?'),
+    message(ChatRole.Assistant, '4'),
+    message(ChatRole.User, 'And times 3?'),
+    message(ChatRole.Assistant, '12')
+];
+
+describe('addAlternative', () => {
+    it('adds a branch at the turn and leaves the canonical path alone', () => {
+        const next = addAlternative(conversation, 1, message(ChatRole.Assistant, '5'));
+        expect(next.map(m => m.content)).toEqual(['What is 2 + 2?', '4', 'And times 3?', '12']);
+        expect(next[1].alternatives?.[0].messages).toEqual([message(ChatRole.Assistant, '5', { alternatives: undefined })]);
+        expect(conversation[1].alternatives).toBeUndefined();
+        expect(countAlternatives(addAlternative(next, 1, message(ChatRole.Assistant, 'four')))).toBe(2);
+    });
+
+    it('ignores an index past the end', () => {
+        expect(addAlternative(conversation, 9, message(ChatRole.Assistant, '5'))).toBe(conversation);
+    });
+});
+
+describe('selectBranch', () => {
+    it('swaps the branch in and keeps the replaced tail as a branch', () => {
+        const withBranch = addAlternative(conversation, 1, message(ChatRole.Assistant, '5'));
+        const branchId = withBranch[1].alternatives![0].id;
+        const next = selectBranch(withBranch, 1, branchId);
+
+        expect(next.map(m => m.content)).toEqual(['What is 2 + 2?', '5']);
+        expect(next[1].alternatives).toHaveLength(1);
+        expect(next[1].alternatives![0].messages.map(m => m.content)).toEqual(['4', 'And times 3?', '12']);
+
+        const restored = selectBranch(next, 1, next[1].alternatives![0].id);
+        expect(restored.map(m => m.content)).toEqual(['What is 2 + 2?', '4', 'And times 3?', '12']);
+    });
+
+    it('leaves the messages alone for an unknown branch', () => {
+        expect(selectBranch(conversation, 1, 'missing')).toBe(conversation);
+    });
+});
+
+describe('removeAlternative', () => {
+    it('drops the branch and clears the list once it is empty', () => {
+        const withBranch = addAlternative(conversation, 1, message(ChatRole.Assistant, '5'));
+        const next = removeAlternative(withBranch, 1, withBranch[1].alternatives![0].id);
+        expect(next[1].alternatives).toBeUndefined();
+        expect(countAlternatives(next)).toBe(0);
+    });
+});
+
+describe('formatTurnPrompt', () => {
+    it('uses a lone user turn as is and labels longer histories, skipping tool turns', () => {
+        expect(formatTurnPrompt(conversation, 1)).toBe('What is 2 + 2?');
+        expect(formatTurnPrompt([message(ChatRole.System, 'Be brief.'), ...conversation, message(ChatRole.Tool, 'result')], 6)).toBe(
+            'System: Be brief.\n\nUser: What is 2 + 2?\n\nAssistant: 4\n\nUser: And times 3?\n\nAssistant: 12'
+        );
+    });
+});
+
+describe('buildTurnPreferencePairs', () => {
+    it('pairs each canonical assistant turn with its differing alternatives', () => {
+        let messages = addAlternative(conversation, 1, message(ChatRole.Assistant, '5'));
+        messages = addAlternative(messages, 1, message(ChatRole.Assistant, '4'));
+        messages = addAlternative(messages, 3, message(ChatRole.Assistant, '13'));
+        messages = addAlternative(messages, 0, message(ChatRole.User, 'What is 2 plus 2?'));
+
+        const pairs = buildTurnPreferencePairs(messages);
+        expect(pairs.map(pair => [pair.messageIndex, pair.chosen.content, pair.rejected.content])).toEqual([
+            [1, '4', '5'],
+            [3, '12', '13']
+        ]);
+        expect(pairs[1].prompt).toBe('User: What is 2 + 2?\n\nAssistant: 4\n\nUser: And times 3?');
+        expect(buildTurnPreferencePairs(undefined)).toEqual([]);
+    });
+});
+
+describe('getTurnModel', () => {
+    it('prefers the turn model over the item model', () => {
+        expect(getTurnModel(message(ChatRole.Assistant, '4', { modelUsed: 'model-b' }), { modelUsed: 'model-a' })).toBe('model-b');
+        expect(getTurnModel(message(ChatRole.Assistant, '4'), { modelUsed: 'model-a' })).toBe('model-a');
+        expect(getTurnModel(message(ChatRole.Assistant, '4'), { modelUsed: '' })).toBe('');
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * Conversation branches: a multi-turn item keeps its canonical path in `messages`, and any
+ * turn can hold alternative responses (each with the conversation that followed it).
+ */
+
+import type { ChatMessage, ChatMessageBranch } from '../interfaces/models/ChatMessage';
+import type { SynthLogItem } from '../interfaces/models/SynthLogItem';
+import { ChatRole } from '../interfaces/enums';
+import { createChatMessageId } from './chatMessageId';
+
+export const TURN_BRANCH_SOURCE = 'turn_branch';
+
+/** One exported pair: the canonical turn against an alternative at the same point */
+export interface TurnPreferencePair {
+    messageIndex: number;
+    prompt: string;
+    chosen: ChatMessage;
+    rejected: ChatMessage;
+}
+
+/** Messages with an alternative response added at messageIndex; the canonical path is unchanged */
+export function addAlternative(messages: ChatMessage[], messageIndex: number, alternative: ChatMessage): ChatMessage[] {
+    const target = messages[messageIndex];
+    if (!target) return messages;
+    const branch: ChatMessageBranch = {
+        id: createChatMessageId(),
+        messages: [{ ...alternative, alternatives: undefined }],
+        createdAt: Date.now()
+    };
+    const next = [...messages];
+    next[messageIndex] = { ...target, alternatives: [...(target.alternatives || []), branch] };
+    return next;
+}
+
+/**
+ * Make a branch canonical at messageIndex: its turn and continuation replace the current
+ * tail, which is kept as a branch so nothing is lost
+ */
+export function selectBranch(messages: ChatMessage[], messageIndex: number, branchId: string): ChatMessage[] {
+    const target = messages[messageIndex];
+    const branch = target?.alternatives?.find(b => b.id === branchId);
+    if (!target || !branch || branch.messages.length === 0) return messages;
+
+    const { alternatives, ...current } = target;
+    const previous: ChatMessageBranch = {
+        id: createChatMessageId(),
+        messages: [current, ...messages.slice(messageIndex + 1)],
+        createdAt: Date.now()
+    };
+    const [head, ...continuation] = branch.messages;
+    const remaining = (alternatives || []).filter(b => b.id !== branchId);
+    return [
+        ...messages.slice(0, messageIndex),
+        { ...head, alternatives: [previous, ...remaining] },
+        ...continuation
+    ];
+}
+
+/** Messages with one alternative removed at messageIndex */
+export function removeAlternative(messages: ChatMessage[], messageIndex: number, branchId: string): ChatMessage[] {
+    const target = messages[messageIndex];
+    if (!target?.alternatives) return messages;
+    const remaining = target.alternatives.filter(b => b.id !== branchId);
+    const next = [...messages];
+    next[messageIndex] = { ...target, alternatives: remaining.length > 0 ? remaining : undefined };
+    return next;
+}
+
+export const countAlternatives = (messages?: ChatMessage[]): number =>
+    (messages || []).reduce((sum, message) => sum + (message.alternatives?.length || 0), 0);
+
+/** Plain transcript of the turns before messageIndex, used as the pair prompt */
+export function formatTurnPrompt(messages: ChatMessage[], messageIndex: number): string {
+    const history = messages.slice(0, messageIndex).filter(m => m.role !== ChatRole.Tool);
+    if (history.length === 1 && history[0].role === ChatRole.User) {
+        return history[0].content;
+    }
+    return history.map(m => `${m.role === ChatRole.User ? 'User' : m.role === ChatRole.System ? 'System' : 'Assistant'}: ${m.content}`).join('\n\n');
+}
+
+/** Canonical response vs each of its alternatives, for every turn on the canonical path */
+export function buildTurnPreferencePairs(messages?: ChatMessage[]): TurnPreferencePair[] {
+    const pairs: TurnPreferencePair[] = [];
+    (messages || []).forEach((message, idx) => {
+        if (message.role === ChatRole.User || message.role === ChatRole.Tool || !message.alternatives) return;
+        const prompt = formatTurnPrompt(messages!, idx);
+        message.alternatives.forEach(branch => {
+            const rejected = branch.messages[0];
+            if (!rejected || rejected.content === message.content) return;
+            pairs.push({ messageIndex: idx, prompt, chosen: message, rejected });
+        });
+    });
+    return pairs;
+}
+
+/** Model for a turn: the message's own, else the item's */
+export const getTurnModel = (message: ChatMessage, item: Pick<SynthLogItem, 'modelUsed'>): string =>
+    message.modelUsed || item.modelUsed || '';
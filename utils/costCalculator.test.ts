@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { ExternalProvider, type ModelPrice } from '../types';
+import { calculateUsageCost, findModelPrice, formatCost } from './costCalculator';
+
+const prices: ModelPrice[] = [
+    { provider: ExternalProvider.Anthropic, model: 'claude-sonnet-4*', inputPerMTok: 3, outputPerMTok: 15 },
+    { provider: ExternalProvider.Anthropic, model: 'claude-*', inputPerMTok: 1, outputPerMTok: 5 },
+    { provider: ExternalProvider.Anthropic, model: 'claude-sonnet-4*', inputPerMTok: 99, outputPerMTok: 99 }
+];
+
+describe('findModelPrice', () => {
+    it('takes the longest prefix, and the earlier entry on a tie', () => {
+        expect(findModelPrice(prices, ExternalProvider.Anthropic, 'claude-sonnet-4-5')?.inputPerMTok).toBe(3);
+        expect(findModelPrice(prices, ExternalProvider.Anthropic, 'claude-haiku')?.inputPerMTok).toBe(1);
+        expect(findModelPrice(prices, ExternalProvider.OpenAI, 'claude-haiku')).toBeNull();
+    });
+});
+
+describe('calculateUsageCost', () => {
+    it('bills reasoning at the output price when the model has no reasoning price', () => {
+        const cost = calculateUsageCost({ prompt_tokens: 200_000, completion_tokens: 100_000, reasoning_tokens: 50_000 }, prices[0]);
+        expect(cost).toBeCloseTo(0.6 + 1.5);
+    });
+
+    it('caps reasoning tokens at the completion tokens', () => {
+        const price: ModelPrice = { ...prices[0], reasoningPerMTok: 0 };
+        expect(calculateUsageCost({ prompt_tokens: 0, completion_tokens: 100_000, reasoning_tokens: 300_000 }, price)).toBe(0);
+    });
+});
+
+describe('formatCost', () => {
+    it('shows more decimals for small sums', () => {
+        expect(formatCost(0)).toBe('$0');
+        expect(formatCost(0.00123)).toBe('$0.0012');
+        expect(formatCost(0.456)).toBe('$0.456');
+        expect(formatCost(12.345)).toBe('$12.35');
+    });
+});
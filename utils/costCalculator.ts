@@ -0,0 +1,58 @@
+/**
+ * Token pricing: model price lookup and the USD cost of a call's usage.
+ * Mirrored on the backend in server/utils/costCalculator.js.
+ */
+
+import type { ModelPrice } from '../types';
+
+export interface CostUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+    /** Part of completion_tokens spent on reasoning */
+    reasoning_tokens?: number;
+}
+
+/** How specifically a price entry matches a model; -1 when it does not */
+const matchScore = (pattern: string, model: string): number => {
+    if (pattern === model) return Number.MAX_SAFE_INTEGER;
+    if (pattern === '*') return 0;
+    if (pattern.endsWith('*') && model.startsWith(pattern.slice(0, -1))) return pattern.length;
+    return -1;
+};
+
+/**
+ * Price for a model: an exact id wins over the longest matching prefix, which wins over `*`.
+ * On equal matches the earlier entry wins, so user entries listed first override defaults.
+ */
+export function findModelPrice(prices: ModelPrice[], provider: string, model: string): ModelPrice | null {
+    let best: ModelPrice | null = null;
+    let bestScore = -1;
+    prices.forEach(price => {
+        if (price.provider !== provider) return;
+        const score = matchScore(price.model, model);
+        if (score > bestScore) {
+            best = price;
+            bestScore = score;
+        }
+    });
+    return best;
+}
+
+/** USD cost of one call; reasoning tokens are billed at the reasoning price when set */
+export function calculateUsageCost(usage: CostUsage, price: ModelPrice): number {
+    const reasoning = Math.min(usage.reasoning_tokens || 0, usage.completion_tokens || 0);
+    const output = (usage.completion_tokens || 0) - reasoning;
+    return (
+        (usage.prompt_tokens || 0) * price.inputPerMTok
+        + output * price.outputPerMTok
+        + reasoning * (price.reasoningPerMTok ?? price.outputPerMTok)
+    ) / 1_000_000;
+}
+
+/** Dollar amount for display: more decimals for small sums */
+export const formatCost = (usd: number): string => {
+    if (usd === 0) return '$0';
+    if (usd < 0.01) return `$${usd.toFixed(4)}`;
+    if (usd < 1) return `$${usd.toFixed(3)}`;
+    return `$${usd.toFixed(2)}`;
+};
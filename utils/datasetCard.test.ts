@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SELF_CONSISTENCY_CONFIG } from '../interfaces/config/SelfConsistencyConfig';
+import type { SynthLogItem } from '../interfaces/models/SynthLogItem';
+import { buildDatasetCard, buildSplitDatasetCard, collectDatasetCardStats, replaceDatasetCardDataFiles } from './datasetCard';
+
+const item = (fields: Partial<SynthLogItem>) => ({ id: 'x', query: '', full_seed: '', reasoning: '', answer: '', ...fields } as SynthLogItem);
+
+describe('collectDatasetCardStats', () => {
+    it('counts rows per model and score and summarizes token counts', () => {
+        const stats = collectDatasetCardStats([
+            item({ modelUsed: 'gpt-4o', score: 5, tokenCount: 100 }),
+            item({ modelUsed: 'gpt-4o', usage: { prompt_tokens: 10, completion_tokens: 290, total_tokens: 300 } }),
+            item({})
+        ]);
+        expect(stats).toEqual({
+            rows: 3,
+            models: { 'gpt-4o': 2, unknown: 1 },
+            scores: { '5': 1, unscored: 2 },
+            tokens: { total: 400, mean: 200, min: 100, max: 300 }
+        });
+    });
+});
+
+describe('buildDatasetCard', () => {
+    const stats = collectDatasetCardStats([
+        item({ modelUsed: 'gpt-4o', score: 4, tokenCount: 50 }),
+        item({ modelUsed: 'claude', score: 4 }),
+        item({ modelUsed: 'claude', score: 1 })
+    ]);
+    const files = [{ split: 'train', path: 'data/train.jsonl', rows: 2 }, { split: 'test', path: 'data/test.jsonl', rows: 1 }];
+
+    it('writes YAML metadata for the license, size, source and split files', () => {
+        const card = buildDatasetCard({
+            repoId: 'me/math-traces',
+            files,
+            license: 'mit',
+            stats,
+            sourceDataset: { dataset: 'org/source', config: 'main', split: 'train' }
+        });
+        const yaml = card.split('---')[1];
+        expect(yaml).toContain('license: mit\nsize_categories:\n- n<1K');
+        expect(yaml).toContain('source_datasets:\n- org/source');
+        expect(yaml).toContain('  data_files:\n  - split: train\n    path: data/train.jsonl\n  - split: test\n    path: data/test.jsonl');
+        expect(card).toContain('# math-traces');
+        expect(card).toContain('## Source Data\n\n- **Dataset:** [org/source](https://huggingface.co/datasets/org/source)\n- **Config:** main\n- **Split:** train');
+    });
+
+    it('summarizes splits, models and scores, and lists scalar generation params', () => {
+        const card = buildDatasetCard({
+            repoId: 'me/data',
+            files,
+            license: '',
+            stats,
+            promptSet: 'default',
+            generationParams: { temperature: 0.7, topP: undefined, selfConsistency: { ...DEFAULT_SELF_CONSISTENCY_CONFIG, enabled: true } }
+        });
+        expect(card).toContain('| train | 2 |\n| test | 1 |\n| **total** | 3 |');
+        expect(card).toContain('| claude | 2 |\n| gpt-4o | 1 |');
+        expect(card).toContain('| Score | Rows |\n| --- | ---: |\n| 1 | 1 |\n| 4 | 2 |\n');
+        expect(card).toContain('## Generation\n\n- **Prompt set:** default\n- **temperature:** 0.7\n\n');
+        expect(card).not.toContain('selfConsistency');
+        expect(card).toContain('license: other');
+        expect(card).toContain('## Token Statistics');
+        expect(card).not.toContain('## Source Data');
+    });
+
+    it('leaves out token statistics when no row has a token count', () => {
+        const card = buildDatasetCard({ repoId: 'me/data', files, license: 'mit', stats: collectDatasetCardStats([item({})]) });
+        expect(card).not.toContain('## Token Statistics');
+        expect(card).not.toContain('## Generation');
+    });
+
+    it('picks the size category from the row count', () => {
+        const sized = (rows: number) => buildDatasetCard({ repoId: 'me/data', files, license: 'mit', stats: { ...stats, rows } });
+        expect(sized(999)).toContain('- n<1K');
+        expect(sized(1000)).toContain('- 1K<n<10K');
+        expect(sized(250000)).toContain('- 100K<n<1M');
+    });
+});
+
+describe('replaceDatasetCardDataFiles', () => {
+    it('points the default config at the new files and keeps the rest of the card', () => {
+        const card = `${buildSplitDatasetCard('me/data', [
+            { split: 'train', path: 'data/train.parquet', rows: 8 },
+            { split: 'test', path: 'data/test.parquet', rows: 2 }
+        ])}\nEdited by hand.\n`;
+        const replaced = replaceDatasetCardDataFiles(card, [{ split: 'train', path: 'data/train-*.parquet', rows: 10 }]);
+        expect(replaced).toContain('  data_files:\n  - split: train\n    path: data/train-*.parquet\n---');
+        expect(replaced).not.toContain('data/test.parquet');
+        expect(replaced).toContain('Edited by hand.');
+    });
+
+    it('leaves cards without a default config alone', () => {
+        expect(replaceDatasetCardDataFiles('# Notes only', [{ split: 'train', path: 'x', rows: 1 }])).toBe('# Notes only');
+    });
+});
@@ -0,0 +1,191 @@
+/**
+ * HuggingFace dataset card (README.md) generation.
+ */
+
+import type { GenerationParams } from '../interfaces/config/GenerationParams';
+import type { SynthLogItem } from '../interfaces/models/SynthLogItem';
+import type { HuggingFaceConfig } from '../types';
+
+export interface DatasetCardFile {
+    split: string;
+    path: string;
+    rows: number;
+}
+
+export interface DatasetCardStats {
+    rows: number;
+    /** Rows per `modelUsed` */
+    models: Record<string, number>;
+    /** Rows per score (1-5); unscored rows under "unscored" */
+    scores: Record<string, number>;
+    tokens: { total: number; mean: number; min: number; max: number } | null;
+}
+
+export interface DatasetCardOptions {
+    repoId: string;
+    files: DatasetCardFile[];
+    /** HF license id, e.g. apache-2.0 */
+    license: string;
+    stats: DatasetCardStats;
+    sourceDataset?: HuggingFaceConfig;
+    promptSet?: string;
+    generationParams?: GenerationParams;
+}
+
+/** License ids offered in the card editor; HF accepts any id from its license list. */
+export const DATASET_CARD_LICENSES = ['apache-2.0', 'mit', 'cc-by-4.0', 'cc-by-sa-4.0', 'cc-by-nc-4.0', 'cc0-1.0', 'odc-by', 'other'];
+
+/** Stats gathered one item at a time, for sessions read page by page */
+export function createDatasetCardStatsCollector() {
+    const models: Record<string, number> = {};
+    const scores: Record<string, number> = {};
+    let rows = 0;
+    let tokenRows = 0;
+    let total = 0;
+    let min = Infinity;
+    let max = 0;
+
+    return {
+        add(item: SynthLogItem) {
+            rows++;
+            const model = item.modelUsed || 'unknown';
+            models[model] = (models[model] || 0) + 1;
+            const score = item.score ? String(item.score) : 'unscored';
+            scores[score] = (scores[score] || 0) + 1;
+            const tokens = item.usage?.total_tokens ?? item.tokenCount;
+            if (typeof tokens === 'number' && tokens > 0) {
+                tokenRows++;
+                total += tokens;
+                min = Math.min(min, tokens);
+                max = Math.max(max, tokens);
+            }
+        },
+        result(): DatasetCardStats {
+            return {
+                rows,
+                models,
+                scores,
+                tokens: tokenRows > 0 ? { total, mean: Math.round(total / tokenRows), min, max } : null
+            };
+        }
+    };
+}
+
+export function collectDatasetCardStats(items: SynthLogItem[]): DatasetCardStats {
+    const collector = createDatasetCardStatsCollector();
+    items.forEach(item => collector.add(item));
+    return collector.result();
+}
+
+const getSizeCategory = (rows: number) => {
+    if (rows < 1000) return 'n<1K';
+    if (rows < 10000) return '1K<n<10K';
+    if (rows < 100000) return '10K<n<100K';
+    if (rows < 1000000) return '100K<n<1M';
+    return '1M<n<10M';
+};
+
+const toTable = (header: [string, string], rows: [string, string | number][]) =>
+    [`| ${header[0]} | ${header[1]} |`, '| --- | ---: |', ...rows.map(([key, value]) => `| ${key} | ${value} |`)].join('\n');
+
+const formatDataFiles = (files: DatasetCardFile[]) =>
+    files.map(file => `  - split: ${file.split}\n    path: ${file.path}`).join('\n');
+
+/**
+ * Full dataset card: YAML metadata (license, size, source, split files) and a summary of the data
+ */
+export function buildDatasetCard({ repoId, files, license, stats, sourceDataset, promptSet, generationParams }: DatasetCardOptions): string {
+    const dataFiles = formatDataFiles(files);
+    const yaml = [
+        `license: ${license || 'other'}`,
+        'size_categories:',
+        `- ${getSizeCategory(stats.rows)}`,
+        'tags:',
+        '- synthetic',
+        '- synthlabs',
+        ...(sourceDataset?.dataset ? ['source_datasets:', `- ${sourceDataset.dataset}`] : []),
+        'configs:',
+        '- config_name: default',
+        '  data_files:',
+        dataFiles
+    ].join('\n');
+
+    const scoreOrder = ['1', '2', '3', '4', '5', 'unscored'];
+    const sections = [
+        `# ${repoId.split('/').pop() || repoId}`,
+        'Synthetic dataset generated and curated with SynthLabs.',
+        '## Splits',
+        toTable(['Split', 'Rows'], [...files.map(f => [f.split, f.rows] as [string, number]), ['**total**', stats.rows]]),
+        '## Models',
+        toTable(['Model', 'Rows'], Object.entries(stats.models).sort((a, b) => b[1] - a[1])),
+        '## Score Distribution',
+        toTable(['Score', 'Rows'], scoreOrder.filter(s => stats.scores[s]).map(s => [s, stats.scores[s]]))
+    ];
+    if (stats.tokens) {
+        sections.push('## Token Statistics', toTable(['Metric', 'Tokens'], [
+            ['total', stats.tokens.total],
+            ['mean per row', stats.tokens.mean],
+            ['min', stats.tokens.min],
+            ['max', stats.tokens.max]
+        ]));
+    }
+
+    const generation: string[] = [];
+    if (promptSet) generation.push(`- **Prompt set:** ${promptSet}`);
+    if (generationParams) {
+        Object.entries(generationParams)
+            .filter(([, value]) => value !== undefined && value !== null && typeof value !== 'object')
+            .forEach(([key, value]) => generation.push(`- **${key}:** ${value}`));
+    }
+    if (generation.length > 0) sections.push('## Generation', generation.join('\n'));
+
+    if (sourceDataset?.dataset) {
+        const source = [`- **Dataset:** [${sourceDataset.dataset}](https://huggingface.co/datasets/${sourceDataset.dataset})`];
+        if (sourceDataset.config) source.push(`- **Config:** ${sourceDataset.config}`);
+        if (sourceDataset.split) source.push(`- **Split:** ${sourceDataset.split}`);
+        sections.push('## Source Data', source.join('\n'));
+    }
+
+    sections.push('## License', `Released under \`${license || 'other'}\`. Check the source dataset and model terms before use.`);
+
+    return `---\n${yaml}\n---\n\n${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Minimal card whose YAML header maps each uploaded file to its split, used when no card is supplied
+ */
+export function buildSplitDatasetCard(repoId: string, files: DatasetCardFile[]): string {
+    const dataFiles = formatDataFiles(files);
+    const rows = files.map(file => `| ${file.split} | ${file.rows} |`).join('\n');
+    const total = files.reduce((sum, file) => sum + file.rows, 0);
+
+    return `---
+configs:
+- config_name: default
+  data_files:
+${dataFiles}
+---
+
+# ${repoId.split('/').pop() || repoId}
+
+Generated with SynthLabs.
+
+## Splits
+
+| Split | Rows |
+| --- | ---: |
+${rows}
+| **total** | ${total} |
+`;
+}
+
+/**
+ * Point the default config of a card at other data files, e.g. an edited card written for
+ * single-file splits that is pushed with sharded files. Cards without that config are returned as is.
+ */
+export function replaceDatasetCardDataFiles(card: string, files: DatasetCardFile[]): string {
+    return card.replace(
+        /(- config_name: default\n  data_files:\n)(  - split: .*\n    path: .*(?:\n|$))+/,
+        (_match, head: string) => `${head}${formatDataFiles(files)}\n`
+    );
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { SplitStratifyBy } from '../interfaces/enums';
+import { getStratumKey, hasSplitRatios, splitDataset } from './datasetSplit';
+
+const row = (fields: { id?: string; score?: number; sessionUid?: string }) => ({ query: '', full_seed: '', ...fields });
+const rows = (n: number) => Array.from({ length: n }, (_, i) => row({ id: `row-${i}`, score: i % 2 === 0 ? 5 : 1 }));
+const config = { train: 0.8, validation: 0.1, test: 0.1, seed: 42 };
+
+describe('splitDataset', () => {
+    it('sizes the splits by largest remainder so they cover every row', () => {
+        const splits = splitDataset(rows(11), config);
+        expect([splits.train?.length, splits.validation?.length, splits.test?.length]).toEqual([9, 1, 1]);
+    });
+
+    it('normalizes ratios by their sum and leaves out empty splits', () => {
+        const splits = splitDataset(rows(10), { train: 3, validation: 1, test: 0, seed: 1 });
+        expect(splits.train).toHaveLength(8);
+        expect(splits.validation).toHaveLength(2);
+        expect(splits).not.toHaveProperty('test');
+    });
+
+    it('assigns by seed and id, whatever the row order', () => {
+        const items = rows(50);
+        const forward = splitDataset(items, config);
+        const backward = splitDataset([...items].reverse(), config);
+        expect(backward.test?.map(item => item.id).sort()).toEqual(forward.test?.map(item => item.id).sort());
+        expect(splitDataset(items, { ...config, seed: 7 }).test).not.toEqual(forward.test);
+    });
+
+    it('keeps the ratios within each stratum', () => {
+        const splits = splitDataset(rows(20), { train: 1, validation: 0, test: 1, seed: 3 }, item => getStratumKey(item, SplitStratifyBy.Score));
+        expect(splits.test?.filter(item => item.score === 5)).toHaveLength(5);
+        expect(splits.test?.filter(item => item.score === 1)).toHaveLength(5);
+    });
+
+    it('rejects ratios that add up to zero', () => {
+        expect(hasSplitRatios({ train: 0, validation: 0, test: 0 })).toBe(false);
+        expect(hasSplitRatios({ train: 0, validation: 0, test: 0.1 })).toBe(true);
+        expect(() => splitDataset(rows(3), { train: 0, validation: -1, test: 0, seed: 1 })).toThrow('more than zero');
+    });
+});
+
+describe('getStratumKey', () => {
+    it('falls back to untagged for sessions without a tag', () => {
+        expect(getStratumKey(row({ sessionUid: 's1' }), SplitStratifyBy.Tag, { s1: 'math' })).toBe('math');
+        expect(getStratumKey(row({ sessionUid: 's2' }), SplitStratifyBy.Tag, { s1: 'math' })).toBe('untagged');
+        expect(getStratumKey(row({ score: 4 }), SplitStratifyBy.None)).toBe('');
+    });
+});
@@ -0,0 +1,121 @@
+/**
+ * Deterministic, seeded train/validation/test splitting with optional stratification.
+ * Assignment depends only on the seed and each item's id, so re-exporting the same
+ * items (in any order) yields the same splits.
+ */
+
+import { SplitStratifyBy } from '../interfaces/enums';
+import type { DatasetSplitConfig } from '../interfaces/config/DatasetSplitConfig';
+import type { SynthLogItem } from '../interfaces/models/SynthLogItem';
+import { classifyTaskHeuristic } from '../services/taskClassifierService';
+
+export type DatasetSplitName = 'train' | 'validation' | 'test';
+
+export const DATASET_SPLIT_NAMES: DatasetSplitName[] = ['train', 'validation', 'test'];
+
+export type DatasetSplits<T> = Partial<Record<DatasetSplitName, T[]>>;
+
+// FNV-1a, 32-bit
+const hashString = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * Stratum an item falls into
+ *
+ * @param sessionTags - Session uid to tag name, for Tag stratification
+ */
+export function getStratumKey(
+    item: Pick<SynthLogItem, 'score' | 'query' | 'full_seed' | 'sessionUid'>,
+    stratifyBy: SplitStratifyBy,
+    sessionTags: Record<string, string> = {}
+): string {
+    switch (stratifyBy) {
+        case SplitStratifyBy.Score:
+            return String(item.score || 0);
+        case SplitStratifyBy.TaskType:
+            return classifyTaskHeuristic(item.query || item.full_seed || '').type;
+        case SplitStratifyBy.Tag:
+            return (item.sessionUid && sessionTags[item.sessionUid]) || 'untagged';
+        default:
+            return '';
+    }
+}
+
+type SplitRatios = Pick<DatasetSplitConfig, 'train' | 'validation' | 'test'>;
+
+const getRatios = (config: SplitRatios) => [config.train, config.validation, config.test].map(r => Math.max(0, Number(r) || 0));
+
+/** Whether at least one split ratio is above zero; splitting needs a non-zero sum */
+export function hasSplitRatios(config: SplitRatios): boolean {
+    return getRatios(config).some(r => r > 0);
+}
+
+/** Split sizes for n items by largest remainder, so they always sum to n */
+function allocate(n: number, ratios: number[]): number[] {
+    const total = ratios.reduce((sum, r) => sum + r, 0);
+    const exact = ratios.map(r => (total > 0 ? (n * r) / total : 0));
+    const counts = exact.map(Math.floor);
+    let remaining = n - counts.reduce((sum, c) => sum + c, 0);
+    exact
+        .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+        .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+        .forEach(({ index }) => {
+            if (remaining > 0) {
+                counts[index]++;
+                remaining--;
+            }
+        });
+    return counts;
+}
+
+/**
+ * Split items by the configured ratios, within each stratum
+ *
+ * @param items - Rows to split; `id` drives the assignment, falling back to the row index
+ * @param config - Ratios, seed and stratification
+ * @param getStratum - Stratum of an item; one stratum when omitted
+ * @returns Non-empty splits, each in the items' original order
+ * @throws When every ratio is zero
+ */
+export function splitDataset<T extends { id?: string }>(
+    items: T[],
+    config: Pick<DatasetSplitConfig, 'train' | 'validation' | 'test' | 'seed'>,
+    getStratum: (item: T) => string = () => ''
+): DatasetSplits<T> {
+    if (!hasSplitRatios(config)) {
+        throw new Error('Split ratios must add up to more than zero.');
+    }
+    const ratios = getRatios(config);
+    const strata = new Map<string, { index: number; key: number }[]>();
+    items.forEach((item, index) => {
+        const stratum = getStratum(item);
+        const key = hashString(`${config.seed}:${item.id ?? index}`);
+        if (!strata.has(stratum)) strata.set(stratum, []);
+        strata.get(stratum)!.push({ index, key });
+    });
+
+    const assignment = new Array<number>(items.length);
+    strata.forEach(entries => {
+        entries.sort((a, b) => a.key - b.key || a.index - b.index);
+        const counts = allocate(entries.length, ratios);
+        let cursor = 0;
+        counts.forEach((count, splitIndex) => {
+            entries.slice(cursor, cursor + count).forEach(entry => { assignment[entry.index] = splitIndex; });
+            cursor += count;
+        });
+    });
+
+    const splits: DatasetSplits<T> = {};
+    items.forEach((item, index) => {
+        const name = DATASET_SPLIT_NAMES[assignment[index]];
+        if (!splits[name]) splits[name] = [];
+        splits[name]!.push(item);
+    });
+    return splits;
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { ChatRole, ExportPreset } from '../interfaces/enums';
+import type { SynthLogItem } from '../interfaces/models/SynthLogItem';
+import { formatItemForPreset, getExportTurns } from './exportPresets';
+
+const single = {
+    id: 'single',
+    query: 'What is 2 + 2?',
+    full_seed: 'seed',
+    reasoning: 'Add the numbers.',
+    answer: '4'
+} as SynthLogItem;
+
+const multiTurn = {
+    id: 'multi',
+    query: '',
+    full_seed: '',
+    messages: [
+        { role: ChatRole.System, content: 'Be brief.' },
+        { role: ChatRole.User, content: 'Hi' },
+        { role: ChatRole.Model, content: '<think>Greet back.</think>Hello!' },
+        { role: ChatRole.User, content: 'What is 2 + 2?' },
+        { role: ChatRole.Assistant, content: '4', reasoning_content: 'Add.' }
+    ]
+} as SynthLogItem;
+
+describe('getExportTurns', () => {
+    it('turns a single item into a user and an assistant turn', () => {
+        expect(getExportTurns(single)).toEqual([
+            { role: ChatRole.User, content: 'What is 2 + 2?', reasoning: '' },
+            { role: ChatRole.Assistant, content: '4', reasoning: 'Add the numbers.' }
+        ]);
+    });
+
+    it('maps model messages to assistant turns and reads reasoning from think tags', () => {
+        expect(getExportTurns(multiTurn)[2]).toEqual({ role: ChatRole.Assistant, content: 'Hello!', reasoning: 'Greet back.' });
+    });
+});
+
+describe('formatItemForPreset', () => {
+    it('writes OpenAI chat messages, with reasoning only when asked', () => {
+        expect(formatItemForPreset(single, ExportPreset.OpenAIChat, { includeReasoning: false })).toEqual({
+            messages: [{ role: 'user', content: 'What is 2 + 2?' }, { role: 'assistant', content: '4' }]
+        });
+        const withReasoning = formatItemForPreset(single, ExportPreset.OpenAIChat, { includeReasoning: true }) as { messages: { content: string }[] };
+        expect(withReasoning.messages[1].content).toBe('<think>\nAdd the numbers.\n</think>\n\n4');
+    });
+
+    it('writes ShareGPT conversations with its role names', () => {
+        const row = formatItemForPreset(multiTurn, ExportPreset.ShareGPT, { includeReasoning: false }) as { conversations: { from: string }[] };
+        expect(row.conversations.map(turn => turn.from)).toEqual(['system', 'human', 'gpt', 'human', 'gpt']);
+    });
+
+    it('puts the last exchange in Alpaca fields and earlier ones in history', () => {
+        expect(formatItemForPreset(multiTurn, ExportPreset.Alpaca, { includeReasoning: false })).toEqual({
+            instruction: 'What is 2 + 2?',
+            input: '',
+            output: '4',
+            system: 'Be brief.',
+            history: [['Hi', 'Hello!']]
+        });
+    });
+
+    it('always renders reasoning in ChatML text', () => {
+        expect(formatItemForPreset(single, ExportPreset.ChatMLText, { includeReasoning: false })).toEqual({
+            text: '<|im_start|>user\nWhat is 2 + 2?<|im_end|>\n<|im_start|>assistant\n<think>\nAdd the numbers.\n</think>\n\n4<|im_end|>\n'
+        });
+    });
+
+    it('keeps reasoning in its own field for the conversational preset', () => {
+        const row = formatItemForPreset(multiTurn, ExportPreset.Conversational, { includeReasoning: true }) as { messages: Record<string, string>[] };
+        expect(row.messages[4]).toEqual({ role: 'assistant', content: '4', reasoning_content: 'Add.' });
+        expect(row.messages[1]).toEqual({ role: 'user', content: 'Hi' });
+    });
+
+    it('keeps tool calls, tool results and the tool list for the tools preset', () => {
+        const item = {
+            id: 'tools',
+            query: '',
+            full_seed: '',
+            tools: [{ type: 'function', function: { name: 'add' } }],
+            messages: [
+                { role: ChatRole.User, content: 'Add 2 and 2' },
+                { role: ChatRole.Assistant, content: '', toolCalls: [{ id: 'call-1', name: 'add', args: { a: 2, b: 2 } }] },
+                { role: ChatRole.Tool, content: '4', toolCallId: 'call-1' },
+                { role: ChatRole.Assistant, content: 'It is 4.' }
+            ]
+        } as unknown as SynthLogItem;
+        expect(formatItemForPreset(item, ExportPreset.OpenAITools, { includeReasoning: false })).toEqual({
+            messages: [
+                { role: 'user', content: 'Add 2 and 2' },
+                { role: 'assistant', content: null, tool_calls: [{ id: 'call-1', type: 'function', function: { name: 'add', arguments: '{"a":2,"b":2}' } }] },
+                { role: 'tool', tool_call_id: 'call-1', content: '4' },
+                { role: 'assistant', content: 'It is 4.' }
+            ],
+            tools: [{ type: 'function', function: { name: 'add' } }]
+        });
+    });
+});
@@ -0,0 +1,195 @@
+/**
+ * Fine-tuning export presets: map verifier items (query/reasoning/answer or messages)
+ * into the row shapes common trainers read.
+ */
+
+import { ChatRole, ExportPreset } from '../interfaces/enums';
+import type { ChatMessage } from '../interfaces/models/ChatMessage';
+import type { SynthLogItem } from '../interfaces/models/SynthLogItem';
+import { extractMessageParts, sanitizeReasoningContent } from './thinkTagParser';
+
+export interface ExportPresetInfo {
+    label: string;
+    description: string;
+}
+
+export const EXPORT_PRESETS: Record<ExportPreset, ExportPresetInfo> = {
+    [ExportPreset.Columns]: {
+        label: 'Selected Columns',
+        description: 'Internal column layout, limited to the columns selected above.'
+    },
+    [ExportPreset.OpenAIChat]: {
+        label: 'OpenAI Chat',
+        description: '{"messages": [{"role", "content"}]} rows for the OpenAI fine-tuning API.'
+    },
+    [ExportPreset.OpenAITools]: {
+        label: 'OpenAI Tools',
+        description: '{"messages", "tools"} rows with assistant tool_calls and tool messages, for tool-calling fine-tunes.'
+    },
+    [ExportPreset.ShareGPT]: {
+        label: 'ShareGPT',
+        description: '{"conversations": [{"from": "human" | "gpt", "value"}]} rows.'
+    },
+    [ExportPreset.Alpaca]: {
+        label: 'Alpaca',
+        description: '{"instruction", "input", "output"} rows; earlier turns go to "history".'
+    },
+    [ExportPreset.ChatMLText]: {
+        label: 'ChatML Text',
+        description: '{"text"} rows rendered with <|im_start|> markers and <think> blocks.'
+    },
+    [ExportPreset.Conversational]: {
+        label: 'Axolotl / TRL',
+        description: '{"messages": [{"role", "content", "reasoning_content"}]} rows for chat templates that split reasoning.'
+    },
+    [ExportPreset.Template]: {
+        label: 'Custom Template',
+        description: 'User-defined mapping saved in settings.'
+    }
+};
+
+export interface ExportPresetOptions {
+    /** Prefix assistant content with a <think> block (ChatML text always does) */
+    includeReasoning: boolean;
+}
+
+interface ExportTurn {
+    role: ChatRole.System | ChatRole.User | ChatRole.Assistant | ChatRole.Tool;
+    content: string;
+    reasoning: string;
+}
+
+const SHAREGPT_ROLES: Record<ExportTurn['role'], string> = {
+    [ChatRole.System]: 'system',
+    [ChatRole.User]: 'human',
+    [ChatRole.Assistant]: 'gpt',
+    [ChatRole.Tool]: 'observation'
+};
+
+const toTurn = (message: ChatMessage): ExportTurn => {
+    const { reasoning, content } = extractMessageParts(message);
+    const role = message.role === ChatRole.Model ? ChatRole.Assistant : message.role;
+    return { role, content, reasoning: role === ChatRole.Assistant ? reasoning : '' };
+};
+
+/**
+ * Conversation turns of an item: its messages when multi-turn, else query + answer
+ */
+export function getExportTurns(item: SynthLogItem): ExportTurn[] {
+    if (Array.isArray(item.messages) && item.messages.length > 0) {
+        return item.messages.map(toTurn);
+    }
+    const { reasoning, content } = extractMessageParts({
+        content: item.answer || '',
+        reasoning_content: item.reasoning_content,
+        reasoning: item.reasoning
+    });
+    return [
+        { role: ChatRole.User, content: item.query || item.full_seed || '', reasoning: '' },
+        { role: ChatRole.Assistant, content, reasoning: sanitizeReasoningContent(reasoning) }
+    ];
+}
+
+const withThink = (turn: ExportTurn, includeReasoning: boolean) =>
+    includeReasoning && turn.reasoning
+        ? `<think>\n${turn.reasoning}\n</think>\n\n${turn.content}`
+        : turn.content;
+
+const toAlpaca = (turns: ExportTurn[], includeReasoning: boolean) => {
+    const system = turns.find(t => t.role === ChatRole.System)?.content;
+    const history: [string, string][] = [];
+    let pendingUser = '';
+    let instruction = '';
+    let output = '';
+    turns.forEach(turn => {
+        if (turn.role === ChatRole.User) {
+            pendingUser = turn.content;
+        } else if (turn.role === ChatRole.Assistant) {
+            if (instruction || output) history.push([instruction, output]);
+            instruction = pendingUser;
+            output = withThink(turn, includeReasoning);
+            pendingUser = '';
+        }
+    });
+    return {
+        instruction,
+        input: '',
+        output,
+        ...(system ? { system } : {}),
+        ...(history.length > 0 ? { history } : {})
+    };
+};
+
+const toChatMLText = (turns: ExportTurn[]) => ({
+    text: turns
+        .map(turn => `<|im_start|>${turn.role}\n${withThink(turn, true)}<|im_end|>`)
+        .join('\n') + '\n'
+});
+
+const toOpenAIToolCall = (toolCall: any) => ({
+    id: toolCall.id,
+    type: 'function',
+    function: {
+        name: toolCall.name,
+        arguments: typeof toolCall.args === 'string' ? toolCall.args : JSON.stringify(toolCall.args ?? {})
+    }
+});
+
+/** OpenAI tool-calling rows keep assistant turns that only call tools, which the turn filter would drop */
+const toOpenAITools = (item: SynthLogItem, includeReasoning: boolean) => {
+    const messages = Array.isArray(item.messages) && item.messages.length > 0
+        ? item.messages.map(message => {
+            const turn = toTurn(message);
+            if (turn.role === ChatRole.Tool) {
+                return { role: turn.role, tool_call_id: message.toolCallId, content: turn.content };
+            }
+            const content = withThink(turn, includeReasoning);
+            if (turn.role === ChatRole.Assistant && message.toolCalls && message.toolCalls.length > 0) {
+                return { role: turn.role, content: content || null, tool_calls: message.toolCalls.map(toOpenAIToolCall) };
+            }
+            return { role: turn.role, content };
+        })
+        : getExportTurns(item).map(turn => ({ role: turn.role, content: withThink(turn, includeReasoning) }));
+    return {
+        messages,
+        ...(item.tools && item.tools.length > 0 ? { tools: item.tools } : {})
+    };
+};
+
+/**
+ * Map one item into the preset's row shape. Columns and Template are handled by the caller.
+ */
+export function formatItemForPreset(item: SynthLogItem, preset: ExportPreset, options: ExportPresetOptions): Record<string, unknown> {
+    const turns = getExportTurns(item).filter(turn => turn.content || turn.reasoning);
+    switch (preset) {
+        case ExportPreset.ShareGPT:
+            return {
+                conversations: turns.map(turn => ({
+                    from: SHAREGPT_ROLES[turn.role],
+                    value: withThink(turn, options.includeReasoning)
+                }))
+            };
+        case ExportPreset.OpenAITools:
+            return toOpenAITools(item, options.includeReasoning);
+        case ExportPreset.Alpaca:
+            return toAlpaca(turns, options.includeReasoning);
+        case ExportPreset.ChatMLText:
+            return toChatMLText(turns);
+        case ExportPreset.Conversational:
+            return {
+                messages: turns.map(turn => ({
+                    role: turn.role,
+                    content: turn.content,
+                    ...(turn.reasoning ? { reasoning_content: turn.reasoning } : {})
+                }))
+            };
+        case ExportPreset.OpenAIChat:
+        default:
+            return {
+                messages: turns.map(turn => ({
+                    role: turn.role,
+                    content: withThink(turn, options.includeReasoning)
+                }))
+            };
+    }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { ChatRole, ExportFieldCondition, ExportReasoningStyle } from '../interfaces/enums';
+import type { ExportTemplate } from '../interfaces/config/ExportTemplate';
+import type { SynthLogItem } from '../interfaces/models/SynthLogItem';
+import { applyExportTemplate, createExportTemplate, getPathValue, parseExportTemplateBody, stringifyExportTemplateBody } from './exportTemplate';
+
+const item = {
+    id: 'item',
+    query: 'What is 2 + 2?',
+    full_seed: '',
+    reasoning: 'Add the numbers.',
+    answer: '4',
+    modelUsed: 'model-a',
+    usage: { total_tokens: 30 }
+} as unknown as SynthLogItem;
+
+const template = (fields: Partial<ExportTemplate>): ExportTemplate => ({
+    id: 'tpl',
+    name: 'Test',
+    includeReasoning: true,
+    reasoningStyle: ExportReasoningStyle.Think,
+    fields: [],
+    ...fields
+});
+
+describe('getPathValue', () => {
+    it('reads dotted and indexed paths', () => {
+        const source = { usage: { total_tokens: 30 }, messages: [{ content: 'hi' }] };
+        expect(getPathValue(source, 'usage.total_tokens')).toBe(30);
+        expect(getPathValue(source, 'messages[0].content')).toBe('hi');
+        expect(getPathValue(source, 'messages.0.content')).toBe('hi');
+        expect(getPathValue(source, 'usage.total_tokens.value')).toBeUndefined();
+    });
+});
+
+describe('applyExportTemplate', () => {
+    it('writes sources, constants and nested targets', () => {
+        expect(applyExportTemplate(item, template({
+            fields: [
+                { target: 'prompt', source: '$prompt' },
+                { target: 'meta.tokens', source: 'usage.total_tokens' },
+                { target: 'meta.generator', value: 'synthlabs' },
+                { target: 'missing', source: 'notAField' }
+            ]
+        }))).toEqual({
+            prompt: 'What is 2 + 2?',
+            meta: { tokens: 30, generator: 'synthlabs' },
+            missing: null
+        });
+    });
+
+    it('inlines reasoning in think style and keeps it separate in field style', () => {
+        const fields = [{ target: 'answer', source: '$answer' }, { target: 'reasoning', source: '$reasoning' }];
+        expect(applyExportTemplate(item, template({ fields }))).toEqual({
+            answer: '<think>\nAdd the numbers.\n</think>\n\n4',
+            reasoning: 'Add the numbers.'
+        });
+        expect(applyExportTemplate(item, template({ fields, reasoningStyle: ExportReasoningStyle.Field }))).toEqual({
+            answer: '4',
+            reasoning: 'Add the numbers.'
+        });
+        expect(applyExportTemplate(item, template({ fields, includeReasoning: false }))).toEqual({ answer: '4', reasoning: '' });
+    });
+
+    it('renames message roles and keys', () => {
+        const row = applyExportTemplate(item, template({
+            reasoningStyle: ExportReasoningStyle.Field,
+            roleMap: { user: 'human', assistant: 'gpt' },
+            messageKeys: { role: 'from', content: 'value', reasoning: 'thought' },
+            fields: [{ target: 'conversations', source: '$messages' }]
+        }));
+        expect(row.conversations).toEqual([
+            { from: 'human', value: 'What is 2 + 2?' },
+            { from: 'gpt', value: '4', thought: 'Add the numbers.' }
+        ]);
+    });
+
+    it('skips fields whose condition does not hold', () => {
+        const fields = [
+            { target: 'score', source: 'score', when: ExportFieldCondition.HasValue },
+            { target: 'model', source: 'modelUsed', when: ExportFieldCondition.HasValue },
+            { target: 'reasoning', source: '$reasoning', when: ExportFieldCondition.Reasoning }
+        ];
+        expect(applyExportTemplate(item, template({ fields }))).toEqual({ model: 'model-a', reasoning: 'Add the numbers.' });
+        expect(applyExportTemplate(item, template({ fields, includeReasoning: false }))).toEqual({ model: 'model-a' });
+
+        const noReasoning = { ...item, reasoning: '', messages: [{ role: ChatRole.User, content: 'Hi' }, { role: ChatRole.Assistant, content: 'Hello' }] } as SynthLogItem;
+        expect(applyExportTemplate(noReasoning, template({ fields }))).toEqual({ model: 'model-a' });
+    });
+});
+
+describe('parseExportTemplateBody', () => {
+    it('applies defaults and round-trips the starter template', () => {
+        expect(parseExportTemplateBody('{"fields": [{"target": " text ", "source": "$answer"}]}')).toEqual({
+            fields: [{ target: 'text', source: '$answer' }],
+            includeReasoning: true,
+            reasoningStyle: ExportReasoningStyle.Think
+        });
+
+        const { id: _id, name: _name, ...body } = createExportTemplate('Starter');
+        expect(parseExportTemplateBody(stringifyExportTemplateBody(createExportTemplate('Starter')))).toEqual(body);
+    });
+
+    it('names the first invalid entry', () => {
+        expect(() => parseExportTemplateBody('{')).toThrow('Invalid JSON');
+        expect(() => parseExportTemplateBody('[]')).toThrow('JSON object');
+        expect(() => parseExportTemplateBody('{"fields": []}')).toThrow('non-empty array');
+        expect(() => parseExportTemplateBody('{"fields": [{"source": "query"}]}')).toThrow('fields[0]: "target" is required');
+        expect(() => parseExportTemplateBody('{"fields": [{"target": "a"}]}')).toThrow('set either "source" or "value"');
+        expect(() => parseExportTemplateBody('{"fields": [{"target": "a", "source": "$score"}]}')).toThrow('unknown source "$score"');
+        expect(() => parseExportTemplateBody('{"fields": [{"target": "a", "value": 1, "when": "never"}]}')).toThrow('"when" must be one of');
+        expect(() => parseExportTemplateBody('{"fields": [{"target": "a", "value": 1}], "reasoningStyle": "xml"}')).toThrow('"reasoningStyle"');
+        expect(() => parseExportTemplateBody('{"fields": [{"target": "a", "value": 1}], "roleMap": []}')).toThrow('"roleMap"');
+    });
+
+    it('keeps a literal value over a source and allows null', () => {
+        expect(parseExportTemplateBody('{"fields": [{"target": "a", "source": "query", "value": null}]}').fields).toEqual([{ target: 'a', value: null }]);
+    });
+});
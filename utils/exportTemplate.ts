@@ -0,0 +1,184 @@
+/**
+ * User-defined export templates: map items into arbitrary row schemas via field paths,
+ * renames, literal constants, reasoning conditions and message role remapping.
+ */
+
+import { ChatRole, ExportFieldCondition, ExportReasoningStyle } from '../interfaces/enums';
+import type { ExportTemplate, ExportTemplateField } from '../interfaces/config/ExportTemplate';
+import type { SynthLogItem } from '../interfaces/models/SynthLogItem';
+import { getExportTurns } from './exportPresets';
+
+/** Computed sources available to template fields. */
+export const EXPORT_TEMPLATE_SOURCES = ['$prompt', '$reasoning', '$answer', '$messages'] as const;
+
+const CONDITIONS = new Set<string>(Object.values(ExportFieldCondition));
+const REASONING_STYLES = new Set<string>(Object.values(ExportReasoningStyle));
+
+const toPathParts = (path: string) => path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+
+export function getPathValue(source: unknown, path: string): unknown {
+    return toPathParts(path).reduce<unknown>((value, key) => {
+        if (value === null || value === undefined || typeof value !== 'object') return undefined;
+        return (value as Record<string, unknown>)[key];
+    }, source);
+}
+
+function setPathValue(target: Record<string, unknown>, path: string, value: unknown) {
+    const parts = toPathParts(path);
+    let node = target;
+    parts.slice(0, -1).forEach(key => {
+        if (!node[key] || typeof node[key] !== 'object') node[key] = {};
+        node = node[key] as Record<string, unknown>;
+    });
+    node[parts[parts.length - 1]] = value;
+}
+
+const isEmptyValue = (value: unknown) =>
+    value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const withThink = (content: string, reasoning: string) =>
+    reasoning ? `<think>\n${reasoning}\n</think>\n\n${content}` : content;
+
+function resolveComputedSource(item: SynthLogItem, source: string, template: ExportTemplate): unknown {
+    const turns = getExportTurns(item);
+    const inline = template.includeReasoning && template.reasoningStyle === ExportReasoningStyle.Think;
+    const lastAssistant = [...turns].reverse().find(turn => turn.role === ChatRole.Assistant);
+
+    switch (source) {
+        case '$prompt':
+            return turns.find(turn => turn.role === ChatRole.User)?.content || '';
+        case '$reasoning':
+            return template.includeReasoning ? lastAssistant?.reasoning || '' : '';
+        case '$answer':
+            if (!lastAssistant) return '';
+            return inline ? withThink(lastAssistant.content, lastAssistant.reasoning) : lastAssistant.content;
+        case '$messages': {
+            const roleKey = template.messageKeys?.role || 'role';
+            const contentKey = template.messageKeys?.content || 'content';
+            const reasoningKey = template.messageKeys?.reasoning;
+            return turns
+                .filter(turn => turn.content || turn.reasoning)
+                .map(turn => {
+                    const message: Record<string, unknown> = {
+                        [roleKey]: template.roleMap?.[turn.role] ?? turn.role,
+                        [contentKey]: inline ? withThink(turn.content, turn.reasoning) : turn.content
+                    };
+                    if (template.includeReasoning && !inline && reasoningKey && turn.reasoning) {
+                        message[reasoningKey] = turn.reasoning;
+                    }
+                    return message;
+                });
+        }
+        default:
+            return undefined;
+    }
+}
+
+function resolveField(item: SynthLogItem, field: ExportTemplateField, template: ExportTemplate): unknown {
+    if (field.value !== undefined) return field.value;
+    if (!field.source) return undefined;
+    return field.source.startsWith('$')
+        ? resolveComputedSource(item, field.source, template)
+        : getPathValue(item, field.source);
+}
+
+/**
+ * Map one item into the template's row shape
+ */
+export function applyExportTemplate(item: SynthLogItem, template: ExportTemplate): Record<string, unknown> {
+    const row: Record<string, unknown> = {};
+    const hasReasoning = () => getExportTurns(item).some(turn => turn.reasoning);
+
+    template.fields.forEach(field => {
+        const when = field.when || ExportFieldCondition.Always;
+        if (when === ExportFieldCondition.Reasoning && (!template.includeReasoning || !hasReasoning())) return;
+
+        const value = resolveField(item, field, template);
+        if (when === ExportFieldCondition.HasValue && isEmptyValue(value)) return;
+        setPathValue(row, field.target, value === undefined ? null : value);
+    });
+    return row;
+}
+
+/**
+ * Parse and validate a template edited as JSON
+ *
+ * @param json - Template body (everything except id and name)
+ * @returns The template fields, with defaults applied
+ * @throws Error naming the first invalid entry
+ */
+export function parseExportTemplateBody(json: string): Omit<ExportTemplate, 'id' | 'name'> {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(json);
+    } catch (e: any) {
+        throw new Error(`Invalid JSON: ${e.message}`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Template must be a JSON object.');
+    }
+    if (!Array.isArray(parsed.fields) || parsed.fields.length === 0) {
+        throw new Error('"fields" must be a non-empty array.');
+    }
+
+    const fields: ExportTemplateField[] = parsed.fields.map((field: any, index: number) => {
+        if (!field || typeof field.target !== 'string' || !field.target.trim()) {
+            throw new Error(`fields[${index}]: "target" is required.`);
+        }
+        const hasValue = Object.prototype.hasOwnProperty.call(field, 'value');
+        if (!hasValue && typeof field.source !== 'string') {
+            throw new Error(`fields[${index}]: set either "source" or "value".`);
+        }
+        if (typeof field.source === 'string' && field.source.startsWith('$')
+            && !(EXPORT_TEMPLATE_SOURCES as readonly string[]).includes(field.source)) {
+            throw new Error(`fields[${index}]: unknown source "${field.source}". Use ${EXPORT_TEMPLATE_SOURCES.join(', ')}.`);
+        }
+        if (field.when !== undefined && !CONDITIONS.has(field.when)) {
+            throw new Error(`fields[${index}]: "when" must be one of ${Array.from(CONDITIONS).join(', ')}.`);
+        }
+        return {
+            target: field.target.trim(),
+            ...(typeof field.source === 'string' && !hasValue ? { source: field.source } : {}),
+            ...(hasValue ? { value: field.value } : {}),
+            ...(field.when ? { when: field.when } : {})
+        };
+    });
+
+    const reasoningStyle = parsed.reasoningStyle ?? ExportReasoningStyle.Think;
+    if (!REASONING_STYLES.has(reasoningStyle)) {
+        throw new Error(`"reasoningStyle" must be one of ${Array.from(REASONING_STYLES).join(', ')}.`);
+    }
+    if (parsed.roleMap !== undefined && (typeof parsed.roleMap !== 'object' || Array.isArray(parsed.roleMap))) {
+        throw new Error('"roleMap" must be an object of role renames.');
+    }
+
+    return {
+        fields,
+        includeReasoning: parsed.includeReasoning !== false,
+        reasoningStyle,
+        ...(parsed.roleMap ? { roleMap: parsed.roleMap } : {}),
+        ...(parsed.messageKeys ? { messageKeys: parsed.messageKeys } : {})
+    };
+}
+
+/** Template body as shown in the editor */
+export const stringifyExportTemplateBody = ({ id: _id, name: _name, ...body }: ExportTemplate) =>
+    JSON.stringify(body, null, 2);
+
+/** Starting point for a new template: ShareGPT-style conversations plus metadata */
+export function createExportTemplate(name: string): ExportTemplate {
+    return {
+        id: `tpl-${Date.now().toString(36)}`,
+        name,
+        includeReasoning: true,
+        reasoningStyle: ExportReasoningStyle.Think,
+        roleMap: { user: 'human', assistant: 'gpt' },
+        messageKeys: { role: 'from', content: 'value' },
+        fields: [
+            { target: 'conversations', source: '$messages' },
+            { target: 'meta.model', source: 'modelUsed', when: ExportFieldCondition.HasValue },
+            { target: 'meta.score', source: 'score', when: ExportFieldCondition.HasValue },
+            { target: 'meta.generator', value: 'synthlabs' }
+        ]
+    };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { JudgeAggregation } from '../interfaces/enums/JudgeAggregation';
+import { aggregateJudgeScores, computeJudgeAgreement, getJudgeLabels, mergeJudgeRubricScores } from './judgeEnsemble';
+
+describe('aggregateJudgeScores', () => {
+    it('rounds the mean to a 1-5 score', () => {
+        expect(aggregateJudgeScores([4, 5, 5])).toBe(5);
+        expect(aggregateJudgeScores([2, 3, 3, 3], JudgeAggregation.Mean)).toBe(3);
+    });
+
+    it('takes the middle score, or the rounded midpoint of the two middle ones', () => {
+        expect(aggregateJudgeScores([1, 4, 5], JudgeAggregation.Median)).toBe(4);
+        expect(aggregateJudgeScores([2, 3, 4, 5], JudgeAggregation.Median)).toBe(4);
+    });
+
+    it('takes the most common score, falling back to the median on a tie', () => {
+        expect(aggregateJudgeScores([2, 2, 5], JudgeAggregation.Majority)).toBe(2);
+        expect(aggregateJudgeScores([1, 1, 5, 5, 4], JudgeAggregation.Majority)).toBe(4);
+    });
+
+    it('is 0 without scores', () => {
+        expect(aggregateJudgeScores([], JudgeAggregation.Median)).toBe(0);
+    });
+});
+
+describe('computeJudgeAgreement', () => {
+    it('is 1 for matching scores and 0 for opposite ends of the scale', () => {
+        expect(computeJudgeAgreement([3, 3, 3])).toBe(1);
+        expect(computeJudgeAgreement([1, 5])).toBe(0);
+    });
+
+    it('is 0 when fewer than two judges returned a score', () => {
+        expect(computeJudgeAgreement([4])).toBe(0);
+        expect(computeJudgeAgreement([])).toBe(0);
+    });
+
+    it('averages the gaps of every pair', () => {
+        // Gaps 1, 2 and 1 over 3 pairs: 1 - (4 / 3) / 4
+        expect(computeJudgeAgreement([3, 4, 5])).toBe(0.67);
+    });
+});
+
+describe('mergeJudgeRubricScores', () => {
+    it('averages each criterion over the judges that scored it', () => {
+        expect(mergeJudgeRubricScores([{ accuracy: 5, clarity: 2 }, { accuracy: 4 }, { accuracy: 4, clarity: 3 }]))
+            .toEqual({ accuracy: 4, clarity: 3 });
+    });
+});
+
+describe('getJudgeLabels', () => {
+    it('suffixes repeated judges', () => {
+        expect(getJudgeLabels([
+            { provider: 'openai', model: 'gpt-4o' },
+            { provider: 'openai', model: 'gpt-4o' },
+            { model: 'local' }
+        ])).toEqual(['openai/gpt-4o', 'openai/gpt-4o#2', 'local']);
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * Multi-judge autoscoring helpers: score aggregation and inter-judge agreement.
+ * Mirrored on the backend in server/utils/judgeEnsemble.js.
+ */
+
+import { JudgeAggregation } from '../interfaces/enums/JudgeAggregation';
+
+/** Items below this agreement are flagged for human review in the verifier */
+export const LOW_AGREEMENT_THRESHOLD = 0.75;
+
+/** Largest possible gap between two 1-5 scores */
+const MAX_SCORE_SPREAD = 4;
+
+const clampScore = (value: number) => Math.min(5, Math.max(1, Math.round(value)));
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Combine per-judge scores into a single 1-5 score.
+ * Majority falls back to the median when no single score wins outright.
+ */
+export function aggregateJudgeScores(scores: number[], aggregation: JudgeAggregation = JudgeAggregation.Mean): number {
+    if (scores.length === 0) return 0;
+
+    if (aggregation === JudgeAggregation.Median) {
+        return clampScore(median(scores));
+    }
+
+    if (aggregation === JudgeAggregation.Majority) {
+        const counts = new Map<number, number>();
+        scores.forEach(s => counts.set(s, (counts.get(s) || 0) + 1));
+        const top = Math.max(...counts.values());
+        const winners = [...counts.entries()].filter(([, count]) => count === top);
+        return winners.length === 1 ? clampScore(winners[0][0]) : clampScore(median(scores));
+    }
+
+    return clampScore(scores.reduce((a, b) => a + b, 0) / scores.length);
+}
+
+/**
+ * Agreement between judges: 1 minus the mean pairwise score gap, normalised to the 1-5 range.
+ * A score no second judge confirmed counts as no agreement, so it is flagged for review.
+ */
+export function computeJudgeAgreement(scores: number[]): number {
+    if (scores.length < 2) return 0;
+    let gap = 0;
+    let pairs = 0;
+    for (let i = 0; i < scores.length; i++) {
+        for (let j = i + 1; j < scores.length; j++) {
+            gap += Math.abs(scores[i] - scores[j]);
+            pairs++;
+        }
+    }
+    return Math.round((1 - gap / pairs / MAX_SCORE_SPREAD) * 100) / 100;
+}
+
+/** Mean of each criterion across judges, rounded to a 1-5 score. */
+export function mergeJudgeRubricScores(rubricScoresList: Record<string, number>[]): Record<string, number> {
+    const byCriterion: Record<string, number[]> = {};
+    rubricScoresList.forEach(rubricScores => {
+        Object.entries(rubricScores).forEach(([criterion, value]) => {
+            if (!byCriterion[criterion]) byCriterion[criterion] = [];
+            byCriterion[criterion].push(value);
+        });
+    });
+    const merged: Record<string, number> = {};
+    Object.entries(byCriterion).forEach(([criterion, values]) => {
+        merged[criterion] = clampScore(values.reduce((a, b) => a + b, 0) / values.length);
+    });
+    return merged;
+}
+
+/** Stable labels used as judgeScores keys; repeated provider/model pairs get a #n suffix. */
+export function getJudgeLabels(judges: Array<{ provider?: string; model: string }>): string[] {
+    const seen = new Map<string, number>();
+    return judges.map(judge => {
+        const base = judge.provider ? `${judge.provider}/${judge.model}` : judge.model;
+        const count = (seen.get(base) || 0) + 1;
+        seen.set(base, count);
+        return count > 1 ? `${base}#${count}` : base;
+    });
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { ChatRole, PreferenceSource } from '../interfaces/enums';
+import type { PreferenceCandidate } from '../interfaces/models/PreferenceCandidate';
+import type { SynthLogItem } from '../interfaces/models/SynthLogItem';
+import { addAlternative, TURN_BRANCH_SOURCE } from './conversationBranches';
+import { buildPreferenceJudgePrompt, buildPreferencePairs, parsePreferenceJudgeResponse } from './preferencePairs';
+
+const candidates: PreferenceCandidate[] = [
+    { id: 'c1', answer: '4', reasoning: '2 + 2 = 4', modelUsed: 'model-a' },
+    { id: 'c2', answer: '5', modelUsed: 'model-b' },
+    { id: 'c3', answer: 'four', modelUsed: 'model-c' }
+];
+
+const item = (fields: Partial<SynthLogItem>) => ({
+    id: 'item', query: 'What is 2 + 2?', full_seed: '', candidates, ...fields
+}) as SynthLogItem;
+
+describe('buildPreferenceJudgePrompt', () => {
+    it('labels the candidates in order and shows reasoning only where present', () => {
+        const prompt = buildPreferenceJudgePrompt('What is 2 + 2?', candidates);
+        expect(prompt).toContain('### Candidate A\nReasoning: 2 + 2 = 4\nAnswer: 4');
+        expect(prompt).toContain('### Candidate B\nAnswer: 5');
+        expect(prompt).toContain('### Candidate C\nAnswer: four');
+    });
+});
+
+describe('parsePreferenceJudgeResponse', () => {
+    it('maps labels back to candidate ids', () => {
+        expect(parsePreferenceJudgeResponse('<think>{"best": "B"}</think>{"best": "Candidate a", "worst": "b", "rationale": "B is wrong."}', candidates)).toEqual({
+            chosenId: 'c1',
+            rejectedId: 'c2',
+            rationale: 'B is wrong.'
+        });
+    });
+
+    it('is null for unknown, identical or missing labels', () => {
+        expect(parsePreferenceJudgeResponse('{"best": "D", "worst": "A"}', candidates)).toBeNull();
+        expect(parsePreferenceJudgeResponse('{"best": "A", "worst": "A"}', candidates)).toBeNull();
+        expect(parsePreferenceJudgeResponse('{"best": "A"}', candidates)).toBeNull();
+        expect(parsePreferenceJudgeResponse('A is best', candidates)).toBeNull();
+    });
+});
+
+describe('buildPreferencePairs', () => {
+    it('writes one DPO row per item with a chosen and a rejected candidate', () => {
+        const rows = buildPreferencePairs([
+            item({ chosenCandidateId: 'c1', rejectedCandidateId: 'c2', preferenceSource: PreferenceSource.Judge }),
+            item({ chosenCandidateId: 'c1' }),
+            item({ chosenCandidateId: 'c1', rejectedCandidateId: 'c1' }),
+            item({ chosenCandidateId: 'c1', rejectedCandidateId: 'c3', isDiscarded: true })
+        ]);
+        expect(rows).toEqual([{
+            prompt: 'What is 2 + 2?',
+            chosen: '4',
+            rejected: '5',
+            chosen_model: 'model-a',
+            rejected_model: 'model-b',
+            source: 'judge'
+        }]);
+    });
+
+    it('puts the reasoning in a think block when asked', () => {
+        const [row] = buildPreferencePairs([item({ chosenCandidateId: 'c1', rejectedCandidateId: 'c2' })], true);
+        expect(row.chosen).toBe('<think>\n2 + 2 = 4\n</think>\n\n4');
+        expect(row.rejected).toBe('5');
+        expect(row.source).toBe('');
+    });
+
+    it('adds a turn-branch row for each alternative response in a conversation', () => {
+        const messages = addAlternative([
+            { role: ChatRole.User, content: 'What is 2 + 2?' },
+            { role: ChatRole.Assistant, content: '4', reasoning_content: 'Add.' }
+        ], 1, { role: ChatRole.Assistant, content: '5', modelUsed: 'model-b' });
+        expect(buildPreferencePairs([item({ candidates: undefined, modelUsed: 'model-a', messages })], true)).toEqual([{
+            prompt: 'What is 2 + 2?',
+            chosen: '<think>\nAdd.\n</think>\n\n4',
+            rejected: '5',
+            chosen_model: 'model-a',
+            rejected_model: 'model-b',
+            source: TURN_BRANCH_SOURCE
+        }]);
+    });
+});
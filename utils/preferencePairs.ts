@@ -0,0 +1,123 @@
+/**
+ * Preference (DPO) pair helpers: judge prompt, judge response parsing and export rows.
+ */
+
+import type { ChatMessage } from '../interfaces/models/ChatMessage';
+import type { PreferenceCandidate } from '../interfaces/models/PreferenceCandidate';
+import type { SynthLogItem } from '../interfaces/models/SynthLogItem';
+import { buildTurnPreferencePairs, getTurnModel, TURN_BRANCH_SOURCE } from './conversationBranches';
+
+export interface PreferenceJudgement {
+    chosenId: string;
+    rejectedId: string;
+    rationale: string;
+}
+
+/** One `prompt/chosen/rejected` row, the layout TRL's DPOTrainer reads. */
+export interface PreferencePairRow {
+    prompt: string;
+    chosen: string;
+    rejected: string;
+    chosen_model: string;
+    rejected_model: string;
+    source: string;
+}
+
+export const PREFERENCE_JUDGE_SYSTEM_PROMPT = `You are an expert evaluator comparing candidate responses to the same prompt. Judge correctness first, then reasoning quality, then clarity.
+
+Respond with ONLY a JSON object of the form:
+{"best": "<label of the best candidate>", "worst": "<label of the worst candidate>", "rationale": "<one sentence>"}`;
+
+/** Candidate labels shown to the judge: A, B, C... */
+export const getCandidateLabel = (index: number): string => String.fromCharCode(65 + index);
+
+export const getPreferencePrompt = (item: Pick<SynthLogItem, 'query' | 'full_seed'>): string =>
+    item.query || item.full_seed || '';
+
+export function buildPreferenceJudgePrompt(prompt: string, candidates: PreferenceCandidate[]): string {
+    const blocks = candidates.map((c, i) => `### Candidate ${getCandidateLabel(i)}
+${c.reasoning ? `Reasoning: ${c.reasoning}\n` : ''}Answer: ${c.answer}`);
+    return `## PROMPT
+${prompt}
+
+## CANDIDATES
+${blocks.join('\n\n')}
+
+---
+Pick the best and the worst candidate.`;
+}
+
+/**
+ * Map the judge's labels back to candidate ids.
+ * Returns null when the labels are missing, unknown or identical.
+ */
+export function parsePreferenceJudgeResponse(text: string, candidates: PreferenceCandidate[]): PreferenceJudgement | null {
+    const cleaned = String(text || '').replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+    const start = cleaned.indexOf('{');
+    const end = cleaned.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+
+    let parsed: Record<string, unknown>;
+    try {
+        parsed = JSON.parse(cleaned.slice(start, end + 1));
+    } catch {
+        return null;
+    }
+
+    const toIndex = (value: unknown) => {
+        const label = String(value ?? '').trim().toUpperCase().replace(/^CANDIDATE\s+/, '');
+        return label.length === 1 ? label.charCodeAt(0) - 65 : -1;
+    };
+    const best = toIndex(parsed.best);
+    const worst = toIndex(parsed.worst);
+    if (!candidates[best] || !candidates[worst] || best === worst) return null;
+
+    return {
+        chosenId: candidates[best].id,
+        rejectedId: candidates[worst].id,
+        rationale: typeof parsed.rationale === 'string' ? parsed.rationale : ''
+    };
+}
+
+const formatCandidate = (candidate: Pick<PreferenceCandidate, 'answer' | 'reasoning'>, includeReasoning: boolean) =>
+    includeReasoning && candidate.reasoning
+        ? `<think>\n${candidate.reasoning}\n</think>\n\n${candidate.answer}`
+        : candidate.answer;
+
+const formatTurn = (message: ChatMessage, includeReasoning: boolean) =>
+    formatCandidate({ answer: message.content, reasoning: message.reasoning_content }, includeReasoning);
+
+/**
+ * Export rows for every non-discarded item with a chosen and a rejected candidate, plus one
+ * row per alternative turn in multi-turn items (canonical turn chosen, alternative rejected).
+ * With includeReasoning, responses carry the reasoning in a leading <think> block.
+ */
+export function buildPreferencePairs(items: SynthLogItem[], includeReasoning = false): PreferencePairRow[] {
+    const rows: PreferencePairRow[] = [];
+    items.forEach(item => {
+        if (item.isDiscarded) return;
+        const chosen = item.candidates?.find(c => c.id === item.chosenCandidateId);
+        const rejected = item.candidates?.find(c => c.id === item.rejectedCandidateId);
+        if (chosen && rejected && chosen.id !== rejected.id) {
+            rows.push({
+                prompt: getPreferencePrompt(item),
+                chosen: formatCandidate(chosen, includeReasoning),
+                rejected: formatCandidate(rejected, includeReasoning),
+                chosen_model: chosen.modelUsed,
+                rejected_model: rejected.modelUsed,
+                source: item.preferenceSource || ''
+            });
+        }
+        buildTurnPreferencePairs(item.messages).forEach(pair => {
+            rows.push({
+                prompt: pair.prompt,
+                chosen: formatTurn(pair.chosen, includeReasoning),
+                rejected: formatTurn(pair.rejected, includeReasoning),
+                chosen_model: getTurnModel(pair.chosen, item),
+                rejected_model: getTurnModel(pair.rejected, item),
+                source: TURN_BRANCH_SOURCE
+            });
+        });
+    });
+    return rows;
+}
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExternalProvider, type RateLimitRule } from '../types';
+import { RateLimitScheduler, estimateRequestTokens, findRateLimitRule, parseRetryAfterMs, type RateLimitBudget } from './rateLimiter';
+
+const createScheduler = (budget: RateLimitBudget | null) => new RateLimitScheduler(() => budget);
+
+/** Resolved value of the promise, or 'pending' when it has not settled yet */
+const track = <T,>(promise: Promise<T>) => {
+    let state: T | 'pending' | 'rejected' = 'pending';
+    promise.then(value => { state = value; }, () => { state = 'rejected'; });
+    return () => state;
+};
+
+describe('RateLimitScheduler', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('lets unlimited models through at once', async () => {
+        const scheduler = createScheduler(null);
+        await expect(scheduler.acquire('openai', 'gpt-4o', 1_000_000)).resolves.toBe(0);
+    });
+
+    it('serves a full request bucket without waiting, then waits for the refill', async () => {
+        const scheduler = createScheduler({ rpm: 2, tpm: 0 });
+        await expect(scheduler.acquire('openai', 'gpt-4o', 10)).resolves.toBe(0);
+        await expect(scheduler.acquire('openai', 'gpt-4o', 10)).resolves.toBe(0);
+
+        // One request refills every 30s at 2 rpm
+        const third = track(scheduler.acquire('openai', 'gpt-4o', 10));
+        await vi.advanceTimersByTimeAsync(29_999);
+        expect(third()).toBe('pending');
+        await vi.advanceTimersByTimeAsync(1);
+        expect(third()).toBe(30_000);
+    });
+
+    it('waits until the token bucket holds the request', async () => {
+        const scheduler = createScheduler({ rpm: 0, tpm: 1000 });
+        await expect(scheduler.acquire('anthropic', 'claude', 800)).resolves.toBe(0);
+
+        // 200 tokens left, 400 needed: 200 more at 1000 per minute take 12s
+        const next = track(scheduler.acquire('anthropic', 'claude', 400));
+        await vi.advanceTimersByTimeAsync(11_999);
+        expect(next()).toBe('pending');
+        await vi.advanceTimersByTimeAsync(1);
+        expect(next()).toBe(12_000);
+    });
+
+    it('serves waiters in arrival order', async () => {
+        const scheduler = createScheduler({ rpm: 0, tpm: 1000 });
+        await scheduler.acquire('openai', 'gpt-4o', 1000);
+        const order: string[] = [];
+        const large = scheduler.acquire('openai', 'gpt-4o', 600).then(() => order.push('large'));
+        const small = scheduler.acquire('openai', 'gpt-4o', 10).then(() => order.push('small'));
+        await vi.advanceTimersByTimeAsync(60_000);
+        await Promise.all([large, small]);
+        expect(order).toEqual(['large', 'small']);
+    });
+
+    it('charges the difference between reserved and actual tokens', async () => {
+        const scheduler = createScheduler({ rpm: 0, tpm: 1000 });
+        await scheduler.acquire('openai', 'gpt-4o', 100);
+        scheduler.recordSuccess('openai', 'gpt-4o', 100, 600);
+        expect(scheduler.getState()[0].availableTokens).toBe(400);
+    });
+
+    it('pauses the key for Retry-After and halves the refill rate after a 429', async () => {
+        const scheduler = createScheduler({ rpm: 60, tpm: 0 });
+        await scheduler.acquire('openai', 'gpt-4o', 10);
+
+        expect(scheduler.recordRateLimited('openai', 'gpt-4o', 5000, 1000)).toBe(5000);
+        const [state] = scheduler.getState();
+        expect(state.blockedForMs).toBe(5000);
+        expect(state.scale).toBe(0.5);
+
+        const next = track(scheduler.acquire('openai', 'gpt-4o', 10));
+        await vi.advanceTimersByTimeAsync(4999);
+        expect(next()).toBe('pending');
+        await vi.advanceTimersByTimeAsync(1);
+        expect(next()).toBe(5000);
+    });
+
+    it('doubles the backoff per consecutive 429 without Retry-After, and a success resets it', () => {
+        const scheduler = createScheduler({ rpm: 60, tpm: 0 });
+        expect(scheduler.recordRateLimited('openai', 'gpt-4o', null, 1000)).toBe(1000);
+        expect(scheduler.recordRateLimited('openai', 'gpt-4o', null, 1000)).toBe(2000);
+        scheduler.recordSuccess('openai', 'gpt-4o', 0);
+        expect(scheduler.recordRateLimited('openai', 'gpt-4o', null, 1000)).toBe(1000);
+    });
+
+    it('drops an aborted waiter from the queue', async () => {
+        const scheduler = createScheduler({ rpm: 1, tpm: 0 });
+        await scheduler.acquire('openai', 'gpt-4o', 10);
+        const controller = new AbortController();
+        const waiting = scheduler.acquire('openai', 'gpt-4o', 10, controller.signal);
+        controller.abort();
+        await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+        expect(scheduler.getState()[0].queued).toBe(0);
+    });
+});
+
+describe('findRateLimitRule', () => {
+    const rules: RateLimitRule[] = [
+        { provider: ExternalProvider.OpenAI, model: '', rpm: 500, tpm: 0 },
+        { provider: ExternalProvider.OpenAI, model: 'gpt-4o', rpm: 60, tpm: 30000 }
+    ];
+
+    it('prefers the model rule over the provider-wide one', () => {
+        expect(findRateLimitRule(rules, ExternalProvider.OpenAI, 'gpt-4o')?.rpm).toBe(60);
+        expect(findRateLimitRule(rules, ExternalProvider.OpenAI, 'gpt-4o-mini')?.rpm).toBe(500);
+        expect(findRateLimitRule(rules, ExternalProvider.Anthropic, 'claude')).toBeNull();
+    });
+});
+
+describe('parseRetryAfterMs', () => {
+    it('reads retry-after-ms, retry-after seconds and dates, and the reset headers', () => {
+        const now = Date.parse('2025-01-01T00:00:00Z');
+        expect(parseRetryAfterMs(new Headers({ 'retry-after-ms': '250' }), now)).toBe(250);
+        expect(parseRetryAfterMs(new Headers({ 'retry-after': '3' }), now)).toBe(3000);
+        expect(parseRetryAfterMs(new Headers({ 'retry-after': 'Wed, 01 Jan 2025 00:00:10 GMT' }), now)).toBe(10_000);
+        expect(parseRetryAfterMs(new Headers({ 'x-ratelimit-reset-requests': '1m30s', 'x-ratelimit-reset-tokens': '20ms' }), now)).toBe(90_000);
+        expect(parseRetryAfterMs(new Headers(), now)).toBeNull();
+    });
+});
+
+describe('estimateRequestTokens', () => {
+    it('counts four characters per token', () => {
+        expect(estimateRequestTokens('a'.repeat(10))).toBe(3);
+    });
+});
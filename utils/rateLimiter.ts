@@ -0,0 +1,255 @@
+/**
+ * Token-bucket scheduler keyed by provider + model: requests-per-minute and tokens-per-minute
+ * budgets, Retry-After pauses and adaptive backoff after 429s.
+ * Mirrored on the backend in server/utils/rateLimiter.js.
+ */
+
+import type { RateLimitRule } from '../types';
+
+export interface RateLimitBudget {
+    rpm: number;
+    tpm: number;
+}
+
+export interface RateLimitKeyState {
+    key: string;
+    budget: RateLimitBudget | null;
+    availableRequests: number | null;
+    availableTokens: number | null;
+    /** Multiplier on the refill rates, lowered by 429s and recovered by successes */
+    scale: number;
+    blockedForMs: number;
+    queued: number;
+}
+
+/** Refill-rate multiplier floor after repeated 429s */
+const MIN_SCALE = 0.1;
+/** Recovery per successful request after a 429 */
+const SCALE_RECOVERY_STEP = 0.05;
+/** Cap for backoff when the provider gives no Retry-After */
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+interface Waiter {
+    tokens: number;
+    enqueuedAt: number;
+    resolve: (waitedMs: number) => void;
+    reject: (error: unknown) => void;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+}
+
+interface Bucket {
+    budget: RateLimitBudget | null;
+    requests: number;
+    tokens: number;
+    updatedAt: number;
+    scale: number;
+    blockedUntil: number;
+    consecutiveLimited: number;
+    queue: Waiter[];
+    timer: ReturnType<typeof setTimeout> | null;
+}
+
+export const getRateLimitKey = (provider: string, model: string): string => `${provider}:${model}`;
+
+/** Rule for a model, falling back to the provider-wide rule (empty model) */
+export function findRateLimitRule(rules: RateLimitRule[], provider: string, model: string): RateLimitRule | null {
+    return rules.find(rule => rule.provider === provider && rule.model === model)
+        ?? rules.find(rule => rule.provider === provider && !rule.model)
+        ?? null;
+}
+
+/** Rough prompt size in tokens (4 characters per token); completion tokens are charged from usage afterwards */
+export const estimateRequestTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/** Parses durations such as `20ms`, `1.5s`, `6m0s` (OpenAI x-ratelimit-reset-* headers) */
+const parseDurationMs = (value: string): number | null => {
+    const parts = value.match(/(\d+(?:\.\d+)?)(ms|s|m|h)/g);
+    if (!parts) return null;
+    const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+    return parts.reduce((total, part) => {
+        const [, amount, unit] = part.match(/(\d+(?:\.\d+)?)(ms|s|m|h)/)!;
+        return total + parseFloat(amount) * unitMs[unit];
+    }, 0);
+};
+
+/**
+ * How long the provider asked us to wait, from `retry-after-ms`, `retry-after` (seconds or
+ * HTTP date) or the OpenAI-style reset headers.
+ *
+ * @returns Milliseconds, or null when the response carries no hint
+ */
+export function parseRetryAfterMs(headers: { get(name: string): string | null } | null | undefined, now = Date.now()): number | null {
+    if (!headers) return null;
+    const retryAfterMs = headers.get('retry-after-ms');
+    if (retryAfterMs && Number.isFinite(Number(retryAfterMs))) return Math.max(0, Number(retryAfterMs));
+
+    const retryAfter = headers.get('retry-after');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) return Math.max(0, date - now);
+    }
+
+    const resets = ['x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens']
+        .map(name => headers.get(name))
+        .map(value => (value ? parseDurationMs(value) : null))
+        .filter((value): value is number => value !== null);
+    return resets.length > 0 ? Math.max(...resets) : null;
+}
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+export class RateLimitScheduler {
+    private buckets = new Map<string, Bucket>();
+
+    /** @param resolveBudget - Budget for a provider + model, or null when it is not limited */
+    constructor(private resolveBudget: (provider: string, model: string) => RateLimitBudget | null) { }
+
+    /**
+     * Wait until a request of `tokens` prompt tokens fits the key's budgets. Waiters are served
+     * in arrival order, so one large request cannot be starved by small ones.
+     *
+     * @returns Milliseconds spent waiting
+     */
+    acquire(provider: string, model: string, tokens: number, signal?: AbortSignal): Promise<number> {
+        if (signal?.aborted) return Promise.reject(abortError());
+        const bucket = this.getBucket(provider, model);
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = { tokens: Math.max(0, tokens), enqueuedAt: Date.now(), resolve, reject, signal };
+            if (signal) {
+                waiter.onAbort = () => {
+                    bucket.queue = bucket.queue.filter(w => w !== waiter);
+                    reject(abortError());
+                    this.pump(bucket);
+                };
+                signal.addEventListener('abort', waiter.onAbort, { once: true });
+            }
+            bucket.queue.push(waiter);
+            this.pump(bucket);
+        });
+    }
+
+    /**
+     * Settle a finished request: charge the difference between reserved and actual tokens,
+     * and let the refill rate recover after earlier 429s.
+     */
+    recordSuccess(provider: string, model: string, reservedTokens: number, actualTokens?: number): void {
+        const bucket = this.getBucket(provider, model);
+        if (actualTokens !== undefined && bucket.budget?.tpm) {
+            bucket.tokens -= actualTokens - reservedTokens;
+        }
+        bucket.consecutiveLimited = 0;
+        bucket.scale = Math.min(1, bucket.scale + SCALE_RECOVERY_STEP);
+        this.pump(bucket);
+    }
+
+    /**
+     * Pause the key after a 429 and halve its refill rate.
+     *
+     * @param retryAfterMs - Provider hint; without one the pause doubles per consecutive 429
+     * @returns The pause applied, in milliseconds
+     */
+    recordRateLimited(provider: string, model: string, retryAfterMs: number | null, fallbackDelayMs: number): number {
+        const bucket = this.getBucket(provider, model);
+        const pause = retryAfterMs ?? Math.min(MAX_BACKOFF_MS, fallbackDelayMs * Math.pow(2, bucket.consecutiveLimited));
+        bucket.consecutiveLimited++;
+        bucket.scale = Math.max(MIN_SCALE, bucket.scale / 2);
+        bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + pause);
+        // The next request after the pause should not find a full burst waiting
+        if (bucket.budget?.rpm) bucket.requests = Math.min(bucket.requests, 1);
+        this.pump(bucket);
+        return pause;
+    }
+
+    getState(): RateLimitKeyState[] {
+        const now = Date.now();
+        return [...this.buckets.entries()].map(([key, bucket]) => {
+            this.refill(bucket, now);
+            return {
+                key,
+                budget: bucket.budget,
+                availableRequests: bucket.budget?.rpm ? Math.floor(bucket.requests) : null,
+                availableTokens: bucket.budget?.tpm ? Math.floor(bucket.tokens) : null,
+                scale: bucket.scale,
+                blockedForMs: Math.max(0, bucket.blockedUntil - now),
+                queued: bucket.queue.length
+            };
+        });
+    }
+
+    private getBucket(provider: string, model: string): Bucket {
+        const key = getRateLimitKey(provider, model);
+        const budget = this.resolveBudget(provider, model);
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = {
+                budget,
+                requests: budget?.rpm || 0,
+                tokens: budget?.tpm || 0,
+                updatedAt: Date.now(),
+                scale: 1,
+                blockedUntil: 0,
+                consecutiveLimited: 0,
+                queue: [],
+                timer: null
+            };
+            this.buckets.set(key, bucket);
+        } else if (budget?.rpm !== bucket.budget?.rpm || budget?.tpm !== bucket.budget?.tpm) {
+            // Budgets changed in settings: keep what is left, within the new capacity
+            this.refill(bucket, Date.now());
+            bucket.requests = Math.min(bucket.requests, budget?.rpm || 0);
+            bucket.tokens = Math.min(bucket.tokens, budget?.tpm || 0);
+            bucket.budget = budget;
+        }
+        return bucket;
+    }
+
+    private refill(bucket: Bucket, now: number): void {
+        const elapsed = Math.max(0, now - bucket.updatedAt);
+        bucket.updatedAt = now;
+        if (!bucket.budget) return;
+        const { rpm, tpm } = bucket.budget;
+        if (rpm > 0) bucket.requests = Math.min(rpm, bucket.requests + (elapsed * rpm * bucket.scale) / 60000);
+        if (tpm > 0) bucket.tokens = Math.min(tpm, bucket.tokens + (elapsed * tpm * bucket.scale) / 60000);
+    }
+
+    /** Milliseconds until the head waiter fits, or 0 when it can go now */
+    private getWaitMs(bucket: Bucket, waiter: Waiter, now: number): number {
+        let wait = Math.max(0, bucket.blockedUntil - now);
+        if (!bucket.budget) return wait;
+        const { rpm, tpm } = bucket.budget;
+        if (rpm > 0 && bucket.requests < 1) {
+            wait = Math.max(wait, ((1 - bucket.requests) * 60000) / (rpm * bucket.scale));
+        }
+        // A request larger than the whole bucket goes once the bucket is full
+        const needed = Math.min(waiter.tokens, tpm);
+        if (tpm > 0 && bucket.tokens < needed) {
+            wait = Math.max(wait, ((needed - bucket.tokens) * 60000) / (tpm * bucket.scale));
+        }
+        return Math.ceil(wait);
+    }
+
+    private pump(bucket: Bucket): void {
+        if (bucket.timer) {
+            clearTimeout(bucket.timer);
+            bucket.timer = null;
+        }
+        const now = Date.now();
+        this.refill(bucket, now);
+        while (bucket.queue.length > 0) {
+            const waiter = bucket.queue[0];
+            const wait = this.getWaitMs(bucket, waiter, now);
+            if (wait > 0) {
+                bucket.timer = setTimeout(() => this.pump(bucket), wait);
+                return;
+            }
+            bucket.queue.shift();
+            if (bucket.budget?.rpm) bucket.requests -= 1;
+            if (bucket.budget?.tpm) bucket.tokens -= waiter.tokens;
+            if (waiter.signal && waiter.onAbort) waiter.signal.removeEventListener('abort', waiter.onAbort);
+            waiter.resolve(now - waiter.enqueuedAt);
+        }
+    }
+}
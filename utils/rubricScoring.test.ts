@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { RubricCriterion } from '../interfaces/config/ScoringRubric';
+import { buildRubricSystemPrompt, computeRubricOverall, parseRubricResponse } from './rubricScoring';
+
+const criteria: RubricCriterion[] = [
+    { id: 'correctness', name: 'Correctness', description: 'Is the answer right?', weight: 2 },
+    { id: 'clarity', name: 'Clarity', description: 'Is it easy to follow?', weight: 1 },
+    { id: 'style', name: 'Style', description: 'Recorded only', weight: 0 }
+];
+
+describe('buildRubricSystemPrompt', () => {
+    it('lists every criterion and the expected JSON keys', () => {
+        const prompt = buildRubricSystemPrompt(criteria);
+        expect(prompt).toContain('- "correctness" (Correctness): Is the answer right?');
+        expect(prompt).toContain('{"scores": {"correctness": <1-5>, "clarity": <1-5>, "style": <1-5>}');
+    });
+});
+
+describe('computeRubricOverall', () => {
+    it('weights the criteria and ignores zero-weight ones', () => {
+        // (5 * 2 + 2 * 1) / 3 = 4
+        expect(computeRubricOverall({ correctness: 5, clarity: 2, style: 1 }, criteria)).toBe(4);
+    });
+
+    it('is 0 when no weighted criterion was scored', () => {
+        expect(computeRubricOverall({ style: 5 }, criteria)).toBe(0);
+    });
+});
+
+describe('parseRubricResponse', () => {
+    it('reads scores and rationale around think blocks and code fences', () => {
+        const text = '<think>{"scores": {"correctness": 1}}</think>```json\n{"scores": {"correctness": 4, "clarity": 4.4, "style": 3}, "rationale": "Terse."}\n```';
+        expect(parseRubricResponse(text, criteria)).toEqual({
+            score: 4,
+            rubricScores: { correctness: 4, clarity: 4, style: 3 },
+            rubricRationale: 'Terse.'
+        });
+    });
+
+    it('accepts scores at the top level and drops out-of-range values', () => {
+        expect(parseRubricResponse('{"correctness": 3, "clarity": 9}', criteria)).toEqual({
+            score: 3,
+            rubricScores: { correctness: 3 },
+            rubricRationale: ''
+        });
+    });
+
+    it('is null without a usable weighted score', () => {
+        expect(parseRubricResponse('no json here', criteria)).toBeNull();
+        expect(parseRubricResponse('{"scores": {"style": 5}}', criteria)).toBeNull();
+    });
+});
@@ -0,0 +1,80 @@
+/**
+ * Rubric autoscoring helpers: judge prompt, response parsing and the weighted overall score.
+ * Mirrored on the backend in server/utils/rubricScoring.js.
+ */
+
+import type { RubricCriterion } from '../interfaces/config/ScoringRubric';
+
+export interface RubricResult {
+    /** Weighted mean of the criterion scores, rounded to a 1-5 star score */
+    score: number;
+    rubricScores: Record<string, number>;
+    rubricRationale: string;
+}
+
+export function buildRubricSystemPrompt(criteria: RubricCriterion[]): string {
+    const lines = criteria.map(c => `- "${c.id}" (${c.name}): ${c.description}`);
+    const example = criteria.map(c => `"${c.id}": <1-5>`).join(', ');
+    return `You are an expert evaluator. Score the item on each criterion below using a scale of 1-5, where 1 is poor and 5 is excellent.
+
+Criteria:
+${lines.join('\n')}
+
+Respond with ONLY a JSON object of the form:
+{"scores": {${example}}, "rationale": "<one or two sentences explaining the lowest scores>"}`;
+}
+
+// Pull the outermost JSON object out of a response that may include <think> blocks or code fences
+function extractJsonObject(text: string): Record<string, unknown> | null {
+    const cleaned = String(text || '').replace(/<think>[\s\S]*?<\/think>/gi, '').trim();
+    const start = cleaned.indexOf('{');
+    const end = cleaned.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+    try {
+        const parsed = JSON.parse(cleaned.slice(start, end + 1));
+        return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null;
+    } catch {
+        return null;
+    }
+}
+
+export function computeRubricOverall(rubricScores: Record<string, number>, criteria: RubricCriterion[]): number {
+    let weighted = 0;
+    let totalWeight = 0;
+    criteria.forEach(c => {
+        const value = rubricScores[c.id];
+        if (typeof value !== 'number' || c.weight <= 0) return;
+        weighted += value * c.weight;
+        totalWeight += c.weight;
+    });
+    if (totalWeight === 0) return 0;
+    return Math.min(5, Math.max(1, Math.round(weighted / totalWeight)));
+}
+
+/**
+ * Parse the judge's JSON. Criteria missing from the response are left out;
+ * returns null when no criterion could be read.
+ */
+export function parseRubricResponse(text: string, criteria: RubricCriterion[]): RubricResult | null {
+    const parsed = extractJsonObject(text);
+    if (!parsed) return null;
+
+    const rawScores = (parsed.scores && typeof parsed.scores === 'object' ? parsed.scores : parsed) as Record<string, unknown>;
+    const rubricScores: Record<string, number> = {};
+    criteria.forEach(c => {
+        const value = Number(rawScores[c.id]);
+        if (Number.isFinite(value) && value >= 1 && value <= 5) {
+            rubricScores[c.id] = Math.round(value);
+        }
+    });
+    if (Object.keys(rubricScores).length === 0) return null;
+
+    const score = computeRubricOverall(rubricScores, criteria);
+    if (score === 0) return null;
+
+    return {
+        score,
+        rubricScores,
+        rubricRationale: typeof parsed.rationale === 'string' ? parsed.rationale : ''
+    };
+}
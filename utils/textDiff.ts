@@ -0,0 +1,71 @@
+/**
+ * Word-level diff used for side-by-side comparisons.
+ * LCS-based; inputs above MAX_DIFF_TOKENS are compared as whole blocks to keep the table bounded.
+ */
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+    type: DiffSegmentType;
+    text: string;
+}
+
+const MAX_DIFF_TOKENS = 1500;
+
+const tokenize = (text: string): string[] => (text || '').split(/(\s+)/).filter(token => token.length > 0);
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegmentType, text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+        last.text += text;
+    } else {
+        segments.push({ type, text });
+    }
+};
+
+/**
+ * Diff `base` against `other`. Segments of type `removed` exist only in `base`,
+ * `added` only in `other`.
+ */
+export function diffWords(base: string, other: string): DiffSegment[] {
+    if (base === other) return base ? [{ type: 'equal', text: base }] : [];
+
+    const a = tokenize(base);
+    const b = tokenize(other);
+    if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+        const segments: DiffSegment[] = [];
+        if (base) segments.push({ type: 'removed', text: base });
+        if (other) segments.push({ type: 'added', text: other });
+        return segments;
+    }
+
+    // lengths[i][j] = LCS length of a[i:] and b[j:]
+    const lengths: Uint16Array[] = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            pushSegment(segments, 'equal', a[i]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            pushSegment(segments, 'removed', a[i]);
+            i++;
+        } else {
+            pushSegment(segments, 'added', b[j]);
+            j++;
+        }
+    }
+    while (i < a.length) pushSegment(segments, 'removed', a[i++]);
+    while (j < b.length) pushSegment(segments, 'added', b[j++]);
+    return segments;
+}